@@ -4,42 +4,57 @@ import { useCart } from "@/hooks/useCart";
 import { useVendor } from "@/hooks/api/useVendor";
 import { useAddresses } from "@/hooks/api/useAddresses";
 import { useAuth } from "@/hooks/useAuth";
-import { Trash2, Zap, ShieldCheck, MapPin, ChevronRight, Plus, Check, Truck, Package, Loader2 } from "lucide-react";
+import { Trash2, Zap, ShieldCheck, MapPin, ChevronRight, Plus, Check, Truck, Package, Loader2, Tag, CalendarClock, Moon, Users } from "lucide-react";
 import Link from "next/link";
 import { ImageWithFallback } from "@/components/ui/ImageWithFallback";
 import { useState, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
+import { appConfig } from "@/lib/config/app";
 import { Drawer } from "vaul";
 import { Input } from "@/components/ui/input";
 import { EmptyCart } from "@/components/empty/EmptyCart";
-import { appConfig } from "@/lib/config/app";
+import { SplitShipmentSheet } from "@/components/customer/cart/SplitShipmentSheet";
+import { CartVendorHeader } from "@/components/customer/cart/CartVendorHeader";
 import { searchPlaces, getPlaceDetails, parseAddress } from "@/lib/services/google-places";
 import { logger } from "@/lib/utils/logger";
 import { useToast } from "@/hooks/useToast";
-import { calculateMaxCashbackUsage, isEligibleForCashback } from "@/lib/utils/cashback";
-import { apiClient } from "@/lib/api/client";
+import { apiClient, ApiClientError } from "@/lib/api/client";
 import { ErrorBoundary } from "@/components/errors/ErrorBoundary";
-import { calculateItemPrice } from "@/lib/utils/pricing";
 import { openRazorpayCheckout, type RazorpayPaymentResponse, type RazorpayError } from "@/lib/services/razorpay-checkout";
+import type { CheckoutQuoteResult, SplitCheckoutQuoteResult } from "@/lib/services/checkout-quote";
+import type { AvailableDeliverySlot } from "@/lib/services/delivery-slots";
+import type { CreatedSplitCheckout } from "@/lib/services/checkouts";
 
 export default function CartPage() {
-  const { items, totalPrice, vendorId, removeItem, clearCart } = useCart();
-  const [deliveryType, setDeliveryType] = useState<"standard" | "express">("standard");
+  const { items, vendorId, vendorIds, removeItem, clearCart } = useCart();
+  const [deliveryType, setDeliveryType] = useState<"standard" | "express" | "scheduled">("standard");
+  const [deliverySlots, setDeliverySlots] = useState<AvailableDeliverySlot[] | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<{ date: string; slot: string } | null>(null);
   const [isAddressSheetOpen, setIsAddressSheetOpen] = useState(false);
+  const [isSplitSheetOpen, setIsSplitSheetOpen] = useState(false);
   const [useCashback, setUseCashback] = useState(false);
   const [gstin, setGstin] = useState("");
   const [isPaymentProcessing, setIsPaymentProcessing] = useState(false);
   const [isSavingAddress, setIsSavingAddress] = useState(false);
-  const [cashbackBalance, setCashbackBalance] = useState(0);
-  const [walletLoading, setWalletLoading] = useState(true);
+  const [checkoutQuote, setCheckoutQuote] = useState<CheckoutQuoteResult | null>(null);
+  const [groupedQuote, setGroupedQuote] = useState<SplitCheckoutQuoteResult | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [quoteRefreshKey, setQuoteRefreshKey] = useState(0);
+  const [couponInput, setCouponInput] = useState("");
+  const [couponCode, setCouponCode] = useState<string | null>(null);
   const router = useRouter();
   const toast = useToast();
   const loginRedirectTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   const { vendor } = useVendor(vendorId);
-  const isIntercity = vendor && !vendor.isHyperlocal;
+  const quote = checkoutQuote?.quote;
+  // Items from several vendors are checked out as one order per vendor, paid together
+  const isMultiVendor = vendorIds.length > 1;
+  const isIntercity = isMultiVendor
+    ? groupedQuote?.shipments.some((shipment) => shipment.quote.deliveryType === "intercity")
+    : quote ? quote.deliveryType === "intercity" : vendor && !vendor.isHyperlocal;
 
   // Get userId from auth session
   const { user, loading: authLoading } = useAuth();
@@ -190,28 +205,171 @@ export default function CartPage() {
     }
   };
 
-  // Fetch wallet balance
+  // Cart lines sent for pricing - the server looks up every price
+  const quoteItems = useMemo(() => {
+    if (!items || !Array.isArray(items)) return [];
+    return items.map((item) => ({
+      productId: item.id,
+      quantity: item.quantity,
+      selectedVariants: item.selectedVariants,
+      selectedAddOns: item.selectedAddOns,
+    }));
+  }, [items]);
+
+  // The cart's lines grouped by vendor, keeping each line's index in the cart
+  const vendorGroups = useMemo(
+    () => vendorIds.map((groupVendorId) => ({
+      vendorId: groupVendorId,
+      lines: items
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => item.vendorId === groupVendorId),
+    })),
+    [vendorIds, items]
+  );
+
+  // Quoted price of every cart line, from the single or the grouped quote
+  const lineTotals = useMemo(() => {
+    const totals: Array<number | undefined> = items.map((_, index) => quote?.items[index]?.lineTotal);
+    if (!isMultiVendor) return totals;
+
+    for (const group of vendorGroups) {
+      const shipment = groupedQuote?.shipments.find((candidate) => candidate.quote.vendorId === group.vendorId);
+      group.lines.forEach(({ index }, position) => {
+        totals[index] = shipment?.quote.items[position]?.lineTotal;
+      });
+    }
+    return totals;
+  }, [items, quote, isMultiVendor, vendorGroups, groupedQuote]);
+
+  // Fetch a signed checkout quote whenever the cart, address, speed or cashback choice changes
   useEffect(() => {
-    if (!userId) {
-      setWalletLoading(false);
+    if (!userId || !vendorId || !selectedAddress || quoteItems.length === 0) {
+      setCheckoutQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setQuoteLoading(true);
+      try {
+        const response = await apiClient.post<CheckoutQuoteResult>("/checkout/quote", {
+          vendorId,
+          items: quoteItems,
+          addressId: selectedAddress.id,
+          // A scheduled slot is priced as standard delivery
+          deliverySpeed: deliveryType === "express" ? "express" : "standard",
+          ...(deliveryType === "scheduled" && selectedSlot ? { deliverySlot: selectedSlot } : {}),
+          useCashback,
+          ...(couponCode ? { couponCode } : {}),
+        });
+        if (!cancelled) setCheckoutQuote(response);
+      } catch (error) {
+        logger.error("[Cart] Failed to fetch checkout quote", error);
+        const errorCode = error instanceof ApiClientError
+          ? (error.details as { code?: string } | undefined)?.code
+          : undefined;
+        if (!cancelled && couponCode && errorCode?.startsWith("COUPON_")) {
+          // Drop the coupon and re-quote without it
+          toast.error("Coupon not applied", error instanceof ApiClientError ? error.message : undefined);
+          setCouponCode(null);
+        } else if (!cancelled && selectedSlot && errorCode?.startsWith("SLOT_")) {
+          // The slot was taken or no longer fits; let the customer pick again
+          toast.error("Delivery slot unavailable", error instanceof ApiClientError ? error.message : undefined);
+          setSelectedSlot(null);
+          setDeliverySlots(null);
+        } else if (!cancelled) {
+          setCheckoutQuote(null);
+          toast.error(
+            "Unable to price your order",
+            error instanceof ApiClientError ? error.message : "Please try again"
+          );
+        }
+      } finally {
+        if (!cancelled) setQuoteLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, vendorId, selectedAddress?.id, quoteItems, deliveryType, selectedSlot, useCashback, couponCode, quoteRefreshKey]);
+
+  // Multi-vendor carts are priced as one shipment per vendor, each with its own delivery fee
+  useEffect(() => {
+    if (!userId || !isMultiVendor || !selectedAddress) {
+      setGroupedQuote(null);
       return;
     }
 
-    const fetchWallet = async () => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setQuoteLoading(true);
       try {
-        setWalletLoading(true);
-        const response = await apiClient.get<{ wallet: { balance: number } }>("/users/wallet");
-        setCashbackBalance(response.wallet.balance || 0);
+        const response = await apiClient.post<SplitCheckoutQuoteResult>("/checkout/grouped/quote", {
+          addressId: selectedAddress.id,
+          vendors: vendorGroups.map((group) => ({
+            vendorId: group.vendorId,
+            items: group.lines.map(({ index }) => quoteItems[index]),
+          })),
+          deliverySpeed: deliveryType === "express" ? "express" : "standard",
+          useCashback,
+        });
+        if (!cancelled) setGroupedQuote(response);
       } catch (error) {
-        logger.error("[Cart] Failed to fetch wallet", error);
-        setCashbackBalance(0);
+        logger.error("[Cart] Failed to fetch grouped checkout quote", error);
+        if (!cancelled) {
+          setGroupedQuote(null);
+          toast.error(
+            "Unable to price your order",
+            error instanceof ApiClientError ? error.message : "Please try again"
+          );
+        }
       } finally {
-        setWalletLoading(false);
+        if (!cancelled) setQuoteLoading(false);
       }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, isMultiVendor, selectedAddress?.id, vendorGroups, quoteItems, deliveryType, useCashback, quoteRefreshKey]);
+
+  // Load bookable slots when the customer chooses a scheduled delivery
+  useEffect(() => {
+    if (deliveryType !== "scheduled" || !vendorId || quoteItems.length === 0 || deliverySlots) return;
+
+    const productIds = Array.from(new Set(quoteItems.map((item) => item.productId))).join(",");
+    apiClient.get<{ slots: AvailableDeliverySlot[] }>(`/vendors/${vendorId}/delivery-slots?productIds=${productIds}`)
+      .then((response) => setDeliverySlots(response?.slots || []))
+      .catch((error) => {
+        logger.error("[Cart] Failed to fetch delivery slots", error);
+        setDeliverySlots([]);
+      });
+  }, [deliveryType, vendorId, quoteItems, deliverySlots]);
+
+  // Scheduled delivery is local only, and booked with a single vendor
+  useEffect(() => {
+    if ((isIntercity || isMultiVendor) && deliveryType === "scheduled") setDeliveryType("standard");
+  }, [isIntercity, isMultiVendor, deliveryType]);
+
+  // The cart decides the lead time, so slots are reloaded when it changes
+  useEffect(() => {
+    setDeliverySlots(null);
+    setSelectedSlot(null);
+  }, [quoteItems]);
 
-    fetchWallet();
-  }, [userId]);
+  // Refresh the quote shortly before it expires
+  useEffect(() => {
+    const expiresAt = checkoutQuote?.expiresAt ?? groupedQuote?.expiresAt;
+    if (!expiresAt) return;
+    const refreshIn = new Date(expiresAt).getTime() - Date.now() - 30 * 1000;
+    const timer = setTimeout(() => setQuoteRefreshKey((key) => key + 1), Math.max(refreshIn, 0));
+    return () => clearTimeout(timer);
+  }, [checkoutQuote, groupedQuote]);
 
   // Show loading state while fetching auth
   if (authLoading) {
@@ -244,41 +402,24 @@ export default function CartPage() {
     );
   }
 
-  const deliveryFee = isIntercity 
-    ? (deliveryType === "express" ? appConfig.delivery.intercity.express : appConfig.delivery.intercity.standard)
-    : (deliveryType === "express" ? appConfig.delivery.local.express : appConfig.delivery.local.standard);
-  
-  const platformFee = appConfig.platformFee;
-  const orderValue = totalPrice + deliveryFee + platformFee;
-  const canUseCashback = isEligibleForCashback(orderValue) && cashbackBalance > 0;
-  const maxCashbackUsage = canUseCashback 
-    ? calculateMaxCashbackUsage(orderValue, cashbackBalance)
-    : 0;
-  const cashbackDeduction = useCashback && canUseCashback ? maxCashbackUsage : 0;
-  const finalTotal = orderValue - cashbackDeduction;
-
-  // Memoized orderItems transformation
-  const orderItems = useMemo(() => {
-    if (!items || !Array.isArray(items)) return [];
-    return items.map((item) => {
-      const itemPrice = calculateItemPrice({
-        price: item.price,
-        variants: item.variants,
-        addOns: item.addOns,
-        selectedVariants: item.selectedVariants,
-        selectedAddOns: item.selectedAddOns,
-      });
-
-      return {
-        productId: item.id,
-        quantity: item.quantity,
-        price: itemPrice,
-        variants: item.selectedVariants,
-        addOns: item.selectedAddOns,
-        customization: item.customization,
-      };
-    });
-  }, [items]);
+  // Bill of the whole cart: the single quote, or every vendor's shipment added up
+  const groupedQuotes = groupedQuote?.shipments.map((shipment) => shipment.quote) ?? [];
+  const sumGrouped = (pick: (shipmentQuote: NonNullable<typeof quote>) => number) =>
+    Math.round(groupedQuotes.reduce((total, shipmentQuote) => total + pick(shipmentQuote), 0) * 100) / 100;
+  const cashbackOffer = isMultiVendor
+    ? groupedQuote && groupedQuotes.length > 0
+      ? { walletBalance: groupedQuotes[0].walletBalance, maxCashbackUsage: sumGrouped((q) => q.maxCashbackUsage) }
+      : null
+    : quote ?? null;
+  const canUseCashback = !!cashbackOffer && cashbackOffer.maxCashbackUsage > 0;
+  const deliveryOptions = isMultiVendor
+    ? groupedQuote && groupedQuotes.length > 0
+      ? {
+          standard: sumGrouped((q) => q.deliveryOptions.standard),
+          express: sumGrouped((q) => q.deliveryOptions.express),
+        }
+      : undefined
+    : checkoutQuote?.deliveryOptions;
 
   // Cleanup timer on unmount
   useEffect(() => {
@@ -316,32 +457,34 @@ export default function CartPage() {
       return;
     }
 
+    if (isMultiVendor) {
+      await handleGroupedPayment();
+      return;
+    }
+
     if (!vendorId) {
       toast.error("Invalid vendor", "Please try again");
       return;
     }
 
+    if (!checkoutQuote || quoteLoading) {
+      toast.error("Calculating your total", "Please wait a moment and try again");
+      return;
+    }
+
     setIsPaymentProcessing(true);
     
     // Show loading state immediately
     toast.info("Processing order...", "Please wait");
     
     try {
-      // Prepare order payload (use memoized orderItems)
+      // Amounts come from the signed quote - only customizations are sent alongside it
       const orderPayload = {
-        vendorId,
-        items: orderItems,
-        deliveryAddress: {
-          name: selectedAddress.name,
-          phone: selectedAddress.phone,
-          address: selectedAddress.address,
-          city: selectedAddress.city,
-          pincode: selectedAddress.pincode,
-        },
-        deliveryFee,
-        platformFee,
-        cashbackUsed: cashbackDeduction,
-        deliveryType: isIntercity ? "intercity" : "local",
+        quoteToken: checkoutQuote.quoteToken,
+        items: items.map((item) => ({
+          productId: item.id,
+          customization: item.customization,
+        })),
         ...(gstin.trim() ? { gstin: gstin.trim() } : {}),
       };
 
@@ -360,7 +503,7 @@ export default function CartPage() {
 
       // If Razorpay order ID is available, open checkout
       if (razorpayOrderId) {
-        const amountInPaise = Math.round(totalPrice * 100);
+        const amountInPaise = Math.round(response.total * 100);
         
         // Open Razorpay checkout
         await openRazorpayCheckout({
@@ -451,6 +594,16 @@ export default function CartPage() {
         return;
       }
       
+      // Quote expired or went stale - fetch a fresh one so the customer can review the new total
+      const quoteErrorCode = error instanceof ApiClientError && error.status === 409
+        ? (error.details as { code?: string } | undefined)?.code
+        : undefined;
+      if (quoteErrorCode === "QUOTE_EXPIRED" || quoteErrorCode === "QUOTE_STALE") {
+        setQuoteRefreshKey((key) => key + 1);
+        toast.error("Prices have been updated", "Please review your order total and try again.");
+        return;
+      }
+
       if (isApiError(error) && error.status === 400) {
         const errorMessage = error.data?.error || "Invalid order data";
         const details = error.data?.details;
@@ -483,6 +636,109 @@ export default function CartPage() {
     }
   };
 
+  // Multi-vendor cart: one order per vendor from the grouped quote, paid together
+  const handleGroupedPayment = async () => {
+    if (!groupedQuote || quoteLoading) {
+      toast.error("Calculating your total", "Please wait a moment and try again");
+      return;
+    }
+
+    setIsPaymentProcessing(true);
+    try {
+      // Customizations follow each vendor's quoted lines
+      const checkout = await apiClient.post<CreatedSplitCheckout>("/checkout/split", {
+        quoteToken: groupedQuote.quoteToken,
+        shipments: groupedQuote.shipments.map((shipment) => ({
+          items: shipment.quote.items.map((line) => ({
+            productId: line.productId,
+            customization: items.find((item) => item.id === line.productId && item.vendorId === shipment.quote.vendorId)?.customization,
+          })),
+        })),
+        ...(gstin.trim() ? { gstin: gstin.trim() } : {}),
+      });
+      setIsPaymentProcessing(false);
+      await handleSplitCheckout(checkout);
+    } catch (error) {
+      logger.error("[Cart] Grouped checkout failed", error);
+      setIsPaymentProcessing(false);
+      const code = error instanceof ApiClientError ? (error.details as { code?: string } | undefined)?.code : undefined;
+      if (code === "QUOTE_EXPIRED" || code === "QUOTE_STALE") {
+        setQuoteRefreshKey((key) => key + 1);
+        toast.error("Prices have been updated", "Please review your order total and try again.");
+      } else {
+        toast.error("Order failed", error instanceof ApiClientError ? error.message : "Please try again");
+      }
+    }
+  };
+
+  // Split shipments and multi-vendor carts: one payment for all of the checkout's orders
+  const handleSplitCheckout = async (checkout: CreatedSplitCheckout) => {
+    setIsSplitSheetOpen(false);
+    const orderNumbers = checkout.orders.map((order) => `#${order.orderNumber}`).join(", ");
+    const recipients = Array.from(new Set(checkout.orders.map((order) => order.recipient)));
+
+    if (!checkout.paymentId) {
+      logger.warn("[Cart] No Razorpay order ID for split checkout", checkout);
+      clearCart();
+      toast.success("Orders placed successfully!", `${orderNumbers}. Redirecting to orders...`);
+      setTimeout(() => router.push("/orders"), 1000);
+      return;
+    }
+
+    setIsPaymentProcessing(true);
+    try {
+      await openRazorpayCheckout({
+        orderId: checkout.paymentId,
+        amount: Math.round(checkout.total * 100),
+        currency: "INR",
+        name: "WyshKit",
+        description: `${checkout.orders.length} orders for ${recipients.join(", ")}`,
+        prefill: {
+          name: user?.name || undefined,
+          contact: user?.phone || undefined,
+        },
+        handler: async (paymentResponse: RazorpayPaymentResponse) => {
+          try {
+            const verifyResponse = await apiClient.post<{ success: boolean }>("/payment/verify", {
+              razorpay_payment_id: paymentResponse.razorpay_payment_id,
+              razorpay_order_id: paymentResponse.razorpay_order_id,
+              razorpay_signature: paymentResponse.razorpay_signature,
+              checkoutId: checkout.checkoutId,
+            });
+
+            if (verifyResponse.success) {
+              clearCart();
+              toast.success("Payment successful!", `Orders ${orderNumbers} confirmed. Redirecting...`);
+              setTimeout(() => router.push("/orders"), 1000);
+            } else {
+              toast.error("Payment verification failed", "Please contact support with your order numbers");
+              router.push("/orders");
+            }
+          } catch (verifyError) {
+            logger.error("[Cart] Split payment verification failed", verifyError);
+            toast.error("Payment verification failed", "Please contact support with your order numbers");
+            router.push("/orders");
+          } finally {
+            setIsPaymentProcessing(false);
+          }
+        },
+        onError: (error: RazorpayError) => {
+          logger.error("[Cart] Razorpay payment error", error);
+          setIsPaymentProcessing(false);
+          if (error.code === "USER_CLOSED") {
+            toast.error("Payment cancelled", "You can try again when ready");
+          } else {
+            toast.error("Payment failed", error.description || "Please try again or use a different payment method");
+          }
+        },
+      });
+    } catch (error) {
+      logger.error("[Cart] Failed to open split payment", error);
+      toast.error("Payment failed", "Please try again");
+      setIsPaymentProcessing(false);
+    }
+  };
+
   const handleAddressSelect = (address: typeof savedAddresses[0]) => {
     setSelectedAddress({
       id: address.id,
@@ -528,6 +784,17 @@ export default function CartPage() {
             </div>
             <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0 mt-2" />
           </button>
+          {vendorId && savedAddresses.length > 1 && (
+            <button
+              type="button"
+              onClick={() => setIsSplitSheetOpen(true)}
+              className="w-full px-4 py-2.5 border-t flex items-center gap-2 text-sm text-primary font-medium hover:bg-muted/50 transition-colors"
+              aria-label="Send this cart to several people"
+            >
+              <Users className="w-4 h-4" />
+              Send to several people
+            </button>
+          )}
         </div>
 
         {vendor && (
@@ -564,42 +831,51 @@ export default function CartPage() {
           </div>
           
           <div className="divide-y">
-            {(items && Array.isArray(items) ? items : []).map((item) => (
-              <div key={item.id} className="flex gap-4 p-4">
-                <div className="relative w-16 h-16 rounded-xl overflow-hidden shrink-0">
-                  <ImageWithFallback src={item.image} alt={item.name} fill sizes="64px" className="object-cover" />
-                </div>
-                <div className="flex-1 min-w-0">
-                  <h4 className="font-semibold text-base truncate">{item.name}</h4>
-                  <p className="text-sm text-muted-foreground">Qty: {item.quantity}</p>
-                  <p className="text-lg font-bold mt-0.5">
-                    ₹{calculateItemPrice({
-                      price: item.price,
-                      variants: item.variants,
-                      addOns: item.addOns,
-                      selectedVariants: item.selectedVariants,
-                      selectedAddOns: item.selectedAddOns,
-                    }) * item.quantity}
-                  </p>
-                </div>
-                <button 
-                  type="button"
-                  onClick={() => removeItem(item.id)} 
-                  className="text-muted-foreground hover:text-destructive p-1 h-fit"
-                  aria-label={`Remove ${item.name} from cart`}
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
+            {vendorGroups.map((group) => (
+              <div key={group.vendorId} className="divide-y">
+                {isMultiVendor && (
+                  <CartVendorHeader
+                    vendorId={group.vendorId}
+                    quote={groupedQuote?.shipments.find((shipment) => shipment.quote.vendorId === group.vendorId)?.quote}
+                  />
+                )}
+                {group.lines.map(({ item, index }) => (
+                  <div key={item.id} className="flex gap-4 p-4">
+                    <div className="relative w-16 h-16 rounded-xl overflow-hidden shrink-0">
+                      <ImageWithFallback src={item.image} alt={item.name} fill sizes="64px" className="object-cover" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h4 className="font-semibold text-base truncate">{item.name}</h4>
+                      <p className="text-sm text-muted-foreground">Qty: {item.quantity}</p>
+                      <p className="text-lg font-bold mt-0.5">
+                        {lineTotals[index] !== undefined ? `₹${lineTotals[index].toLocaleString("en-IN")}` : "—"}
+                      </p>
+                    </div>
+                    <button 
+                      type="button"
+                      onClick={() => removeItem(item.id)} 
+                      className="text-muted-foreground hover:text-destructive p-1 h-fit"
+                      aria-label={`Remove ${item.name} from cart`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
               </div>
             ))}
           </div>
+          {isMultiVendor && (
+            <p className="px-4 py-2.5 border-t text-xs text-muted-foreground">
+              Each partner ships separately, so you&apos;ll get {vendorIds.length} orders paid together.
+            </p>
+          )}
         </div>
 
         <div className="bg-background rounded-xl border overflow-hidden">
           <div className="p-4 border-b">
             <h3 className="text-base md:text-lg font-bold text-foreground">Delivery</h3>
           </div>
-          <div className="p-4 grid grid-cols-2 gap-3">
+          <div className={cn("p-4 grid gap-3", isIntercity || isMultiVendor ? "grid-cols-2" : "grid-cols-3")}>
             <button 
               type="button"
               className={cn(
@@ -607,7 +883,7 @@ export default function CartPage() {
                 deliveryType === 'standard' ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/20'
               )}
               onClick={() => setDeliveryType('standard')}
-              aria-label={`Select standard delivery - ${isIntercity ? "2-5 days" : "40 min"} - ₹${isIntercity ? 99 : 49}`}
+              aria-label={`Select standard delivery - ${isIntercity ? "2-5 days" : "40 min"} - ₹${deliveryOptions?.standard ?? "—"}`}
             >
               <div className="flex items-center gap-2 mb-1.5">
                 <Truck className="w-4 h-4 text-muted-foreground" />
@@ -616,7 +892,7 @@ export default function CartPage() {
               <p className="text-xs text-muted-foreground mb-1.5">
                 {isIntercity ? "2-5 days" : "40 min"}
               </p>
-              <span className="text-base font-bold">₹{isIntercity ? 99 : 49}</span>
+              <span className="text-base font-bold">{deliveryOptions ? `₹${deliveryOptions.standard}` : "—"}</span>
             </button>
             <button 
               type="button"
@@ -625,7 +901,7 @@ export default function CartPage() {
                 deliveryType === 'express' ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/20'
               )}
               onClick={() => setDeliveryType('express')}
-              aria-label={`Select express delivery - ${isIntercity ? "1-2 days" : "60 min"} - ₹${isIntercity ? 199 : 149}`}
+              aria-label={`Select express delivery - ${isIntercity ? "1-2 days" : "60 min"} - ₹${deliveryOptions?.express ?? "—"}`}
             >
               <div className="flex items-center gap-2 mb-1.5">
                 <Zap className="w-4 h-4 text-primary" />
@@ -634,9 +910,82 @@ export default function CartPage() {
               <p className="text-xs text-muted-foreground mb-1.5">
                 {isIntercity ? "1-2 days" : "60 min"}
               </p>
-              <span className="text-base font-bold">₹{isIntercity ? 199 : 149}</span>
+              <span className="text-base font-bold">{deliveryOptions ? `₹${deliveryOptions.express}` : "—"}</span>
             </button>
+            {!isIntercity && !isMultiVendor && (
+              <button
+                type="button"
+                className={cn(
+                  "p-4 rounded-xl border text-left transition-all hover:shadow-md",
+                  deliveryType === 'scheduled' ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/20'
+                )}
+                onClick={() => setDeliveryType('scheduled')}
+                aria-label={`Schedule delivery for a date and time - ₹${deliveryOptions?.standard ?? "—"}`}
+              >
+                <div className="flex items-center gap-2 mb-1.5">
+                  <CalendarClock className="w-4 h-4 text-primary" />
+                  <span className="text-sm font-semibold">Schedule</span>
+                </div>
+                <p className="text-xs text-muted-foreground mb-1.5">Pick a day</p>
+                <span className="text-base font-bold">{deliveryOptions ? `₹${deliveryOptions.standard}` : "—"}</span>
+              </button>
+            )}
           </div>
+          {deliveryType === "scheduled" && !isIntercity && !isMultiVendor && (
+            <div className="px-4 pb-4 space-y-3">
+              {!deliverySlots ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Loading slots...
+                </div>
+              ) : deliverySlots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No delivery slots are open for this cart right now.</p>
+              ) : (
+                Array.from(new Set(deliverySlots.map((slot) => slot.date))).map((date) => (
+                  <div key={date}>
+                    <p className="text-xs font-semibold text-muted-foreground mb-1.5">
+                      {new Date(`${date}T00:00:00+05:30`).toLocaleDateString("en-IN", {
+                        weekday: "short",
+                        day: "numeric",
+                        month: "short",
+                        timeZone: "Asia/Kolkata",
+                      })}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {deliverySlots.filter((slot) => slot.date === date).map((slot) => {
+                        const isSelected = selectedSlot?.date === slot.date && selectedSlot.slot === slot.slot;
+                        const isMidnight = slot.slot === appConfig.delivery.midnight.slot.id;
+                        return (
+                          <button
+                            key={`${slot.date}-${slot.slot}`}
+                            type="button"
+                            disabled={slot.remaining === 0}
+                            onClick={() => setSelectedSlot({ date: slot.date, slot: slot.slot })}
+                            className={cn(
+                              "px-3 py-1.5 rounded-lg border text-xs transition-all",
+                              isSelected ? "border-primary bg-primary/5 font-semibold" : "border-border hover:border-primary/20",
+                              slot.remaining === 0 && "opacity-50 cursor-not-allowed line-through",
+                              isMidnight && "inline-flex items-center gap-1"
+                            )}
+                          >
+                            {isMidnight && <Moon className="w-3 h-3 text-primary" />}
+                            {slot.label}
+                            {isMidnight && ` (+₹${appConfig.delivery.midnight.surcharge})`}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))
+              )}
+              {selectedSlot?.slot === appConfig.delivery.midnight.slot.id && (
+                <p className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                  <Moon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-primary" />
+                  Surprise delivery: the courier won&apos;t call the recipient before arriving and will contact you instead.
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="bg-background rounded-xl border overflow-hidden">
@@ -654,7 +1003,55 @@ export default function CartPage() {
           </div>
         </div>
 
-        {canUseCashback && !walletLoading && (
+        {!isMultiVendor && (
+        <div className="bg-background rounded-xl border overflow-hidden">
+          <div className="p-4 border-b">
+            <h3 className="text-base md:text-lg font-bold text-foreground">Apply Coupon</h3>
+          </div>
+          <div className="p-4">
+            {couponCode && quote?.coupon ? (
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Tag className="w-4 h-4 text-green-600 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold font-mono truncate">{quote.coupon.code}</p>
+                    <p className="text-xs text-green-600">You save ₹{quote.couponDiscount.toLocaleString("en-IN")}</p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setCouponCode(null)}
+                  className="text-sm text-primary font-medium"
+                  aria-label={`Remove coupon ${quote.coupon.code}`}
+                >
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (couponInput.trim()) setCouponCode(couponInput.trim().toUpperCase());
+                }}
+              >
+                <Input
+                  placeholder="Enter coupon code"
+                  value={couponInput}
+                  onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                  className="h-10 text-sm"
+                  maxLength={32}
+                />
+                <Button type="submit" variant="outline" className="h-10" disabled={!couponInput.trim() || quoteLoading}>
+                  Apply
+                </Button>
+              </form>
+            )}
+          </div>
+        </div>
+        )}
+
+        {canUseCashback && cashbackOffer && (
           <button
             type="button"
             onClick={() => setUseCashback(!useCashback)}
@@ -662,7 +1059,7 @@ export default function CartPage() {
               "w-full bg-background rounded-xl p-4 border flex items-center gap-3 transition-colors",
               useCashback && "border-primary bg-primary/5"
             )}
-            aria-label={useCashback ? "Disable cashback" : `Use ₹${(cashbackBalance || 0).toLocaleString("en-IN")} cashback`}
+            aria-label={useCashback ? "Disable cashback" : `Use ₹${cashbackOffer.walletBalance.toLocaleString("en-IN")} cashback`}
           >
             <div className={cn(
               "w-5 h-5 rounded border flex items-center justify-center transition-colors",
@@ -671,40 +1068,98 @@ export default function CartPage() {
               {useCashback && <Check className="w-3 h-3 text-white" strokeWidth={3} />}
             </div>
             <div className="flex-1 text-left">
-              <p className="text-sm font-medium">Use ₹{(cashbackBalance || 0).toLocaleString("en-IN")} cashback</p>
-              <p className="text-xs text-muted-foreground">Save up to ₹{(maxCashbackUsage || 0).toLocaleString("en-IN")}</p>
+              <p className="text-sm font-medium">Use ₹{cashbackOffer.walletBalance.toLocaleString("en-IN")} cashback</p>
+              <p className="text-xs text-muted-foreground">Save up to ₹{cashbackOffer.maxCashbackUsage.toLocaleString("en-IN")}</p>
             </div>
           </button>
         )}
 
         <div className="bg-background rounded-xl p-4 border">
           <h3 className="text-base md:text-lg font-bold text-foreground mb-4">Bill Summary</h3>
+          {isMultiVendor ? (
           <div className="space-y-3 text-base">
             <div className="flex justify-between">
               <span className="text-muted-foreground">Item Total</span>
-              <span className="font-semibold">₹{(totalPrice || 0).toLocaleString("en-IN")}</span>
+              <span className="font-semibold">{groupedQuote ? `₹${groupedQuote.itemTotal.toLocaleString("en-IN")}` : "—"}</span>
             </div>
             <div className="flex justify-between">
-              <span className="text-muted-foreground">Delivery</span>
-              <span className="font-semibold">₹{deliveryFee}</span>
+              <span className="text-muted-foreground">Delivery ({vendorIds.length} partners)</span>
+              <span className="font-semibold">{groupedQuote ? `₹${groupedQuote.deliveryFee.toLocaleString("en-IN")}` : "—"}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Platform Fee ({vendorIds.length} orders)</span>
+              <span className="font-semibold">{groupedQuote ? `₹${groupedQuote.platformFee}` : "—"}</span>
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">Each partner ships a separate order, with its own platform fee</p>
+            {groupedQuote && groupedQuote.cashbackUsed > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Cashback</span>
+                <span className="font-semibold">-₹{groupedQuote.cashbackUsed}</span>
+              </div>
+            )}
+            <div className="border-t pt-3 mt-3">
+              <div className="flex justify-between font-bold text-lg">
+                <span>Total</span>
+                <span>{groupedQuote ? `₹${groupedQuote.total.toLocaleString("en-IN")}` : "—"}</span>
+              </div>
+              {groupedQuote && (
+                <p className="text-xs text-muted-foreground text-right mt-1">
+                  Includes ₹{sumGrouped((q) => q.gst).toLocaleString("en-IN")} GST
+                </p>
+              )}
+            </div>
+          </div>
+          ) : (
+          <div className="space-y-3 text-base">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Item Total</span>
+              <span className="font-semibold">{quote ? `₹${quote.itemTotal.toLocaleString("en-IN")}` : "—"}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                Delivery
+                {quote?.deliveryFeeQuote.surge && (
+                  <span className="text-xs text-amber-600"> ({quote.deliveryFeeQuote.surge.label} surge)</span>
+                )}
+              </span>
+              <span className="font-semibold">
+                {quote ? (quote.deliveryFeeQuote.freeDelivery && quote.deliveryFee === 0 ? "Free" : `₹${quote.deliveryFee}`) : "—"}
+              </span>
+            </div>
+            {quote && quote.deliverySpeed === "standard" && !quote.deliveryFeeQuote.freeDelivery && quote.deliveryFeeQuote.freeDeliveryAbove !== null && (
+              <p className="text-xs text-muted-foreground -mt-2">
+                Add ₹{Math.ceil(quote.deliveryFeeQuote.freeDeliveryAbove - quote.itemTotal).toLocaleString("en-IN")} more for free delivery
+              </p>
+            )}
             <div className="flex justify-between">
               <span className="text-muted-foreground">Platform Fee</span>
-              <span className="font-semibold">₹{platformFee}</span>
+              <span className="font-semibold">{quote ? `₹${quote.platformFee}` : "—"}</span>
             </div>
-            {cashbackDeduction > 0 && (
+            {quote && quote.couponDiscount > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Coupon{quote.coupon ? ` (${quote.coupon.code})` : ""}</span>
+                <span className="font-semibold">-₹{quote.couponDiscount}</span>
+              </div>
+            )}
+            {quote && quote.cashbackUsed > 0 && (
               <div className="flex justify-between text-green-600">
                 <span>Cashback</span>
-                <span className="font-semibold">-₹{cashbackDeduction}</span>
+                <span className="font-semibold">-₹{quote.cashbackUsed}</span>
               </div>
             )}
             <div className="border-t pt-3 mt-3">
               <div className="flex justify-between font-bold text-lg">
                 <span>Total</span>
-                <span>₹{(finalTotal || 0).toLocaleString("en-IN")}</span>
+                <span>{quote ? `₹${quote.total.toLocaleString("en-IN")}` : "—"}</span>
               </div>
+              {quote && (
+                <p className="text-xs text-muted-foreground text-right mt-1">
+                  Includes ₹{quote.gst.toLocaleString("en-IN")} GST
+                </p>
+              )}
             </div>
           </div>
+          )}
         </div>
 
         <div className="flex items-center gap-2 p-2.5 bg-green-50 rounded-lg text-green-700 text-xs">
@@ -718,20 +1173,44 @@ export default function CartPage() {
           <Button 
             className="w-full h-12 font-semibold" 
             onClick={handlePayment}
-            disabled={isPaymentProcessing || !selectedAddress}
+            disabled={
+              isPaymentProcessing || !selectedAddress || quoteLoading ||
+              (isMultiVendor ? !groupedQuote : !quote || (deliveryType === "scheduled" && !quote.deliverySlot))
+            }
           >
             {isPaymentProcessing ? (
               <>
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                 Processing...
               </>
+            ) : isMultiVendor && groupedQuote && !quoteLoading ? (
+              `Pay ₹${groupedQuote.total.toLocaleString("en-IN")} for ${groupedQuote.shipments.length} orders`
+            ) : !isMultiVendor && quote && !quoteLoading ? (
+              `Pay ₹${quote.total.toLocaleString("en-IN")}`
             ) : (
-              `Pay ₹${(finalTotal || 0).toLocaleString("en-IN")}`
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Calculating total...
+              </>
             )}
           </Button>
         </div>
       </div>
 
+      {vendorId && (
+        <SplitShipmentSheet
+          vendorId={vendorId}
+          items={items}
+          addresses={savedAddresses}
+          deliverySpeed={deliveryType === "express" ? "express" : "standard"}
+          useCashback={useCashback}
+          gstin={gstin}
+          open={isSplitSheetOpen}
+          onOpenChange={setIsSplitSheetOpen}
+          onCheckoutCreated={handleSplitCheckout}
+        />
+      )}
+
       <Drawer.Root open={isAddressSheetOpen} onOpenChange={setIsAddressSheetOpen}>
         <Drawer.Portal>
           <Drawer.Overlay className="fixed inset-0 bg-black/50 z-[100]" />
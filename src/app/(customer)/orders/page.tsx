@@ -5,7 +5,7 @@ import { useOrders } from "@/hooks/api/useOrders";
 import { useOrderUpdates } from "@/hooks/realtime/useOrderUpdates";
 import { OrderListSkeleton } from "@/components/skeletons/OrderSkeleton";
 import { EmptyOrders } from "@/components/empty/EmptyOrders";
-import { CheckCircle2, ChevronRight, Package, Check, MessageSquare, MapPin, Phone, HelpCircle, Upload, ShoppingBag, Sparkles, AlertCircle } from "lucide-react";
+import { CheckCircle2, ChevronRight, Package, Check, MapPin, Phone, HelpCircle, Upload, ShoppingBag, Sparkles, AlertCircle, Clock } from "lucide-react";
 import { ImageWithFallback } from "@/components/ui/ImageWithFallback";
 import { Button } from "@/components/ui/button";
 import { Drawer } from "vaul";
@@ -19,12 +19,17 @@ import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { usePullToRefresh } from "@/hooks/usePullToRefresh";
 import { ErrorBoundary } from "@/components/errors/ErrorBoundary";
 import { DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { DisputeSheet } from "@/components/customer/orders/DisputeSheet";
+import { ReattemptSheet } from "@/components/customer/orders/ReattemptSheet";
+import { MockupReviewSheet } from "@/components/customer/orders/MockupReviewSheet";
+import type { Dispute } from "@/lib/services/disputes";
+import { formatMockupDeadline } from "@/lib/utils/sla";
+import type { Delivery, ReattemptSlot } from "@/lib/services/deliveries";
 
-type OrderStatus = "awaiting_details" | "personalizing" | "mockup_ready" | "crafting" | "shipped" | "delivered";
+type OrderStatus = "awaiting_details" | "personalizing" | "mockup_ready" | "crafting" | "shipped" | "ready_for_pickup" | "out_for_delivery" | "delivered";
 
 function OrdersPageContent() {
   const { orders, loading: ordersLoading, refetch } = useOrders();
-  const [isApproving, setIsApproving] = useState(false);
   const [isSubmittingDetails, setIsSubmittingDetails] = useState(false);
   const toast = useToast();
   
@@ -140,6 +145,59 @@ function OrdersPageContent() {
 
   const [isMockupSheetOpen, setIsMockupSheetOpen] = useState(false);
   const [isDetailsSheetOpen, setIsDetailsSheetOpen] = useState(false);
+  const [isDisputeSheetOpen, setIsDisputeSheetOpen] = useState(false);
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+
+  const fetchDisputes = async (orderId: string) => {
+    try {
+      const response = await fetch(`/api/orders/${orderId}/disputes`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setDisputes(Array.isArray(data.disputes) ? data.disputes : []);
+    } catch {
+      // Dispute status is secondary - keep showing the order
+    }
+  };
+
+  // Disputes can only be raised once an order is delivered
+  useEffect(() => {
+    if (activeOrder?.id && activeOrder.status === "delivered") {
+      fetchDisputes(activeOrder.id);
+    } else {
+      setDisputes([]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeOrder?.id, activeOrder?.status]);
+
+  const [isReattemptSheetOpen, setIsReattemptSheetOpen] = useState(false);
+  const [delivery, setDelivery] = useState<Delivery | null>(null);
+  const [reattemptSlots, setReattemptSlots] = useState<ReattemptSlot[]>([]);
+
+  const fetchDelivery = async (orderId: string) => {
+    try {
+      const response = await fetch(`/api/orders/${orderId}/delivery`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setDelivery(data.delivery || null);
+      setReattemptSlots(Array.isArray(data.reattemptSlots) ? data.reattemptSlots : []);
+    } catch {
+      // Courier tracking is secondary - keep showing the order
+    }
+  };
+
+  // Orders are with the courier once they're ready for pickup
+  useEffect(() => {
+    if (activeOrder?.id && (activeOrder.status === "ready_for_pickup" || activeOrder.status === "out_for_delivery")) {
+      fetchDelivery(activeOrder.id);
+    } else {
+      setDelivery(null);
+      setReattemptSlots([]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeOrder?.id, activeOrder?.status]);
+
+  const latestDispute = disputes[0] || null;
+  const hasActiveDispute = latestDispute !== null && (latestDispute.status === "open" || latestDispute.status === "under_review");
   
   const [customizations, setCustomizations] = useState<Record<string, { text: string, giftMessage: string }>>({
     "p1": { text: "", giftMessage: "" },
@@ -155,42 +213,6 @@ function OrdersPageContent() {
     }
   }, [activeOrder?.status]);
 
-  const handleApproveAll = async () => {
-    if (!activeOrder) return;
-    
-    setIsApproving(true);
-    try {
-      // Swiggy Dec 2025 pattern: Use actual API endpoint for order status updates
-      const response = await fetch(`/api/orders/${activeOrder.id}/mockup`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          approved: true,
-          productId: null, // Approve all products
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || "Failed to approve mockups");
-      }
-
-      const result = await response.json();
-      
-      setActiveOrder(prev => prev ? { ...prev, status: "crafting" as OrderStatus } : null);
-      setIsMockupSheetOpen(false);
-      toast.success("Mockups approved!", "Your order is now being crafted");
-      
-      // Refetch orders to get updated status
-      refetch();
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Failed to approve mockups";
-      toast.error("Failed to approve mockups", errorMessage);
-    } finally {
-      setIsApproving(false);
-    }
-  };
-
   const handleDetailsSubmit = async () => {
     if (!activeOrder) return;
     
@@ -246,6 +268,10 @@ function OrdersPageContent() {
 
   const currentStepIndex = activeOrder ? getStepIndex(activeOrder.status) : -1;
 
+  // Read from the fetched orders so the deadline follows refetches after status updates
+  const mockupSla = activeOrder ? orders.find((order) => order.id === activeOrder.id)?.mockupSla : null;
+  const mockupReviewDueAt = activeOrder ? orders.find((order) => order.id === activeOrder.id)?.mockupReviewDueAt : null;
+
   if (ordersLoading) {
     return (
       <div className="min-h-screen bg-muted/30 pb-24">
@@ -356,6 +382,16 @@ function OrdersPageContent() {
           </button>
         )}
 
+        {activeOrder.status === "personalizing" && mockupSla && (
+          <div className="w-full bg-background border rounded-xl p-4 flex items-center gap-3">
+            <Clock className="w-5 h-5 text-primary" />
+            <div>
+              <h3 className="font-semibold text-base">Mockups due {formatMockupDeadline(new Date(mockupSla))}</h3>
+              <p className="text-sm text-muted-foreground">The artisan is working on your personalised preview</p>
+            </div>
+          </div>
+        )}
+
         {activeOrder.status === "mockup_ready" && (
           <button 
             onClick={() => setIsMockupSheetOpen(true)}
@@ -365,7 +401,88 @@ function OrdersPageContent() {
               <Sparkles className="w-5 h-5" />
               <div className="text-left">
                 <h3 className="font-semibold text-base">Mockups Ready</h3>
-                <p className="text-sm opacity-70">Approve to start crafting</p>
+                <p className="text-sm opacity-70">
+                  {mockupReviewDueAt
+                    ? `Approves automatically ${formatMockupDeadline(new Date(mockupReviewDueAt))}`
+                    : "Approve to start crafting"}
+                </p>
+              </div>
+            </div>
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        )}
+
+        {delivery?.status === "delivery_failed" && (
+          <button
+            onClick={() => setIsReattemptSheetOpen(true)}
+            className="w-full bg-amber-500 text-white rounded-xl p-4 flex items-center justify-between"
+          >
+            <div className="flex items-center gap-3">
+              <AlertCircle className="w-5 h-5" />
+              <div className="text-left">
+                <h3 className="font-semibold text-base">Delivery attempt failed</h3>
+                <p className="text-sm text-white/80">{delivery.failureReason || "Pick a slot for the next attempt"}</p>
+              </div>
+            </div>
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        )}
+
+        {delivery?.status === "reattempt_scheduled" && delivery.scheduledSlotStart && (
+          <div className="bg-background rounded-xl p-4 border flex items-start gap-3">
+            <Package className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+            <div>
+              <h3 className="font-semibold text-sm">Next delivery attempt scheduled</h3>
+              <p className="text-sm text-muted-foreground mt-0.5">
+                {new Date(delivery.scheduledSlotStart).toLocaleString("en-IN", { weekday: "short", day: "numeric", month: "short", hour: "numeric", minute: "2-digit" })}
+                {delivery.scheduledSlotEnd && ` - ${new Date(delivery.scheduledSlotEnd).toLocaleTimeString("en-IN", { hour: "numeric", minute: "2-digit" })}`}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {activeOrder.status === "delivered" && latestDispute && (
+          <div className="bg-background rounded-xl p-4 border">
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-sm">
+                  {latestDispute.status === "open"
+                    ? "Dispute raised - waiting for the vendor"
+                    : latestDispute.status === "under_review"
+                    ? "Dispute under review"
+                    : latestDispute.resolution === "refund"
+                    ? `Dispute resolved - ₹${(latestDispute.refundAmount ?? 0).toLocaleString("en-IN")} refunded`
+                    : latestDispute.resolution === "replacement"
+                    ? "Dispute resolved - replacement on its way"
+                    : "Dispute closed"}
+                </h3>
+                <p className="text-sm text-muted-foreground mt-0.5 line-clamp-2">{latestDispute.customerClaim}</p>
+                {latestDispute.vendorResponse && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    <span className="font-medium">Vendor:</span> {latestDispute.vendorResponse}
+                  </p>
+                )}
+                {latestDispute.resolutionNotes && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    <span className="font-medium">Resolution:</span> {latestDispute.resolutionNotes}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {activeOrder.status === "delivered" && !hasActiveDispute && (
+          <button
+            onClick={() => setIsDisputeSheetOpen(true)}
+            className="w-full bg-background rounded-xl p-4 border flex items-center justify-between"
+          >
+            <div className="flex items-center gap-3">
+              <AlertCircle className="w-5 h-5 text-muted-foreground" />
+              <div className="text-left">
+                <h3 className="font-semibold text-base">Problem with this order?</h3>
+                <p className="text-sm text-muted-foreground">Report a wrong, damaged or poor-quality item</p>
               </div>
             </div>
             <ChevronRight className="w-4 h-4" />
@@ -574,82 +691,31 @@ function OrdersPageContent() {
         </Drawer.Portal>
       </Drawer.Root>
 
-      <Drawer.Root open={isMockupSheetOpen} onOpenChange={setIsMockupSheetOpen}>
-        <Drawer.Portal>
-          <Drawer.Overlay className="fixed inset-0 bg-black/50 z-[100]" />
-          <Drawer.Content className="bg-background flex flex-col rounded-t-2xl h-[85vh] fixed bottom-0 left-0 right-0 z-[101] outline-none max-w-xl mx-auto">
-            <DialogTitle className="sr-only">Review Mockups</DialogTitle>
-            <DialogDescription className="sr-only">Review and approve mockups before crafting begins</DialogDescription>
-            <div className="mx-auto w-10 h-1 rounded-full bg-muted mt-3" />
-            <div className="p-4 flex-1 overflow-y-auto">
-              <div className="mb-5">
-                <h2 className="text-sm font-semibold">Review Mockups</h2>
-                <p className="text-sm text-muted-foreground mt-1">Approve before crafting begins</p>
-              </div>
-              
-              <div className="space-y-6">
-                {Array.isArray(activeOrder.items) && activeOrder.items.map((item) => (
-                  <div key={`mock-${item.id}`} className="space-y-3">
-                    <span className="text-xs font-medium text-muted-foreground">{item.name}</span>
-                    
-                    <div className="relative aspect-square w-full rounded-xl overflow-hidden border bg-muted">
-                      {item.image ? (
-                        <>
-                          <ImageWithFallback src={item.image} alt="Mockup" fill sizes="(max-width: 768px) 100vw, 50vw" className="object-cover" />
-                          <div className="absolute top-2 left-2">
-                            <span className="bg-black/70 text-white text-[10px] px-2 py-1 rounded backdrop-blur-sm">Preview</span>
-                          </div>
-                        </>
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center">
-                          <Package className="w-12 h-12 text-muted-foreground" />
-                        </div>
-                      )}
-                    </div>
-
-                    <div className="bg-muted/50 p-3 rounded-lg">
-                      <p className="text-xs text-muted-foreground mb-1">Your text</p>
-                      <p className="text-sm font-medium">
-                        "{customizations[item.id]?.text || (item.name ? "Personalized" : "")}"
-                      </p>
-                    </div>
-                  </div>
-                ))}
-                
-                <div className="bg-amber-50 p-3 rounded-lg flex gap-3">
-                  <MessageSquare className="w-4 h-4 text-amber-600 shrink-0 mt-0.5" />
-                  <div>
-                    <p className="text-xs font-medium text-amber-800 mb-0.5">Artisan's Note</p>
-                    <p className="text-xs text-amber-700">
-                      Layout optimized for clarity. Deep-etched for durability.
-                    </p>
-                  </div>
-                </div>
-              </div>
-            </div>
-            
-            <div className="p-4 border-t grid grid-cols-2 gap-3">
-              <Button variant="outline" onClick={() => setIsMockupSheetOpen(false)} className="h-11">
-                Request Changes
-              </Button>
-              <Button 
-                onClick={handleApproveAll} 
-                className="h-11"
-                disabled={isApproving}
-              >
-                {isApproving ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Approving...
-                  </>
-                ) : (
-                  "Approve & Ship"
-                )}
-              </Button>
-            </div>
-          </Drawer.Content>
-        </Drawer.Portal>
-      </Drawer.Root>
+      <ReattemptSheet
+        orderId={activeOrder.id}
+        slots={reattemptSlots}
+        open={isReattemptSheetOpen}
+        onOpenChange={setIsReattemptSheetOpen}
+        onScheduled={() => fetchDelivery(activeOrder.id)}
+      />
+
+      <DisputeSheet
+        orderId={activeOrder.id}
+        open={isDisputeSheetOpen}
+        onOpenChange={setIsDisputeSheetOpen}
+        onSubmitted={() => fetchDisputes(activeOrder.id)}
+      />
+
+      <MockupReviewSheet
+        orderId={activeOrder.id}
+        items={Array.isArray(activeOrder.items) ? activeOrder.items : []}
+        open={isMockupSheetOpen}
+        onOpenChange={setIsMockupSheetOpen}
+        onReviewed={(approved) => {
+          setActiveOrder(prev => prev ? { ...prev, status: (approved ? "crafting" : "personalizing") as OrderStatus } : null);
+          refetch();
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,401 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Plus, Trash2, Search, Pencil, TicketPercent, Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { ErrorBoundary } from "@/components/errors/ErrorBoundary";
+import { apiClient, ApiClientError } from "@/lib/api/client";
+import type { Coupon } from "@/lib/services/coupons";
+import { toast } from "sonner";
+
+interface CouponForm {
+  code: string;
+  description: string;
+  discountType: "flat" | "percentage";
+  discountValue: string;
+  minOrderValue: string;
+  maxDiscount: string;
+  usageLimit: string;
+  perUserLimit: string;
+  vendorId: string;
+  category: string;
+  firstOrderOnly: boolean;
+  startsAt: string; // datetime-local value
+  expiresAt: string; // datetime-local value
+  isActive: boolean;
+}
+
+const EMPTY_FORM: CouponForm = {
+  code: "",
+  description: "",
+  discountType: "flat",
+  discountValue: "",
+  minOrderValue: "0",
+  maxDiscount: "",
+  usageLimit: "",
+  perUserLimit: "1",
+  vendorId: "",
+  category: "",
+  firstOrderOnly: false,
+  startsAt: "",
+  expiresAt: "",
+  isActive: true,
+};
+
+// ISO timestamp <-> <input type="datetime-local"> value (local time, no seconds)
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toOptionalNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function formFromCoupon(coupon: Coupon): CouponForm {
+  return {
+    code: coupon.code,
+    description: coupon.description || "",
+    discountType: coupon.discountType,
+    discountValue: String(coupon.discountValue),
+    minOrderValue: String(coupon.minOrderValue),
+    maxDiscount: coupon.maxDiscount !== null ? String(coupon.maxDiscount) : "",
+    usageLimit: coupon.usageLimit !== null ? String(coupon.usageLimit) : "",
+    perUserLimit: coupon.perUserLimit !== null ? String(coupon.perUserLimit) : "",
+    vendorId: coupon.vendorId || "",
+    category: coupon.category || "",
+    firstOrderOnly: coupon.firstOrderOnly,
+    startsAt: toLocalInput(coupon.startsAt),
+    expiresAt: toLocalInput(coupon.expiresAt),
+    isActive: coupon.isActive,
+  };
+}
+
+function payloadFromForm(form: CouponForm) {
+  return {
+    code: form.code,
+    description: form.description.trim() || null,
+    discountType: form.discountType,
+    discountValue: Number(form.discountValue),
+    minOrderValue: Number(form.minOrderValue || 0),
+    maxDiscount: form.discountType === "percentage" ? toOptionalNumber(form.maxDiscount) : null,
+    usageLimit: toOptionalNumber(form.usageLimit),
+    perUserLimit: toOptionalNumber(form.perUserLimit),
+    vendorId: form.vendorId.trim() || null,
+    category: form.category.trim() || null,
+    firstOrderOnly: form.firstOrderOnly,
+    startsAt: fromLocalInput(form.startsAt),
+    expiresAt: fromLocalInput(form.expiresAt),
+    isActive: form.isActive,
+  };
+}
+
+function describeDiscount(coupon: Coupon): string {
+  if (coupon.discountType === "flat") return `₹${coupon.discountValue} off`;
+  return coupon.maxDiscount !== null
+    ? `${coupon.discountValue}% off (up to ₹${coupon.maxDiscount})`
+    : `${coupon.discountValue}% off`;
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiClientError) {
+    const details = error.details as { error?: string; details?: Array<{ message?: string }> } | undefined;
+    const firstIssue = details?.details?.[0]?.message;
+    return firstIssue || details?.error || error.message || fallback;
+  }
+  return fallback;
+}
+
+/**
+ * Admin Coupons Page
+ * Create, edit and retire promo codes
+ */
+function CouponManagementContent() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [search, setSearch] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<CouponForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    const delayDebounceFn = setTimeout(() => {
+      fetchCoupons();
+    }, 300);
+
+    return () => clearTimeout(delayDebounceFn);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search]);
+
+  const fetchCoupons = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (search.trim()) params.set("search", search.trim());
+      const data = await apiClient.get<{ coupons: Coupon[] }>(`/admin/coupons?${params.toString()}`);
+      setCoupons(data?.coupons || []);
+    } catch (error) {
+      toast.error("Failed to load coupons");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (coupon: Coupon) => {
+    setEditingId(coupon.id);
+    setForm(formFromCoupon(coupon));
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim() || !form.discountValue) {
+      toast.error("Code and discount are required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        await apiClient.patch(`/admin/coupons/${editingId}`, payloadFromForm(form));
+        toast.success("Coupon updated");
+      } else {
+        await apiClient.post("/admin/coupons", payloadFromForm(form));
+        toast.success("Coupon created");
+      }
+      setIsFormOpen(false);
+      fetchCoupons();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save coupon"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      await apiClient.patch(`/admin/coupons/${coupon.id}`, { isActive: !coupon.isActive });
+      setCoupons((prev) => prev.map((c) => (c.id === coupon.id ? { ...c, isActive: !c.isActive } : c)));
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to update coupon"));
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!window.confirm(`Delete coupon ${coupon.code}?`)) return;
+
+    try {
+      const result = await apiClient.delete<{ success: boolean; deactivated: boolean }>(`/admin/coupons/${coupon.id}`);
+      toast.success(result?.deactivated ? "Coupon has been used, so it was deactivated" : "Coupon deleted");
+      fetchCoupons();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to delete coupon"));
+    }
+  };
+
+  const updateForm = <K extends keyof CouponForm>(key: K, value: CouponForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="container max-w-4xl mx-auto px-4 py-8 space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Coupons</h1>
+          <p className="text-muted-foreground mt-1">Promo codes applied at checkout.</p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Coupon
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by code"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <TicketPercent className="w-5 h-5 text-primary" />
+            All Coupons
+          </CardTitle>
+          <CardDescription>Coupons that have been redeemed are deactivated instead of deleted.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => <Skeleton key={i} className="h-20 w-full rounded-xl" />)}
+            </div>
+          ) : coupons.length === 0 ? (
+            <div className="text-center py-10 border-2 border-dashed rounded-2xl bg-slate-50">
+              <TicketPercent className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-sm text-muted-foreground">No coupons yet</p>
+              <Button variant="link" size="sm" onClick={openCreate}>Create the first one</Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {coupons.map((coupon) => (
+                <div key={coupon.id} className="flex items-center justify-between gap-4 p-4 border rounded-xl">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-semibold font-mono">{coupon.code}</p>
+                      <Badge variant="secondary">{describeDiscount(coupon)}</Badge>
+                      {coupon.firstOrderOnly && <Badge variant="outline">First order</Badge>}
+                      {!coupon.isActive && <Badge variant="outline" className="text-muted-foreground">Inactive</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Min ₹{coupon.minOrderValue}
+                      {" · "}Used {coupon.usageCount}{coupon.usageLimit !== null ? `/${coupon.usageLimit}` : ""}
+                      {coupon.category ? ` · ${coupon.category} only` : ""}
+                      {coupon.vendorId ? " · Single vendor" : ""}
+                      {coupon.expiresAt ? ` · Expires ${new Date(coupon.expiresAt).toLocaleDateString("en-IN")}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={coupon.isActive}
+                      onCheckedChange={() => handleToggleActive(coupon)}
+                      aria-label={coupon.isActive ? `Deactivate ${coupon.code}` : `Activate ${coupon.code}`}
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(coupon)} aria-label={`Edit ${coupon.code}`}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="text-red-500" onClick={() => handleDelete(coupon)} aria-label={`Delete ${coupon.code}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Coupon" : "New Coupon"}</DialogTitle>
+            <DialogDescription>Leave limits empty for no limit.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="code">Code</Label>
+              <Input id="code" value={form.code} onChange={(e) => updateForm("code", e.target.value.toUpperCase())} maxLength={32} />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="description">Description</Label>
+              <Input id="description" value={form.description} onChange={(e) => updateForm("description", e.target.value)} maxLength={200} />
+            </div>
+            <div className="space-y-2">
+              <Label>Discount Type</Label>
+              <Select value={form.discountType} onValueChange={(value) => updateForm("discountType", value as CouponForm["discountType"])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="flat">Flat (₹)</SelectItem>
+                  <SelectItem value="percentage">Percentage (%)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discountValue">{form.discountType === "flat" ? "Amount (₹)" : "Percentage (%)"}</Label>
+              <Input id="discountValue" type="number" min={0} value={form.discountValue} onChange={(e) => updateForm("discountValue", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="minOrderValue">Min Order Value (₹)</Label>
+              <Input id="minOrderValue" type="number" min={0} value={form.minOrderValue} onChange={(e) => updateForm("minOrderValue", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maxDiscount">Max Discount (₹)</Label>
+              <Input
+                id="maxDiscount"
+                type="number"
+                min={0}
+                value={form.maxDiscount}
+                onChange={(e) => updateForm("maxDiscount", e.target.value)}
+                disabled={form.discountType === "flat"}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="usageLimit">Total Uses</Label>
+              <Input id="usageLimit" type="number" min={1} value={form.usageLimit} onChange={(e) => updateForm("usageLimit", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="perUserLimit">Uses Per Customer</Label>
+              <Input id="perUserLimit" type="number" min={1} value={form.perUserLimit} onChange={(e) => updateForm("perUserLimit", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendorId">Vendor ID</Label>
+              <Input id="vendorId" placeholder="All vendors" value={form.vendorId} onChange={(e) => updateForm("vendorId", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category">Category</Label>
+              <Input id="category" placeholder="All categories" value={form.category} onChange={(e) => updateForm("category", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="startsAt">Starts</Label>
+              <Input id="startsAt" type="datetime-local" value={form.startsAt} onChange={(e) => updateForm("startsAt", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expiresAt">Expires</Label>
+              <Input id="expiresAt" type="datetime-local" value={form.expiresAt} onChange={(e) => updateForm("expiresAt", e.target.value)} />
+            </div>
+            <div className="flex items-center justify-between col-span-2 p-3 border rounded-xl">
+              <Label htmlFor="firstOrderOnly">First order only</Label>
+              <Switch id="firstOrderOnly" checked={form.firstOrderOnly} onCheckedChange={(checked) => updateForm("firstOrderOnly", checked)} />
+            </div>
+            <div className="flex items-center justify-between col-span-2 p-3 border rounded-xl">
+              <Label htmlFor="isActive">Active</Label>
+              <Switch id="isActive" checked={form.isActive} onCheckedChange={(checked) => updateForm("isActive", checked)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)} disabled={saving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+              {editingId ? "Save Changes" : "Create Coupon"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function CouponManagementPage() {
+  return (
+    <ProtectedRoute requiredRole="admin">
+      <ErrorBoundary>
+        <CouponManagementContent />
+      </ErrorBoundary>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Plus, Trash2, Truck, Loader2, Save, Info } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { ErrorBoundary } from "@/components/errors/ErrorBoundary";
+import { apiClient, ApiClientError } from "@/lib/api/client";
+import type { CourierOverride } from "@/lib/services/courier-selection";
+import type { CourierProviderId } from "@/lib/services/courier";
+import { toast } from "sonner";
+
+interface CourierOverridesResponse {
+  overrides: CourierOverride[];
+  providers: Array<{ id: CourierProviderId; enabled: boolean }>;
+  rateShopping: boolean;
+}
+
+interface OverrideForm {
+  scope: "vendor" | "city";
+  vendorId: string;
+  city: string;
+  provider: CourierProviderId;
+}
+
+const EMPTY_FORM: OverrideForm = {
+  scope: "city",
+  vendorId: "",
+  city: "",
+  provider: "nimbus",
+};
+
+const PROVIDER_LABELS: Record<CourierProviderId, string> = {
+  nimbus: "Nimbus",
+  simulated: "Simulated",
+};
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiClientError) {
+    const details = error.details as { error?: string; details?: Array<{ message?: string }> } | undefined;
+    const firstIssue = details?.details?.[0]?.message;
+    return firstIssue || details?.error || error.message || fallback;
+  }
+  return fallback;
+}
+
+/**
+ * Admin Couriers Page
+ * Couriers that can take intercity bookings and the overrides pinning one per vendor or city
+ */
+function CourierManagementContent() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [data, setData] = useState<CourierOverridesResponse | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<OverrideForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchOverrides();
+  }, []);
+
+  const fetchOverrides = async () => {
+    try {
+      setLoading(true);
+      setData(await apiClient.get<CourierOverridesResponse>("/admin/courier-overrides"));
+    } catch (error) {
+      toast.error("Failed to load couriers");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    const target = form.scope === "vendor" ? form.vendorId.trim() : form.city.trim();
+    if (!target) {
+      toast.error(form.scope === "vendor" ? "Vendor ID is required" : "City is required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await apiClient.post("/admin/courier-overrides", {
+        ...(form.scope === "vendor" ? { vendorId: target } : { city: target }),
+        provider: form.provider,
+      });
+      toast.success("Override saved");
+      setIsFormOpen(false);
+      fetchOverrides();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save override"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (override: CourierOverride) => {
+    const target = override.vendorName || override.vendorId || override.city;
+    if (!window.confirm(`Remove the courier override for ${target}?`)) return;
+
+    try {
+      await apiClient.delete(`/admin/courier-overrides/${override.id}`);
+      toast.success("Override removed");
+      fetchOverrides();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to remove override"));
+    }
+  };
+
+  const updateForm = <K extends keyof OverrideForm>(key: K, value: OverrideForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const providers = data?.providers || [];
+  const overrides = data?.overrides || [];
+
+  return (
+    <div className="container max-w-4xl mx-auto px-4 py-8 space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Couriers</h1>
+          <p className="text-muted-foreground mt-1">How intercity parcels are assigned to a courier.</p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Override
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Truck className="w-5 h-5 text-primary" />
+            Couriers
+          </CardTitle>
+          <CardDescription>Every enabled courier is quoted and the best price and speed wins.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <Skeleton className="h-12 w-full rounded-xl" />
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {providers.map((provider) => (
+                  <Badge key={provider.id} variant={provider.enabled ? "secondary" : "outline"} className={provider.enabled ? "" : "text-muted-foreground"}>
+                    {PROVIDER_LABELS[provider.id]} · {provider.enabled ? "Enabled" : "Disabled"}
+                  </Badge>
+                ))}
+              </div>
+              {!data?.rateShopping && (
+                <div className="flex items-start gap-2 p-3 rounded-xl bg-amber-50 text-amber-800 text-sm">
+                  <Info className="w-4 h-4 mt-0.5 shrink-0" />
+                  <p>
+                    Only one courier is enabled, so every intercity parcel goes to it and there is nothing to rate shop.
+                    Overrides start to matter once a second carrier is connected.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Overrides</CardTitle>
+          <CardDescription>
+            A vendor&apos;s override wins over the destination city&apos;s. An override whose courier can&apos;t take the parcel is skipped.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[1, 2].map((i) => <Skeleton key={i} className="h-16 w-full rounded-xl" />)}
+            </div>
+          ) : overrides.length === 0 ? (
+            <div className="text-center py-10 border-2 border-dashed rounded-2xl bg-slate-50">
+              <Truck className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-sm text-muted-foreground">No overrides, every parcel is rate shopped</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {overrides.map((override) => (
+                <div key={override.id} className="flex items-center justify-between gap-4 p-4 border rounded-xl">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-semibold truncate">
+                        {override.vendorId ? override.vendorName || override.vendorId : override.city}
+                      </p>
+                      <Badge variant="outline">{override.vendorId ? "Vendor" : "City"}</Badge>
+                      <Badge variant="secondary">{PROVIDER_LABELS[override.provider]}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Updated {new Date(override.updatedAt).toLocaleDateString("en-IN")}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-500 shrink-0"
+                    onClick={() => handleDelete(override)}
+                    aria-label="Remove override"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Override</DialogTitle>
+            <DialogDescription>Replaces any existing override for the same vendor or city.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select value={form.scope} onValueChange={(value) => updateForm("scope", value as OverrideForm["scope"])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="city">Destination city</SelectItem>
+                  <SelectItem value="vendor">Vendor</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.scope === "vendor" ? (
+              <div className="space-y-2">
+                <Label htmlFor="vendorId">Vendor ID</Label>
+                <Input id="vendorId" value={form.vendorId} onChange={(e) => updateForm("vendorId", e.target.value)} />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="city">City</Label>
+                <Input id="city" value={form.city} onChange={(e) => updateForm("city", e.target.value)} maxLength={100} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Courier</Label>
+              <Select value={form.provider} onValueChange={(value) => updateForm("provider", value as CourierProviderId)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {providers.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id} disabled={!provider.enabled}>
+                      {PROVIDER_LABELS[provider.id]}{provider.enabled ? "" : " (disabled)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)} disabled={saving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+              Save Override
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function CourierManagementPage() {
+  return (
+    <ProtectedRoute requiredRole="admin">
+      <ErrorBoundary>
+        <CourierManagementContent />
+      </ErrorBoundary>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ShieldAlert, Loader2, Gavel } from "lucide-react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { ErrorBoundary } from "@/components/errors/ErrorBoundary";
+import { apiClient, ApiClientError } from "@/lib/api/client";
+import type { Dispute, DisputeResolution, DisputeStatus } from "@/lib/services/disputes";
+import { toast } from "sonner";
+
+interface ResolveForm {
+  resolution: DisputeResolution;
+  notes: string;
+  refundAmount: string; // empty for a full refund
+  deductFromVendor: boolean;
+  deductionAmount: string; // empty for the vendor's full share
+}
+
+const EMPTY_FORM: ResolveForm = {
+  resolution: "refund",
+  notes: "",
+  refundAmount: "",
+  deductFromVendor: false,
+  deductionAmount: "",
+};
+
+const TYPE_LABELS: Record<Dispute["type"], string> = {
+  wrong_product: "Wrong product",
+  damaged: "Damaged",
+  quality: "Quality issue",
+  other: "Other",
+};
+
+function toOptionalNumber(value: string): number | undefined {
+  return value.trim() === "" ? undefined : Number(value);
+}
+
+function payloadFromForm(form: ResolveForm) {
+  const deductFromVendor = form.resolution !== "closed" && form.deductFromVendor;
+  return {
+    resolution: form.resolution,
+    notes: form.notes.trim(),
+    refundAmount: form.resolution === "refund" ? toOptionalNumber(form.refundAmount) : undefined,
+    deductFromVendor,
+    deductionAmount: form.resolution === "replacement" && deductFromVendor ? toOptionalNumber(form.deductionAmount) : undefined,
+  };
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiClientError) {
+    const details = error.details as { error?: string; details?: Array<{ message?: string }> } | undefined;
+    const firstIssue = details?.details?.[0]?.message;
+    return firstIssue || details?.error || error.message || fallback;
+  }
+  return fallback;
+}
+
+/**
+ * Admin Disputes Page
+ * Review customer disputes and resolve them with a replacement, refund or closure
+ */
+function DisputeManagementContent() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [statusFilter, setStatusFilter] = useState<DisputeStatus | "all">("open");
+  const [resolving, setResolving] = useState<Dispute | null>(null);
+  const [form, setForm] = useState<ResolveForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchDisputes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  const fetchDisputes = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const data = await apiClient.get<{ disputes: Dispute[] }>(`/admin/disputes?${params.toString()}`);
+      setDisputes(data?.disputes || []);
+    } catch (error) {
+      toast.error("Failed to load disputes");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openResolve = (dispute: Dispute) => {
+    setResolving(dispute);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+    if (form.notes.trim().length < 3) {
+      toast.error("Resolution notes are required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await apiClient.post(`/admin/disputes/${resolving.id}/resolve`, payloadFromForm(form));
+      toast.success(form.resolution === "closed" ? "Dispute closed" : "Dispute resolved");
+      setResolving(null);
+      fetchDisputes();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to resolve dispute"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateForm = <K extends keyof ResolveForm>(key: K, value: ResolveForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="container max-w-4xl mx-auto px-4 py-8 space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Disputes</h1>
+          <p className="text-muted-foreground mt-1">Problems customers reported on delivered orders.</p>
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as DisputeStatus | "all")}>
+          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Awaiting vendor</SelectItem>
+            <SelectItem value="under_review">Under review</SelectItem>
+            <SelectItem value="resolved">Resolved</SelectItem>
+            <SelectItem value="closed">Closed</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-primary" />
+            Dispute Queue
+          </CardTitle>
+          <CardDescription>Refunds charged to the vendor reverse their share of the order payout.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => <Skeleton key={i} className="h-24 w-full rounded-xl" />)}
+            </div>
+          ) : disputes.length === 0 ? (
+            <div className="text-center py-10 border-2 border-dashed rounded-2xl bg-slate-50">
+              <ShieldAlert className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-sm text-muted-foreground">No disputes here</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {disputes.map((dispute) => (
+                <div key={dispute.id} className="p-4 border rounded-xl space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Badge variant="secondary">{TYPE_LABELS[dispute.type]}</Badge>
+                        <Badge variant="outline" className="capitalize">{dispute.status.replace(/_/g, " ")}</Badge>
+                        {dispute.resolution && <Badge variant="outline" className="capitalize">{dispute.resolution}</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1 font-mono">
+                        Order {dispute.orderId.slice(0, 8)} · Raised {new Date(dispute.createdAt).toLocaleDateString("en-IN")}
+                      </p>
+                    </div>
+                    {(dispute.status === "open" || dispute.status === "under_review") && (
+                      <Button size="sm" onClick={() => openResolve(dispute)}>
+                        <Gavel className="w-4 h-4 mr-2" />
+                        Resolve
+                      </Button>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Customer</p>
+                    <p className="text-sm">{dispute.customerClaim}</p>
+                  </div>
+                  {dispute.customerPhotos.length > 0 && (
+                    <div className="flex gap-2 flex-wrap">
+                      {dispute.customerPhotos.map((photo) => (
+                        <a key={photo} href={photo} target="_blank" rel="noopener noreferrer" className="relative w-16 h-16 rounded-lg overflow-hidden border bg-muted">
+                          <Image src={photo} alt="Customer photo" fill sizes="64px" className="object-cover" />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  <div>
+                    <p className="text-xs text-muted-foreground">Vendor</p>
+                    <p className="text-sm">{dispute.vendorResponse || <span className="italic text-muted-foreground">No response yet</span>}</p>
+                  </div>
+                  {dispute.resolutionNotes && (
+                    <p className="text-xs text-muted-foreground">
+                      {dispute.resolutionNotes}
+                      {dispute.refundAmount !== null ? ` · Refunded ₹${dispute.refundAmount}` : ""}
+                      {dispute.deductedFromVendor ? " · Charged to vendor" : ""}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={resolving !== null} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Resolve Dispute</DialogTitle>
+            <DialogDescription>The customer and vendor are notified of the outcome.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label>Resolution</Label>
+              <Select value={form.resolution} onValueChange={(value) => updateForm("resolution", value as DisputeResolution)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="refund">Refund</SelectItem>
+                  <SelectItem value="replacement">Replacement</SelectItem>
+                  <SelectItem value="closed">Close without action</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.resolution === "refund" && (
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="refundAmount">Refund Amount (₹)</Label>
+                <Input id="refundAmount" type="number" min={0} placeholder="Full refund" value={form.refundAmount} onChange={(e) => updateForm("refundAmount", e.target.value)} />
+              </div>
+            )}
+            {form.resolution !== "closed" && (
+              <div className="flex items-center justify-between col-span-2 p-3 border rounded-xl">
+                <Label htmlFor="deductFromVendor">Deduct from vendor</Label>
+                <Switch id="deductFromVendor" checked={form.deductFromVendor} onCheckedChange={(checked) => updateForm("deductFromVendor", checked)} />
+              </div>
+            )}
+            {form.resolution === "replacement" && form.deductFromVendor && (
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="deductionAmount">Deduction (₹)</Label>
+                <Input id="deductionAmount" type="number" min={0} placeholder="Vendor's full share" value={form.deductionAmount} onChange={(e) => updateForm("deductionAmount", e.target.value)} />
+              </div>
+            )}
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea id="notes" value={form.notes} onChange={(e) => updateForm("notes", e.target.value)} maxLength={1000} className="min-h-[80px]" />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)} disabled={saving}>Cancel</Button>
+            <Button onClick={handleResolve} disabled={saving}>
+              {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Gavel className="w-4 h-4 mr-2" />}
+              {form.resolution === "closed" ? "Close Dispute" : "Resolve Dispute"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function DisputeManagementPage() {
+  return (
+    <ProtectedRoute requiredRole="admin">
+      <ErrorBoundary>
+        <DisputeManagementContent />
+      </ErrorBoundary>
+    </ProtectedRoute>
+  );
+}
@@ -4,7 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { 
   Package, Search, Filter, AlertCircle, Clock, 
-  MessageSquare, ChevronRight, Store, Calendar
+  MessageSquare, ChevronRight, Store, Calendar, Truck, Loader2
 } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -12,12 +12,19 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/useAuth";
-import { apiClient } from "@/lib/api/client";
+import { apiClient, ApiClientError } from "@/lib/api/client";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { ErrorBoundary } from "@/components/errors/ErrorBoundary";
 import { ApiError } from "@/components/errors/ApiError";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import type { DeliveryException, ReattemptSlot } from "@/lib/services/deliveries";
+import type { CourierSelection } from "@/lib/services/courier-selection";
+import { toast } from "sonner";
 
 interface AdminOrder {
   id: string;
@@ -29,6 +36,8 @@ interface AdminOrder {
   subStatus?: string;
   total: number;
   paymentStatus: string;
+  deliveryType?: string;
+  courierSelection: CourierSelection | null;
   createdAt: string;
   updatedAt: string;
   mockupSla?: string;
@@ -36,9 +45,35 @@ interface AdminOrder {
   hasDispute: boolean;
 }
 
+type DeliveryAction = { exception: DeliveryException; type: "reattempt" | "cancel" };
+
+const COURIER_SOURCE_LABELS: Record<string, string> = {
+  rate_shopping: "Best quote",
+  single_courier: "Only courier",
+  vendor_override: "Vendor override",
+  city_override: "City override",
+};
+
+const DELIVERY_EXCEPTION_LABELS: Record<string, string> = {
+  delivery_failed: "Delivery Failed",
+  failed: "Booking Rejected",
+  cancelled: "Booking Cancelled",
+  returned_to_origin: "Returned to Origin",
+};
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiClientError) {
+    const details = error.details as { error?: string; details?: Array<{ message?: string }> } | undefined;
+    const firstIssue = details?.details?.[0]?.message;
+    return firstIssue || details?.error || error.message || fallback;
+  }
+  return fallback;
+}
+
 /**
  * Admin Orders Page
  * Swiggy Dec 2025 pattern: Exception-based management with SLA & Dispute focus
+ * Orders stuck in a failed delivery are queued at the top with their actions
  */
 function AdminOrdersContent() {
   const router = useRouter();
@@ -50,6 +85,20 @@ function AdminOrdersContent() {
   const [search, setSearch] = useState(searchParams.get("search") || "");
   const [statusFilter, setStatusFilter] = useState(searchParams.get("status") || "all");
   const [total, setTotal] = useState(0);
+  const [exceptions, setExceptions] = useState<DeliveryException[]>([]);
+  const [reattemptSlots, setReattemptSlots] = useState<ReattemptSlot[]>([]);
+  const [deliveryAction, setDeliveryAction] = useState<DeliveryAction | null>(null);
+  const [slotKey, setSlotKey] = useState("");
+  const [cancelReason, setCancelReason] = useState("");
+  const [cancelOrder, setCancelOrder] = useState(false);
+  const [actingOn, setActingOn] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user?.role === "admin") {
+      fetchExceptions();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user]);
 
   useEffect(() => {
     if (!user || user.role !== "admin") {
@@ -87,6 +136,63 @@ function AdminOrdersContent() {
     }
   };
 
+  const fetchExceptions = async () => {
+    try {
+      const response = await apiClient.get<{ exceptions: DeliveryException[]; reattemptSlots: ReattemptSlot[] }>(
+        "/admin/deliveries"
+      );
+      setExceptions(response.exceptions || []);
+      setReattemptSlots(response.reattemptSlots || []);
+    } catch {
+      // The queue is secondary - keep showing the order list
+    }
+  };
+
+  const openDeliveryAction = (exception: DeliveryException, type: DeliveryAction["type"]) => {
+    setDeliveryAction({ exception, type });
+    setSlotKey("");
+    setCancelReason("");
+    // Closed bookings have nothing left to cancel but the order
+    setCancelOrder(exception.delivery.status !== "delivery_failed");
+  };
+
+  const handleRebook = async (exception: DeliveryException) => {
+    try {
+      setActingOn(exception.delivery.id);
+      await apiClient.post(`/admin/orders/${exception.order.id}/delivery`, {});
+      toast.success("Delivery booked again");
+      fetchExceptions();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Failed to book delivery"));
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const handleDeliveryAction = async () => {
+    if (!deliveryAction) return;
+    const { exception, type } = deliveryAction;
+
+    try {
+      setActingOn(exception.delivery.id);
+      if (type === "reattempt") {
+        const [date, slot] = slotKey.split("|");
+        await apiClient.post(`/admin/deliveries/${exception.delivery.id}/reattempt`, { date, slot });
+        toast.success("Reattempt scheduled");
+      } else {
+        await apiClient.post(`/admin/deliveries/${exception.delivery.id}/cancel`, { reason: cancelReason.trim(), cancelOrder });
+        toast.success(cancelOrder ? "Order cancelled" : "Delivery cancelled");
+        if (cancelOrder) fetchOrders();
+      }
+      setDeliveryAction(null);
+      fetchExceptions();
+    } catch (err) {
+      toast.error(getErrorMessage(err, type === "reattempt" ? "Failed to schedule reattempt" : "Failed to cancel"));
+    } finally {
+      setActingOn(null);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, string> = {
       delivered: "bg-green-100 text-green-700",
@@ -144,6 +250,61 @@ function AdminOrdersContent() {
           </Select>
         </div>
 
+        {/* Delivery Exceptions */}
+        {exceptions.length > 0 && (
+          <Card className="border-none shadow-sm rounded-2xl">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-black flex items-center gap-2">
+                <Truck className="w-4 h-4 text-red-600" />
+                Delivery Exceptions ({exceptions.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {exceptions.map((exception) => (
+                <div key={exception.delivery.id} className="p-3 border rounded-xl space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-black text-sm">#{exception.order.orderNumber}</span>
+                      <Badge className="border-none bg-red-100 text-red-700">
+                        {DELIVERY_EXCEPTION_LABELS[exception.delivery.status] || exception.delivery.status.replace(/_/g, " ")}
+                      </Badge>
+                    </div>
+                    <span className="text-[11px] text-muted-foreground">
+                      {new Date(exception.delivery.updatedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-[11px] text-muted-foreground">
+                    {exception.order.vendorName || "Unknown Vendor"}
+                    {exception.delivery.awb && ` · AWB ${exception.delivery.awb}`}
+                    {exception.delivery.failedAttempts > 0 && ` · ${exception.delivery.failedAttempts} failed attempt${exception.delivery.failedAttempts > 1 ? "s" : ""}`}
+                  </p>
+                  {exception.delivery.failureReason && (
+                    <p className="text-xs">{exception.delivery.failureReason}</p>
+                  )}
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    {exception.delivery.status === "delivery_failed" ? (
+                      <Button size="sm" onClick={() => openDeliveryAction(exception, "reattempt")} disabled={actingOn !== null}>
+                        Reattempt
+                      </Button>
+                    ) : (
+                      <Button size="sm" onClick={() => handleRebook(exception)} disabled={actingOn !== null}>
+                        {actingOn === exception.delivery.id && <Loader2 className="w-3 h-3 animate-spin mr-1" />}
+                        Book Again
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => openDeliveryAction(exception, "cancel")} disabled={actingOn !== null}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => router.push(`/admin/orders/${exception.order.id}`)}>
+                      View Order
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Orders List */}
         {loading ? (
           <div className="space-y-3">
@@ -189,6 +350,27 @@ function AdminOrdersContent() {
                       </div>
                     </div>
 
+                    {/* Courier Row: intercity booking decision and the quotes it was based on */}
+                    {order.courierSelection && (
+                      <div className="flex flex-wrap items-center gap-2 text-[10px] text-muted-foreground">
+                        <div className="flex items-center gap-1">
+                          <Truck className="w-3 h-3" />
+                          <span className="font-bold capitalize text-slate-700">{order.courierSelection.provider}</span>
+                        </div>
+                        <Badge variant="outline" className="text-[10px]">
+                          {COURIER_SOURCE_LABELS[order.courierSelection.source] || order.courierSelection.source}
+                        </Badge>
+                        {order.courierSelection.quotes.map((quote) => (
+                          <span key={quote.provider} className="capitalize">
+                            {quote.provider}:{" "}
+                            {quote.score !== null
+                              ? `₹${quote.price} · ${quote.estimatedDays}d · ${quote.score}`
+                              : quote.reason || "Not serviceable"}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
                     {/* Exceptions Row: SLA or Dispute */}
                     {(order.isSlaBreached || order.hasDispute) && (
                       <div className="flex gap-2 pt-1">
@@ -219,6 +401,60 @@ function AdminOrdersContent() {
           </div>
         )}
       </div>
+
+      <Dialog open={deliveryAction !== null} onOpenChange={(open) => !open && setDeliveryAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {deliveryAction?.type === "reattempt" ? "Schedule Reattempt" : "Cancel Delivery"}
+            </DialogTitle>
+            <DialogDescription>
+              Order #{deliveryAction?.exception.order.orderNumber}
+            </DialogDescription>
+          </DialogHeader>
+
+          {deliveryAction?.type === "reattempt" ? (
+            <div className="space-y-2">
+              <Label>Slot</Label>
+              <Select value={slotKey} onValueChange={setSlotKey}>
+                <SelectTrigger><SelectValue placeholder="Pick a slot" /></SelectTrigger>
+                <SelectContent>
+                  {reattemptSlots.map((slot) => (
+                    <SelectItem key={`${slot.date}|${slot.slot}`} value={`${slot.date}|${slot.slot}`}>
+                      {new Date(`${slot.date}T00:00:00`).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" })} · {slot.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="cancelReason">Reason</Label>
+                <Textarea id="cancelReason" value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} maxLength={500} className="min-h-[80px]" />
+              </div>
+              {deliveryAction?.exception.delivery.status === "delivery_failed" && (
+                <div className="flex items-center justify-between p-3 border rounded-xl">
+                  <Label htmlFor="cancelOrder">Also cancel and refund the order</Label>
+                  <Switch id="cancelOrder" checked={cancelOrder} onCheckedChange={setCancelOrder} />
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeliveryAction(null)} disabled={actingOn !== null}>Back</Button>
+            <Button
+              variant={deliveryAction?.type === "cancel" ? "destructive" : "default"}
+              onClick={handleDeliveryAction}
+              disabled={actingOn !== null || (deliveryAction?.type === "reattempt" ? !slotKey : cancelReason.trim().length < 3)}
+            >
+              {actingOn !== null && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {deliveryAction?.type === "reattempt" ? "Schedule" : cancelOrder ? "Cancel Order" : "Cancel Delivery"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
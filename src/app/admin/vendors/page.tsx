@@ -32,6 +32,10 @@ interface Vendor {
   userId: string;
   rating: number;
   totalOrders: number;
+  acceptBreachCount: number; // Orders auto-rejected by the SLA worker
+  mockupBreachCount: number; // Orders flagged for overdue mockups
+  rejectionCount: number; // Orders the vendor rejected
+  qualityScore: number; // 0-100
 }
 
 /**
@@ -245,6 +249,17 @@ function AdminVendorsContent() {
                                 <Package className="w-3 h-3" />
                                 <span className="text-[11px] font-medium">{vendor.totalOrders} orders</span>
                               </div>
+                              {(vendor.acceptBreachCount > 0 || vendor.mockupBreachCount > 0 || vendor.rejectionCount > 0) && (
+                                <div
+                                  className="flex items-center gap-1 text-amber-600"
+                                  title={`${vendor.acceptBreachCount} missed accepts, ${vendor.mockupBreachCount} late mockups, ${vendor.rejectionCount} rejections`}
+                                >
+                                  <AlertCircle className="w-3 h-3" />
+                                  <span className="text-[11px] font-medium">
+                                    Quality {Math.round(vendor.qualityScore)}
+                                  </span>
+                                </div>
+                              )}
                             </div>
                           </div>
                           <Badge className={cn(
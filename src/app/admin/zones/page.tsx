@@ -0,0 +1,436 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Download, Upload, Trash2, MapPinned, Loader2, Save, PenLine, Undo2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { ErrorBoundary } from "@/components/errors/ErrorBoundary";
+import { apiClient, ApiClientError } from "@/lib/api/client";
+import { getZoneBounds, getZoneOuterRings, type GeoJsonPosition } from "@/lib/utils/delivery-zones";
+import type { DeliveryZone, DeliveryZoneFeatureCollection } from "@/lib/services/delivery-zones";
+import { toast } from "sonner";
+
+const MAP_SIZE = 480;
+const DEFAULT_SPAN_KM = 20;
+const KM_PER_DEGREE = 111.32;
+
+interface MapView {
+  centerLat: number;
+  centerLng: number;
+  spanKm: number;
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiClientError) {
+    const details = error.details as { error?: string; details?: Array<{ message?: string }> } | undefined;
+    const firstIssue = details?.details?.[0]?.message;
+    return firstIssue || details?.error || error.message || fallback;
+  }
+  return fallback;
+}
+
+// Fit the view around the city's zones, with a margin
+function viewFromZones(zones: DeliveryZone[]): MapView | null {
+  const bounds = getZoneBounds(zones.map((zone) => zone.geometry));
+  if (!bounds) return null;
+
+  const centerLat = (bounds.minLat + bounds.maxLat) / 2;
+  const centerLng = (bounds.minLng + bounds.maxLng) / 2;
+  const heightKm = (bounds.maxLat - bounds.minLat) * KM_PER_DEGREE;
+  const widthKm = (bounds.maxLng - bounds.minLng) * KM_PER_DEGREE * Math.cos((centerLat * Math.PI) / 180);
+
+  return { centerLat, centerLng, spanKm: Math.max(2, Math.max(heightKm, widthKm) * 1.2) };
+}
+
+/**
+ * Equirectangular projection of the view onto a MAP_SIZE square
+ * Good enough at city scale, where zones are a few kilometres across.
+ */
+function createProjection(view: MapView) {
+  const latSpan = view.spanKm / KM_PER_DEGREE;
+  const lngSpan = latSpan / Math.cos((view.centerLat * Math.PI) / 180);
+  const minLat = view.centerLat - latSpan / 2;
+  const minLng = view.centerLng - lngSpan / 2;
+
+  return {
+    toPoint: ([lng, lat]: GeoJsonPosition) => ({
+      x: ((lng - minLng) / lngSpan) * MAP_SIZE,
+      y: MAP_SIZE - ((lat - minLat) / latSpan) * MAP_SIZE,
+    }),
+    toPosition: (x: number, y: number): GeoJsonPosition => [
+      Number((minLng + (x / MAP_SIZE) * lngSpan).toFixed(6)),
+      Number((minLat + ((MAP_SIZE - y) / MAP_SIZE) * latSpan).toFixed(6)),
+    ],
+  };
+}
+
+function downloadFile(contents: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: "application/geo+json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Admin Delivery Zones Page
+ * Draw, import and export the serviceability polygons of a city
+ */
+function DeliveryZonesContent() {
+  const [city, setCity] = useState("Bangalore");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [view, setView] = useState<MapView>({ centerLat: 12.9716, centerLng: 77.5946, spanKm: DEFAULT_SPAN_KM });
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [draft, setDraft] = useState<GeoJsonPosition[]>([]);
+  const [draftName, setDraftName] = useState("");
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const delayDebounceFn = setTimeout(() => {
+      fetchZones(true);
+    }, 300);
+
+    return () => clearTimeout(delayDebounceFn);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [city]);
+
+  const fetchZones = async (refit = false) => {
+    if (!city.trim()) return;
+
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ city: city.trim() });
+      const data = await apiClient.get<{ zones: DeliveryZone[] }>(`/admin/delivery-zones?${params.toString()}`);
+      const loaded = data?.zones || [];
+      setZones(loaded);
+
+      const fitted = refit ? viewFromZones(loaded) : null;
+      if (fitted) setView(fitted);
+    } catch (error) {
+      toast.error("Failed to load delivery zones");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const projection = useMemo(() => createProjection(view), [view]);
+
+  const handleMapClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!isDrawing) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * MAP_SIZE;
+    const y = ((event.clientY - rect.top) / rect.height) * MAP_SIZE;
+    setDraft((prev) => [...prev, projection.toPosition(x, y)]);
+  };
+
+  const cancelDrawing = () => {
+    setIsDrawing(false);
+    setDraft([]);
+    setDraftName("");
+  };
+
+  const handleSaveDraft = async () => {
+    if (draft.length < 3) {
+      toast.error("Click at least 3 points on the map");
+      return;
+    }
+    if (!draftName.trim()) {
+      toast.error("Name the zone");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await apiClient.post("/admin/delivery-zones", {
+        city: city.trim(),
+        name: draftName.trim(),
+        geometry: { type: "Polygon", coordinates: [[...draft, draft[0]]] },
+      });
+      toast.success(`${draftName.trim()} created`);
+      cancelDrawing();
+      fetchZones();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save zone"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (zone: DeliveryZone) => {
+    try {
+      await apiClient.patch(`/admin/delivery-zones/${zone.id}`, { isActive: !zone.isActive });
+      setZones((prev) => prev.map((z) => (z.id === zone.id ? { ...z, isActive: !z.isActive } : z)));
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to update zone"));
+    }
+  };
+
+  const handleDelete = async (zone: DeliveryZone) => {
+    if (!window.confirm(`Delete ${zone.name}? Vendors that list it will no longer deliver there.`)) return;
+
+    try {
+      await apiClient.delete(`/admin/delivery-zones/${zone.id}`);
+      toast.success("Zone deleted");
+      fetchZones();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to delete zone"));
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const params = new URLSearchParams({ city: city.trim() });
+      const collection = await apiClient.get<DeliveryZoneFeatureCollection>(
+        `/admin/delivery-zones/export?${params.toString()}`
+      );
+      downloadFile(
+        JSON.stringify(collection, null, 2),
+        `delivery-zones-${city.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-")}.geojson`
+      );
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to export zones"));
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    let geojson: unknown;
+    try {
+      geojson = JSON.parse(await file.text());
+    } catch {
+      toast.error("That file isn't valid JSON");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const result = await apiClient.post<{ created: number; updated: number; deactivated: number }>(
+        "/admin/delivery-zones/import",
+        { city: city.trim(), replace: replaceOnImport, geojson }
+      );
+      toast.success(
+        `Imported: ${result?.created ?? 0} new, ${result?.updated ?? 0} updated` +
+        (result?.deactivated ? `, ${result.deactivated} deactivated` : "")
+      );
+      fetchZones(true);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to import zones"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toPath = (ring: GeoJsonPosition[]) =>
+    ring.map((position, index) => {
+      const { x, y } = projection.toPoint(position);
+      return `${index === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join(" ") + " Z";
+
+  return (
+    <div className="container max-w-5xl mx-auto px-4 py-8 space-y-8">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold">Delivery Zones</h1>
+          <p className="text-muted-foreground mt-1">
+            Local orders must land inside one of the vendor&apos;s zones and within its delivery radius.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={zones.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={saving || !city.trim()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".geojson,.json,application/geo+json,application/json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="city">City</Label>
+          <Input id="city" value={city} onChange={(e) => setCity(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="spanKm">Map width (km)</Label>
+          <Input
+            id="spanKm"
+            type="number"
+            min={1}
+            value={Math.round(view.spanKm)}
+            onChange={(e) => setView((prev) => ({ ...prev, spanKm: Math.max(1, Number(e.target.value) || DEFAULT_SPAN_KM) }))}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2 p-3 border rounded-xl self-end">
+          <Label htmlFor="replaceOnImport" className="text-xs">Import replaces city</Label>
+          <Switch id="replaceOnImport" checked={replaceOnImport} onCheckedChange={setReplaceOnImport} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="centerLat">Center latitude</Label>
+          <Input
+            id="centerLat"
+            type="number"
+            step="0.0001"
+            value={view.centerLat}
+            onChange={(e) => setView((prev) => ({ ...prev, centerLat: Number(e.target.value) }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="centerLng">Center longitude</Label>
+          <Input
+            id="centerLng"
+            type="number"
+            step="0.0001"
+            value={view.centerLng}
+            onChange={(e) => setView((prev) => ({ ...prev, centerLng: Number(e.target.value) }))}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <MapPinned className="w-5 h-5 text-primary" />
+              Map
+            </CardTitle>
+            <CardDescription>
+              {isDrawing ? "Click to add corners; the shape closes itself." : "Draw a zone or import a GeoJSON file."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <svg
+              viewBox={`0 0 ${MAP_SIZE} ${MAP_SIZE}`}
+              className={`w-full aspect-square rounded-xl border bg-slate-50 ${isDrawing ? "cursor-crosshair" : ""}`}
+              onClick={handleMapClick}
+            >
+              {zones.flatMap((zone) =>
+                getZoneOuterRings(zone.geometry).map((ring, index) => (
+                  <path
+                    key={`${zone.id}-${index}`}
+                    d={toPath(ring)}
+                    className={zone.isActive ? "fill-primary/15 stroke-primary" : "fill-slate-200/50 stroke-slate-400"}
+                    strokeWidth={1.5}
+                  >
+                    <title>{zone.name}</title>
+                  </path>
+                ))
+              )}
+              {draft.length > 0 && (
+                <path
+                  d={toPath(draft)}
+                  className="fill-amber-400/20 stroke-amber-500"
+                  strokeWidth={2}
+                  strokeDasharray="4 3"
+                />
+              )}
+              {draft.map((position, index) => {
+                const { x, y } = projection.toPoint(position);
+                return <circle key={index} cx={x} cy={y} r={4} className="fill-amber-500" />;
+              })}
+            </svg>
+
+            {isDrawing ? (
+              <div className="flex items-end gap-2 flex-wrap">
+                <div className="space-y-2 flex-1 min-w-[160px]">
+                  <Label htmlFor="draftName">Zone name</Label>
+                  <Input id="draftName" value={draftName} onChange={(e) => setDraftName(e.target.value)} maxLength={100} />
+                </div>
+                <Button variant="outline" size="icon" onClick={() => setDraft((prev) => prev.slice(0, -1))} disabled={draft.length === 0} aria-label="Undo last point">
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" onClick={cancelDrawing} disabled={saving}>
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
+                <Button onClick={handleSaveDraft} disabled={saving}>
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+                  Save Zone
+                </Button>
+              </div>
+            ) : (
+              <Button onClick={() => setIsDrawing(true)} disabled={!city.trim()}>
+                <PenLine className="w-4 h-4 mr-2" />
+                Draw Zone
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Zones in {city.trim() || "…"}</CardTitle>
+            <CardDescription>Vendors pick these names as their delivery zones.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-3">
+                {[1, 2, 3].map((i) => <Skeleton key={i} className="h-14 w-full rounded-xl" />)}
+              </div>
+            ) : zones.length === 0 ? (
+              <div className="text-center py-10 border-2 border-dashed rounded-2xl bg-slate-50">
+                <MapPinned className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+                <p className="text-sm text-muted-foreground">No zones yet; orders here are checked on radius only</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {zones.map((zone) => (
+                  <div key={zone.id} className="flex items-center justify-between gap-3 p-3 border rounded-xl">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{zone.name}</p>
+                      <div className="flex items-center gap-1 mt-1">
+                        <Badge variant="secondary">{zone.geometry.type === "Polygon" ? "Polygon" : "Multi-polygon"}</Badge>
+                        {!zone.isActive && <Badge variant="outline" className="text-muted-foreground">Inactive</Badge>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Switch
+                        checked={zone.isActive}
+                        onCheckedChange={() => handleToggleActive(zone)}
+                        aria-label={zone.isActive ? `Deactivate ${zone.name}` : `Activate ${zone.name}`}
+                      />
+                      <Button variant="ghost" size="icon" className="text-red-500" onClick={() => handleDelete(zone)} aria-label={`Delete ${zone.name}`}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function DeliveryZonesPage() {
+  return (
+    <ProtectedRoute requiredRole="admin">
+      <ErrorBoundary>
+        <DeliveryZonesContent />
+      </ErrorBoundary>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,211 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { getSupabaseServiceClient } from "@/lib/supabase/client";
+import { updateCouponSchema } from "@/lib/validations/coupons";
+import { COUPON_COLUMNS, mapCoupon, toCouponRow } from "@/lib/services/coupons";
+
+/**
+ * GET /api/admin/coupons/[id] - Coupon details with its redemptions
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const supabase = getSupabaseServiceClient();
+    if (!supabase) {
+      return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
+    }
+
+    const { data: coupon, error } = await supabase
+      .from("coupons")
+      .select(COUPON_COLUMNS)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("[API /admin/coupons/[id]] Failed to fetch coupon", error);
+      return NextResponse.json({ error: "Failed to fetch coupon" }, { status: 500 });
+    }
+
+    if (!coupon) {
+      return NextResponse.json({ error: "Coupon not found" }, { status: 404 });
+    }
+
+    const { data: redemptions, error: redemptionsError } = await supabase
+      .from("coupon_redemptions")
+      .select("id, order_id, user_id, discount_amount, status, created_at, orders(order_number)")
+      .eq("coupon_id", id)
+      .order("created_at", { ascending: false })
+      .limit(100);
+
+    if (redemptionsError) {
+      logger.error("[API /admin/coupons/[id]] Failed to fetch redemptions", redemptionsError);
+    }
+
+    return NextResponse.json({
+      coupon: mapCoupon(coupon),
+      redemptions: (redemptions || []).map((r) => ({
+        id: r.id,
+        orderId: r.order_id,
+        orderNumber: (r.orders as { order_number?: string } | null)?.order_number ?? null,
+        userId: r.user_id,
+        discountAmount: parseFloat(r.discount_amount || "0"),
+        status: r.status,
+        createdAt: r.created_at,
+      })),
+    });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    logger.error("[API /admin/coupons/[id]] GET Error", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/coupons/[id] - Update a coupon
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = updateCouponSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseServiceClient();
+    if (!supabase) {
+      return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
+    }
+
+    const { data, error } = await supabase
+      .from("coupons")
+      .update({
+        ...toCouponRow(validationResult.data),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select(COUPON_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { error: "A coupon with this code already exists", code: "COUPON_CODE_EXISTS" },
+          { status: 409 }
+        );
+      }
+      if (error.code === "23514") {
+        return NextResponse.json(
+          { error: "Coupon settings are invalid (check usage limit, discount and dates)", code: "COUPON_INVALID" },
+          { status: 400 }
+        );
+      }
+      logger.error("[API /admin/coupons/[id]] Failed to update coupon", error);
+      return NextResponse.json({ error: "Failed to update coupon" }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "Coupon not found" }, { status: 404 });
+    }
+
+    logger.info(`[Admin] Updated coupon ${id}`, { adminId: user.id });
+
+    return NextResponse.json({ coupon: mapCoupon(data) });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    logger.error("[API /admin/coupons/[id]] PATCH Error", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/coupons/[id] - Delete a coupon
+ * Coupons that have been redeemed are deactivated instead so order history keeps its reference
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const supabase = getSupabaseServiceClient();
+    if (!supabase) {
+      return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
+    }
+
+    const { count, error: countError } = await supabase
+      .from("orders")
+      .select("id", { count: "exact", head: true })
+      .eq("coupon_id", id);
+
+    if (countError) {
+      logger.error("[API /admin/coupons/[id]] Failed to count coupon orders", countError);
+      return NextResponse.json({ error: "Failed to delete coupon" }, { status: 500 });
+    }
+
+    if ((count || 0) > 0) {
+      const { error } = await supabase
+        .from("coupons")
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) {
+        logger.error("[API /admin/coupons/[id]] Failed to deactivate coupon", error);
+        return NextResponse.json({ error: "Failed to delete coupon" }, { status: 500 });
+      }
+
+      logger.info(`[Admin] Deactivated redeemed coupon ${id}`, { adminId: user.id });
+      return NextResponse.json({ success: true, deactivated: true });
+    }
+
+    const { error } = await supabase.from("coupons").delete().eq("id", id);
+
+    if (error) {
+      logger.error("[API /admin/coupons/[id]] Failed to delete coupon", error);
+      return NextResponse.json({ error: "Failed to delete coupon" }, { status: 500 });
+    }
+
+    logger.info(`[Admin] Deleted coupon ${id}`, { adminId: user.id });
+    return NextResponse.json({ success: true, deactivated: false });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    logger.error("[API /admin/coupons/[id]] DELETE Error", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
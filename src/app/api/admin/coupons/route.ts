@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { getSupabaseServiceClient } from "@/lib/supabase/client";
+import { createCouponSchema } from "@/lib/validations/coupons";
+import { COUPON_COLUMNS, mapCoupon, toCouponRow } from "@/lib/services/coupons";
+
+/**
+ * GET /api/admin/coupons - List coupons (optional ?search= on code, ?status=active|inactive)
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized - admin access required" }, { status: 403 });
+    }
+
+    const supabase = getSupabaseServiceClient();
+    if (!supabase) {
+      logger.error("[Admin Coupons] Supabase client not available");
+      return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get("search");
+    const status = searchParams.get("status");
+
+    let query = supabase.from("coupons").select(COUPON_COLUMNS);
+
+    if (search) {
+      query = query.ilike("code", `%${search.trim()}%`);
+    }
+
+    if (status === "active" || status === "inactive") {
+      query = query.eq("is_active", status === "active");
+    }
+
+    const { data, error } = await query.order("created_at", { ascending: false });
+
+    if (error) {
+      logger.error("[Admin Coupons] Failed to fetch coupons", error);
+      return NextResponse.json({ error: "Failed to fetch coupons" }, { status: 500 });
+    }
+
+    return NextResponse.json({ coupons: (data || []).map(mapCoupon) });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    logger.error("[Admin Coupons] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/coupons - Create a coupon
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized - admin access required" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = createCouponSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseServiceClient();
+    if (!supabase) {
+      logger.error("[Admin Coupons] Supabase client not available");
+      return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
+    }
+
+    const { data, error } = await supabase
+      .from("coupons")
+      .insert({
+        ...toCouponRow(validationResult.data),
+        created_by: user.id,
+      })
+      .select(COUPON_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { error: "A coupon with this code already exists", code: "COUPON_CODE_EXISTS" },
+          { status: 409 }
+        );
+      }
+      logger.error("[Admin Coupons] Failed to create coupon", error);
+      return NextResponse.json({ error: "Failed to create coupon" }, { status: 500 });
+    }
+
+    logger.info(`[Admin] Created coupon ${data.code}`, { couponId: data.id, adminId: user.id });
+
+    return NextResponse.json({ coupon: mapCoupon(data) }, { status: 201 });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    logger.error("[Admin Coupons] POST Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { deleteCourierOverride, CourierSelectionError } from "@/lib/services/courier-selection";
+
+/**
+ * DELETE /api/admin/courier-overrides/[id] - Remove an override; bookings go back to rate shopping
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    await deleteCourierOverride(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof CourierSelectionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/courier-overrides/[id]] DELETE Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { courierOverrideSchema } from "@/lib/validations/deliveries";
+import { listCourierOverrides, setCourierOverride, isRateShoppingActive, CourierSelectionError } from "@/lib/services/courier-selection";
+import { COURIER_PROVIDERS, isCourierEnabled } from "@/lib/services/courier";
+
+/**
+ * GET /api/admin/courier-overrides - Couriers pinned per vendor or destination city
+ * for intercity bookings, with the couriers that can currently take bookings and
+ * whether there is more than one of them to rate shop between
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const overrides = await listCourierOverrides();
+
+    return NextResponse.json({
+      overrides,
+      providers: COURIER_PROVIDERS.map((id) => ({ id, enabled: isCourierEnabled(id) })),
+      rateShopping: isRateShoppingActive(),
+    });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof CourierSelectionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/courier-overrides] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/courier-overrides - Pin a courier for a vendor or a destination city
+ * Replaces the existing override for the same vendor or city.
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = courierOverrideSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const override = await setCourierOverride(validationResult.data, user.id);
+
+    return NextResponse.json({ override });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof CourierSelectionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/courier-overrides] POST Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
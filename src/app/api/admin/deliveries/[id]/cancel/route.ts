@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { cancelDeliverySchema } from "@/lib/validations/deliveries";
+import { cancelDelivery, getDelivery, CLOSED_DELIVERY_STATUSES, DeliveryError } from "@/lib/services/deliveries";
+import { transitionOrderStatus, getOrderActor, OrderTransitionError } from "@/lib/services/order-transitions";
+
+/**
+ * POST /api/admin/deliveries/[id]/cancel - Cancel a booking with the courier, and
+ * optionally the order itself (refunded through the order state machine)
+ * A booking that is already closed (rejected or returned to origin) can only be
+ * used to cancel the order.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = cancelDeliverySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { reason, cancelOrder } = validationResult.data;
+    let delivery = await getDelivery(id);
+
+    if (!CLOSED_DELIVERY_STATUSES.includes(delivery.status) || !cancelOrder) {
+      delivery = await cancelDelivery(delivery, reason);
+    }
+
+    if (cancelOrder) {
+      await transitionOrderStatus({
+        orderId: delivery.orderId,
+        to: "cancelled",
+        actor: getOrderActor(user),
+        reason,
+        metadata: { deliveryId: delivery.id, deliveryStatus: delivery.status },
+      });
+    }
+
+    return NextResponse.json({ delivery });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof DeliveryError || error instanceof OrderTransitionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/deliveries/[id]/cancel] POST Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { deliverySlotSchema } from "@/lib/validations/deliveries";
+import { getDelivery, scheduleDeliveryReattempt, DeliveryError } from "@/lib/services/deliveries";
+
+/**
+ * POST /api/admin/deliveries/[id]/reattempt - Book the next attempt of a failed delivery
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = deliverySlotSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const delivery = await scheduleDeliveryReattempt(await getDelivery(id), validationResult.data);
+
+    return NextResponse.json({ delivery });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof DeliveryError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/deliveries/[id]/reattempt] POST Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
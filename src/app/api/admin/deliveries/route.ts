@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { listDeliveryExceptions, getReattemptSlots, DeliveryError } from "@/lib/services/deliveries";
+
+/**
+ * GET /api/admin/deliveries - Orders stuck in a delivery exception (failed attempt,
+ * rejected or cancelled booking, RTO), with the slots a reattempt can be booked in
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const exceptions = await listDeliveryExceptions();
+
+    return NextResponse.json({ exceptions, reattemptSlots: getReattemptSlots() });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof DeliveryError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/deliveries] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { exportDeliveryZones, DeliveryZoneError } from "@/lib/services/delivery-zones";
+
+/**
+ * GET /api/admin/delivery-zones/export - Download zones (?city=) as a GeoJSON FeatureCollection
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const city = searchParams.get("city") || undefined;
+    const collection = await exportDeliveryZones(city);
+    const filename = `delivery-zones-${(city || "all").toLowerCase().replace(/[^a-z0-9]+/g, "-")}.geojson`;
+
+    return new NextResponse(JSON.stringify(collection, null, 2), {
+      headers: {
+        "Content-Type": "application/geo+json",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof DeliveryZoneError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/delivery-zones/export] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { importDeliveryZonesSchema } from "@/lib/validations/delivery-zones";
+import { importDeliveryZones, DeliveryZoneError } from "@/lib/services/delivery-zones";
+
+/**
+ * POST /api/admin/delivery-zones/import - Import a city's zones from a GeoJSON
+ * FeatureCollection (each feature named by properties.name)
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = importDeliveryZonesSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { city, replace, geojson } = validationResult.data;
+    const result = await importDeliveryZones({ city, replace, features: geojson.features }, user.id);
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof DeliveryZoneError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/delivery-zones/import] POST Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { appConfig } from "@/lib/config/app";
+import { DISPUTE_STATUSES } from "@/lib/validations/disputes";
+import { listDisputes, DisputeError, type DisputeStatus } from "@/lib/services/disputes";
+
+/**
+ * GET /api/admin/disputes - Dispute queue (?status=open|under_review|resolved|closed, ?page=, ?limit=)
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status")?.trim() || undefined;
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || String(appConfig.pagination.defaultLimit), 10) || appConfig.pagination.defaultLimit, 1),
+      appConfig.pagination.maxLimit
+    );
+
+    if (status && !(DISPUTE_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json({ error: "Invalid status filter" }, { status: 400 });
+    }
+
+    const { disputes, total } = await listDisputes({
+      status: status as DisputeStatus | undefined,
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return NextResponse.json({
+      disputes,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof DisputeError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/disputes] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
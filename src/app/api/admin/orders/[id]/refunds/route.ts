@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { createRefundSchema } from "@/lib/validations/refunds";
+import { getOrderRefunds, issueRefund, RefundError } from "@/lib/services/refunds";
+
+/**
+ * GET /api/admin/orders/[id]/refunds - Refunds issued against an order
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    return NextResponse.json({ refunds: await getOrderRefunds(id) });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof RefundError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/orders/[id]/refunds] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/orders/[id]/refunds - Issue a full (no amount) or partial refund
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = createRefundSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const refund = await issueRefund({
+      orderId: id,
+      amount: validationResult.data.amount,
+      reason: validationResult.data.reason,
+      source: "admin",
+      initiatedBy: user.id,
+    });
+
+    logger.info("[API /admin/orders/[id]/refunds] Refund issued", {
+      orderId: id,
+      refundId: refund.id,
+      amount: refund.amount,
+      adminId: user.id,
+    });
+
+    return NextResponse.json({ refund }, { status: 201 });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof RefundError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/orders/[id]/refunds] POST Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
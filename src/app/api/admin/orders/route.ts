@@ -99,6 +99,8 @@ export async function GET(request: Request) {
         subStatus: order.subStatus,
         total: parseFloat(order.total || "0"),
         paymentStatus: order.paymentStatus,
+        deliveryType: order.deliveryType,
+        courierSelection: order.courierSelection ?? null,
         createdAt: order.createdAt?.toISOString() || new Date().toISOString(),
         updatedAt: order.updatedAt?.toISOString() || new Date().toISOString(),
         mockupSla: order.mockupSla?.toISOString(),
@@ -29,7 +29,7 @@ export async function GET(request: Request) {
     const search = searchParams.get("search");
 
     // Swiggy Dec 2025 pattern: Select specific fields to reduce payload size
-    let query = supabase.from("vendors").select("id, user_id, name, description, image, city, status, onboarding_status, rating, created_at");
+    let query = supabase.from("vendors").select("id, user_id, name, description, image, city, status, onboarding_status, rating, accept_breach_count, mockup_breach_count, rejection_count, quality_score, created_at");
 
     if (status && status !== "all") {
       query = query.eq("status", status);
@@ -67,6 +67,10 @@ export async function GET(request: Request) {
           userId: v.user_id,
           rating: parseFloat(v.rating || "0"),
           totalOrders: count || 0,
+          acceptBreachCount: v.accept_breach_count ?? 0,
+          mockupBreachCount: v.mockup_breach_count ?? 0,
+          rejectionCount: v.rejection_count ?? 0,
+          qualityScore: parseFloat(v.quality_score ?? "100"),
         };
       })
     );
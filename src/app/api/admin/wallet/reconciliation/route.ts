@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { getSupabaseServiceClient } from "@/lib/supabase/client";
+import { reconcileWallets, WalletLedgerError } from "@/lib/services/wallet-ledger";
+
+/**
+ * GET /api/admin/wallet/reconciliation - Recent reconciliation runs (?limit=, default 20)
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized - admin access required" }, { status: 403 });
+    }
+
+    const supabase = getSupabaseServiceClient();
+    if (!supabase) {
+      logger.error("[Admin Wallet Reconciliation] Supabase client not available");
+      return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "20", 10) || 20, 1), 100);
+
+    const { data, error } = await supabase
+      .from("wallet_reconciliation_runs")
+      .select("id, triggered_by, wallets_checked, discrepancy_count, total_difference, discrepancies, created_at")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error("[Admin Wallet Reconciliation] Failed to fetch runs", error);
+      return NextResponse.json({ error: "Failed to fetch reconciliation runs" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      runs: (data || []).map((run) => ({
+        id: run.id,
+        triggeredBy: run.triggered_by,
+        walletsChecked: run.wallets_checked,
+        discrepancyCount: run.discrepancy_count,
+        totalDifference: parseFloat(run.total_difference || "0"),
+        discrepancies: run.discrepancies || [],
+        createdAt: run.created_at,
+      })),
+    });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    logger.error("[Admin Wallet Reconciliation] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/wallet/reconciliation - Run a reconciliation now
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized - admin access required" }, { status: 403 });
+    }
+
+    const run = await reconcileWallets({ triggeredBy: user.id });
+
+    logger.info("[Admin Wallet Reconciliation] Manual run completed", {
+      runId: run.id,
+      adminId: user.id,
+      discrepancyCount: run.discrepancyCount,
+    });
+
+    return NextResponse.json({ run });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof WalletLedgerError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[Admin Wallet Reconciliation] POST Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
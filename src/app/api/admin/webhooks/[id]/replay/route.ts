@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { processRazorpayEvent } from "@/lib/services/razorpay-webhooks";
+import { processNimbusEvent } from "@/lib/services/nimbus-webhooks";
+import { processSimulatedCourierEvent } from "@/lib/services/simulated-courier";
+import {
+  getWebhookEvent,
+  runWebhookEvent,
+  WebhookEventError,
+  type WebhookProcessor,
+  type WebhookProvider,
+} from "@/lib/services/webhook-events";
+
+const PROCESSORS: Record<WebhookProvider, WebhookProcessor> = {
+  razorpay: processRazorpayEvent,
+  nimbus: processNimbusEvent,
+  simulated: processSimulatedCourierEvent,
+};
+
+/**
+ * POST /api/admin/webhooks/[id]/replay - Re-run a failed webhook event from its stored payload
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const event = await getWebhookEvent(id);
+
+    if (event.status !== "failed") {
+      return NextResponse.json(
+        { error: `Only failed events can be replayed (this one is ${event.status})`, code: "WEBHOOK_NOT_REPLAYABLE" },
+        { status: 409 }
+      );
+    }
+
+    let result;
+    try {
+      result = await runWebhookEvent(event, PROCESSORS[event.provider], { fromStatuses: ["failed"] });
+    } catch (processingError) {
+      // Recorded on the event as last_error
+      const message = processingError instanceof Error ? processingError.message : "Replay failed";
+      return NextResponse.json(
+        { error: message, code: "WEBHOOK_REPLAY_FAILED", event: await getWebhookEvent(id) },
+        { status: 502 }
+      );
+    }
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Event is already being processed", code: "WEBHOOK_NOT_REPLAYABLE" },
+        { status: 409 }
+      );
+    }
+
+    logger.info("[API /admin/webhooks/[id]/replay] Event replayed", {
+      id,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      status: result.status,
+      adminId: user.id,
+    });
+
+    return NextResponse.json({ event: result });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof WebhookEventError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/webhooks/[id]/replay] POST Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
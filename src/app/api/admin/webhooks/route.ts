@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { appConfig } from "@/lib/config/app";
+import {
+  listWebhookEvents,
+  WebhookEventError,
+  type WebhookEventStatus,
+  type WebhookProvider,
+} from "@/lib/services/webhook-events";
+
+const EVENT_STATUSES: WebhookEventStatus[] = ["pending", "processing", "processed", "ignored", "failed"];
+const PROVIDERS: WebhookProvider[] = ["razorpay", "nimbus", "simulated"];
+
+/**
+ * GET /api/admin/webhooks - Received webhook events (?status=failed, ?provider=razorpay, ?page=, ?limit=)
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    if (user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status")?.trim() || undefined;
+    const provider = searchParams.get("provider")?.trim() || undefined;
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || String(appConfig.pagination.defaultLimit), 10) || appConfig.pagination.defaultLimit, 1),
+      appConfig.pagination.maxLimit
+    );
+
+    if (status && !EVENT_STATUSES.includes(status as WebhookEventStatus)) {
+      return NextResponse.json({ error: "Invalid status filter" }, { status: 400 });
+    }
+    if (provider && !PROVIDERS.includes(provider as WebhookProvider)) {
+      return NextResponse.json({ error: "Invalid provider filter" }, { status: 400 });
+    }
+
+    const { events, total } = await listWebhookEvents({
+      status: status as WebhookEventStatus | undefined,
+      provider: provider as WebhookProvider | undefined,
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return NextResponse.json({
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof WebhookEventError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /admin/webhooks] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
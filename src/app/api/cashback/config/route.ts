@@ -1,109 +1,57 @@
 import { NextResponse } from "next/server";
-import { createSupabaseServerClientWithRequest, getSupabaseServiceClient } from "@/lib/supabase/client";
+import { getSupabaseServiceClient } from "@/lib/supabase/client";
 import { logger } from "@/lib/utils/logger";
-import { normalizeQueryParam } from "@/lib/utils/api-helpers";
 import { appConfig } from "@/lib/config/app";
 import { requireRole } from "@/lib/auth/server";
 import { isAuthError, formatApiError } from "@/lib/types/api-errors";
+import { cashbackConfigSchema } from "@/lib/validations/cashback";
+import {
+  CASHBACK_RULE_COLUMNS,
+  getEffectivePercentage,
+  getLiveCashbackRules,
+  mapCashbackRule,
+  resolveCashbackRule,
+} from "@/lib/services/cashback-rules";
 
 /**
  * GET /api/cashback/config
- * Fetch active cashback configuration
- * Returns: global config + category/vendor overrides
+ * Fetch the cashback rate in effect (optional ?categoryId= products.category, ?vendorId=)
+ * Returns: effective percentage + global/category/vendor rates and any running campaign
  */
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
-    const categoryId = normalizeQueryParam(searchParams.get("categoryId"));
-    const vendorId = normalizeQueryParam(searchParams.get("vendorId"));
+    // Kept as strings: categories are free-text names, vendor IDs are UUIDs
+    const categoryId = searchParams.get("categoryId")?.trim() || undefined;
+    const vendorId = searchParams.get("vendorId")?.trim() || undefined;
 
-    // Use Supabase client (public read access for cashback config)
-    const supabase = await createSupabaseServerClientWithRequest(request);
-    if (!supabase) {
-      // Fallback to app config if Supabase not available
-      return NextResponse.json({
-        percentage: appConfig.cashback.rate,
-        global: appConfig.cashback.rate,
-        category: null,
-        vendor: null,
-      });
-    }
+    // Live rules only: inactive rules and campaigns outside their window are skipped
+    const rules = await getLiveCashbackRules();
 
-    // Fetch global config using Supabase client
-    // Swiggy Dec 2025 pattern: Select specific fields to reduce payload size
-    // RLS policy is source of truth - it already filters by is_active
-    const { data: globalConfigData, error: globalError } = await supabase
-      .from('cashback_config')
-      .select('id, type, entity_id, percentage, is_active, created_at, updated_at')
-      .eq('type', 'global')
-      .maybeSingle();
+    const globalRule = resolveCashbackRule(rules.filter((rule) => rule.type === "global"), { vendorId: "" });
+    const categoryRule = categoryId
+      ? resolveCashbackRule(rules.filter((rule) => rule.type === "category"), { vendorId: "", category: categoryId })
+      : null;
+    const vendorRule = vendorId
+      ? resolveCashbackRule(rules.filter((rule) => rule.type === "vendor"), { vendorId })
+      : null;
 
-    if (globalError && globalError.code !== 'PGRST116') {
-      logger.error("[API /cashback/config] Failed to fetch global config", globalError);
-    }
-
-    const globalConfig = globalConfigData || null;
-
-    // Fetch category override if categoryId provided
-    let categoryOverride = null;
-    if (categoryId) {
-      // Swiggy Dec 2025 pattern: Select specific fields to reduce payload size
-      // RLS policy is source of truth - it already filters by is_active
-      const { data: categoryData, error: categoryError } = await supabase
-        .from('cashback_config')
-        .select('id, type, entity_id, percentage, is_active, created_at, updated_at')
-        .eq('type', 'category')
-        .eq('entity_id', categoryId)
-        .maybeSingle();
-
-      if (categoryError && categoryError.code !== 'PGRST116') {
-        logger.error("[API /cashback/config] Failed to fetch category override", categoryError);
-      } else {
-        categoryOverride = categoryData || null;
-      }
-    }
-
-    // Fetch vendor override if vendorId provided
-    let vendorOverride = null;
-    if (vendorId) {
-      // Swiggy Dec 2025 pattern: Select specific fields to reduce payload size
-      // RLS policy is source of truth - it already filters by is_active
-      const { data: vendorData, error: vendorError } = await supabase
-        .from('cashback_config')
-        .select('id, type, entity_id, percentage, is_active, created_at, updated_at')
-        .eq('type', 'vendor')
-        .eq('entity_id', vendorId)
-        .maybeSingle();
-
-      if (vendorError && vendorError.code !== 'PGRST116') {
-        logger.error("[API /cashback/config] Failed to fetch vendor override", vendorError);
-      } else {
-        vendorOverride = vendorData || null;
-      }
-    }
-
-    // Determine effective cashback percentage (vendor > category > global > default)
-    let effectivePercentage = appConfig.cashback.rate; // Default 10%
-    if (globalConfig) {
-      effectivePercentage = parseFloat(globalConfig.percentage || "0");
-    }
-    if (categoryOverride) {
-      effectivePercentage = parseFloat(categoryOverride.percentage || "0");
-    }
-    if (vendorOverride) {
-      effectivePercentage = parseFloat(vendorOverride.percentage || "0");
-    }
+    // Effective cashback percentage (vendor > category > global > default)
+    const effectiveRule = vendorRule || categoryRule || globalRule;
 
     return NextResponse.json({
-      percentage: effectivePercentage,
-      global: globalConfig ? parseFloat(globalConfig.percentage || "0") : appConfig.cashback.rate,
-      category: categoryOverride ? parseFloat(categoryOverride.percentage || "0") : null,
-      vendor: vendorOverride ? parseFloat(vendorOverride.percentage || "0") : null,
+      percentage: getEffectivePercentage(rules, { vendorId, category: categoryId }),
+      global: globalRule ? globalRule.percentage : appConfig.cashback.rate * 100,
+      category: categoryRule ? categoryRule.percentage : null,
+      vendor: vendorRule ? vendorRule.percentage : null,
+      campaign: effectiveRule && (effectiveRule.startsAt || effectiveRule.endsAt)
+        ? { name: effectiveRule.name, endsAt: effectiveRule.endsAt, maxCashbackPerOrder: effectiveRule.maxCashbackPerOrder }
+        : null,
     });
   } catch (error) {
     logger.error("[API /cashback/config] Error", error);
     return NextResponse.json(
-      { error: "Failed to fetch cashback config", percentage: appConfig.cashback.rate },
+      { error: "Failed to fetch cashback config", percentage: appConfig.cashback.rate * 100 },
       { status: 500 }
     );
   }
@@ -112,13 +60,23 @@ export async function GET(request: Request) {
 /**
  * POST /api/cashback/config
  * Admin-only: Update cashback configuration
+ * With startsAt/endsAt a scheduled campaign is created; otherwise the always-on rule is upserted
  */
 export async function POST(request: Request) {
   try {
     // Require admin role
     await requireRole(request, "admin");
     const body = await request.json();
-    const { type, entityId, percentage, isActive } = body;
+    const validationResult = cashbackConfigSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0]?.message || "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { type, entityId, name, percentage, startsAt, endsAt, maxCashbackPerOrder, isActive } = validationResult.data;
 
     // Use service role client for admin operations
     const supabase = getSupabaseServiceClient();
@@ -126,17 +84,29 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
     }
 
-    // Validate
-    if (!type || !["global", "category", "vendor"].includes(type)) {
-      return NextResponse.json({ error: "Invalid type" }, { status: 400 });
-    }
+    // Campaigns are scheduled rows of their own and never replace the always-on rule
+    if (startsAt || endsAt) {
+      const { data: campaign, error: campaignError } = await supabase
+        .from('cashback_config')
+        .insert({
+          type,
+          entity_id: type === "global" ? null : entityId,
+          name: name || null,
+          percentage: percentage.toString(),
+          starts_at: startsAt || null,
+          ends_at: endsAt || null,
+          max_cashback_per_order: maxCashbackPerOrder ?? null,
+          is_active: isActive !== undefined ? isActive : true,
+        })
+        .select(CASHBACK_RULE_COLUMNS)
+        .single();
 
-    if (type !== "global" && !entityId) {
-      return NextResponse.json({ error: "entityId required for category/vendor type" }, { status: 400 });
-    }
+      if (campaignError) {
+        logger.error("[API /cashback/config] Failed to create campaign", campaignError);
+        return NextResponse.json({ error: "Failed to create campaign" }, { status: 500 });
+      }
 
-    if (percentage < 0 || percentage > 100) {
-      return NextResponse.json({ error: "Percentage must be between 0 and 100" }, { status: 400 });
+      return NextResponse.json({ success: true, rule: mapCashbackRule(campaign) }, { status: 201 });
     }
 
     // Check if existing config exists using Supabase client
@@ -144,9 +114,11 @@ export async function POST(request: Request) {
     let query = supabase
       .from('cashback_config')
       .select('id, type, entity_id, percentage, is_active, created_at, updated_at')
-      .eq('type', type);
+      .eq('type', type)
+      .is('starts_at', null)
+      .is('ends_at', null);
     
-    if (entityId) {
+    if (type !== "global" && entityId) {
       query = query.eq('entity_id', entityId);
     } else {
       query = query.is('entity_id', null);
@@ -165,6 +137,8 @@ export async function POST(request: Request) {
         .from('cashback_config')
         .update({
           percentage: percentage.toString(),
+          ...(name !== undefined && { name }),
+          ...(maxCashbackPerOrder !== undefined && { max_cashback_per_order: maxCashbackPerOrder }),
           is_active: isActive !== undefined ? isActive : true,
           updated_at: new Date().toISOString(),
         })
@@ -180,8 +154,10 @@ export async function POST(request: Request) {
         .from('cashback_config')
         .insert({
           type,
-          entity_id: entityId || null,
+          entity_id: type === "global" ? null : entityId,
+          name: name || null,
           percentage: percentage.toString(),
+          max_cashback_per_order: maxCashbackPerOrder ?? null,
           is_active: isActive !== undefined ? isActive : true,
         });
 
@@ -3,7 +3,8 @@ import { getSupabaseServiceClient } from "@/lib/supabase/client";
 import { logger } from "@/lib/utils/logger";
 import { requireAuth } from "@/lib/auth/server";
 import { isAuthError, isErrorWithStatus, formatApiError } from "@/lib/types/api-errors";
-import { calculateCashback } from "@/lib/utils/cashback";
+import { creditOrderCashback } from "@/lib/services/order-cashback";
+import { WalletLedgerError } from "@/lib/services/wallet-ledger";
 
 /**
  * POST /api/cashback/credit
@@ -70,87 +71,38 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check if cashback already credited
-    const { data: existingCredit, error: creditCheckError } = await supabase
-      .from('wallet_transactions')
-      .select('id')
-      .eq('order_id', orderId)
-      .eq('type', 'credit')
-      .maybeSingle();
-
-    if (creditCheckError && creditCheckError.code !== 'PGRST116') {
-      logger.error("[API /cashback/credit] Failed to check existing credit", creditCheckError);
-      return NextResponse.json({ error: "Failed to check cashback status" }, { status: 500 });
+    // Per-line cashback from cashback_config; keyed by order, so the
+    // delivered transition and this route credit it at most once
+    let credited;
+    try {
+      credited = await creditOrderCashback(order.id);
+    } catch (ledgerError) {
+      if (ledgerError instanceof WalletLedgerError && ledgerError.code === "WALLET_IDEMPOTENCY_CONFLICT") {
+        return NextResponse.json(
+          { error: "Cashback already credited for this order" },
+          { status: 400 }
+        );
+      }
+      throw ledgerError;
     }
 
-    if (existingCredit) {
+    if (!credited) {
       return NextResponse.json(
-        { error: "Cashback already credited for this order" },
+        { error: "Order is not eligible for cashback" },
         { status: 400 }
       );
     }
 
-    // Calculate cashback (10% of order total)
-    const orderTotal = parseFloat(order.total || "0");
-    const cashbackAmount = calculateCashback(orderTotal);
-
-    // Get or create wallet using Supabase client
-    let { data: userWallet, error: walletError } = await supabase
-      .from('wallet')
-      .select('id, balance')
-      .eq('user_id', order.customer_id)
-      .maybeSingle();
-
-    if (walletError && walletError.code !== 'PGRST116') {
-      logger.error("[API /cashback/credit] Failed to fetch wallet", walletError);
-      return NextResponse.json({ error: "Failed to fetch wallet" }, { status: 500 });
-    }
-
-    if (!userWallet) {
-      // Auto-create wallet if it doesn't exist
-      const { data: newWallet, error: insertError } = await supabase
-        .from('wallet')
-        .insert({
-          user_id: order.customer_id,
-          balance: "0",
-        })
-        .select()
-        .single();
-
-      if (insertError) {
-        logger.error("[API /cashback/credit] Failed to create wallet", insertError);
-        return NextResponse.json({ error: "Failed to create wallet" }, { status: 500 });
-      }
-      userWallet = newWallet;
-    }
+    const { amount: cashbackAmount, entry } = credited;
 
-    // Update wallet balance
-    const newBalance = parseFloat(userWallet.balance || "0") + cashbackAmount;
-    const { error: updateError } = await supabase
-      .from('wallet')
-      .update({ balance: newBalance.toString() })
-      .eq('id', userWallet.id);
-
-    if (updateError) {
-      logger.error("[API /cashback/credit] Failed to update wallet", updateError);
-      return NextResponse.json({ error: "Failed to update wallet" }, { status: 500 });
+    if (!entry.created) {
+      return NextResponse.json(
+        { error: "Cashback already credited for this order" },
+        { status: 400 }
+      );
     }
 
-    // Create transaction record
-    const { error: transactionError } = await supabase
-      .from('wallet_transactions')
-      .insert({
-        wallet_id: userWallet.id,
-        type: 'credit',
-        amount: cashbackAmount.toString(),
-        description: `Cashback for order ${order.order_number}`,
-        order_id: order.id,
-      });
-
-    if (transactionError) {
-      logger.error("[API /cashback/credit] Failed to create transaction", transactionError);
-      // Don't fail the request - wallet is already updated
-    }
+    const newBalance = entry.balanceAfter;
 
     logger.info("[API /cashback/credit] Credited cashback", {
       orderId,
@@ -173,6 +125,13 @@ export async function POST(request: Request) {
       );
     }
 
+    if (error instanceof WalletLedgerError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
     logger.error("[API /cashback/credit] Error", error);
     const errorResponse = formatApiError(error);
     return NextResponse.json(
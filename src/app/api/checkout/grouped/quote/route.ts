@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { groupedCheckoutQuoteSchema } from "@/lib/validations/orders";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { OrderPricingError } from "@/lib/services/order-pricing";
+import { createGroupedCheckoutQuote } from "@/lib/services/checkout-quote";
+
+/**
+ * POST /api/checkout/grouped/quote
+ * Prices a multi-vendor cart as one shipment per vendor, with a signed quote token
+ * for POST /api/checkout/split
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const validationResult = groupedCheckoutQuoteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await createGroupedCheckoutQuote({
+      customerId: user.id,
+      ...validationResult.data,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required", code: "AUTH_REQUIRED" }, { status: 401 });
+    }
+
+    if (error instanceof OrderPricingError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    logger.error("[API /checkout/grouped/quote] Error", error);
+    return NextResponse.json(
+      { error: "Unable to price your cart. Please try again.", code: "QUOTE_FAILED" },
+      { status: 500 }
+    );
+  }
+}
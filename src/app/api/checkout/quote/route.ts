@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { checkoutQuoteSchema } from "@/lib/validations/orders";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { OrderPricingError } from "@/lib/services/order-pricing";
+import { createCheckoutQuote } from "@/lib/services/checkout-quote";
+import { CouponError } from "@/lib/services/coupons";
+
+/**
+ * POST /api/checkout/quote
+ * Itemised server-side price breakdown for the cart with a signed quote token.
+ * The token is required by POST /api/orders and expires after appConfig.checkout.quoteTtlMinutes
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const validationResult = checkoutQuoteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await createCheckoutQuote({
+      customerId: user.id,
+      ...validationResult.data,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required", code: "AUTH_REQUIRED" }, { status: 401 });
+    }
+
+    if (error instanceof OrderPricingError || error instanceof CouponError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    logger.error("[API /checkout/quote] Error", error);
+    return NextResponse.json(
+      { error: "Unable to price your cart. Please try again.", code: "QUOTE_FAILED" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { createSplitCheckoutSchema } from "@/lib/validations/orders";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { OrderPricingError } from "@/lib/services/order-pricing";
+import { verifySplitQuoteToken } from "@/lib/services/checkout-quote";
+import { createSplitCheckout, CheckoutError } from "@/lib/services/checkouts";
+import { getOrderActor } from "@/lib/services/order-transitions";
+import { WalletLedgerError } from "@/lib/services/wallet-ledger";
+
+/**
+ * POST /api/checkout/split
+ * Creates one order per shipment (recipient, or vendor for grouped quotes) from a signed
+ * quote, under a parent checkout paid with a single Razorpay order (paymentId)
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const validationResult = createSplitCheckoutSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { quoteToken, shipments, gstin } = validationResult.data;
+
+    // Amounts come only from the signed split quote
+    const payload = verifySplitQuoteToken(quoteToken, user.id);
+
+    const checkout = await createSplitCheckout({
+      customer: { id: user.id, phone: user.phone },
+      actor: getOrderActor(user),
+      payload,
+      shipmentItems: shipments,
+      gstin,
+    });
+
+    return NextResponse.json(checkout);
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required", code: "AUTH_REQUIRED" }, { status: 401 });
+    }
+
+    if (error instanceof WalletLedgerError && error.code === "WALLET_INSUFFICIENT_BALANCE") {
+      return NextResponse.json(
+        { error: "Your cashback balance has changed. Please review your order again.", code: "QUOTE_STALE" },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof OrderPricingError || error instanceof CheckoutError || error instanceof WalletLedgerError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    logger.error("[API /checkout/split] Error", error);
+    return NextResponse.json(
+      { error: "Failed to create order. Please try again.", code: "ORDER_CREATE_FAILED" },
+      { status: 500 }
+    );
+  }
+}
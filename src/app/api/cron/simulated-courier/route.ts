@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireCronSecret } from "@/lib/auth/server";
+import { isAuthError } from "@/lib/types/api-errors";
+import { playDueSimulatedCallbacks } from "@/lib/services/simulated-courier";
+
+/**
+ * GET /api/cron/simulated-courier
+ * Scheduled playback (Authorization: Bearer <CRON_SECRET>), meant to run every minute
+ * Sends the next status callback of every simulated courier booking that has one due
+ */
+export async function GET(request: Request) {
+  try {
+    requireCronSecret(request);
+
+    const result = await playDueSimulatedCallbacks();
+
+    if (result.played > 0 || result.failed > 0) {
+      logger.info("[Cron Simulated Courier] Completed", result);
+    }
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (isAuthError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("[Cron Simulated Courier] Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
+
+export const POST = GET;
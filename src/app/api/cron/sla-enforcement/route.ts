@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireCronSecret } from "@/lib/auth/server";
+import { isAuthError } from "@/lib/types/api-errors";
+import { enforceOrderSlas, SlaError } from "@/lib/services/sla-enforcement";
+
+/**
+ * GET /api/cron/sla-enforcement
+ * Scheduled SLA check (Authorization: Bearer <CRON_SECRET>), meant to run every minute
+ * Expires unpaid orders, auto-rejects and refunds orders past accept_deadline, flags overdue mockups,
+ * reminds customers to review mockups and auto-approves them after the review window
+ */
+export async function GET(request: Request) {
+  try {
+    requireCronSecret(request);
+
+    const result = await enforceOrderSlas();
+
+    logger.info("[Cron SLA Enforcement] Completed", result);
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (isAuthError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof SlaError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[Cron SLA Enforcement] Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
+
+export const POST = GET;
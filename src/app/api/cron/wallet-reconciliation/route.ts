@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { requireCronSecret } from "@/lib/auth/server";
+import { isAuthError } from "@/lib/types/api-errors";
+import { reconcileWallets, WalletLedgerError } from "@/lib/services/wallet-ledger";
+
+/**
+ * GET /api/cron/wallet-reconciliation
+ * Scheduled wallet reconciliation (Authorization: Bearer <CRON_SECRET>)
+ * Compares stored wallet balances with the ledger and alerts admins on drift
+ */
+export async function GET(request: Request) {
+  try {
+    requireCronSecret(request);
+
+    const run = await reconcileWallets();
+
+    logger.info("[Cron Wallet Reconciliation] Completed", {
+      runId: run.id,
+      walletsChecked: run.walletsChecked,
+      discrepancyCount: run.discrepancyCount,
+    });
+
+    return NextResponse.json({
+      runId: run.id,
+      walletsChecked: run.walletsChecked,
+      discrepancyCount: run.discrepancyCount,
+      totalDifference: run.totalDifference,
+    });
+  } catch (error: unknown) {
+    if (isAuthError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof WalletLedgerError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[Cron Wallet Reconciliation] Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
+
+export const POST = GET;
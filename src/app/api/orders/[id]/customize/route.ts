@@ -7,6 +7,7 @@ import { requireAuth, AuthError } from "@/lib/auth/server";
 import { isAuthError, isErrorWithStatus, formatApiError } from "@/lib/types/api-errors";
 import { z } from "zod";
 import { isDevelopment } from "@/lib/config/env";
+import { transitionOrderStatus, getOrderActor, OrderTransitionError } from "@/lib/services/order-transitions";
 
 const customizeOrderSchema = z.object({
   customizations: z.array(
@@ -120,14 +121,21 @@ export async function POST(
       return item;
     });
 
-    // Update order status to "personalizing"
-    await db
-      .update(orders)
-      .set({
-        items: updatedItems,
-        status: "personalizing",
-      })
-      .where(eq(orders.id, orderId));
+    // Save customizations; orders still awaiting details move to "personalizing"
+    if (order.status === "awaiting_details") {
+      await transitionOrderStatus({
+        orderId,
+        to: "personalizing",
+        actor: getOrderActor(user),
+        reason: "Customer submitted customization details",
+        updates: { items: updatedItems },
+      });
+    } else {
+      await db
+        .update(orders)
+        .set({ items: updatedItems })
+        .where(eq(orders.id, orderId));
+    }
 
     logger.info("[API /orders/[id]/customize] Customization submitted", {
       orderId,
@@ -139,6 +147,13 @@ export async function POST(
       message: "Customization details submitted successfully",
     });
   } catch (error: unknown) {
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
     if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
       logger.warn("[API /orders/[id]/customize] Authentication required");
       return NextResponse.json(
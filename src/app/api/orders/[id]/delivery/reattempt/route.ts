@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClientWithRequest } from "@/lib/supabase/client";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { deliverySlotSchema } from "@/lib/validations/deliveries";
+import { getActiveOrderDelivery, scheduleDeliveryReattempt, DeliveryError } from "@/lib/services/deliveries";
+
+/**
+ * POST /api/orders/[id]/delivery/reattempt
+ * Pick a slot for the next attempt after a failed delivery (the order's customer only)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    const body = await request.json();
+    const validationResult = deliverySlotSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Use authenticated Supabase client - RLS decides who can see the order
+    const supabase = await createSupabaseServerClientWithRequest(request);
+    if (!supabase) {
+      return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .select("id, customer_id")
+      .eq("id", id)
+      .single();
+
+    if (orderError || !order) {
+      if (orderError?.code === "PGRST116") {
+        return NextResponse.json({ error: "Order not found" }, { status: 404 });
+      }
+      logger.error("[API /orders/[id]/delivery/reattempt] Failed to fetch order", orderError);
+      return NextResponse.json({ error: "Failed to fetch order" }, { status: 500 });
+    }
+
+    if (order.customer_id !== user.id) {
+      return NextResponse.json({ error: "Only the customer can pick a reattempt slot" }, { status: 403 });
+    }
+
+    const delivery = await getActiveOrderDelivery(id);
+    if (!delivery) {
+      return NextResponse.json({ error: "This order has no delivery to reattempt", code: "DELIVERY_NOT_FOUND" }, { status: 404 });
+    }
+
+    const updated = await scheduleDeliveryReattempt(delivery, validationResult.data);
+
+    return NextResponse.json({ delivery: updated });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof DeliveryError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /orders/[id]/delivery/reattempt] POST Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
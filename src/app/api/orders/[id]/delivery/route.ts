@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClientWithRequest } from "@/lib/supabase/client";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { getOrderDeliveries, getReattemptSlots, CLOSED_DELIVERY_STATUSES, DeliveryError } from "@/lib/services/deliveries";
+
+/**
+ * GET /api/orders/[id]/delivery
+ * Courier tracking for an order: the current booking (AWB, tracking URL, rider,
+ * event timeline) plus earlier closed bookings, and the reattempt slots on offer
+ * after a failed attempt
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+    const { id } = await params;
+
+    // Use authenticated Supabase client - RLS decides who can see the order
+    const supabase = await createSupabaseServerClientWithRequest(request);
+    if (!supabase) {
+      return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .select("id")
+      .eq("id", id)
+      .single();
+
+    if (orderError || !order) {
+      if (orderError?.code === "PGRST116") {
+        return NextResponse.json({ error: "Order not found" }, { status: 404 });
+      }
+      logger.error("[API /orders/[id]/delivery] Failed to fetch order", orderError);
+      return NextResponse.json({ error: "Failed to fetch order" }, { status: 500 });
+    }
+
+    const deliveries = await getOrderDeliveries(id);
+    const delivery = deliveries.find((d) => !CLOSED_DELIVERY_STATUSES.includes(d.status)) ?? null;
+    const reattemptSlots = delivery?.status === "delivery_failed" ? getReattemptSlots() : [];
+
+    return NextResponse.json({ delivery, deliveries, reattemptSlots });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof DeliveryError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /orders/[id]/delivery] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
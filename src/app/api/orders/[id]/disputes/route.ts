@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClientWithRequest } from "@/lib/supabase/client";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { createDisputeSchema } from "@/lib/validations/disputes";
+import { createDispute, getOrderDisputes, DisputeError } from "@/lib/services/disputes";
+
+/**
+ * GET /api/orders/[id]/disputes
+ * Disputes raised on an order (customer, vendor or admin)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+    const { id } = await params;
+
+    // Use authenticated Supabase client - RLS decides who can see the order
+    const supabase = await createSupabaseServerClientWithRequest(request);
+    if (!supabase) {
+      return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .select("id")
+      .eq("id", id)
+      .single();
+
+    if (orderError || !order) {
+      if (orderError?.code === "PGRST116") {
+        return NextResponse.json({ error: "Order not found" }, { status: 404 });
+      }
+      logger.error("[API /orders/[id]/disputes] Failed to fetch order", orderError);
+      return NextResponse.json({ error: "Failed to fetch order" }, { status: 500 });
+    }
+
+    return NextResponse.json({ disputes: await getOrderDisputes(id) });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof DisputeError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /orders/[id]/disputes] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/orders/[id]/disputes
+ * Raise a dispute on a delivered order (the order's customer only)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    const body = await request.json();
+    const validationResult = createDisputeSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const dispute = await createDispute({
+      orderId: id,
+      customerId: user.id,
+      input: validationResult.data,
+    });
+
+    return NextResponse.json({ dispute }, { status: 201 });
+  } catch (error: unknown) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (error instanceof DisputeError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    logger.error("[API /orders/[id]/disputes] POST Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClientWithRequest } from "@/lib/supabase/client";
+import { logger } from "@/lib/utils/logger";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
+import { getOrderStatusHistory, getAllowedTransitions, getOrderActor, OrderTransitionError } from "@/lib/services/order-transitions";
+import type { OrderStatus } from "@/lib/constants/order-status";
+
+/**
+ * GET /api/orders/[id]/history
+ * Status transition history for an order (customer, vendor or admin)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    // Use authenticated Supabase client - RLS decides who can see the order
+    const supabase = await createSupabaseServerClientWithRequest(request);
+    if (!supabase) {
+      return NextResponse.json({ error: "Service temporarily unavailable" }, { status: 503 });
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .select("id, status")
+      .eq("id", id)
+      .single();
+
+    if (orderError || !order) {
+      if (orderError?.code === "PGRST116") {
+        return NextResponse.json({ error: "Order not found" }, { status: 404 });
+      }
+      logger.error("[API /orders/[id]/history] Failed to fetch order", orderError);
+      return NextResponse.json({ error: "Failed to fetch order" }, { status: 500 });
+    }
+
+    const history = await getOrderStatusHistory(id);
+
+    return NextResponse.json({
+      status: order.status,
+      allowedTransitions: getAllowedTransitions(order.status as OrderStatus, getOrderActor(user).role),
+      history,
+    });
+  } catch (error: unknown) {
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    logger.error("[API /orders/[id]/history] Error", error);
+    return NextResponse.json(
+      { error: "Unable to load order history.", code: "ORDER_HISTORY_FETCH_FAILED" },
+      { status: 500 }
+    );
+  }
+}
@@ -8,22 +8,33 @@ import { isAuthError, isErrorWithStatus, getErrorMessage, formatApiError } from
 import { emailService } from "@/lib/services/email";
 import { z } from "zod";
 import { isDevelopment } from "@/lib/config/env";
+import { getOrderActor, OrderTransitionError } from "@/lib/services/order-transitions";
+import {
+  submitMockupVersions,
+  reviewMockupVersions,
+  listMockupRevisions,
+  getPendingMockupProductIds,
+  MockupRevisionError,
+  type ReviewMockupVersionsParams,
+} from "@/lib/services/mockup-revisions";
+import { reviewMockupsSchema } from "@/lib/validations/mockups";
 
 const uploadMockupSchema = z.object({
-  productId: z.string(),
+  productId: z.string().uuid(),
   mockupImage: z.string().url(),
-  artisanNote: z.string().optional(),
+  artisanNote: z.string().max(500).optional(),
 });
 
 const approveMockupSchema = z.object({
-  productId: z.string().optional(), // Optional for backward compatibility
+  productId: z.string().optional(), // Ignored; kept for backward compatibility
   approved: z.boolean(),
-  revisionRequest: z.string().optional(),
+  revisionRequest: z.string().max(1000).optional(),
 });
 
 /**
  * POST /api/orders/[id]/mockup
- * Upload mockup for an order item (vendor) or approve/reject mockup (customer)
+ * Upload a mockup version for an order item (vendor), review the versions awaiting
+ * the customer per item ("review"), or decide on all of them at once ("approve")
  */
 export async function POST(
   request: Request,
@@ -67,22 +78,14 @@ export async function POST(
     const action = body.action; // "upload" or "approve"
 
     if (action === "upload") {
-      // Vendor uploading mockup
-      // Verify user is the vendor
-      if (order.vendorId !== user.id) {
-        return NextResponse.json(
-          { error: "Unauthorized - only vendor can upload mockups" },
-          { status: 403 }
-        );
-      }
-
+      // Vendor uploading mockup - ownership is checked by the service
       // Validate request
       const validationResult = uploadMockupSchema.safeParse(body);
       if (!validationResult.success) {
         return NextResponse.json(
           {
             error: "Validation failed",
-            details: validationResult.error.errors,
+            details: validationResult.error.issues,
           },
           { status: 400 }
         );
@@ -90,37 +93,15 @@ export async function POST(
 
       const { productId, mockupImage, artisanNote } = validationResult.data;
 
-      // Update mockupImages in orders table
-      const currentMockupImages = (order.mockupImages as Record<string, string[]> | null) || {};
-      const productMockups = currentMockupImages[productId] || [];
-      productMockups.push(mockupImage);
-      
-      const updatedMockupImages = {
-        ...currentMockupImages,
-        [productId]: productMockups,
-      };
-
-      // Update order with new mockup image
-      await db
-        .update(orders)
-        .set({ 
-          mockupImages: updatedMockupImages,
-          status: "mockup_ready",
-        })
-        .where(eq(orders.id, orderId));
-
-      // Check if all items have mockups
-      const orderItems = order.items as Array<{ productId: string }>;
-      const allItemsHaveMockups = orderItems.every(
-        (item) => updatedMockupImages[item.productId]?.length > 0
-      );
-
-      if (allItemsHaveMockups) {
-        await db
-          .update(orders)
-          .set({ status: "mockup_ready" })
-          .where(eq(orders.id, orderId));
+      // The upload becomes the item's next version (or replaces one not yet reviewed)
+      const result = await submitMockupVersions({
+        orderId,
+        actor: getOrderActor(user),
+        mockupImages: { [productId]: [mockupImage] },
+        notes: artisanNote ? { [productId]: artisanNote } : undefined,
+      });
 
+      if (result.readyForReview) {
         // Send email notification to customer that mockup is ready (non-blocking)
         try {
           const [customer] = await db
@@ -152,113 +133,100 @@ export async function POST(
       return NextResponse.json({
         success: true,
         message: "Mockup uploaded successfully",
+        revision: result.revisions[0] ?? null,
       });
-    } else if (action === "approve") {
-      // Customer approving/rejecting mockup
-      // Verify user is the customer
-      if (order.customerId !== user.id) {
-        return NextResponse.json(
-          { error: "Unauthorized - only customer can approve mockups" },
-          { status: 403 }
-        );
-      }
-
-      // Validate request
-      const validationResult = approveMockupSchema.safeParse(body);
-      if (!validationResult.success) {
-        return NextResponse.json(
-          {
-            error: "Validation failed",
-            details: validationResult.error.errors,
-          },
-          { status: 400 }
-        );
-      }
-
-      const { productId, approved, revisionRequest } = validationResult.data;
-
-      // Update order based on approval status
-      type OrderUpdate = {
-        mockupApprovedAt?: Date;
-        status?: string;
-        revisionRequest?: {
-          productId: string | null;
-          feedback: string;
-          requestedAt: string;
-        } | null;
-      };
-      
-      const updateData: OrderUpdate = {};
-      
-      if (approved) {
-        updateData.mockupApprovedAt = new Date();
-        updateData.status = "crafting";
-        // Clear any previous revision request
-        updateData.revisionRequest = null;
+    } else if (action === "review" || action === "approve") {
+      // Customer approving/rejecting mockups - ownership is checked by the service
+      let decisions: ReviewMockupVersionsParams["decisions"];
+
+      if (action === "review") {
+        const validationResult = reviewMockupsSchema.safeParse(body);
+        if (!validationResult.success) {
+          return NextResponse.json(
+            {
+              error: "Validation failed",
+              details: validationResult.error.issues,
+            },
+            { status: 400 }
+          );
+        }
+        decisions = validationResult.data.decisions;
       } else {
-        // Revision requested
-        updateData.revisionRequest = {
-          productId: productId || null,
-          feedback: revisionRequest || "Please revise the mockup",
-          requestedAt: new Date().toISOString(),
-        };
-        updateData.status = "personalizing"; // Back to personalizing for revision
+        const validationResult = approveMockupSchema.safeParse(body);
+        if (!validationResult.success) {
+          return NextResponse.json(
+            {
+              error: "Validation failed",
+              details: validationResult.error.issues,
+            },
+            { status: 400 }
+          );
+        }
+
+        // One decision for every version awaiting review
+        const { approved, revisionRequest } = validationResult.data;
+        decisions = (await getPendingMockupProductIds(orderId)).map((pendingProductId) => ({
+          productId: pendingProductId,
+          decision: approved ? "approved" as const : "rejected" as const,
+          feedback: approved ? undefined : revisionRequest || "Please revise the mockup",
+        }));
       }
 
-      const [updatedOrder] = await db
-        .update(orders)
-        .set(updateData)
-        .where(eq(orders.id, orderId))
-        .returning();
+      const reviewResult = await reviewMockupVersions({
+        orderId,
+        actor: getOrderActor(user),
+        decisions,
+      });
+      const approved = reviewResult.approved;
+      const revisionRequest = decisions.find((decision) => decision.decision === "rejected")?.feedback;
+      const productId = reviewResult.rejectedProductIds[0];
 
       // Send email notification based on action (non-blocking)
-      if (updatedOrder) {
-        try {
-          if (approved) {
-            // Notify vendor that mockup was approved and crafting started
-            const [vendor] = await db
-              .select({ email: users.email })
-              .from(users)
-              .where(eq(users.id, order.vendorId))
-              .limit(1);
-
-            if (vendor?.email) {
-              await emailService.sendOrderStatusUpdate(
-                vendor.email,
-                order.orderNumber,
-                "crafting",
-                "Customer has approved the mockup. You can now start crafting the order."
-              );
-              logger.info("[API /orders/[id]/mockup] Mockup approved email sent to vendor", { orderId, email: vendor.email });
-            }
-          } else {
-            // Notify vendor that revision was requested
-            const [vendor] = await db
-              .select({ email: users.email })
-              .from(users)
-              .where(eq(users.id, order.vendorId))
-              .limit(1);
-
-            if (vendor?.email) {
-              await emailService.sendEmail({
-                to: vendor.email,
-                subject: `Revision Requested for Order ${order.orderNumber}`,
-                html: `
-                  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-                    <h2>Revision Requested</h2>
-                    <p>The customer has requested a revision for order <strong>${order.orderNumber}</strong>.</p>
-                    ${revisionRequest ? `<p><strong>Feedback:</strong> ${revisionRequest}</p>` : ""}
-                    <p>Please review the feedback and upload a revised mockup.</p>
-                  </div>
-                `,
-                text: `Revision requested for order ${order.orderNumber}.${revisionRequest ? ` Feedback: ${revisionRequest}` : ""}`,
-              });
-              logger.info("[API /orders/[id]/mockup] Revision request email sent to vendor", { orderId, email: vendor.email });
-            }
+      try {
+        if (approved) {
+          // Notify vendor that mockup was approved and crafting started
+          const [vendor] = await db
+            .select({ email: users.email })
+            .from(users)
+            .where(eq(users.id, order.vendorId))
+            .limit(1);
+
+          if (vendor?.email) {
+            await emailService.sendOrderStatusUpdate(
+              vendor.email,
+              order.orderNumber,
+              "crafting",
+              "Customer has approved the mockup. You can now start crafting the order."
+            );
+            logger.info("[API /orders/[id]/mockup] Mockup approved email sent to vendor", { orderId, email: vendor.email });
+          }
+        } else {
+          // Notify vendor that revision was requested
+          const [vendor] = await db
+            .select({ email: users.email })
+            .from(users)
+            .where(eq(users.id, order.vendorId))
+            .limit(1);
+
+          if (vendor?.email) {
+            await emailService.sendEmail({
+              to: vendor.email,
+              subject: `Revision Requested for Order ${order.orderNumber}`,
+              html: `
+                <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+                  <h2>Revision Requested</h2>
+                  <p>The customer has requested a revision for order <strong>${order.orderNumber}</strong>.</p>
+                  ${revisionRequest ? `<p><strong>Feedback:</strong> ${revisionRequest}</p>` : ""}
+                  <p>Please review the feedback and upload a revised mockup.</p>
+                </div>
+              `,
+              text: `Revision requested for order ${order.orderNumber}.${revisionRequest ? ` Feedback: ${revisionRequest}` : ""}`,
+            });
+            logger.info("[API /orders/[id]/mockup] Revision request email sent to vendor", { orderId, email: vendor.email });
           }
-        } catch (emailError) {
-          logger.error("[API /orders/[id]/mockup] Failed to send email notification", emailError);
         }
+      } catch (emailError) {
+        logger.error("[API /orders/[id]/mockup] Failed to send email notification", emailError);
       }
 
       logger.info("[API /orders/[id]/mockup] Mockup action", {
@@ -270,17 +238,25 @@ export async function POST(
 
       return NextResponse.json({
         success: true,
+        approved,
         message: approved
           ? "Mockup approved successfully"
           : "Revision requested",
       });
     } else {
       return NextResponse.json(
-        { error: "Invalid action. Use 'upload' or 'approve'" },
+        { error: "Invalid action. Use 'upload', 'review' or 'approve'" },
         { status: 400 }
       );
     }
   } catch (error: unknown) {
+    if (error instanceof OrderTransitionError || error instanceof MockupRevisionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
     if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
       logger.warn("[API /orders/[id]/mockup] Authentication required");
       return NextResponse.json(
@@ -300,7 +276,7 @@ export async function POST(
 
 /**
  * GET /api/orders/[id]/mockup
- * Fetch all mockups for an order
+ * Fetch the latest mockups and every item's version history for an order
  */
 export async function GET(
   request: Request,
@@ -315,6 +291,7 @@ export async function GET(
         logger.warn("[API /orders/[id]/mockup] Development mode: Using mock mockups (database not available)");
         return NextResponse.json({
           mockups: [],
+          history: [],
           _devMode: true,
         });
       }
@@ -357,8 +334,12 @@ export async function GET(
         }))
       : [];
 
+    // Version history per item, oldest first
+    const history = await listMockupRevisions(orderId);
+
     return NextResponse.json({
       mockups,
+      history,
     });
   } catch (error: unknown) {
     if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
@@ -368,6 +349,13 @@ export async function GET(
       );
     }
 
+    if (error instanceof MockupRevisionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
     logger.error("[API /orders/[id]/mockup] GET Error", error);
     const errorResponse = formatApiError(error);
     return NextResponse.json(
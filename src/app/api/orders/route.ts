@@ -8,8 +8,13 @@ import { getRazorpayService } from "@/lib/services/razorpay";
 import { getRazorpayRouteService } from "@/lib/services/razorpay-route";
 import { emailService } from "@/lib/services/email";
 import { getSupabaseServiceClient, createSupabaseServerClientWithRequest } from "@/lib/supabase/client";
-import { getNimbusService } from "@/lib/services/nimbus";
-import { calculateOrderWeight } from "@/lib/utils/order-helpers";
+import { recordInitialOrderStatus, getOrderActor } from "@/lib/services/order-transitions";
+import { OrderPricingError } from "@/lib/services/order-pricing";
+import { verifyQuoteToken } from "@/lib/services/checkout-quote";
+import { CouponError, validateCoupon, reserveCouponUse, releaseCouponUse, recordCouponRedemption } from "@/lib/services/coupons";
+import { reserveOrderCashback } from "@/lib/services/order-cashback";
+import { WalletLedgerError } from "@/lib/services/wallet-ledger";
+import { claimDeliverySlot, DeliverySlotError } from "@/lib/services/delivery-slots";
 
 /**
  * Orders API
@@ -33,7 +38,7 @@ export async function GET(request: Request) {
     // Swiggy Dec 2025 pattern: Select specific fields to reduce payload size
     const { data: dbOrders, error } = await supabase
       .from("orders")
-      .select("id, order_number, customer_id, vendor_id, status, items, item_total, delivery_fee, platform_fee, cashback_used, total, delivery_type, delivery_address, payment_id, payment_status, created_at, updated_at")
+      .select("id, order_number, customer_id, vendor_id, status, items, item_total, delivery_fee, platform_fee, cashback_used, coupon_code, coupon_discount, total, delivery_type, delivery_address, delivery_slot_id, delivery_slot_start, delivery_slot_end, is_surprise, checkout_id, payment_id, payment_status, created_at, updated_at")
       .eq("customer_id", customerId)
       .order("created_at", { ascending: false });
 
@@ -53,9 +58,16 @@ export async function GET(request: Request) {
       deliveryFee: parseFloat(order.delivery_fee || "0"),
       platformFee: parseFloat(order.platform_fee || "0"),
       cashbackUsed: parseFloat(order.cashback_used || "0"),
+      couponCode: order.coupon_code,
+      couponDiscount: parseFloat(order.coupon_discount || "0"),
       total: parseFloat(order.total || "0"),
       deliveryType: order.delivery_type,
       deliveryAddress: order.delivery_address,
+      deliverySlot: order.delivery_slot_start
+        ? { slot: order.delivery_slot_id, start: order.delivery_slot_start, end: order.delivery_slot_end }
+        : null,
+      isSurprise: Boolean(order.is_surprise),
+      checkoutId: order.checkout_id,
       paymentId: order.payment_id,
       paymentStatus: order.payment_status,
       createdAt: order.created_at,
@@ -78,11 +90,11 @@ export async function POST(request: Request) {
     const customerId = user.id;
 
     const body = await request.json();
-    const validationResult = createOrderSchema.safeParse({ ...body, customerId });
+    const validationResult = createOrderSchema.safeParse(body);
     
     if (!validationResult.success) {
       return NextResponse.json(
-        { error: "Validation failed", details: validationResult.error.errors },
+        { error: "Validation failed", details: validationResult.error.issues },
         { status: 400 }
       );
     }
@@ -94,37 +106,142 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Service unavailable" }, { status: 503 });
     }
 
+    // Amounts come only from the signed checkout quote
+    const { quote, deliveryAddress, id: quoteId } = verifyQuoteToken(validatedData.quoteToken, customerId);
+
+    // Each quote places one order; a double submit or retry gets the conflict
+    const { data: existingOrder } = await supabase
+      .from("orders")
+      .select("id")
+      .eq("quote_id", quoteId)
+      .maybeSingle();
+
+    if (existingOrder) {
+      return NextResponse.json(
+        { error: "This order has already been placed", code: "QUOTE_ALREADY_USED" },
+        { status: 409 }
+      );
+    }
+
     const orderNumber = generateOrderNumber();
-    const itemTotal = validatedData.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    const total = itemTotal + validatedData.deliveryFee + validatedData.platformFee - validatedData.cashbackUsed;
+    const itemTotal = quote.itemTotal;
+    const total = quote.total;
+    const orderItems = quote.items.map((line, index) => {
+      const submitted = validatedData.items?.[index];
+      return {
+        productId: line.productId,
+        quantity: line.quantity,
+        price: line.unitPrice,
+        selectedVariants: line.selectedVariants,
+        selectedAddOns: line.selectedAddOns,
+        customization: submitted?.productId === line.productId ? submitted.customization : undefined,
+      };
+    });
 
     const { data: vendor } = await supabase
       .from("vendors")
-      .select("razorpay_account_id, name, store_address, city, user_id, users(phone)")
-      .eq("id", validatedData.vendorId)
+      .select("razorpay_account_id")
+      .eq("id", quote.vendorId)
       .single();
 
+    // Re-check the coupon (limits may have been used up since the quote) and claim a use
+    if (quote.coupon) {
+      await validateCoupon({
+        code: quote.coupon.code,
+        customerId,
+        vendorId: quote.vendorId,
+        items: quote.items,
+      });
+      await reserveCouponUse(quote.coupon.id);
+    }
+
     const { data: newOrder, error: insertError } = await supabase
       .from("orders")
       .insert({
         order_number: orderNumber,
         customer_id: customerId,
-        vendor_id: validatedData.vendorId,
+        vendor_id: quote.vendorId,
+        quote_id: quoteId,
         status: "pending",
-        items: validatedData.items,
+        items: orderItems,
         item_total: itemTotal.toString(),
-        delivery_fee: validatedData.deliveryFee.toString(),
-        platform_fee: validatedData.platformFee.toString(),
-        cashback_used: validatedData.cashbackUsed.toString(),
+        delivery_fee: quote.deliveryFee.toString(),
+        platform_fee: quote.platformFee.toString(),
+        cashback_used: quote.cashbackUsed.toString(),
+        coupon_id: quote.coupon?.id ?? null,
+        coupon_code: quote.coupon?.code ?? null,
+        coupon_discount: quote.couponDiscount.toString(),
         total: total.toString(),
-        delivery_type: validatedData.deliveryType,
-        delivery_address: validatedData.deliveryAddress,
+        delivery_type: quote.deliveryType,
+        delivery_address: deliveryAddress,
+        is_surprise: quote.surprise,
         payment_status: "pending",
       })
       .select()
       .single();
 
-    if (insertError) throw insertError;
+    if (insertError) {
+      if (quote.coupon) await releaseCouponUse(quote.coupon.id);
+      // Lost a race with a concurrent submit of the same quote
+      if (insertError.code === "23505") {
+        return NextResponse.json(
+          { error: "This order has already been placed", code: "QUOTE_ALREADY_USED" },
+          { status: 409 }
+        );
+      }
+      throw insertError;
+    }
+
+    // Redeem the coupon; another checkout by this customer may have used up their limit
+    if (quote.coupon) {
+      try {
+        await recordCouponRedemption({
+          couponId: quote.coupon.id,
+          orderId: newOrder.id,
+          userId: customerId,
+          discountAmount: quote.couponDiscount,
+        });
+      } catch (redeemError) {
+        await supabase.from("orders").delete().eq("id", newOrder.id);
+        await releaseCouponUse(quote.coupon.id);
+        throw redeemError;
+      }
+    }
+
+    // Hold the scheduled slot; other orders may have filled it since the quote
+    if (quote.deliverySlot) {
+      try {
+        await claimDeliverySlot(newOrder.id, quote.deliverySlot);
+      } catch (slotError) {
+        await supabase.from("orders").delete().eq("id", newOrder.id);
+        if (quote.coupon) await releaseCouponUse(quote.coupon.id);
+        throw slotError;
+      }
+    }
+
+    // Hold the cashback against the order; it may have been spent on another order since the quote
+    try {
+      await reserveOrderCashback({
+        orderId: newOrder.id,
+        orderNumber,
+        customerId,
+        amount: quote.cashbackUsed,
+      });
+    } catch (reserveError) {
+      await supabase.from("orders").delete().eq("id", newOrder.id);
+      if (quote.coupon) await releaseCouponUse(quote.coupon.id);
+
+      if (reserveError instanceof WalletLedgerError && reserveError.code === "WALLET_INSUFFICIENT_BALANCE") {
+        return NextResponse.json(
+          { error: "Your cashback balance has changed. Please review your order again.", code: "QUOTE_STALE" },
+          { status: 409 }
+        );
+      }
+      throw reserveError;
+    }
+
+    await recordInitialOrderStatus(newOrder.id, "pending", getOrderActor(user));
+    logger.info("[Orders API] Order created from checkout quote", { orderId: newOrder.id, quoteId });
 
     let paymentId: string | null = null;
     try {
@@ -137,11 +254,11 @@ export async function POST(request: Request) {
         orderId: newOrder.id,
         customerId: user.id,
         customerPhone: user.phone,
-        notes: { order_number: orderNumber, vendor_id: validatedData.vendorId },
+        notes: { order_number: orderNumber, vendor_id: quote.vendorId },
       });
 
       paymentId = payment.id;
-      await supabase.from("orders").update({ payment_id: paymentId }).eq("id", newOrder.id);
+      await supabase.from("orders").update({ razorpay_order_id: paymentId, payment_id: paymentId }).eq("id", newOrder.id);
 
       if (vendor?.razorpay_account_id) {
         try {
@@ -169,59 +286,9 @@ export async function POST(request: Request) {
       logger.error("[Orders API] Payment creation failed", paymentError);
     }
 
-    // Create Nimbus delivery after order creation
-    if (validatedData.deliveryType === 'local' || validatedData.deliveryType === 'intercity') {
-      try {
-        const nimbusService = getNimbusService();
-        
-        // Extract pincode from store address if available (format: "Address, City, Pincode")
-        const storePincode = vendor?.store_address?.match(/\b\d{6}\b/)?.[0] || '';
-        
-        // Get vendor phone from users table
-        const vendorPhone = (vendor as any)?.users?.phone || '';
-        
-        const deliveryRequest = {
-          orderId: newOrder.id,
-          pickupAddress: {
-            name: vendor?.name || 'Vendor',
-            phone: vendorPhone,
-            address: vendor?.store_address || '',
-            city: vendor?.city || '',
-            pincode: storePincode,
-          },
-          deliveryAddress: {
-            name: validatedData.deliveryAddress.name,
-            phone: validatedData.deliveryAddress.phone || user.phone,
-            address: validatedData.deliveryAddress.address,
-            city: validatedData.deliveryAddress.city,
-            pincode: validatedData.deliveryAddress.pincode,
-          },
-          weight: calculateOrderWeight(validatedData.items),
-          type: validatedData.deliveryType,
-        };
-
-        const deliveryResult = await nimbusService.createDelivery(deliveryRequest);
-        
-        // Update order with delivery info
-        await supabase.from("orders").update({
-          delivery_partner_id: deliveryResult.partnerId,
-          estimated_delivery: deliveryResult.estimatedTime,
-        }).eq("id", newOrder.id);
-        
-        logger.info("[Orders API] Nimbus delivery created", { 
-          orderId: newOrder.id, 
-          deliveryId: deliveryResult.deliveryId 
-        });
-      } catch (nimbusError) {
-        logger.error("[Orders API] Nimbus delivery creation failed", nimbusError);
-        // Don't fail order creation if delivery creation fails
-        // Order is already created and payment processed
-      }
-    }
-
     // Trigger email confirmation asynchronously
     if (user.email) {
-      emailService.sendOrderConfirmation(user.email, orderNumber, newOrder.id, total, validatedData.items.map(i => ({ name: "Custom Gift", quantity: i.quantity, price: i.price })))
+      emailService.sendOrderConfirmation(user.email, orderNumber, newOrder.id, total, quote.items.map(i => ({ name: i.name, quantity: i.quantity, price: i.unitPrice })))
         .catch(e => logger.error("[Orders API] Email failed", e));
     }
 
@@ -236,6 +303,15 @@ export async function POST(request: Request) {
     if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
       return NextResponse.json({ error: "Authentication required", code: "AUTH_REQUIRED" }, { status: 401 });
     }
+
+    if (
+      error instanceof OrderPricingError ||
+      error instanceof CouponError ||
+      error instanceof WalletLedgerError ||
+      error instanceof DeliverySlotError
+    ) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
     
     logger.error("[Orders API] Post failure", {
       error: error instanceof Error ? error.message : String(error),
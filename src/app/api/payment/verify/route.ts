@@ -7,20 +7,33 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { getRazorpayService } from "@/lib/services/razorpay";
 import { emailService } from "@/lib/services/email";
+import { commitOrderCashback } from "@/lib/services/order-cashback";
+import { restoreOrderCouponRedemption } from "@/lib/services/coupons";
+import { updateCheckoutPayment } from "@/lib/services/checkouts";
+import { startAcceptWindow } from "@/lib/services/sla-enforcement";
+import { requireAuth } from "@/lib/auth/server";
+import { isAuthError, isErrorWithStatus } from "@/lib/types/api-errors";
 import { db } from "@/lib/db";
-import { orders, users } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { checkouts, orders, users } from "@/lib/db/schema";
+import { and, eq, inArray, ne } from "drizzle-orm";
 import { logger } from "@/lib/utils/logger";
 import crypto from "crypto";
 import { timingSafeEqual, stringToBytes } from "@/lib/utils/crypto-safe";
 import { env } from "@/lib/config/env";
 
-const verifyPaymentSchema = z.object({
-  razorpay_payment_id: z.string(),
-  razorpay_order_id: z.string(),
-  razorpay_signature: z.string(),
-  orderId: z.string().uuid(),
-});
+const verifyPaymentSchema = z
+  .object({
+    razorpay_payment_id: z.string(),
+    razorpay_order_id: z.string(),
+    razorpay_signature: z.string(),
+    orderId: z.string().uuid().optional(),
+    checkoutId: z.string().uuid().optional(), // Split checkout: one payment for all of its orders
+  })
+  .refine((data) => Boolean(data.orderId) !== Boolean(data.checkoutId), "Provide either orderId or checkoutId");
+
+// Payment statuses a verified payment can still move an order out of
+// (same guard as the payment.captured webhook)
+const CAPTURABLE_PAYMENT_STATUSES = ["pending", "failed"];
 
 /**
  * Verify Razorpay payment signature
@@ -54,10 +67,124 @@ function verifyPaymentSignature(
   }
 }
 
+/**
+ * Mark every order of a split checkout with the verified payment
+ * The signature only ties the payment to a Razorpay order, so the checkout must be
+ * the one that Razorpay order was created for, and belong to the customer.
+ */
+async function verifyCheckoutPayment(
+  checkoutId: string,
+  customerId: string,
+  razorpayOrderId: string,
+  paymentId: string,
+  razorpayStatus: string
+) {
+  if (!db) {
+    logger.warn("[Payment Verify] Database not available");
+    return NextResponse.json(
+      { success: false, error: "Database not available", code: "DATABASE_UNAVAILABLE" },
+      { status: 503 }
+    );
+  }
+
+  const [checkout] = await db
+    .select({ customerId: checkouts.customerId, razorpayOrderId: checkouts.razorpayOrderId })
+    .from(checkouts)
+    .where(eq(checkouts.id, checkoutId))
+    .limit(1);
+
+  if (!checkout || checkout.customerId !== customerId) {
+    logger.error("[Payment Verify] Checkout not found", { checkoutId });
+    return NextResponse.json(
+      { success: false, error: "Checkout not found", code: "CHECKOUT_NOT_FOUND" },
+      { status: 404 }
+    );
+  }
+
+  if (checkout.razorpayOrderId !== razorpayOrderId) {
+    logger.error("[Payment Verify] Payment does not belong to checkout", { checkoutId, razorpayOrderId });
+    return NextResponse.json(
+      { success: false, error: "Payment does not match this checkout", code: "PAYMENT_MISMATCH" },
+      { status: 400 }
+    );
+  }
+
+  const paymentStatus = razorpayStatus === "captured" ? "completed" : "pending";
+
+  // Paid, refunded or cancelled orders keep their status
+  const updatedOrders = await db
+    .update(orders)
+    .set({ paymentStatus, paymentId, updatedAt: new Date() })
+    .where(and(
+      eq(orders.checkoutId, checkoutId),
+      inArray(orders.paymentStatus, CAPTURABLE_PAYMENT_STATUSES),
+      ne(orders.status, "cancelled") // Expired; the payment.captured webhook refunds it
+    ))
+    .returning();
+
+  if (updatedOrders.length === 0) {
+    // The payment.captured webhook may have got there first
+    const settledOrders = await db
+      .select({ id: orders.id, orderNumber: orders.orderNumber, paymentStatus: orders.paymentStatus })
+      .from(orders)
+      .where(and(eq(orders.checkoutId, checkoutId), eq(orders.paymentId, paymentId)));
+
+    if (settledOrders.length > 0) {
+      return NextResponse.json({
+        success: true,
+        checkoutId,
+        orderIds: settledOrders.map((order) => order.id),
+        orderNumbers: settledOrders.map((order) => order.orderNumber),
+        paymentStatus: settledOrders[0].paymentStatus,
+        message: "Payment already verified",
+      });
+    }
+
+    logger.warn("[Payment Verify] Checkout already settled", { checkoutId });
+    return NextResponse.json(
+      { success: false, error: "Checkout can no longer be paid", code: "ALREADY_PROCESSED" },
+      { status: 409 }
+    );
+  }
+
+  await updateCheckoutPayment(checkoutId, { paymentId, paymentStatus });
+
+  logger.info("[Payment Verify] Checkout payment verified", {
+    checkoutId,
+    orders: updatedOrders.length,
+    paymentId,
+    status: razorpayStatus,
+  });
+
+  if (paymentStatus === "completed") {
+    for (const order of updatedOrders) {
+      try {
+        await commitOrderCashback(order.id);
+      } catch (cashbackError) {
+        // The payment.captured webhook commits it as well; don't fail a captured payment
+        logger.error("[Payment Verify] Failed to commit cashback", { orderId: order.id, error: cashbackError });
+      }
+    }
+
+    // Vendors now have to accept within the accept window
+    await startAcceptWindow(updatedOrders.map((order) => order.id));
+  }
+
+  return NextResponse.json({
+    success: true,
+    checkoutId,
+    orderIds: updatedOrders.map((order) => order.id),
+    orderNumbers: updatedOrders.map((order) => order.orderNumber),
+    paymentStatus,
+    message: "Payment verified successfully",
+  });
+}
+
 export async function POST(request: Request) {
   try {
+    const user = await requireAuth(request);
     const body = await request.json();
-    const { razorpay_payment_id, razorpay_order_id, razorpay_signature, orderId } =
+    const { razorpay_payment_id, razorpay_order_id, razorpay_signature, orderId, checkoutId } =
       verifyPaymentSchema.parse(body);
 
     // Verify payment signature
@@ -89,6 +216,18 @@ export async function POST(request: Request) {
     
     try {
       const payment = await razorpayService.verifyPayment(razorpay_payment_id);
+      if (payment.order_id !== razorpay_order_id) {
+        logger.error("[Payment Verify] Payment belongs to another Razorpay order", {
+          orderId,
+          razorpay_order_id,
+          razorpay_payment_id,
+          paymentOrderId: payment.order_id,
+        });
+        return NextResponse.json(
+          { success: false, error: "Payment does not match this order", code: "PAYMENT_MISMATCH" },
+          { status: 400 }
+        );
+      }
       paymentStatus = payment.status;
     } catch (error) {
       logger.error("[Payment Verify] Failed to verify payment with Razorpay", error);
@@ -102,8 +241,20 @@ export async function POST(request: Request) {
       );
     }
 
+    if (checkoutId) {
+      try {
+        return await verifyCheckoutPayment(checkoutId, user.id, razorpay_order_id, razorpay_payment_id, paymentStatus);
+      } catch (dbError) {
+        logger.error("[Payment Verify] Database update failed", dbError);
+        return NextResponse.json(
+          { success: false, error: "Failed to update order", code: "DATABASE_ERROR" },
+          { status: 500 }
+        );
+      }
+    }
+
     // Update order in database
-    if (db) {
+    if (db && orderId) {
       try {
         const [updatedOrder] = await db
           .update(orders)
@@ -112,11 +263,40 @@ export async function POST(request: Request) {
             paymentId: razorpay_payment_id,
             updatedAt: new Date(),
           })
-          .where(eq(orders.id, orderId))
+          .where(and(
+            eq(orders.id, orderId),
+            eq(orders.customerId, user.id),
+            // The Razorpay order created for this order, so a payment for another order can't settle it
+            eq(orders.razorpayOrderId, razorpay_order_id),
+            inArray(orders.paymentStatus, CAPTURABLE_PAYMENT_STATUSES),
+            ne(orders.status, "cancelled") // Expired; the payment.captured webhook refunds it
+          ))
           .returning();
 
         if (!updatedOrder) {
-          logger.error("[Payment Verify] Order not found", { orderId });
+          // The payment.captured webhook may have got there first
+          const [settledOrder] = await db
+            .select({ id: orders.id, orderNumber: orders.orderNumber, paymentStatus: orders.paymentStatus })
+            .from(orders)
+            .where(and(
+              eq(orders.id, orderId),
+              eq(orders.customerId, user.id),
+              eq(orders.razorpayOrderId, razorpay_order_id),
+              eq(orders.paymentId, razorpay_payment_id)
+            ))
+            .limit(1);
+
+          if (settledOrder) {
+            return NextResponse.json({
+              success: true,
+              orderId: settledOrder.id,
+              orderNumber: settledOrder.orderNumber,
+              paymentStatus: settledOrder.paymentStatus,
+              message: "Payment already verified",
+            });
+          }
+
+          logger.error("[Payment Verify] Order not found or already settled", { orderId });
           return NextResponse.json(
             {
               success: false,
@@ -134,6 +314,25 @@ export async function POST(request: Request) {
           status: paymentStatus,
         });
 
+        if (updatedOrder.paymentStatus === "completed") {
+          try {
+            await commitOrderCashback(updatedOrder.id);
+          } catch (cashbackError) {
+            // The payment.captured webhook commits it as well; don't fail a captured payment
+            logger.error("[Payment Verify] Failed to commit cashback", { orderId, error: cashbackError });
+          }
+
+          try {
+            // Only acts if an earlier failed payment reversed the coupon
+            await restoreOrderCouponRedemption(updatedOrder.id);
+          } catch (couponError) {
+            logger.error("[Payment Verify] Failed to restore coupon redemption", { orderId, error: couponError });
+          }
+
+          // Vendors now have to accept within the accept window
+          await startAcceptWindow([updatedOrder.id]);
+        }
+
         // Send payment confirmation email (non-blocking)
         if (updatedOrder.paymentStatus === "completed") {
           try {
@@ -189,6 +388,13 @@ export async function POST(request: Request) {
       );
     }
   } catch (error) {
+    if (isAuthError(error) || (isErrorWithStatus(error) && error.status === 401)) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required", code: "UNAUTHORIZED" },
+        { status: 401 }
+      );
+    }
+
     logger.error("[Payment Verify] Failed", error);
 
     if (error instanceof z.ZodError) {
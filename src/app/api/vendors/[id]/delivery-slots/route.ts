@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { vendorIdSchema, deliverySlotsQuerySchema } from "@/lib/validations/vendors";
+import { logger } from "@/lib/utils/logger";
+import { listDeliverySlots, DeliverySlotError } from "@/lib/services/delivery-slots";
+
+/**
+ * GET /api/vendors/[id]/delivery-slots?productIds=a,b
+ * Scheduled delivery slots for a cart: within the vendor's hours, after the
+ * products' mockup SLA lead time, with the places left in each
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const idResult = vendorIdSchema.safeParse({ id });
+    if (!idResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: idResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = deliverySlotsQuerySchema.safeParse({
+      productIds: searchParams.get("productIds") ?? "",
+    });
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: queryResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const slots = await listDeliverySlots({
+      vendorId: idResult.data.id,
+      productIds: queryResult.data.productIds,
+    });
+
+    return NextResponse.json({ slots });
+  } catch (error: unknown) {
+    if (error instanceof DeliverySlotError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    logger.error("[API /vendors/[id]/delivery-slots] GET Error", error);
+    return NextResponse.json({ error: "An internal error occurred" }, { status: 500 });
+  }
+}
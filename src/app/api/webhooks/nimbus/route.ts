@@ -0,0 +1,76 @@
+/**
+ * Nimbus Webhook Handler
+ * Courier status updates for booked deliveries
+ */
+
+import { NextResponse } from "next/server";
+import crypto from "crypto";
+import { getNimbusService } from "@/lib/services/nimbus";
+import { logger } from "@/lib/utils/logger";
+import { describeNimbusEvent, processNimbusEvent } from "@/lib/services/nimbus-webhooks";
+import { recordWebhookEvent, runWebhookEvent } from "@/lib/services/webhook-events";
+
+/**
+ * Handle Nimbus webhook events
+ * Statuses: assigned, picked_up, in_transit, delivered, failed
+ * Each event is recorded by its event ID and processed exactly once;
+ * retries of an event that already finished are acknowledged without side effects.
+ */
+export async function POST(request: Request) {
+  try {
+    // Get raw body for signature verification
+    const rawBody = await request.text();
+    const signature = request.headers.get("x-nimbus-signature");
+
+    if (!signature) {
+      logger.error("[Nimbus Webhook] Missing signature");
+      return NextResponse.json(
+        { error: "Missing signature" },
+        { status: 400 }
+      );
+    }
+
+    if (!getNimbusService().verifyWebhook(signature, rawBody)) {
+      logger.error("[Nimbus Webhook] Invalid signature");
+      return NextResponse.json(
+        { error: "Invalid signature" },
+        { status: 401 }
+      );
+    }
+
+    const payload = JSON.parse(rawBody);
+    const { eventType, entityId, eventCreatedAt } = describeNimbusEvent(payload);
+
+    // Retries carry the same event ID; fall back to the body hash
+    const eventId = request.headers.get("x-nimbus-event-id")
+      || payload.event_id
+      || `body_${crypto.createHash("sha256").update(rawBody).digest("hex")}`;
+
+    logger.info("[Nimbus Webhook] Event received", { event: eventType, eventId, entityId });
+
+    const { event, duplicate } = await recordWebhookEvent({
+      provider: "nimbus",
+      eventId,
+      eventType,
+      entityId,
+      payload,
+      eventCreatedAt,
+    });
+
+    if (duplicate && (event.status === "processed" || event.status === "ignored")) {
+      logger.info("[Nimbus Webhook] Duplicate delivery acknowledged", { eventId, status: event.status });
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+
+    const result = await runWebhookEvent(event, processNimbusEvent);
+
+    return NextResponse.json({ received: true, status: result?.status ?? event.status });
+  } catch (error) {
+    // Non-2xx makes Nimbus retry; the stored event is picked up again
+    logger.error("[Nimbus Webhook] Failed", error);
+    return NextResponse.json(
+      { error: "Webhook processing failed" },
+      { status: 500 }
+    );
+  }
+}
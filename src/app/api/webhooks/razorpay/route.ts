@@ -4,16 +4,17 @@
  */
 
 import { NextResponse } from "next/server";
+import crypto from "crypto";
 import { getRazorpayService } from "@/lib/services/razorpay";
-import { db } from "@/lib/db";
-import { orders } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
 import { logger } from "@/lib/utils/logger";
-import { getSupabaseServiceClient } from "@/lib/supabase/client";
+import { describeRazorpayEvent, processRazorpayEvent } from "@/lib/services/razorpay-webhooks";
+import { recordWebhookEvent, runWebhookEvent } from "@/lib/services/webhook-events";
 
 /**
  * Handle Razorpay webhook events
- * Events: payment.captured, payment.failed, order.paid
+ * Events: payment.captured, payment.failed, order.paid, refund.processed, refund.failed
+ * Each event is recorded by its x-razorpay-event-id and processed exactly once;
+ * retries of an event that already finished are acknowledged without side effects.
  */
 export async function POST(request: Request) {
   try {
@@ -43,25 +44,34 @@ export async function POST(request: Request) {
 
     // Parse webhook payload
     const payload = JSON.parse(rawBody);
-    const event = payload.event;
-    const paymentEntity = payload.payload?.payment?.entity;
-    const orderEntity = payload.payload?.order?.entity;
+    const { eventType, entityId, eventCreatedAt } = describeRazorpayEvent(payload);
 
-    logger.info("[Razorpay Webhook] Event received", { event, paymentId: paymentEntity?.id });
+    // Razorpay sends the same event ID on every retry; fall back to the body hash
+    const eventId = request.headers.get("x-razorpay-event-id")
+      || `body_${crypto.createHash("sha256").update(rawBody).digest("hex")}`;
 
-    // Handle different event types
-    if (event === "payment.captured" && paymentEntity) {
-      await handlePaymentCaptured(paymentEntity);
-    } else if (event === "payment.failed" && paymentEntity) {
-      await handlePaymentFailed(paymentEntity);
-    } else if (event === "order.paid" && orderEntity) {
-      await handleOrderPaid(orderEntity);
-    } else {
-      logger.info("[Razorpay Webhook] Unhandled event", { event });
+    logger.info("[Razorpay Webhook] Event received", { event: eventType, eventId, entityId });
+
+    const { event, duplicate } = await recordWebhookEvent({
+      provider: "razorpay",
+      eventId,
+      eventType,
+      entityId,
+      payload,
+      eventCreatedAt,
+    });
+
+    if (duplicate && (event.status === "processed" || event.status === "ignored")) {
+      logger.info("[Razorpay Webhook] Duplicate delivery acknowledged", { eventId, status: event.status });
+      return NextResponse.json({ received: true, duplicate: true });
     }
 
-    return NextResponse.json({ received: true });
+    // Failed events are retried here too; a delivery already being processed is left alone
+    const result = await runWebhookEvent(event, processRazorpayEvent);
+
+    return NextResponse.json({ received: true, status: result?.status ?? event.status });
   } catch (error) {
+    // Non-2xx makes Razorpay retry; the stored event is picked up again
     logger.error("[Razorpay Webhook] Failed", error);
     return NextResponse.json(
       { error: "Webhook processing failed" },
@@ -69,126 +79,3 @@ export async function POST(request: Request) {
     );
   }
 }
-
-/**
- * Handle payment.captured event
- */
-async function handlePaymentCaptured(paymentEntity: {
-  id: string;
-  order_id: string;
-  amount: number;
-  status: string;
-  notes?: Record<string, string>;
-}) {
-  try {
-    const orderId = paymentEntity.notes?.order_id;
-    
-    if (!orderId || !db) {
-      logger.warn("[Razorpay Webhook] Missing order_id in payment notes", paymentEntity);
-      return;
-    }
-
-    // Update order payment status
-    const [updatedOrder] = await db
-      .update(orders)
-      .set({
-        paymentStatus: "completed",
-        paymentId: paymentEntity.id,
-        updatedAt: new Date(),
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
-
-    if (updatedOrder) {
-      logger.info("[Razorpay Webhook] Payment captured", {
-        orderId: updatedOrder.id,
-        orderNumber: updatedOrder.orderNumber,
-        paymentId: paymentEntity.id,
-      });
-
-      // Update Supabase in real-time (if using Supabase for orders)
-      const supabase = getSupabaseServiceClient();
-      if (supabase) {
-        try {
-          await supabase
-            .from("orders")
-            .update({
-              payment_status: "completed",
-              payment_id: paymentEntity.id,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", orderId);
-        } catch (supabaseError) {
-          // Log but don't fail - Supabase update is optional
-          logger.warn("[Razorpay Webhook] Supabase update failed", supabaseError);
-        }
-      }
-    }
-  } catch (error) {
-    logger.error("[Razorpay Webhook] Failed to handle payment.captured", error);
-  }
-}
-
-/**
- * Handle payment.failed event
- */
-async function handlePaymentFailed(paymentEntity: {
-  id: string;
-  order_id: string;
-  amount: number;
-  status: string;
-  notes?: Record<string, string>;
-}) {
-  try {
-    const orderId = paymentEntity.notes?.order_id;
-    
-    if (!orderId || !db) {
-      logger.warn("[Razorpay Webhook] Missing order_id in payment notes", paymentEntity);
-      return;
-    }
-
-    // Update order payment status
-    if (db) {
-      const [updatedOrder] = await db
-        .update(orders)
-        .set({
-          paymentStatus: "failed",
-          paymentId: paymentEntity.id,
-          updatedAt: new Date(),
-        })
-        .where(eq(orders.id, orderId))
-        .returning();
-
-      if (updatedOrder) {
-        logger.info("[Razorpay Webhook] Payment failed", {
-          orderId: updatedOrder.id,
-          orderNumber: updatedOrder.orderNumber,
-          paymentId: paymentEntity.id,
-        });
-      }
-    }
-  } catch (error) {
-    logger.error("[Razorpay Webhook] Failed to handle payment.failed", error);
-  }
-}
-
-/**
- * Handle order.paid event
- */
-async function handleOrderPaid(orderEntity: {
-  id: string;
-  amount: number;
-  status: string;
-}) {
-  try {
-    // This event is less common, but handle it if needed
-    logger.info("[Razorpay Webhook] Order paid", {
-      razorpayOrderId: orderEntity.id,
-      status: orderEntity.status,
-    });
-  } catch (error) {
-    logger.error("[Razorpay Webhook] Failed to handle order.paid", error);
-  }
-}
-
-
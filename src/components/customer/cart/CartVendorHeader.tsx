@@ -0,0 +1,37 @@
+"use client";
+
+import { useVendor } from "@/hooks/api/useVendor";
+import { ImageWithFallback } from "@/components/ui/ImageWithFallback";
+import type { OrderQuote } from "@/lib/services/order-pricing";
+
+interface CartVendorHeaderProps {
+  vendorId: string;
+  quote?: OrderQuote; // This vendor's shipment in the grouped quote
+}
+
+/**
+ * Heading for one vendor's items in a multi-vendor cart
+ * Every vendor ships separately, so its own delivery fee is shown next to it.
+ */
+export function CartVendorHeader({ vendorId, quote }: CartVendorHeaderProps) {
+  const { vendor } = useVendor(vendorId);
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2.5 bg-muted/40">
+      <div className="relative w-8 h-8 rounded-lg overflow-hidden shrink-0">
+        <ImageWithFallback src={vendor?.image || ""} alt={vendor?.name || "Vendor"} fill sizes="32px" className="object-cover" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-sm truncate">{vendor?.name || "Loading..."}</p>
+        {vendor && (
+          <p className="text-xs text-muted-foreground">{vendor.deliveryTime || "N/A"}</p>
+        )}
+      </div>
+      <span className="text-xs text-muted-foreground shrink-0">
+        {quote
+          ? `Delivery ${quote.deliveryFee === 0 ? "free" : `₹${quote.deliveryFee}`}`
+          : "—"}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Drawer } from "vaul";
+import { Check, Loader2, Minus, Plus, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/useToast";
+import { apiClient, ApiClientError } from "@/lib/api/client";
+import { appConfig } from "@/lib/config/app";
+import { logger } from "@/lib/utils/logger";
+import { cn } from "@/lib/utils";
+import type { SplitCheckoutQuoteResult } from "@/lib/services/checkout-quote";
+import type { CreatedSplitCheckout } from "@/lib/services/checkouts";
+
+interface SplitShipmentItem {
+  id: string;
+  name: string;
+  quantity: number;
+  selectedVariants: Record<string, string>;
+  selectedAddOns: string[];
+  customization?: { text?: string; photo?: string; giftMessage?: string };
+}
+
+interface SplitShipmentAddress {
+  id: string;
+  recipientName: string;
+  address: string;
+  city: string;
+}
+
+interface SplitShipmentSheetProps {
+  vendorId: string;
+  items: SplitShipmentItem[];
+  addresses: SplitShipmentAddress[];
+  deliverySpeed: "standard" | "express";
+  useCashback: boolean;
+  gstin?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCheckoutCreated: (checkout: CreatedSplitCheckout) => void;
+}
+
+/**
+ * Send the cart to several saved addresses in one payment
+ * Each recipient gets its own quantities and becomes its own order.
+ */
+export function SplitShipmentSheet({
+  vendorId,
+  items,
+  addresses,
+  deliverySpeed,
+  useCashback,
+  gstin,
+  open,
+  onOpenChange,
+  onCheckoutCreated,
+}: SplitShipmentSheetProps) {
+  const toast = useToast();
+  // addressId -> quantity per cart line
+  const [recipients, setRecipients] = useState<Record<string, number[]>>({});
+  const [splitQuote, setSplitQuote] = useState<SplitCheckoutQuoteResult | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const selectedIds = addresses.map((address) => address.id).filter((id) => recipients[id]);
+
+  const quoteRecipients = useMemo(
+    () => selectedIds
+      .map((addressId) => ({
+        addressId,
+        items: items
+          .map((item, index) => ({
+            productId: item.id,
+            quantity: recipients[addressId][index] ?? 0,
+            selectedVariants: item.selectedVariants,
+            selectedAddOns: item.selectedAddOns,
+          }))
+          .filter((item) => item.quantity > 0),
+      }))
+      .filter((recipient) => recipient.items.length > 0),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [recipients, items]
+  );
+
+  const toggleRecipient = (addressId: string) => {
+    setRecipients((prev) => {
+      if (prev[addressId]) {
+        const { [addressId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      if (Object.keys(prev).length >= appConfig.checkout.maxRecipients) {
+        toast.error("Too many recipients", `Up to ${appConfig.checkout.maxRecipients} per checkout`);
+        return prev;
+      }
+      return { ...prev, [addressId]: items.map((item) => item.quantity) };
+    });
+  };
+
+  const setQuantity = (addressId: string, index: number, quantity: number) => {
+    setRecipients((prev) => ({
+      ...prev,
+      [addressId]: prev[addressId].map((value, i) => (i === index ? Math.max(0, Math.min(quantity, 99)) : value)),
+    }));
+  };
+
+  // Re-price whenever recipients or quantities change
+  useEffect(() => {
+    if (!open || quoteRecipients.length < 2) {
+      setSplitQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setQuoteLoading(true);
+      try {
+        const response = await apiClient.post<SplitCheckoutQuoteResult>("/checkout/split/quote", {
+          vendorId,
+          recipients: quoteRecipients,
+          deliverySpeed,
+          useCashback,
+        });
+        if (!cancelled) setSplitQuote(response);
+      } catch (error) {
+        logger.error("[Split Shipments] Failed to fetch quote", error);
+        if (!cancelled) {
+          setSplitQuote(null);
+          toast.error("Unable to price these shipments", error instanceof ApiClientError ? error.message : "Please try again");
+        }
+      } finally {
+        if (!cancelled) setQuoteLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, vendorId, quoteRecipients, deliverySpeed, useCashback]);
+
+  const handleSubmit = async () => {
+    if (!splitQuote) return;
+
+    setIsSubmitting(true);
+    try {
+      // Customizations follow each shipment's quoted lines
+      const checkout = await apiClient.post<CreatedSplitCheckout>("/checkout/split", {
+        quoteToken: splitQuote.quoteToken,
+        shipments: splitQuote.shipments.map((shipment) => ({
+          items: shipment.quote.items.map((line) => ({
+            productId: line.productId,
+            customization: items.find((item) => item.id === line.productId)?.customization,
+          })),
+        })),
+        ...(gstin?.trim() ? { gstin: gstin.trim() } : {}),
+      });
+      onCheckoutCreated(checkout);
+    } catch (error) {
+      logger.error("[Split Shipments] Checkout failed", error);
+      const code = error instanceof ApiClientError ? (error.details as { code?: string } | undefined)?.code : undefined;
+      if (code === "QUOTE_EXPIRED" || code === "QUOTE_STALE") {
+        setRecipients((prev) => ({ ...prev }));
+        toast.error("Prices have been updated", "Please review the total and try again.");
+      } else {
+        toast.error("Failed to place orders", error instanceof ApiClientError ? error.message : "Please try again");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/50 z-[100]" />
+        <Drawer.Content className="bg-background flex flex-col rounded-t-2xl h-[85vh] fixed bottom-0 left-0 right-0 z-[101] outline-none max-w-xl mx-auto">
+          <div className="mx-auto w-10 h-1 rounded-full bg-muted mt-3" />
+          <div className="p-4 border-b">
+            <DialogTitle className="text-lg font-bold flex items-center gap-2">
+              <Users className="w-5 h-5 text-primary" />
+              Send to several people
+            </DialogTitle>
+            <DialogDescription className="text-sm text-muted-foreground">
+              Pick saved addresses and how many of each gift they get. Every recipient is a separate order, paid together.
+            </DialogDescription>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {addresses.length < 2 && (
+              <p className="text-sm text-muted-foreground">Save at least two addresses to send to several people.</p>
+            )}
+            {addresses.map((address) => {
+              const quantities = recipients[address.id];
+              const shipment = splitQuote?.shipments.find((candidate) => candidate.addressId === address.id);
+              return (
+                <div
+                  key={address.id}
+                  className={cn("rounded-xl border", quantities ? "border-primary bg-primary/5" : "border-border")}
+                >
+                  <button
+                    type="button"
+                    onClick={() => toggleRecipient(address.id)}
+                    className="w-full p-3 flex items-start gap-3 text-left"
+                    aria-label={quantities ? `Remove ${address.recipientName}` : `Send to ${address.recipientName}`}
+                  >
+                    <div className={cn(
+                      "w-5 h-5 rounded border flex items-center justify-center shrink-0 mt-0.5",
+                      quantities ? "bg-primary border-primary" : "border-border"
+                    )}>
+                      {quantities && <Check className="w-3 h-3 text-white" strokeWidth={3} />}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-sm truncate">{address.recipientName}</p>
+                      <p className="text-xs text-muted-foreground truncate">{address.address}, {address.city}</p>
+                    </div>
+                    {shipment && (
+                      <span className="text-sm font-semibold">₹{shipment.quote.total.toLocaleString("en-IN")}</span>
+                    )}
+                  </button>
+                  {quantities && (
+                    <div className="px-3 pb-3 space-y-2">
+                      {items.map((item, index) => (
+                        <div key={item.id} className="flex items-center justify-between gap-3">
+                          <span className="text-xs truncate">{item.name}</span>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => setQuantity(address.id, index, quantities[index] - 1)}
+                              aria-label={`Fewer ${item.name} for ${address.recipientName}`}
+                            >
+                              <Minus className="w-3 h-3" />
+                            </Button>
+                            <span className="w-6 text-center text-sm">{quantities[index]}</span>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => setQuantity(address.id, index, quantities[index] + 1)}
+                              aria-label={`More ${item.name} for ${address.recipientName}`}
+                            >
+                              <Plus className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                      {shipment && (
+                        <p className="text-xs text-muted-foreground">
+                          Delivery {shipment.quote.deliveryFee === 0 ? "free" : `₹${shipment.quote.deliveryFee}`}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="p-4 border-t space-y-2">
+            {splitQuote && (
+              <div className="text-xs text-muted-foreground space-y-1">
+                <div className="flex justify-between">
+                  <span>Items</span>
+                  <span>₹{splitQuote.itemTotal.toLocaleString("en-IN")}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Delivery ({splitQuote.shipments.length} shipments)</span>
+                  <span>₹{splitQuote.deliveryFee.toLocaleString("en-IN")}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Platform fees</span>
+                  <span>₹{splitQuote.platformFee.toLocaleString("en-IN")}</span>
+                </div>
+                {splitQuote.cashbackUsed > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Cashback</span>
+                    <span>-₹{splitQuote.cashbackUsed.toLocaleString("en-IN")}</span>
+                  </div>
+                )}
+              </div>
+            )}
+            <Button
+              className="w-full h-12 font-semibold"
+              onClick={handleSubmit}
+              disabled={!splitQuote || quoteLoading || isSubmitting}
+            >
+              {isSubmitting || quoteLoading ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : null}
+              {splitQuote
+                ? `Pay ₹${splitQuote.total.toLocaleString("en-IN")} for ${splitQuote.shipments.length} orders`
+                : "Choose at least two recipients"}
+            </Button>
+          </div>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  );
+}
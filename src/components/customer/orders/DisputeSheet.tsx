@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import { Drawer } from "vaul";
+import { X, Loader2, Plus } from "lucide-react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { getSupabaseClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/useToast";
+import { logger } from "@/lib/utils/logger";
+import { appConfig } from "@/lib/config/app";
+import { cn } from "@/lib/utils";
+import type { DisputeType } from "@/lib/services/disputes";
+
+interface DisputeSheetProps {
+  orderId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+const DISPUTE_TYPE_OPTIONS: Array<{ value: DisputeType; label: string }> = [
+  { value: "wrong_product", label: "Wrong product" },
+  { value: "damaged", label: "Damaged" },
+  { value: "quality", label: "Quality issue" },
+  { value: "other", label: "Something else" },
+];
+
+/**
+ * Report a problem with a delivered order
+ * Photos go straight to Supabase storage; the dispute stores their public URLs
+ */
+export function DisputeSheet({ orderId, open, onOpenChange, onSubmitted }: DisputeSheetProps) {
+  const toast = useToast();
+  const [type, setType] = useState<DisputeType | null>(null);
+  const [claim, setClaim] = useState("");
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const uploadConfig = appConfig.uploads.disputePhoto;
+  const maxPhotos = appConfig.disputes.maxPhotos;
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+
+    try {
+      setIsUploading(true);
+      const supabase = getSupabaseClient();
+      if (!supabase) throw new Error("Supabase client not available");
+
+      const newUrls: string[] = [...photos];
+
+      for (const file of Array.from(files).slice(0, maxPhotos - photos.length)) {
+        if (file.size > uploadConfig.maxSize) {
+          toast.error("File too large", `Maximum size is ${uploadConfig.maxSize / (1024 * 1024)}MB`);
+          continue;
+        }
+
+        const fileExt = file.name.split(".").pop()?.toLowerCase();
+        const isValidType = (uploadConfig.allowedTypes as readonly string[]).includes(file.type) ||
+                           (fileExt && (uploadConfig.allowedExtensions as readonly string[]).includes(`.${fileExt}`));
+
+        if (!isValidType) {
+          toast.error("Invalid file type", `Only ${uploadConfig.allowedExtensions.join(", ")} files are allowed`);
+          continue;
+        }
+
+        const filePath = `disputes/${orderId}/${Math.random().toString(36).substring(2)}-${Date.now()}.${fileExt}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from("order-assets")
+          .upload(filePath, file);
+
+        if (uploadError) throw uploadError;
+
+        const { data: { publicUrl } } = supabase.storage
+          .from("order-assets")
+          .getPublicUrl(filePath);
+
+        newUrls.push(publicUrl);
+      }
+
+      setPhotos(newUrls);
+    } catch (error) {
+      logger.error("[DisputeSheet] Upload error", error);
+      toast.error("Failed to upload photos");
+    } finally {
+      setIsUploading(false);
+      e.target.value = "";
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!type) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/orders/${orderId}/disputes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type, claim, photos }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.details?.[0]?.message || error.error || "Failed to raise dispute");
+      }
+
+      toast.success("Dispute raised", "We'll get back to you once the vendor responds");
+      setType(null);
+      setClaim("");
+      setPhotos([]);
+      onOpenChange(false);
+      onSubmitted();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to raise dispute";
+      toast.error("Failed to raise dispute", errorMessage);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/50 z-[100]" />
+        <Drawer.Content className="bg-background flex flex-col rounded-t-2xl h-[85vh] fixed bottom-0 left-0 right-0 z-[101] outline-none max-w-xl mx-auto">
+          <DialogTitle className="sr-only">Report a Problem</DialogTitle>
+          <DialogDescription className="sr-only">Raise a dispute about your delivered order</DialogDescription>
+          <div className="mx-auto w-10 h-1 rounded-full bg-muted mt-3" />
+          <div className="p-4 flex-1 overflow-y-auto">
+            <div className="mb-5">
+              <h2 className="text-sm font-semibold">Report a Problem</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Tell us what went wrong within {appConfig.disputes.windowDays} days of delivery
+              </p>
+            </div>
+
+            <div className="space-y-5">
+              <div>
+                <label className="text-xs font-medium text-muted-foreground mb-1.5 block">What happened?</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {DISPUTE_TYPE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setType(option.value)}
+                      className={cn(
+                        "h-10 rounded-lg border text-sm font-medium transition-colors",
+                        type === option.value ? "border-primary bg-primary/5 text-primary" : "hover:bg-muted/50"
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs font-medium text-muted-foreground mb-1.5 block">Describe the problem</label>
+                <Textarea
+                  placeholder="E.g. The name on the mug is misspelt"
+                  className="min-h-[100px] text-sm resize-none"
+                  value={claim}
+                  onChange={(e) => setClaim(e.target.value)}
+                  maxLength={1000}
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <label className="text-xs font-medium text-muted-foreground">Photos</label>
+                  <span className="text-xs text-muted-foreground">{photos.length}/{maxPhotos}</span>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {photos.map((url) => (
+                    <div key={url} className="relative aspect-square rounded-lg overflow-hidden border bg-muted">
+                      <Image src={url} alt="Dispute photo" fill sizes="120px" className="object-cover" />
+                      <button
+                        type="button"
+                        onClick={() => setPhotos((prev) => prev.filter((photo) => photo !== url))}
+                        className="absolute top-1 right-1 bg-black/50 text-white rounded-full p-1"
+                        aria-label="Remove photo"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+
+                  {photos.length < maxPhotos && (
+                    <label className={cn(
+                      "aspect-square rounded-lg border-2 border-dashed flex flex-col items-center justify-center cursor-pointer hover:bg-primary/5 transition-colors",
+                      isUploading && "opacity-50 pointer-events-none"
+                    )}>
+                      <input
+                        type="file"
+                        multiple
+                        accept={uploadConfig.allowedExtensions.join(",")}
+                        className="hidden"
+                        onChange={handleUpload}
+                        disabled={isUploading}
+                      />
+                      {isUploading ? (
+                        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+                      ) : (
+                        <>
+                          <Plus className="w-5 h-5 text-muted-foreground" />
+                          <span className="text-[10px] text-muted-foreground mt-1">Add Photo</span>
+                        </>
+                      )}
+                    </label>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+          <div className="p-4 border-t">
+            <Button
+              className="w-full h-11 font-medium"
+              onClick={handleSubmit}
+              disabled={isSubmitting || isUploading || !type || claim.trim().length < 10}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                "Submit Dispute"
+              )}
+            </Button>
+          </div>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  );
+}
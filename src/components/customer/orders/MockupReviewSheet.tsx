@@ -0,0 +1,274 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Drawer } from "vaul";
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { MockupVersionHistory } from "@/components/orders/MockupVersionHistory";
+import { useToast } from "@/hooks/useToast";
+import { logger } from "@/lib/utils/logger";
+import { cn } from "@/lib/utils";
+import type { MockupAnnotation, MockupDecision, MockupItemHistory } from "@/lib/services/mockup-revisions";
+
+interface MockupReviewSheetProps {
+  orderId: string;
+  items: Array<{ id: string; name: string }>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReviewed: (approved: boolean) => void;
+}
+
+interface ItemReview {
+  decision: MockupDecision;
+  feedback: string;
+  annotations: MockupAnnotation[];
+}
+
+const EMPTY_REVIEW: ItemReview = { decision: "approved", feedback: "", annotations: [] };
+
+/**
+ * Review the latest mockup version of each item
+ * Customers approve an item or send it back with feedback and comments pinned on the image,
+ * until the product's revision limit is used up
+ */
+export function MockupReviewSheet({ orderId, items, open, onOpenChange, onReviewed }: MockupReviewSheetProps) {
+  const toast = useToast();
+  const [history, setHistory] = useState<MockupItemHistory[]>([]);
+  const [reviews, setReviews] = useState<Record<string, ItemReview>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/orders/${orderId}/mockup`);
+        if (!response.ok) throw new Error("Failed to load mockups");
+        const data = await response.json();
+        setHistory(Array.isArray(data.history) ? data.history : []);
+        setReviews({});
+      } catch (error) {
+        logger.error("[MockupReviewSheet] Fetch error", error);
+        toast.error("Failed to load mockups");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, orderId]);
+
+  // Only items whose latest version is waiting on the customer need a decision
+  const pending = history.filter((item) => {
+    const latest = item.revisions[item.revisions.length - 1];
+    return latest && latest.decision === null;
+  });
+
+  const updateReview = (productId: string, update: Partial<ItemReview>) => {
+    setReviews((prev) => ({ ...prev, [productId]: { ...(prev[productId] ?? EMPTY_REVIEW), ...update } }));
+  };
+
+  const handleSubmit = async () => {
+    const decisions = pending.map((item) => {
+      const review = reviews[item.productId] ?? EMPTY_REVIEW;
+      if (review.decision === "approved") {
+        return { productId: item.productId, decision: review.decision };
+      }
+      return {
+        productId: item.productId,
+        decision: review.decision,
+        ...(review.feedback.trim() ? { feedback: review.feedback.trim() } : {}),
+        annotations: review.annotations,
+      };
+    });
+
+    const incomplete = decisions.some(
+      (decision) =>
+        decision.decision === "rejected" &&
+        (decision.annotations?.some((annotation) => !annotation.comment.trim()) ||
+          (!decision.feedback && decision.annotations?.length === 0))
+    );
+    if (incomplete) {
+      toast.error("Tell the artisan what to change", "Add feedback and a comment for every pin");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/orders/${orderId}/mockup`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "review", decisions }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.details?.[0]?.message || error.error || "Failed to review mockups");
+      }
+
+      const result = await response.json();
+      if (result.approved) {
+        toast.success("Mockups approved!", "Your order is now being crafted");
+      } else {
+        toast.success("Changes requested", "The artisan will share a new version");
+      }
+      onOpenChange(false);
+      onReviewed(Boolean(result.approved));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to review mockups";
+      toast.error("Failed to review mockups", errorMessage);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const requestsChanges = pending.some((item) => reviews[item.productId]?.decision === "rejected");
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/50 z-[100]" />
+        <Drawer.Content className="bg-background flex flex-col rounded-t-2xl h-[85vh] fixed bottom-0 left-0 right-0 z-[101] outline-none max-w-xl mx-auto">
+          <DialogTitle className="sr-only">Review Mockups</DialogTitle>
+          <DialogDescription className="sr-only">Review and approve mockups before crafting begins</DialogDescription>
+          <div className="mx-auto w-10 h-1 rounded-full bg-muted mt-3" />
+          <div className="p-4 flex-1 overflow-y-auto">
+            <div className="mb-5">
+              <h2 className="text-sm font-semibold">Review Mockups</h2>
+              <p className="text-sm text-muted-foreground mt-1">Approve before crafting begins</p>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : pending.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">No mockups waiting for your review</p>
+            ) : (
+              <div className="space-y-8">
+                {pending.map((item) => {
+                  const review = reviews[item.productId] ?? EMPTY_REVIEW;
+                  const revisionsLeft = Math.max(item.revisionLimit - item.revisionsUsed, 0);
+                  const isRejecting = review.decision === "rejected";
+
+                  return (
+                    <div key={item.productId} className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs font-medium text-muted-foreground">
+                          {items.find((orderItem) => orderItem.id === item.productId)?.name || "Item"}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {revisionsLeft === 1 ? "1 revision left" : `${revisionsLeft} revisions left`}
+                        </span>
+                      </div>
+
+                      <MockupVersionHistory
+                        revisions={item.revisions}
+                        draftAnnotations={isRejecting ? review.annotations : undefined}
+                        onPin={isRejecting ? (pin) => updateReview(item.productId, {
+                          annotations: [...review.annotations, { ...pin, comment: "" }],
+                        }) : undefined}
+                      />
+
+                      <div className="grid grid-cols-2 gap-2">
+                        <button
+                          type="button"
+                          onClick={() => updateReview(item.productId, { decision: "approved" })}
+                          className={cn(
+                            "h-10 rounded-lg border text-sm font-medium transition-colors",
+                            !isRejecting ? "border-primary bg-primary/5 text-primary" : "hover:bg-muted/50"
+                          )}
+                        >
+                          Looks good
+                        </button>
+                        <button
+                          type="button"
+                          disabled={revisionsLeft === 0}
+                          onClick={() => updateReview(item.productId, { decision: "rejected" })}
+                          className={cn(
+                            "h-10 rounded-lg border text-sm font-medium transition-colors disabled:opacity-50",
+                            isRejecting ? "border-primary bg-primary/5 text-primary" : "hover:bg-muted/50"
+                          )}
+                        >
+                          Request changes
+                        </button>
+                      </div>
+
+                      {isRejecting && (
+                        <div className="space-y-2">
+                          <p className="text-xs text-muted-foreground">Tap the image to pin a comment</p>
+                          {review.annotations.map((annotation, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                              <span className="w-5 h-5 shrink-0 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center">
+                                {index + 1}
+                              </span>
+                              <Input
+                                placeholder="What should change here?"
+                                className="h-9 text-sm"
+                                value={annotation.comment}
+                                maxLength={300}
+                                onChange={(e) => updateReview(item.productId, {
+                                  annotations: review.annotations.map((entry, i) =>
+                                    i === index ? { ...entry, comment: e.target.value } : entry
+                                  ),
+                                })}
+                              />
+                              <button
+                                type="button"
+                                onClick={() => updateReview(item.productId, {
+                                  annotations: review.annotations.filter((_, i) => i !== index),
+                                })}
+                                className="text-muted-foreground"
+                                aria-label="Remove pin"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </div>
+                          ))}
+                          <Textarea
+                            placeholder="E.g. Make the name bigger and use a script font"
+                            className="min-h-[80px] text-sm resize-none"
+                            value={review.feedback}
+                            onChange={(e) => updateReview(item.productId, { feedback: e.target.value })}
+                            maxLength={1000}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+          <div className="p-4 border-t grid grid-cols-2 gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="h-11">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              className="h-11"
+              disabled={isSubmitting || isLoading || pending.length === 0}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : requestsChanges ? (
+                "Send Feedback"
+              ) : (
+                "Approve & Craft"
+              )}
+            </Button>
+          </div>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { Drawer } from "vaul";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/useToast";
+import { cn } from "@/lib/utils";
+import type { ReattemptSlot } from "@/lib/services/deliveries";
+
+interface ReattemptSheetProps {
+  orderId: string;
+  slots: ReattemptSlot[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScheduled: () => void;
+}
+
+function formatSlotDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" });
+}
+
+/**
+ * Pick a slot for the courier to try again after a failed delivery
+ */
+export function ReattemptSheet({ orderId, slots, open, onOpenChange, onScheduled }: ReattemptSheetProps) {
+  const toast = useToast();
+  const [selected, setSelected] = useState<ReattemptSlot | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const dates = Array.from(new Set(slots.map((slot) => slot.date)));
+
+  const handleSubmit = async () => {
+    if (!selected) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/orders/${orderId}/delivery/reattempt`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: selected.date, slot: selected.slot }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.details?.[0]?.message || error.error || "Failed to schedule delivery");
+      }
+
+      toast.success("Delivery rescheduled", `${formatSlotDate(selected.date)}, ${selected.label}`);
+      setSelected(null);
+      onOpenChange(false);
+      onScheduled();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to schedule delivery";
+      toast.error("Failed to schedule delivery", errorMessage);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/50 z-[100]" />
+        <Drawer.Content className="bg-background flex flex-col rounded-t-2xl max-h-[85vh] fixed bottom-0 left-0 right-0 z-[101] outline-none max-w-xl mx-auto">
+          <DialogTitle className="sr-only">Reschedule Delivery</DialogTitle>
+          <DialogDescription className="sr-only">Pick a slot for the next delivery attempt</DialogDescription>
+          <div className="mx-auto w-10 h-1 rounded-full bg-muted mt-3" />
+          <div className="p-4 flex-1 overflow-y-auto">
+            <div className="mb-5">
+              <h2 className="text-sm font-semibold">Reschedule Delivery</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                We missed you. Pick when the courier should try again.
+              </p>
+            </div>
+
+            {dates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No slots are available right now. Please check back later.</p>
+            ) : (
+              <div className="space-y-4">
+                {dates.map((date) => (
+                  <div key={date}>
+                    <label className="text-xs font-medium text-muted-foreground mb-1.5 block">{formatSlotDate(date)}</label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {slots.filter((slot) => slot.date === date).map((slot) => {
+                        const isSelected = selected?.date === slot.date && selected.slot === slot.slot;
+                        return (
+                          <button
+                            key={slot.slot}
+                            type="button"
+                            onClick={() => setSelected(slot)}
+                            className={cn(
+                              "h-10 rounded-lg border text-xs font-medium transition-colors",
+                              isSelected ? "border-primary bg-primary/5 text-primary" : "hover:bg-muted/50"
+                            )}
+                          >
+                            {slot.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="p-4 border-t">
+            <Button
+              className="w-full h-11 font-medium"
+              onClick={handleSubmit}
+              disabled={isSubmitting || !selected}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Scheduling...
+                </>
+              ) : (
+                "Confirm Slot"
+              )}
+            </Button>
+          </div>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  );
+}
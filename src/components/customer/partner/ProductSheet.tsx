@@ -11,25 +11,16 @@ import { Button } from "@/components/ui/button";
 import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from "@/components/ui/carousel";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useRouter } from "next/navigation";
-import { calculateDeliveryFee } from "@/lib/utils/delivery-zones";
+import { quoteDeliveryFee } from "@/lib/utils/delivery-fees";
 import { appConfig } from "@/lib/config/app";
 import { cn } from "@/lib/utils";
 import { ShareButton } from "@/components/sharing/ShareButton";
 import { ProductReviews } from "@/components/customer/product/ProductReviews";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/useToast";
 import { apiClient } from "@/lib/api/client";
 import { logger } from "@/lib/utils/logger";
 import { calculateItemPrice } from "@/lib/utils/pricing";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
 import {
   DialogTitle,
   DialogDescription,
@@ -46,8 +37,9 @@ export const ProductSheet = React.memo(function ProductSheet({ product, vendor,
     }
   }, [open, product.id, product.name]);
   
-  const { addItem, pendingVendorSwitch, confirmVendorSwitch, cancelVendorSwitch } = useCart();
+  const { addItem } = useCart();
   const { user } = useAuth();
+  const toast = useToast();
   const router = useRouter();
   const [selectedAddOns, setSelectedAddOns] = useState<string[]>([]);
   const [quantity, setQuantity] = useState(1);
@@ -113,6 +105,8 @@ export const ProductSheet = React.memo(function ProductSheet({ product, vendor,
     if (added) {
       // Successfully added - close sheet
       onOpenChange(false);
+    } else {
+      toast.error("Cart is full", `You can order from up to ${appConfig.checkout.maxVendors} partners at once`);
     }
   };
 
@@ -124,8 +118,9 @@ export const ProductSheet = React.memo(function ProductSheet({ product, vendor,
       // Close sheet and navigate to cart/checkout
       onOpenChange(false);
       router.push('/cart');
+    } else {
+      toast.error("Cart is full", `You can order from up to ${appConfig.checkout.maxVendors} partners at once`);
     }
-    // If vendor switch is pending, dialog will show automatically
   };
 
   // Use consolidated price calculation utility
@@ -141,6 +136,19 @@ export const ProductSheet = React.memo(function ProductSheet({ product, vendor,
   
   const total = unitPrice * quantity;
 
+  // Distance isn't known until checkout, so this is the slab's starting fee
+  const startingDeliveryFee = useMemo(() => {
+    if (!vendor) return null;
+    return quoteDeliveryFee({
+      city: vendor.city || "",
+      deliveryType: vendor.isHyperlocal ? "local" : "intercity",
+      deliverySpeed: "standard",
+      distanceKm: null,
+      weightKg: ((product.weightGrams || 500) * quantity) / 1000,
+      itemTotal: total,
+    }).fee;
+  }, [vendor, product.weightGrams, quantity, total]);
+
   // Fetch reviews when sheet opens
   // Swiggy Dec 2025 pattern: Track open state and product ID to prevent redundant fetches
   const previousOpenRef = useRef(false);
@@ -203,20 +211,6 @@ export const ProductSheet = React.memo(function ProductSheet({ product, vendor,
 
   return (
     <>
-      <AlertDialog open={!!pendingVendorSwitch} onOpenChange={(open) => !open && cancelVendorSwitch()}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Switch Vendor?</AlertDialogTitle>
-            <AlertDialogDescription>
-              You have items from another vendor in your cart. Adding this item will replace them. Continue?
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel onClick={cancelVendorSwitch}>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={() => { confirmVendorSwitch(); onOpenChange(false); }}>Continue</AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
       <Drawer.Root open={open} onOpenChange={onOpenChange}>
         <Drawer.Portal>
           <Drawer.Overlay className="fixed inset-0 bg-black/50 z-[100]" />
@@ -336,10 +330,8 @@ export const ProductSheet = React.memo(function ProductSheet({ product, vendor,
                 {/* Delivery Fee */}
                 {vendor && (
                   <div className="text-sm text-muted-foreground">
-                    {vendor.isHyperlocal 
-                      ? `₹${calculateDeliveryFee(5, "local", false)} within ${vendor.distance || "10km"}`
-                      : `₹${calculateDeliveryFee(0, "intercity", false)} intercity`
-                    }
+                    {startingDeliveryFee === 0 ? "Free delivery" : `From ₹${startingDeliveryFee}`}
+                    {vendor.isHyperlocal ? ` within ${vendor.distance || "10km"}` : " intercity"}
                   </div>
                 )}
                 
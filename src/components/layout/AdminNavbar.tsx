@@ -35,6 +35,10 @@ export function AdminNavbar() {
     if (pathname.startsWith("/admin/orders")) return "Orders";
     if (pathname.startsWith("/admin/analytics")) return "Analytics";
     if (pathname.startsWith("/admin/content")) return "Content";
+    if (pathname.startsWith("/admin/coupons")) return "Coupons";
+    if (pathname.startsWith("/admin/disputes")) return "Disputes";
+    if (pathname.startsWith("/admin/zones")) return "Delivery Zones";
+    if (pathname.startsWith("/admin/couriers")) return "Couriers";
     return "Admin Dashboard";
   };
 
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { MockupAnnotation, MockupRevision } from "@/lib/services/mockup-revisions";
+
+interface MockupVersionHistoryProps {
+  revisions: MockupRevision[]; // Oldest first
+  draftAnnotations?: MockupAnnotation[]; // Pins the customer is placing on the latest version
+  onPin?: (pin: { imageIndex: number; x: number; y: number }) => void;
+}
+
+const DECISION_BADGES: Record<string, { label: string; className: string }> = {
+  approved: { label: "Approved", className: "bg-green-100 text-green-700" },
+  rejected: { label: "Changes requested", className: "bg-amber-100 text-amber-700" },
+  pending: { label: "Awaiting review", className: "bg-blue-100 text-blue-700" },
+};
+
+interface VersionPanelProps {
+  revision: MockupRevision;
+  annotations: MockupAnnotation[];
+  onPin?: MockupVersionHistoryProps["onPin"];
+}
+
+function VersionPanel({ revision, annotations, onPin }: VersionPanelProps) {
+  const [imageIndex, setImageIndex] = useState(0);
+  const badge = DECISION_BADGES[revision.decision ?? "pending"];
+  const image = revision.images[imageIndex];
+
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPin) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPin({
+      imageIndex,
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    });
+  };
+
+  return (
+    <div className="space-y-2 min-w-0">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold">Version {revision.version}</span>
+        <Badge variant="secondary" className={cn("text-[10px]", badge.className)}>{badge.label}</Badge>
+      </div>
+
+      {image ? (
+        <div
+          onClick={handleImageClick}
+          className={cn("relative aspect-square rounded-lg overflow-hidden border bg-muted", onPin && "cursor-crosshair")}
+        >
+          <Image src={image} alt={`Mockup version ${revision.version}`} fill sizes="300px" className="object-cover" />
+          {annotations.map((annotation, index) =>
+            annotation.imageIndex === imageIndex ? (
+              <span
+                key={index}
+                title={annotation.comment}
+                style={{ left: `${annotation.x * 100}%`, top: `${annotation.y * 100}%` }}
+                className="absolute -translate-x-1/2 -translate-y-1/2 w-5 h-5 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center ring-2 ring-white"
+              >
+                {index + 1}
+              </span>
+            ) : null
+          )}
+        </div>
+      ) : (
+        <div className="aspect-square rounded-lg border-2 border-dashed flex items-center justify-center text-xs text-muted-foreground">
+          No images yet
+        </div>
+      )}
+
+      {revision.images.length > 1 && (
+        <div className="flex gap-1.5 overflow-x-auto">
+          {revision.images.map((url, index) => (
+            <button
+              key={url}
+              type="button"
+              onClick={() => setImageIndex(index)}
+              className={cn(
+                "relative w-10 h-10 shrink-0 rounded-md overflow-hidden border",
+                index === imageIndex && "ring-2 ring-primary"
+              )}
+            >
+              <Image src={url} alt="" fill sizes="40px" className="object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {revision.artisanNote && (
+        <p className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">Artisan: </span>{revision.artisanNote}
+        </p>
+      )}
+      {revision.customerFeedback && (
+        <p className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">Feedback: </span>{revision.customerFeedback}
+        </p>
+      )}
+      {annotations.length > 0 && (
+        <ol className="text-xs text-muted-foreground space-y-0.5">
+          {annotations.map((annotation, index) => (
+            <li key={index}>
+              <span className="font-medium text-foreground">{index + 1}.</span> {annotation.comment || "New pin"}
+              {revision.images.length > 1 && ` (image ${annotation.imageIndex + 1})`}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Mockup versions of one order item
+ * Shows the latest version next to an earlier one picked from the version list,
+ * with the customer's pinned comments drawn on the images
+ */
+export function MockupVersionHistory({ revisions, draftAnnotations, onPin }: MockupVersionHistoryProps) {
+  const latest = revisions[revisions.length - 1];
+  const [compareVersion, setCompareVersion] = useState<number | null>(
+    revisions.length > 1 ? revisions[revisions.length - 2].version : null
+  );
+
+  if (!latest) return null;
+
+  const compared = revisions.find((revision) => revision.version === compareVersion && revision.id !== latest.id);
+
+  return (
+    <div className="space-y-3">
+      {revisions.length > 1 && (
+        <div className="flex items-center gap-1.5 overflow-x-auto">
+          <span className="text-xs text-muted-foreground shrink-0">Compare with</span>
+          {revisions.slice(0, -1).map((revision) => (
+            <button
+              key={revision.id}
+              type="button"
+              onClick={() => setCompareVersion(revision.version === compareVersion ? null : revision.version)}
+              className={cn(
+                "h-7 px-2.5 rounded-full border text-xs font-medium shrink-0 transition-colors",
+                revision.version === compareVersion ? "border-primary bg-primary/5 text-primary" : "hover:bg-muted/50"
+              )}
+            >
+              v{revision.version}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className={cn("grid gap-3", compared ? "grid-cols-2" : "grid-cols-1")}>
+        {compared && <VersionPanel key={compared.id} revision={compared} annotations={compared.annotations} />}
+        <VersionPanel
+          key={latest.id}
+          revision={latest}
+          annotations={draftAnnotations ?? latest.annotations}
+          onPin={onPin}
+        />
+      </div>
+    </div>
+  );
+}
@@ -28,6 +28,8 @@ interface Order {
     city: string;
     pincode: string;
   };
+  mockupSla?: string | null; // Mockup deadline while the vendor is personalising
+  mockupReviewDueAt?: string | null; // Mockups are approved automatically at this time; null if the vendor opted out
   createdAt: string;
   updatedAt: string;
 }
@@ -70,7 +72,7 @@ export function useOrders(): UseOrdersResult {
         // Swiggy Dec 2025 pattern: Select specific fields to reduce payload size
         const { data, error: queryError } = await supabase
           .from('orders')
-          .select('id, order_number, customer_id, vendor_id, status, sub_status, items, item_total, delivery_fee, platform_fee, cashback_used, total, delivery_type, delivery_address, payment_id, payment_status, created_at, updated_at, vendors(id, name, image)')
+          .select('id, order_number, customer_id, vendor_id, status, sub_status, items, item_total, delivery_fee, platform_fee, cashback_used, total, delivery_type, delivery_address, payment_id, payment_status, mockup_sla, mockup_review_due_at, created_at, updated_at, vendors(id, name, image)')
           .order('created_at', { ascending: false });
 
       if (queryError) {
@@ -94,6 +96,8 @@ export function useOrders(): UseOrdersResult {
         vendorName: o.vendors?.name || o.vendor_name, // Use joined vendor name if available
         items: Array.isArray(o.items) ? o.items : [],
         deliveryAddress: o.delivery_address,
+        mockupSla: o.mockup_sla,
+        mockupReviewDueAt: o.mockup_review_due_at,
         createdAt: o.created_at,
         updatedAt: o.updated_at,
       }));
@@ -5,6 +5,7 @@ import { Product } from "@/types/product";
 import { logger } from "@/lib/utils/logger";
 import { getSupabaseClient } from "@/lib/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { appConfig } from "@/lib/config/app";
 
 interface CartItem extends Product {
   quantity: number;
@@ -17,23 +18,14 @@ interface CartItem extends Product {
   };
 }
 
-interface PendingVendorSwitch {
-  product: Product;
-  selectedAddOns: string[];
-  selectedVariants: Record<string, string>;
-  customization?: { text?: string; photo?: string; giftMessage?: string };
-}
-
 interface CartContextType {
   items: CartItem[];
   addItem: (product: Product, selectedAddOns: string[], selectedVariants?: Record<string, string>, customization?: { text?: string; photo?: string; giftMessage?: string }) => boolean;
   removeItem: (productId: string) => void;
   clearCart: () => void;
-  vendorId: string | null;
+  vendorIds: string[]; // Vendors in the cart, in the order they were added - each is its own order at checkout
+  vendorId: string | null; // The cart's vendor when it holds a single one
   totalPrice: number;
-  pendingVendorSwitch: PendingVendorSwitch | null;
-  confirmVendorSwitch: () => void;
-  cancelVendorSwitch: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -41,8 +33,6 @@ const CartContext = createContext<CartContextType | undefined>(undefined);
 export function CartProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const [items, setItems] = useState<CartItem[]>([]);
-  const [vendorId, setVendorId] = useState<string | null>(null);
-  const [pendingVendorSwitch, setPendingVendorSwitch] = useState<PendingVendorSwitch | null>(null);
   const hasSyncedRef = useRef(false); // Track if we've synced localStorage to Supabase
   const previousUserIdRef = useRef<string | null>(null); // Track previous user ID to prevent redundant fetches
   const isLoadingRef = useRef(false); // Track if cart is currently loading to prevent save during load
@@ -84,17 +74,14 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
             const savedCart = localStorage.getItem("wyshkit-cart");
             if (savedCart) {
               try {
-                const { items: savedItems, vendorId: savedVendorId } = JSON.parse(savedCart);
+                const { items: savedItems } = JSON.parse(savedCart);
                 setItems(savedItems || []);
-                setVendorId(savedVendorId || null);
               } catch (e) {
                 logger.warn("[Cart] Failed to parse localStorage cart", e);
                 setItems([]);
-                setVendorId(null);
               }
             } else {
               setItems([]);
-              setVendorId(null);
             }
             return;
           }
@@ -102,7 +89,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
           try {
             const { data: cartData, error: cartError } = await supabase
               .from('user_carts')
-              .select('items, vendor_id')
+              .select('items')
               .eq('user_id', userId)
               .maybeSingle();
 
@@ -112,17 +99,14 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
               const savedCart = localStorage.getItem("wyshkit-cart");
               if (savedCart) {
                 try {
-                  const { items: savedItems, vendorId: savedVendorId } = JSON.parse(savedCart);
+                  const { items: savedItems } = JSON.parse(savedCart);
                   setItems(savedItems || []);
-                  setVendorId(savedVendorId || null);
                 } catch (e) {
                   logger.warn("[Cart] Failed to parse localStorage cart", e);
                   setItems([]);
-                  setVendorId(null);
                 }
               } else {
                 setItems([]);
-                setVendorId(null);
               }
               return;
             }
@@ -130,13 +114,12 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
             if (cartData) {
               // Load from Supabase
               setItems((cartData.items as CartItem[]) || []);
-              setVendorId(cartData.vendor_id || null);
             } else {
               // No Supabase cart - check localStorage and sync if exists
               const savedCart = localStorage.getItem("wyshkit-cart");
               if (savedCart && !hasSyncedRef.current) {
                 try {
-                  const { items: savedItems, vendorId: savedVendorId } = JSON.parse(savedCart);
+                  const { items: savedItems } = JSON.parse(savedCart);
                   if (savedItems && savedItems.length > 0) {
                     // Sync localStorage cart to Supabase (fire and forget)
                     (async () => {
@@ -146,7 +129,6 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
                           .upsert({
                             user_id: userId,
                             items: savedItems,
-                            vendor_id: savedVendorId,
                             updated_at: new Date().toISOString(),
                           });
                         
@@ -164,14 +146,12 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
                     
                     // Set items immediately from localStorage
                     setItems(savedItems);
-                    setVendorId(savedVendorId);
                   }
                 } catch (e) {
                   logger.warn("[Cart] Failed to sync localStorage cart to Supabase", e);
                 }
               } else {
                 setItems([]);
-                setVendorId(null);
               }
             }
           } catch (error) {
@@ -180,17 +160,14 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
             const savedCart = localStorage.getItem("wyshkit-cart");
             if (savedCart) {
               try {
-                const { items: savedItems, vendorId: savedVendorId } = JSON.parse(savedCart);
+                const { items: savedItems } = JSON.parse(savedCart);
                 setItems(savedItems || []);
-                setVendorId(savedVendorId || null);
               } catch (e) {
                 logger.warn("[Cart] Failed to parse localStorage cart", e);
                 setItems([]);
-                setVendorId(null);
               }
             } else {
               setItems([]);
-              setVendorId(null);
             }
           }
         } else {
@@ -198,23 +175,19 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
           const savedCart = localStorage.getItem("wyshkit-cart");
           if (savedCart) {
             try {
-              const { items: savedItems, vendorId: savedVendorId } = JSON.parse(savedCart);
+              const { items: savedItems } = JSON.parse(savedCart);
               setItems(savedItems || []);
-              setVendorId(savedVendorId || null);
             } catch (e) {
               logger.warn("[Cart] Failed to parse localStorage cart", e);
               setItems([]);
-              setVendorId(null);
             }
           } else {
             setItems([]);
-            setVendorId(null);
           }
         }
       } catch (error) {
         logger.error("[Cart] Unexpected error loading cart", error);
         setItems([]);
-        setVendorId(null);
       } finally {
         // Mark loading as complete after a small delay to ensure state updates are processed
         setTimeout(() => {
@@ -248,7 +221,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       const saveCart = async () => {
       try {
         // Always save to localStorage first for fast access
-        localStorage.setItem("wyshkit-cart", JSON.stringify({ items, vendorId }));
+        localStorage.setItem("wyshkit-cart", JSON.stringify({ items }));
 
         if (user?.id) {
           // User is logged in - save to Supabase
@@ -265,7 +238,6 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
               .upsert({
                 user_id: user.id,
                 items: items,
-                vendor_id: vendorId,
                 updated_at: new Date().toISOString(),
               }, {
                 onConflict: 'user_id',
@@ -313,7 +285,6 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
                     .upsert({
                       user_id: user.id,
                       items: items,
-                      vendor_id: vendorId,
                       updated_at: new Date().toISOString(),
                     }, {
                       onConflict: 'user_id',
@@ -322,17 +293,17 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
                   if (retryError) {
                     logger.error("[Cart] Failed to save cart after user sync", retryError);
                     // Fallback to localStorage
-                    localStorage.setItem("wyshkit-cart", JSON.stringify({ items, vendorId }));
+                    localStorage.setItem("wyshkit-cart", JSON.stringify({ items }));
                   }
                 } else {
                   // Already attempted sync - just log and fallback
                   logger.warn("[Cart] User sync already attempted, saving to localStorage only", { userId: user.id });
-                  localStorage.setItem("wyshkit-cart", JSON.stringify({ items, vendorId }));
+                  localStorage.setItem("wyshkit-cart", JSON.stringify({ items }));
                 }
               } else {
                 logger.error("[Cart] Failed to save cart to Supabase", saveError);
                 // Fallback to localStorage
-                localStorage.setItem("wyshkit-cart", JSON.stringify({ items, vendorId }));
+                localStorage.setItem("wyshkit-cart", JSON.stringify({ items }));
               }
             } else {
               // Success - clear sync attempt tracking for this user (they're now synced)
@@ -348,7 +319,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         logger.error("[Cart] Unexpected error saving cart", error);
         // Try to save to localStorage as last resort
         try {
-          localStorage.setItem("wyshkit-cart", JSON.stringify({ items, vendorId }));
+          localStorage.setItem("wyshkit-cart", JSON.stringify({ items }));
         } catch (localStorageError) {
           logger.error("[Cart] Failed to save cart to localStorage", localStorageError);
         }
@@ -364,7 +335,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [items, vendorId, user?.id]);
+  }, [items, user?.id]);
 
   // Helper function to check if two cart items are equal (same product + variants + add-ons)
   const areCartItemsEqual = useCallback((item1: CartItem, item2: CartItem): boolean => {
@@ -386,23 +357,16 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     return true;
   }, []);
 
+  // Vendors in the cart, in the order they were first added
+  const vendorIds = useMemo(
+    () => Array.from(new Set((Array.isArray(items) ? items : []).map((item) => item.vendorId))),
+    [items]
+  );
+
   const addItem = useCallback((product: Product, selectedAddOns: string[], selectedVariants: Record<string, string> = {}, customization?: { text?: string; photo?: string; giftMessage?: string }): boolean => {
-    if (vendorId && vendorId !== product.vendorId) {
-      // Check if there are items in cart - if so, need confirmation
-      if (Array.isArray(items) && items.length > 0) {
-        // Set pending vendor switch for confirmation dialog
-        setPendingVendorSwitch({
-          product,
-          selectedAddOns,
-          selectedVariants,
-          customization,
-        });
-        return false; // Indicates vendor switch pending
-      }
-      // No items - can switch directly
-      setItems([{ ...product, quantity: 1, selectedAddOns, selectedVariants, customization }]);
-      setVendorId(product.vendorId);
-      return true;
+    // Each vendor becomes its own order at checkout, so the number of vendors is capped
+    if (!vendorIds.includes(product.vendorId) && vendorIds.length >= appConfig.checkout.maxVendors) {
+      return false;
     }
 
     setItems((prev) => {
@@ -421,40 +385,15 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       // Add as new item if no exact match
       return [...prev, newItem];
     });
-    setVendorId(product.vendorId);
     return true;
-  }, [vendorId, areCartItemsEqual, items]);
+  }, [vendorIds, areCartItemsEqual]);
 
   const removeItem = useCallback((productId: string) => {
-    setItems((prev) => {
-      const newItems = prev.filter((item) => item.id !== productId);
-      if (newItems.length === 0) setVendorId(null);
-      return newItems;
-    });
+    setItems((prev) => prev.filter((item) => item.id !== productId));
   }, []);
 
   const clearCart = useCallback(() => {
     setItems([]);
-    setVendorId(null);
-    setPendingVendorSwitch(null);
-  }, []);
-
-  const confirmVendorSwitch = useCallback(() => {
-    if (!pendingVendorSwitch) return;
-    
-    setItems([{ 
-      ...pendingVendorSwitch.product, 
-      quantity: 1, 
-      selectedAddOns: pendingVendorSwitch.selectedAddOns, 
-      selectedVariants: pendingVendorSwitch.selectedVariants, 
-      customization: pendingVendorSwitch.customization 
-    }]);
-    setVendorId(pendingVendorSwitch.product.vendorId);
-    setPendingVendorSwitch(null);
-  }, [pendingVendorSwitch]);
-
-  const cancelVendorSwitch = useCallback(() => {
-    setPendingVendorSwitch(null);
   }, []);
 
   // Memoize total price calculation
@@ -485,13 +424,11 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       addItem, 
       removeItem, 
       clearCart, 
-      vendorId, 
+      vendorIds,
+      vendorId: vendorIds.length === 1 ? vendorIds[0] : null,
       totalPrice,
-      pendingVendorSwitch,
-      confirmVendorSwitch,
-      cancelVendorSwitch,
     }),
-    [items, addItem, removeItem, clearCart, vendorId, totalPrice, pendingVendorSwitch, confirmVendorSwitch, cancelVendorSwitch]
+    [items, addItem, removeItem, clearCart, vendorIds, totalPrice]
   );
 
   return (
@@ -5,7 +5,9 @@
  */
 
 import { createSupabaseServerClientWithRequest } from "@/lib/supabase/client";
+import { env } from "@/lib/config/env";
 import { logger } from "@/lib/utils/logger";
+import { timingSafeEqual, stringToBytes } from "@/lib/utils/crypto-safe";
 import { getErrorMessage } from "@/lib/types/api-errors";
 import type { User } from "@supabase/supabase-js";
 
@@ -126,3 +128,21 @@ export async function requireRole(
   return user;
 }
 
+/**
+ * Require the scheduled-job secret (Authorization: Bearer <CRON_SECRET>)
+ * Used by /api/cron/* routes that run without a user session
+ */
+export function requireCronSecret(request: Request): void {
+  const secret = env.CRON_SECRET;
+  if (!secret) {
+    logger.error("[Auth] CRON_SECRET is not configured");
+    throw new AuthError("Scheduled jobs are not configured", 503);
+  }
+
+  const header = request.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+  if (!token || !timingSafeEqual(stringToBytes(token), stringToBytes(secret))) {
+    throw new AuthError("Invalid cron secret", 401);
+  }
+}
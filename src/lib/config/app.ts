@@ -21,23 +21,117 @@ export const appConfig = {
     // No expiry - cashback never expires
   },
 
+  // GST settings (prices are GST-inclusive; GST is shown as a breakdown line)
+  gst: {
+    rate: 0.18, // 18% GST
+  },
+
+  // Checkout settings
+  checkout: {
+    quoteTtlMinutes: 10, // Signed price quotes expire after 10 minutes
+    maxRecipients: 10, // Split shipments: saved addresses one checkout can send to
+    maxVendors: 5, // Multi-vendor carts: vendors one cart (and checkout) can order from
+  },
+
   // Delivery settings
   delivery: {
-    local: {
-      standard: 49,
-      express: 149,
-    },
-    intercity: {
-      standard: 99,
-      express: 199,
+    // Delivery fee engine (see src/lib/utils/delivery-fees.ts)
+    fees: {
+      // base covers the first includedKm; perKm applies beyond it. Express adds a flat
+      // surcharge. Standard delivery is free once the item total reaches freeAbove.
+      slabs: {
+        default: {
+          local: { base: 39, includedKm: 3, perKm: 8, expressSurcharge: 100, freeAbove: 999 },
+          intercity: { base: 89, includedKm: 100, perKm: 0.1, expressSurcharge: 100, freeAbove: 1999 },
+        },
+        // Per-city overrides, keyed by lowercase vendor city
+        cities: {
+          bangalore: {
+            local: { base: 45, includedKm: 3, perKm: 9, expressSurcharge: 100, freeAbove: 999 },
+          },
+          mumbai: {
+            local: { base: 49, includedKm: 3, perKm: 10, expressSurcharge: 120, freeAbove: 1199 },
+          },
+        },
+      },
+      // Parcel weight surcharge: the highest slab the order reaches applies
+      weightSurcharges: [
+        { aboveKg: 2, fee: 20 },
+        { aboveKg: 5, fee: 50 },
+        { aboveKg: 10, fee: 100 },
+      ],
+      // Surge windows (IST) multiply the fee before express; the highest active one across
+      // surges and seasonalSurges applies. Daily windows use start/end times and may cross midnight.
+      surges: [
+        { id: "late_night", label: "Late night", start: "22:00", end: "06:00", multiplier: 1.5, deliveryTypes: ["local"] },
+      ],
+      // Festival windows with from/to dates (inclusive). Edited each season: add a festival's
+      // dates before it starts and drop it once it has passed (past windows never apply).
+      seasonalSurges: [
+        { id: "diwali_2026", label: "Diwali", from: "2026-11-06", to: "2026-11-09", multiplier: 1.25, deliveryTypes: ["local", "intercity"] },
+      ],
     },
     defaultDeliveryTime: "40 min", // Default delivery time display
+    // Slots customers can pick after a failed delivery attempt (IST)
+    reattempt: {
+      windowDays: 3, // Today plus the next 3 days
+      slots: [
+        { id: "morning", label: "9 AM - 12 PM", start: "09:00", end: "12:00" },
+        { id: "afternoon", label: "12 PM - 4 PM", start: "12:00", end: "16:00" },
+        { id: "evening", label: "4 PM - 8 PM", start: "16:00", end: "20:00" },
+      ],
+    },
+    // Scheduled delivery slots for local gift orders (see src/lib/services/delivery-slots.ts)
+    scheduled: {
+      windowDays: 14, // Slots can be booked up to 14 days ahead
+      prepHours: 2, // Packing and dispatch time after the mockup SLA
+      defaultCapacity: 5, // Orders per slot when the vendor hasn't set vendors.slot_capacity
+      defaultHours: { open: "09:00", close: "21:00" }, // When the vendor hasn't set operating hours
+      slots: [
+        { id: "morning", label: "10 AM - 1 PM", start: "10:00", end: "13:00" },
+        { id: "afternoon", label: "1 PM - 5 PM", start: "13:00", end: "17:00" },
+        { id: "evening", label: "5 PM - 9 PM", start: "17:00", end: "21:00" },
+      ],
+    },
+    // Midnight surprise delivery for vendors that opt in (vendors.midnight_delivery_enabled)
+    // The window starts on the slot date and ends after midnight. The courier is told
+    // not to call the recipient and gets the sender's number as the contact.
+    midnight: {
+      surcharge: 199, // Added to the standard fee, like express
+      slot: { id: "midnight", label: "11 PM - 12:30 AM", start: "23:00", end: "00:30" },
+    },
+    // Local courier for testing without Nimbus (see src/lib/services/simulated-courier.ts)
+    simulatedCourier: {
+      scenario: "delivered", // Overridden by SIMULATED_COURIER_SCENARIO
+      stepDelaySeconds: 10, // Least gap between status callbacks; the cron's schedule sets the pace
+      batchSize: 50, // Bookings the playback cron advances per run
+      // Intercity rate card: base + perKg per started kg, up to maxWeightKg
+      rates: { base: 60, perKg: 30, estimatedDays: 4, maxWeightKg: 20 },
+    },
+    // Intercity courier rate shopping (see src/lib/services/courier-selection.ts)
+    rateShopping: {
+      weights: { price: 0.6, speed: 0.4 }, // Share of the score for cheapest and fastest
+    },
   },
 
   // Order settings
   order: {
     acceptDeadlineMinutes: 5, // Vendor has 5 minutes to accept/reject
-    mockupSlaHours: 2, // Vendor has 2 hours to upload mockup
+    paymentWindowMinutes: 30, // Unpaid orders stop holding slots and cashback after this, and are expired
+    mockupSlaHours: 2, // Hours to upload mockups when a product has no mockup_sla_hours
+    mockupRevisionLimit: 2, // Revisions a customer can request per item when the product has no mockup_revision_limit
+    maxMockupRevisionLimit: 5, // Highest revision limit a vendor can set on a product
+    mockupAutoApproveHours: 12, // Mockups are approved automatically if the customer doesn't respond in this window
+    mockupReminderHours: 4, // Hours between reminders to review mockups
+    mockupMaxReminders: 3, // Reminders per round of mockups
+    slaBatchSize: 50, // Breached orders the SLA worker handles per kind and run
+    rejectionAlternatives: 3, // Similar products suggested to a customer whose order was rejected
+  },
+
+  // Dispute settings
+  disputes: {
+    windowDays: 7, // Customers can raise a dispute up to 7 days after delivery
+    maxPhotos: 5,
   },
 
   // Pagination defaults
@@ -57,6 +151,12 @@ export const appConfig = {
       maxSize: 10 * 1024 * 1024, // 10MB (higher for mockups)
       allowedTypes: ['image/jpeg', 'image/png', 'image/webp'],
       allowedExtensions: ['.jpg', '.jpeg', '.png', '.webp'],
+      maxFiles: 5, // Images per item in one mockup version
+    },
+    disputePhoto: {
+      maxSize: 5 * 1024 * 1024, // 5MB
+      allowedTypes: ['image/jpeg', 'image/png', 'image/webp'],
+      allowedExtensions: ['.jpg', '.jpeg', '.png', '.webp'],
     },
     vendorDocument: {
       maxSize: 5 * 1024 * 1024, // 5MB
@@ -29,6 +29,12 @@ const envSchema = z.object({
   VITE_RAZORPAY_KEY: z.string().optional(),
   RAZORPAY_SECRET: z.string().optional(),
   
+  // Checkout (server-side only, signs price quotes)
+  CHECKOUT_QUOTE_SECRET: z.string().optional(),
+  
+  // Scheduled jobs (server-side only, Bearer token for /api/cron/*)
+  CRON_SECRET: z.string().optional(),
+  
   // IDfy KYC (optional, for vendor onboarding)
   VITE_IDFY_ACCOUNT_ID: z.string().optional(),
   VITE_IDFY_API_KEY: z.string().optional(),
@@ -59,6 +65,9 @@ const envSchema = z.object({
     z.undefined()
   ]).optional(),
   NIMBUS_PASSWORD: z.string().optional(),
+  NIMBUS_WEBHOOK_SECRET: z.string().optional(),
+  COURIER_PROVIDER: z.enum(["nimbus", "simulated"]).optional(),
+  SIMULATED_COURIER_SCENARIO: z.string().optional(),
   
   // Monitoring (optional)
   SENTRY_DSN: z.union([
@@ -110,6 +119,8 @@ const parseEnv = () => {
       RAZORPAY_KEY_SECRET: normalizeEnv(process.env.RAZORPAY_KEY_SECRET),
       VITE_RAZORPAY_KEY: normalizeEnv(process.env.VITE_RAZORPAY_KEY),
       RAZORPAY_SECRET: normalizeEnv(process.env.RAZORPAY_SECRET),
+      CHECKOUT_QUOTE_SECRET: normalizeEnv(process.env.CHECKOUT_QUOTE_SECRET),
+      CRON_SECRET: normalizeEnv(process.env.CRON_SECRET),
       VITE_IDFY_ACCOUNT_ID: normalizeEnv(process.env.VITE_IDFY_ACCOUNT_ID),
       VITE_IDFY_API_KEY: normalizeEnv(process.env.VITE_IDFY_API_KEY),
       VITE_IDFY_BASE_URL: normalizeEnv(process.env.VITE_IDFY_BASE_URL),
@@ -121,6 +132,9 @@ const parseEnv = () => {
       NIMBUS_API_URL: normalizeEnv(process.env.NIMBUS_API_URL),
       NIMBUS_EMAIL: normalizeEnv(process.env.NIMBUS_EMAIL),
       NIMBUS_PASSWORD: normalizeEnv(process.env.NIMBUS_PASSWORD),
+      NIMBUS_WEBHOOK_SECRET: normalizeEnv(process.env.NIMBUS_WEBHOOK_SECRET),
+      COURIER_PROVIDER: normalizeEnv(process.env.COURIER_PROVIDER),
+      SIMULATED_COURIER_SCENARIO: normalizeEnv(process.env.SIMULATED_COURIER_SCENARIO),
       SENTRY_DSN: normalizeEnv(process.env.SENTRY_DSN),
       TWILIO_ACCOUNT_SID: normalizeEnv(process.env.TWILIO_ACCOUNT_SID),
       TWILIO_AUTH_TOKEN: normalizeEnv(process.env.TWILIO_AUTH_TOKEN),
@@ -229,6 +243,8 @@ function getSafeDefaults(): z.infer<typeof envSchema> {
     DATABASE_URL: normalizeEnv(process.env.DATABASE_URL),
     NEXT_PUBLIC_APP_URL: normalizeEnv(process.env.NEXT_PUBLIC_APP_URL),
     RAZORPAY_KEY_SECRET: normalizeEnv(process.env.RAZORPAY_KEY_SECRET),
+    CHECKOUT_QUOTE_SECRET: normalizeEnv(process.env.CHECKOUT_QUOTE_SECRET),
+    CRON_SECRET: normalizeEnv(process.env.CRON_SECRET),
     VITE_IDFY_ACCOUNT_ID: normalizeEnv(process.env.VITE_IDFY_ACCOUNT_ID),
     VITE_IDFY_BASE_URL: normalizeEnv(process.env.VITE_IDFY_BASE_URL),
     VITE_GOOGLE_PLACES_API_KEY: normalizeEnv(process.env.VITE_GOOGLE_PLACES_API_KEY),
@@ -239,6 +255,9 @@ function getSafeDefaults(): z.infer<typeof envSchema> {
     NIMBUS_API_URL: normalizeEnv(process.env.NIMBUS_API_URL),
     NIMBUS_EMAIL: normalizeEnv(process.env.NIMBUS_EMAIL),
     NIMBUS_PASSWORD: normalizeEnv(process.env.NIMBUS_PASSWORD),
+    NIMBUS_WEBHOOK_SECRET: normalizeEnv(process.env.NIMBUS_WEBHOOK_SECRET),
+    COURIER_PROVIDER: normalizeEnv(process.env.COURIER_PROVIDER) as "nimbus" | "simulated" | undefined,
+    SIMULATED_COURIER_SCENARIO: normalizeEnv(process.env.SIMULATED_COURIER_SCENARIO),
     SENTRY_DSN: normalizeEnv(process.env.SENTRY_DSN),
     TWILIO_PHONE_NUMBER: normalizeEnv(process.env.TWILIO_PHONE_NUMBER),
     TWILIO_VERIFY_SERVICE_SID: normalizeEnv(process.env.TWILIO_VERIFY_SERVICE_SID),
@@ -0,0 +1,60 @@
+-- Create order_status_history table for auditing order status transitions
+-- Every transition made through the order transition service writes one row here
+-- so support can see who moved an order, when, and why
+
+CREATE TABLE IF NOT EXISTS public.order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status order_status, -- NULL for the initial status
+  to_status order_status NOT NULL,
+  actor_id uuid REFERENCES public.users(id), -- NULL for system transitions
+  actor_role text NOT NULL,
+  reason text,
+  metadata jsonb,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT order_status_history_actor_role_check
+    CHECK (actor_role IN ('customer', 'vendor', 'admin', 'system'))
+);
+
+-- Enable RLS
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Rows are only written by the service role, so there are no INSERT/UPDATE/DELETE policies
+
+-- Customers can read the history of their own orders
+CREATE POLICY "Customers can view own order status history"
+  ON public.order_status_history
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_status_history.order_id
+        AND orders.customer_id = (SELECT auth.uid())
+    )
+  );
+
+-- Vendors can read the history of orders placed with them
+CREATE POLICY "Vendors can view own order status history"
+  ON public.order_status_history
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      JOIN public.vendors ON vendors.id = orders.vendor_id
+      WHERE orders.id = order_status_history.order_id
+        AND vendors.user_id = (SELECT auth.uid())
+    )
+  );
+
+-- Admins can read all history
+CREATE POLICY "Admins can view all order status history"
+  ON public.order_status_history
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+-- Indexes for faster lookups
+CREATE INDEX IF NOT EXISTS order_status_history_order_id_idx ON public.order_status_history(order_id);
+CREATE INDEX IF NOT EXISTS order_status_history_order_id_created_at_idx ON public.order_status_history(order_id, created_at);
+
+COMMENT ON TABLE public.order_status_history IS 'Audit trail of order status transitions: actor, reason and timestamp for each change.';
@@ -0,0 +1,98 @@
+-- Create coupons and coupon_redemptions tables for promo codes
+-- Coupons are managed by admins; redemptions are written by the service role
+-- when an order that used a coupon is created
+
+CREATE TABLE IF NOT EXISTS public.coupons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  description text,
+  discount_type text NOT NULL,
+  discount_value decimal(10, 2) NOT NULL,
+  min_order_value decimal(10, 2) DEFAULT 0,
+  max_discount decimal(10, 2), -- NULL = no cap
+  usage_limit integer, -- NULL = unlimited
+  per_user_limit integer DEFAULT 1, -- NULL = unlimited
+  usage_count integer NOT NULL DEFAULT 0,
+  vendor_id uuid REFERENCES public.vendors(id) ON DELETE CASCADE,
+  category text,
+  first_order_only boolean DEFAULT false,
+  starts_at timestamp with time zone,
+  expires_at timestamp with time zone,
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT coupons_code_uppercase_check CHECK (code = upper(code)),
+  CONSTRAINT coupons_discount_type_check CHECK (discount_type IN ('flat', 'percentage')),
+  CONSTRAINT coupons_discount_value_check CHECK (
+    discount_value > 0 AND (discount_type = 'flat' OR discount_value <= 100)
+  ),
+  CONSTRAINT coupons_usage_count_check CHECK (usage_limit IS NULL OR usage_count <= usage_limit),
+  CONSTRAINT coupons_validity_window_check CHECK (
+    starts_at IS NULL OR expires_at IS NULL OR starts_at < expires_at
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.coupon_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id uuid NOT NULL REFERENCES public.coupons(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id),
+  discount_amount decimal(10, 2) NOT NULL,
+  status text DEFAULT 'redeemed',
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT coupon_redemptions_status_check CHECK (status IN ('redeemed', 'reversed'))
+);
+
+-- Record the applied coupon on the order itself
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS coupon_id uuid REFERENCES public.coupons(id),
+  ADD COLUMN IF NOT EXISTS coupon_code text,
+  ADD COLUMN IF NOT EXISTS coupon_discount decimal(10, 2) DEFAULT 0;
+
+-- Enable RLS
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Customers validate codes through the checkout quote API (service role), so coupons
+-- are not readable by customers directly - that would leak every active code
+
+CREATE POLICY "Admins can view coupons"
+  ON public.coupons
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+CREATE POLICY "Admins can insert coupons"
+  ON public.coupons
+  FOR INSERT
+  WITH CHECK (is_admin((SELECT auth.uid())));
+
+CREATE POLICY "Admins can update coupons"
+  ON public.coupons
+  FOR UPDATE
+  USING (is_admin((SELECT auth.uid())));
+
+CREATE POLICY "Admins can delete coupons"
+  ON public.coupons
+  FOR DELETE
+  USING (is_admin((SELECT auth.uid())));
+
+-- Customers can see their own redemptions
+CREATE POLICY "Customers can view own coupon redemptions"
+  ON public.coupon_redemptions
+  FOR SELECT
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Admins can view all coupon redemptions"
+  ON public.coupon_redemptions
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+-- Indexes for faster lookups
+CREATE INDEX IF NOT EXISTS coupons_vendor_id_idx ON public.coupons(vendor_id);
+CREATE INDEX IF NOT EXISTS coupon_redemptions_coupon_id_user_id_idx ON public.coupon_redemptions(coupon_id, user_id);
+CREATE INDEX IF NOT EXISTS orders_coupon_id_idx ON public.orders(coupon_id);
+
+COMMENT ON TABLE public.coupons IS 'Admin-managed promo codes: flat or percentage discounts with limits, scoping and validity windows.';
+COMMENT ON TABLE public.coupon_redemptions IS 'One row per order that used a coupon; counted for per-user limits.';
@@ -0,0 +1,240 @@
+-- Wallet ledger
+-- Every wallet movement goes through post_wallet_entry(), which writes the
+-- wallet_transactions row and the wallet.balance change in one transaction.
+-- idempotency_key makes retries (webhooks, double clicks, trigger re-runs) safe.
+
+-- Ledger columns on wallet_transactions
+ALTER TABLE public.wallet_transactions
+  ADD COLUMN IF NOT EXISTS idempotency_key text,
+  ADD COLUMN IF NOT EXISTS entry_type text,
+  ADD COLUMN IF NOT EXISTS balance_after decimal(10, 2),
+  ADD COLUMN IF NOT EXISTS metadata jsonb;
+
+-- Existing credits were all order cashback; give them the key the trigger now uses
+-- so a re-run of the trigger cannot credit the same order twice
+UPDATE public.wallet_transactions
+SET idempotency_key = 'cashback_credit:' || order_id::text,
+    entry_type = 'cashback_credit'
+WHERE idempotency_key IS NULL
+  AND type = 'credit'
+  AND order_id IS NOT NULL
+  AND id = (
+    SELECT t.id FROM public.wallet_transactions t
+    WHERE t.order_id = wallet_transactions.order_id AND t.type = 'credit'
+    ORDER BY t.created_at ASC
+    LIMIT 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS wallet_transactions_idempotency_key_idx
+  ON public.wallet_transactions(idempotency_key);
+CREATE INDEX IF NOT EXISTS wallet_transactions_wallet_id_created_at_idx
+  ON public.wallet_transactions(wallet_id, created_at);
+CREATE INDEX IF NOT EXISTS wallet_transactions_order_id_idx
+  ON public.wallet_transactions(order_id);
+
+ALTER TABLE public.wallet_transactions
+  ADD CONSTRAINT wallet_transactions_type_check CHECK (type IN ('credit', 'debit')),
+  ADD CONSTRAINT wallet_transactions_amount_check CHECK (amount > 0);
+
+ALTER TABLE public.wallet
+  ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now();
+
+-- Post one ledger entry atomically
+-- Locks the wallet row, returns the existing entry when the idempotency key was already used,
+-- refuses debits that would take the balance below zero
+CREATE OR REPLACE FUNCTION public.post_wallet_entry(
+  p_user_id uuid,
+  p_type text,
+  p_amount numeric,
+  p_idempotency_key text,
+  p_entry_type text,
+  p_description text DEFAULT NULL,
+  p_order_id uuid DEFAULT NULL,
+  p_metadata jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  transaction_id uuid,
+  wallet_id uuid,
+  balance_after numeric,
+  created boolean
+) AS $$
+DECLARE
+  v_wallet_id uuid;
+  v_balance numeric;
+  v_existing public.wallet_transactions%ROWTYPE;
+  v_new_balance numeric;
+  v_transaction_id uuid;
+BEGIN
+  IF p_type NOT IN ('credit', 'debit') THEN
+    RAISE EXCEPTION 'WALLET_INVALID_TYPE';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'WALLET_INVALID_AMOUNT';
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    RAISE EXCEPTION 'WALLET_IDEMPOTENCY_KEY_REQUIRED';
+  END IF;
+
+  INSERT INTO public.wallet (user_id, balance, created_at)
+  VALUES (p_user_id, 0, now())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT w.id, COALESCE(w.balance, 0) INTO v_wallet_id, v_balance
+  FROM public.wallet w
+  WHERE w.user_id = p_user_id
+  FOR UPDATE;
+
+  -- Checked after taking the lock so concurrent retries see each other's entry
+  SELECT * INTO v_existing
+  FROM public.wallet_transactions t
+  WHERE t.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.wallet_id <> v_wallet_id OR v_existing.type <> p_type OR v_existing.amount <> round(p_amount, 2) THEN
+      RAISE EXCEPTION 'WALLET_IDEMPOTENCY_CONFLICT';
+    END IF;
+    RETURN QUERY SELECT v_existing.id, v_wallet_id, v_balance, false;
+    RETURN;
+  END IF;
+
+  IF p_type = 'credit' THEN
+    v_new_balance := v_balance + round(p_amount, 2);
+  ELSE
+    IF v_balance < round(p_amount, 2) THEN
+      RAISE EXCEPTION 'WALLET_INSUFFICIENT_BALANCE';
+    END IF;
+    v_new_balance := v_balance - round(p_amount, 2);
+  END IF;
+
+  INSERT INTO public.wallet_transactions (
+    wallet_id, type, amount, description, order_id,
+    idempotency_key, entry_type, balance_after, metadata, created_at
+  )
+  VALUES (
+    v_wallet_id, p_type, round(p_amount, 2), p_description, p_order_id,
+    p_idempotency_key, p_entry_type, v_new_balance, p_metadata, now()
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.wallet
+  SET balance = v_new_balance, updated_at = now()
+  WHERE id = v_wallet_id;
+
+  RETURN QUERY SELECT v_transaction_id, v_wallet_id, v_new_balance, true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Wallets whose stored balance differs from the sum of their ledger entries
+CREATE OR REPLACE FUNCTION public.find_wallet_discrepancies()
+RETURNS TABLE (
+  wallet_id uuid,
+  user_id uuid,
+  stored_balance numeric,
+  ledger_balance numeric,
+  difference numeric,
+  transaction_count bigint
+) AS $$
+  SELECT
+    w.id,
+    w.user_id,
+    COALESCE(w.balance, 0),
+    COALESCE(l.ledger_balance, 0),
+    COALESCE(w.balance, 0) - COALESCE(l.ledger_balance, 0),
+    COALESCE(l.transaction_count, 0)
+  FROM public.wallet w
+  LEFT JOIN (
+    SELECT
+      t.wallet_id,
+      SUM(CASE WHEN t.type = 'credit' THEN t.amount ELSE -t.amount END) AS ledger_balance,
+      COUNT(*) AS transaction_count
+    FROM public.wallet_transactions t
+    GROUP BY t.wallet_id
+  ) l ON l.wallet_id = w.id
+  WHERE COALESCE(w.balance, 0) <> COALESCE(l.ledger_balance, 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only the service role may move money or read every wallet
+REVOKE EXECUTE ON FUNCTION public.post_wallet_entry(uuid, text, numeric, text, text, text, uuid, jsonb) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_wallet_discrepancies() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_wallet_entry(uuid, text, numeric, text, text, text, uuid, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.find_wallet_discrepancies() TO service_role;
+
+-- Reconciliation runs (one row per run, discrepancies kept for admin review)
+CREATE TABLE IF NOT EXISTS public.wallet_reconciliation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  triggered_by uuid REFERENCES public.users(id), -- NULL for scheduled runs
+  wallets_checked integer NOT NULL DEFAULT 0,
+  discrepancy_count integer NOT NULL DEFAULT 0,
+  total_difference decimal(12, 2) NOT NULL DEFAULT 0,
+  discrepancies jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+ALTER TABLE public.wallet_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view wallet reconciliation runs"
+  ON public.wallet_reconciliation_runs
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+CREATE INDEX IF NOT EXISTS wallet_reconciliation_runs_created_at_idx
+  ON public.wallet_reconciliation_runs(created_at);
+
+-- Route the delivered-order cashback trigger through the ledger
+CREATE OR REPLACE FUNCTION auto_credit_cashback()
+RETURNS TRIGGER AS $$
+DECLARE
+  cashback_percentage DECIMAL(5,2);
+  cashback_amount DECIMAL(10,2);
+  order_vendor_id UUID;
+  order_category TEXT;
+BEGIN
+  -- Only credit if status changed to 'delivered'
+  IF NEW.status = 'delivered' AND OLD.status != 'delivered' THEN
+    order_vendor_id := NEW.vendor_id;
+
+    -- Get cashback percentage from config (vendor > category > global > 0)
+    SELECT percentage INTO cashback_percentage
+    FROM cashback_config
+    WHERE is_active = true
+      AND (
+        (type = 'vendor' AND entity_id = order_vendor_id::text)
+        OR (type = 'category' AND entity_id = order_category)
+        OR (type = 'global')
+      )
+    ORDER BY CASE type
+      WHEN 'vendor' THEN 1
+      WHEN 'category' THEN 2
+      WHEN 'global' THEN 3
+    END
+    LIMIT 1;
+
+    IF cashback_percentage IS NULL THEN
+      cashback_percentage := 0;
+    END IF;
+
+    cashback_amount := (NEW.total::DECIMAL * cashback_percentage / 100);
+
+    -- Only credit if amount > 0 and order total >= min threshold (₹500)
+    IF cashback_amount > 0 AND NEW.total >= 500 THEN
+      PERFORM public.post_wallet_entry(
+        NEW.customer_id,
+        'credit',
+        cashback_amount,
+        'cashback_credit:' || NEW.id::text,
+        'cashback_credit',
+        'Cashback for order ' || NEW.order_number,
+        NEW.id,
+        jsonb_build_object('percentage', cashback_percentage)
+      );
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.post_wallet_entry(uuid, text, numeric, text, text, text, uuid, jsonb) IS 'Atomically writes a wallet_transactions row and the matching wallet.balance change. Idempotent per idempotency_key.';
+COMMENT ON FUNCTION public.find_wallet_discrepancies() IS 'Wallets whose stored balance differs from credits minus debits in wallet_transactions.';
+COMMENT ON TABLE public.wallet_reconciliation_runs IS 'History of wallet reconciliation runs and the discrepancies each one found.';
@@ -0,0 +1,190 @@
+-- Cashback lifecycle on orders
+-- Cashback used at checkout is held against the order, then captured when the
+-- payment is captured or released back when it fails. Cancellations and refunds
+-- restore used cashback and claw back cashback earned on the order.
+--
+-- Entry types and their effect:
+--   credit  -> balance + amount
+--   debit   -> balance - amount
+--   hold    -> balance - amount, held_balance + amount
+--   release -> held_balance - amount, balance + amount
+--   capture -> held_balance - amount
+
+ALTER TABLE public.wallet
+  ADD COLUMN IF NOT EXISTS held_balance decimal(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.wallet_transactions
+  DROP CONSTRAINT IF EXISTS wallet_transactions_type_check;
+
+ALTER TABLE public.wallet_transactions
+  ADD CONSTRAINT wallet_transactions_type_check
+  CHECK (type IN ('credit', 'debit', 'hold', 'release', 'capture'));
+
+DROP FUNCTION IF EXISTS public.post_wallet_entry(uuid, text, numeric, text, text, text, uuid, jsonb);
+
+-- p_allow_negative lets clawbacks take the balance below zero
+-- (the customer already spent the cashback; later credits settle it)
+CREATE OR REPLACE FUNCTION public.post_wallet_entry(
+  p_user_id uuid,
+  p_type text,
+  p_amount numeric,
+  p_idempotency_key text,
+  p_entry_type text,
+  p_description text DEFAULT NULL,
+  p_order_id uuid DEFAULT NULL,
+  p_metadata jsonb DEFAULT NULL,
+  p_allow_negative boolean DEFAULT false
+)
+RETURNS TABLE (
+  transaction_id uuid,
+  wallet_id uuid,
+  balance_after numeric,
+  created boolean
+) AS $$
+DECLARE
+  v_wallet_id uuid;
+  v_balance numeric;
+  v_held numeric;
+  v_amount numeric;
+  v_existing public.wallet_transactions%ROWTYPE;
+  v_new_balance numeric;
+  v_new_held numeric;
+  v_transaction_id uuid;
+BEGIN
+  IF p_type NOT IN ('credit', 'debit', 'hold', 'release', 'capture') THEN
+    RAISE EXCEPTION 'WALLET_INVALID_TYPE';
+  END IF;
+
+  IF p_amount IS NULL OR round(p_amount, 2) <= 0 THEN
+    RAISE EXCEPTION 'WALLET_INVALID_AMOUNT';
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    RAISE EXCEPTION 'WALLET_IDEMPOTENCY_KEY_REQUIRED';
+  END IF;
+
+  v_amount := round(p_amount, 2);
+
+  INSERT INTO public.wallet (user_id, balance, created_at)
+  VALUES (p_user_id, 0, now())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT w.id, COALESCE(w.balance, 0), COALESCE(w.held_balance, 0)
+  INTO v_wallet_id, v_balance, v_held
+  FROM public.wallet w
+  WHERE w.user_id = p_user_id
+  FOR UPDATE;
+
+  -- Checked after taking the lock so concurrent retries see each other's entry
+  SELECT * INTO v_existing
+  FROM public.wallet_transactions t
+  WHERE t.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.wallet_id <> v_wallet_id OR v_existing.type <> p_type OR v_existing.amount <> v_amount THEN
+      RAISE EXCEPTION 'WALLET_IDEMPOTENCY_CONFLICT';
+    END IF;
+    RETURN QUERY SELECT v_existing.id, v_wallet_id, v_balance, false;
+    RETURN;
+  END IF;
+
+  v_new_balance := v_balance;
+  v_new_held := v_held;
+
+  IF p_type = 'credit' THEN
+    v_new_balance := v_balance + v_amount;
+  ELSIF p_type = 'debit' THEN
+    IF v_balance < v_amount AND NOT p_allow_negative THEN
+      RAISE EXCEPTION 'WALLET_INSUFFICIENT_BALANCE';
+    END IF;
+    v_new_balance := v_balance - v_amount;
+  ELSIF p_type = 'hold' THEN
+    IF v_balance < v_amount THEN
+      RAISE EXCEPTION 'WALLET_INSUFFICIENT_BALANCE';
+    END IF;
+    v_new_balance := v_balance - v_amount;
+    v_new_held := v_held + v_amount;
+  ELSE
+    -- release / capture settle an earlier hold
+    IF v_held < v_amount THEN
+      RAISE EXCEPTION 'WALLET_INSUFFICIENT_HELD_BALANCE';
+    END IF;
+    v_new_held := v_held - v_amount;
+    IF p_type = 'release' THEN
+      v_new_balance := v_balance + v_amount;
+    END IF;
+  END IF;
+
+  INSERT INTO public.wallet_transactions (
+    wallet_id, type, amount, description, order_id,
+    idempotency_key, entry_type, balance_after, metadata, created_at
+  )
+  VALUES (
+    v_wallet_id, p_type, v_amount, p_description, p_order_id,
+    p_idempotency_key, p_entry_type, v_new_balance, p_metadata, now()
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.wallet
+  SET balance = v_new_balance, held_balance = v_new_held, updated_at = now()
+  WHERE id = v_wallet_id;
+
+  RETURN QUERY SELECT v_transaction_id, v_wallet_id, v_new_balance, true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Discrepancies now cover the held balance as well
+DROP FUNCTION IF EXISTS public.find_wallet_discrepancies();
+
+CREATE OR REPLACE FUNCTION public.find_wallet_discrepancies()
+RETURNS TABLE (
+  wallet_id uuid,
+  user_id uuid,
+  stored_balance numeric,
+  ledger_balance numeric,
+  difference numeric,
+  stored_held_balance numeric,
+  ledger_held_balance numeric,
+  held_difference numeric,
+  transaction_count bigint
+) AS $$
+  SELECT
+    w.id,
+    w.user_id,
+    COALESCE(w.balance, 0),
+    COALESCE(l.ledger_balance, 0),
+    COALESCE(w.balance, 0) - COALESCE(l.ledger_balance, 0),
+    COALESCE(w.held_balance, 0),
+    COALESCE(l.ledger_held_balance, 0),
+    COALESCE(w.held_balance, 0) - COALESCE(l.ledger_held_balance, 0),
+    COALESCE(l.transaction_count, 0)
+  FROM public.wallet w
+  LEFT JOIN (
+    SELECT
+      t.wallet_id,
+      SUM(CASE
+        WHEN t.type IN ('credit', 'release') THEN t.amount
+        WHEN t.type IN ('debit', 'hold') THEN -t.amount
+        ELSE 0
+      END) AS ledger_balance,
+      SUM(CASE
+        WHEN t.type = 'hold' THEN t.amount
+        WHEN t.type IN ('release', 'capture') THEN -t.amount
+        ELSE 0
+      END) AS ledger_held_balance,
+      COUNT(*) AS transaction_count
+    FROM public.wallet_transactions t
+    GROUP BY t.wallet_id
+  ) l ON l.wallet_id = w.id
+  WHERE COALESCE(w.balance, 0) <> COALESCE(l.ledger_balance, 0)
+     OR COALESCE(w.held_balance, 0) <> COALESCE(l.ledger_held_balance, 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.post_wallet_entry(uuid, text, numeric, text, text, text, uuid, jsonb, boolean) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_wallet_discrepancies() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_wallet_entry(uuid, text, numeric, text, text, text, uuid, jsonb, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION public.find_wallet_discrepancies() TO service_role;
+
+COMMENT ON COLUMN public.wallet.held_balance IS 'Cashback held against orders awaiting payment; not spendable.';
+COMMENT ON FUNCTION public.post_wallet_entry(uuid, text, numeric, text, text, text, uuid, jsonb, boolean) IS 'Atomically writes a wallet_transactions row and the matching wallet balance change. Idempotent per idempotency_key.';
+COMMENT ON FUNCTION public.find_wallet_discrepancies() IS 'Wallets whose stored or held balance differs from what wallet_transactions adds up to.';
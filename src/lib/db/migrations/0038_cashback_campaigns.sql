@@ -0,0 +1,31 @@
+-- Cashback rules resolved server-side
+-- Category overrides are keyed by products.category (text), so entity_id becomes text.
+-- Rules can be scheduled campaigns (starts_at / ends_at) and carry a per-order cap.
+-- Earned cashback is now credited per order line by the app when an order is
+-- delivered, so the order_delivered_cashback trigger is removed.
+
+ALTER TABLE public.cashback_config
+  ALTER COLUMN entity_id TYPE text USING entity_id::text;
+
+ALTER TABLE public.cashback_config
+  ADD COLUMN IF NOT EXISTS name text,
+  ADD COLUMN IF NOT EXISTS starts_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS ends_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS max_cashback_per_order decimal(10, 2);
+
+ALTER TABLE public.cashback_config
+  ADD CONSTRAINT cashback_config_type_check CHECK (type IN ('global', 'category', 'vendor')),
+  ADD CONSTRAINT cashback_config_percentage_check CHECK (percentage >= 0 AND percentage <= 100),
+  ADD CONSTRAINT cashback_config_dates_check CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at),
+  ADD CONSTRAINT cashback_config_max_cashback_check CHECK (max_cashback_per_order IS NULL OR max_cashback_per_order > 0);
+
+CREATE INDEX IF NOT EXISTS cashback_config_type_entity_id_idx
+  ON public.cashback_config(type, entity_id)
+  WHERE is_active = true;
+
+DROP TRIGGER IF EXISTS order_delivered_cashback ON public.orders;
+DROP FUNCTION IF EXISTS public.auto_credit_cashback();
+
+COMMENT ON COLUMN public.cashback_config.entity_id IS 'NULL for global, products.category for category rules, vendors.id for vendor rules.';
+COMMENT ON COLUMN public.cashback_config.starts_at IS 'Campaign start; NULL means the rule is always on.';
+COMMENT ON COLUMN public.cashback_config.max_cashback_per_order IS 'Most cashback one order can earn from this rule.';
@@ -0,0 +1,55 @@
+-- Create refunds table for full and partial Razorpay refunds
+-- Rows are written by the service role when a refund is requested and
+-- updated from the refund.processed / refund.failed webhooks
+
+CREATE TABLE IF NOT EXISTS public.refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  payment_id text NOT NULL,
+  razorpay_refund_id text UNIQUE, -- NULL until Razorpay accepts the request
+  amount decimal(10, 2) NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  reason text,
+  source text NOT NULL,
+  dispute_id uuid REFERENCES public.disputes(id),
+  initiated_by uuid REFERENCES public.users(id), -- NULL for system refunds
+  transfer_reversal_id text,
+  transfer_reversal_amount decimal(10, 2),
+  failure_reason text,
+  processed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT refunds_amount_check CHECK (amount > 0),
+  CONSTRAINT refunds_status_check CHECK (status IN ('pending', 'processed', 'failed')),
+  CONSTRAINT refunds_source_check CHECK (source IN ('cancellation', 'dispute', 'admin', 'razorpay'))
+);
+
+-- Running total of processed refunds on the order
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS refunded_amount decimal(10, 2) DEFAULT 0;
+
+-- Enable RLS
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Customers can view refunds on own orders"
+  ON public.refunds
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = refunds.order_id AND o.customer_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view all refunds"
+  ON public.refunds
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+-- Indexes for faster lookups
+CREATE INDEX IF NOT EXISTS refunds_order_id_idx ON public.refunds(order_id);
+CREATE INDEX IF NOT EXISTS refunds_status_idx ON public.refunds(status) WHERE status = 'pending';
+
+COMMENT ON TABLE public.refunds IS 'Razorpay refunds per order, with the vendor Route transfer reversal made for each.';
+COMMENT ON COLUMN public.orders.refunded_amount IS 'Sum of processed refunds; payment_status becomes partially_refunded or refunded.';
@@ -0,0 +1,62 @@
+-- Dispute workflow
+-- Customers raise disputes on delivered orders, vendors respond and admins resolve
+-- them with a replacement, a refund or closure, optionally at the vendor's expense.
+-- Rows are written by the service role from the API; customers and vendors can read
+-- the disputes on their own orders.
+
+ALTER TABLE public.disputes
+  ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES public.users(id),
+  ADD COLUMN IF NOT EXISTS vendor_id uuid REFERENCES public.vendors(id),
+  ADD COLUMN IF NOT EXISTS vendor_responded_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS resolution_notes text,
+  ADD COLUMN IF NOT EXISTS refund_id uuid REFERENCES public.refunds(id),
+  ADD COLUMN IF NOT EXISTS vendor_deduction_amount decimal(10, 2),
+  ADD COLUMN IF NOT EXISTS transfer_reversal_id text,
+  ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now();
+
+-- Backfill parties for disputes created before this migration
+UPDATE public.disputes d
+SET customer_id = o.customer_id,
+    vendor_id = o.vendor_id
+FROM public.orders o
+WHERE d.order_id = o.id
+  AND (d.customer_id IS NULL OR d.vendor_id IS NULL);
+
+ALTER TABLE public.disputes
+  ADD CONSTRAINT disputes_type_check CHECK (type IN ('wrong_product', 'damaged', 'quality', 'other')),
+  ADD CONSTRAINT disputes_status_check CHECK (status IN ('open', 'under_review', 'resolved', 'closed')),
+  ADD CONSTRAINT disputes_resolution_check CHECK (resolution IS NULL OR resolution IN ('replacement', 'refund', 'closed')),
+  ADD CONSTRAINT disputes_vendor_deduction_check CHECK (vendor_deduction_amount IS NULL OR vendor_deduction_amount >= 0);
+
+-- Refunds from disputes the platform absorbs must not claw back the vendor's transfer
+ALTER TABLE public.refunds
+  ADD COLUMN IF NOT EXISTS reverse_vendor_transfer boolean NOT NULL DEFAULT true;
+
+-- RLS Policies
+-- Disputes are raised through the API, which checks the order was delivered and is
+-- still inside the dispute window, so customers no longer insert directly
+DROP POLICY IF EXISTS "Customers can insert own disputes" ON public.disputes;
+
+DROP POLICY IF EXISTS "Vendors can view disputes on own orders" ON public.disputes;
+CREATE POLICY "Vendors can view disputes on own orders"
+  ON public.disputes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.vendors v
+      WHERE v.id = disputes.vendor_id AND v.user_id = (SELECT auth.uid())
+    )
+  );
+
+-- One unresolved dispute per order
+CREATE UNIQUE INDEX IF NOT EXISTS disputes_active_order_id_idx
+  ON public.disputes(order_id)
+  WHERE status IN ('open', 'under_review');
+
+CREATE INDEX IF NOT EXISTS disputes_order_id_idx ON public.disputes(order_id);
+CREATE INDEX IF NOT EXISTS disputes_vendor_id_idx ON public.disputes(vendor_id);
+CREATE INDEX IF NOT EXISTS disputes_status_idx ON public.disputes(status, created_at DESC);
+
+COMMENT ON COLUMN public.disputes.status IS 'open -> under_review (vendor responded) -> resolved | closed.';
+COMMENT ON COLUMN public.disputes.vendor_deduction_amount IS 'Amount recovered from the vendor transfer when the dispute is resolved at the vendor''s expense.';
+COMMENT ON COLUMN public.refunds.reverse_vendor_transfer IS 'false when the platform absorbs the refund instead of reversing the vendor transfer.';
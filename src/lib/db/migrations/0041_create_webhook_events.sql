@@ -0,0 +1,38 @@
+-- Create webhook_events table for exactly-once webhook processing
+-- Each delivery is recorded by the provider's event ID before it is processed, so
+-- retried deliveries are acknowledged without running side effects twice and
+-- failed events keep their payload for an admin to replay
+
+CREATE TABLE IF NOT EXISTS public.webhook_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  event_id text NOT NULL, -- x-razorpay-event-id for Razorpay
+  event_type text NOT NULL,
+  entity_id text, -- payment / refund ID the event is about
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  event_created_at timestamp with time zone, -- provider's timestamp, for ordering
+  received_at timestamp with time zone DEFAULT now(),
+  processed_at timestamp with time zone,
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT webhook_events_provider_event_id_key UNIQUE (provider, event_id),
+  CONSTRAINT webhook_events_status_check CHECK (status IN ('pending', 'processing', 'processed', 'ignored', 'failed'))
+);
+
+-- Enable RLS
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (writes happen with the service role)
+CREATE POLICY "Admins can view webhook events"
+  ON public.webhook_events
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+-- Indexes for the admin queue and per-entity ordering checks
+CREATE INDEX IF NOT EXISTS webhook_events_status_idx ON public.webhook_events(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS webhook_events_entity_id_idx ON public.webhook_events(provider, entity_id);
+
+COMMENT ON TABLE public.webhook_events IS 'Received webhook deliveries with their payloads and processing status.';
+COMMENT ON COLUMN public.webhook_events.status IS 'pending -> processing -> processed | ignored (stale or unhandled) | failed (replayable).';
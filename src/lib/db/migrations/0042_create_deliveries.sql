@@ -0,0 +1,69 @@
+-- Create deliveries table for courier bookings
+-- A delivery is booked with the courier when the vendor marks the order ready for
+-- pickup. Courier status webhooks update the row, append to its event timeline and
+-- move the order to out_for_delivery / delivered.
+
+CREATE TABLE IF NOT EXISTS public.deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id),
+  provider text NOT NULL DEFAULT 'nimbus',
+  provider_delivery_id text, -- courier's booking ID, null until the booking is accepted
+  awb text,
+  tracking_url text,
+  status text NOT NULL DEFAULT 'pending',
+  rider_name text,
+  rider_phone text,
+  estimated_time text, -- courier's estimate, e.g. '30-45 min' or '2-5 days'
+  events jsonb NOT NULL DEFAULT '[]'::jsonb, -- [{ status, at, location, note }]
+  failure_reason text,
+  booked_at timestamp with time zone,
+  picked_up_at timestamp with time zone,
+  delivered_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT deliveries_status_check CHECK (status IN ('pending', 'booked', 'assigned', 'picked_up', 'in_transit', 'delivered', 'failed', 'cancelled'))
+);
+
+-- Enable RLS
+ALTER TABLE public.deliveries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (writes happen with the service role)
+CREATE POLICY "Customers can view deliveries of own orders"
+  ON public.deliveries
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = deliveries.order_id AND o.customer_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY "Vendors can view deliveries of own orders"
+  ON public.deliveries
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      JOIN public.vendors v ON v.id = o.vendor_id
+      WHERE o.id = deliveries.order_id AND v.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view deliveries"
+  ON public.deliveries
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+-- One live booking per order; failed and cancelled bookings stay for the record
+CREATE UNIQUE INDEX IF NOT EXISTS deliveries_active_order_id_idx
+  ON public.deliveries(order_id)
+  WHERE status NOT IN ('failed', 'cancelled');
+
+CREATE INDEX IF NOT EXISTS deliveries_provider_delivery_id_idx
+  ON public.deliveries(provider, provider_delivery_id);
+CREATE INDEX IF NOT EXISTS deliveries_order_id_idx ON public.deliveries(order_id);
+CREATE INDEX IF NOT EXISTS deliveries_awb_idx ON public.deliveries(awb);
+CREATE INDEX IF NOT EXISTS deliveries_status_idx ON public.deliveries(status, created_at DESC);
+
+COMMENT ON TABLE public.deliveries IS 'Courier bookings for orders with their AWB, rider and status timeline.';
+COMMENT ON COLUMN public.deliveries.status IS 'pending -> booked -> assigned -> picked_up -> in_transit -> delivered | failed | cancelled.';
@@ -0,0 +1,28 @@
+-- Delivery exceptions
+-- Failed delivery attempts, reattempts and returns to origin (RTO). A failed attempt
+-- keeps the booking live until it is reattempted, cancelled or returned; a returned
+-- or cancelled booking frees the order to be booked again.
+
+ALTER TABLE public.deliveries
+  ADD COLUMN IF NOT EXISTS failed_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS scheduled_slot_start timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS scheduled_slot_end timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS cancellation_reason text,
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS returned_at timestamp with time zone;
+
+ALTER TABLE public.deliveries DROP CONSTRAINT IF EXISTS deliveries_status_check;
+ALTER TABLE public.deliveries
+  ADD CONSTRAINT deliveries_status_check CHECK (status IN (
+    'pending', 'booked', 'assigned', 'picked_up', 'in_transit', 'delivered',
+    'delivery_failed', 'reattempt_scheduled', 'returned_to_origin', 'failed', 'cancelled'
+  ));
+
+-- Returned bookings no longer hold the order's live booking
+DROP INDEX IF EXISTS public.deliveries_active_order_id_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS deliveries_active_order_id_idx
+  ON public.deliveries(order_id)
+  WHERE status NOT IN ('failed', 'cancelled', 'returned_to_origin');
+
+COMMENT ON COLUMN public.deliveries.status IS 'pending -> booked -> assigned -> picked_up -> in_transit -> delivered; delivery_failed -> reattempt_scheduled -> in_transit; failed (booking) | cancelled | returned_to_origin end a booking.';
+COMMENT ON COLUMN public.deliveries.scheduled_slot_start IS 'Start of the slot picked for the next attempt (reattempt or reschedule).';
@@ -0,0 +1,39 @@
+-- Courier rate shopping for intercity orders
+-- Intercity bookings quote every enabled courier and pick one on price and
+-- estimated delivery time; the decision and the quotes it beat are kept on the
+-- order. Admins can pin a courier for a vendor or a destination city.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS courier_selection jsonb;
+
+COMMENT ON COLUMN public.orders.courier_selection IS 'Courier chosen for the latest booking: provider, source (rate_shopping | vendor_override | city_override), weight and every quote with its score.';
+
+CREATE TABLE IF NOT EXISTS public.courier_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id uuid REFERENCES public.vendors(id) ON DELETE CASCADE,
+  city text, -- destination city, matched case-insensitively
+  provider text NOT NULL,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT courier_overrides_scope_check CHECK ((vendor_id IS NULL) <> (city IS NULL))
+);
+
+ALTER TABLE public.courier_overrides ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (writes happen with the service role)
+DROP POLICY IF EXISTS "Admins can view courier overrides" ON public.courier_overrides;
+CREATE POLICY "Admins can view courier overrides"
+  ON public.courier_overrides
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+-- One override per vendor and per city
+CREATE UNIQUE INDEX IF NOT EXISTS courier_overrides_vendor_id_idx
+  ON public.courier_overrides(vendor_id)
+  WHERE vendor_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS courier_overrides_city_idx
+  ON public.courier_overrides(lower(city))
+  WHERE city IS NOT NULL;
+
+COMMENT ON TABLE public.courier_overrides IS 'Admin-pinned couriers for intercity bookings; a vendor override beats a city override.';
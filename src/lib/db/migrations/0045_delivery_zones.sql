@@ -0,0 +1,39 @@
+-- Delivery zones as GeoJSON polygons
+-- Replaces the hard-coded Bangalore pincode map. Each city's zones are drawn or
+-- imported by admins; a local delivery address must fall inside one of the
+-- vendor's zones (vendors.zones holds zone names) as well as within the vendor's
+-- max_delivery_radius. Cities without zones are checked on radius alone.
+
+CREATE TABLE IF NOT EXISTS public.delivery_zones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  city text NOT NULL,
+  name text NOT NULL,
+  geometry jsonb NOT NULL, -- GeoJSON Polygon or MultiPolygon, [lng, lat] positions
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT delivery_zones_geometry_type_check CHECK (geometry->>'type' IN ('Polygon', 'MultiPolygon'))
+);
+
+ALTER TABLE public.delivery_zones ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (writes happen with the service role)
+DROP POLICY IF EXISTS "Anyone can view active delivery zones" ON public.delivery_zones;
+CREATE POLICY "Anyone can view active delivery zones"
+  ON public.delivery_zones
+  FOR SELECT
+  USING (is_active);
+
+DROP POLICY IF EXISTS "Admins can view delivery zones" ON public.delivery_zones;
+CREATE POLICY "Admins can view delivery zones"
+  ON public.delivery_zones
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+-- Zone names are what vendors.zones refers to, so they are unique per city
+CREATE UNIQUE INDEX IF NOT EXISTS delivery_zones_city_name_idx
+  ON public.delivery_zones(lower(city), lower(name));
+
+COMMENT ON TABLE public.delivery_zones IS 'Serviceability polygons per city; vendors.zones lists the names of the zones a vendor delivers to.';
+COMMENT ON COLUMN public.delivery_zones.geometry IS 'GeoJSON Polygon or MultiPolygon geometry with [lng, lat] positions.';
@@ -0,0 +1,86 @@
+-- Scheduled delivery slots
+-- Customers can book a local gift order into a dated time window. Slots have to
+-- fall inside the vendor's operating hours, leave room for the products' mockup
+-- SLA, and each vendor takes a limited number of orders per slot.
+
+ALTER TABLE public.vendors
+  ADD COLUMN IF NOT EXISTS operating_hours jsonb, -- { monday: { open: "09:00", close: "21:00" }, ... }; missing days are closed
+  ADD COLUMN IF NOT EXISTS slot_capacity integer;
+
+ALTER TABLE public.vendors
+  ADD CONSTRAINT vendors_slot_capacity_check CHECK (slot_capacity IS NULL OR slot_capacity > 0);
+
+-- Hours collected during onboarding become the live hours
+UPDATE public.vendors
+SET operating_hours = onboarding_data->'operatingHours'
+WHERE operating_hours IS NULL
+  AND jsonb_typeof(onboarding_data->'operatingHours') = 'object'
+  AND onboarding_data->'operatingHours' <> '{}'::jsonb;
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS delivery_slot_id text,
+  ADD COLUMN IF NOT EXISTS delivery_slot_start timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS delivery_slot_end timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS orders_vendor_id_delivery_slot_start_idx
+  ON public.orders(vendor_id, delivery_slot_start)
+  WHERE delivery_slot_start IS NOT NULL;
+
+-- Put an order into a slot if the vendor still has room in it
+-- Locks the vendor row so concurrent checkouts for the same vendor are counted
+-- one at a time. Cancelled orders don't hold a place.
+CREATE OR REPLACE FUNCTION public.claim_delivery_slot(
+  p_order_id uuid,
+  p_slot_id text,
+  p_start timestamp with time zone,
+  p_end timestamp with time zone,
+  p_default_capacity integer
+)
+RETURNS integer AS $$
+DECLARE
+  v_vendor_id uuid;
+  v_capacity integer;
+  v_taken integer;
+BEGIN
+  SELECT o.vendor_id INTO v_vendor_id
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SLOT_ORDER_NOT_FOUND';
+  END IF;
+
+  SELECT COALESCE(v.slot_capacity, p_default_capacity) INTO v_capacity
+  FROM public.vendors v
+  WHERE v.id = v_vendor_id
+  FOR UPDATE;
+
+  SELECT count(*) INTO v_taken
+  FROM public.orders o
+  WHERE o.vendor_id = v_vendor_id
+    AND o.delivery_slot_start = p_start
+    AND o.status <> 'cancelled'
+    AND o.id <> p_order_id;
+
+  IF v_taken >= v_capacity THEN
+    RAISE EXCEPTION 'SLOT_FULL';
+  END IF;
+
+  UPDATE public.orders
+  SET delivery_slot_id = p_slot_id,
+      delivery_slot_start = p_start,
+      delivery_slot_end = p_end,
+      estimated_delivery = p_end,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN v_capacity - v_taken - 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_delivery_slot(uuid, text, timestamp with time zone, timestamp with time zone, integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_delivery_slot(uuid, text, timestamp with time zone, timestamp with time zone, integer) TO service_role;
+
+COMMENT ON COLUMN public.vendors.operating_hours IS 'Weekly hours (IST) keyed by lowercase weekday, { open, close } as HH:mm; days left out are closed.';
+COMMENT ON COLUMN public.vendors.slot_capacity IS 'Scheduled orders the vendor takes per delivery slot; null uses the app default.';
+COMMENT ON COLUMN public.orders.delivery_slot_start IS 'Start of the scheduled delivery window the customer booked; null for standard and express orders.';
@@ -0,0 +1,13 @@
+-- Midnight surprise delivery
+-- Vendors opt in during onboarding (or later from store hours). Customers book the
+-- "midnight" slot (11 PM - 12:30 AM); those orders are surprises, so the courier is
+-- booked with the sender's number as the contact and told not to call ahead.
+
+ALTER TABLE public.vendors
+  ADD COLUMN IF NOT EXISTS midnight_delivery_enabled boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS is_surprise boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.vendors.midnight_delivery_enabled IS 'Vendor takes midnight surprise deliveries (appConfig.delivery.midnight).';
+COMMENT ON COLUMN public.orders.is_surprise IS 'Recipient must not know in advance: no courier call before arrival, the sender is the contact.';
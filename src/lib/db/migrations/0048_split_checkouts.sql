@@ -0,0 +1,43 @@
+-- Split shipment checkouts
+-- One checkout can send the cart to several saved addresses. Each recipient gets
+-- its own order (own delivery fee, courier booking and refunds); the orders share
+-- the parent checkout and are paid with a single Razorpay payment, with a Route
+-- transfer per order.
+
+CREATE TABLE IF NOT EXISTS public.checkouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES public.users(id),
+  total decimal(10, 2) NOT NULL,
+  razorpay_order_id text,
+  payment_id text,
+  payment_status text NOT NULL DEFAULT 'pending',
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT checkouts_total_check CHECK (total >= 0)
+);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS checkout_id uuid REFERENCES public.checkouts(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE public.checkouts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+DROP POLICY IF EXISTS "Customers can view own checkouts" ON public.checkouts;
+CREATE POLICY "Customers can view own checkouts"
+  ON public.checkouts
+  FOR SELECT
+  USING (customer_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can view all checkouts" ON public.checkouts;
+CREATE POLICY "Admins can view all checkouts"
+  ON public.checkouts
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+-- Indexes for faster lookups
+CREATE INDEX IF NOT EXISTS checkouts_customer_id_idx ON public.checkouts(customer_id);
+CREATE INDEX IF NOT EXISTS orders_checkout_id_idx ON public.orders(checkout_id) WHERE checkout_id IS NOT NULL;
+
+COMMENT ON TABLE public.checkouts IS 'Parent of the orders paid together with one Razorpay payment (split shipments).';
+COMMENT ON COLUMN public.orders.checkout_id IS 'Parent checkout when the order was paid together with others; null for single orders.';
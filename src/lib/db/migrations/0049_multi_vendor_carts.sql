@@ -0,0 +1,26 @@
+-- Multi-vendor carts
+-- A cart can hold items from several vendors; each cart item carries its own
+-- vendorId and checkout creates one order per vendor, so the cart-level vendor
+-- is no longer written.
+--
+-- Phase one of two: items saved before each carried a vendorId get the cart's
+-- vendor copied in. user_carts.vendor_id stays, unused, so clients still on the
+-- previous release can keep saving carts; a later migration drops it once they're gone.
+
+UPDATE public.user_carts c
+SET items = (
+  SELECT jsonb_agg(
+    CASE WHEN e.item ? 'vendorId' THEN e.item ELSE e.item || jsonb_build_object('vendorId', c.vendor_id) END
+    ORDER BY e.ord
+  )
+  FROM jsonb_array_elements(c.items) WITH ORDINALITY AS e(item, ord)
+)
+WHERE c.vendor_id IS NOT NULL
+  AND jsonb_typeof(c.items) = 'array'
+  AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(c.items) AS existing(item)
+    WHERE NOT existing.item ? 'vendorId'
+  );
+
+COMMENT ON COLUMN public.user_carts.items IS 'Cart items, possibly from several vendors; each item carries its vendorId.';
+COMMENT ON COLUMN public.user_carts.vendor_id IS 'Deprecated: no longer written (items carry their vendorId). To be dropped in a later migration.';
@@ -0,0 +1,96 @@
+-- SLA enforcement
+-- A scheduled worker (GET /api/cron/sla-enforcement) scans orders for missed
+-- deadlines. Paid orders a vendor hasn't accepted by accept_deadline are cancelled
+-- and refunded; orders still without mockups at mockup_sla are flagged and the
+-- vendor and admins are told. Every breach is recorded once per order and kind,
+-- and counted on the vendor for penalties and analytics.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS mockup_sla_breached_at timestamp with time zone;
+
+ALTER TABLE public.vendors
+  ADD COLUMN IF NOT EXISTS accept_breach_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS mockup_breach_count integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.sla_breaches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  vendor_id uuid NOT NULL REFERENCES public.vendors(id),
+  kind text NOT NULL, -- accept, mockup
+  deadline timestamp with time zone NOT NULL,
+  action text NOT NULL, -- auto_rejected, flagged
+  detected_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT sla_breaches_kind_check CHECK (kind IN ('accept', 'mockup')),
+  CONSTRAINT sla_breaches_action_check CHECK (action IN ('auto_rejected', 'flagged')),
+  CONSTRAINT sla_breaches_order_id_kind_key UNIQUE (order_id, kind)
+);
+
+-- Enable RLS
+ALTER TABLE public.sla_breaches ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+DROP POLICY IF EXISTS "Vendors can view own SLA breaches" ON public.sla_breaches;
+CREATE POLICY "Vendors can view own SLA breaches"
+  ON public.sla_breaches
+  FOR SELECT
+  USING (vendor_id IN (SELECT id FROM public.vendors WHERE user_id = (SELECT auth.uid())));
+
+DROP POLICY IF EXISTS "Admins can view all SLA breaches" ON public.sla_breaches;
+CREATE POLICY "Admins can view all SLA breaches"
+  ON public.sla_breaches
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+-- Indexes for the worker's scans and per-vendor reporting
+CREATE INDEX IF NOT EXISTS sla_breaches_vendor_id_detected_at_idx ON public.sla_breaches(vendor_id, detected_at);
+CREATE INDEX IF NOT EXISTS orders_accept_deadline_idx
+  ON public.orders(accept_deadline)
+  WHERE status = 'pending' AND accept_deadline IS NOT NULL;
+CREATE INDEX IF NOT EXISTS orders_mockup_sla_idx
+  ON public.orders(mockup_sla)
+  WHERE status = 'personalizing' AND mockup_sla_breached_at IS NULL;
+
+-- Record a breach and bump the vendor's counter
+-- Returns false when the breach was already recorded, so reruns don't double count.
+CREATE OR REPLACE FUNCTION public.record_sla_breach(
+  p_order_id uuid,
+  p_kind text,
+  p_deadline timestamp with time zone,
+  p_action text
+)
+RETURNS boolean AS $$
+DECLARE
+  v_vendor_id uuid;
+BEGIN
+  SELECT o.vendor_id INTO v_vendor_id
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SLA_ORDER_NOT_FOUND';
+  END IF;
+
+  INSERT INTO public.sla_breaches (order_id, vendor_id, kind, deadline, action)
+  VALUES (p_order_id, v_vendor_id, p_kind, p_deadline, p_action)
+  ON CONFLICT (order_id, kind) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.vendors
+  SET accept_breach_count = accept_breach_count + CASE WHEN p_kind = 'accept' THEN 1 ELSE 0 END,
+      mockup_breach_count = mockup_breach_count + CASE WHEN p_kind = 'mockup' THEN 1 ELSE 0 END
+  WHERE id = v_vendor_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_sla_breach(uuid, text, timestamp with time zone, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sla_breach(uuid, text, timestamp with time zone, text) TO service_role;
+
+COMMENT ON TABLE public.sla_breaches IS 'Missed accept and mockup deadlines, one row per order and kind, written by the SLA worker.';
+COMMENT ON COLUMN public.orders.mockup_sla_breached_at IS 'When the SLA worker flagged the order for missing mockup_sla; reset when the mockup clock restarts.';
+COMMENT ON COLUMN public.vendors.accept_breach_count IS 'Orders auto-rejected because the vendor did not accept them in time.';
+COMMENT ON COLUMN public.vendors.mockup_breach_count IS 'Orders whose mockups were not uploaded within the mockup SLA.';
@@ -0,0 +1,154 @@
+-- Vendor order rejections
+-- A vendor who can't fulfil an order rejects it with a structured reason
+-- (POST /api/vendor/orders/[id]/reject). The order is cancelled and refunded, and
+-- the rejection counts toward the vendor's quality score alongside missed SLAs.
+
+ALTER TABLE public.vendors
+  ADD COLUMN IF NOT EXISTS rejection_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS quality_score decimal(5, 2) NOT NULL DEFAULT 100;
+
+CREATE TABLE IF NOT EXISTS public.order_rejections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  vendor_id uuid NOT NULL REFERENCES public.vendors(id),
+  reason text NOT NULL, -- out_of_stock, cannot_personalize, capacity, other
+  note text,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT order_rejections_reason_check CHECK (reason IN ('out_of_stock', 'cannot_personalize', 'capacity', 'other')),
+  CONSTRAINT order_rejections_order_id_key UNIQUE (order_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.order_rejections ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+DROP POLICY IF EXISTS "Vendors can view own rejections" ON public.order_rejections;
+CREATE POLICY "Vendors can view own rejections"
+  ON public.order_rejections
+  FOR SELECT
+  USING (vendor_id IN (SELECT id FROM public.vendors WHERE user_id = (SELECT auth.uid())));
+
+DROP POLICY IF EXISTS "Admins can view all rejections" ON public.order_rejections;
+CREATE POLICY "Admins can view all rejections"
+  ON public.order_rejections
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+CREATE INDEX IF NOT EXISTS order_rejections_vendor_id_created_at_idx ON public.order_rejections(vendor_id, created_at);
+
+-- Recompute a vendor's quality score from its paid orders
+-- Every rejection or missed accept deadline costs a full order, a late mockup half.
+CREATE OR REPLACE FUNCTION public.refresh_vendor_quality_score(p_vendor_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_orders integer;
+BEGIN
+  SELECT count(*) INTO v_orders
+  FROM public.orders o
+  WHERE o.vendor_id = p_vendor_id
+    AND o.payment_status = 'completed';
+
+  UPDATE public.vendors
+  SET quality_score = GREATEST(
+    0,
+    100 - 100.0 * (rejection_count + accept_breach_count + 0.5 * mockup_breach_count) / GREATEST(v_orders, 1)
+  )
+  WHERE id = p_vendor_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_vendor_quality_score(uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_vendor_quality_score(uuid) TO service_role;
+
+-- Record a rejection, bump the vendor's counter and refresh its score
+-- Returns false when the order's rejection was already recorded.
+CREATE OR REPLACE FUNCTION public.record_order_rejection(
+  p_order_id uuid,
+  p_reason text,
+  p_note text
+)
+RETURNS boolean AS $$
+DECLARE
+  v_vendor_id uuid;
+BEGIN
+  SELECT o.vendor_id INTO v_vendor_id
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REJECTION_ORDER_NOT_FOUND';
+  END IF;
+
+  INSERT INTO public.order_rejections (order_id, vendor_id, reason, note)
+  VALUES (p_order_id, v_vendor_id, p_reason, p_note)
+  ON CONFLICT (order_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.vendors
+  SET rejection_count = rejection_count + 1
+  WHERE id = v_vendor_id;
+
+  PERFORM public.refresh_vendor_quality_score(v_vendor_id);
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_order_rejection(uuid, text, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_order_rejection(uuid, text, text) TO service_role;
+
+-- SLA breaches count toward the score too
+CREATE OR REPLACE FUNCTION public.record_sla_breach(
+  p_order_id uuid,
+  p_kind text,
+  p_deadline timestamp with time zone,
+  p_action text
+)
+RETURNS boolean AS $$
+DECLARE
+  v_vendor_id uuid;
+BEGIN
+  SELECT o.vendor_id INTO v_vendor_id
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SLA_ORDER_NOT_FOUND';
+  END IF;
+
+  INSERT INTO public.sla_breaches (order_id, vendor_id, kind, deadline, action)
+  VALUES (p_order_id, v_vendor_id, p_kind, p_deadline, p_action)
+  ON CONFLICT (order_id, kind) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.vendors
+  SET accept_breach_count = accept_breach_count + CASE WHEN p_kind = 'accept' THEN 1 ELSE 0 END,
+      mockup_breach_count = mockup_breach_count + CASE WHEN p_kind = 'mockup' THEN 1 ELSE 0 END
+  WHERE id = v_vendor_id;
+
+  PERFORM public.refresh_vendor_quality_score(v_vendor_id);
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill scores for existing breaches
+UPDATE public.vendors v
+SET quality_score = GREATEST(
+  0,
+  100 - 100.0 * (v.accept_breach_count + 0.5 * v.mockup_breach_count) / GREATEST(
+    (SELECT count(*) FROM public.orders o WHERE o.vendor_id = v.id AND o.payment_status = 'completed'),
+    1
+  )
+)
+WHERE v.accept_breach_count > 0 OR v.mockup_breach_count > 0;
+
+COMMENT ON TABLE public.order_rejections IS 'Orders a vendor declined, with the structured reason shown to admins; one row per order.';
+COMMENT ON COLUMN public.vendors.rejection_count IS 'Orders the vendor rejected via POST /api/vendor/orders/[id]/reject.';
+COMMENT ON COLUMN public.vendors.quality_score IS '0-100; drops with rejections, missed accept deadlines and (at half weight) late mockups per paid order.';
@@ -0,0 +1,98 @@
+-- Versioned mockup revisions
+-- Every mockup upload is a numbered version per order item with the artisan's
+-- note. The customer approves or rejects each version, with feedback and pinned
+-- comments at image coordinates. Products cap how many revisions a customer can ask
+-- for; orders.mockup_images keeps mirroring the latest version of each item.
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS mockup_revision_limit integer;
+
+ALTER TABLE public.products
+  DROP CONSTRAINT IF EXISTS products_mockup_revision_limit_check;
+ALTER TABLE public.products
+  ADD CONSTRAINT products_mockup_revision_limit_check CHECK (mockup_revision_limit IS NULL OR mockup_revision_limit >= 0);
+
+CREATE TABLE IF NOT EXISTS public.mockup_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id),
+  version integer NOT NULL,
+  images jsonb NOT NULL DEFAULT '[]'::jsonb, -- image URLs
+  artisan_note text,
+  uploaded_by uuid REFERENCES public.users(id),
+  decision text, -- approved, rejected; null while awaiting the customer
+  customer_feedback text,
+  annotations jsonb NOT NULL DEFAULT '[]'::jsonb, -- [{ imageIndex, x, y, comment }], x/y as 0-1 fractions
+  decided_by uuid REFERENCES public.users(id), -- null when decided by the system
+  decided_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT mockup_revisions_version_check CHECK (version >= 1),
+  CONSTRAINT mockup_revisions_decision_check CHECK (decision IS NULL OR decision IN ('approved', 'rejected')),
+  CONSTRAINT mockup_revisions_order_product_version_key UNIQUE (order_id, product_id, version)
+);
+
+-- Enable RLS
+ALTER TABLE public.mockup_revisions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (writes happen with the service role)
+DROP POLICY IF EXISTS "Customers can view mockup revisions of own orders" ON public.mockup_revisions;
+CREATE POLICY "Customers can view mockup revisions of own orders"
+  ON public.mockup_revisions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = mockup_revisions.order_id AND o.customer_id = (SELECT auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Vendors can view mockup revisions of own orders" ON public.mockup_revisions;
+CREATE POLICY "Vendors can view mockup revisions of own orders"
+  ON public.mockup_revisions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      JOIN public.vendors v ON v.id = o.vendor_id
+      WHERE o.id = mockup_revisions.order_id AND v.user_id = (SELECT auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view mockup revisions" ON public.mockup_revisions;
+CREATE POLICY "Admins can view mockup revisions"
+  ON public.mockup_revisions
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+CREATE INDEX IF NOT EXISTS mockup_revisions_order_id_idx ON public.mockup_revisions(order_id, product_id, version);
+
+-- Existing mockups become version 1; a pending revision request marks it rejected
+INSERT INTO public.mockup_revisions (order_id, product_id, version, images, decision, customer_feedback, decided_at, created_at)
+SELECT
+  o.id,
+  m.key::uuid,
+  1,
+  m.value,
+  CASE
+    WHEN o.mockup_approved_at IS NOT NULL THEN 'approved'
+    WHEN o.revision_request->>'productId' IS NULL AND o.revision_request IS NOT NULL THEN 'rejected'
+    WHEN o.revision_request->>'productId' = m.key THEN 'rejected'
+  END,
+  CASE
+    WHEN o.mockup_approved_at IS NULL AND (o.revision_request->>'productId' IS NULL OR o.revision_request->>'productId' = m.key)
+      THEN o.revision_request->>'feedback'
+  END,
+  COALESCE(o.mockup_approved_at, (o.revision_request->>'requestedAt')::timestamp with time zone),
+  o.updated_at
+FROM public.orders o
+CROSS JOIN LATERAL jsonb_each(o.mockup_images) m
+WHERE o.mockup_images IS NOT NULL
+  AND jsonb_typeof(o.mockup_images) = 'object'
+  AND jsonb_typeof(m.value) = 'array'
+  AND m.key ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  AND EXISTS (SELECT 1 FROM public.products p WHERE p.id = m.key::uuid)
+ON CONFLICT (order_id, product_id, version) DO NOTHING;
+
+COMMENT ON TABLE public.mockup_revisions IS 'Numbered mockup versions per order item with the artisan note, customer decision, feedback and pinned annotations.';
+COMMENT ON COLUMN public.mockup_revisions.annotations IS 'Customer comments pinned to an image: [{ imageIndex, x, y, comment }] with x/y as 0-1 fractions of the image size.';
+COMMENT ON COLUMN public.products.mockup_revision_limit IS 'Mockup revisions a customer can request per order item; null uses appConfig.order.mockupRevisionLimit.';
@@ -0,0 +1,30 @@
+-- Mockup auto-approval
+-- When mockups are ready the customer has a review window
+-- (appConfig.order.mockupAutoApproveHours). The SLA worker reminds them at
+-- intervals and, once the window ends, approves the pending versions as the system
+-- and moves the order to crafting. Vendors and products can opt out, for example
+-- for high-value items; those orders wait for the customer and only get reminders.
+
+ALTER TABLE public.vendors
+  ADD COLUMN IF NOT EXISTS mockup_auto_approve boolean NOT NULL DEFAULT true;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS mockup_auto_approve boolean NOT NULL DEFAULT true;
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS mockup_review_due_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS mockup_reminder_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS mockup_reminders_sent integer NOT NULL DEFAULT 0;
+
+-- Indexes for the worker's scans
+CREATE INDEX IF NOT EXISTS orders_mockup_review_due_at_idx
+  ON public.orders(mockup_review_due_at)
+  WHERE status = 'mockup_ready' AND mockup_review_due_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS orders_mockup_reminder_at_idx
+  ON public.orders(mockup_reminder_at)
+  WHERE status = 'mockup_ready' AND mockup_reminder_at IS NOT NULL;
+
+COMMENT ON COLUMN public.vendors.mockup_auto_approve IS 'Whether the vendor''s mockups are approved automatically when the customer doesn''t respond in time.';
+COMMENT ON COLUMN public.products.mockup_auto_approve IS 'Whether mockups for this product can be approved automatically; an order auto-approves only if every item allows it.';
+COMMENT ON COLUMN public.orders.mockup_review_due_at IS 'When pending mockups are approved automatically; null when the vendor or a product opted out.';
+COMMENT ON COLUMN public.orders.mockup_reminder_at IS 'Next reminder to review mockups; null once reminders are done.';
@@ -0,0 +1,17 @@
+-- Single-use checkout quotes
+-- A signed quote token stays valid for its whole TTL, so a double submit or retry
+-- could place the same quote twice (reserving the coupon and cashback again).
+-- The quote id is stored on the order it created, or on the parent checkout for
+-- split checkouts, and may appear only once.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS quote_id uuid;
+
+ALTER TABLE public.checkouts
+  ADD COLUMN IF NOT EXISTS quote_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS orders_quote_id_key ON public.orders(quote_id);
+CREATE UNIQUE INDEX IF NOT EXISTS checkouts_quote_id_key ON public.checkouts(quote_id);
+
+COMMENT ON COLUMN public.orders.quote_id IS 'Checkout quote a single order was placed from; null for split checkout orders and orders placed before quotes were single-use.';
+COMMENT ON COLUMN public.checkouts.quote_id IS 'Split checkout quote this checkout was placed from.';
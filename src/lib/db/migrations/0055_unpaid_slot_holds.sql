@@ -0,0 +1,62 @@
+-- Abandoned checkouts no longer hold delivery slots
+-- Orders still unpaid (payment_status pending or failed) after the payment window
+-- (appConfig.order.paymentWindowMinutes, passed in as p_unpaid_cutoff) stop counting
+-- against a slot's capacity, so a few abandoned checkouts can't fill it.
+
+DROP FUNCTION IF EXISTS public.claim_delivery_slot(uuid, text, timestamp with time zone, timestamp with time zone, integer);
+
+CREATE OR REPLACE FUNCTION public.claim_delivery_slot(
+  p_order_id uuid,
+  p_slot_id text,
+  p_start timestamp with time zone,
+  p_end timestamp with time zone,
+  p_default_capacity integer,
+  p_unpaid_cutoff timestamp with time zone
+)
+RETURNS integer AS $$
+DECLARE
+  v_vendor_id uuid;
+  v_capacity integer;
+  v_taken integer;
+BEGIN
+  SELECT o.vendor_id INTO v_vendor_id
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SLOT_ORDER_NOT_FOUND';
+  END IF;
+
+  SELECT COALESCE(v.slot_capacity, p_default_capacity) INTO v_capacity
+  FROM public.vendors v
+  WHERE v.id = v_vendor_id
+  FOR UPDATE;
+
+  SELECT count(*) INTO v_taken
+  FROM public.orders o
+  WHERE o.vendor_id = v_vendor_id
+    AND o.delivery_slot_start = p_start
+    AND o.status <> 'cancelled'
+    AND (o.payment_status NOT IN ('pending', 'failed') OR o.created_at >= p_unpaid_cutoff)
+    AND o.id <> p_order_id;
+
+  IF v_taken >= v_capacity THEN
+    RAISE EXCEPTION 'SLOT_FULL';
+  END IF;
+
+  UPDATE public.orders
+  SET delivery_slot_id = p_slot_id,
+      delivery_slot_start = p_start,
+      delivery_slot_end = p_end,
+      estimated_delivery = p_end,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN v_capacity - v_taken - 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_delivery_slot(uuid, text, timestamp with time zone, timestamp with time zone, integer, timestamp with time zone) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_delivery_slot(uuid, text, timestamp with time zone, timestamp with time zone, integer, timestamp with time zone) TO service_role;
+
+COMMENT ON FUNCTION public.claim_delivery_slot(uuid, text, timestamp with time zone, timestamp with time zone, integer, timestamp with time zone) IS 'Book an order into a vendor delivery slot; cancelled orders and orders unpaid since before p_unpaid_cutoff do not count against capacity.';
@@ -0,0 +1,56 @@
+-- Vendor quality score counts orders by their outcome
+-- The score's denominator used to be the vendor's paid orders, so rejected and
+-- auto-rejected orders (cancelled and refunded, or never paid) weren't counted while
+-- their penalties were. It now counts every order the vendor accepted, rejected or
+-- let lapse past the accept deadline, whatever its payment status.
+
+CREATE OR REPLACE FUNCTION public.vendor_decided_order_count(p_vendor_id uuid)
+RETURNS integer AS $$
+  SELECT count(*)::integer
+  FROM public.orders o
+  WHERE o.vendor_id = p_vendor_id
+    AND (
+      -- Accepted: the order left pending for anything but a cancellation
+      o.status NOT IN ('pending', 'cancelled')
+      OR EXISTS (
+        SELECT 1 FROM public.order_status_history h
+        WHERE h.order_id = o.id
+          AND h.from_status = 'pending'
+          AND h.to_status <> 'cancelled'
+      )
+      OR EXISTS (SELECT 1 FROM public.order_rejections r WHERE r.order_id = o.id)
+      OR EXISTS (SELECT 1 FROM public.sla_breaches b WHERE b.order_id = o.id AND b.kind = 'accept')
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.vendor_decided_order_count(uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.vendor_decided_order_count(uuid) TO service_role;
+
+-- Every rejection or missed accept deadline costs a full order, a late mockup half.
+CREATE OR REPLACE FUNCTION public.refresh_vendor_quality_score(p_vendor_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.vendors
+  SET quality_score = GREATEST(
+    0,
+    100 - 100.0 * (rejection_count + accept_breach_count + 0.5 * mockup_breach_count)
+      / GREATEST(public.vendor_decided_order_count(p_vendor_id), 1)
+  )
+  WHERE id = p_vendor_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_vendor_quality_score(uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_vendor_quality_score(uuid) TO service_role;
+
+-- Backfill every penalised vendor with the new denominator
+UPDATE public.vendors v
+SET quality_score = GREATEST(
+  0,
+  100 - 100.0 * (v.rejection_count + v.accept_breach_count + 0.5 * v.mockup_breach_count)
+    / GREATEST(public.vendor_decided_order_count(v.id), 1)
+)
+WHERE v.rejection_count > 0 OR v.accept_breach_count > 0 OR v.mockup_breach_count > 0;
+
+COMMENT ON FUNCTION public.vendor_decided_order_count(uuid) IS 'Orders the vendor accepted, rejected or missed the accept deadline on; the quality score denominator.';
+COMMENT ON COLUMN public.vendors.quality_score IS '0-100; drops with rejections, missed accept deadlines and (at half weight) late mockups per order the vendor accepted, rejected or let lapse.';
@@ -0,0 +1,36 @@
+-- Simulated courier shipments
+-- The simulated courier (src/lib/services/simulated-courier.ts) used to keep its
+-- bookings and their pending callbacks in memory, so a restart or a second server
+-- instance lost them. Each booking is now a row holding the callbacks still to
+-- play back and when the next one is due; GET /api/cron/simulated-courier plays
+-- due callbacks, and tracking a booking plays its due callback on read.
+
+CREATE TABLE IF NOT EXISTS public.simulated_shipments (
+  delivery_id text PRIMARY KEY, -- deliveries.provider_delivery_id (sim_<uuid>)
+  awb text,
+  scenario text NOT NULL,
+  status text NOT NULL DEFAULT 'booked', -- last callback played, or booked
+  steps jsonb NOT NULL DEFAULT '[]'::jsonb, -- callbacks still to play: [{ status, remarks? }]
+  callbacks integer NOT NULL DEFAULT 0, -- played so far; numbers event IDs and guards concurrent playback
+  next_step_at timestamp with time zone, -- null once the timeline is done, cancelled or stopped by a failure
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.simulated_shipments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Rows are only written by the service role
+DROP POLICY IF EXISTS "Admins can view simulated shipments" ON public.simulated_shipments;
+CREATE POLICY "Admins can view simulated shipments"
+  ON public.simulated_shipments
+  FOR SELECT
+  USING (is_admin((SELECT auth.uid())));
+
+-- The playback worker's scan
+CREATE INDEX IF NOT EXISTS simulated_shipments_next_step_at_idx
+  ON public.simulated_shipments(next_step_at)
+  WHERE next_step_at IS NOT NULL;
+
+COMMENT ON TABLE public.simulated_shipments IS 'Bookings made with the simulated courier and the status callbacks still to play back.';
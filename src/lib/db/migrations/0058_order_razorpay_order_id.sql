@@ -0,0 +1,29 @@
+-- Razorpay order per order
+-- orders.payment_id holds the Razorpay order id until a payment settles or fails,
+-- then the payment id, so payment verification couldn't tell which Razorpay order
+-- an order was created with. A verified payment for one order could settle another
+-- order of the same customer. The Razorpay order id is now kept on its own column,
+-- as checkouts.razorpay_order_id already is for split checkouts.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS razorpay_order_id text;
+
+-- Orders still waiting for payment carry the Razorpay order id in payment_id
+UPDATE public.orders
+SET razorpay_order_id = payment_id
+WHERE razorpay_order_id IS NULL
+  AND payment_id LIKE 'order\_%';
+
+-- Split checkout orders share the checkout's Razorpay order
+UPDATE public.orders o
+SET razorpay_order_id = c.razorpay_order_id
+FROM public.checkouts c
+WHERE o.checkout_id = c.id
+  AND o.razorpay_order_id IS NULL
+  AND c.razorpay_order_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS orders_razorpay_order_id_idx
+  ON public.orders(razorpay_order_id)
+  WHERE razorpay_order_id IS NOT NULL;
+
+COMMENT ON COLUMN public.orders.razorpay_order_id IS 'Razorpay order the customer pays this order through; payment verification only settles the order with a payment for it.';
@@ -0,0 +1,52 @@
+-- Enforce a coupon's per-user limit when the redemption is written
+-- The limit was only checked by counting redemptions before the order was created,
+-- so two checkouts by the same customer could both pass the count and both redeem.
+-- Redemptions now go through redeem_coupon(), which counts and inserts in one step.
+
+-- Record an order's coupon use if the customer is still under the coupon's per-user limit
+-- Locks the coupon row so concurrent redemptions are counted one at a time. Reversed
+-- redemptions (cancelled orders, failed payments) don't count. Calling it again for
+-- the same order is a no-op.
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+  p_coupon_id uuid,
+  p_order_id uuid,
+  p_user_id uuid,
+  p_discount_amount numeric
+)
+RETURNS void AS $$
+DECLARE
+  v_per_user_limit integer;
+  v_used integer;
+BEGIN
+  SELECT c.per_user_limit INTO v_per_user_limit
+  FROM public.coupons c
+  WHERE c.id = p_coupon_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'COUPON_NOT_FOUND';
+  END IF;
+
+  IF v_per_user_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM public.coupon_redemptions r
+    WHERE r.coupon_id = p_coupon_id
+      AND r.user_id = p_user_id
+      AND r.status = 'redeemed'
+      AND r.order_id <> p_order_id;
+
+    IF v_used >= v_per_user_limit THEN
+      RAISE EXCEPTION 'COUPON_USER_LIMIT_REACHED';
+    END IF;
+  END IF;
+
+  INSERT INTO public.coupon_redemptions (coupon_id, order_id, user_id, discount_amount, status)
+  VALUES (p_coupon_id, p_order_id, p_user_id, p_discount_amount, 'redeemed')
+  ON CONFLICT (order_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_coupon(uuid, uuid, uuid, numeric) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_coupon(uuid, uuid, uuid, numeric) TO service_role;
+
+COMMENT ON FUNCTION public.redeem_coupon(uuid, uuid, uuid, numeric) IS 'Records an order''s coupon redemption, raising COUPON_USER_LIMIT_REACHED when the customer has used up the per-user limit.';
@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, boolean, decimal, jsonb, integer, uuid, pgEnum, index } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, boolean, decimal, jsonb, integer, uuid, pgEnum, index, uniqueIndex, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Enums
@@ -61,9 +61,10 @@ export const vendors = pgTable('vendors', {
   rating: decimal('rating', { precision: 3, scale: 2 }).default('0'),
   isHyperlocal: boolean('is_hyperlocal').default(true),
   city: text('city').notNull(),
-  zones: jsonb('zones').$type<string[]>().notNull(), // ['Koramangala', 'HSR'] - legacy, will be replaced by distance-based
+  zones: jsonb('zones').$type<string[]>().notNull(), // delivery_zones names in the vendor's city, e.g. ['Koramangala', 'HSR Layout']
   maxDeliveryRadius: integer('max_delivery_radius').default(10), // km - distance-based delivery
   intercityEnabled: boolean('intercity_enabled').default(false),
+  midnightDeliveryEnabled: boolean('midnight_delivery_enabled').default(false), // Takes appConfig.delivery.midnight surprise orders
   // Store location for distance calculation
   storeAddress: text('store_address'), // Full address string
   storeLat: decimal('store_lat', { precision: 10, scale: 7 }), // Latitude for distance calculation
@@ -89,11 +90,19 @@ export const vendors = pgTable('vendors', {
     zones: string[];
     maxDeliveryRadius: number;
     intercityEnabled: boolean;
+    midnightDeliveryEnabled?: boolean;
     storePhotos: string[];
     documents: { gstin: string; pan: string; cheque: string };
     }>(),
     isOnline: boolean('is_online').default(true),
+    operatingHours: jsonb('operating_hours').$type<Record<string, { open: string; close: string }>>(), // IST, keyed by weekday; missing days are closed
+    slotCapacity: integer('slot_capacity'), // Scheduled orders per delivery slot; null uses appConfig default
+    mockupAutoApprove: boolean('mockup_auto_approve').default(true).notNull(), // Approve mockups when the customer doesn't respond in time
     commissionRate: decimal('commission_rate', { precision: 5, scale: 2 }).default('18'),
+    acceptBreachCount: integer('accept_breach_count').default(0).notNull(), // Orders auto-rejected for missing accept_deadline
+    mockupBreachCount: integer('mockup_breach_count').default(0).notNull(), // Orders flagged for missing mockup_sla
+    rejectionCount: integer('rejection_count').default(0).notNull(), // Orders the vendor rejected
+    qualityScore: decimal('quality_score', { precision: 5, scale: 2 }).default('100').notNull(), // 0-100, see refresh_vendor_quality_score
 
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => ({
@@ -138,6 +147,8 @@ export const products = pgTable('products', {
   manufacturerName: text('manufacturer_name'), // Auto-filled from vendor KYC
   manufacturerAddress: text('manufacturer_address'), // Auto-filled from vendor KYC
   mockupSlaHours: integer('mockup_sla_hours'), // 2, 4, 6, 12, or 24 hours
+  mockupRevisionLimit: integer('mockup_revision_limit'), // Revisions a customer can request per item; null uses appConfig default
+  mockupAutoApprove: boolean('mockup_auto_approve').default(true).notNull(), // Off for items that must wait for the customer
   customizationSchema: jsonb('customization_schema').$type<{
     requiresText?: boolean;
     requiresPhoto?: boolean;
@@ -164,6 +175,22 @@ export const productReviews = pgTable('product_reviews', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Checkouts - orders paid together with one Razorpay payment (split shipments)
+export const checkouts = pgTable('checkouts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  customerId: uuid('customer_id').references(() => users.id).notNull(),
+  total: decimal('total', { precision: 10, scale: 2 }).notNull(),
+  razorpayOrderId: text('razorpay_order_id'),
+  paymentId: text('payment_id'),
+  paymentStatus: text('payment_status').default('pending').notNull(), // pending, completed, failed
+  quoteId: uuid('quote_id'), // Signed checkout quote this checkout was placed from; each quote is used once
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  customerIdIdx: index('checkouts_customer_id_idx').on(table.customerId),
+  quoteIdIdx: uniqueIndex('checkouts_quote_id_key').on(table.quoteId),
+}));
+
 // Orders
 export const orders = pgTable('orders', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -188,6 +215,9 @@ export const orders = pgTable('orders', {
   deliveryFee: decimal('delivery_fee', { precision: 10, scale: 2 }).notNull(),
   platformFee: decimal('platform_fee', { precision: 10, scale: 2 }).default('5'),
   cashbackUsed: decimal('cashback_used', { precision: 10, scale: 2 }).default('0'),
+  couponId: uuid('coupon_id').references(() => coupons.id),
+  couponCode: text('coupon_code'),
+  couponDiscount: decimal('coupon_discount', { precision: 10, scale: 2 }).default('0'),
   total: decimal('total', { precision: 10, scale: 2 }).notNull(),
   deliveryType: deliveryTypeEnum('delivery_type').default('local'),
   deliveryAddress: jsonb('delivery_address').$type<{
@@ -198,8 +228,12 @@ export const orders = pgTable('orders', {
     pincode: string;
   }>().notNull(),
   gstin: text('gstin'),
+  checkoutId: uuid('checkout_id').references(() => checkouts.id), // Parent checkout for split shipments
+  quoteId: uuid('quote_id'), // Signed checkout quote a single order was placed from; split orders use checkouts.quote_id
+  razorpayOrderId: text('razorpay_order_id'), // Razorpay order the payment must be for; checkout's for split orders
   paymentId: text('payment_id'), // Razorpay payment ID
-  paymentStatus: text('payment_status').default('pending'), // pending, completed, failed
+  paymentStatus: text('payment_status').default('pending'), // pending, completed, failed, partially_refunded, refunded
+  refundedAmount: decimal('refunded_amount', { precision: 10, scale: 2 }).default('0'), // Sum of processed refunds
   razorpayRouteId: text('razorpay_route_id'), // For split payment
   commissionAmount: decimal('commission_amount', { precision: 10, scale: 2 }),
   vendorAmount: decimal('vendor_amount', { precision: 10, scale: 2 }),
@@ -207,13 +241,35 @@ export const orders = pgTable('orders', {
   mockupApprovedAt: timestamp('mockup_approved_at'),
   acceptDeadline: timestamp('accept_deadline'), // 5 min countdown
   mockupSla: timestamp('mockup_sla'), // 2 hours from accept
+  mockupSlaBreachedAt: timestamp('mockup_sla_breached_at'), // Flagged by the SLA worker; reset when the mockup clock restarts
+  mockupReviewDueAt: timestamp('mockup_review_due_at'), // Auto-approve time; null when the vendor or a product opted out
+  mockupReminderAt: timestamp('mockup_reminder_at'), // Next review reminder to the customer
+  mockupRemindersSent: integer('mockup_reminders_sent').default(0).notNull(),
   revisionRequest: jsonb('revision_request').$type<{
     productId: string;
     feedback: string;
     requestedAt: string;
   }>(),
+  courierSelection: jsonb('courier_selection').$type<{
+    provider: string;
+    source: string; // rate_shopping, single_courier, vendor_override, city_override
+    weight: number; // kg
+    quotes: Array<{
+      provider: string;
+      serviceable: boolean;
+      price: number | null;
+      estimatedDays: number | null;
+      score: number | null;
+      reason?: string;
+    }>;
+    decidedAt: string;
+  }>(), // intercity rate shopping decision for the latest booking
   deliveryPartnerId: uuid('delivery_partner_id'),
   deliveryPartnerPhone: text('delivery_partner_phone'),
+  deliverySlotId: text('delivery_slot_id'), // appConfig.delivery.scheduled.slots id
+  deliverySlotStart: timestamp('delivery_slot_start'), // Scheduled delivery window, claimed via claim_delivery_slot()
+  deliverySlotEnd: timestamp('delivery_slot_end'),
+  isSurprise: boolean('is_surprise').default(false), // Midnight surprise: courier doesn't call the recipient, sender is the contact
   estimatedDelivery: timestamp('estimated_delivery'),
   deliveredAt: timestamp('delivered_at'),
   createdAt: timestamp('created_at').defaultNow(),
@@ -224,6 +280,183 @@ export const orders = pgTable('orders', {
   statusIdx: index('orders_status_idx').on(table.status),
   customerIdStatusIdx: index('orders_customer_id_status_idx').on(table.customerId, table.status),
   vendorIdStatusIdx: index('orders_vendor_id_status_idx').on(table.vendorId, table.status),
+  vendorIdDeliverySlotStartIdx: index('orders_vendor_id_delivery_slot_start_idx').on(table.vendorId, table.deliverySlotStart),
+  quoteIdIdx: uniqueIndex('orders_quote_id_key').on(table.quoteId),
+  checkoutIdIdx: index('orders_checkout_id_idx').on(table.checkoutId),
+}));
+
+// Order status history (audit trail for every status transition)
+export const orderStatusHistory = pgTable('order_status_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').references(() => orders.id).notNull(),
+  fromStatus: orderStatusEnum('from_status'), // null for the initial status
+  toStatus: orderStatusEnum('to_status').notNull(),
+  actorId: uuid('actor_id').references(() => users.id), // null for system transitions
+  actorRole: text('actor_role').notNull(), // customer, vendor, admin, system
+  reason: text('reason'),
+  metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  orderIdIdx: index('order_status_history_order_id_idx').on(table.orderId),
+  orderIdCreatedAtIdx: index('order_status_history_order_id_created_at_idx').on(table.orderId, table.createdAt),
+}));
+
+// Coupons (promo codes, admin-managed)
+export const coupons = pgTable('coupons', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  code: text('code').notNull().unique(), // Stored uppercase, e.g. WELCOME100
+  description: text('description'),
+  discountType: text('discount_type').notNull(), // 'flat' | 'percentage'
+  discountValue: decimal('discount_value', { precision: 10, scale: 2 }).notNull(), // ₹ for flat, % for percentage
+  minOrderValue: decimal('min_order_value', { precision: 10, scale: 2 }).default('0'), // Checked against item total
+  maxDiscount: decimal('max_discount', { precision: 10, scale: 2 }), // Cap for percentage coupons, null = no cap
+  usageLimit: integer('usage_limit'), // Total redemptions across all users, null = unlimited
+  perUserLimit: integer('per_user_limit').default(1), // Redemptions per customer, null = unlimited
+  usageCount: integer('usage_count').default(0).notNull(),
+  vendorId: uuid('vendor_id').references(() => vendors.id), // Only valid for this vendor's orders
+  category: text('category'), // Discount applies to items in this product category only
+  firstOrderOnly: boolean('first_order_only').default(false),
+  startsAt: timestamp('starts_at'),
+  expiresAt: timestamp('expires_at'),
+  isActive: boolean('is_active').default(true),
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  vendorIdIdx: index('coupons_vendor_id_idx').on(table.vendorId),
+}));
+
+// Coupon redemptions (one per order that used a coupon)
+export const couponRedemptions = pgTable('coupon_redemptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  couponId: uuid('coupon_id').references(() => coupons.id).notNull(),
+  orderId: uuid('order_id').references(() => orders.id).notNull().unique(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  discountAmount: decimal('discount_amount', { precision: 10, scale: 2 }).notNull(),
+  status: text('status').default('redeemed'), // redeemed, reversed
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  couponIdUserIdIdx: index('coupon_redemptions_coupon_id_user_id_idx').on(table.couponId, table.userId),
+}));
+
+// Refunds (Razorpay refunds against an order's payment, with the matching Route transfer reversal)
+export const refunds = pgTable('refunds', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').references(() => orders.id).notNull(),
+  paymentId: text('payment_id').notNull(), // Razorpay payment ID
+  razorpayRefundId: text('razorpay_refund_id').unique(), // null until Razorpay accepts the request
+  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+  status: text('status').default('pending').notNull(), // pending, processed, failed
+  reason: text('reason'),
+  source: text('source').notNull(), // cancellation, dispute, admin, razorpay
+  disputeId: uuid('dispute_id').references(() => disputes.id),
+  initiatedBy: uuid('initiated_by').references(() => users.id), // null for system refunds
+  transferReversalId: text('transfer_reversal_id'),
+  transferReversalAmount: decimal('transfer_reversal_amount', { precision: 10, scale: 2 }),
+  failureReason: text('failure_reason'),
+  reverseVendorTransfer: boolean('reverse_vendor_transfer').default(true).notNull(), // false when the platform absorbs the refund
+  processedAt: timestamp('processed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  orderIdIdx: index('refunds_order_id_idx').on(table.orderId),
+}));
+
+// Webhook deliveries, recorded by provider event ID for exactly-once processing
+export const webhookEvents = pgTable('webhook_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  provider: text('provider').notNull(), // 'razorpay' | 'nimbus' | 'simulated'
+  eventId: text('event_id').notNull(), // x-razorpay-event-id for Razorpay
+  eventType: text('event_type').notNull(),
+  entityId: text('entity_id'), // payment / refund ID the event is about
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  status: text('status').default('pending').notNull(), // pending, processing, processed, ignored, failed
+  attempts: integer('attempts').default(0).notNull(),
+  lastError: text('last_error'),
+  eventCreatedAt: timestamp('event_created_at'), // provider's timestamp, for ordering
+  receivedAt: timestamp('received_at').defaultNow(),
+  processedAt: timestamp('processed_at'),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  providerEventIdIdx: uniqueIndex('webhook_events_provider_event_id_key').on(table.provider, table.eventId),
+  statusIdx: index('webhook_events_status_idx').on(table.status, table.receivedAt),
+}));
+
+// Deliveries (courier bookings, updated by courier status webhooks)
+export const deliveries = pgTable('deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').references(() => orders.id).notNull(),
+  provider: text('provider').default('nimbus').notNull(), // 'nimbus' | 'simulated'
+  providerDeliveryId: text('provider_delivery_id'), // null until the courier accepts the booking
+  awb: text('awb'),
+  trackingUrl: text('tracking_url'),
+  status: text('status').default('pending').notNull(), // pending, booked, assigned, picked_up, in_transit, delivered, delivery_failed, reattempt_scheduled, returned_to_origin, failed, cancelled
+  riderName: text('rider_name'),
+  riderPhone: text('rider_phone'),
+  estimatedTime: text('estimated_time'), // courier's estimate, e.g. '30-45 min'
+  events: jsonb('events').$type<Array<{
+    status: string;
+    at: string;
+    location?: string | null;
+    note?: string | null;
+  }>>().default([]).notNull(),
+  failureReason: text('failure_reason'),
+  failedAttempts: integer('failed_attempts').default(0).notNull(),
+  scheduledSlotStart: timestamp('scheduled_slot_start'), // slot picked for the next attempt
+  scheduledSlotEnd: timestamp('scheduled_slot_end'),
+  cancellationReason: text('cancellation_reason'),
+  bookedAt: timestamp('booked_at'),
+  pickedUpAt: timestamp('picked_up_at'),
+  deliveredAt: timestamp('delivered_at'),
+  cancelledAt: timestamp('cancelled_at'),
+  returnedAt: timestamp('returned_at'), // returned to origin (RTO)
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  orderIdIdx: index('deliveries_order_id_idx').on(table.orderId),
+  providerDeliveryIdIdx: index('deliveries_provider_delivery_id_idx').on(table.provider, table.providerDeliveryId),
+  awbIdx: index('deliveries_awb_idx').on(table.awb),
+}));
+
+// Delivery zones (serviceability polygons per city; vendors.zones lists zone names)
+export const deliveryZones = pgTable('delivery_zones', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  city: text('city').notNull(),
+  name: text('name').notNull(), // unique per city (case-insensitive)
+  geometry: jsonb('geometry').$type<
+    | { type: 'Polygon'; coordinates: Array<Array<[number, number]>> }
+    | { type: 'MultiPolygon'; coordinates: Array<Array<Array<[number, number]>>> }
+  >().notNull(), // GeoJSON, [lng, lat] positions
+  isActive: boolean('is_active').default(true).notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Courier overrides (admin-pinned couriers for intercity bookings, per vendor or destination city)
+export const courierOverrides = pgTable('courier_overrides', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  vendorId: uuid('vendor_id').references(() => vendors.id, { onDelete: 'cascade' }),
+  city: text('city'), // exactly one of vendor_id / city is set
+  provider: text('provider').notNull(), // 'nimbus' | 'simulated'
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Simulated courier bookings and the status callbacks still to play back
+export const simulatedShipments = pgTable('simulated_shipments', {
+  deliveryId: text('delivery_id').primaryKey(), // deliveries.provider_delivery_id
+  awb: text('awb'),
+  scenario: text('scenario').notNull(),
+  status: text('status').default('booked').notNull(),
+  steps: jsonb('steps').default([]).notNull(), // [{ status, remarks? }]
+  callbacks: integer('callbacks').default(0).notNull(),
+  nextStepAt: timestamp('next_step_at'), // null once nothing is left to play
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  nextStepAtIdx: index('simulated_shipments_next_step_at_idx').on(table.nextStepAt),
 }));
 
 // Notifications (Supabase-compatible)
@@ -247,27 +480,62 @@ export const notifications = pgTable('notifications', {
 export const wallet = pgTable('wallet', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').references(() => users.id).notNull().unique(),
-  balance: decimal('balance', { precision: 10, scale: 2 }).default('0'),
+  balance: decimal('balance', { precision: 10, scale: 2 }).default('0'), // Only changed by post_wallet_entry()
   createdAt: timestamp('created_at').defaultNow(),
+  heldBalance: decimal('held_balance', { precision: 10, scale: 2 }).default('0').notNull(), // Cashback held for unpaid orders
+  updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Wallet ledger - rows are written with the balance change by post_wallet_entry()
 export const walletTransactions = pgTable('wallet_transactions', {
   id: uuid('id').primaryKey().defaultRandom(),
   walletId: uuid('wallet_id').references(() => wallet.id).notNull(),
-  type: text('type').notNull(), // credit, debit
+  type: text('type').notNull(), // credit, debit, hold, release, capture
   amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
   description: text('description'),
   orderId: uuid('order_id').references(() => orders.id),
+  idempotencyKey: text('idempotency_key').unique(), // e.g. cashback_credit:<orderId>
+  entryType: text('entry_type'), // cashback_credit, cashback_reserve, cashback_restore, cashback_clawback, ...
+  balanceAfter: decimal('balance_after', { precision: 10, scale: 2 }),
+  metadata: jsonb('metadata').$type<Record<string, unknown>>(),
   // Removed expiresAt - cashback has no expiry
   createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  walletIdCreatedAtIdx: index('wallet_transactions_wallet_id_created_at_idx').on(table.walletId, table.createdAt),
+  orderIdIdx: index('wallet_transactions_order_id_idx').on(table.orderId),
+}));
+
+// Wallet reconciliation runs (stored balance vs. sum of ledger entries)
+export const walletReconciliationRuns = pgTable('wallet_reconciliation_runs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  triggeredBy: uuid('triggered_by').references(() => users.id), // null for scheduled runs
+  walletsChecked: integer('wallets_checked').default(0).notNull(),
+  discrepancyCount: integer('discrepancy_count').default(0).notNull(),
+  totalDifference: decimal('total_difference', { precision: 12, scale: 2 }).default('0').notNull(),
+  discrepancies: jsonb('discrepancies').$type<Array<{
+    walletId: string;
+    userId: string;
+    storedBalance: number;
+    ledgerBalance: number;
+    difference: number;
+    storedHeldBalance: number;
+    ledgerHeldBalance: number;
+    heldDifference: number;
+    transactionCount: number;
+  }>>().notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
 });
 
 // Cashback Configuration (global, category, vendor overrides)
 export const cashbackConfig = pgTable('cashback_config', {
   id: uuid('id').primaryKey().defaultRandom(),
   type: text('type').notNull(), // 'global' | 'category' | 'vendor'
-  entityId: uuid('entity_id'), // null for global, category_id or vendor_id for overrides
+  entityId: text('entity_id'), // null for global, products.category or vendor_id for overrides
+  name: text('name'), // Campaign label shown to admins
   percentage: decimal('percentage', { precision: 5, scale: 2 }).notNull(), // 10.00 for 10%
+  startsAt: timestamp('starts_at'), // null = always on
+  endsAt: timestamp('ends_at'),
+  maxCashbackPerOrder: decimal('max_cashback_per_order', { precision: 10, scale: 2 }), // null = uncapped
   isActive: boolean('is_active').default(true),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
@@ -277,18 +545,80 @@ export const cashbackConfig = pgTable('cashback_config', {
 export const disputes = pgTable('disputes', {
   id: uuid('id').primaryKey().defaultRandom(),
   orderId: uuid('order_id').references(() => orders.id).notNull(),
+  customerId: uuid('customer_id').references(() => users.id),
+  vendorId: uuid('vendor_id').references(() => vendors.id),
   type: text('type').notNull(), // wrong_product, damaged, quality, other
   customerClaim: text('customer_claim').notNull(),
   customerPhotos: jsonb('customer_photos').$type<string[]>(),
   vendorResponse: text('vendor_response'),
-  status: text('status').default('open'), // open, resolved, closed
+  vendorRespondedAt: timestamp('vendor_responded_at'),
+  status: text('status').default('open'), // open, under_review, resolved, closed
   resolution: text('resolution'), // replacement, refund, closed
+  resolutionNotes: text('resolution_notes'),
   refundAmount: decimal('refund_amount', { precision: 10, scale: 2 }),
+  refundId: uuid('refund_id').references((): AnyPgColumn => refunds.id),
   deductedFromVendor: boolean('deducted_from_vendor').default(false),
+  vendorDeductionAmount: decimal('vendor_deduction_amount', { precision: 10, scale: 2 }),
+  transferReversalId: text('transfer_reversal_id'), // Route reversal for replacement deductions
   resolvedBy: uuid('resolved_by').references(() => users.id),
   resolvedAt: timestamp('resolved_at'),
   createdAt: timestamp('created_at').defaultNow(),
-});
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  orderIdIdx: index('disputes_order_id_idx').on(table.orderId),
+  vendorIdIdx: index('disputes_vendor_id_idx').on(table.vendorId),
+}));
+
+// SLA breaches (missed accept / mockup deadlines, recorded by the SLA worker)
+export const slaBreaches = pgTable('sla_breaches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').references(() => orders.id, { onDelete: 'cascade' }).notNull(),
+  vendorId: uuid('vendor_id').references(() => vendors.id).notNull(),
+  kind: text('kind').notNull(), // accept, mockup
+  deadline: timestamp('deadline').notNull(),
+  action: text('action').notNull(), // auto_rejected, flagged
+  detectedAt: timestamp('detected_at').defaultNow(),
+}, (table) => ({
+  orderIdKindIdx: uniqueIndex('sla_breaches_order_id_kind_key').on(table.orderId, table.kind),
+  vendorIdDetectedAtIdx: index('sla_breaches_vendor_id_detected_at_idx').on(table.vendorId, table.detectedAt),
+}));
+
+// Order rejections (vendor declined a paid order with a structured reason)
+export const orderRejections = pgTable('order_rejections', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').references(() => orders.id, { onDelete: 'cascade' }).notNull(),
+  vendorId: uuid('vendor_id').references(() => vendors.id).notNull(),
+  reason: text('reason').notNull(), // out_of_stock, cannot_personalize, capacity, other
+  note: text('note'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  orderIdIdx: uniqueIndex('order_rejections_order_id_key').on(table.orderId),
+  vendorIdCreatedAtIdx: index('order_rejections_vendor_id_created_at_idx').on(table.vendorId, table.createdAt),
+}));
+
+// Mockup revisions (numbered versions per order item and the customer's decision on each)
+export const mockupRevisions = pgTable('mockup_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').references(() => orders.id, { onDelete: 'cascade' }).notNull(),
+  productId: uuid('product_id').references(() => products.id).notNull(),
+  version: integer('version').notNull(),
+  images: jsonb('images').$type<string[]>().default([]).notNull(),
+  artisanNote: text('artisan_note'),
+  uploadedBy: uuid('uploaded_by').references(() => users.id),
+  decision: text('decision'), // approved, rejected; null while awaiting the customer
+  customerFeedback: text('customer_feedback'),
+  annotations: jsonb('annotations').$type<Array<{
+    imageIndex: number;
+    x: number; // 0-1 fraction of the image width
+    y: number; // 0-1 fraction of the image height
+    comment: string;
+  }>>().default([]).notNull(),
+  decidedBy: uuid('decided_by').references(() => users.id), // null when decided by the system
+  decidedAt: timestamp('decided_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  orderProductVersionIdx: uniqueIndex('mockup_revisions_order_product_version_key').on(table.orderId, table.productId, table.version),
+}));
 
 // NOTE: OTP Codes table removed - we use Supabase Auth for OTP authentication
 // This eliminates legacy code and maximizes Supabase usage (Swiggy Dec 2025 pattern)
@@ -338,5 +668,70 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
   customer: one(users, { fields: [orders.customerId], references: [users.id] }),
   vendor: one(vendors, { fields: [orders.vendorId], references: [vendors.id] }),
   walletTransactions: many(walletTransactions),
+  statusHistory: many(orderStatusHistory),
+  coupon: one(coupons, { fields: [orders.couponId], references: [coupons.id] }),
+  checkout: one(checkouts, { fields: [orders.checkoutId], references: [checkouts.id] }),
+  refunds: many(refunds),
+  disputes: many(disputes),
+  deliveries: many(deliveries),
+  slaBreaches: many(slaBreaches),
+  rejection: one(orderRejections),
+  mockupRevisions: many(mockupRevisions),
+}));
+
+export const checkoutsRelations = relations(checkouts, ({ one, many }) => ({
+  customer: one(users, { fields: [checkouts.customerId], references: [users.id] }),
+  orders: many(orders),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, { fields: [orderStatusHistory.orderId], references: [orders.id] }),
+  actor: one(users, { fields: [orderStatusHistory.actorId], references: [users.id] }),
+}));
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  order: one(orders, { fields: [refunds.orderId], references: [orders.id] }),
+  dispute: one(disputes, { fields: [refunds.disputeId], references: [disputes.id] }),
+}));
+
+export const disputesRelations = relations(disputes, ({ one }) => ({
+  order: one(orders, { fields: [disputes.orderId], references: [orders.id] }),
+  customer: one(users, { fields: [disputes.customerId], references: [users.id] }),
+  vendor: one(vendors, { fields: [disputes.vendorId], references: [vendors.id] }),
+  refund: one(refunds, { fields: [disputes.refundId], references: [refunds.id] }),
+}));
+
+export const slaBreachesRelations = relations(slaBreaches, ({ one }) => ({
+  order: one(orders, { fields: [slaBreaches.orderId], references: [orders.id] }),
+  vendor: one(vendors, { fields: [slaBreaches.vendorId], references: [vendors.id] }),
+}));
+
+export const orderRejectionsRelations = relations(orderRejections, ({ one }) => ({
+  order: one(orders, { fields: [orderRejections.orderId], references: [orders.id] }),
+  vendor: one(vendors, { fields: [orderRejections.vendorId], references: [vendors.id] }),
+}));
+
+export const mockupRevisionsRelations = relations(mockupRevisions, ({ one }) => ({
+  order: one(orders, { fields: [mockupRevisions.orderId], references: [orders.id] }),
+  product: one(products, { fields: [mockupRevisions.productId], references: [products.id] }),
+}));
+
+export const deliveriesRelations = relations(deliveries, ({ one }) => ({
+  order: one(orders, { fields: [deliveries.orderId], references: [orders.id] }),
+}));
+
+export const courierOverridesRelations = relations(courierOverrides, ({ one }) => ({
+  vendor: one(vendors, { fields: [courierOverrides.vendorId], references: [vendors.id] }),
+}));
+
+export const couponsRelations = relations(coupons, ({ one, many }) => ({
+  vendor: one(vendors, { fields: [coupons.vendorId], references: [vendors.id] }),
+  redemptions: many(couponRedemptions),
+}));
+
+export const couponRedemptionsRelations = relations(couponRedemptions, ({ one }) => ({
+  coupon: one(coupons, { fields: [couponRedemptions.couponId], references: [coupons.id] }),
+  order: one(orders, { fields: [couponRedemptions.orderId], references: [orders.id] }),
+  user: one(users, { fields: [couponRedemptions.userId], references: [users.id] }),
 }));
 
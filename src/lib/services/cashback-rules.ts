@@ -0,0 +1,192 @@
+/**
+ * Cashback rules
+ * Resolves the cashback_config rule for each order line (vendor > category > global)
+ * and works out how much cashback an order earns
+ */
+
+import { appConfig } from "@/lib/config/app";
+import { getSupabaseServiceClient } from "@/lib/supabase/client";
+import { logger } from "@/lib/utils/logger";
+import { isEligibleForCashback } from "@/lib/utils/cashback";
+
+export type CashbackRuleType = "global" | "category" | "vendor";
+
+export interface CashbackRule {
+  id: string;
+  type: CashbackRuleType;
+  entityId: string | null;
+  name: string | null;
+  percentage: number; // 10 for 10%
+  startsAt: string | null;
+  endsAt: string | null;
+  maxCashbackPerOrder: number | null;
+  isActive: boolean;
+}
+
+export interface CashbackLineInput {
+  productId: string;
+  category: string;
+  lineTotal: number; // amount the customer paid for the line
+}
+
+export interface CashbackLineResult extends CashbackLineInput {
+  ruleId: string | null; // null when the app default applied
+  percentage: number;
+  cashback: number;
+}
+
+export interface OrderCashbackResult {
+  lines: CashbackLineResult[];
+  total: number;
+}
+
+export const CASHBACK_RULE_COLUMNS =
+  "id, type, entity_id, name, percentage, starts_at, ends_at, max_cashback_per_order, is_active";
+
+const RULE_PRIORITY: Record<CashbackRuleType, number> = {
+  vendor: 1,
+  category: 2,
+  global: 3,
+};
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function mapCashbackRule(row: Record<string, unknown>): CashbackRule {
+  return {
+    id: row.id as string,
+    type: row.type as CashbackRuleType,
+    entityId: (row.entity_id as string | null) ?? null,
+    name: (row.name as string | null) ?? null,
+    percentage: toNumber(row.percentage as string) ?? 0,
+    startsAt: (row.starts_at as string | null) ?? null,
+    endsAt: (row.ends_at as string | null) ?? null,
+    maxCashbackPerOrder: toNumber(row.max_cashback_per_order as string | null),
+    isActive: Boolean(row.is_active),
+  };
+}
+
+function isCampaign(rule: CashbackRule): boolean {
+  return Boolean(rule.startsAt || rule.endsAt);
+}
+
+function isRuleLive(rule: CashbackRule, at: Date): boolean {
+  if (!rule.isActive) return false;
+  if (rule.startsAt && new Date(rule.startsAt) > at) return false;
+  if (rule.endsAt && new Date(rule.endsAt) <= at) return false;
+  return true;
+}
+
+/**
+ * Active rules in effect at a point in time (campaigns outside their window are skipped)
+ */
+export async function getLiveCashbackRules(at: Date = new Date()): Promise<CashbackRule[]> {
+  const supabase = getSupabaseServiceClient();
+  if (!supabase) {
+    logger.warn("[Cashback Rules] Supabase client not available, using app default");
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("cashback_config")
+    .select(CASHBACK_RULE_COLUMNS)
+    .eq("is_active", true);
+
+  if (error) {
+    logger.error("[Cashback Rules] Failed to fetch rules", error);
+    throw new Error("Failed to fetch cashback rules");
+  }
+
+  return (data || []).map(mapCashbackRule).filter((rule) => isRuleLive(rule, at));
+}
+
+/**
+ * Most specific rule for a line: vendor > category > global
+ * At the same level a running campaign beats an always-on rule, then the higher rate wins
+ */
+export function resolveCashbackRule(
+  rules: CashbackRule[],
+  target: { vendorId: string; category?: string | null }
+): CashbackRule | null {
+  const matching = rules.filter((rule) =>
+    rule.type === "global"
+      ? true
+      : rule.type === "vendor"
+        ? rule.entityId === target.vendorId
+        : Boolean(target.category) && rule.entityId === target.category
+  );
+
+  matching.sort((a, b) =>
+    RULE_PRIORITY[a.type] - RULE_PRIORITY[b.type] ||
+    Number(isCampaign(b)) - Number(isCampaign(a)) ||
+    b.percentage - a.percentage
+  );
+
+  return matching[0] ?? null;
+}
+
+/**
+ * Effective percentage for a vendor/category, falling back to appConfig.cashback.rate
+ */
+export function getEffectivePercentage(
+  rules: CashbackRule[],
+  target: { vendorId?: string | null; category?: string | null }
+): number {
+  const rule = resolveCashbackRule(rules, { vendorId: target.vendorId ?? "", category: target.category });
+  return rule ? rule.percentage : appConfig.cashback.rate * 100;
+}
+
+/**
+ * Cashback earned by an order, line by line
+ * Each rule's share of the order is limited by its max_cashback_per_order
+ */
+export function calculateOrderCashback(params: {
+  rules: CashbackRule[];
+  vendorId: string;
+  orderTotal: number;
+  lines: CashbackLineInput[];
+}): OrderCashbackResult {
+  if (!isEligibleForCashback(params.orderTotal)) {
+    return {
+      lines: params.lines.map((line) => ({ ...line, ruleId: null, percentage: 0, cashback: 0 })),
+      total: 0,
+    };
+  }
+
+  const lines: CashbackLineResult[] = params.lines.map((line) => {
+    const rule = resolveCashbackRule(params.rules, { vendorId: params.vendorId, category: line.category });
+    const percentage = rule ? rule.percentage : appConfig.cashback.rate * 100;
+    return {
+      ...line,
+      ruleId: rule?.id ?? null,
+      percentage,
+      cashback: roundCurrency((line.lineTotal * percentage) / 100),
+    };
+  });
+
+  // Apply per-rule caps, trimming the rule's lines in proportion
+  for (const rule of params.rules) {
+    if (rule.maxCashbackPerOrder === null) continue;
+
+    const ruleLines = lines.filter((line) => line.ruleId === rule.id);
+    const earned = ruleLines.reduce((sum, line) => sum + line.cashback, 0);
+    if (earned <= rule.maxCashbackPerOrder) continue;
+
+    const factor = rule.maxCashbackPerOrder / earned;
+    for (const line of ruleLines) {
+      line.cashback = roundCurrency(line.cashback * factor);
+    }
+  }
+
+  return {
+    lines,
+    total: roundCurrency(lines.reduce((sum, line) => sum + line.cashback, 0)),
+  };
+}
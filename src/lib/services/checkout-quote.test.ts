@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { signQuoteToken, verifyQuoteToken, verifySplitQuoteToken } from "./checkout-quote";
+import type { CheckoutQuotePayload, SplitCheckoutQuotePayload } from "./checkout-quote";
+import type { OrderQuote } from "./order-pricing";
+
+const CUSTOMER_ID = "customer-1";
+const address = { name: "Asha", phone: "+919000000001", address: "12 MG Road", city: "Pune", pincode: "411001" };
+const orderQuote = { total: 1249 } as unknown as OrderQuote;
+
+function payload(overrides: Partial<CheckoutQuotePayload> = {}): CheckoutQuotePayload {
+  return {
+    id: "quote-1",
+    customerId: CUSTOMER_ID,
+    addressId: "address-1",
+    deliveryAddress: address,
+    quote: orderQuote,
+    issuedAt: Date.now(),
+    expiresAt: Date.now() + 60_000,
+    ...overrides,
+  };
+}
+
+const splitPayload: SplitCheckoutQuotePayload = {
+  id: "quote-2",
+  customerId: CUSTOMER_ID,
+  shipments: [{ addressId: "address-1", deliveryAddress: address, quote: orderQuote }],
+  total: 1249,
+  issuedAt: Date.now(),
+  expiresAt: Date.now() + 60_000,
+};
+
+function expectQuoteError(fn: () => unknown, code: string, status: number) {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toMatchObject({ code, status });
+    return;
+  }
+  throw new Error(`Expected ${code}`);
+}
+
+describe("quote tokens", () => {
+  it("round-trips a signed payload", () => {
+    const quote = payload();
+    expect(verifyQuoteToken(signQuoteToken(quote), CUSTOMER_ID)).toEqual(quote);
+  });
+
+  it("rejects a token whose payload was changed", () => {
+    const [, signature] = signQuoteToken(payload()).split(".");
+    const tampered = Buffer.from(JSON.stringify(payload({ quote: { total: 1 } as unknown as OrderQuote }))).toString("base64url");
+    expectQuoteError(() => verifyQuoteToken(`${tampered}.${signature}`, CUSTOMER_ID), "QUOTE_INVALID", 400);
+  });
+
+  it("rejects malformed tokens", () => {
+    expectQuoteError(() => verifyQuoteToken("not-a-token", CUSTOMER_ID), "QUOTE_INVALID", 400);
+    expectQuoteError(() => verifyQuoteToken(`${signQuoteToken(payload())}.extra`, CUSTOMER_ID), "QUOTE_INVALID", 400);
+  });
+
+  it("rejects expired tokens", () => {
+    const token = signQuoteToken(payload({ expiresAt: Date.now() - 1 }));
+    expectQuoteError(() => verifyQuoteToken(token, CUSTOMER_ID), "QUOTE_EXPIRED", 409);
+  });
+
+  it("rejects another customer's token", () => {
+    expectQuoteError(() => verifyQuoteToken(signQuoteToken(payload()), "customer-2"), "QUOTE_FORBIDDEN", 403);
+  });
+
+  it("keeps single and split quotes apart", () => {
+    const splitToken = signQuoteToken(splitPayload);
+    expect(verifySplitQuoteToken(splitToken, CUSTOMER_ID)).toEqual(splitPayload);
+    expectQuoteError(() => verifyQuoteToken(splitToken, CUSTOMER_ID), "QUOTE_INVALID", 400);
+    expectQuoteError(() => verifySplitQuoteToken(signQuoteToken(payload()), CUSTOMER_ID), "QUOTE_INVALID", 400);
+  });
+});
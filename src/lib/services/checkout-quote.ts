@@ -0,0 +1,359 @@
+/**
+ * Signed checkout quotes
+ * The cart gets an itemised server quote plus a short-lived HMAC-signed token;
+ * order creation only accepts a valid token, so the charged amount is always the quoted one.
+ * Split quotes price one shipment per recipient address under a single token; grouped
+ * quotes do the same for a multi-vendor cart, with one shipment per vendor.
+ */
+
+import crypto from "crypto";
+import { appConfig } from "@/lib/config/app";
+import { env } from "@/lib/config/env";
+import { timingSafeEqual } from "@/lib/utils/crypto-safe";
+import { requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import {
+  buildOrderQuote,
+  OrderPricingError,
+  type DeliveryOption,
+  type DeliverySpeed,
+  type OrderQuote,
+  type QuoteItemInput,
+} from "@/lib/services/order-pricing";
+
+export interface QuoteDeliveryAddress {
+  name: string;
+  phone: string;
+  address: string;
+  city: string;
+  pincode: string;
+}
+
+export interface CheckoutQuotePayload {
+  id: string;
+  customerId: string;
+  addressId: string;
+  deliveryAddress: QuoteDeliveryAddress;
+  quote: OrderQuote;
+  issuedAt: number; // epoch ms
+  expiresAt: number; // epoch ms
+}
+
+export interface CreateCheckoutQuoteParams {
+  customerId: string;
+  vendorId: string;
+  items: QuoteItemInput[];
+  addressId: string;
+  deliverySpeed?: DeliverySpeed;
+  deliverySlot?: { date: string; slot: string };
+  useCashback?: boolean;
+  couponCode?: string;
+}
+
+export interface CheckoutQuoteResult {
+  quoteToken: string;
+  expiresAt: string;
+  deliveryAddress: QuoteDeliveryAddress;
+  deliveryOptions: Record<DeliveryOption, number>; // Fee for each option at the resolved delivery type
+  quote: OrderQuote;
+}
+
+export interface SplitCheckoutShipment {
+  addressId: string;
+  deliveryAddress: QuoteDeliveryAddress;
+  quote: OrderQuote;
+}
+
+export interface SplitCheckoutQuotePayload {
+  id: string;
+  customerId: string;
+  shipments: SplitCheckoutShipment[];
+  total: number;
+  issuedAt: number; // epoch ms
+  expiresAt: number; // epoch ms
+}
+
+export interface CreateSplitCheckoutQuoteParams {
+  customerId: string;
+  vendorId: string;
+  recipients: Array<{ addressId: string; items: QuoteItemInput[] }>;
+  deliverySpeed?: DeliverySpeed;
+  useCashback?: boolean;
+}
+
+export interface CreateGroupedCheckoutQuoteParams {
+  customerId: string;
+  addressId: string;
+  vendors: Array<{ vendorId: string; items: QuoteItemInput[] }>;
+  deliverySpeed?: DeliverySpeed;
+  useCashback?: boolean;
+}
+
+export interface SplitCheckoutQuoteResult {
+  quoteToken: string;
+  expiresAt: string;
+  shipments: SplitCheckoutShipment[];
+  itemTotal: number;
+  deliveryFee: number;
+  platformFee: number;
+  cashbackUsed: number;
+  total: number;
+}
+
+function getSigningSecret(): string {
+  const secret = env.CHECKOUT_QUOTE_SECRET;
+  if (!secret) {
+    logger.error("[Checkout Quote] CHECKOUT_QUOTE_SECRET is not configured");
+    throw new OrderPricingError("Checkout is temporarily unavailable", "QUOTE_SIGNING_UNAVAILABLE", 503);
+  }
+  return secret;
+}
+
+function sign(encodedPayload: string): string {
+  return crypto.createHmac("sha256", getSigningSecret()).update(encodedPayload).digest("hex");
+}
+
+/**
+ * Sign a quote payload as `<base64url json>.<hex hmac>`
+ */
+export function signQuoteToken(payload: CheckoutQuotePayload | SplitCheckoutQuotePayload): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Check a token's signature, expiry and owner and return its payload
+ */
+function decodeQuoteToken(token: string, customerId: string): CheckoutQuotePayload | SplitCheckoutQuotePayload {
+  const [encodedPayload, signature, ...rest] = token.split(".");
+  if (!encodedPayload || !signature || rest.length > 0) {
+    throw new OrderPricingError("Invalid checkout quote", "QUOTE_INVALID");
+  }
+
+  if (!timingSafeEqual(signature, sign(encodedPayload))) {
+    throw new OrderPricingError("Invalid checkout quote", "QUOTE_INVALID");
+  }
+
+  let payload: CheckoutQuotePayload | SplitCheckoutQuotePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  } catch {
+    throw new OrderPricingError("Invalid checkout quote", "QUOTE_INVALID");
+  }
+
+  if (typeof payload?.expiresAt !== "number" || payload.expiresAt <= Date.now()) {
+    throw new OrderPricingError("Your checkout quote has expired. Please review your order again.", "QUOTE_EXPIRED", 409);
+  }
+
+  if (payload.customerId !== customerId) {
+    throw new OrderPricingError("This checkout quote belongs to another account", "QUOTE_FORBIDDEN", 403);
+  }
+
+  return payload;
+}
+
+/**
+ * Verify a quote token's signature, expiry and owner
+ * Throws OrderPricingError (QUOTE_INVALID, QUOTE_EXPIRED, QUOTE_FORBIDDEN)
+ */
+export function verifyQuoteToken(token: string, customerId: string): CheckoutQuotePayload {
+  const payload = decodeQuoteToken(token, customerId);
+  if (!("quote" in payload)) {
+    throw new OrderPricingError("Invalid checkout quote", "QUOTE_INVALID");
+  }
+  return payload;
+}
+
+/**
+ * Verify a split quote token; same errors as verifyQuoteToken
+ */
+export function verifySplitQuoteToken(token: string, customerId: string): SplitCheckoutQuotePayload {
+  const payload = decodeQuoteToken(token, customerId);
+  if (!("shipments" in payload) || !Array.isArray(payload.shipments)) {
+    throw new OrderPricingError("Invalid checkout quote", "QUOTE_INVALID");
+  }
+  return payload;
+}
+
+/**
+ * A customer's saved address, as priced and as written on the order
+ */
+async function getQuoteAddress(customerId: string, addressId: string) {
+  const supabase = requireServiceClient(OrderPricingError);
+
+  const { data: address, error: addressError } = await supabase
+    .from("addresses")
+    .select("id, recipient_name, phone, address, city, pincode, lat, lng")
+    .eq("id", addressId)
+    .eq("user_id", customerId)
+    .maybeSingle();
+
+  if (addressError) {
+    logger.error("[Checkout Quote] Failed to fetch address", addressError);
+    throw new OrderPricingError("Failed to fetch address", "ADDRESS_FETCH_FAILED", 500);
+  }
+
+  if (!address) {
+    throw new OrderPricingError("Delivery address not found", "ADDRESS_NOT_FOUND", 404);
+  }
+
+  const deliveryAddress: QuoteDeliveryAddress = {
+    name: address.recipient_name,
+    phone: address.phone,
+    address: address.address,
+    city: address.city,
+    pincode: address.pincode,
+  };
+
+  return { address, deliveryAddress };
+}
+
+/**
+ * Price the cart for a saved address and return the breakdown with a signed token
+ */
+export async function createCheckoutQuote(params: CreateCheckoutQuoteParams): Promise<CheckoutQuoteResult> {
+  const { address, deliveryAddress } = await getQuoteAddress(params.customerId, params.addressId);
+
+  const quote = await buildOrderQuote({
+    customerId: params.customerId,
+    vendorId: params.vendorId,
+    items: params.items,
+    deliveryAddress: {
+      city: address.city,
+      pincode: address.pincode,
+      lat: address.lat,
+      lng: address.lng,
+    },
+    addressId: address.id,
+    deliverySpeed: params.deliverySpeed,
+    deliverySlot: params.deliverySlot,
+    // Use as much cashback as the order allows; buildOrderQuote caps it
+    cashbackRequested: params.useCashback ? Number.POSITIVE_INFINITY : 0,
+    couponCode: params.couponCode,
+  });
+
+  const issuedAt = Date.now();
+  const expiresAt = issuedAt + appConfig.checkout.quoteTtlMinutes * 60 * 1000;
+
+  const quoteToken = signQuoteToken({
+    id: crypto.randomUUID(),
+    customerId: params.customerId,
+    addressId: address.id,
+    deliveryAddress,
+    quote,
+    issuedAt,
+    expiresAt,
+  });
+
+  return {
+    quoteToken,
+    expiresAt: new Date(expiresAt).toISOString(),
+    deliveryAddress,
+    deliveryOptions: quote.deliveryOptions,
+    quote,
+  };
+}
+
+/**
+ * Price one shipment per recipient address and sign them as a single quote
+ * Cashback is spread over the shipments in order until the wallet balance runs out.
+ */
+export async function createSplitCheckoutQuote(params: CreateSplitCheckoutQuoteParams): Promise<SplitCheckoutQuoteResult> {
+  const shipments: SplitCheckoutShipment[] = [];
+  let cashbackLeft = params.useCashback ? Number.POSITIVE_INFINITY : 0;
+
+  for (const recipient of params.recipients) {
+    const { address, deliveryAddress } = await getQuoteAddress(params.customerId, recipient.addressId);
+
+    const quote = await buildOrderQuote({
+      customerId: params.customerId,
+      vendorId: params.vendorId,
+      items: recipient.items,
+      deliveryAddress: {
+        city: address.city,
+        pincode: address.pincode,
+        lat: address.lat,
+        lng: address.lng,
+      },
+      addressId: address.id,
+      deliverySpeed: params.deliverySpeed,
+      cashbackRequested: cashbackLeft,
+    });
+
+    if (params.useCashback) {
+      cashbackLeft = Math.max(0, Math.min(cashbackLeft, quote.walletBalance) - quote.cashbackUsed);
+    }
+
+    shipments.push({ addressId: address.id, deliveryAddress, quote });
+  }
+
+  return signShipments(params.customerId, shipments);
+}
+
+/**
+ * Price a multi-vendor cart as one shipment per vendor to the same address
+ * Every vendor's order carries its own delivery and platform fee, and the bill shows the
+ * platform fee per order; cashback is spread like split quotes.
+ */
+export async function createGroupedCheckoutQuote(params: CreateGroupedCheckoutQuoteParams): Promise<SplitCheckoutQuoteResult> {
+  const { address, deliveryAddress } = await getQuoteAddress(params.customerId, params.addressId);
+  const shipments: SplitCheckoutShipment[] = [];
+  let cashbackLeft = params.useCashback ? Number.POSITIVE_INFINITY : 0;
+
+  for (const group of params.vendors) {
+    const quote = await buildOrderQuote({
+      customerId: params.customerId,
+      vendorId: group.vendorId,
+      items: group.items,
+      deliveryAddress: {
+        city: address.city,
+        pincode: address.pincode,
+        lat: address.lat,
+        lng: address.lng,
+      },
+      addressId: address.id,
+      deliverySpeed: params.deliverySpeed,
+      cashbackRequested: cashbackLeft,
+    });
+
+    if (params.useCashback) {
+      cashbackLeft = Math.max(0, Math.min(cashbackLeft, quote.walletBalance) - quote.cashbackUsed);
+    }
+
+    shipments.push({ addressId: address.id, deliveryAddress, quote });
+  }
+
+  return signShipments(params.customerId, shipments);
+}
+
+/**
+ * Sign priced shipments as one quote and total them up
+ */
+function signShipments(customerId: string, shipments: SplitCheckoutShipment[]): SplitCheckoutQuoteResult {
+  const sum = (pick: (quote: OrderQuote) => number) =>
+    Math.round(shipments.reduce((total, shipment) => total + pick(shipment.quote), 0) * 100) / 100;
+  const total = sum((quote) => quote.total);
+
+  const issuedAt = Date.now();
+  const expiresAt = issuedAt + appConfig.checkout.quoteTtlMinutes * 60 * 1000;
+
+  const quoteToken = signQuoteToken({
+    id: crypto.randomUUID(),
+    customerId,
+    shipments,
+    total,
+    issuedAt,
+    expiresAt,
+  });
+
+  return {
+    quoteToken,
+    expiresAt: new Date(expiresAt).toISOString(),
+    shipments,
+    itemTotal: sum((quote) => quote.itemTotal),
+    deliveryFee: sum((quote) => quote.deliveryFee),
+    platformFee: sum((quote) => quote.platformFee),
+    cashbackUsed: sum((quote) => quote.cashbackUsed),
+    total,
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * Split shipment checkouts
+ * One checkout sends the cart to several recipients, or a multi-vendor cart to its
+ * vendors. Each shipment of the signed quote becomes its own order (own delivery fee,
+ * cashback hold, courier booking and refunds) under a parent checkouts row. The orders
+ * are paid together with a single Razorpay order, and each one gets its own Route
+ * transfer to its vendor's linked account.
+ */
+
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import { generateOrderNumber } from "@/lib/utils/order-number";
+import { getRazorpayService } from "@/lib/services/razorpay";
+import { getRazorpayRouteService } from "@/lib/services/razorpay-route";
+import { reserveOrderCashback, releaseOrderCashback } from "@/lib/services/order-cashback";
+import { recordInitialOrderStatus, type OrderActor } from "@/lib/services/order-transitions";
+import type { SplitCheckoutQuotePayload } from "@/lib/services/checkout-quote";
+import type { OrderItemInput } from "@/lib/validations/orders";
+
+export interface SplitCheckoutOrder {
+  orderId: string;
+  orderNumber: string;
+  recipient: string;
+  total: number;
+}
+
+export interface CreatedSplitCheckout {
+  checkoutId: string;
+  paymentId: string | null; // Razorpay order ID to open checkout with
+  total: number;
+  orders: SplitCheckoutOrder[];
+}
+
+export interface CreateSplitCheckoutParams {
+  customer: { id: string; phone?: string | null };
+  actor: OrderActor;
+  payload: SplitCheckoutQuotePayload;
+  shipmentItems?: Array<{ items?: OrderItemInput[] }>; // Customization per shipment line
+  gstin?: string;
+}
+
+/**
+ * Custom error class for split checkouts
+ */
+export class CheckoutError extends ServiceError {
+  name = "CheckoutError";
+}
+
+/**
+ * Undo a checkout that failed part way: release cashback holds and delete its orders
+ */
+async function rollbackCheckout(checkoutId: string, orderIds: string[]): Promise<void> {
+  const supabase = requireServiceClient(CheckoutError);
+
+  for (const orderId of orderIds) {
+    try {
+      await releaseOrderCashback(orderId);
+    } catch (error) {
+      logger.error("[Checkouts] Failed to release cashback during rollback", { checkoutId, orderId, error });
+    }
+  }
+
+  if (orderIds.length > 0) {
+    await supabase.from("orders").delete().in("id", orderIds);
+  }
+  await supabase.from("checkouts").delete().eq("id", checkoutId);
+}
+
+/**
+ * Create the parent checkout, one order per shipment and the shared Razorpay order
+ * Everything is rolled back if an order can't be created or its cashback held.
+ */
+export async function createSplitCheckout(params: CreateSplitCheckoutParams): Promise<CreatedSplitCheckout> {
+  const supabase = requireServiceClient(CheckoutError);
+  const { payload } = params;
+
+  const { data: checkout, error: checkoutError } = await supabase
+    .from("checkouts")
+    .insert({
+      customer_id: params.customer.id,
+      total: payload.total.toString(),
+      payment_status: "pending",
+      quote_id: payload.id,
+    })
+    .select("id")
+    .single();
+
+  // Each quote places one checkout; a double submit or retry gets the conflict
+  if (checkoutError?.code === "23505") {
+    throw new CheckoutError("This order has already been placed", "QUOTE_ALREADY_USED", 409);
+  }
+
+  if (checkoutError || !checkout) {
+    logger.error("[Checkouts] Failed to create checkout", checkoutError);
+    throw new CheckoutError("Failed to create checkout", "CHECKOUT_CREATE_FAILED", 500);
+  }
+
+  const orders: SplitCheckoutOrder[] = [];
+
+  try {
+    for (const [index, shipment] of payload.shipments.entries()) {
+      const { quote, deliveryAddress } = shipment;
+      const submittedItems = params.shipmentItems?.[index]?.items;
+      const orderNumber = generateOrderNumber();
+
+      const { data: newOrder, error: insertError } = await supabase
+        .from("orders")
+        .insert({
+          order_number: orderNumber,
+          customer_id: params.customer.id,
+          vendor_id: quote.vendorId,
+          checkout_id: checkout.id,
+          status: "pending",
+          items: quote.items.map((line, lineIndex) => {
+            const submitted = submittedItems?.[lineIndex];
+            return {
+              productId: line.productId,
+              quantity: line.quantity,
+              price: line.unitPrice,
+              selectedVariants: line.selectedVariants,
+              selectedAddOns: line.selectedAddOns,
+              customization: submitted?.productId === line.productId ? submitted.customization : undefined,
+            };
+          }),
+          item_total: quote.itemTotal.toString(),
+          delivery_fee: quote.deliveryFee.toString(),
+          platform_fee: quote.platformFee.toString(),
+          cashback_used: quote.cashbackUsed.toString(),
+          coupon_discount: "0",
+          total: quote.total.toString(),
+          delivery_type: quote.deliveryType,
+          delivery_address: deliveryAddress,
+          gstin: params.gstin ?? null,
+          payment_status: "pending",
+        })
+        .select("id, order_number")
+        .single();
+
+      if (insertError || !newOrder) {
+        logger.error("[Checkouts] Failed to create shipment order", { checkoutId: checkout.id, index, insertError });
+        throw new CheckoutError("Failed to create checkout", "CHECKOUT_CREATE_FAILED", 500);
+      }
+
+      orders.push({
+        orderId: newOrder.id,
+        orderNumber: newOrder.order_number,
+        recipient: deliveryAddress.name,
+        total: quote.total,
+      });
+
+      // Cashback may have been spent on another order since the quote
+      await reserveOrderCashback({
+        orderId: newOrder.id,
+        orderNumber: newOrder.order_number,
+        customerId: params.customer.id,
+        amount: quote.cashbackUsed,
+      });
+    }
+  } catch (error) {
+    await rollbackCheckout(checkout.id, orders.map((order) => order.orderId));
+    throw error;
+  }
+
+  for (const order of orders) {
+    await recordInitialOrderStatus(order.orderId, "pending", params.actor);
+  }
+
+  logger.info("[Checkouts] Split checkout created", {
+    checkoutId: checkout.id,
+    quoteId: payload.id,
+    orders: orders.length,
+  });
+
+  let paymentId: string | null = null;
+  try {
+    const payment = await getRazorpayService().createPayment({
+      amount: Math.round(payload.total * 100),
+      currency: "INR",
+      orderId: checkout.id,
+      checkoutId: checkout.id,
+      customerId: params.customer.id,
+      customerPhone: params.customer.phone ?? undefined,
+      notes: { order_numbers: orders.map((order) => order.orderNumber).join(",") },
+    });
+
+    paymentId = payment.id;
+    await supabase.from("checkouts").update({ razorpay_order_id: paymentId }).eq("id", checkout.id);
+    await supabase
+      .from("orders")
+      .update({ razorpay_order_id: paymentId, payment_id: paymentId })
+      .in("id", orders.map((order) => order.orderId));
+
+    await splitCheckoutPayment(paymentId, payload, orders);
+  } catch (paymentError) {
+    logger.error("[Checkouts] Payment creation failed", { checkoutId: checkout.id, error: paymentError });
+  }
+
+  return { checkoutId: checkout.id, paymentId, total: payload.total, orders };
+}
+
+/**
+ * One Route transfer per order, each for that order's own total
+ */
+async function splitCheckoutPayment(
+  paymentId: string,
+  payload: SplitCheckoutQuotePayload,
+  orders: SplitCheckoutOrder[]
+): Promise<void> {
+  const supabase = requireServiceClient(CheckoutError);
+  const vendorIds = Array.from(new Set(payload.shipments.map((shipment) => shipment.quote.vendorId)));
+
+  const { data: vendors } = await supabase
+    .from("vendors")
+    .select("id, razorpay_account_id")
+    .in("id", vendorIds);
+
+  const accounts = new Map((vendors || []).map((vendor) => [vendor.id, vendor.razorpay_account_id as string | null]));
+
+  for (const [index, order] of orders.entries()) {
+    const vendorAccountId = accounts.get(payload.shipments[index].quote.vendorId);
+    if (!vendorAccountId) continue;
+
+    try {
+      const splitResult = await getRazorpayRouteService().splitPayment({
+        orderId: order.orderId,
+        paymentId,
+        totalAmount: Math.round(order.total * 100),
+        vendorAccountId,
+      });
+
+      await supabase
+        .from("orders")
+        .update({
+          razorpay_route_id: splitResult.razorpayRouteId,
+          commission_amount: (splitResult.wyshkitAmount / 100).toString(),
+          vendor_amount: (splitResult.vendorAmount / 100).toString(),
+        })
+        .eq("id", order.orderId);
+    } catch (splitError) {
+      logger.error("[Checkouts] Split payment failed", { orderId: order.orderId, error: splitError });
+    }
+  }
+}
+
+/**
+ * IDs of the orders paid through a checkout
+ */
+export async function getCheckoutOrderIds(checkoutId: string): Promise<string[]> {
+  const { data, error } = await requireServiceClient(CheckoutError)
+    .from("orders")
+    .select("id")
+    .eq("checkout_id", checkoutId);
+
+  if (error) {
+    logger.error("[Checkouts] Failed to fetch checkout orders", { checkoutId, error });
+    throw new CheckoutError("Failed to fetch checkout orders", "CHECKOUT_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map((order) => order.id);
+}
+
+/**
+ * Record the payment outcome on the parent checkout
+ */
+export async function updateCheckoutPayment(
+  checkoutId: string,
+  update: { paymentId: string; paymentStatus: "pending" | "completed" | "failed" }
+): Promise<void> {
+  const { error } = await requireServiceClient(CheckoutError)
+    .from("checkouts")
+    .update({
+      payment_id: update.paymentId,
+      payment_status: update.paymentStatus,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", checkoutId);
+
+  if (error) {
+    logger.error("[Checkouts] Failed to update checkout payment", { checkoutId, error });
+  }
+}
@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+import {
+  recordCouponRedemption,
+  reserveCouponUse,
+  reverseOrderCouponRedemption,
+  restoreOrderCouponRedemption,
+  validateCoupon,
+  type ValidateCouponParams,
+} from "./coupons";
+
+const CUSTOMER_ID = "customer-1";
+const DAY = 24 * 60 * 60 * 1000;
+
+function seed(coupon: Record<string, unknown> = {}) {
+  state.db = createSupabaseFake();
+  state.db.tables.coupons = [{
+    id: "coupon-1",
+    code: "GIFT100",
+    discount_type: "flat",
+    discount_value: "100.00",
+    min_order_value: "0",
+    max_discount: null,
+    usage_limit: null,
+    per_user_limit: 1,
+    usage_count: 0,
+    vendor_id: null,
+    category: null,
+    first_order_only: false,
+    starts_at: null,
+    expires_at: null,
+    is_active: true,
+    ...coupon,
+  }];
+  state.db.tables.coupon_redemptions = [];
+  state.db.tables.orders = [];
+
+  // Mirrors redeem_coupon() in 0059_coupon_redemption_limit.sql
+  state.db.rpcs.redeem_coupon = (args, tables) => {
+    const coupon = tables.coupons.find((row) => row.id === args.p_coupon_id);
+    if (!coupon) throw { message: "COUPON_NOT_FOUND" };
+
+    const used = tables.coupon_redemptions.filter((row) =>
+      row.coupon_id === args.p_coupon_id &&
+      row.user_id === args.p_user_id &&
+      row.status === "redeemed" &&
+      row.order_id !== args.p_order_id
+    ).length;
+    if (coupon.per_user_limit !== null && used >= Number(coupon.per_user_limit)) {
+      throw { message: "COUPON_USER_LIMIT_REACHED" };
+    }
+
+    if (!tables.coupon_redemptions.some((row) => row.order_id === args.p_order_id)) {
+      tables.coupon_redemptions.push({
+        id: `redemption-${args.p_order_id}`,
+        coupon_id: args.p_coupon_id,
+        order_id: args.p_order_id,
+        user_id: args.p_user_id,
+        discount_amount: args.p_discount_amount,
+        status: "redeemed",
+      });
+    }
+  };
+}
+
+function validate(params: Partial<ValidateCouponParams> = {}) {
+  return validateCoupon({
+    code: " gift100 ",
+    customerId: CUSTOMER_ID,
+    vendorId: "vendor-1",
+    items: [{ category: "Mugs", lineTotal: 500 }],
+    ...params,
+  });
+}
+
+function redeem(orderId: string) {
+  return recordCouponRedemption({ couponId: "coupon-1", orderId, userId: CUSTOMER_ID, discountAmount: 100 });
+}
+
+function getCoupon() {
+  return state.db!.tables.coupons[0];
+}
+
+describe("validateCoupon", () => {
+  it("applies a valid code", async () => {
+    seed();
+    await expect(validate()).resolves.toEqual({ id: "coupon-1", code: "GIFT100", discount: 100 });
+  });
+
+  it("caps a percentage discount", async () => {
+    seed({ discount_type: "percentage", discount_value: "50", max_discount: "150" });
+    await expect(validate()).resolves.toMatchObject({ discount: 150 });
+  });
+
+  it.each([
+    ["an unknown code", {}, { code: "NOPE" }, "COUPON_NOT_FOUND", 404],
+    ["an inactive coupon", { is_active: false }, {}, "COUPON_INACTIVE", 400],
+    ["a coupon that hasn't started", { starts_at: new Date(Date.now() + DAY).toISOString() }, {}, "COUPON_NOT_STARTED", 400],
+    ["an expired coupon", { expires_at: new Date(Date.now() - 1000).toISOString() }, {}, "COUPON_EXPIRED", 400],
+    ["a fully redeemed coupon", { usage_limit: 10, usage_count: 10 }, {}, "COUPON_USAGE_LIMIT_REACHED", 409],
+    ["another store's coupon", { vendor_id: "vendor-2" }, {}, "COUPON_VENDOR_MISMATCH", 400],
+    ["an order under the minimum", { min_order_value: "600" }, {}, "COUPON_MIN_ORDER_NOT_MET", 400],
+    ["an order without the coupon's category", { category: "Frames" }, {}, "COUPON_CATEGORY_MISMATCH", 400],
+  ] as const)("rejects %s", async (_case, coupon, params, code, status) => {
+    seed(coupon);
+    await expect(validate(params)).rejects.toMatchObject({ code, status });
+  });
+
+  it("only discounts the items in the coupon's category", async () => {
+    seed({ discount_type: "percentage", discount_value: "10", category: " mugs " });
+
+    const applied = await validate({
+      items: [{ category: "Mugs", lineTotal: 500 }, { category: "Frames", lineTotal: 1000 }],
+    });
+
+    expect(applied.discount).toBe(50);
+  });
+
+  it("checks the minimum against the whole order", async () => {
+    seed({ min_order_value: "1000", category: "Mugs" });
+
+    await expect(validate({
+      items: [{ category: "Mugs", lineTotal: 500 }, { category: "Frames", lineTotal: 500 }],
+    })).resolves.toMatchObject({ discount: 100 });
+  });
+
+  it("stops a customer at the per-user limit, not counting reversed uses", async () => {
+    seed({ per_user_limit: 2 });
+    state.db!.tables.coupon_redemptions = [
+      { coupon_id: "coupon-1", order_id: "order-1", user_id: CUSTOMER_ID, status: "redeemed" },
+      { coupon_id: "coupon-1", order_id: "order-2", user_id: CUSTOMER_ID, status: "reversed" },
+      { coupon_id: "coupon-1", order_id: "order-3", user_id: "customer-2", status: "redeemed" },
+    ];
+    await expect(validate()).resolves.toMatchObject({ discount: 100 });
+
+    state.db!.tables.coupon_redemptions[1].status = "redeemed";
+    await expect(validate()).rejects.toMatchObject({ code: "COUPON_USER_LIMIT_REACHED", status: 400 });
+  });
+
+  it("keeps first-order coupons to customers without a live order", async () => {
+    seed({ first_order_only: true });
+    state.db!.tables.orders = [{ id: "order-1", customer_id: CUSTOMER_ID, status: "cancelled" }];
+    await expect(validate()).resolves.toMatchObject({ discount: 100 });
+
+    state.db!.tables.orders.push({ id: "order-2", customer_id: CUSTOMER_ID, status: "delivered" });
+    await expect(validate()).rejects.toMatchObject({ code: "COUPON_FIRST_ORDER_ONLY" });
+  });
+});
+
+describe("recordCouponRedemption", () => {
+  beforeEach(() => seed());
+
+  it("refuses a second redemption that got past validation at the same time", async () => {
+    // Both checkouts validate before either order is written
+    await validate();
+    await validate();
+
+    await redeem("order-1");
+    await expect(redeem("order-2")).rejects.toMatchObject({ code: "COUPON_USER_LIMIT_REACHED", status: 409 });
+    expect(state.db!.tables.coupon_redemptions.map((row) => row.order_id)).toEqual(["order-1"]);
+  });
+
+  it("records an order's redemption once", async () => {
+    await redeem("order-1");
+    await redeem("order-1");
+
+    expect(state.db!.tables.coupon_redemptions).toHaveLength(1);
+  });
+
+  it("frees the customer's use when the redemption is reversed", async () => {
+    await redeem("order-1");
+    await reverseOrderCouponRedemption("order-1");
+
+    await expect(redeem("order-2")).resolves.toBeUndefined();
+  });
+});
+
+describe("coupon usage", () => {
+  beforeEach(() => seed({ usage_limit: 1 }));
+
+  it("gives the last use to one checkout only", async () => {
+    await reserveCouponUse("coupon-1");
+
+    await expect(reserveCouponUse("coupon-1")).rejects.toMatchObject({ code: "COUPON_USAGE_LIMIT_REACHED", status: 409 });
+    expect(getCoupon().usage_count).toBe(1);
+  });
+
+  it("gives the use back when the order's payment fails and takes it again if it is paid after all", async () => {
+    await reserveCouponUse("coupon-1");
+    await redeem("order-1");
+
+    await reverseOrderCouponRedemption("order-1");
+    await reverseOrderCouponRedemption("order-1");
+    expect(getCoupon().usage_count).toBe(0);
+
+    await restoreOrderCouponRedemption("order-1");
+    await restoreOrderCouponRedemption("order-1");
+    expect(getCoupon().usage_count).toBe(1);
+    expect(state.db!.tables.coupon_redemptions[0].status).toBe("redeemed");
+  });
+});
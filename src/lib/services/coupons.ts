@@ -0,0 +1,432 @@
+/**
+ * Coupon engine
+ * Validates promo codes against an order and records redemptions. A redemption is
+ * reversed, and its use given back, when the order is cancelled or its payment fails.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseServiceClient } from "@/lib/supabase/client";
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+
+export type CouponDiscountType = "flat" | "percentage";
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  minOrderValue: number;
+  maxDiscount: number | null;
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  usageCount: number;
+  vendorId: string | null;
+  category: string | null;
+  firstOrderOnly: boolean;
+  startsAt: string | null;
+  expiresAt: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CouponLineInput {
+  category: string;
+  lineTotal: number;
+}
+
+export interface ValidateCouponParams {
+  code: string;
+  customerId: string;
+  vendorId: string;
+  items: CouponLineInput[];
+}
+
+export interface AppliedCoupon {
+  id: string;
+  code: string;
+  discount: number;
+}
+
+export const COUPON_COLUMNS =
+  "id, code, description, discount_type, discount_value, min_order_value, max_discount, usage_limit, per_user_limit, usage_count, vendor_id, category, first_order_only, starts_at, expires_at, is_active, created_at, updated_at";
+
+/**
+ * Custom error class for coupons that cannot be applied
+ */
+export class CouponError extends ServiceError {
+  name = "CouponError";
+}
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Codes are stored and compared uppercase without surrounding whitespace
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Map a coupons row (snake_case) to the API shape
+ */
+export function mapCoupon(row: Record<string, unknown>): Coupon {
+  return {
+    id: row.id as string,
+    code: row.code as string,
+    description: (row.description as string | null) ?? null,
+    discountType: row.discount_type as CouponDiscountType,
+    discountValue: toNumber(row.discount_value as string | number | null) ?? 0,
+    minOrderValue: toNumber(row.min_order_value as string | number | null) ?? 0,
+    maxDiscount: toNumber(row.max_discount as string | number | null),
+    usageLimit: (row.usage_limit as number | null) ?? null,
+    perUserLimit: (row.per_user_limit as number | null) ?? null,
+    usageCount: (row.usage_count as number | null) ?? 0,
+    vendorId: (row.vendor_id as string | null) ?? null,
+    category: (row.category as string | null) ?? null,
+    firstOrderOnly: (row.first_order_only as boolean | null) ?? false,
+    startsAt: (row.starts_at as string | null) ?? null,
+    expiresAt: (row.expires_at as string | null) ?? null,
+    isActive: (row.is_active as boolean | null) ?? false,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+/**
+ * Map coupon fields (camelCase) to a coupons row, skipping fields that were not provided
+ */
+export function toCouponRow(input: Partial<Omit<Coupon, "id" | "usageCount" | "createdAt" | "updatedAt">>): Record<string, unknown> {
+  const columns: Record<string, string> = {
+    code: "code",
+    description: "description",
+    discountType: "discount_type",
+    discountValue: "discount_value",
+    minOrderValue: "min_order_value",
+    maxDiscount: "max_discount",
+    usageLimit: "usage_limit",
+    perUserLimit: "per_user_limit",
+    vendorId: "vendor_id",
+    category: "category",
+    firstOrderOnly: "first_order_only",
+    startsAt: "starts_at",
+    expiresAt: "expires_at",
+    isActive: "is_active",
+  };
+
+  const row: Record<string, unknown> = {};
+  for (const [key, column] of Object.entries(columns)) {
+    const value = input[key as keyof typeof input];
+    if (value !== undefined) {
+      row[column] = key === "code" && typeof value === "string" ? normalizeCouponCode(value) : value;
+    }
+  }
+  return row;
+}
+
+/**
+ * Discount for a coupon on the items it applies to
+ * Never exceeds the eligible amount or the coupon's max discount cap
+ */
+export function calculateCouponDiscount(coupon: Coupon, eligibleTotal: number): number {
+  const rawDiscount = coupon.discountType === "percentage"
+    ? (eligibleTotal * coupon.discountValue) / 100
+    : coupon.discountValue;
+  const capped = coupon.maxDiscount !== null ? Math.min(rawDiscount, coupon.maxDiscount) : rawDiscount;
+  return roundCurrency(Math.max(0, Math.min(capped, eligibleTotal)));
+}
+
+/**
+ * Rules that only need the coupon row and the order (no per-customer lookups)
+ */
+function checkCouponApplies(coupon: Coupon, params: ValidateCouponParams): number {
+  const now = Date.now();
+
+  if (!coupon.isActive) {
+    throw new CouponError("This coupon is no longer active", "COUPON_INACTIVE");
+  }
+  if (coupon.startsAt && new Date(coupon.startsAt).getTime() > now) {
+    throw new CouponError("This coupon is not active yet", "COUPON_NOT_STARTED");
+  }
+  if (coupon.expiresAt && new Date(coupon.expiresAt).getTime() <= now) {
+    throw new CouponError("This coupon has expired", "COUPON_EXPIRED");
+  }
+  if (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit) {
+    throw new CouponError("This coupon has been fully redeemed", "COUPON_USAGE_LIMIT_REACHED", 409);
+  }
+  if (coupon.vendorId && coupon.vendorId !== params.vendorId) {
+    throw new CouponError("This coupon is not valid for this store", "COUPON_VENDOR_MISMATCH");
+  }
+
+  const itemTotal = roundCurrency(params.items.reduce((sum, item) => sum + item.lineTotal, 0));
+  if (itemTotal < coupon.minOrderValue) {
+    throw new CouponError(
+      `Add items worth ₹${roundCurrency(coupon.minOrderValue - itemTotal)} more to use this coupon`,
+      "COUPON_MIN_ORDER_NOT_MET"
+    );
+  }
+
+  const category = coupon.category?.trim().toLowerCase();
+  const eligibleTotal = category
+    ? roundCurrency(params.items
+      .filter((item) => item.category.trim().toLowerCase() === category)
+      .reduce((sum, item) => sum + item.lineTotal, 0))
+    : itemTotal;
+
+  if (eligibleTotal <= 0) {
+    throw new CouponError(`This coupon only applies to ${coupon.category} items`, "COUPON_CATEGORY_MISMATCH");
+  }
+
+  return eligibleTotal;
+}
+
+/**
+ * Rules that depend on the customer's order and redemption history
+ */
+async function checkCustomerEligibility(
+  supabase: SupabaseClient,
+  coupon: Coupon,
+  customerId: string
+): Promise<void> {
+  if (coupon.perUserLimit !== null) {
+    const { count, error } = await supabase
+      .from("coupon_redemptions")
+      .select("id", { count: "exact", head: true })
+      .eq("coupon_id", coupon.id)
+      .eq("user_id", customerId)
+      .eq("status", "redeemed");
+
+    if (error) {
+      logger.error("[Coupons] Failed to count redemptions", error);
+      throw new CouponError("Failed to validate coupon", "COUPON_VALIDATION_FAILED", 500);
+    }
+
+    if ((count || 0) >= coupon.perUserLimit) {
+      throw new CouponError("You have already used this coupon", "COUPON_USER_LIMIT_REACHED");
+    }
+  }
+
+  if (coupon.firstOrderOnly) {
+    const { count, error } = await supabase
+      .from("orders")
+      .select("id", { count: "exact", head: true })
+      .eq("customer_id", customerId)
+      .neq("status", "cancelled");
+
+    if (error) {
+      logger.error("[Coupons] Failed to count customer orders", error);
+      throw new CouponError("Failed to validate coupon", "COUPON_VALIDATION_FAILED", 500);
+    }
+
+    if ((count || 0) > 0) {
+      throw new CouponError("This coupon is only valid on your first order", "COUPON_FIRST_ORDER_ONLY");
+    }
+  }
+}
+
+/**
+ * Validate a code for an order and work out its discount
+ * Throws CouponError describing the first rule the order fails
+ */
+export async function validateCoupon(params: ValidateCouponParams): Promise<AppliedCoupon> {
+  const supabase = requireServiceClient(CouponError);
+
+  const { data: row, error } = await supabase
+    .from("coupons")
+    .select(COUPON_COLUMNS)
+    .eq("code", normalizeCouponCode(params.code))
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Coupons] Failed to fetch coupon", error);
+    throw new CouponError("Failed to validate coupon", "COUPON_VALIDATION_FAILED", 500);
+  }
+
+  if (!row) {
+    throw new CouponError("Invalid coupon code", "COUPON_NOT_FOUND", 404);
+  }
+
+  const coupon = mapCoupon(row);
+  const eligibleTotal = checkCouponApplies(coupon, params);
+  await checkCustomerEligibility(supabase, coupon, params.customerId);
+
+  return {
+    id: coupon.id,
+    code: coupon.code,
+    discount: calculateCouponDiscount(coupon, eligibleTotal),
+  };
+}
+
+/**
+ * Claim one use of a coupon's global limit before the order is written
+ * Matches on the usage count we read so two checkouts cannot both take the last use
+ */
+export async function reserveCouponUse(couponId: string): Promise<void> {
+  const supabase = requireServiceClient(CouponError);
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: coupon, error } = await supabase
+      .from("coupons")
+      .select("usage_count, usage_limit")
+      .eq("id", couponId)
+      .maybeSingle();
+
+    if (error || !coupon) {
+      logger.error("[Coupons] Failed to fetch coupon usage", { couponId, error });
+      throw new CouponError("Failed to apply coupon", "COUPON_RESERVE_FAILED", 500);
+    }
+
+    if (coupon.usage_limit !== null && coupon.usage_count >= coupon.usage_limit) {
+      throw new CouponError("This coupon has been fully redeemed", "COUPON_USAGE_LIMIT_REACHED", 409);
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("coupons")
+      .update({ usage_count: coupon.usage_count + 1, updated_at: new Date().toISOString() })
+      .eq("id", couponId)
+      .eq("usage_count", coupon.usage_count)
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      logger.error("[Coupons] Failed to reserve coupon use", { couponId, error: updateError });
+      throw new CouponError("Failed to apply coupon", "COUPON_RESERVE_FAILED", 500);
+    }
+
+    if (updated) return;
+  }
+
+  throw new CouponError("This coupon is in high demand. Please try again.", "COUPON_BUSY", 409);
+}
+
+/**
+ * Move a coupon's usage count by one, matching on the count we read
+ * Unlike reserveCouponUse this ignores the usage limit
+ */
+async function adjustCouponUsage(couponId: string, delta: 1 | -1): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+  if (!supabase) return false;
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: coupon } = await supabase
+      .from("coupons")
+      .select("usage_count")
+      .eq("id", couponId)
+      .maybeSingle();
+
+    if (!coupon) return false;
+    if (delta < 0 && coupon.usage_count <= 0) return true;
+
+    const { data: updated } = await supabase
+      .from("coupons")
+      .update({ usage_count: coupon.usage_count + delta, updated_at: new Date().toISOString() })
+      .eq("id", couponId)
+      .eq("usage_count", coupon.usage_count)
+      .select("id")
+      .maybeSingle();
+
+    if (updated) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Give back a use claimed by reserveCouponUse when the order could not be created
+ */
+export async function releaseCouponUse(couponId: string): Promise<void> {
+  if (!(await adjustCouponUsage(couponId, -1))) {
+    logger.error("[Coupons] Failed to release coupon use", { couponId });
+  }
+}
+
+/**
+ * Order cancelled or its payment failed: reverse the redemption and give back the use
+ * Idempotent: only a redemption still marked redeemed is reversed, and only once
+ */
+export async function reverseOrderCouponRedemption(orderId: string): Promise<void> {
+  const supabase = requireServiceClient(CouponError);
+
+  const { data: redemption, error } = await supabase
+    .from("coupon_redemptions")
+    .update({ status: "reversed" })
+    .eq("order_id", orderId)
+    .eq("status", "redeemed")
+    .select("coupon_id")
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Coupons] Failed to reverse redemption", { orderId, error });
+    throw new CouponError("Failed to reverse coupon redemption", "COUPON_REVERSE_FAILED", 500);
+  }
+
+  // No coupon on the order, or already reversed
+  if (!redemption) return;
+
+  await releaseCouponUse(redemption.coupon_id);
+  logger.info("[Coupons] Redemption reversed", { orderId, couponId: redemption.coupon_id });
+}
+
+/**
+ * A payment captured after an earlier failure: the coupon was used after all
+ * The customer paid the discounted amount, so the use counts even past the limit
+ */
+export async function restoreOrderCouponRedemption(orderId: string): Promise<void> {
+  const supabase = requireServiceClient(CouponError);
+
+  const { data: redemption, error } = await supabase
+    .from("coupon_redemptions")
+    .update({ status: "redeemed" })
+    .eq("order_id", orderId)
+    .eq("status", "reversed")
+    .select("coupon_id")
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Coupons] Failed to restore redemption", { orderId, error });
+    throw new CouponError("Failed to restore coupon redemption", "COUPON_RESTORE_FAILED", 500);
+  }
+
+  if (!redemption) return;
+
+  if (!(await adjustCouponUsage(redemption.coupon_id, 1))) {
+    logger.error("[Coupons] Failed to count restored coupon use", { orderId, couponId: redemption.coupon_id });
+  }
+}
+
+/**
+ * Record that an order used a coupon
+ * The per-user limit is checked again in the database as the redemption is written,
+ * so concurrent checkouts by one customer can't both get past it
+ */
+export async function recordCouponRedemption(params: {
+  couponId: string;
+  orderId: string;
+  userId: string;
+  discountAmount: number;
+}): Promise<void> {
+  const { error } = await requireServiceClient(CouponError).rpc("redeem_coupon", {
+    p_coupon_id: params.couponId,
+    p_order_id: params.orderId,
+    p_user_id: params.userId,
+    p_discount_amount: params.discountAmount,
+  });
+
+  if (error) {
+    if (error.message?.includes("COUPON_USER_LIMIT_REACHED")) {
+      throw new CouponError("You have already used this coupon", "COUPON_USER_LIMIT_REACHED", 409);
+    }
+    logger.error("[Coupons] Failed to record redemption", { ...params, error });
+    throw new CouponError("Failed to apply coupon", "COUPON_REDEEM_FAILED", 500);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { scoreCourierQuotes } from "./courier-selection";
+import type { CourierQuote } from "./courier";
+
+const nimbus: CourierQuote = { provider: "nimbus", serviceable: true, price: 100, estimatedDays: 4 };
+const simulated: CourierQuote = { provider: "simulated", serviceable: true, price: 200, estimatedDays: 2 };
+const unserviceable: CourierQuote = {
+  provider: "simulated",
+  serviceable: false,
+  price: null,
+  estimatedDays: null,
+  reason: "Pincode not serviceable",
+};
+
+describe("scoreCourierQuotes", () => {
+  it("weighs each quote against the cheapest and fastest", () => {
+    const [cheap, fast] = scoreCourierQuotes([nimbus, simulated]);
+    expect(cheap.score).toBe(0.8); // 0.6 * 1 + 0.4 * 2/4
+    expect(fast.score).toBe(0.7); // 0.6 * 100/200 + 0.4 * 1
+  });
+
+  it("gives a quote that is both cheapest and fastest the full score", () => {
+    const [best] = scoreCourierQuotes([nimbus, { ...simulated, price: 150, estimatedDays: 5 }]);
+    expect(best.score).toBe(1);
+  });
+
+  it("leaves quotes the courier can't take unscored", () => {
+    const scored = scoreCourierQuotes([nimbus, unserviceable]);
+    expect(scored[0].score).toBe(1);
+    expect(scored[1].score).toBeNull();
+    expect(scored[1].reason).toBe("Pincode not serviceable");
+  });
+
+  it("treats a serviceable quote without a price as unserviceable", () => {
+    const scored = scoreCourierQuotes([{ ...nimbus, price: null }, simulated]);
+    expect(scored[0].score).toBeNull();
+    expect(scored[1].score).toBe(1);
+  });
+
+  it("scores nothing when no courier can take the parcel", () => {
+    expect(scoreCourierQuotes([unserviceable]).map((quote) => quote.score)).toEqual([null]);
+  });
+
+  it("doesn't divide by a free or same-day quote", () => {
+    const [free, paid] = scoreCourierQuotes([{ ...nimbus, price: 0, estimatedDays: 0 }, simulated]);
+    expect(free.score).toBe(1);
+    expect(paid.score).toBe(0);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Courier selection
+ * Intercity bookings quote every enabled courier and go to the best serviceable
+ * one, scored on price and estimated delivery time (appConfig.delivery.rateShopping).
+ * An admin override for the vendor, else for the destination city, wins as long as
+ * its courier can take the parcel. The decision and every quote are recorded on
+ * the order (orders.courier_selection).
+ *
+ * Scoring only has a choice to make once a second live carrier is enabled. The
+ * simulated courier is off in production, so production bookings currently all go
+ * to Nimbus and are recorded as "single_courier"; overrides and the admin screen
+ * (/admin/couriers) are ready for when another carrier is connected.
+ */
+
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import { escapeLike } from "@/lib/utils/sanitize";
+import { appConfig } from "@/lib/config/app";
+import {
+  COURIER_PROVIDERS,
+  getCourierProvider,
+  isCourierEnabled,
+  type CourierProviderId,
+  type CourierQuote,
+  type DeliveryRequest,
+} from "@/lib/services/courier";
+
+export type CourierSelectionSource = "rate_shopping" | "single_courier" | "vendor_override" | "city_override";
+
+export interface ScoredCourierQuote extends CourierQuote {
+  score: number | null; // null when the courier can't take the parcel
+}
+
+export interface CourierSelection {
+  provider: CourierProviderId;
+  source: CourierSelectionSource;
+  overrideId?: string;
+  weight: number; // kg, from calculateOrderWeight
+  quotes: ScoredCourierQuote[];
+  decidedAt: string;
+}
+
+export interface CourierOverride {
+  id: string;
+  vendorId: string | null;
+  vendorName: string | null;
+  city: string | null;
+  provider: CourierProviderId;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const COURIER_OVERRIDE_COLUMNS = "id, vendor_id, city, provider, created_by, created_at, updated_at, vendors(name)";
+
+/**
+ * Custom error class for courier selection and overrides
+ */
+export class CourierSelectionError extends ServiceError {
+  name = "CourierSelectionError";
+}
+
+export function mapCourierOverride(row: Record<string, unknown>): CourierOverride {
+  const vendor = row.vendors as { name?: string } | Array<{ name?: string }> | null | undefined;
+  return {
+    id: row.id as string,
+    vendorId: (row.vendor_id as string | null) ?? null,
+    vendorName: (Array.isArray(vendor) ? vendor[0]?.name : vendor?.name) ?? null,
+    city: (row.city as string | null) ?? null,
+    provider: row.provider as CourierProviderId,
+    createdBy: (row.created_by as string | null) ?? null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function getEnabledCouriers(): CourierProviderId[] {
+  return COURIER_PROVIDERS.filter(isCourierEnabled);
+}
+
+/**
+ * Whether bookings are actually rate shopped: more than one courier is enabled
+ */
+export function isRateShoppingActive(): boolean {
+  return getEnabledCouriers().length > 1;
+}
+
+/**
+ * Quote every enabled courier; a courier whose quote fails counts as not serviceable
+ */
+async function quoteCouriers(request: DeliveryRequest): Promise<CourierQuote[]> {
+  const providers = getEnabledCouriers();
+  const results = await Promise.allSettled(
+    providers.map((provider) => getCourierProvider(provider).quoteDelivery(request))
+  );
+
+  return results.map((result, index) => {
+    if (result.status === "fulfilled") return result.value;
+    logger.warn("[Courier Selection] Quote failed", { provider: providers[index], error: result.reason });
+    return {
+      provider: providers[index],
+      serviceable: false,
+      price: null,
+      estimatedDays: null,
+      reason: result.reason instanceof Error ? result.reason.message : "Quote failed",
+    };
+  });
+}
+
+/**
+ * Score serviceable quotes from 0 to 1 against the cheapest and fastest of them
+ */
+export function scoreCourierQuotes(quotes: CourierQuote[]): ScoredCourierQuote[] {
+  const serviceable = quotes.filter(
+    (quote) => quote.serviceable && quote.price !== null && quote.estimatedDays !== null
+  );
+
+  if (serviceable.length === 0) {
+    return quotes.map((quote) => ({ ...quote, score: null }));
+  }
+
+  const minPrice = Math.min(...serviceable.map((quote) => quote.price as number));
+  const minDays = Math.min(...serviceable.map((quote) => quote.estimatedDays as number));
+  const weights = appConfig.delivery.rateShopping.weights;
+
+  return quotes.map((quote) => {
+    if (!serviceable.includes(quote)) {
+      return { ...quote, score: null };
+    }
+
+    const price = quote.price as number;
+    const days = quote.estimatedDays as number;
+    const priceScore = price > 0 ? minPrice / price : 1;
+    const speedScore = days > 0 ? minDays / days : 1;
+
+    return {
+      ...quote,
+      score: Math.round((weights.price * priceScore + weights.speed * speedScore) * 1000) / 1000,
+    };
+  });
+}
+
+/**
+ * The override that applies to a booking: the vendor's, else the destination city's
+ */
+export async function findCourierOverride(vendorId: string, city: string): Promise<CourierOverride | null> {
+  const supabase = requireServiceClient(CourierSelectionError);
+
+  const { data: vendorOverride, error: vendorError } = await supabase
+    .from("courier_overrides")
+    .select(COURIER_OVERRIDE_COLUMNS)
+    .eq("vendor_id", vendorId)
+    .maybeSingle();
+
+  if (vendorError) {
+    logger.error("[Courier Selection] Failed to fetch vendor override", { vendorId, error: vendorError });
+    throw new CourierSelectionError("Failed to fetch courier override", "OVERRIDE_FETCH_FAILED", 500);
+  }
+
+  if (vendorOverride) {
+    return mapCourierOverride(vendorOverride);
+  }
+
+  if (!city.trim()) return null;
+
+  const { data: cityOverride, error: cityError } = await supabase
+    .from("courier_overrides")
+    .select(COURIER_OVERRIDE_COLUMNS)
+    .ilike("city", escapeLike(city.trim()))
+    .maybeSingle();
+
+  if (cityError) {
+    logger.error("[Courier Selection] Failed to fetch city override", { city, error: cityError });
+    throw new CourierSelectionError("Failed to fetch courier override", "OVERRIDE_FETCH_FAILED", 500);
+  }
+
+  return cityOverride ? mapCourierOverride(cityOverride) : null;
+}
+
+/**
+ * Pick the courier for an intercity parcel
+ * An override whose courier is disabled or can't take the parcel is skipped. With
+ * a single enabled courier there is nothing to compare and it is recorded as such.
+ */
+export async function selectCourier(request: DeliveryRequest, vendorId: string): Promise<CourierSelection> {
+  const quotes = scoreCourierQuotes(await quoteCouriers(request));
+  const override = await findCourierOverride(vendorId, request.deliveryAddress.city);
+  const decidedAt = new Date().toISOString();
+
+  if (override) {
+    const quote = quotes.find((candidate) => candidate.provider === override.provider);
+
+    if (quote?.serviceable) {
+      return {
+        provider: override.provider,
+        source: override.vendorId ? "vendor_override" : "city_override",
+        overrideId: override.id,
+        weight: request.weight,
+        quotes,
+        decidedAt,
+      };
+    }
+
+    logger.warn("[Courier Selection] Override courier can't take the parcel", {
+      orderId: request.orderId,
+      overrideId: override.id,
+      provider: override.provider,
+      reason: quote?.reason ?? "Courier not enabled",
+    });
+  }
+
+  const best = quotes
+    .filter((quote) => quote.score !== null)
+    .sort((a, b) => (b.score as number) - (a.score as number))[0];
+
+  if (!best) {
+    throw new CourierSelectionError("No courier can deliver this parcel", "NO_SERVICEABLE_COURIER", 422);
+  }
+
+  return {
+    provider: best.provider,
+    source: quotes.length > 1 ? "rate_shopping" : "single_courier",
+    weight: request.weight,
+    quotes,
+    decidedAt,
+  };
+}
+
+/**
+ * Keep the decision on the order for support and audits
+ */
+export async function recordCourierSelection(orderId: string, selection: CourierSelection): Promise<void> {
+  const { error } = await requireServiceClient(CourierSelectionError)
+    .from("orders")
+    .update({ courier_selection: selection, updated_at: new Date().toISOString() })
+    .eq("id", orderId);
+
+  if (error) {
+    logger.error("[Courier Selection] Failed to record selection", { orderId, provider: selection.provider, error });
+  }
+}
+
+export async function listCourierOverrides(): Promise<CourierOverride[]> {
+  const { data, error } = await requireServiceClient(CourierSelectionError)
+    .from("courier_overrides")
+    .select(COURIER_OVERRIDE_COLUMNS)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    logger.error("[Courier Selection] Failed to list overrides", error);
+    throw new CourierSelectionError("Failed to fetch courier overrides", "OVERRIDE_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map(mapCourierOverride);
+}
+
+/**
+ * Pin a courier for a vendor or a destination city, replacing any existing override
+ */
+export async function setCourierOverride(
+  params: { vendorId?: string; city?: string; provider: CourierProviderId },
+  adminId: string
+): Promise<CourierOverride> {
+  const supabase = requireServiceClient(CourierSelectionError);
+  const city = params.city?.trim();
+
+  const existing = params.vendorId
+    ? await supabase.from("courier_overrides").select("id").eq("vendor_id", params.vendorId).maybeSingle()
+    : await supabase.from("courier_overrides").select("id").ilike("city", escapeLike(city || "")).maybeSingle();
+
+  if (existing.error) {
+    logger.error("[Courier Selection] Failed to fetch override", { ...params, error: existing.error });
+    throw new CourierSelectionError("Failed to fetch courier override", "OVERRIDE_FETCH_FAILED", 500);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = existing.data
+    ? await supabase
+      .from("courier_overrides")
+      .update({ provider: params.provider, created_by: adminId, updated_at: now })
+      .eq("id", existing.data.id)
+      .select(COURIER_OVERRIDE_COLUMNS)
+      .single()
+    : await supabase
+      .from("courier_overrides")
+      .insert({
+        vendor_id: params.vendorId ?? null,
+        city: params.vendorId ? null : city,
+        provider: params.provider,
+        created_by: adminId,
+      })
+      .select(COURIER_OVERRIDE_COLUMNS)
+      .single();
+
+  if (error || !data) {
+    // courier_overrides_vendor_id_fkey
+    if (error?.code === "23503") {
+      throw new CourierSelectionError("Vendor not found", "VENDOR_NOT_FOUND", 404);
+    }
+    if (error?.code === "23505") {
+      throw new CourierSelectionError("An override was just created for this scope", "OVERRIDE_CONFLICT", 409);
+    }
+    logger.error("[Courier Selection] Failed to save override", { ...params, error });
+    throw new CourierSelectionError("Failed to save courier override", "OVERRIDE_SAVE_FAILED", 500);
+  }
+
+  logger.info("[Courier Selection] Override saved", { ...params, adminId });
+
+  return mapCourierOverride(data);
+}
+
+export async function deleteCourierOverride(id: string): Promise<void> {
+  const { data, error } = await requireServiceClient(CourierSelectionError)
+    .from("courier_overrides")
+    .delete()
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    logger.error("[Courier Selection] Failed to delete override", { id, error });
+    throw new CourierSelectionError("Failed to delete courier override", "OVERRIDE_DELETE_FAILED", 500);
+  }
+
+  if (!data || data.length === 0) {
+    throw new CourierSelectionError("Courier override not found", "OVERRIDE_NOT_FOUND", 404);
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Courier status callbacks
+ * Applies a courier's status update to the booking and moves the order along:
+ * picked up / in transit -> out_for_delivery, delivered -> delivered. Failed
+ * attempts, returns to origin and courier cancellations are flagged to the
+ * customer and admins; the order itself waits for a reattempt or an admin.
+ * Order changes are derived from the booking's status, so replaying an event
+ * finishes whatever a failed run left undone. Provider webhooks (Nimbus, the
+ * simulated courier) normalise their payloads and hand them to processCourierUpdate.
+ */
+
+import { requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import { ORDER_STATUS, type OrderStatus } from "@/lib/constants/order-status";
+import { applyDeliveryStatusUpdate, findDelivery, type Delivery, type DeliveryStatus } from "@/lib/services/deliveries";
+import { transitionOrderStatus, SYSTEM_ACTOR } from "@/lib/services/order-transitions";
+import { WebhookEventError, type WebhookOutcome } from "@/lib/services/webhook-events";
+import type { CourierProviderId, CourierStatusUpdate } from "@/lib/services/courier";
+
+async function notifyUsers(
+  userIds: string[],
+  notification: { title: string; message: string; data: Record<string, unknown> }
+): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const { error } = await requireServiceClient(WebhookEventError).from("notifications").insert(
+    userIds.map((userId) => ({
+      user_id: userId,
+      type: "order",
+      title: notification.title,
+      message: notification.message,
+      data: notification.data,
+    }))
+  );
+
+  if (error) {
+    logger.error("[Courier Webhook] Failed to create notifications", error);
+  }
+}
+
+async function getAdminIds(): Promise<string[]> {
+  const { data, error } = await requireServiceClient(WebhookEventError).from("users").select("id").eq("role", "admin");
+  if (error) {
+    logger.error("[Courier Webhook] Failed to fetch admins for notification", error);
+  }
+  return (data || []).map((admin) => admin.id);
+}
+
+// Courier outcomes customers and admins hear about
+const NEEDS_ATTENTION: Partial<Record<DeliveryStatus, { title: string; customerMessage: string }>> = {
+  delivery_failed: {
+    title: "Delivery attempt failed",
+    customerMessage: "We couldn't deliver your order. Pick a slot for the next attempt.",
+  },
+  returned_to_origin: {
+    title: "Order returned to store",
+    customerMessage: "Your order is on its way back to the store. We'll be in touch about next steps.",
+  },
+  cancelled: {
+    title: "Delivery cancelled",
+    customerMessage: "The courier cancelled your delivery. Our team will book a new one.",
+  },
+};
+
+/**
+ * Tell the customer and every admin about a failed attempt, RTO or courier cancellation
+ */
+async function notifyDeliveryException(
+  delivery: Delivery,
+  notice: { title: string; customerMessage: string }
+): Promise<void> {
+  const { data: order } = await requireServiceClient(WebhookEventError)
+    .from("orders")
+    .select("id, order_number, customer_id")
+    .eq("id", delivery.orderId)
+    .maybeSingle();
+
+  if (!order) return;
+
+  const data = { orderId: order.id, deliveryId: delivery.id, deliveryStatus: delivery.status };
+
+  await notifyUsers([order.customer_id], {
+    title: notice.title,
+    message: `Order #${order.order_number}: ${notice.customerMessage}`,
+    data,
+  });
+
+  await notifyUsers(await getAdminIds(), {
+    title: notice.title,
+    message: `Order #${order.order_number}${delivery.failureReason && delivery.status === "delivery_failed" ? `: ${delivery.failureReason}` : ""}`,
+    data,
+  });
+
+  logger.warn("[Courier Webhook] Delivery exception", {
+    orderId: delivery.orderId,
+    deliveryId: delivery.id,
+    status: delivery.status,
+    reason: delivery.failureReason,
+  });
+}
+
+/**
+ * Bring the order in line with its booking
+ * Only the transitions that actually happen notify the customer, so replays stay quiet
+ */
+async function syncOrderWithDelivery(delivery: Delivery): Promise<void> {
+  const { data: order, error } = await requireServiceClient(WebhookEventError)
+    .from("orders")
+    .select("id, order_number, customer_id, status")
+    .eq("id", delivery.orderId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Courier Webhook] Failed to fetch order", { orderId: delivery.orderId, error });
+    throw new Error("Failed to fetch order");
+  }
+
+  if (!order) return;
+
+  let status = order.status as OrderStatus;
+  const metadata = { deliveryId: delivery.id, awb: delivery.awb };
+  const isOnTheWay = delivery.status === "picked_up" || delivery.status === "in_transit" || delivery.status === "delivered";
+
+  if (isOnTheWay && status === ORDER_STATUS.READY_FOR_PICKUP) {
+    await transitionOrderStatus({
+      orderId: order.id,
+      to: ORDER_STATUS.OUT_FOR_DELIVERY,
+      actor: SYSTEM_ACTOR,
+      reason: "Picked up by courier",
+      metadata,
+    });
+    status = ORDER_STATUS.OUT_FOR_DELIVERY;
+
+    if (delivery.status !== "delivered") {
+      await notifyUsers([order.customer_id], {
+        title: "Out for delivery",
+        message: `Your order #${order.order_number} has been picked up and is on its way.`,
+        data: { orderId: order.id, trackingUrl: delivery.trackingUrl },
+      });
+    }
+  }
+
+  if (delivery.status === "delivered" && status === ORDER_STATUS.OUT_FOR_DELIVERY) {
+    // Credits the order's cashback
+    await transitionOrderStatus({
+      orderId: order.id,
+      to: ORDER_STATUS.DELIVERED,
+      actor: SYSTEM_ACTOR,
+      reason: "Delivered by courier",
+      metadata,
+      updates: { delivered_at: delivery.deliveredAt || new Date().toISOString() },
+    });
+
+    await notifyUsers([order.customer_id], {
+      title: "Order delivered",
+      message: `Your order #${order.order_number} has been delivered.`,
+      data: { orderId: order.id },
+    });
+  }
+}
+
+/**
+ * Apply a courier status callback (live delivery or admin replay)
+ * Errors propagate so the webhook event is marked failed
+ */
+export async function processCourierUpdate(
+  provider: CourierProviderId,
+  update: CourierStatusUpdate
+): Promise<WebhookOutcome> {
+  const delivery = await findDelivery({
+    provider,
+    providerDeliveryId: update.providerDeliveryId,
+    awb: update.awb,
+  });
+
+  if (!delivery) {
+    return { status: "ignored", reason: "Delivery not found" };
+  }
+
+  const { delivery: updated, advanced } = await applyDeliveryStatusUpdate(delivery, {
+    status: update.status,
+    at: update.at,
+    location: update.location,
+    note: update.remarks,
+    riderName: update.rider?.name,
+    riderPhone: update.rider?.phone,
+    failureReason: update.remarks,
+  });
+
+  if (update.status === "assigned" && update.rider?.phone) {
+    const { error } = await requireServiceClient(WebhookEventError)
+      .from("orders")
+      .update({ delivery_partner_phone: update.rider.phone, updated_at: new Date().toISOString() })
+      .eq("id", updated.orderId);
+
+    if (error) {
+      logger.error("[Courier Webhook] Failed to save rider phone", { orderId: updated.orderId, error });
+    }
+  }
+
+  const notice = NEEDS_ATTENTION[update.status];
+  if (advanced && notice) {
+    await notifyDeliveryException(updated, notice);
+  }
+
+  await syncOrderWithDelivery(updated);
+
+  if (!advanced) {
+    return { status: "processed", reason: `Delivery is already ${updated.status}` };
+  }
+
+  return { status: "processed" };
+}
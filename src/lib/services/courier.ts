@@ -0,0 +1,127 @@
+/**
+ * Courier providers
+ * Deliveries talk to the courier through CourierProvider. Nimbus is the live
+ * provider; the simulated courier (src/lib/services/simulated-courier.ts) accepts
+ * bookings locally and plays back status callbacks, so the order-to-delivered
+ * path can be exercised without an outside service.
+ */
+
+import { env, isProduction } from "@/lib/config/env";
+import { getNimbusService } from "@/lib/services/nimbus";
+import { getSimulatedCourier } from "@/lib/services/simulated-courier";
+
+export type CourierProviderId = "nimbus" | "simulated";
+
+export const COURIER_PROVIDERS: CourierProviderId[] = ["nimbus", "simulated"];
+
+export interface DeliveryRequest {
+  orderId: string;
+  pickupAddress: {
+    name: string;
+    phone: string;
+    address: string;
+    city: string;
+    pincode: string;
+  };
+  deliveryAddress: {
+    name: string;
+    phone: string;
+    address: string;
+    city: string;
+    pincode: string;
+  };
+  weight: number; // kg
+  type: "local" | "intercity";
+  deliveryWindow?: DeliverySlot; // Scheduled slot the parcel has to arrive in
+  surprise?: boolean; // No call to the recipient before arrival; deliveryAddress.phone is the sender's
+  instructions?: string; // Shown to the rider
+}
+
+export interface DeliveryBooking {
+  deliveryId: string;
+  partnerId: string;
+  awb: string | null;
+  trackingUrl: string | null;
+  estimatedTime: string;
+}
+
+/** A delivery window for a reattempt or reschedule (ISO 8601) */
+export interface DeliverySlot {
+  start: string;
+  end: string;
+}
+
+/** Courier statuses we act on, whatever the provider calls them */
+export type CourierDeliveryStatus =
+  | "assigned"
+  | "picked_up"
+  | "in_transit"
+  | "delivered"
+  | "delivery_failed"
+  | "reattempt_scheduled"
+  | "returned_to_origin"
+  | "cancelled";
+
+/** A courier's price and transit time for a parcel, or why it can't take it */
+export interface CourierQuote {
+  provider: CourierProviderId;
+  serviceable: boolean; // pincode pair and weight
+  price: number | null; // INR
+  estimatedDays: number | null;
+  reason?: string;
+}
+
+export interface CourierTracking {
+  status: string;
+  location: { lat: number; lng: number } | null;
+  estimatedArrival?: string;
+}
+
+/**
+ * A status callback from the courier, normalised from the provider's payload
+ */
+export interface CourierStatusUpdate {
+  providerDeliveryId?: string | null;
+  awb?: string | null;
+  status: CourierDeliveryStatus;
+  at?: string; // courier's timestamp; defaults to now
+  location?: string | null;
+  remarks?: string | null;
+  rider?: { name?: string; phone?: string } | null;
+}
+
+export interface CourierProvider {
+  readonly id: CourierProviderId;
+  quoteDelivery(request: DeliveryRequest): Promise<CourierQuote>;
+  createDelivery(request: DeliveryRequest): Promise<DeliveryBooking>;
+  cancelDelivery(deliveryId: string, reason: string): Promise<void>;
+  rescheduleDelivery(deliveryId: string, slot: DeliverySlot): Promise<void>;
+  requestReattempt(deliveryId: string, slot: DeliverySlot): Promise<void>;
+  trackDelivery(deliveryId: string): Promise<CourierTracking>;
+}
+
+/**
+ * Provider new bookings go to: COURIER_PROVIDER, else Nimbus when it is configured.
+ * Outside production an unconfigured Nimbus falls back to the simulated courier.
+ */
+export function getDefaultCourierProviderId(): CourierProviderId {
+  if (env.COURIER_PROVIDER) return env.COURIER_PROVIDER;
+  return env.NIMBUS_API_URL || isProduction ? "nimbus" : "simulated";
+}
+
+/**
+ * Whether new bookings can go to the provider: Nimbus needs NIMBUS_API_URL, the
+ * simulated courier is off in production unless it is the chosen provider
+ */
+export function isCourierEnabled(id: CourierProviderId): boolean {
+  if (id === "nimbus") return Boolean(env.NIMBUS_API_URL);
+  return !isProduction || env.COURIER_PROVIDER === "simulated";
+}
+
+/**
+ * Get a courier provider by ID (defaults to the provider new bookings go to)
+ * Existing bookings must be handled by the provider that made them.
+ */
+export function getCourierProvider(id: CourierProviderId = getDefaultCourierProviderId()): CourierProvider {
+  return id === "simulated" ? getSimulatedCourier() : getNimbusService();
+}
@@ -0,0 +1,780 @@
+/**
+ * Deliveries
+ * Books an order with the courier once it is ready for pickup (intercity orders go
+ * to the courier picked by rate shopping), keeps the booking's status, rider and
+ * event timeline in sync with courier updates, and handles the exceptions: failed
+ * attempts, reattempts, reschedules, cancellations and RTO
+ */
+
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import { IST_OFFSET, toIstDate } from "@/lib/utils/ist";
+import { appConfig } from "@/lib/config/app";
+import { calculateOrderWeight } from "@/lib/utils/order-helpers";
+import {
+  getCourierProvider,
+  type CourierProviderId,
+  type DeliveryRequest,
+  type DeliverySlot,
+} from "@/lib/services/courier";
+import { selectCourier, recordCourierSelection } from "@/lib/services/courier-selection";
+
+export type DeliveryProvider = CourierProviderId;
+export type DeliveryStatus =
+  | "pending"
+  | "booked"
+  | "assigned"
+  | "picked_up"
+  | "in_transit"
+  | "delivered"
+  | "delivery_failed" // courier attempt failed; waiting for a reattempt slot
+  | "reattempt_scheduled"
+  | "returned_to_origin" // RTO - parcel is going back to the vendor
+  | "failed" // booking rejected by the courier
+  | "cancelled";
+
+export interface DeliveryEvent {
+  status: DeliveryStatus;
+  at: string;
+  location?: string | null;
+  note?: string | null;
+}
+
+export interface Delivery {
+  id: string;
+  orderId: string;
+  provider: DeliveryProvider;
+  providerDeliveryId: string | null;
+  awb: string | null;
+  trackingUrl: string | null;
+  status: DeliveryStatus;
+  riderName: string | null;
+  riderPhone: string | null;
+  estimatedTime: string | null;
+  events: DeliveryEvent[];
+  failureReason: string | null;
+  failedAttempts: number;
+  scheduledSlotStart: string | null;
+  scheduledSlotEnd: string | null;
+  cancellationReason: string | null;
+  bookedAt: string | null;
+  pickedUpAt: string | null;
+  deliveredAt: string | null;
+  cancelledAt: string | null;
+  returnedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeliveryStatusUpdate {
+  status: DeliveryStatus;
+  at?: string; // courier's timestamp; defaults to now
+  location?: string | null;
+  note?: string | null;
+  riderName?: string | null;
+  riderPhone?: string | null;
+  failureReason?: string | null;
+}
+
+export interface ReattemptSlot {
+  date: string; // YYYY-MM-DD (IST)
+  slot: string; // appConfig.delivery.reattempt.slots[].id
+  label: string;
+  start: string; // ISO 8601
+  end: string;
+}
+
+export const DELIVERY_COLUMNS =
+  "id, order_id, provider, provider_delivery_id, awb, tracking_url, status, rider_name, rider_phone, estimated_time, events, failure_reason, failed_attempts, scheduled_slot_start, scheduled_slot_end, cancellation_reason, booked_at, picked_up_at, delivered_at, cancelled_at, returned_at, created_at, updated_at";
+
+/**
+ * Statuses a booking can move to from each status
+ * Updates outside this map (e.g. assigned after picked_up) only go on the timeline
+ */
+const DELIVERY_TRANSITIONS: Record<DeliveryStatus, readonly DeliveryStatus[]> = {
+  pending: ["booked", "failed", "cancelled"],
+  booked: ["assigned", "picked_up", "in_transit", "delivered", "delivery_failed", "cancelled"],
+  assigned: ["picked_up", "in_transit", "delivered", "delivery_failed", "cancelled"],
+  picked_up: ["in_transit", "delivered", "delivery_failed", "returned_to_origin"],
+  in_transit: ["delivered", "delivery_failed", "returned_to_origin"],
+  delivery_failed: ["reattempt_scheduled", "in_transit", "delivered", "returned_to_origin", "cancelled"],
+  reattempt_scheduled: ["in_transit", "delivered", "delivery_failed", "returned_to_origin", "cancelled"],
+  delivered: [],
+  returned_to_origin: [],
+  failed: [],
+  cancelled: [],
+};
+
+// Bookings that no longer hold the order - it can be booked again
+export const CLOSED_DELIVERY_STATUSES: DeliveryStatus[] = ["failed", "cancelled", "returned_to_origin"];
+
+// Bookings that need an admin: failed attempts, rejected or cancelled bookings and returns
+export const EXCEPTION_DELIVERY_STATUSES: DeliveryStatus[] = ["delivery_failed", "failed", "cancelled", "returned_to_origin"];
+
+// Orders that are with the vendor or the courier
+const BOOKABLE_ORDER_STATUSES = ["ready_for_pickup", "out_for_delivery"];
+
+/**
+ * Custom error class for delivery bookings and updates
+ */
+export class DeliveryError extends ServiceError {
+  name = "DeliveryError";
+}
+
+export function mapDelivery(row: Record<string, unknown>): Delivery {
+  return {
+    id: row.id as string,
+    orderId: row.order_id as string,
+    provider: row.provider as DeliveryProvider,
+    providerDeliveryId: (row.provider_delivery_id as string | null) ?? null,
+    awb: (row.awb as string | null) ?? null,
+    trackingUrl: (row.tracking_url as string | null) ?? null,
+    status: row.status as DeliveryStatus,
+    riderName: (row.rider_name as string | null) ?? null,
+    riderPhone: (row.rider_phone as string | null) ?? null,
+    estimatedTime: (row.estimated_time as string | null) ?? null,
+    events: (row.events as DeliveryEvent[] | null) || [],
+    failureReason: (row.failure_reason as string | null) ?? null,
+    failedAttempts: Number(row.failed_attempts ?? 0),
+    scheduledSlotStart: (row.scheduled_slot_start as string | null) ?? null,
+    scheduledSlotEnd: (row.scheduled_slot_end as string | null) ?? null,
+    cancellationReason: (row.cancellation_reason as string | null) ?? null,
+    bookedAt: (row.booked_at as string | null) ?? null,
+    pickedUpAt: (row.picked_up_at as string | null) ?? null,
+    deliveredAt: (row.delivered_at as string | null) ?? null,
+    cancelledAt: (row.cancelled_at as string | null) ?? null,
+    returnedAt: (row.returned_at as string | null) ?? null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+/**
+ * Deliveries booked for an order, newest first
+ */
+export async function getOrderDeliveries(orderId: string): Promise<Delivery[]> {
+  const { data, error } = await requireServiceClient(DeliveryError)
+    .from("deliveries")
+    .select(DELIVERY_COLUMNS)
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    logger.error("[Deliveries] Failed to fetch deliveries", { orderId, error });
+    throw new DeliveryError("Failed to fetch deliveries", "DELIVERY_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map(mapDelivery);
+}
+
+/**
+ * The order's live booking (anything not failed, cancelled or returned), if any
+ */
+export async function getActiveOrderDelivery(orderId: string): Promise<Delivery | null> {
+  const { data, error } = await requireServiceClient(DeliveryError)
+    .from("deliveries")
+    .select(DELIVERY_COLUMNS)
+    .eq("order_id", orderId)
+    .not("status", "in", `(${CLOSED_DELIVERY_STATUSES.join(",")})`)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Deliveries] Failed to fetch active delivery", { orderId, error });
+    throw new DeliveryError("Failed to fetch delivery", "DELIVERY_FETCH_FAILED", 500);
+  }
+
+  return data ? mapDelivery(data) : null;
+}
+
+/**
+ * Find a booking from a courier update by the courier's delivery ID, falling back to the AWB
+ */
+export async function findDelivery(params: {
+  provider: DeliveryProvider;
+  providerDeliveryId?: string | null;
+  awb?: string | null;
+}): Promise<Delivery | null> {
+  if (!params.providerDeliveryId && !params.awb) return null;
+
+  let query = requireServiceClient(DeliveryError)
+    .from("deliveries")
+    .select(DELIVERY_COLUMNS)
+    .eq("provider", params.provider)
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  query = params.providerDeliveryId
+    ? query.eq("provider_delivery_id", params.providerDeliveryId)
+    : query.eq("awb", params.awb as string);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    logger.error("[Deliveries] Failed to find delivery", { ...params, error });
+    throw new DeliveryError("Failed to fetch delivery", "DELIVERY_FETCH_FAILED", 500);
+  }
+
+  return data ? mapDelivery(data) : null;
+}
+
+/**
+ * Build the courier request from the order, its vendor's store and product weights
+ */
+async function buildDeliveryRequest(orderId: string): Promise<{ request: DeliveryRequest; vendorId: string }> {
+  const supabase = requireServiceClient(DeliveryError);
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, vendor_id, customer_id, items, delivery_type, delivery_address, delivery_slot_start, delivery_slot_end, is_surprise")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    logger.error("[Deliveries] Failed to fetch order", { orderId, error: orderError });
+    throw new DeliveryError("Failed to fetch order", "ORDER_FETCH_FAILED", 500);
+  }
+
+  if (!order) {
+    throw new DeliveryError("Order not found", "ORDER_NOT_FOUND", 404);
+  }
+
+  const { data: vendor, error: vendorError } = await supabase
+    .from("vendors")
+    .select("name, store_address, city, users(phone)")
+    .eq("id", order.vendor_id)
+    .maybeSingle();
+
+  if (vendorError) {
+    logger.error("[Deliveries] Failed to fetch vendor", { orderId, error: vendorError });
+    throw new DeliveryError("Failed to fetch vendor", "VENDOR_FETCH_FAILED", 500);
+  }
+
+  const items = (order.items || []) as Array<{ productId: string; quantity: number }>;
+  const { data: products } = await supabase
+    .from("products")
+    .select("id, weight_grams")
+    .in("id", items.map((item) => item.productId));
+
+  const weightByProduct = new Map((products || []).map((product) => [product.id, product.weight_grams as number | null]));
+  const deliveryAddress = order.delivery_address as DeliveryRequest["deliveryAddress"];
+
+  // Surprise deliveries give the courier the sender's number so the recipient isn't called
+  let customerPhone = order.is_surprise ? "" : deliveryAddress.phone;
+  if (!customerPhone) {
+    const { data: customer } = await supabase
+      .from("users")
+      .select("phone")
+      .eq("id", order.customer_id)
+      .maybeSingle();
+    customerPhone = customer?.phone || "";
+  }
+
+  const vendorUser = vendor?.users as { phone?: string } | Array<{ phone?: string }> | null | undefined;
+  const vendorPhone = (Array.isArray(vendorUser) ? vendorUser[0]?.phone : vendorUser?.phone) || "";
+
+  const request: DeliveryRequest = {
+    orderId: order.id,
+    pickupAddress: {
+      name: vendor?.name || "Vendor",
+      phone: vendorPhone,
+      address: vendor?.store_address || "",
+      city: vendor?.city || "",
+      // Store address format: "Address, City, Pincode"
+      pincode: vendor?.store_address?.match(/\b\d{6}\b/)?.[0] || "",
+    },
+    deliveryAddress: {
+      name: deliveryAddress.name,
+      phone: customerPhone,
+      address: deliveryAddress.address,
+      city: deliveryAddress.city,
+      pincode: deliveryAddress.pincode,
+    },
+    weight: calculateOrderWeight(items.map((item) => {
+      const weightGrams = weightByProduct.get(item.productId);
+      return { quantity: item.quantity, weight: weightGrams ? weightGrams / 1000 : undefined };
+    })),
+    type: order.delivery_type === "intercity" ? "intercity" : "local",
+    ...(order.delivery_slot_start && order.delivery_slot_end && {
+      deliveryWindow: { start: order.delivery_slot_start, end: order.delivery_slot_end },
+    }),
+    ...(order.is_surprise && {
+      surprise: true,
+      instructions: `Surprise delivery for ${deliveryAddress.name}: do not call the recipient before arrival. ` +
+        `For directions or access, call the sender on ${customerPhone}.`,
+    }),
+  };
+
+  return { request, vendorId: order.vendor_id };
+}
+
+/**
+ * Book the order with the courier
+ * Idempotent: returns the live booking when the order already has one. A pending
+ * row is written first so concurrent calls can't book the same order twice.
+ */
+export async function bookOrderDelivery(orderId: string): Promise<Delivery> {
+  const existing = await getActiveOrderDelivery(orderId);
+  if (existing) {
+    return existing;
+  }
+
+  const supabase = requireServiceClient(DeliveryError);
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, status")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    logger.error("[Deliveries] Failed to fetch order", { orderId, error: orderError });
+    throw new DeliveryError("Failed to fetch order", "ORDER_FETCH_FAILED", 500);
+  }
+
+  if (!order) {
+    throw new DeliveryError("Order not found", "ORDER_NOT_FOUND", 404);
+  }
+
+  if (!BOOKABLE_ORDER_STATUSES.includes(order.status)) {
+    throw new DeliveryError(`A ${String(order.status).replace(/_/g, " ")} order cannot be booked for delivery`, "ORDER_NOT_BOOKABLE", 409);
+  }
+
+  let courier = getCourierProvider();
+  const { data: pending, error: insertError } = await supabase
+    .from("deliveries")
+    .insert({
+      order_id: orderId,
+      provider: courier.id,
+      status: "pending",
+    })
+    .select(DELIVERY_COLUMNS)
+    .single();
+
+  if (insertError || !pending) {
+    // deliveries_active_order_id_idx: another request is booking this order
+    if (insertError?.code === "23505") {
+      const active = await getActiveOrderDelivery(orderId);
+      if (active) return active;
+    }
+    logger.error("[Deliveries] Failed to create delivery", { orderId, error: insertError });
+    throw new DeliveryError("Failed to create delivery", "DELIVERY_CREATE_FAILED", 500);
+  }
+
+  let booking;
+  try {
+    const { request, vendorId } = await buildDeliveryRequest(orderId);
+
+    // Intercity parcels go to the best quote (or an admin-pinned courier)
+    if (request.type === "intercity") {
+      const selection = await selectCourier(request, vendorId);
+      await recordCourierSelection(orderId, selection);
+      courier = getCourierProvider(selection.provider);
+    }
+
+    booking = await courier.createDelivery(request);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Courier booking failed";
+    const failedAt = new Date().toISOString();
+
+    await supabase
+      .from("deliveries")
+      .update({
+        status: "failed",
+        failure_reason: message,
+        events: [{ status: "failed", at: failedAt, note: message }],
+        updated_at: failedAt,
+      })
+      .eq("id", pending.id);
+
+    logger.error("[Deliveries] Courier booking failed", { orderId, error });
+    throw new DeliveryError("Failed to book delivery with the courier", "DELIVERY_BOOKING_FAILED", 502);
+  }
+
+  const bookedAt = new Date().toISOString();
+  const { data: booked, error: updateError } = await supabase
+    .from("deliveries")
+    .update({
+      provider: courier.id,
+      provider_delivery_id: booking.deliveryId,
+      awb: booking.awb,
+      tracking_url: booking.trackingUrl,
+      estimated_time: booking.estimatedTime,
+      status: "booked",
+      events: [{ status: "booked", at: bookedAt }],
+      booked_at: bookedAt,
+      updated_at: bookedAt,
+    })
+    .eq("id", pending.id)
+    .select(DELIVERY_COLUMNS)
+    .single();
+
+  if (updateError || !booked) {
+    // The courier has the booking - log loudly so the row can be fixed by hand
+    logger.error("[Deliveries] Failed to save booking", {
+      orderId,
+      deliveryId: booking.deliveryId,
+      awb: booking.awb,
+      error: updateError,
+    });
+    throw new DeliveryError("Failed to save delivery booking", "DELIVERY_UPDATE_FAILED", 500);
+  }
+
+  logger.info("[Deliveries] Delivery booked", {
+    orderId,
+    provider: courier.id,
+    deliveryId: booking.deliveryId,
+    awb: booking.awb,
+  });
+
+  return mapDelivery(booked);
+}
+
+/**
+ * Save changes to a booking, adding an event to its timeline
+ * Matches on updated_at so two updates for the same booking can't drop each other's events
+ */
+async function saveDeliveryChanges(
+  delivery: Delivery,
+  changes: Record<string, unknown>,
+  event: DeliveryEvent
+): Promise<Delivery> {
+  const { data, error } = await requireServiceClient(DeliveryError)
+    .from("deliveries")
+    .update({
+      ...changes,
+      events: [...delivery.events, event].sort((a, b) => a.at.localeCompare(b.at)),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", delivery.id)
+    .eq("updated_at", delivery.updatedAt)
+    .select(DELIVERY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Deliveries] Failed to update delivery", { deliveryId: delivery.id, status: event.status, error });
+    throw new DeliveryError("Failed to update delivery", "DELIVERY_UPDATE_FAILED", 500);
+  }
+
+  if (!data) {
+    throw new DeliveryError("Delivery was updated by someone else. Please refresh.", "DELIVERY_UPDATE_CONFLICT", 409);
+  }
+
+  return mapDelivery(data);
+}
+
+/**
+ * Apply a courier status update to a booking
+ * Every update is added to the timeline, but the status only follows
+ * DELIVERY_TRANSITIONS, so an update delivered late (e.g. assigned after
+ * picked_up) can't knock it back. Returns the updated booking and whether its
+ * status changed.
+ */
+export async function applyDeliveryStatusUpdate(
+  delivery: Delivery,
+  update: DeliveryStatusUpdate
+): Promise<{ delivery: Delivery; advanced: boolean }> {
+  const at = update.at || new Date().toISOString();
+
+  // Replayed update - already on the timeline
+  if (delivery.events.some((existing) => existing.status === update.status && existing.at === at)) {
+    return { delivery, advanced: false };
+  }
+
+  const advanced = DELIVERY_TRANSITIONS[delivery.status].includes(update.status);
+  const changes: Record<string, unknown> = {};
+
+  if (update.riderName) changes.rider_name = update.riderName;
+  if (update.riderPhone) changes.rider_phone = update.riderPhone;
+
+  if (advanced) {
+    changes.status = update.status;
+    if (update.status === "picked_up" || (update.status === "in_transit" && !delivery.pickedUpAt)) {
+      changes.picked_up_at = at;
+    }
+    if (update.status === "delivered") changes.delivered_at = at;
+    if (update.status === "delivery_failed") {
+      changes.failed_attempts = delivery.failedAttempts + 1;
+      changes.failure_reason = update.failureReason || update.note || null;
+      changes.scheduled_slot_start = null;
+      changes.scheduled_slot_end = null;
+    }
+    if (update.status === "returned_to_origin") changes.returned_at = at;
+    if (update.status === "cancelled") changes.cancelled_at = at;
+  }
+
+  const updated = await saveDeliveryChanges(delivery, changes, {
+    status: update.status,
+    at,
+    location: update.location ?? null,
+    note: update.note ?? null,
+  });
+
+  return { delivery: updated, advanced };
+}
+
+export async function getDelivery(id: string): Promise<Delivery> {
+  const { data, error } = await requireServiceClient(DeliveryError)
+    .from("deliveries")
+    .select(DELIVERY_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Deliveries] Failed to fetch delivery", { id, error });
+    throw new DeliveryError("Failed to fetch delivery", "DELIVERY_FETCH_FAILED", 500);
+  }
+
+  if (!data) {
+    throw new DeliveryError("Delivery not found", "DELIVERY_NOT_FOUND", 404);
+  }
+
+  return mapDelivery(data);
+}
+
+/**
+ * Slots a failed delivery can be reattempted in: today (remaining slots) and the
+ * next appConfig.delivery.reattempt.windowDays days
+ */
+export function getReattemptSlots(now: Date = new Date()): ReattemptSlot[] {
+  const { windowDays, slots } = appConfig.delivery.reattempt;
+  const today = new Date(`${toIstDate(now)}T00:00:00${IST_OFFSET}`);
+  const available: ReattemptSlot[] = [];
+
+  for (let day = 0; day <= windowDays; day++) {
+    const date = toIstDate(new Date(today.getTime() + day * 24 * 60 * 60 * 1000));
+
+    for (const slot of slots) {
+      const start = new Date(`${date}T${slot.start}:00${IST_OFFSET}`);
+      if (start <= now) continue;
+
+      available.push({
+        date,
+        slot: slot.id,
+        label: slot.label,
+        start: start.toISOString(),
+        end: new Date(`${date}T${slot.end}:00${IST_OFFSET}`).toISOString(),
+      });
+    }
+  }
+
+  return available;
+}
+
+function resolveReattemptSlot(date: string, slotId: string): ReattemptSlot {
+  const slot = getReattemptSlots().find((candidate) => candidate.date === date && candidate.slot === slotId);
+  if (!slot) {
+    throw new DeliveryError("That slot is no longer available. Please pick another.", "SLOT_UNAVAILABLE", 400);
+  }
+  return slot;
+}
+
+function toCourierSlot(slot: ReattemptSlot): DeliverySlot {
+  return { start: slot.start, end: slot.end };
+}
+
+/**
+ * Ask the courier to reattempt a failed delivery in the chosen slot
+ */
+export async function scheduleDeliveryReattempt(
+  delivery: Delivery,
+  choice: { date: string; slot: string }
+): Promise<Delivery> {
+  if (delivery.status !== "delivery_failed") {
+    throw new DeliveryError(
+      delivery.status === "reattempt_scheduled"
+        ? "A reattempt is already scheduled"
+        : "Only failed deliveries can be reattempted",
+      "DELIVERY_NOT_FAILED",
+      409
+    );
+  }
+
+  const slot = resolveReattemptSlot(choice.date, choice.slot);
+
+  if (delivery.providerDeliveryId) {
+    try {
+      await getCourierProvider(delivery.provider).requestReattempt(delivery.providerDeliveryId, toCourierSlot(slot));
+    } catch (error) {
+      logger.error("[Deliveries] Reattempt request failed", { deliveryId: delivery.id, error });
+      throw new DeliveryError("The courier could not schedule a reattempt", "COURIER_REQUEST_FAILED", 502);
+    }
+  }
+
+  const updated = await saveDeliveryChanges(
+    delivery,
+    {
+      status: "reattempt_scheduled",
+      scheduled_slot_start: slot.start,
+      scheduled_slot_end: slot.end,
+    },
+    { status: "reattempt_scheduled", at: new Date().toISOString(), note: `${slot.date} ${slot.label}` }
+  );
+
+  logger.info("[Deliveries] Reattempt scheduled", { deliveryId: delivery.id, orderId: delivery.orderId, slot });
+
+  return updated;
+}
+
+/**
+ * Move a booking's next attempt (first attempt or scheduled reattempt) to another slot
+ */
+export async function rescheduleDelivery(
+  delivery: Delivery,
+  choice: { date: string; slot: string }
+): Promise<Delivery> {
+  if (!["booked", "assigned", "reattempt_scheduled"].includes(delivery.status)) {
+    throw new DeliveryError(`A ${delivery.status.replace(/_/g, " ")} delivery cannot be rescheduled`, "DELIVERY_NOT_RESCHEDULABLE", 409);
+  }
+
+  const slot = resolveReattemptSlot(choice.date, choice.slot);
+
+  if (delivery.providerDeliveryId) {
+    try {
+      await getCourierProvider(delivery.provider).rescheduleDelivery(delivery.providerDeliveryId, toCourierSlot(slot));
+    } catch (error) {
+      logger.error("[Deliveries] Reschedule request failed", { deliveryId: delivery.id, error });
+      throw new DeliveryError("The courier could not reschedule the delivery", "COURIER_REQUEST_FAILED", 502);
+    }
+  }
+
+  const updated = await saveDeliveryChanges(
+    delivery,
+    {
+      scheduled_slot_start: slot.start,
+      scheduled_slot_end: slot.end,
+    },
+    { status: delivery.status, at: new Date().toISOString(), note: `Rescheduled to ${slot.date} ${slot.label}` }
+  );
+
+  logger.info("[Deliveries] Delivery rescheduled", { deliveryId: delivery.id, orderId: delivery.orderId, slot });
+
+  return updated;
+}
+
+/**
+ * Cancel a booking with the courier
+ * Only bookings the courier doesn't have in hand can be cancelled; a parcel that
+ * is picked up or in transit has to come back as RTO.
+ */
+export async function cancelDelivery(delivery: Delivery, reason: string): Promise<Delivery> {
+  if (!DELIVERY_TRANSITIONS[delivery.status].includes("cancelled")) {
+    throw new DeliveryError(
+      delivery.status === "picked_up" || delivery.status === "in_transit"
+        ? "The parcel is already with the courier"
+        : `A ${delivery.status.replace(/_/g, " ")} delivery cannot be cancelled`,
+      "DELIVERY_NOT_CANCELLABLE",
+      409
+    );
+  }
+
+  if (delivery.providerDeliveryId) {
+    try {
+      await getCourierProvider(delivery.provider).cancelDelivery(delivery.providerDeliveryId, reason);
+    } catch (error) {
+      logger.error("[Deliveries] Cancellation request failed", { deliveryId: delivery.id, error });
+      throw new DeliveryError("The courier could not cancel the delivery", "COURIER_REQUEST_FAILED", 502);
+    }
+  }
+
+  const cancelledAt = new Date().toISOString();
+  const updated = await saveDeliveryChanges(
+    delivery,
+    {
+      status: "cancelled",
+      cancellation_reason: reason,
+      cancelled_at: cancelledAt,
+    },
+    { status: "cancelled", at: cancelledAt, note: reason }
+  );
+
+  logger.info("[Deliveries] Delivery cancelled", { deliveryId: delivery.id, orderId: delivery.orderId, reason });
+
+  return updated;
+}
+
+/**
+ * Cancel the order's live booking, if it has one that can still be cancelled
+ */
+export async function cancelOrderDelivery(orderId: string, reason: string): Promise<Delivery | null> {
+  const delivery = await getActiveOrderDelivery(orderId);
+  if (!delivery) return null;
+
+  if (!DELIVERY_TRANSITIONS[delivery.status].includes("cancelled")) {
+    logger.warn("[Deliveries] Live delivery cannot be cancelled", { orderId, deliveryId: delivery.id, status: delivery.status });
+    return null;
+  }
+
+  return cancelDelivery(delivery, reason);
+}
+
+export interface DeliveryException {
+  delivery: Delivery;
+  order: {
+    id: string;
+    orderNumber: string;
+    status: string;
+    customerId: string;
+    vendorName: string | null;
+    total: number;
+  };
+}
+
+/**
+ * Orders stuck in a delivery exception, oldest first: a failed attempt nobody has
+ * rescheduled, a booking that was rejected or cancelled, or a parcel returned to origin.
+ * Closed bookings drop out once the order has been booked again or cancelled.
+ */
+export async function listDeliveryExceptions(): Promise<DeliveryException[]> {
+  const supabase = requireServiceClient(DeliveryError);
+
+  const { data, error } = await supabase
+    .from("deliveries")
+    .select(`${DELIVERY_COLUMNS}, orders!inner(id, order_number, status, customer_id, total, vendors(name))`)
+    .in("status", EXCEPTION_DELIVERY_STATUSES)
+    .in("orders.status", ["ready_for_pickup", "out_for_delivery"])
+    .order("updated_at", { ascending: true })
+    .limit(appConfig.pagination.maxLimit);
+
+  if (error) {
+    logger.error("[Deliveries] Failed to list delivery exceptions", error);
+    throw new DeliveryError("Failed to fetch delivery exceptions", "DELIVERY_FETCH_FAILED", 500);
+  }
+
+  const rows = data || [];
+  if (rows.length === 0) return [];
+
+  // Latest booking per order - an older failed booking is superseded by a rebooking
+  const { data: bookings, error: bookingsError } = await supabase
+    .from("deliveries")
+    .select("id, order_id, created_at")
+    .in("order_id", Array.from(new Set(rows.map((row) => row.order_id as string))))
+    .order("created_at", { ascending: false });
+
+  if (bookingsError) {
+    logger.error("[Deliveries] Failed to fetch bookings for exceptions", bookingsError);
+    throw new DeliveryError("Failed to fetch delivery exceptions", "DELIVERY_FETCH_FAILED", 500);
+  }
+
+  const latestByOrder = new Map<string, string>();
+  for (const booking of bookings || []) {
+    if (!latestByOrder.has(booking.order_id)) latestByOrder.set(booking.order_id, booking.id);
+  }
+
+  return rows
+    .filter((row) => latestByOrder.get(row.order_id as string) === row.id)
+    .map((row) => {
+      const order = (Array.isArray(row.orders) ? row.orders[0] : row.orders) as Record<string, unknown>;
+      const vendor = (Array.isArray(order.vendors) ? order.vendors[0] : order.vendors) as { name?: string } | null;
+      return {
+        delivery: mapDelivery(row),
+        order: {
+          id: order.id as string,
+          orderNumber: order.order_number as string,
+          status: order.status as string,
+          customerId: order.customer_id as string,
+          vendorName: vendor?.name ?? null,
+          total: parseFloat(String(order.total ?? 0)),
+        },
+      };
+    });
+}
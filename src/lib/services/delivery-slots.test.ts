@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+import { claimDeliverySlot, listDeliverySlots, resolveDeliverySlot, type ScheduledDeliverySlot } from "./delivery-slots";
+
+// Monday 9 March 2026, 09:00 IST
+const NOW = new Date("2026-03-09T03:30:00Z");
+const MINUTE = 60 * 1000;
+
+const SLOT: ScheduledDeliverySlot = {
+  date: "2026-03-12",
+  slot: "afternoon",
+  label: "1 PM - 5 PM",
+  start: "2026-03-12T07:30:00.000Z",
+  end: "2026-03-12T11:30:00.000Z",
+};
+
+let orderCount = 0;
+
+function seed(capacity = 2) {
+  state.db = createSupabaseFake();
+  state.db.tables.vendors = [{ id: "vendor-1", operating_hours: null, slot_capacity: capacity, midnight_delivery_enabled: false }];
+  state.db.tables.products = [{ id: "product-1", vendor_id: "vendor-1", is_personalizable: false, mockup_sla_hours: null }];
+  state.db.tables.orders = [];
+  orderCount = 0;
+
+  // Mirrors claim_delivery_slot() in 0055_unpaid_slot_holds.sql
+  state.db.rpcs.claim_delivery_slot = (args, tables) => {
+    const order = tables.orders.find((row) => row.id === args.p_order_id);
+    if (!order) throw { message: "SLOT_ORDER_NOT_FOUND" };
+
+    const vendor = tables.vendors.find((row) => row.id === order.vendor_id);
+    const capacity = Number(vendor?.slot_capacity ?? args.p_default_capacity);
+    const taken = tables.orders.filter((row) =>
+      row.vendor_id === order.vendor_id &&
+      row.delivery_slot_start === args.p_start &&
+      row.status !== "cancelled" &&
+      (!["pending", "failed"].includes(row.payment_status as string) || (row.created_at as string) >= (args.p_unpaid_cutoff as string)) &&
+      row.id !== order.id
+    ).length;
+    if (taken >= capacity) throw { message: "SLOT_FULL" };
+
+    Object.assign(order, {
+      delivery_slot_id: args.p_slot_id,
+      delivery_slot_start: args.p_start,
+      delivery_slot_end: args.p_end,
+    });
+    return capacity - taken - 1;
+  };
+}
+
+function placeOrder(order: Record<string, unknown> = {}): string {
+  const row = {
+    id: `order-${++orderCount}`,
+    vendor_id: "vendor-1",
+    status: "pending",
+    payment_status: "pending",
+    created_at: new Date().toISOString(),
+    ...order,
+  };
+  state.db!.tables.orders.push(row);
+  return row.id;
+}
+
+async function remaining() {
+  const slots = await listDeliverySlots({ vendorId: "vendor-1", productIds: ["product-1"], now: NOW });
+  return slots.find((slot) => slot.date === SLOT.date && slot.slot === SLOT.slot)?.remaining;
+}
+
+describe("claimDeliverySlot", () => {
+  beforeEach(() => seed());
+
+  it("holds a place until the slot is full", async () => {
+    expect(await claimDeliverySlot(placeOrder(), SLOT)).toBe(1);
+    expect(await claimDeliverySlot(placeOrder(), SLOT)).toBe(0);
+
+    await expect(claimDeliverySlot(placeOrder(), SLOT)).rejects.toMatchObject({ code: "SLOT_FULL", status: 409 });
+    expect(state.db!.tables.orders[2].delivery_slot_start).toBeUndefined();
+  });
+
+  it("writes the slot onto the order", async () => {
+    await claimDeliverySlot(placeOrder(), SLOT);
+
+    expect(state.db!.tables.orders[0]).toMatchObject({
+      delivery_slot_id: "afternoon",
+      delivery_slot_start: SLOT.start,
+      delivery_slot_end: SLOT.end,
+    });
+  });
+
+  it("doesn't count an order against its own claim", async () => {
+    const orderId = placeOrder();
+    await claimDeliverySlot(orderId, SLOT);
+
+    expect(await claimDeliverySlot(orderId, SLOT)).toBe(1);
+  });
+
+  it("gives the place back when an order is cancelled", async () => {
+    await claimDeliverySlot(placeOrder(), SLOT);
+    await claimDeliverySlot(placeOrder(), SLOT);
+
+    state.db!.tables.orders[0].status = "cancelled";
+
+    await expect(claimDeliverySlot(placeOrder(), SLOT)).resolves.toBe(0);
+  });
+
+  it("stops holding the place for an order left unpaid past the payment window", async () => {
+    await claimDeliverySlot(placeOrder({ payment_status: "completed" }), SLOT);
+    await claimDeliverySlot(placeOrder(), SLOT);
+
+    // The paid order keeps its place however old it is; the unpaid one lets go
+    const expired = new Date(Date.now() - 31 * MINUTE).toISOString();
+    state.db!.tables.orders[0].created_at = expired;
+    state.db!.tables.orders[1].created_at = expired;
+
+    await expect(claimDeliverySlot(placeOrder(), SLOT)).resolves.toBe(0);
+  });
+
+  it("reports other database failures as a 500", async () => {
+    await expect(claimDeliverySlot("missing-order", SLOT)).rejects.toMatchObject({ code: "SLOT_CLAIM_FAILED", status: 500 });
+  });
+});
+
+describe("listDeliverySlots", () => {
+  beforeEach(() => seed());
+
+  it("counts the places claimed and frees cancelled ones", async () => {
+    expect(await remaining()).toBe(2);
+
+    await claimDeliverySlot(placeOrder(), SLOT);
+    await claimDeliverySlot(placeOrder(), SLOT);
+    expect(await remaining()).toBe(0);
+    await expect(
+      resolveDeliverySlot({ vendorId: "vendor-1", productIds: ["product-1"], date: SLOT.date, slot: SLOT.slot, now: NOW })
+    ).rejects.toMatchObject({ code: "SLOT_FULL", status: 409 });
+
+    state.db!.tables.orders[1].status = "cancelled";
+    expect(await remaining()).toBe(1);
+    await expect(
+      resolveDeliverySlot({ vendorId: "vendor-1", productIds: ["product-1"], date: SLOT.date, slot: SLOT.slot, now: NOW })
+    ).resolves.toEqual(SLOT);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Scheduled delivery slots
+ * Local gift orders can be booked into a dated window (appConfig.delivery.scheduled.slots).
+ * A slot is offered when it falls inside the vendor's operating hours, starts after
+ * the order's mockup deadline (calculateMockupSLA) plus prep time, and the vendor
+ * still has room in it (vendors.slot_capacity). Vendors that take midnight surprise
+ * deliveries also get the appConfig.delivery.midnight slot, outside their hours.
+ * Orders claim their place through claim_delivery_slot() so concurrent checkouts
+ * can't overbook a slot. Orders still unpaid after appConfig.order.paymentWindowMinutes
+ * no longer hold their place.
+ */
+
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import { appConfig } from "@/lib/config/app";
+import { calculateMockupSLA, getOrderMockupSlaHours } from "@/lib/utils/sla";
+import { IST_OFFSET, getIstWeekday, toIstDate, type Weekday } from "@/lib/utils/ist";
+
+export type OperatingHours = Partial<Record<Weekday, { open: string; close: string }>>;
+
+export interface ScheduledDeliverySlot {
+  date: string; // YYYY-MM-DD (IST)
+  slot: string; // appConfig.delivery.scheduled.slots id
+  label: string;
+  start: string; // ISO timestamp
+  end: string;
+}
+
+export interface AvailableDeliverySlot extends ScheduledDeliverySlot {
+  remaining: number; // Places left for this vendor; 0 means full
+}
+
+/**
+ * Custom error class for scheduled delivery slots
+ */
+export class DeliverySlotError extends ServiceError {
+  name = "DeliverySlotError";
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Whether a slot id is the midnight surprise slot
+ */
+export function isMidnightSlot(slot: string): boolean {
+  return slot === appConfig.delivery.midnight.slot.id;
+}
+
+/**
+ * Vendor hours for a date; vendors that never set hours use appConfig defaults
+ */
+function getHoursForDate(hours: OperatingHours | null, date: string): { open: string; close: string } | null {
+  if (!hours || Object.keys(hours).length === 0) {
+    return appConfig.delivery.scheduled.defaultHours;
+  }
+  return hours[getIstWeekday(date)] ?? null;
+}
+
+/**
+ * Longest mockup SLA among the personalisable products
+ */
+async function getMockupSlaHours(vendorId: string, productIds: string[]): Promise<number> {
+  const { data, error } = await requireServiceClient(DeliverySlotError)
+    .from("products")
+    .select("id, is_personalizable, mockup_sla_hours")
+    .eq("vendor_id", vendorId)
+    .in("id", productIds);
+
+  if (error) {
+    logger.error("[Delivery Slots] Failed to fetch products", { vendorId, error });
+    throw new DeliverySlotError("Failed to fetch delivery slots", "SLOT_FETCH_FAILED", 500);
+  }
+
+  return getOrderMockupSlaHours(
+    (data || []).map((product) => ({
+      isPersonalizable: Boolean(product.is_personalizable),
+      mockupSlaHours: product.mockup_sla_hours ?? null,
+    }))
+  );
+}
+
+async function getVendorSlotSettings(
+  vendorId: string
+): Promise<{ hours: OperatingHours | null; capacity: number; midnightEnabled: boolean }> {
+  const { data, error } = await requireServiceClient(DeliverySlotError)
+    .from("vendors")
+    .select("id, operating_hours, slot_capacity, midnight_delivery_enabled")
+    .eq("id", vendorId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Delivery Slots] Failed to fetch vendor", { vendorId, error });
+    throw new DeliverySlotError("Failed to fetch delivery slots", "SLOT_FETCH_FAILED", 500);
+  }
+
+  if (!data) {
+    throw new DeliverySlotError("Vendor not found", "VENDOR_NOT_FOUND", 404);
+  }
+
+  return {
+    hours: (data.operating_hours as OperatingHours | null) ?? null,
+    capacity: data.slot_capacity ?? appConfig.delivery.scheduled.defaultCapacity,
+    midnightEnabled: Boolean(data.midnight_delivery_enabled),
+  };
+}
+
+/**
+ * Orders created before this that are still unpaid have been abandoned
+ */
+function getUnpaidCutoff(now: Date): Date {
+  return new Date(now.getTime() - appConfig.order.paymentWindowMinutes * 60 * 1000);
+}
+
+/**
+ * Places taken per slot start (ms) for a vendor in a time range
+ * Same rule as claim_delivery_slot(): cancelled and abandoned unpaid orders don't count
+ */
+async function countBookedSlots(vendorId: string, from: Date, to: Date, now: Date): Promise<Map<number, number>> {
+  const { data, error } = await requireServiceClient(DeliverySlotError)
+    .from("orders")
+    .select("delivery_slot_start")
+    .eq("vendor_id", vendorId)
+    .neq("status", "cancelled")
+    .or(`payment_status.not.in.(pending,failed),created_at.gte.${getUnpaidCutoff(now).toISOString()}`)
+    .gte("delivery_slot_start", from.toISOString())
+    .lt("delivery_slot_start", to.toISOString());
+
+  if (error) {
+    logger.error("[Delivery Slots] Failed to count booked slots", { vendorId, error });
+    throw new DeliverySlotError("Failed to fetch delivery slots", "SLOT_FETCH_FAILED", 500);
+  }
+
+  const booked = new Map<number, number>();
+  for (const row of data || []) {
+    const start = new Date(row.delivery_slot_start as string).getTime();
+    booked.set(start, (booked.get(start) ?? 0) + 1);
+  }
+  return booked;
+}
+
+/**
+ * Slots the vendor can deliver the products in, today through windowDays ahead
+ * Full slots are included with remaining 0 so the customer can see them.
+ */
+export async function listDeliverySlots(params: {
+  vendorId: string;
+  productIds: string[];
+  now?: Date;
+}): Promise<AvailableDeliverySlot[]> {
+  const now = params.now ?? new Date();
+  const { windowDays, slots } = appConfig.delivery.scheduled;
+
+  const [{ hours, capacity, midnightEnabled }, mockupSlaHours] = await Promise.all([
+    getVendorSlotSettings(params.vendorId),
+    getMockupSlaHours(params.vendorId, params.productIds),
+  ]);
+
+  // Accept window, then the mockup clock (paused outside the vendor's hours), then prep
+  const acceptedBy = new Date(now.getTime() + appConfig.order.acceptDeadlineMinutes * 60 * 1000);
+  const mockupsBy = calculateMockupSLA(acceptedBy, mockupSlaHours, hours);
+  const earliest = new Date(mockupsBy.getTime() + appConfig.delivery.scheduled.prepHours * HOUR_MS);
+  const today = new Date(`${toIstDate(now)}T00:00:00${IST_OFFSET}`);
+  const booked = await countBookedSlots(params.vendorId, today, new Date(today.getTime() + (windowDays + 1) * DAY_MS), now);
+  const available: AvailableDeliverySlot[] = [];
+
+  for (let day = 0; day <= windowDays; day++) {
+    const date = toIstDate(new Date(today.getTime() + day * DAY_MS));
+    const dayHours = getHoursForDate(hours, date);
+    if (!dayHours) continue;
+
+    for (const slot of slots) {
+      // The whole window has to be inside the vendor's hours
+      if (slot.start < dayHours.open || slot.end > dayHours.close) continue;
+
+      const start = new Date(`${date}T${slot.start}:00${IST_OFFSET}`);
+      if (start < earliest) continue;
+
+      available.push({
+        date,
+        slot: slot.id,
+        label: slot.label,
+        start: start.toISOString(),
+        end: new Date(`${date}T${slot.end}:00${IST_OFFSET}`).toISOString(),
+        remaining: Math.max(0, capacity - (booked.get(start.getTime()) ?? 0)),
+      });
+    }
+
+    // Runs past the vendor's closing time and ends the next day
+    if (midnightEnabled) {
+      const midnight = appConfig.delivery.midnight.slot;
+      const start = new Date(`${date}T${midnight.start}:00${IST_OFFSET}`);
+      if (start < earliest) continue;
+
+      const nextDate = toIstDate(new Date(today.getTime() + (day + 1) * DAY_MS));
+      available.push({
+        date,
+        slot: midnight.id,
+        label: midnight.label,
+        start: start.toISOString(),
+        end: new Date(`${nextDate}T${midnight.end}:00${IST_OFFSET}`).toISOString(),
+        remaining: Math.max(0, capacity - (booked.get(start.getTime()) ?? 0)),
+      });
+    }
+  }
+
+  return available;
+}
+
+/**
+ * Check a requested slot is still bookable for the products
+ */
+export async function resolveDeliverySlot(params: {
+  vendorId: string;
+  productIds: string[];
+  date: string;
+  slot: string;
+  now?: Date;
+}): Promise<ScheduledDeliverySlot> {
+  const slots = await listDeliverySlots(params);
+  const match = slots.find((candidate) => candidate.date === params.date && candidate.slot === params.slot);
+
+  if (!match) {
+    throw new DeliverySlotError(
+      "This delivery slot isn't available for your order. Please pick another.",
+      "SLOT_UNAVAILABLE"
+    );
+  }
+
+  if (match.remaining === 0) {
+    throw new DeliverySlotError("This delivery slot is fully booked. Please pick another.", "SLOT_FULL", 409);
+  }
+
+  return { date: match.date, slot: match.slot, label: match.label, start: match.start, end: match.end };
+}
+
+/**
+ * Hold the order's place in its slot; throws SLOT_FULL when someone got there first
+ * Returns the places left in the slot.
+ */
+export async function claimDeliverySlot(orderId: string, slot: ScheduledDeliverySlot): Promise<number> {
+  const { data, error } = await requireServiceClient(DeliverySlotError).rpc("claim_delivery_slot", {
+    p_order_id: orderId,
+    p_slot_id: slot.slot,
+    p_start: slot.start,
+    p_end: slot.end,
+    p_default_capacity: appConfig.delivery.scheduled.defaultCapacity,
+    p_unpaid_cutoff: getUnpaidCutoff(new Date()).toISOString(),
+  });
+
+  if (error) {
+    if (error.message?.includes("SLOT_FULL")) {
+      throw new DeliverySlotError("This delivery slot was just booked up. Please pick another.", "SLOT_FULL", 409);
+    }
+    logger.error("[Delivery Slots] Failed to claim slot", { orderId, slot, error });
+    throw new DeliverySlotError("Failed to book the delivery slot", "SLOT_CLAIM_FAILED", 500);
+  }
+
+  logger.info("[Delivery Slots] Slot claimed", { orderId, date: slot.date, slot: slot.slot, remaining: data });
+
+  return Number(data ?? 0);
+}
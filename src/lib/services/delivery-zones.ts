@@ -0,0 +1,312 @@
+/**
+ * Delivery zones
+ * Serviceability polygons per city, managed by admins (drawn, or imported and
+ * exported as GeoJSON). Vendors list the zone names they deliver to in
+ * vendors.zones; a local delivery address has to fall inside one of them as well
+ * as within the vendor's max delivery radius (see src/lib/services/order-pricing.ts).
+ */
+
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import { escapeLike } from "@/lib/utils/sanitize";
+import { isPointInZone, type ZoneGeometry } from "@/lib/utils/delivery-zones";
+
+export interface DeliveryZone {
+  id: string;
+  city: string;
+  name: string;
+  geometry: ZoneGeometry;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeliveryZoneFeatureCollection {
+  type: "FeatureCollection";
+  features: Array<{
+    type: "Feature";
+    properties: { id: string; name: string; city: string; isActive: boolean };
+    geometry: ZoneGeometry;
+  }>;
+}
+
+export const DELIVERY_ZONE_COLUMNS = "id, city, name, geometry, is_active, created_by, created_at, updated_at";
+
+/**
+ * Custom error class for delivery zone management
+ */
+export class DeliveryZoneError extends ServiceError {
+  name = "DeliveryZoneError";
+}
+
+export function mapDeliveryZone(row: Record<string, unknown>): DeliveryZone {
+  return {
+    id: row.id as string,
+    city: row.city as string,
+    name: row.name as string,
+    geometry: row.geometry as ZoneGeometry,
+    isActive: Boolean(row.is_active),
+    createdBy: (row.created_by as string | null) ?? null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function normalizeName(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export async function listDeliveryZones(params: { city?: string; activeOnly?: boolean } = {}): Promise<DeliveryZone[]> {
+  let query = requireServiceClient(DeliveryZoneError)
+    .from("delivery_zones")
+    .select(DELIVERY_ZONE_COLUMNS)
+    .order("city", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (params.city?.trim()) {
+    query = query.ilike("city", escapeLike(params.city.trim()));
+  }
+  if (params.activeOnly) {
+    query = query.eq("is_active", true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error("[Delivery Zones] Failed to list zones", { city: params.city, error });
+    throw new DeliveryZoneError("Failed to fetch delivery zones", "ZONE_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map(mapDeliveryZone);
+}
+
+export async function getDeliveryZone(id: string): Promise<DeliveryZone> {
+  const { data, error } = await requireServiceClient(DeliveryZoneError)
+    .from("delivery_zones")
+    .select(DELIVERY_ZONE_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Delivery Zones] Failed to fetch zone", { id, error });
+    throw new DeliveryZoneError("Failed to fetch delivery zone", "ZONE_FETCH_FAILED", 500);
+  }
+
+  if (!data) {
+    throw new DeliveryZoneError("Delivery zone not found", "ZONE_NOT_FOUND", 404);
+  }
+
+  return mapDeliveryZone(data);
+}
+
+export async function createDeliveryZone(
+  params: { city: string; name: string; geometry: ZoneGeometry; isActive: boolean },
+  adminId: string
+): Promise<DeliveryZone> {
+  const { data, error } = await requireServiceClient(DeliveryZoneError)
+    .from("delivery_zones")
+    .insert({
+      city: params.city.trim(),
+      name: params.name.trim(),
+      geometry: params.geometry,
+      is_active: params.isActive,
+      created_by: adminId,
+    })
+    .select(DELIVERY_ZONE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    // delivery_zones_city_name_idx
+    if (error?.code === "23505") {
+      throw new DeliveryZoneError(`${params.city} already has a zone named ${params.name}`, "ZONE_NAME_EXISTS", 409);
+    }
+    logger.error("[Delivery Zones] Failed to create zone", { city: params.city, name: params.name, error });
+    throw new DeliveryZoneError("Failed to create delivery zone", "ZONE_SAVE_FAILED", 500);
+  }
+
+  logger.info("[Delivery Zones] Zone created", { zoneId: data.id, city: params.city, name: params.name, adminId });
+
+  return mapDeliveryZone(data);
+}
+
+export async function updateDeliveryZone(
+  id: string,
+  changes: { name?: string; geometry?: ZoneGeometry; isActive?: boolean }
+): Promise<DeliveryZone> {
+  const { data, error } = await requireServiceClient(DeliveryZoneError)
+    .from("delivery_zones")
+    .update({
+      ...(changes.name !== undefined && { name: changes.name.trim() }),
+      ...(changes.geometry !== undefined && { geometry: changes.geometry }),
+      ...(changes.isActive !== undefined && { is_active: changes.isActive }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select(DELIVERY_ZONE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new DeliveryZoneError(`This city already has a zone named ${changes.name}`, "ZONE_NAME_EXISTS", 409);
+    }
+    logger.error("[Delivery Zones] Failed to update zone", { id, error });
+    throw new DeliveryZoneError("Failed to update delivery zone", "ZONE_SAVE_FAILED", 500);
+  }
+
+  if (!data) {
+    throw new DeliveryZoneError("Delivery zone not found", "ZONE_NOT_FOUND", 404);
+  }
+
+  return mapDeliveryZone(data);
+}
+
+/**
+ * Delete a zone; vendors that still list its name fall back to their other zones
+ */
+export async function deleteDeliveryZone(id: string): Promise<void> {
+  const { data, error } = await requireServiceClient(DeliveryZoneError)
+    .from("delivery_zones")
+    .delete()
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    logger.error("[Delivery Zones] Failed to delete zone", { id, error });
+    throw new DeliveryZoneError("Failed to delete delivery zone", "ZONE_DELETE_FAILED", 500);
+  }
+
+  if (!data || data.length === 0) {
+    throw new DeliveryZoneError("Delivery zone not found", "ZONE_NOT_FOUND", 404);
+  }
+}
+
+/**
+ * Import a GeoJSON FeatureCollection for a city, matching zones by name
+ * Existing zones get the new polygon and are reactivated; with replace, the
+ * city's zones missing from the file are deactivated (not deleted, since vendors
+ * may still list them).
+ */
+export async function importDeliveryZones(
+  params: {
+    city: string;
+    replace: boolean;
+    features: Array<{ properties: { name: string }; geometry: ZoneGeometry }>;
+  },
+  adminId: string
+): Promise<{ created: number; updated: number; deactivated: number }> {
+  const supabase = requireServiceClient(DeliveryZoneError);
+  const city = params.city.trim();
+  const existing = await listDeliveryZones({ city });
+  const existingByName = new Map(existing.map((zone) => [normalizeName(zone.name), zone]));
+
+  const seen = new Set<string>();
+  for (const feature of params.features) {
+    const key = normalizeName(feature.properties.name);
+    if (seen.has(key)) {
+      throw new DeliveryZoneError(`The file has two zones named ${feature.properties.name}`, "DUPLICATE_ZONE_NAME");
+    }
+    seen.add(key);
+  }
+
+  let created = 0;
+  let updated = 0;
+  const now = new Date().toISOString();
+
+  for (const feature of params.features) {
+    const zone = existingByName.get(normalizeName(feature.properties.name));
+
+    const { error } = zone
+      ? await supabase
+        .from("delivery_zones")
+        .update({ geometry: feature.geometry, is_active: true, updated_at: now })
+        .eq("id", zone.id)
+      : await supabase
+        .from("delivery_zones")
+        .insert({
+          city,
+          name: feature.properties.name.trim(),
+          geometry: feature.geometry,
+          is_active: true,
+          created_by: adminId,
+        });
+
+    if (error) {
+      logger.error("[Delivery Zones] Failed to import zone", { city, name: feature.properties.name, error });
+      throw new DeliveryZoneError(
+        `Failed to import ${feature.properties.name} (${created + updated} of ${params.features.length} zones saved)`,
+        "ZONE_IMPORT_FAILED",
+        500
+      );
+    }
+
+    if (zone) updated += 1;
+    else created += 1;
+  }
+
+  let deactivated = 0;
+  if (params.replace) {
+    const stale = existing.filter((zone) => zone.isActive && !seen.has(normalizeName(zone.name)));
+
+    if (stale.length > 0) {
+      const { error } = await supabase
+        .from("delivery_zones")
+        .update({ is_active: false, updated_at: now })
+        .in("id", stale.map((zone) => zone.id));
+
+      if (error) {
+        logger.error("[Delivery Zones] Failed to deactivate replaced zones", { city, error });
+        throw new DeliveryZoneError("Zones were imported, but old zones could not be deactivated", "ZONE_IMPORT_FAILED", 500);
+      }
+      deactivated = stale.length;
+    }
+  }
+
+  logger.info("[Delivery Zones] Zones imported", { city, created, updated, deactivated, adminId });
+
+  return { created, updated, deactivated };
+}
+
+/**
+ * A city's zones (or every zone) as a GeoJSON FeatureCollection
+ */
+export async function exportDeliveryZones(city?: string): Promise<DeliveryZoneFeatureCollection> {
+  const zones = await listDeliveryZones({ city });
+
+  return {
+    type: "FeatureCollection",
+    features: zones.map((zone) => ({
+      type: "Feature",
+      properties: { id: zone.id, name: zone.name, city: zone.city, isActive: zone.isActive },
+      geometry: zone.geometry,
+    })),
+  };
+}
+
+/**
+ * Whether a point is inside one of the vendor's zones
+ * Returns null when zones don't apply, so only the radius is checked: the address
+ * has no coordinates, the vendor lists no zones, or none of its zones exist in
+ * the city yet.
+ */
+export async function isInVendorZones(params: {
+  city: string;
+  vendorZones: string[];
+  lat: number | null;
+  lng: number | null;
+}): Promise<boolean | null> {
+  if (params.lat === null || params.lng === null || params.vendorZones.length === 0) {
+    return null;
+  }
+
+  const names = new Set(params.vendorZones.map(normalizeName));
+  const zones = (await listDeliveryZones({ city: params.city, activeOnly: true }))
+    .filter((zone) => names.has(normalizeName(zone.name)));
+
+  if (zones.length === 0) {
+    return null;
+  }
+
+  const point = { lat: params.lat, lng: params.lng };
+  return zones.some((zone) => isPointInZone(point, zone.geometry));
+}
@@ -0,0 +1,232 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+const effects = vi.hoisted(() => ({
+  issueRefund: vi.fn(),
+  reverseTransfer: vi.fn(),
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/services/refunds", () => ({
+  issueRefund: effects.issueRefund,
+  RefundError: class RefundError extends Error {},
+}));
+vi.mock("@/lib/services/razorpay-route", () => ({
+  getRazorpayRouteService: () => ({ reverseTransfer: effects.reverseTransfer }),
+}));
+vi.mock("@/lib/auth/server", () => ({ requireAuth: effects.requireAuth }));
+
+import { createDispute, resolveDispute, respondToDispute } from "./disputes";
+import { POST as resolveRoute } from "@/app/api/admin/disputes/[id]/resolve/route";
+import type { ResolveDisputeInput } from "@/lib/validations/disputes";
+
+const ORDER_ID = "order-1";
+const CUSTOMER_ID = "customer-1";
+const DAY = 24 * 60 * 60 * 1000;
+
+function seed(order: Record<string, unknown> = {}) {
+  state.db = createSupabaseFake();
+  state.db.tables.orders = [{
+    id: ORDER_ID,
+    order_number: "WK1001",
+    customer_id: CUSTOMER_ID,
+    vendor_id: "vendor-1",
+    status: "delivered",
+    delivered_at: new Date(Date.now() - DAY).toISOString(),
+    vendor_amount: "300.00",
+    razorpay_route_id: "trf_1",
+    ...order,
+  }];
+  state.db.tables.vendors = [{ id: "vendor-1", user_id: "vendor-user-1" }];
+  state.db.tables.users = [{ id: "admin-1", role: "admin" }];
+  state.db.tables.disputes = [];
+  state.db.tables.notifications = [];
+
+  vi.clearAllMocks();
+  effects.issueRefund.mockImplementation(async (params: { amount?: number }) => ({ id: "refund-1", amount: params.amount ?? 400 }));
+  effects.reverseTransfer.mockImplementation(async (_transferId: string, amount: number) => ({ id: "rvrsl_1", amount }));
+}
+
+function raise() {
+  return createDispute({
+    orderId: ORDER_ID,
+    customerId: CUSTOMER_ID,
+    input: { type: "damaged", claim: "The mug arrived cracked", photos: [] },
+  });
+}
+
+function resolve(disputeId: string, input: Partial<ResolveDisputeInput> = {}) {
+  return resolveDispute({
+    disputeId,
+    adminId: "admin-1",
+    input: { resolution: "refund", notes: "Photos show damage", deductFromVendor: false, ...input },
+  });
+}
+
+function getDispute() {
+  return state.db!.tables.disputes[0];
+}
+
+describe("createDispute", () => {
+  beforeEach(() => seed());
+
+  it("opens a dispute and tells the vendor and admins", async () => {
+    const dispute = await raise();
+
+    expect(dispute).toMatchObject({ status: "open", orderId: ORDER_ID, customerId: CUSTOMER_ID, vendorId: "vendor-1" });
+    expect(state.db!.tables.notifications.map((notification) => notification.user_id)).toEqual(["vendor-user-1", "admin-1"]);
+  });
+
+  it("only lets the order's customer raise one", async () => {
+    await expect(createDispute({
+      orderId: ORDER_ID,
+      customerId: "customer-2",
+      input: { type: "damaged", claim: "The mug arrived cracked", photos: [] },
+    })).rejects.toMatchObject({ code: "ORDER_NOT_FOUND", status: 404 });
+  });
+
+  it.each([
+    ["an undelivered order", { status: "out_for_delivery" }, "ORDER_NOT_DELIVERED"],
+    ["an order delivered too long ago", { delivered_at: new Date(Date.now() - 8 * DAY).toISOString() }, "DISPUTE_WINDOW_CLOSED"],
+  ])("refuses %s", async (_case, order, code) => {
+    seed(order);
+    await expect(raise()).rejects.toMatchObject({ code, status: 409 });
+  });
+});
+
+describe("respondToDispute", () => {
+  beforeEach(() => seed());
+
+  it("records the order's vendor's side and moves the dispute under review", async () => {
+    const { id } = await raise();
+
+    const dispute = await respondToDispute({ disputeId: id, vendorId: "vendor-1", response: "It left our shop intact" });
+
+    expect(dispute).toMatchObject({ status: "under_review", vendorResponse: "It left our shop intact" });
+  });
+
+  it("hides the dispute from other vendors", async () => {
+    const { id } = await raise();
+
+    await expect(respondToDispute({ disputeId: id, vendorId: "vendor-2", response: "Not our order at all" })).rejects.toMatchObject({
+      code: "DISPUTE_NOT_FOUND",
+      status: 404,
+    });
+    expect(getDispute().status).toBe("open");
+  });
+
+  it("refuses a response once the dispute is resolved", async () => {
+    const { id } = await raise();
+    await resolve(id, { resolution: "closed" });
+
+    await expect(respondToDispute({ disputeId: id, vendorId: "vendor-1", response: "It left our shop intact" })).rejects.toMatchObject({
+      code: "DISPUTE_ALREADY_RESOLVED",
+      status: 409,
+    });
+  });
+});
+
+describe("resolveDispute", () => {
+  beforeEach(() => seed());
+
+  it("refunds the customer at the platform's expense unless charged to the vendor", async () => {
+    const { id } = await raise();
+
+    const { dispute, refund } = await resolve(id, { refundAmount: 150 });
+
+    expect(refund).toEqual({ id: "refund-1", amount: 150 });
+    expect(dispute).toMatchObject({ status: "resolved", resolution: "refund", refundId: "refund-1", refundAmount: 150, resolvedBy: "admin-1" });
+    expect(effects.issueRefund).toHaveBeenCalledWith(expect.objectContaining({
+      orderId: ORDER_ID,
+      amount: 150,
+      source: "dispute",
+      disputeId: id,
+      reverseVendorTransfer: false,
+    }));
+  });
+
+  it("closes a dispute without a refund", async () => {
+    const { id } = await raise();
+
+    const { dispute, refund } = await resolve(id, { resolution: "closed" });
+
+    expect(refund).toBeNull();
+    expect(dispute.status).toBe("closed");
+    expect(effects.issueRefund).not.toHaveBeenCalled();
+  });
+
+  it("resolves a dispute once", async () => {
+    const { id } = await raise();
+    await resolve(id);
+
+    await expect(resolve(id)).rejects.toMatchObject({ code: "DISPUTE_ALREADY_RESOLVED", status: 409 });
+    expect(effects.issueRefund).toHaveBeenCalledTimes(1);
+  });
+
+  it("reopens the dispute when the refund fails", async () => {
+    const { id } = await raise();
+    await respondToDispute({ disputeId: id, vendorId: "vendor-1", response: "It left our shop intact" });
+    effects.issueRefund.mockRejectedValue(new Error("Gateway down"));
+
+    await expect(resolve(id)).rejects.toThrow("Gateway down");
+
+    expect(getDispute()).toMatchObject({ status: "under_review", resolution: null, resolved_by: null });
+  });
+
+  it("charges a replacement to the vendor by reversing their transfer", async () => {
+    const { id } = await raise();
+
+    const { dispute } = await resolve(id, { resolution: "replacement", deductFromVendor: true, deductionAmount: 120 });
+
+    expect(effects.reverseTransfer).toHaveBeenCalledWith("trf_1", 12000, { order_id: ORDER_ID, dispute_id: id });
+    expect(dispute).toMatchObject({ status: "resolved", deductedFromVendor: true, vendorDeductionAmount: 120 });
+  });
+
+  it("won't deduct more than the vendor was paid out", async () => {
+    const { id } = await raise();
+
+    await expect(resolve(id, { resolution: "replacement", deductFromVendor: true, deductionAmount: 500 })).rejects.toMatchObject({
+      code: "DEDUCTION_EXCEEDS_PAYOUT",
+    });
+    expect(effects.reverseTransfer).not.toHaveBeenCalled();
+    expect(getDispute().status).toBe("open");
+  });
+});
+
+describe("POST /api/admin/disputes/[id]/resolve", () => {
+  beforeEach(() => seed());
+
+  async function post(role: string, disputeId: string) {
+    effects.requireAuth.mockResolvedValue({ id: `${role}-1`, role });
+    const request = new Request("http://localhost/api/admin/disputes/resolve", {
+      method: "POST",
+      body: JSON.stringify({ resolution: "refund", notes: "Photos show damage" }),
+    });
+    return resolveRoute(request, { params: Promise.resolve({ id: disputeId }) });
+  }
+
+  it.each(["customer", "vendor"])("doesn't let a %s resolve a dispute", async (role) => {
+    const { id } = await raise();
+
+    const response = await post(role, id);
+
+    expect(response.status).toBe(403);
+    expect(getDispute().status).toBe("open");
+    expect(effects.issueRefund).not.toHaveBeenCalled();
+  });
+
+  it("lets an admin resolve a dispute", async () => {
+    const { id } = await raise();
+
+    const response = await post("admin", id);
+
+    expect(response.status).toBe(200);
+    expect(getDispute()).toMatchObject({ status: "resolved", resolved_by: "admin-1" });
+  });
+});
@@ -0,0 +1,542 @@
+/**
+ * Disputes
+ * Customers raise disputes on delivered orders, vendors respond and admins resolve
+ * them with a replacement, a refund or closure. Resolving at the vendor's expense
+ * reverses the vendor's share of the Route transfer.
+ */
+
+import { appConfig } from "@/lib/config/app";
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import { getRazorpayRouteService } from "@/lib/services/razorpay-route";
+import { issueRefund, type Refund } from "@/lib/services/refunds";
+import type {
+  CreateDisputeInput,
+  ResolveDisputeInput,
+  DISPUTE_RESOLUTIONS,
+  DISPUTE_STATUSES,
+  DISPUTE_TYPES,
+} from "@/lib/validations/disputes";
+
+export type DisputeType = (typeof DISPUTE_TYPES)[number];
+export type DisputeStatus = (typeof DISPUTE_STATUSES)[number];
+export type DisputeResolution = (typeof DISPUTE_RESOLUTIONS)[number];
+
+export interface Dispute {
+  id: string;
+  orderId: string;
+  customerId: string | null;
+  vendorId: string | null;
+  type: DisputeType;
+  customerClaim: string;
+  customerPhotos: string[];
+  vendorResponse: string | null;
+  vendorRespondedAt: string | null;
+  status: DisputeStatus;
+  resolution: DisputeResolution | null;
+  resolutionNotes: string | null;
+  refundAmount: number | null;
+  refundId: string | null;
+  deductedFromVendor: boolean;
+  vendorDeductionAmount: number | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+export const DISPUTE_COLUMNS =
+  "id, order_id, customer_id, vendor_id, type, customer_claim, customer_photos, vendor_response, vendor_responded_at, status, resolution, resolution_notes, refund_amount, refund_id, deducted_from_vendor, vendor_deduction_amount, resolved_by, resolved_at, created_at";
+
+// Disputes still waiting on an admin decision
+const ACTIVE_STATUSES: DisputeStatus[] = ["open", "under_review"];
+
+const DISPUTE_TYPE_LABELS: Record<DisputeType, string> = {
+  wrong_product: "Wrong product",
+  damaged: "Damaged item",
+  quality: "Quality issue",
+  other: "Other issue",
+};
+
+/**
+ * Custom error class for dispute actions that are not allowed
+ */
+export class DisputeError extends ServiceError {
+  name = "DisputeError";
+}
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function mapDispute(row: Record<string, unknown>): Dispute {
+  return {
+    id: row.id as string,
+    orderId: row.order_id as string,
+    customerId: (row.customer_id as string | null) ?? null,
+    vendorId: (row.vendor_id as string | null) ?? null,
+    type: row.type as DisputeType,
+    customerClaim: row.customer_claim as string,
+    customerPhotos: Array.isArray(row.customer_photos) ? (row.customer_photos as string[]) : [],
+    vendorResponse: (row.vendor_response as string | null) ?? null,
+    vendorRespondedAt: (row.vendor_responded_at as string | null) ?? null,
+    status: (row.status as DisputeStatus) || "open",
+    resolution: (row.resolution as DisputeResolution | null) ?? null,
+    resolutionNotes: (row.resolution_notes as string | null) ?? null,
+    refundAmount: toNumber(row.refund_amount as string | null),
+    refundId: (row.refund_id as string | null) ?? null,
+    deductedFromVendor: Boolean(row.deducted_from_vendor),
+    vendorDeductionAmount: toNumber(row.vendor_deduction_amount as string | null),
+    resolvedBy: (row.resolved_by as string | null) ?? null,
+    resolvedAt: (row.resolved_at as string | null) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+async function getDisputeRow(disputeId: string): Promise<Record<string, unknown>> {
+  const { data, error } = await requireServiceClient(DisputeError)
+    .from("disputes")
+    .select(DISPUTE_COLUMNS)
+    .eq("id", disputeId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Disputes] Failed to fetch dispute", { disputeId, error });
+    throw new DisputeError("Failed to fetch dispute", "DISPUTE_FETCH_FAILED", 500);
+  }
+
+  if (!data) {
+    throw new DisputeError("Dispute not found", "DISPUTE_NOT_FOUND", 404);
+  }
+
+  return data;
+}
+
+async function getVendorUserId(vendorId: string | null): Promise<string | null> {
+  if (!vendorId) return null;
+
+  const { data } = await requireServiceClient(DisputeError)
+    .from("vendors")
+    .select("user_id")
+    .eq("id", vendorId)
+    .maybeSingle();
+
+  return data?.user_id ?? null;
+}
+
+/**
+ * In-app notifications for the parties to a dispute, admins included when asked
+ * Failures are logged; the dispute change has already been saved
+ */
+async function notifyDisputeParties(
+  recipients: Array<string | null>,
+  notification: { title: string; message: string; data: Record<string, unknown> },
+  options: { includeAdmins?: boolean } = {}
+): Promise<void> {
+  const supabase = requireServiceClient(DisputeError);
+  const userIds = new Set(recipients.filter((id): id is string => Boolean(id)));
+
+  if (options.includeAdmins) {
+    const { data: admins, error } = await supabase.from("users").select("id").eq("role", "admin");
+    if (error) {
+      logger.error("[Disputes] Failed to fetch admins for notification", error);
+    }
+    for (const admin of admins || []) userIds.add(admin.id);
+  }
+
+  if (userIds.size === 0) return;
+
+  const { error } = await supabase.from("notifications").insert(
+    Array.from(userIds).map((userId) => ({
+      user_id: userId,
+      type: "order",
+      title: notification.title,
+      message: notification.message,
+      data: notification.data,
+    }))
+  );
+
+  if (error) {
+    logger.error("[Disputes] Failed to create notifications", error);
+  }
+}
+
+/**
+ * Disputes raised on an order, newest first
+ */
+export async function getOrderDisputes(orderId: string): Promise<Dispute[]> {
+  const { data, error } = await requireServiceClient(DisputeError)
+    .from("disputes")
+    .select(DISPUTE_COLUMNS)
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    logger.error("[Disputes] Failed to fetch order disputes", { orderId, error });
+    throw new DisputeError("Failed to fetch disputes", "DISPUTE_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map(mapDispute);
+}
+
+/**
+ * Disputes for the admin queue
+ * Unresolved statuses list oldest first so the longest-waiting disputes come up first
+ */
+export async function listDisputes(params: {
+  status?: DisputeStatus;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<{ disputes: Dispute[]; total: number }> {
+  const limit = params.limit ?? appConfig.pagination.defaultLimit;
+  const offset = params.offset ?? 0;
+
+  let query = requireServiceClient(DisputeError)
+    .from("disputes")
+    .select(DISPUTE_COLUMNS, { count: "exact" })
+    .order("created_at", { ascending: params.status ? ACTIVE_STATUSES.includes(params.status) : false })
+    .range(offset, offset + limit - 1);
+
+  if (params.status) {
+    query = query.eq("status", params.status);
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    logger.error("[Disputes] Failed to list disputes", error);
+    throw new DisputeError("Failed to fetch disputes", "DISPUTE_FETCH_FAILED", 500);
+  }
+
+  return { disputes: (data || []).map(mapDispute), total: count ?? 0 };
+}
+
+/**
+ * Raise a dispute on a delivered order (customer)
+ */
+export async function createDispute(params: {
+  orderId: string;
+  customerId: string;
+  input: CreateDisputeInput;
+}): Promise<Dispute> {
+  const supabase = requireServiceClient(DisputeError);
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, order_number, customer_id, vendor_id, status, delivered_at")
+    .eq("id", params.orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    logger.error("[Disputes] Failed to fetch order", { orderId: params.orderId, error: orderError });
+    throw new DisputeError("Failed to fetch order", "ORDER_FETCH_FAILED", 500);
+  }
+
+  // Don't reveal other customers' orders
+  if (!order || order.customer_id !== params.customerId) {
+    throw new DisputeError("Order not found", "ORDER_NOT_FOUND", 404);
+  }
+
+  if (order.status !== "delivered") {
+    throw new DisputeError("Disputes can only be raised on delivered orders", "ORDER_NOT_DELIVERED", 409);
+  }
+
+  if (order.delivered_at) {
+    const windowEnds = new Date(order.delivered_at).getTime() + appConfig.disputes.windowDays * 24 * 60 * 60 * 1000;
+    if (Date.now() > windowEnds) {
+      throw new DisputeError(
+        `Disputes must be raised within ${appConfig.disputes.windowDays} days of delivery`,
+        "DISPUTE_WINDOW_CLOSED",
+        409
+      );
+    }
+  }
+
+  const { data: created, error: insertError } = await supabase
+    .from("disputes")
+    .insert({
+      order_id: order.id,
+      customer_id: order.customer_id,
+      vendor_id: order.vendor_id,
+      type: params.input.type,
+      customer_claim: params.input.claim,
+      customer_photos: params.input.photos,
+      status: "open",
+    })
+    .select(DISPUTE_COLUMNS)
+    .single();
+
+  if (insertError || !created) {
+    // disputes_active_order_id_idx allows one unresolved dispute per order
+    if (insertError?.code === "23505") {
+      throw new DisputeError("This order already has an open dispute", "DISPUTE_ALREADY_OPEN", 409);
+    }
+    logger.error("[Disputes] Failed to create dispute", { orderId: order.id, error: insertError });
+    throw new DisputeError("Failed to create dispute", "DISPUTE_CREATE_FAILED", 500);
+  }
+
+  const dispute = mapDispute(created);
+
+  await notifyDisputeParties(
+    [await getVendorUserId(order.vendor_id)],
+    {
+      title: "Dispute Raised",
+      message: `${DISPUTE_TYPE_LABELS[dispute.type]} reported on order #${order.order_number}. Please respond with your side.`,
+      data: { orderId: order.id, disputeId: dispute.id },
+    },
+    { includeAdmins: true }
+  );
+
+  logger.info("[Disputes] Dispute raised", { disputeId: dispute.id, orderId: order.id, type: dispute.type });
+
+  return dispute;
+}
+
+/**
+ * Record the vendor's side of a dispute; moves it to under_review
+ */
+export async function respondToDispute(params: {
+  disputeId: string;
+  vendorId: string;
+  response: string;
+}): Promise<Dispute> {
+  const row = await getDisputeRow(params.disputeId);
+
+  if (row.vendor_id !== params.vendorId) {
+    throw new DisputeError("Dispute not found", "DISPUTE_NOT_FOUND", 404);
+  }
+
+  if (!ACTIVE_STATUSES.includes(row.status as DisputeStatus)) {
+    throw new DisputeError("This dispute has already been resolved", "DISPUTE_ALREADY_RESOLVED", 409);
+  }
+
+  const now = new Date().toISOString();
+  const { data: updated, error } = await requireServiceClient(DisputeError)
+    .from("disputes")
+    .update({
+      vendor_response: params.response,
+      vendor_responded_at: now,
+      status: "under_review",
+      updated_at: now,
+    })
+    .eq("id", params.disputeId)
+    .in("status", ACTIVE_STATUSES)
+    .select(DISPUTE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Disputes] Failed to record vendor response", { disputeId: params.disputeId, error });
+    throw new DisputeError("Failed to update dispute", "DISPUTE_UPDATE_FAILED", 500);
+  }
+
+  // Resolved by an admin between the read and the update
+  if (!updated) {
+    throw new DisputeError("This dispute has already been resolved", "DISPUTE_ALREADY_RESOLVED", 409);
+  }
+
+  const dispute = mapDispute(updated);
+
+  await notifyDisputeParties(
+    [dispute.customerId],
+    {
+      title: "Vendor Responded",
+      message: "The vendor has responded to your dispute. Our team is reviewing it.",
+      data: { orderId: dispute.orderId, disputeId: dispute.id },
+    },
+    { includeAdmins: true }
+  );
+
+  logger.info("[Disputes] Vendor responded", { disputeId: dispute.id, vendorId: params.vendorId });
+
+  return dispute;
+}
+
+/**
+ * Charge a replacement to the vendor by reversing (part of) their Route transfer
+ * Returns the amount recovered and the reversal ID; failures are left for finance
+ */
+async function deductReplacementFromVendor(
+  disputeId: string,
+  orderId: string,
+  requestedAmount: number | undefined
+): Promise<{ amount: number; reversalId: string | null }> {
+  const { data: order } = await requireServiceClient(DisputeError)
+    .from("orders")
+    .select("id, razorpay_route_id, vendor_amount")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  const vendorAmount = toNumber(order?.vendor_amount) ?? 0;
+  const amount = roundCurrency(Math.min(requestedAmount ?? vendorAmount, vendorAmount));
+
+  if (requestedAmount !== undefined && requestedAmount > vendorAmount) {
+    throw new DisputeError(
+      `Only ₹${vendorAmount.toFixed(2)} was paid out to the vendor for this order`,
+      "DEDUCTION_EXCEEDS_PAYOUT"
+    );
+  }
+
+  // Only real Route transfers (not mock_/failed_ placeholders) can be reversed
+  if (amount <= 0 || !order?.razorpay_route_id?.startsWith("trf_")) {
+    return { amount, reversalId: null };
+  }
+
+  try {
+    const reversal = await getRazorpayRouteService().reverseTransfer(
+      order.razorpay_route_id,
+      Math.round(amount * 100),
+      { order_id: orderId, dispute_id: disputeId }
+    );
+    return { amount: roundCurrency(reversal.amount / 100), reversalId: reversal.id };
+  } catch (error) {
+    logger.error("[Disputes] Failed to reverse vendor transfer", {
+      disputeId,
+      orderId,
+      transferId: order.razorpay_route_id,
+      amount,
+      error,
+    });
+    return { amount, reversalId: null };
+  }
+}
+
+/**
+ * Resolve a dispute (admin)
+ * - refund: issues a refund; the vendor transfer is reversed only when deducting from the vendor
+ * - replacement: optionally recovers the vendor's share for the replacement
+ * - closed: no action taken
+ */
+export async function resolveDispute(params: {
+  disputeId: string;
+  adminId: string;
+  input: ResolveDisputeInput;
+}): Promise<{ dispute: Dispute; refund: Refund | null }> {
+  const row = await getDisputeRow(params.disputeId);
+  const existing = mapDispute(row);
+  const { input } = params;
+
+  if (!ACTIVE_STATUSES.includes(existing.status)) {
+    throw new DisputeError("This dispute has already been resolved", "DISPUTE_ALREADY_RESOLVED", 409);
+  }
+
+  const supabase = requireServiceClient(DisputeError);
+  const now = new Date().toISOString();
+  const resolvedStatus: DisputeStatus = input.resolution === "closed" ? "closed" : "resolved";
+
+  // Claim the dispute first so two admins can't both refund it
+  const { data: claimed, error: claimError } = await supabase
+    .from("disputes")
+    .update({
+      status: resolvedStatus,
+      resolution: input.resolution,
+      resolution_notes: input.notes,
+      deducted_from_vendor: input.deductFromVendor,
+      resolved_by: params.adminId,
+      resolved_at: now,
+      updated_at: now,
+    })
+    .eq("id", existing.id)
+    .in("status", ACTIVE_STATUSES)
+    .select("id")
+    .maybeSingle();
+
+  if (claimError) {
+    logger.error("[Disputes] Failed to resolve dispute", { disputeId: existing.id, error: claimError });
+    throw new DisputeError("Failed to update dispute", "DISPUTE_UPDATE_FAILED", 500);
+  }
+
+  if (!claimed) {
+    throw new DisputeError("This dispute has already been resolved", "DISPUTE_ALREADY_RESOLVED", 409);
+  }
+
+  let refund: Refund | null = null;
+  const bookkeeping: Record<string, unknown> = {};
+
+  try {
+    if (input.resolution === "refund") {
+      refund = await issueRefund({
+        orderId: existing.orderId,
+        amount: input.refundAmount,
+        reason: `Dispute resolved: ${input.notes}`,
+        source: "dispute",
+        initiatedBy: params.adminId,
+        disputeId: existing.id,
+        reverseVendorTransfer: input.deductFromVendor,
+      });
+      bookkeeping.refund_id = refund.id;
+      bookkeeping.refund_amount = refund.amount;
+    } else if (input.resolution === "replacement" && input.deductFromVendor) {
+      const deduction = await deductReplacementFromVendor(existing.id, existing.orderId, input.deductionAmount);
+      bookkeeping.vendor_deduction_amount = deduction.amount;
+      bookkeeping.transfer_reversal_id = deduction.reversalId;
+    }
+  } catch (error) {
+    // Reopen so the admin can retry with a different resolution
+    await supabase
+      .from("disputes")
+      .update({
+        status: existing.status,
+        resolution: null,
+        resolution_notes: null,
+        deducted_from_vendor: false,
+        resolved_by: null,
+        resolved_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", existing.id);
+    throw error;
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("disputes")
+    .update({ ...bookkeeping, updated_at: new Date().toISOString() })
+    .eq("id", existing.id)
+    .select(DISPUTE_COLUMNS)
+    .single();
+
+  if (updateError || !updated) {
+    // The refund/reversal has gone through; it carries dispute_id for finance to match up
+    logger.error("[Disputes] Failed to record resolution bookkeeping", { disputeId: existing.id, bookkeeping, error: updateError });
+  }
+
+  const dispute = updated
+    ? mapDispute(updated)
+    : { ...existing, status: resolvedStatus, resolution: input.resolution, resolutionNotes: input.notes };
+
+  const customerMessage = input.resolution === "refund"
+    ? `Your dispute has been resolved with a refund of ₹${refund?.amount.toFixed(2)}.`
+    : input.resolution === "replacement"
+      ? "Your dispute has been resolved. A replacement will be arranged."
+      : "Your dispute has been closed. Check the resolution notes for details.";
+
+  const vendorMessage = input.deductFromVendor
+    ? `A dispute on one of your orders was resolved (${input.resolution}). The amount has been deducted from your payout.`
+    : `A dispute on one of your orders was resolved (${input.resolution}).`;
+
+  await notifyDisputeParties([existing.customerId], {
+    title: "Dispute Resolved",
+    message: customerMessage,
+    data: { orderId: existing.orderId, disputeId: existing.id, resolution: input.resolution },
+  });
+  await notifyDisputeParties([await getVendorUserId(existing.vendorId)], {
+    title: "Dispute Resolved",
+    message: vendorMessage,
+    data: { orderId: existing.orderId, disputeId: existing.id, resolution: input.resolution },
+  });
+
+  logger.info("[Disputes] Dispute resolved", {
+    disputeId: existing.id,
+    orderId: existing.orderId,
+    resolution: input.resolution,
+    deductFromVendor: input.deductFromVendor,
+    refundId: refund?.id,
+    adminId: params.adminId,
+  });
+
+  return { dispute, refund };
+}
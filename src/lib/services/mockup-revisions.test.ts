@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+import { listMockupRevisions, reviewMockupVersions, submitMockupVersions, type MockupDecision } from "./mockup-revisions";
+import type { OrderActor } from "./order-transitions";
+
+const ORDER_ID = "order-1";
+const vendor: OrderActor = { id: "vendor-user-1", role: "vendor" };
+const customer: OrderActor = { id: "customer-1", role: "customer" };
+
+function seed(products: Array<Record<string, unknown>> = [{ id: "mug" }, { id: "frame" }]) {
+  state.db = createSupabaseFake({
+    mockup_revisions: { decision: null, customer_feedback: null, annotations: [], decided_at: null },
+  });
+  state.db.tables.orders = [{
+    id: ORDER_ID,
+    order_number: "WK1001",
+    customer_id: "customer-1",
+    vendor_id: "vendor-1",
+    status: "personalizing",
+    items: products.map((product) => ({ productId: product.id })),
+  }];
+  state.db.tables.products = products.map((product) => ({
+    is_personalizable: true,
+    mockup_revision_limit: null,
+    mockup_sla_hours: null,
+    mockup_auto_approve: true,
+    ...product,
+  }));
+  state.db.tables.vendors = [{ id: "vendor-1", user_id: "vendor-user-1", operating_hours: null, mockup_auto_approve: true }];
+  state.db.tables.mockup_revisions = [];
+  state.db.tables.order_status_history = [];
+  state.db.unique("mockup_revisions", ["order_id", "product_id", "version"]);
+}
+
+function upload(mockupImages: Record<string, string[]>) {
+  return submitMockupVersions({ orderId: ORDER_ID, actor: vendor, mockupImages });
+}
+
+function review(decisions: Record<string, MockupDecision>) {
+  return reviewMockupVersions({
+    orderId: ORDER_ID,
+    actor: customer,
+    decisions: Object.entries(decisions).map(([productId, decision]) => ({
+      productId,
+      decision,
+      ...(decision === "rejected" ? { feedback: "Make the name bigger" } : {}),
+    })),
+  });
+}
+
+function versions(productId: string) {
+  return state.db!.tables.mockup_revisions
+    .filter((revision) => revision.product_id === productId)
+    .map((revision) => [revision.version, revision.decision]);
+}
+
+function getOrder() {
+  return state.db!.tables.orders[0];
+}
+
+describe("submitMockupVersions", () => {
+  beforeEach(() => seed());
+
+  it("numbers each item's versions and leaves approved items alone", async () => {
+    const first = await upload({ mug: ["mug-1.jpg"], frame: ["frame-1.jpg"] });
+    expect(first.revisions.map((revision) => [revision.productId, revision.version])).toEqual([["mug", 1], ["frame", 1]]);
+    expect(first.readyForReview).toBe(true);
+    expect(getOrder().status).toBe("mockup_ready");
+
+    await review({ mug: "rejected", frame: "approved" });
+    expect(getOrder().status).toBe("personalizing");
+
+    const second = await upload({ mug: ["mug-2.jpg"], frame: ["frame-2.jpg"] });
+
+    expect(second.revisions.map((revision) => [revision.productId, revision.version])).toEqual([["mug", 2]]);
+    expect(versions("mug")).toEqual([[1, "rejected"], [2, null]]);
+    expect(versions("frame")).toEqual([[1, "approved"]]);
+    expect(getOrder()).toMatchObject({ status: "mockup_ready", mockup_images: { mug: ["mug-2.jpg"], frame: ["frame-1.jpg"] } });
+  });
+
+  it("replaces a version the customer hasn't seen instead of adding one", async () => {
+    const first = await upload({ mug: ["mug-1.jpg"] });
+    expect(first.readyForReview).toBe(false);
+    expect(getOrder().status).toBe("personalizing");
+
+    const second = await upload({ mug: ["mug-1b.jpg"], frame: ["frame-1.jpg"] });
+
+    expect(second.revisions.map((revision) => [revision.productId, revision.version])).toEqual([["mug", 1], ["frame", 1]]);
+    expect(state.db!.tables.mockup_revisions.find((revision) => revision.product_id === "mug")?.images).toEqual(["mug-1b.jpg"]);
+    expect(getOrder().status).toBe("mockup_ready");
+  });
+
+  it("refuses a version someone else wrote first", async () => {
+    await upload({ mug: ["mug-1.jpg"], frame: ["frame-1.jpg"] });
+    await review({ mug: "rejected", frame: "approved" });
+    // Another upload saves version 2 after this one has read the history
+    const from = state.db!.client.from;
+    let reads = 0;
+    state.db!.client.from = (table: string) => {
+      if (table === "mockup_revisions" && ++reads === 2) {
+        state.db!.tables.mockup_revisions.push({ order_id: ORDER_ID, product_id: "mug", version: 2, images: ["other.jpg"], decision: null });
+      }
+      return from(table);
+    };
+
+    await expect(upload({ mug: ["mug-2.jpg"] })).rejects.toMatchObject({ code: "MOCKUP_CONFLICT", status: 409 });
+  });
+
+  it("only takes mockups from the order's vendor while personalising", async () => {
+    await expect(
+      submitMockupVersions({ orderId: ORDER_ID, actor: { id: "vendor-user-2", role: "vendor" }, mockupImages: { mug: ["mug-1.jpg"] } })
+    ).rejects.toMatchObject({ code: "MOCKUP_FORBIDDEN", status: 403 });
+
+    getOrder().status = "crafting";
+    await expect(upload({ mug: ["mug-1.jpg"] })).rejects.toMatchObject({ code: "MOCKUPS_NOT_EXPECTED", status: 409 });
+    expect(state.db!.tables.mockup_revisions).toEqual([]);
+  });
+});
+
+describe("reviewMockupVersions", () => {
+  it("caps revisions at the product's limit", async () => {
+    seed([{ id: "mug", mockup_revision_limit: 1 }]);
+    await upload({ mug: ["mug-1.jpg"] });
+    await review({ mug: "rejected" });
+    await upload({ mug: ["mug-2.jpg"] });
+
+    await expect(review({ mug: "rejected" })).rejects.toMatchObject({ code: "REVISION_LIMIT_REACHED", status: 409 });
+
+    expect(versions("mug")).toEqual([[1, "rejected"], [2, null]]);
+    expect(getOrder().status).toBe("mockup_ready");
+
+    await expect(review({ mug: "approved" })).resolves.toMatchObject({ approved: true });
+    expect(getOrder().status).toBe("crafting");
+  });
+
+  it("uses the default limit for products without one", async () => {
+    seed([{ id: "mug" }]);
+
+    // appConfig.order.mockupRevisionLimit allows two revisions
+    for (const version of [1, 2]) {
+      await upload({ mug: [`mug-${version}.jpg`] });
+      await review({ mug: "rejected" });
+    }
+    await upload({ mug: ["mug-3.jpg"] });
+
+    await expect(review({ mug: "rejected" })).rejects.toMatchObject({ code: "REVISION_LIMIT_REACHED" });
+    await expect(listMockupRevisions(ORDER_ID)).resolves.toEqual([
+      expect.objectContaining({ productId: "mug", revisionLimit: 2, revisionsUsed: 2 }),
+    ]);
+  });
+
+  it("records none of a review that asks one item past its limit", async () => {
+    seed([{ id: "mug", mockup_revision_limit: 1 }, { id: "frame", mockup_revision_limit: 1 }]);
+    await upload({ mug: ["mug-1.jpg"], frame: ["frame-1.jpg"] });
+    await review({ mug: "rejected", frame: "rejected" });
+    await upload({ mug: ["mug-2.jpg"], frame: ["frame-2.jpg"] });
+
+    await expect(review({ mug: "approved", frame: "rejected" })).rejects.toMatchObject({ code: "REVISION_LIMIT_REACHED" });
+    expect(versions("mug")).toEqual([[1, "rejected"], [2, null]]);
+
+    await expect(review({ mug: "approved", frame: "approved" })).resolves.toMatchObject({ approved: true });
+  });
+
+  it("wants a decision on every version awaiting the customer", async () => {
+    seed();
+    await upload({ mug: ["mug-1.jpg"], frame: ["frame-1.jpg"] });
+
+    await expect(review({ mug: "approved" })).rejects.toMatchObject({ code: "MOCKUP_REVIEW_INCOMPLETE" });
+    expect(versions("mug")).toEqual([[1, null]]);
+  });
+});
@@ -0,0 +1,533 @@
+/**
+ * Mockup revisions
+ * Every mockup upload is a numbered version per order item. The customer approves
+ * or rejects each version with feedback and comments pinned to the images; rejected
+ * items go back to the vendor until the product's revision limit is used up.
+ * orders.mockup_images mirrors the latest version of each item for older readers.
+ */
+
+import { appConfig } from "@/lib/config/app";
+import { ORDER_STATUS } from "@/lib/constants/order-status";
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { transitionOrderStatus, type OrderActor } from "@/lib/services/order-transitions";
+import { logger } from "@/lib/utils/logger";
+import type { MOCKUP_DECISIONS } from "@/lib/validations/mockups";
+
+export type MockupDecision = (typeof MOCKUP_DECISIONS)[number];
+
+export interface MockupAnnotation {
+  imageIndex: number;
+  x: number; // 0-1 fraction of the image width
+  y: number; // 0-1 fraction of the image height
+  comment: string;
+}
+
+export interface MockupRevision {
+  id: string;
+  orderId: string;
+  productId: string;
+  version: number;
+  images: string[];
+  artisanNote: string | null;
+  decision: MockupDecision | null;
+  customerFeedback: string | null;
+  annotations: MockupAnnotation[];
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+export interface MockupItemHistory {
+  productId: string;
+  revisionLimit: number;
+  revisionsUsed: number; // Versions the customer rejected
+  revisions: MockupRevision[]; // Oldest first
+}
+
+export interface SubmitMockupVersionsParams {
+  orderId: string;
+  actor: OrderActor;
+  mockupImages: Record<string, string[]>; // productId -> image URLs
+  notes?: Record<string, string>; // productId -> artisan note
+}
+
+export interface SubmitMockupVersionsResult {
+  revisions: MockupRevision[]; // Versions written by this upload
+  readyForReview: boolean; // Every item has a version awaiting the customer (or approved)
+  orderNumber: string;
+  customerId: string;
+}
+
+export interface ReviewMockupVersionsParams {
+  orderId: string;
+  actor: OrderActor;
+  decisions: Array<{
+    productId: string;
+    decision: MockupDecision;
+    feedback?: string;
+    annotations?: MockupAnnotation[];
+  }>;
+  metadata?: Record<string, unknown>; // Extra audit details for the status history
+}
+
+export interface ReviewMockupVersionsResult {
+  approved: boolean; // Every item approved and the order moved to crafting
+  rejectedProductIds: string[];
+  orderNumber: string;
+  vendorId: string;
+}
+
+export const MOCKUP_REVISION_COLUMNS =
+  "id, order_id, product_id, version, images, artisan_note, decision, customer_feedback, annotations, decided_at, created_at";
+
+/**
+ * Custom error class for mockup uploads and reviews that are not allowed
+ */
+export class MockupRevisionError extends ServiceError {
+  name = "MockupRevisionError";
+}
+
+function toMockupRevision(row: Record<string, unknown>): MockupRevision {
+  return {
+    id: row.id as string,
+    orderId: row.order_id as string,
+    productId: row.product_id as string,
+    version: row.version as number,
+    images: Array.isArray(row.images) ? (row.images as string[]) : [],
+    artisanNote: (row.artisan_note as string | null) ?? null,
+    decision: (row.decision as MockupDecision | null) ?? null,
+    customerFeedback: (row.customer_feedback as string | null) ?? null,
+    annotations: Array.isArray(row.annotations) ? (row.annotations as MockupAnnotation[]) : [],
+    decidedAt: (row.decided_at as string | null) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+async function getOrder(orderId: string) {
+  const { data: order, error } = await requireServiceClient(MockupRevisionError)
+    .from("orders")
+    .select("id, order_number, customer_id, vendor_id, status, items")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Mockup Revisions] Failed to fetch order", error);
+    throw new MockupRevisionError("Failed to fetch order", "ORDER_FETCH_FAILED", 500);
+  }
+
+  if (!order) {
+    throw new MockupRevisionError("Order not found", "ORDER_NOT_FOUND", 404);
+  }
+
+  return order as {
+    id: string;
+    order_number: string;
+    customer_id: string;
+    vendor_id: string;
+    status: string;
+    items: Array<{ productId: string }> | null;
+  };
+}
+
+function getOrderProductIds(order: { items: Array<{ productId: string }> | null }): string[] {
+  return Array.from(new Set((order.items || []).map((item) => item.productId)));
+}
+
+async function getRevisions(orderId: string): Promise<MockupRevision[]> {
+  const { data, error } = await requireServiceClient(MockupRevisionError)
+    .from("mockup_revisions")
+    .select(MOCKUP_REVISION_COLUMNS)
+    .eq("order_id", orderId)
+    .order("version", { ascending: true });
+
+  if (error) {
+    logger.error("[Mockup Revisions] Failed to fetch revisions", { orderId, error });
+    throw new MockupRevisionError("Failed to fetch mockups", "MOCKUP_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map(toMockupRevision);
+}
+
+/**
+ * Latest version per product
+ */
+function getLatestRevisions(revisions: MockupRevision[]): Map<string, MockupRevision> {
+  const latest = new Map<string, MockupRevision>();
+  for (const revision of revisions) {
+    const current = latest.get(revision.productId);
+    if (!current || revision.version > current.version) latest.set(revision.productId, revision);
+  }
+  return latest;
+}
+
+/**
+ * Revision limit per product; products without one use the appConfig default
+ */
+async function getRevisionLimits(productIds: string[]): Promise<Map<string, number>> {
+  if (productIds.length === 0) return new Map();
+
+  const { data, error } = await requireServiceClient(MockupRevisionError)
+    .from("products")
+    .select("id, mockup_revision_limit")
+    .in("id", productIds);
+
+  if (error) {
+    logger.error("[Mockup Revisions] Failed to fetch revision limits", error);
+    throw new MockupRevisionError("Failed to fetch mockups", "MOCKUP_FETCH_FAILED", 500);
+  }
+
+  return new Map(
+    (data || []).map((product) => [
+      product.id as string,
+      (product.mockup_revision_limit as number | null) ?? appConfig.order.mockupRevisionLimit,
+    ])
+  );
+}
+
+/**
+ * Items the vendor has to mock up before the order can be reviewed
+ * Orders with no personalisable item flagged (older products) need every item.
+ */
+async function getPersonalizableProductIds(productIds: string[]): Promise<string[]> {
+  if (productIds.length === 0) return [];
+
+  const { data, error } = await requireServiceClient(MockupRevisionError)
+    .from("products")
+    .select("id, is_personalizable")
+    .in("id", productIds);
+
+  if (error) {
+    logger.error("[Mockup Revisions] Failed to fetch products", error);
+    throw new MockupRevisionError("Failed to fetch mockups", "MOCKUP_FETCH_FAILED", 500);
+  }
+
+  const personalizable = new Set(
+    (data || []).filter((product) => product.is_personalizable).map((product) => product.id as string)
+  );
+  const required = productIds.filter((productId) => personalizable.has(productId));
+  return required.length > 0 ? required : productIds;
+}
+
+async function assertVendorOwnsOrder(actor: OrderActor, vendorId: string): Promise<void> {
+  if (actor.role === "admin" || actor.role === "system") return;
+
+  if (actor.role !== "vendor") {
+    throw new MockupRevisionError("Only the vendor can upload mockups", "MOCKUP_FORBIDDEN", 403);
+  }
+
+  const { data: vendor, error } = await requireServiceClient(MockupRevisionError)
+    .from("vendors")
+    .select("id")
+    .eq("user_id", actor.id)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Mockup Revisions] Failed to fetch vendor", error);
+    throw new MockupRevisionError("Failed to verify vendor", "VENDOR_LOOKUP_FAILED", 500);
+  }
+
+  if (!vendor || vendor.id !== vendorId) {
+    throw new MockupRevisionError("You do not have access to this order", "MOCKUP_FORBIDDEN", 403);
+  }
+}
+
+/**
+ * Version history for every item of an order, in the order's item order
+ * Access is checked by the caller.
+ */
+export async function listMockupRevisions(orderId: string): Promise<MockupItemHistory[]> {
+  const order = await getOrder(orderId);
+  const productIds = getOrderProductIds(order);
+  const [revisions, limits] = await Promise.all([getRevisions(orderId), getRevisionLimits(productIds)]);
+
+  return productIds.map((productId) => {
+    const itemRevisions = revisions.filter((revision) => revision.productId === productId);
+    return {
+      productId,
+      revisionLimit: limits.get(productId) ?? appConfig.order.mockupRevisionLimit,
+      revisionsUsed: itemRevisions.filter((revision) => revision.decision === "rejected").length,
+      revisions: itemRevisions,
+    };
+  });
+}
+
+/**
+ * Record the vendor's mockups as new versions
+ * An item whose latest version the customer hasn't reviewed yet is updated in place;
+ * approved items are left alone. Once every personalisable item has a version for the customer,
+ * the order moves to mockup_ready.
+ */
+export async function submitMockupVersions(params: SubmitMockupVersionsParams): Promise<SubmitMockupVersionsResult> {
+  const { orderId, actor, mockupImages, notes } = params;
+  const supabase = requireServiceClient(MockupRevisionError);
+  const order = await getOrder(orderId);
+
+  await assertVendorOwnsOrder(actor, order.vendor_id);
+
+  if (order.status !== ORDER_STATUS.PERSONALIZING) {
+    throw new MockupRevisionError("Mockups can only be uploaded while personalising", "MOCKUPS_NOT_EXPECTED", 409);
+  }
+
+  const productIds = getOrderProductIds(order);
+  const unknown = Object.keys(mockupImages).find((productId) => !productIds.includes(productId));
+  if (unknown) {
+    throw new MockupRevisionError("Mockup is for an item that isn't in this order", "MOCKUP_ITEM_NOT_IN_ORDER");
+  }
+
+  const latest = getLatestRevisions(await getRevisions(orderId));
+  const written: MockupRevision[] = [];
+
+  for (const [productId, images] of Object.entries(mockupImages)) {
+    const current = latest.get(productId);
+    if (current?.decision === "approved") continue;
+
+    const artisanNote = notes?.[productId]?.trim() || null;
+
+    // The customer hasn't seen an unreviewed version yet, so it's replaced rather than bumped
+    const { data, error } = current && current.decision === null
+      ? await supabase
+          .from("mockup_revisions")
+          .update({ images, artisan_note: artisanNote, uploaded_by: actor.id })
+          .eq("id", current.id)
+          .is("decision", null)
+          .select(MOCKUP_REVISION_COLUMNS)
+          .maybeSingle()
+      : await supabase
+          .from("mockup_revisions")
+          .insert({
+            order_id: orderId,
+            product_id: productId,
+            version: (current?.version ?? 0) + 1,
+            images,
+            artisan_note: artisanNote,
+            uploaded_by: actor.id,
+          })
+          .select(MOCKUP_REVISION_COLUMNS)
+          .maybeSingle();
+
+    if (error) {
+      if (error.code === "23505") {
+        throw new MockupRevisionError("Mockups were updated by someone else. Please refresh.", "MOCKUP_CONFLICT", 409);
+      }
+      logger.error("[Mockup Revisions] Failed to save mockup version", { orderId, productId, error });
+      throw new MockupRevisionError("Failed to save mockups", "MOCKUP_SAVE_FAILED", 500);
+    }
+
+    if (!data) {
+      throw new MockupRevisionError("Mockups were reviewed while you were uploading. Please refresh.", "MOCKUP_CONFLICT", 409);
+    }
+
+    const revision = toMockupRevision(data);
+    latest.set(productId, revision);
+    written.push(revision);
+  }
+
+  // Mirror the latest version of every item for older readers
+  const mirrored = Object.fromEntries(
+    Array.from(latest.entries()).map(([productId, revision]) => [productId, revision.images])
+  );
+  const requiredProductIds = await getPersonalizableProductIds(productIds);
+  const readyForReview = requiredProductIds.every((productId) => {
+    const revision = latest.get(productId);
+    return Boolean(revision && revision.decision !== "rejected" && revision.images.length > 0);
+  });
+
+  if (readyForReview) {
+    await transitionOrderStatus({
+      orderId,
+      from: ORDER_STATUS.PERSONALIZING,
+      to: ORDER_STATUS.MOCKUP_READY,
+      actor,
+      reason: "Vendor uploaded mockups",
+      metadata: { versions: written.map((revision) => ({ productId: revision.productId, version: revision.version })) },
+      updates: { mockup_images: mirrored },
+    });
+  } else {
+    const { error } = await supabase.from("orders").update({ mockup_images: mirrored }).eq("id", orderId);
+    if (error) {
+      // The versions are saved; only the legacy mirror is stale
+      logger.error("[Mockup Revisions] Failed to mirror mockup images", { orderId, error });
+    }
+  }
+
+  logger.info("[Mockup Revisions] Mockups uploaded", {
+    orderId,
+    versions: written.map((revision) => `${revision.productId}@${revision.version}`),
+    readyForReview,
+  });
+
+  return {
+    revisions: written,
+    readyForReview,
+    orderNumber: order.order_number,
+    customerId: order.customer_id,
+  };
+}
+
+/**
+ * Undo decisions recorded by a review that didn't go through
+ */
+async function clearDecisions(orderId: string, revisionIds: string[]): Promise<void> {
+  if (revisionIds.length === 0) return;
+
+  const { error } = await requireServiceClient(MockupRevisionError)
+    .from("mockup_revisions")
+    .update({ decision: null, customer_feedback: null, annotations: [], decided_by: null, decided_at: null })
+    .in("id", revisionIds);
+
+  if (error) {
+    logger.error("[Mockup Revisions] Failed to clear decisions", { orderId, revisionIds, error });
+  }
+}
+
+/**
+ * Approve or reject the versions awaiting the customer
+ * Every item awaiting review needs a decision. All approved moves the order to
+ * crafting; any rejection sends it back to the vendor, within each product's limit.
+ */
+export async function reviewMockupVersions(params: ReviewMockupVersionsParams): Promise<ReviewMockupVersionsResult> {
+  const { orderId, actor, decisions, metadata } = params;
+  const supabase = requireServiceClient(MockupRevisionError);
+  const order = await getOrder(orderId);
+
+  if (actor.role === "vendor" || (actor.role === "customer" && order.customer_id !== actor.id)) {
+    throw new MockupRevisionError("Only the customer can review mockups", "MOCKUP_FORBIDDEN", 403);
+  }
+
+  if (order.status !== ORDER_STATUS.MOCKUP_READY) {
+    throw new MockupRevisionError("There are no mockups waiting for review", "MOCKUPS_NOT_READY", 409);
+  }
+
+  const revisions = await getRevisions(orderId);
+  const latest = getLatestRevisions(revisions);
+  const pending = Array.from(latest.values()).filter((revision) => revision.decision === null);
+  const decisionsByProduct = new Map(decisions.map((decision) => [decision.productId, decision]));
+
+  if (pending.length === 0) {
+    throw new MockupRevisionError("There are no mockups waiting for review", "MOCKUPS_NOT_READY", 409);
+  }
+
+  const missing = pending.find((revision) => !decisionsByProduct.has(revision.productId));
+  if (missing || decisionsByProduct.size !== pending.length) {
+    throw new MockupRevisionError("Please review every mockup waiting for you", "MOCKUP_REVIEW_INCOMPLETE");
+  }
+
+  const outOfRange = pending.find((revision) =>
+    decisionsByProduct
+      .get(revision.productId)
+      ?.annotations?.some((annotation) => annotation.imageIndex >= revision.images.length)
+  );
+  if (outOfRange) {
+    throw new MockupRevisionError("A comment is pinned to an image that isn't in this mockup", "INVALID_ANNOTATION");
+  }
+
+  const rejected = pending.filter((revision) => decisionsByProduct.get(revision.productId)?.decision === "rejected");
+
+  if (rejected.length > 0) {
+    const limits = await getRevisionLimits(rejected.map((revision) => revision.productId));
+    const overLimit = rejected.find((revision) => {
+      const used = revisions.filter(
+        (candidate) => candidate.productId === revision.productId && candidate.decision === "rejected"
+      ).length;
+      return used >= (limits.get(revision.productId) ?? appConfig.order.mockupRevisionLimit);
+    });
+
+    if (overLimit) {
+      throw new MockupRevisionError(
+        "You've used all the revisions for this item. Please approve it or contact support.",
+        "REVISION_LIMIT_REACHED",
+        409
+      );
+    }
+  }
+
+  const now = new Date().toISOString();
+  const firstRejected = rejected[0] ? decisionsByProduct.get(rejected[0].productId) : undefined;
+
+  // Decisions are recorded before the order moves on; each write only claims a version nobody has
+  // decided yet, so a concurrent review stops here rather than at the state machine
+  const decided: string[] = [];
+  for (const revision of pending) {
+    const decision = decisionsByProduct.get(revision.productId)!;
+    const { data, error } = await supabase
+      .from("mockup_revisions")
+      .update({
+        decision: decision.decision,
+        customer_feedback: decision.feedback || null,
+        annotations: decision.annotations || [],
+        decided_by: actor.id,
+        decided_at: now,
+      })
+      .eq("id", revision.id)
+      .is("decision", null)
+      .select("id")
+      .maybeSingle();
+
+    if (error || !data) {
+      await clearDecisions(orderId, decided);
+      if (error) {
+        logger.error("[Mockup Revisions] Failed to record decision", { orderId, revisionId: revision.id, error });
+        throw new MockupRevisionError("Failed to review mockups", "MOCKUP_REVIEW_FAILED", 500);
+      }
+      throw new MockupRevisionError("These mockups were already reviewed. Please refresh.", "MOCKUP_CONFLICT", 409);
+    }
+    decided.push(revision.id);
+  }
+
+  try {
+    if (firstRejected) {
+      await transitionOrderStatus({
+        orderId,
+        from: ORDER_STATUS.MOCKUP_READY,
+        to: ORDER_STATUS.PERSONALIZING,
+        actor,
+        reason: firstRejected.feedback || "Please revise the mockup",
+        metadata: { ...metadata, rejected: rejected.map((revision) => ({ productId: revision.productId, version: revision.version })) },
+        updates: {
+          revision_request: {
+            productId: firstRejected.productId,
+            feedback: firstRejected.feedback || "Please revise the mockup",
+            requestedAt: now,
+          },
+        },
+      });
+    } else {
+      await transitionOrderStatus({
+        orderId,
+        from: ORDER_STATUS.MOCKUP_READY,
+        to: ORDER_STATUS.CRAFTING,
+        actor,
+        reason: actor.role === "system" ? "Mockups auto-approved" : "Customer approved mockups",
+        metadata: { ...metadata, approved: pending.map((revision) => ({ productId: revision.productId, version: revision.version })) },
+        updates: { mockup_approved_at: now, revision_request: null },
+      });
+    }
+  } catch (error) {
+    // The order didn't move, so the versions go back to awaiting review
+    await clearDecisions(orderId, decided);
+    throw error;
+  }
+
+  logger.info("[Mockup Revisions] Mockups reviewed", {
+    orderId,
+    approved: rejected.length === 0,
+    rejected: rejected.map((revision) => revision.productId),
+    actorRole: actor.role,
+  });
+
+  return {
+    approved: rejected.length === 0,
+    rejectedProductIds: rejected.map((revision) => revision.productId),
+    orderNumber: order.order_number,
+    vendorId: order.vendor_id,
+  };
+}
+
+/**
+ * Products whose latest version is waiting for the customer
+ */
+export async function getPendingMockupProductIds(orderId: string): Promise<string[]> {
+  const latest = getLatestRevisions(await getRevisions(orderId));
+  return Array.from(latest.values())
+    .filter((revision) => revision.decision === null)
+    .map((revision) => revision.productId);
+}
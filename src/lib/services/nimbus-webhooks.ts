@@ -0,0 +1,60 @@
+/**
+ * Nimbus webhook processing
+ * Maps Nimbus status callbacks onto courier updates; see
+ * src/lib/services/courier-webhooks.ts for what each status does to the order.
+ */
+
+import { normalizeNimbusStatus } from "@/lib/services/nimbus";
+import { processCourierUpdate } from "@/lib/services/courier-webhooks";
+import type { WebhookEvent, WebhookOutcome } from "@/lib/services/webhook-events";
+
+interface NimbusWebhookPayload {
+  event_id?: string;
+  delivery_id?: string;
+  awb?: string;
+  order_id?: string;
+  status?: string;
+  timestamp?: string; // ISO 8601
+  location?: string;
+  remarks?: string;
+  rider?: { name?: string; phone?: string };
+}
+
+/**
+ * Event ID, type, subject and timestamp for recording a delivery
+ */
+export function describeNimbusEvent(payload: NimbusWebhookPayload): {
+  eventType: string;
+  entityId: string | null;
+  eventCreatedAt: Date | null;
+} {
+  const timestamp = payload.timestamp ? new Date(payload.timestamp) : null;
+  return {
+    eventType: `delivery.${normalizeNimbusStatus(payload.status) ?? payload.status ?? "unknown"}`,
+    entityId: payload.delivery_id || payload.awb || null,
+    eventCreatedAt: timestamp && !Number.isNaN(timestamp.getTime()) ? timestamp : null,
+  };
+}
+
+/**
+ * Process a recorded Nimbus event (live delivery or admin replay)
+ * Errors propagate so the event is marked failed
+ */
+export async function processNimbusEvent(event: WebhookEvent): Promise<WebhookOutcome> {
+  const payload = event.payload as NimbusWebhookPayload;
+  const status = normalizeNimbusStatus(payload.status);
+
+  if (!status) {
+    return { status: "ignored", reason: `Unhandled delivery status: ${payload.status ?? "missing"}` };
+  }
+
+  return processCourierUpdate("nimbus", {
+    providerDeliveryId: payload.delivery_id,
+    awb: payload.awb,
+    status,
+    at: event.eventCreatedAt || undefined,
+    location: payload.location,
+    remarks: payload.remarks,
+    rider: payload.rider,
+  });
+}
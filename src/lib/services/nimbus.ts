@@ -1,43 +1,65 @@
 /**
  * Nimbus delivery API integration
- * 
- * NOTE: This service is prepared but not currently integrated.
- * Delivery partner integration is planned for future implementation.
- * 
- * Swiggy Dec 2025 pattern: Keep code simple - only integrate when needed.
- * Currently, orders use manual delivery coordination.
+ *
+ * The live CourierProvider (see src/lib/services/courier.ts). Deliveries are booked
+ * when an order is marked ready for pickup (see src/lib/services/deliveries.ts);
+ * Nimbus then reports courier progress to /api/webhooks/nimbus.
  */
+import crypto from "crypto";
 import { env } from "@/lib/config/env";
 import { logger } from "@/lib/utils/logger";
 import { appConfig } from "@/lib/config/app";
+import { timingSafeEqual, stringToBytes } from "@/lib/utils/crypto-safe";
 import { nimbusAuth } from "./nimbus-auth";
+import type {
+  CourierDeliveryStatus,
+  CourierProvider,
+  CourierQuote,
+  CourierTracking,
+  DeliveryBooking,
+  DeliveryRequest,
+  DeliverySlot,
+} from "./courier";
 
 export interface NimbusConfig {
   apiKey: string;
   apiUrl: string;
 }
 
-export interface DeliveryRequest {
-  orderId: string;
-  pickupAddress: {
-    name: string;
-    phone: string;
-    address: string;
-    city: string;
-    pincode: string;
-  };
-  deliveryAddress: {
-    name: string;
-    phone: string;
-    address: string;
-    city: string;
-    pincode: string;
-  };
-  weight: number; // kg
-  type: "local" | "intercity";
+// Nimbus sends several spellings of each status
+const NIMBUS_STATUS_MAP: Record<string, CourierDeliveryStatus> = {
+  assigned: "assigned",
+  rider_assigned: "assigned",
+  picked_up: "picked_up",
+  pickedup: "picked_up",
+  in_transit: "in_transit",
+  intransit: "in_transit",
+  out_for_delivery: "in_transit",
+  delivered: "delivered",
+  failed: "delivery_failed",
+  delivery_failed: "delivery_failed",
+  undelivered: "delivery_failed",
+  reattempt_scheduled: "reattempt_scheduled",
+  rescheduled: "reattempt_scheduled",
+  rto: "returned_to_origin",
+  rto_delivered: "returned_to_origin",
+  returned: "returned_to_origin",
+  returned_to_origin: "returned_to_origin",
+  cancelled: "cancelled",
+  canceled: "cancelled",
+};
+
+/**
+ * Map a Nimbus status string to a delivery status, or null when we don't track it
+ */
+export function normalizeNimbusStatus(status: string | null | undefined): CourierDeliveryStatus | null {
+  if (!status) return null;
+  const key = status.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return NIMBUS_STATUS_MAP[key] ?? null;
 }
 
-export class NimbusService {
+export class NimbusService implements CourierProvider {
+  readonly id = "nimbus" as const;
   private apiUrl: string | null;
 
   constructor(apiUrl?: string) {
@@ -45,43 +67,46 @@ export class NimbusService {
   }
 
   /**
-   * Create delivery order with Nimbus
+   * Base URL of the Nimbus API; bookings can't be faked, so calls fail without it
    */
-  async createDelivery(request: DeliveryRequest): Promise<{
-    deliveryId: string;
-    partnerId: string;
-    estimatedTime: string;
-  }> {
+  private requireApiUrl(): string {
     if (!this.apiUrl) {
-      logger.warn("[Nimbus] API not configured, returning mock response");
-      return {
-        deliveryId: `mock_delivery_${request.orderId}`,
-        partnerId: "mock_partner_123",
-        estimatedTime: request.type === "local" 
-          ? appConfig.delivery.defaultDeliveryTime 
-          : "2-5 days",
-      };
+      throw new Error("Nimbus API not configured (set NIMBUS_API_URL or use COURIER_PROVIDER=simulated)");
     }
+    return this.apiUrl;
+  }
+
+  /**
+   * Create delivery order with Nimbus
+   */
+  async createDelivery(request: DeliveryRequest): Promise<DeliveryBooking> {
+    const apiUrl = this.requireApiUrl();
 
     try {
       // Get authentication token
       const token = await nimbusAuth.getToken();
 
+      // Surprise orders: the rider mustn't call ahead, the delivery phone is the sender's
+      const body = JSON.stringify({
+        orderId: request.orderId,
+        pickup: request.pickupAddress,
+        delivery: request.deliveryAddress,
+        weight: request.weight,
+        type: request.type,
+        deliveryWindow: request.deliveryWindow,
+        callBeforeArrival: !request.surprise,
+        instructions: request.instructions,
+      });
+
       // Create delivery order via Nimbus API
       // Adjust endpoint based on actual Nimbus API documentation
-      const response = await fetch(`${this.apiUrl}/deliveries`, {
+      const response = await fetch(`${apiUrl}/deliveries`, {
         method: "POST",
         headers: {
           "Authorization": `Bearer ${token}`,
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          orderId: request.orderId,
-          pickup: request.pickupAddress,
-          delivery: request.deliveryAddress,
-          weight: request.weight,
-          type: request.type,
-        }),
+        body,
       });
 
       if (!response.ok) {
@@ -91,19 +116,13 @@ export class NimbusService {
           const newToken = await nimbusAuth.refreshToken();
           
           // Retry with new token
-          const retryResponse = await fetch(`${this.apiUrl}/deliveries`, {
+          const retryResponse = await fetch(`${apiUrl}/deliveries`, {
             method: "POST",
             headers: {
               "Authorization": `Bearer ${newToken}`,
               "Content-Type": "application/json",
             },
-            body: JSON.stringify({
-              orderId: request.orderId,
-              pickup: request.pickupAddress,
-              delivery: request.deliveryAddress,
-              weight: request.weight,
-              type: request.type,
-            }),
+            body,
           });
 
           if (!retryResponse.ok) {
@@ -120,6 +139,8 @@ export class NimbusService {
           return {
             deliveryId: retryData.deliveryId,
             partnerId: retryData.partnerId,
+            awb: retryData.awb || null,
+            trackingUrl: retryData.trackingUrl || null,
             estimatedTime: retryData.estimatedTime || (request.type === "local" 
               ? appConfig.delivery.defaultDeliveryTime 
               : "2-5 days"),
@@ -140,6 +161,8 @@ export class NimbusService {
       return {
         deliveryId: data.deliveryId,
         partnerId: data.partnerId,
+        awb: data.awb || null,
+        trackingUrl: data.trackingUrl || null,
         estimatedTime: data.estimatedTime || (request.type === "local" 
           ? appConfig.delivery.defaultDeliveryTime 
           : "2-5 days"),
@@ -151,23 +174,157 @@ export class NimbusService {
   }
 
   /**
-   * Track delivery status
+   * Authenticated JSON request to the Nimbus API, refreshing the token once on 401
    */
-  async trackDelivery(deliveryId: string): Promise<{
-    status: string;
-    location: { lat: number; lng: number } | null;
-    estimatedArrival?: string;
-  }> {
-    if (!this.apiUrl) {
-      logger.warn("[Nimbus] API not configured, returning mock response");
-      return { status: "pending", location: null };
+  private async authorizedRequest(path: string, init: { method: string; body?: unknown }): Promise<Record<string, unknown>> {
+    const apiUrl = this.requireApiUrl();
+    const send = (token: string) => fetch(`${apiUrl}${path}`, {
+      method: init.method,
+      headers: {
+        "Authorization": `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+
+    let response = await send(await nimbusAuth.getToken());
+
+    if (response.status === 401) {
+      logger.warn("[Nimbus] Token expired, refreshing...");
+      response = await send(await nimbusAuth.refreshToken());
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: response.statusText }));
+      throw new Error(errorData.message || `Nimbus API error: ${response.statusText}`);
+    }
+
+    return response.json().catch(() => ({}));
+  }
+
+  /**
+   * Price and transit time for the parcel, or why Nimbus can't take it
+   */
+  async quoteDelivery(request: DeliveryRequest): Promise<CourierQuote> {
+    try {
+      const data = await this.authorizedRequest("/rates", {
+        method: "POST",
+        body: {
+          pickupPincode: request.pickupAddress.pincode,
+          deliveryPincode: request.deliveryAddress.pincode,
+          weight: request.weight,
+          type: request.type,
+        },
+      });
+
+      const price = Number(data.price);
+      const estimatedDays = Number(data.estimatedDays);
+      const serviceable = data.serviceable !== false && Number.isFinite(price) && Number.isFinite(estimatedDays);
+
+      return {
+        provider: this.id,
+        serviceable,
+        price: serviceable ? price : null,
+        estimatedDays: serviceable ? estimatedDays : null,
+        reason: serviceable ? undefined : (data.reason as string | undefined) || "Not serviceable",
+      };
+    } catch (error) {
+      logger.error("[Nimbus] Failed to fetch rates", error);
+      throw error instanceof Error ? error : new Error("Failed to fetch rates");
+    }
+  }
+
+  /**
+   * Cancel a booking that hasn't been picked up yet
+   */
+  async cancelDelivery(deliveryId: string, reason: string): Promise<void> {
+    try {
+      await this.authorizedRequest(`/deliveries/${deliveryId}/cancel`, {
+        method: "POST",
+        body: { reason },
+      });
+      logger.info(`[Nimbus] Delivery cancelled: ${deliveryId}`);
+    } catch (error) {
+      logger.error("[Nimbus] Failed to cancel delivery", error);
+      throw error instanceof Error ? error : new Error("Failed to cancel delivery");
+    }
+  }
+
+  /**
+   * Move the next attempt of a booking to another slot
+   */
+  async rescheduleDelivery(deliveryId: string, slot: DeliverySlot): Promise<void> {
+    try {
+      await this.authorizedRequest(`/deliveries/${deliveryId}/reschedule`, {
+        method: "POST",
+        body: { slotStart: slot.start, slotEnd: slot.end },
+      });
+      logger.info(`[Nimbus] Delivery rescheduled: ${deliveryId}`, { slot });
+    } catch (error) {
+      logger.error("[Nimbus] Failed to reschedule delivery", error);
+      throw error instanceof Error ? error : new Error("Failed to reschedule delivery");
+    }
+  }
+
+  /**
+   * Ask the courier to try again after a failed attempt
+   */
+  async requestReattempt(deliveryId: string, slot: DeliverySlot): Promise<void> {
+    try {
+      await this.authorizedRequest(`/deliveries/${deliveryId}/reattempt`, {
+        method: "POST",
+        body: { slotStart: slot.start, slotEnd: slot.end },
+      });
+      logger.info(`[Nimbus] Reattempt requested: ${deliveryId}`, { slot });
+    } catch (error) {
+      logger.error("[Nimbus] Failed to request reattempt", error);
+      throw error instanceof Error ? error : new Error("Failed to request reattempt");
     }
+  }
+
+  /**
+   * Verify webhook signature (hex HMAC-SHA256 of the raw body with NIMBUS_WEBHOOK_SECRET)
+   */
+  verifyWebhook(signature: string, payload: string): boolean {
+    const secret = env.NIMBUS_WEBHOOK_SECRET;
+    if (!secret) {
+      logger.error("[Nimbus] Cannot verify webhook: NIMBUS_WEBHOOK_SECRET not configured");
+      return false;
+    }
+
+    try {
+      const expectedSignature = crypto
+        .createHmac("sha256", secret)
+        .update(payload)
+        .digest("hex");
+
+      const isValid = timingSafeEqual(
+        stringToBytes(signature, "hex"),
+        stringToBytes(expectedSignature, "hex")
+      );
+
+      if (!isValid) {
+        logger.warn("[Nimbus] Webhook signature verification failed");
+      }
+
+      return isValid;
+    } catch (error) {
+      logger.error("[Nimbus] Error verifying webhook signature", error);
+      return false;
+    }
+  }
+
+  /**
+   * Track delivery status
+   */
+  async trackDelivery(deliveryId: string): Promise<CourierTracking> {
+    const apiUrl = this.requireApiUrl();
 
     try {
       // Get authentication token
       const token = await nimbusAuth.getToken();
 
-      const response = await fetch(`${this.apiUrl}/deliveries/${deliveryId}/track`, {
+      const response = await fetch(`${apiUrl}/deliveries/${deliveryId}/track`, {
         headers: {
           "Authorization": `Bearer ${token}`,
         },
@@ -180,7 +337,7 @@ export class NimbusService {
           const newToken = await nimbusAuth.refreshToken();
           
           // Retry with new token
-          const retryResponse = await fetch(`${this.apiUrl}/deliveries/${deliveryId}/track`, {
+          const retryResponse = await fetch(`${apiUrl}/deliveries/${deliveryId}/track`, {
             headers: {
               "Authorization": `Bearer ${newToken}`,
             },
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+import { getWallet, installWalletLedger } from "@/test/wallet-ledger-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+import {
+  commitOrderCashback,
+  releaseOrderCashback,
+  reserveOrderCashback,
+  restoreOrderCashbackOnCancellation,
+  reverseOrderCashbackOnRefund,
+} from "./order-cashback";
+import { creditWallet, debitWallet } from "./wallet-ledger";
+
+const ORDER_ID = "order-1";
+const CUSTOMER_ID = "customer-1";
+
+function seed({ cashbackUsed = 40, total = 400 } = {}) {
+  state.db = createSupabaseFake();
+  installWalletLedger(state.db);
+  state.db.tables.orders = [{
+    id: ORDER_ID,
+    order_number: "WK1001",
+    customer_id: CUSTOMER_ID,
+    cashback_used: String(cashbackUsed),
+    total: String(total),
+  }];
+}
+
+async function openWallet(balance: number) {
+  await creditWallet({ userId: CUSTOMER_ID, amount: balance, idempotencyKey: "opening", entryType: "adjustment" });
+}
+
+async function reserve(amount = 40) {
+  await reserveOrderCashback({ orderId: ORDER_ID, orderNumber: "WK1001", customerId: CUSTOMER_ID, amount });
+}
+
+function wallet() {
+  return getWallet(state.db!, CUSTOMER_ID);
+}
+
+function entryTypes() {
+  return state.db!.tables.wallet_transactions
+    .filter((entry) => entry.order_id === ORDER_ID)
+    .map((entry) => entry.entry_type);
+}
+
+describe("order cashback", () => {
+  beforeEach(() => seed());
+
+  it("holds the cashback used at checkout", async () => {
+    await openWallet(100);
+    await reserve();
+    await reserve(); // retried checkout
+
+    expect(wallet()).toEqual({ balance: 60, held: 40 });
+  });
+
+  it("settles a hold once, whichever payment event comes first", async () => {
+    await openWallet(100);
+    await reserve();
+
+    await commitOrderCashback(ORDER_ID);
+    await releaseOrderCashback(ORDER_ID); // late payment.failed
+    await commitOrderCashback(ORDER_ID); // verify and webhook both commit
+
+    expect(wallet()).toEqual({ balance: 60, held: 0 });
+    expect(entryTypes()).toEqual(["cashback_reserve", "cashback_commit"]);
+  });
+
+  it("releases the hold when the payment fails", async () => {
+    await openWallet(100);
+    await reserve();
+
+    await releaseOrderCashback(ORDER_ID);
+    await releaseOrderCashback(ORDER_ID);
+
+    expect(wallet()).toEqual({ balance: 100, held: 0 });
+  });
+
+  it("debits the cashback directly when a payment succeeds after its hold was released", async () => {
+    await openWallet(100);
+    await reserve();
+    await releaseOrderCashback(ORDER_ID);
+
+    await commitOrderCashback(ORDER_ID);
+    await commitOrderCashback(ORDER_ID);
+
+    expect(wallet()).toEqual({ balance: 60, held: 0 });
+    expect(entryTypes()).toEqual(["cashback_reserve", "cashback_release", "cashback_redeem"]);
+  });
+
+  it("debits below zero when the released cashback was spent before the late capture", async () => {
+    await openWallet(40);
+    await reserve();
+    await releaseOrderCashback(ORDER_ID);
+    await debitWallet({ userId: CUSTOMER_ID, amount: 40, idempotencyKey: "spent", entryType: "adjustment" });
+
+    await commitOrderCashback(ORDER_ID);
+
+    expect(wallet().balance).toBe(-40);
+  });
+
+  it("releases a pending hold on cancellation", async () => {
+    await openWallet(100);
+    await reserve();
+
+    await restoreOrderCashbackOnCancellation(ORDER_ID);
+
+    expect(wallet()).toEqual({ balance: 100, held: 0 });
+    expect(entryTypes()).toEqual(["cashback_reserve", "cashback_release"]);
+  });
+
+  it("restores captured cashback on cancellation once", async () => {
+    await openWallet(100);
+    await reserve();
+    await commitOrderCashback(ORDER_ID);
+
+    await restoreOrderCashbackOnCancellation(ORDER_ID);
+    await restoreOrderCashbackOnCancellation(ORDER_ID);
+
+    expect(wallet()).toEqual({ balance: 100, held: 0 });
+    expect(entryTypes()).toEqual(["cashback_reserve", "cashback_commit", "cashback_restore"]);
+  });
+
+  it("never restores more than was spent, across refunds and cancellation", async () => {
+    await openWallet(100);
+    await reserve();
+    await commitOrderCashback(ORDER_ID);
+
+    // Half refunded, then the rest refunded, then a stray full refund and a cancellation
+    await reverseOrderCashbackOnRefund({ orderId: ORDER_ID, refundId: "refund-1", refundAmount: 200 });
+    expect(wallet().balance).toBe(80);
+
+    await reverseOrderCashbackOnRefund({ orderId: ORDER_ID, refundId: "refund-2", refundAmount: 200 });
+    await reverseOrderCashbackOnRefund({ orderId: ORDER_ID, refundId: "refund-3", refundAmount: 400 });
+    await restoreOrderCashbackOnCancellation(ORDER_ID);
+
+    expect(wallet().balance).toBe(100);
+  });
+
+  it("claws back the refunded share of earned cashback, even below zero", async () => {
+    seed({ cashbackUsed: 0, total: 400 });
+    await creditWallet({
+      userId: CUSTOMER_ID,
+      amount: 50,
+      idempotencyKey: `cashback_credit:${ORDER_ID}`,
+      entryType: "cashback_credit",
+      orderId: ORDER_ID,
+    });
+    await debitWallet({ userId: CUSTOMER_ID, amount: 50, idempotencyKey: "spent", entryType: "adjustment" });
+
+    await reverseOrderCashbackOnRefund({ orderId: ORDER_ID, refundId: "refund-1", refundAmount: 100 });
+    expect(wallet().balance).toBe(-12.5);
+
+    await reverseOrderCashbackOnRefund({ orderId: ORDER_ID, refundId: "refund-1", refundAmount: 100 }); // webhook retry
+    await reverseOrderCashbackOnRefund({ orderId: ORDER_ID, refundId: "refund-2", refundAmount: 400 });
+    expect(wallet().balance).toBe(-50);
+  });
+});
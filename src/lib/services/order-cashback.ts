@@ -0,0 +1,379 @@
+/**
+ * Order cashback lifecycle
+ * Ties wallet movements to order events:
+ *   order created     -> reserve (hold) the cashback used at checkout
+ *   order delivered   -> credit cashback earned per line (see cashback-rules)
+ *   payment captured  -> commit (capture) the hold
+ *   payment failed    -> release the hold
+ *   order cancelled   -> release the hold, or restore cashback already captured
+ *   payment refunded  -> restore used cashback and claw back cashback earned on the order
+ * Every step is an idempotent ledger entry linked to the order
+ */
+
+import { requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import { calculateOrderCashback, getLiveCashbackRules, type CashbackLineResult } from "@/lib/services/cashback-rules";
+import {
+  captureWalletFunds,
+  creditWallet,
+  debitWallet,
+  holdWalletFunds,
+  orderIdempotencyKey,
+  releaseWalletFunds,
+  WalletLedgerError,
+  type WalletEntryResult,
+} from "@/lib/services/wallet-ledger";
+
+interface OrderCashbackRow {
+  id: string;
+  order_number: string;
+  customer_id: string;
+  cashback_used: string | null;
+  total: string | null;
+}
+
+interface OrderLedgerEntry {
+  type: string;
+  entry_type: string | null;
+  amount: string;
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  if (value === null || value === undefined || value === "") return 0;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Commit and release share one key, so a hold is settled exactly once
+ * whichever payment event arrives first
+ */
+function settleKey(orderId: string): string {
+  return `cashback_settle:${orderId}`;
+}
+
+async function getOrder(orderId: string): Promise<OrderCashbackRow | null> {
+  const { data, error } = await requireServiceClient(WalletLedgerError)
+    .from("orders")
+    .select("id, order_number, customer_id, cashback_used, total")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Order Cashback] Failed to fetch order", { orderId, error });
+    throw new WalletLedgerError("Failed to fetch order", "ORDER_FETCH_FAILED", 500);
+  }
+
+  return data;
+}
+
+async function getOrderLedgerEntries(orderId: string): Promise<OrderLedgerEntry[]> {
+  const { data, error } = await requireServiceClient(WalletLedgerError)
+    .from("wallet_transactions")
+    .select("type, entry_type, amount")
+    .eq("order_id", orderId);
+
+  if (error) {
+    logger.error("[Order Cashback] Failed to fetch ledger entries", { orderId, error });
+    throw new WalletLedgerError("Failed to fetch wallet entries", "WALLET_ENTRIES_FETCH_FAILED", 500);
+  }
+
+  return data || [];
+}
+
+function sumEntries(entries: OrderLedgerEntry[], entryType: string): number {
+  return roundCurrency(
+    entries
+      .filter((entry) => entry.entry_type === entryType)
+      .reduce((sum, entry) => sum + toNumber(entry.amount), 0)
+  );
+}
+
+function isLedgerError(error: unknown, code: string): boolean {
+  return error instanceof WalletLedgerError && error.code === code;
+}
+
+/**
+ * Hold the cashback used at checkout against a new order
+ * Throws WalletLedgerError WALLET_INSUFFICIENT_BALANCE if it was spent elsewhere
+ */
+export async function reserveOrderCashback(params: {
+  orderId: string;
+  orderNumber: string;
+  customerId: string;
+  amount: number;
+}): Promise<void> {
+  if (params.amount <= 0) return;
+
+  await holdWalletFunds({
+    userId: params.customerId,
+    amount: params.amount,
+    idempotencyKey: orderIdempotencyKey("cashback_reserve", params.orderId),
+    entryType: "cashback_reserve",
+    description: `Cashback reserved for order ${params.orderNumber}`,
+    orderId: params.orderId,
+  });
+}
+
+/**
+ * Payment captured: the held cashback is spent for good
+ * If the hold was already released (an earlier attempt failed), debit the cashback again
+ */
+export async function commitOrderCashback(orderId: string): Promise<void> {
+  const order = await getOrder(orderId);
+  const amount = toNumber(order?.cashback_used);
+  if (!order || amount <= 0) return;
+
+  try {
+    await captureWalletFunds({
+      userId: order.customer_id,
+      amount,
+      idempotencyKey: settleKey(order.id),
+      entryType: "cashback_commit",
+      description: `Cashback used on order ${order.order_number}`,
+      orderId: order.id,
+    });
+    return;
+  } catch (error) {
+    if (!isLedgerError(error, "WALLET_IDEMPOTENCY_CONFLICT") && !isLedgerError(error, "WALLET_INSUFFICIENT_HELD_BALANCE")) {
+      throw error;
+    }
+  }
+
+  // The payment went through at the discounted amount, so the cashback is owed even if
+  // the balance has since been spent
+  await debitWallet({
+    userId: order.customer_id,
+    amount,
+    idempotencyKey: orderIdempotencyKey("cashback_redeem", order.id),
+    entryType: "cashback_redeem",
+    description: `Cashback used on order ${order.order_number}`,
+    orderId: order.id,
+    allowNegative: true,
+  });
+
+  logger.warn("[Order Cashback] Hold was not available at capture, debited directly", { orderId });
+}
+
+/**
+ * Payment failed: return the held cashback to the spendable balance
+ */
+export async function releaseOrderCashback(orderId: string): Promise<void> {
+  const order = await getOrder(orderId);
+  const amount = toNumber(order?.cashback_used);
+  if (!order || amount <= 0) return;
+
+  try {
+    await releaseWalletFunds({
+      userId: order.customer_id,
+      amount,
+      idempotencyKey: settleKey(order.id),
+      entryType: "cashback_release",
+      description: `Cashback returned for order ${order.order_number}`,
+      orderId: order.id,
+    });
+  } catch (error) {
+    // Already captured, or never held (orders placed before holds existed)
+    if (isLedgerError(error, "WALLET_IDEMPOTENCY_CONFLICT") || isLedgerError(error, "WALLET_INSUFFICIENT_HELD_BALANCE")) {
+      logger.info("[Order Cashback] Nothing to release", { orderId, reason: (error as WalletLedgerError).code });
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Credit back up to `amount` of the cashback used on an order, never more than was spent
+ */
+async function restoreSpentCashback(
+  order: OrderCashbackRow,
+  entries: OrderLedgerEntry[],
+  amount: number,
+  idempotencyKey: string
+): Promise<void> {
+  const spent = roundCurrency(sumEntries(entries, "cashback_commit") + sumEntries(entries, "cashback_redeem"));
+  const remaining = roundCurrency(spent - sumEntries(entries, "cashback_restore"));
+  const restore = roundCurrency(Math.min(amount, remaining));
+  if (restore <= 0) return;
+
+  await creditWallet({
+    userId: order.customer_id,
+    amount: restore,
+    idempotencyKey,
+    entryType: "cashback_restore",
+    description: `Cashback restored for order ${order.order_number}`,
+    orderId: order.id,
+  });
+}
+
+/**
+ * Order cancelled: release a pending hold, or restore cashback the payment already spent
+ */
+export async function restoreOrderCashbackOnCancellation(orderId: string): Promise<void> {
+  const order = await getOrder(orderId);
+  const amount = toNumber(order?.cashback_used);
+  if (!order || amount <= 0) return;
+
+  let entries = await getOrderLedgerEntries(order.id);
+  const captured = entries.some(
+    (entry) => entry.entry_type === "cashback_commit" || entry.entry_type === "cashback_redeem"
+  );
+
+  if (!captured) {
+    try {
+      await releaseWalletFunds({
+        userId: order.customer_id,
+        amount,
+        idempotencyKey: settleKey(order.id),
+        entryType: "cashback_release",
+        description: `Cashback returned for cancelled order ${order.order_number}`,
+        orderId: order.id,
+      });
+      return;
+    } catch (error) {
+      if (isLedgerError(error, "WALLET_INSUFFICIENT_HELD_BALANCE")) {
+        return; // Never held
+      }
+      if (!isLedgerError(error, "WALLET_IDEMPOTENCY_CONFLICT")) {
+        throw error;
+      }
+      // Captured between our read and the release
+      entries = await getOrderLedgerEntries(order.id);
+    }
+  }
+
+  await restoreSpentCashback(order, entries, amount, orderIdempotencyKey("cashback_restore", order.id));
+}
+
+/**
+ * Payment refunded (fully or partially)
+ * Restores the refunded share of the cashback used and claws back the same share
+ * of cashback earned on the order; clawbacks may take the balance below zero
+ */
+export async function reverseOrderCashbackOnRefund(params: {
+  orderId: string;
+  refundId: string;
+  refundAmount: number; // rupees
+}): Promise<void> {
+  const order = await getOrder(params.orderId);
+  if (!order) return;
+
+  const paidTotal = toNumber(order.total);
+  const share = paidTotal > 0 ? Math.min(1, params.refundAmount / paidTotal) : 1;
+  const entries = await getOrderLedgerEntries(order.id);
+
+  const used = toNumber(order.cashback_used);
+  if (used > 0) {
+    await restoreSpentCashback(
+      order,
+      entries,
+      roundCurrency(used * share),
+      `cashback_restore:${order.id}:${params.refundId}`
+    );
+  }
+
+  const earned = sumEntries(entries, "cashback_credit");
+  const remainingEarned = roundCurrency(earned - sumEntries(entries, "cashback_clawback"));
+  const clawback = roundCurrency(Math.min(earned * share, remainingEarned));
+
+  if (clawback > 0) {
+    await debitWallet({
+      userId: order.customer_id,
+      amount: clawback,
+      idempotencyKey: `cashback_clawback:${order.id}:${params.refundId}`,
+      entryType: "cashback_clawback",
+      description: `Cashback reversed for refunded order ${order.order_number}`,
+      orderId: order.id,
+      metadata: { refundId: params.refundId, refundAmount: params.refundAmount },
+      allowNegative: true,
+    });
+  }
+}
+
+/**
+ * Order delivered: credit the cashback it earned, resolved per line from cashback_config
+ * Lines are valued at what the customer actually paid (after coupon and cashback used)
+ * Returns null when the order earns nothing
+ */
+export async function creditOrderCashback(orderId: string): Promise<{
+  amount: number;
+  lines: CashbackLineResult[];
+  entry: WalletEntryResult;
+} | null> {
+  const supabase = requireServiceClient(WalletLedgerError);
+
+  const { data: order, error } = await supabase
+    .from("orders")
+    .select("id, order_number, customer_id, vendor_id, status, items, item_total, coupon_discount, cashback_used, total")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Order Cashback] Failed to fetch order", { orderId, error });
+    throw new WalletLedgerError("Failed to fetch order", "ORDER_FETCH_FAILED", 500);
+  }
+
+  if (!order) {
+    throw new WalletLedgerError("Order not found", "ORDER_NOT_FOUND", 404);
+  }
+
+  if (order.status !== "delivered") {
+    throw new WalletLedgerError("Order must be delivered to credit cashback", "ORDER_NOT_DELIVERED", 400);
+  }
+
+  const items: Array<{ productId: string; quantity: number; price: number }> = Array.isArray(order.items) ? order.items : [];
+  const productIds = [...new Set(items.map((item) => item.productId))];
+
+  const { data: products, error: productsError } = productIds.length > 0
+    ? await supabase.from("products").select("id, category").in("id", productIds)
+    : { data: [], error: null };
+
+  if (productsError) {
+    logger.error("[Order Cashback] Failed to fetch product categories", { orderId, error: productsError });
+    throw new WalletLedgerError("Failed to fetch products", "PRODUCT_FETCH_FAILED", 500);
+  }
+
+  const categoryById = new Map((products || []).map((product) => [product.id, product.category as string]));
+
+  const itemTotal = toNumber(order.item_total);
+  const paidItemValue = Math.max(0, itemTotal - toNumber(order.coupon_discount) - toNumber(order.cashback_used));
+  const paidShare = itemTotal > 0 ? paidItemValue / itemTotal : 0;
+
+  const result = calculateOrderCashback({
+    rules: await getLiveCashbackRules(),
+    vendorId: order.vendor_id,
+    orderTotal: toNumber(order.total),
+    lines: items.map((item) => ({
+      productId: item.productId,
+      category: categoryById.get(item.productId) || "",
+      lineTotal: roundCurrency(toNumber(item.price) * toNumber(item.quantity) * paidShare),
+    })),
+  });
+
+  if (result.total <= 0) {
+    return null;
+  }
+
+  const entry = await creditWallet({
+    userId: order.customer_id,
+    amount: result.total,
+    idempotencyKey: orderIdempotencyKey("cashback_credit", order.id),
+    entryType: "cashback_credit",
+    description: `Cashback for order ${order.order_number}`,
+    orderId: order.id,
+    metadata: {
+      lines: result.lines.map((line) => ({
+        productId: line.productId,
+        ruleId: line.ruleId,
+        percentage: line.percentage,
+        cashback: line.cashback,
+      })),
+    },
+  });
+
+  return { amount: result.total, lines: result.lines, entry };
+}
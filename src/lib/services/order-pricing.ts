@@ -0,0 +1,382 @@
+/**
+ * Server-side order pricing
+ * Recomputes an order from database prices so client-sent amounts are never trusted
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { appConfig } from "@/lib/config/app";
+import { env } from "@/lib/config/env";
+import { calculateItemPrice } from "@/lib/utils/pricing";
+import { calculateMaxCashbackUsage, isEligibleForCashback } from "@/lib/utils/cashback";
+import { calculateOrderWeight } from "@/lib/utils/order-helpers";
+import { quoteDeliveryFee, type DeliveryFeeQuote } from "@/lib/utils/delivery-fees";
+import { calculateDistance, isWithinDeliveryRadius } from "@/lib/services/distance-matrix";
+import { validateCoupon, type AppliedCoupon } from "@/lib/services/coupons";
+import { isInVendorZones, DeliveryZoneError } from "@/lib/services/delivery-zones";
+import {
+  isMidnightSlot,
+  resolveDeliverySlot,
+  DeliverySlotError,
+  type ScheduledDeliverySlot,
+} from "@/lib/services/delivery-slots";
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+
+export type DeliverySpeed = "standard" | "express";
+export type DeliveryType = "local" | "intercity";
+export type DeliveryOption = DeliverySpeed | "midnight";
+
+export interface QuoteItemInput {
+  productId: string;
+  quantity: number;
+  selectedVariants?: Record<string, string>;
+  selectedAddOns?: string[];
+}
+
+export interface QuoteAddressInput {
+  city: string;
+  pincode: string;
+  lat?: number | null;
+  lng?: number | null;
+}
+
+export interface BuildOrderQuoteParams {
+  customerId: string;
+  vendorId: string;
+  items: QuoteItemInput[];
+  deliveryAddress: QuoteAddressInput;
+  addressId?: string; // Saved address - used for lat/lng when provided
+  deliverySpeed?: DeliverySpeed;
+  deliverySlot?: { date: string; slot: string }; // Scheduled delivery (local only); standard fee, or midnight
+  cashbackRequested?: number; // Amount the customer wants to use; capped server-side
+  couponCode?: string;
+}
+
+export interface OrderQuoteLine {
+  productId: string;
+  name: string;
+  category: string;
+  quantity: number;
+  basePrice: number;
+  variantModifier: number;
+  addOnsPrice: number;
+  unitPrice: number;
+  lineTotal: number;
+  weightGrams: number | null;
+  selectedVariants: Record<string, string>;
+  selectedAddOns: string[];
+}
+
+export interface OrderQuote {
+  vendorId: string;
+  items: OrderQuoteLine[];
+  itemTotal: number;
+  deliveryType: DeliveryType;
+  deliverySpeed: DeliverySpeed;
+  deliverySlot: ScheduledDeliverySlot | null;
+  surprise: boolean; // Midnight surprise: the courier contacts the sender, never the recipient
+  deliveryFee: number;
+  deliveryFeeQuote: DeliveryFeeQuote; // Breakdown of deliveryFee
+  deliveryOptions: Record<DeliveryOption, number>; // Fee for each option at the resolved delivery type
+  distanceKm: number | null;
+  weightKg: number;
+  platformFee: number;
+  coupon: AppliedCoupon | null;
+  couponDiscount: number;
+  walletBalance: number;
+  maxCashbackUsage: number;
+  cashbackUsed: number;
+  gst: number; // GST included in the total
+  total: number;
+}
+
+/**
+ * Custom error class for orders that cannot be priced
+ */
+export class OrderPricingError extends ServiceError {
+  name = "OrderPricingError";
+}
+
+/**
+ * Round to paise so decimal columns and client totals compare cleanly
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * GST component of a GST-inclusive amount
+ */
+export function calculateIncludedGst(amount: number): number {
+  return roundCurrency(amount - amount / (1 + appConfig.gst.rate));
+}
+
+/**
+ * Work out local vs intercity from the real vendor-to-customer distance
+ * Falls back to a city comparison when either side has no coordinates. Local
+ * addresses must be within the vendor's radius and inside one of its zones.
+ */
+async function resolveDelivery(
+  supabase: SupabaseClient,
+  params: BuildOrderQuoteParams,
+  vendor: {
+    city: string;
+    store_lat: string | null;
+    store_lng: string | null;
+    max_delivery_radius: number | null;
+    intercity_enabled: boolean | null;
+    zones: unknown;
+  }
+): Promise<{ deliveryType: DeliveryType; distanceKm: number | null }> {
+  let destLat = toNumber(params.deliveryAddress.lat);
+  let destLng = toNumber(params.deliveryAddress.lng);
+
+  if ((destLat === null || destLng === null) && params.addressId) {
+    const { data: address, error } = await supabase
+      .from("addresses")
+      .select("lat, lng")
+      .eq("id", params.addressId)
+      .eq("user_id", params.customerId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("[Order Pricing] Failed to fetch address", error);
+    }
+    destLat = toNumber(address?.lat);
+    destLng = toNumber(address?.lng);
+  }
+
+  const isSameCity = vendor.city.trim().toLowerCase() === params.deliveryAddress.city.trim().toLowerCase();
+  const maxRadius = vendor.max_delivery_radius ?? 10;
+  const intercityEnabled = vendor.intercity_enabled ?? false;
+  const storeLat = toNumber(vendor.store_lat);
+  const storeLng = toNumber(vendor.store_lng);
+
+  let distanceKm: number | null = null;
+  if (storeLat !== null && storeLng !== null && destLat !== null && destLng !== null) {
+    const distance = await calculateDistance(storeLat, storeLng, destLat, destLng, env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY);
+    distanceKm = distance ? roundCurrency(distance.distanceKm) : null;
+  }
+
+  if (distanceKm === null) {
+    if (isSameCity) return { deliveryType: "local", distanceKm };
+    if (intercityEnabled) return { deliveryType: "intercity", distanceKm };
+    throw new OrderPricingError("This vendor does not deliver to your city", "NOT_SERVICEABLE");
+  }
+
+  if (!isWithinDeliveryRadius(distanceKm, maxRadius, intercityEnabled, isSameCity)) {
+    throw new OrderPricingError("This address is outside the vendor's delivery area", "NOT_SERVICEABLE");
+  }
+
+  const deliveryType: DeliveryType = isSameCity && distanceKm <= maxRadius ? "local" : "intercity";
+
+  // Local deliveries must also land in one of the vendor's zones, where the city has them
+  if (deliveryType === "local") {
+    let inZones: boolean | null;
+    try {
+      inZones = await isInVendorZones({
+        city: vendor.city,
+        vendorZones: Array.isArray(vendor.zones) ? (vendor.zones as string[]) : [],
+        lat: destLat,
+        lng: destLng,
+      });
+    } catch (error) {
+      if (error instanceof DeliveryZoneError) {
+        throw new OrderPricingError(error.message, error.code, error.status);
+      }
+      throw error;
+    }
+
+    if (inZones === false) {
+      throw new OrderPricingError("This address is outside the vendor's delivery zones", "NOT_SERVICEABLE");
+    }
+  }
+
+  return { deliveryType, distanceKm };
+}
+
+/**
+ * Build an authoritative quote for an order from database prices,
+ * vendor serviceability and the customer's real wallet balance
+ */
+export async function buildOrderQuote(params: BuildOrderQuoteParams): Promise<OrderQuote> {
+  const supabase = requireServiceClient(OrderPricingError);
+
+  const deliverySpeed = params.deliverySlot ? "standard" : params.deliverySpeed || "standard";
+
+  const { data: vendor, error: vendorError } = await supabase
+    .from("vendors")
+    .select("id, city, status, store_lat, store_lng, max_delivery_radius, intercity_enabled, zones")
+    .eq("id", params.vendorId)
+    .maybeSingle();
+
+  if (vendorError) {
+    logger.error("[Order Pricing] Failed to fetch vendor", vendorError);
+    throw new OrderPricingError("Failed to fetch vendor", "VENDOR_FETCH_FAILED", 500);
+  }
+
+  if (!vendor || vendor.status !== "approved") {
+    throw new OrderPricingError("Vendor is not available", "VENDOR_UNAVAILABLE", 404);
+  }
+
+  const productIds = Array.from(new Set(params.items.map((item) => item.productId)));
+  const { data: dbProducts, error: productsError } = await supabase
+    .from("products")
+    .select("id, vendor_id, name, category, price, variants, add_ons, weight_grams, is_active")
+    .in("id", productIds);
+
+  if (productsError) {
+    logger.error("[Order Pricing] Failed to fetch products", productsError);
+    throw new OrderPricingError("Failed to fetch products", "PRODUCT_FETCH_FAILED", 500);
+  }
+
+  const productsMap = new Map((dbProducts || []).map((p) => [p.id as string, p]));
+
+  const lines: OrderQuoteLine[] = params.items.map((item) => {
+    const product = productsMap.get(item.productId);
+    if (!product || product.vendor_id !== params.vendorId || product.is_active === false) {
+      throw new OrderPricingError(`Product ${item.productId} is not available`, "PRODUCT_UNAVAILABLE");
+    }
+
+    const variants = (product.variants || []) as Array<{
+      id: string;
+      options: Array<{ id: string; priceModifier?: number }>;
+    }>;
+    const addOns = (product.add_ons || []) as Array<{ id: string; price: number }>;
+    const selectedVariants = item.selectedVariants || {};
+    const selectedAddOns = item.selectedAddOns || [];
+
+    // Reject selections the product doesn't offer instead of silently pricing them at 0
+    for (const [variantId, optionId] of Object.entries(selectedVariants)) {
+      const variant = variants.find((v) => v.id === variantId);
+      if (!variant || !variant.options.some((o) => o.id === optionId)) {
+        throw new OrderPricingError(`Invalid option selected for ${product.name}`, "INVALID_SELECTION");
+      }
+    }
+    for (const addOnId of selectedAddOns) {
+      if (!addOns.some((a) => a.id === addOnId)) {
+        throw new OrderPricingError(`Invalid add-on selected for ${product.name}`, "INVALID_SELECTION");
+      }
+    }
+
+    const basePrice = toNumber(product.price) ?? 0;
+    const unitPrice = roundCurrency(calculateItemPrice({
+      price: basePrice,
+      variants,
+      addOns,
+      selectedVariants,
+      selectedAddOns,
+    }));
+    const addOnsPrice = roundCurrency(calculateItemPrice({ price: 0, addOns, selectedAddOns }));
+
+    return {
+      productId: item.productId,
+      name: product.name,
+      category: product.category,
+      quantity: item.quantity,
+      basePrice,
+      variantModifier: roundCurrency(unitPrice - basePrice - addOnsPrice),
+      addOnsPrice,
+      unitPrice,
+      lineTotal: roundCurrency(unitPrice * item.quantity),
+      weightGrams: product.weight_grams ?? null,
+      selectedVariants,
+      selectedAddOns,
+    };
+  });
+
+  const itemTotal = roundCurrency(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const { deliveryType, distanceKm } = await resolveDelivery(supabase, params, vendor);
+
+  let deliverySlot: ScheduledDeliverySlot | null = null;
+  if (params.deliverySlot) {
+    if (deliveryType !== "local") {
+      throw new OrderPricingError("Scheduled delivery is only available for local orders", "SLOT_NOT_AVAILABLE");
+    }
+    try {
+      deliverySlot = await resolveDeliverySlot({
+        vendorId: params.vendorId,
+        productIds,
+        date: params.deliverySlot.date,
+        slot: params.deliverySlot.slot,
+      });
+    } catch (error) {
+      if (error instanceof DeliverySlotError) {
+        throw new OrderPricingError(error.message, error.code, error.status);
+      }
+      throw error;
+    }
+  }
+  const weightKg = calculateOrderWeight(lines.map((line) => ({
+    quantity: line.quantity,
+    weight: line.weightGrams ? line.weightGrams / 1000 : undefined,
+  })));
+  const surprise = deliverySlot !== null && isMidnightSlot(deliverySlot.slot);
+  const feeInput = { city: vendor.city, deliveryType, distanceKm, weightKg, itemTotal, at: new Date() };
+  const deliveryFeeQuote = quoteDeliveryFee({ ...feeInput, deliverySpeed: surprise ? "midnight" : deliverySpeed });
+  const deliveryFee = deliveryFeeQuote.fee;
+  const deliveryOptions: Record<DeliveryOption, number> = {
+    standard: quoteDeliveryFee({ ...feeInput, deliverySpeed: "standard" }).fee,
+    express: quoteDeliveryFee({ ...feeInput, deliverySpeed: "express" }).fee,
+    midnight: quoteDeliveryFee({ ...feeInput, deliverySpeed: "midnight" }).fee,
+  };
+  const platformFee = appConfig.platformFee;
+
+  const coupon = params.couponCode
+    ? await validateCoupon({
+      code: params.couponCode,
+      customerId: params.customerId,
+      vendorId: params.vendorId,
+      items: lines,
+    })
+    : null;
+  const couponDiscount = coupon?.discount ?? 0;
+  const orderValue = roundCurrency(itemTotal + deliveryFee + platformFee - couponDiscount);
+
+  const { data: userWallet, error: walletError } = await supabase
+    .from("wallet")
+    .select("balance")
+    .eq("user_id", params.customerId)
+    .maybeSingle();
+
+  if (walletError) {
+    logger.error("[Order Pricing] Failed to fetch wallet", walletError);
+    throw new OrderPricingError("Failed to fetch wallet", "WALLET_FETCH_FAILED", 500);
+  }
+
+  const walletBalance = toNumber(userWallet?.balance) ?? 0;
+  const maxCashbackUsage = isEligibleForCashback(orderValue) && walletBalance > 0
+    ? calculateMaxCashbackUsage(orderValue, walletBalance)
+    : 0;
+  const cashbackUsed = roundCurrency(Math.min(params.cashbackRequested || 0, maxCashbackUsage));
+  const total = roundCurrency(orderValue - cashbackUsed);
+
+  return {
+    vendorId: params.vendorId,
+    items: lines,
+    itemTotal,
+    deliveryType,
+    deliverySpeed,
+    deliverySlot,
+    surprise,
+    deliveryFee,
+    deliveryFeeQuote,
+    deliveryOptions,
+    distanceKm,
+    weightKg,
+    platformFee,
+    coupon,
+    couponDiscount,
+    walletBalance,
+    maxCashbackUsage,
+    cashbackUsed,
+    gst: calculateIncludedGst(total),
+    total,
+  };
+}
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+const effects = vi.hoisted(() => ({
+  restoreOrderCashbackOnCancellation: vi.fn(async () => {}),
+  creditOrderCashback: vi.fn(async () => {}),
+  refundCancelledOrder: vi.fn(async () => null),
+  reverseOrderCouponRedemption: vi.fn(async () => {}),
+  bookOrderDelivery: vi.fn(async () => {}),
+  cancelOrderDelivery: vi.fn(async () => {}),
+}));
+
+vi.mock("@/lib/services/order-cashback", () => ({
+  restoreOrderCashbackOnCancellation: effects.restoreOrderCashbackOnCancellation,
+  creditOrderCashback: effects.creditOrderCashback,
+}));
+vi.mock("@/lib/services/refunds", () => ({ refundCancelledOrder: effects.refundCancelledOrder }));
+vi.mock("@/lib/services/coupons", () => ({ reverseOrderCouponRedemption: effects.reverseOrderCouponRedemption }));
+vi.mock("@/lib/services/deliveries", () => ({
+  bookOrderDelivery: effects.bookOrderDelivery,
+  cancelOrderDelivery: effects.cancelOrderDelivery,
+}));
+
+import { rejectOrder } from "./order-rejections";
+import type { OrderActor } from "./order-transitions";
+
+const ORDER_ID = "order-1";
+const vendor: OrderActor = { id: "vendor-user-1", role: "vendor" };
+
+type Tables = Record<string, Array<Record<string, unknown>>>;
+
+// Mirrors vendor_decided_order_count() in 0056_vendor_quality_score_outcomes.sql
+function decidedOrderCount(tables: Tables, vendorId: unknown): number {
+  return tables.orders.filter((order) =>
+    order.vendor_id === vendorId && (
+      !["pending", "cancelled"].includes(order.status as string) ||
+      tables.order_status_history.some((row) => row.order_id === order.id && row.from_status === "pending" && row.to_status !== "cancelled") ||
+      tables.order_rejections.some((row) => row.order_id === order.id) ||
+      tables.sla_breaches.some((row) => row.order_id === order.id && row.kind === "accept")
+    )
+  ).length;
+}
+
+function seed(order: Record<string, unknown> = {}) {
+  state.db = createSupabaseFake();
+  state.db.tables.orders = [{
+    id: ORDER_ID,
+    order_number: "WK1001",
+    customer_id: "customer-1",
+    vendor_id: "vendor-1",
+    status: "pending",
+    payment_status: "completed",
+    items: [{ productId: "product-1" }],
+    delivery_address: { city: "Bangalore" },
+    ...order,
+  }];
+  state.db.tables.vendors = [
+    { id: "vendor-1", user_id: "vendor-user-1", rejection_count: 0, accept_breach_count: 0, mockup_breach_count: 0, quality_score: 100 },
+    { id: "vendor-2", user_id: "vendor-user-2", rejection_count: 0, accept_breach_count: 0, mockup_breach_count: 0, quality_score: 100 },
+  ];
+  state.db.tables.products = [{ id: "product-1", vendor_id: "vendor-1", category: "Mugs" }];
+  state.db.tables.order_rejections = [];
+  state.db.tables.sla_breaches = [];
+  state.db.tables.order_status_history = [];
+  state.db.tables.notifications = [];
+
+  // Mirrors record_order_rejection() in 0051_order_rejections.sql, scored as in 0056
+  state.db.rpcs.record_order_rejection = (args, tables) => {
+    const order = tables.orders.find((row) => row.id === args.p_order_id);
+    if (!order) throw { message: "REJECTION_ORDER_NOT_FOUND" };
+    if (tables.order_rejections.some((row) => row.order_id === args.p_order_id)) return false;
+
+    tables.order_rejections.push({ order_id: args.p_order_id, vendor_id: order.vendor_id, reason: args.p_reason, note: args.p_note });
+    const row = tables.vendors.find((candidate) => candidate.id === order.vendor_id)!;
+    row.rejection_count = Number(row.rejection_count) + 1;
+    const penalty = Number(row.rejection_count) + Number(row.accept_breach_count) + 0.5 * Number(row.mockup_breach_count);
+    row.quality_score = Math.max(0, 100 - (100 * penalty) / Math.max(decidedOrderCount(tables, order.vendor_id), 1));
+    return true;
+  };
+
+  vi.clearAllMocks();
+}
+
+function reject(actor: OrderActor = vendor) {
+  return rejectOrder({ orderId: ORDER_ID, actor, reason: "out_of_stock", note: "Supplier ran out of blanks" });
+}
+
+function getOrder() {
+  return state.db!.tables.orders[0];
+}
+
+function getVendor() {
+  return state.db!.tables.vendors[0];
+}
+
+describe("rejectOrder", () => {
+  beforeEach(() => seed());
+
+  it("cancels and refunds the order and tells the customer why", async () => {
+    const result = await reject();
+
+    expect(result).toEqual({ orderId: ORDER_ID, orderNumber: "WK1001", alternatives: [] });
+    expect(getOrder().status).toBe("cancelled");
+    expect(effects.refundCancelledOrder).toHaveBeenCalledWith(ORDER_ID, "vendor-user-1", "Vendor rejected order: out_of_stock");
+    expect(effects.restoreOrderCashbackOnCancellation).toHaveBeenCalledWith(ORDER_ID);
+    expect(state.db!.tables.notifications).toEqual([
+      expect.objectContaining({
+        user_id: "customer-1",
+        message: "Order #WK1001 was cancelled because an item is out of stock. Your payment is being refunded in full.",
+      }),
+    ]);
+  });
+
+  it("records the rejection against the vendor's quality score", async () => {
+    // Three earlier orders the vendor took on, one it's still deciding on
+    state.db!.tables.orders.push(
+      { id: "order-2", vendor_id: "vendor-1", status: "delivered" },
+      { id: "order-3", vendor_id: "vendor-1", status: "crafting" },
+      { id: "order-4", vendor_id: "vendor-1", status: "cancelled" },
+      { id: "order-5", vendor_id: "vendor-1", status: "pending" }
+    );
+    state.db!.tables.order_status_history.push({ order_id: "order-4", from_status: "pending", to_status: "personalizing" });
+
+    await reject();
+
+    expect(state.db!.tables.order_rejections).toEqual([
+      { order_id: ORDER_ID, vendor_id: "vendor-1", reason: "out_of_stock", note: "Supplier ran out of blanks" },
+    ]);
+    expect(getVendor()).toMatchObject({ rejection_count: 1, quality_score: 75 });
+  });
+
+  it("rejects an order once", async () => {
+    await reject();
+
+    await expect(reject()).rejects.toMatchObject({ code: "ORDER_NOT_REJECTABLE", status: 409 });
+    expect(getVendor().rejection_count).toBe(1);
+    expect(effects.refundCancelledOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses once the customer has seen mockups", async () => {
+    seed({ status: "mockup_ready" });
+
+    await expect(reject()).rejects.toMatchObject({ code: "ORDER_NOT_REJECTABLE", status: 409 });
+    expect(getOrder().status).toBe("mockup_ready");
+    expect(effects.refundCancelledOrder).not.toHaveBeenCalled();
+  });
+
+  it("doesn't let another vendor reject the order", async () => {
+    await expect(reject({ id: "vendor-user-2", role: "vendor" })).rejects.toMatchObject({ code: "ORDER_FORBIDDEN", status: 403 });
+
+    expect(getOrder().status).toBe("pending");
+    expect(state.db!.tables.order_rejections).toEqual([]);
+    expect(state.db!.tables.vendors.map((row) => row.rejection_count)).toEqual([0, 0]);
+  });
+
+  it("keeps the cancellation when the rejection can't be recorded", async () => {
+    state.db!.rpcs.record_order_rejection = () => {
+      throw { message: "connection reset" };
+    };
+
+    await expect(reject()).resolves.toMatchObject({ orderId: ORDER_ID });
+    expect(getOrder().status).toBe("cancelled");
+    expect(effects.refundCancelledOrder).toHaveBeenCalledTimes(1);
+  });
+});
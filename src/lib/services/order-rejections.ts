@@ -0,0 +1,193 @@
+/**
+ * Order rejections
+ * A vendor who can't fulfil an order declines it with a structured reason. The
+ * cancellation refunds the payment and restores cashback; the customer is pointed
+ * at similar products from other vendors in their city, and the rejection counts
+ * toward the vendor's quality score.
+ */
+
+import { appConfig } from "@/lib/config/app";
+import { ORDER_STATUS, type OrderStatus } from "@/lib/constants/order-status";
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { transitionOrderStatus, type OrderActor } from "@/lib/services/order-transitions";
+import { logger } from "@/lib/utils/logger";
+import type { ORDER_REJECTION_REASONS } from "@/lib/validations/orders";
+
+export type OrderRejectionReason = (typeof ORDER_REJECTION_REASONS)[number];
+
+export interface RejectionAlternative {
+  productId: string;
+  name: string;
+  price: number;
+  image: string;
+  vendorId: string;
+  vendorName: string;
+}
+
+export interface RejectOrderParams {
+  orderId: string;
+  actor: OrderActor;
+  reason: OrderRejectionReason;
+  note?: string;
+}
+
+export interface RejectOrderResult {
+  orderId: string;
+  orderNumber: string;
+  alternatives: RejectionAlternative[];
+}
+
+// Wording shown to the customer - notes stay between the vendor and admins
+const REJECTION_REASON_MESSAGES: Record<OrderRejectionReason, string> = {
+  out_of_stock: "an item is out of stock",
+  cannot_personalize: "the partner can't make the personalisation you asked for",
+  capacity: "the partner is fully booked right now",
+  other: "the partner is unable to fulfil it",
+};
+
+// Stages before the vendor has shown the customer anything
+const REJECTABLE_STATUSES: OrderStatus[] = [
+  ORDER_STATUS.PENDING,
+  ORDER_STATUS.AWAITING_DETAILS,
+  ORDER_STATUS.PERSONALIZING,
+];
+
+/**
+ * Custom error class for rejections that are not allowed
+ */
+export class OrderRejectionError extends ServiceError {
+  name = "OrderRejectionError";
+}
+
+/**
+ * Products in the same categories from other approved vendors in the customer's city
+ * Best effort: the rejection stands even if no alternatives can be found.
+ */
+async function findAlternatives(order: {
+  vendor_id: string;
+  items: Array<{ productId: string }> | null;
+  delivery_address: { city?: string } | null;
+}): Promise<RejectionAlternative[]> {
+  const supabase = requireServiceClient(OrderRejectionError);
+  const productIds = (order.items || []).map((item) => item.productId);
+  const city = order.delivery_address?.city;
+  if (productIds.length === 0 || !city) return [];
+
+  const { data: ordered, error: orderedError } = await supabase
+    .from("products")
+    .select("category")
+    .in("id", productIds);
+
+  if (orderedError) {
+    logger.error("[Order Rejections] Failed to fetch ordered products", orderedError);
+    return [];
+  }
+
+  const categories = Array.from(new Set((ordered || []).map((product) => product.category as string)));
+  if (categories.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, name, price, image, vendor_id, vendors!inner(name, city, status)")
+    .in("category", categories)
+    .neq("vendor_id", order.vendor_id)
+    .eq("vendors.status", "approved")
+    .eq("vendors.city", city)
+    .limit(appConfig.order.rejectionAlternatives);
+
+  if (error) {
+    logger.error("[Order Rejections] Failed to fetch alternatives", error);
+    return [];
+  }
+
+  return (data || []).map((product) => {
+    const vendor = product.vendors as unknown as { name: string };
+    return {
+      productId: product.id,
+      name: product.name,
+      price: Number(product.price),
+      image: product.image,
+      vendorId: product.vendor_id,
+      vendorName: vendor.name,
+    };
+  });
+}
+
+/**
+ * Reject an order on the vendor's behalf
+ * Only orders the vendor hasn't sent mockups for can be rejected; later on the
+ * customer has seen the work and an admin has to cancel.
+ */
+export async function rejectOrder(params: RejectOrderParams): Promise<RejectOrderResult> {
+  const { orderId, actor, reason, note } = params;
+  const supabase = requireServiceClient(OrderRejectionError);
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, order_number, customer_id, vendor_id, status, items, delivery_address")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    logger.error("[Order Rejections] Failed to fetch order", orderError);
+    throw new OrderRejectionError("Failed to fetch order", "ORDER_FETCH_FAILED", 500);
+  }
+
+  if (!order) {
+    throw new OrderRejectionError("Order not found", "ORDER_NOT_FOUND", 404);
+  }
+
+  const status = order.status as OrderStatus;
+
+  if (!REJECTABLE_STATUSES.includes(status)) {
+    throw new OrderRejectionError(
+      "Orders can only be rejected before mockups are shared. Please contact support.",
+      "ORDER_NOT_REJECTABLE",
+      409
+    );
+  }
+
+  // Ownership, concurrency, refund and cashback restore are handled by the state machine
+  await transitionOrderStatus({
+    orderId,
+    from: status,
+    to: ORDER_STATUS.CANCELLED,
+    actor,
+    reason: `Vendor rejected order: ${reason}`,
+    metadata: { rejectionReason: reason, ...(note ? { rejectionNote: note } : {}) },
+  });
+
+  const { error: recordError } = await supabase.rpc("record_order_rejection", {
+    p_order_id: orderId,
+    p_reason: reason,
+    p_note: note || null,
+  });
+
+  if (recordError) {
+    // The order is already cancelled and refunded; only the vendor's tally misses it
+    logger.error("[Order Rejections] Failed to record rejection", { orderId, error: recordError });
+  }
+
+  const alternatives = await findAlternatives(order);
+
+  const { error: notificationError } = await supabase
+    .from("notifications")
+    .insert({
+      user_id: order.customer_id,
+      type: "order",
+      title: "Order cancelled",
+      message: `Order #${order.order_number} was cancelled because ${REJECTION_REASON_MESSAGES[reason]}. Your payment is being refunded in full.${
+        alternatives.length > 0 ? " Here are some similar gifts you might like." : ""
+      }`,
+      data: { orderId, rejectionReason: reason, alternatives },
+    });
+
+  if (notificationError) {
+    // Don't fail the rejection if the notification fails
+    logger.error("[Order Rejections] Failed to notify customer", notificationError);
+  }
+
+  logger.info("[Order Rejections] Order rejected", { orderId, reason, vendorId: order.vendor_id });
+
+  return { orderId, orderNumber: order.order_number, alternatives };
+}
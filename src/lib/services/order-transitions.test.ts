@@ -0,0 +1,201 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+// Side effects of a change have their own coverage; here they only need to be called
+const effects = vi.hoisted(() => ({
+  restoreOrderCashbackOnCancellation: vi.fn(async () => {}),
+  creditOrderCashback: vi.fn(async () => {}),
+  refundCancelledOrder: vi.fn(async () => {}),
+  reverseOrderCouponRedemption: vi.fn(async () => {}),
+  bookOrderDelivery: vi.fn(async () => {}),
+  cancelOrderDelivery: vi.fn(async () => {}),
+}));
+
+vi.mock("@/lib/services/order-cashback", () => ({
+  restoreOrderCashbackOnCancellation: effects.restoreOrderCashbackOnCancellation,
+  creditOrderCashback: effects.creditOrderCashback,
+}));
+vi.mock("@/lib/services/refunds", () => ({ refundCancelledOrder: effects.refundCancelledOrder }));
+vi.mock("@/lib/services/coupons", () => ({ reverseOrderCouponRedemption: effects.reverseOrderCouponRedemption }));
+vi.mock("@/lib/services/deliveries", () => ({
+  bookOrderDelivery: effects.bookOrderDelivery,
+  cancelOrderDelivery: effects.cancelOrderDelivery,
+}));
+
+import { canTransition, getAllowedTransitions, transitionOrderStatus, SYSTEM_ACTOR, type OrderActor } from "./order-transitions";
+
+const ORDER_ID = "order-1";
+const customer: OrderActor = { id: "customer-1", role: "customer" };
+const vendor: OrderActor = { id: "vendor-user-1", role: "vendor" };
+const admin: OrderActor = { id: "admin-1", role: "admin" };
+
+function seed(status = "pending") {
+  state.db = createSupabaseFake();
+  state.db.tables.orders = [{
+    id: ORDER_ID,
+    order_number: "WK1001",
+    customer_id: customer.id,
+    vendor_id: "vendor-1",
+    status,
+    items: [],
+  }];
+  state.db.tables.vendors = [
+    { id: "vendor-1", user_id: vendor.id, operating_hours: null, mockup_auto_approve: true },
+    { id: "vendor-2", user_id: "vendor-user-2" },
+  ];
+  state.db.tables.order_status_history = [];
+  vi.clearAllMocks();
+}
+
+function getOrder() {
+  return state.db!.tables.orders[0];
+}
+
+async function expectTransitionError(promise: Promise<unknown>, code: string, status: number) {
+  await expect(promise).rejects.toMatchObject({ code, status });
+}
+
+describe("ORDER_TRANSITIONS", () => {
+  it.each([
+    ["pending", "cancelled", "customer"],
+    ["pending", "personalizing", "vendor"],
+    ["awaiting_details", "personalizing", "customer"],
+    ["mockup_ready", "approved", "system"],
+    ["mockup_ready", "personalizing", "customer"],
+    ["ready_for_pickup", "out_for_delivery", "system"],
+    ["out_for_delivery", "cancelled", "admin"],
+  ] as const)("lets %s -> %s be made by %s", (from, to, role) => {
+    expect(canTransition(from, to, role)).toBe(true);
+  });
+
+  it.each([
+    ["pending", "personalizing", "customer"],
+    ["personalizing", "cancelled", "customer"],
+    ["mockup_ready", "approved", "vendor"],
+    ["approved", "ready_for_pickup", "customer"],
+    ["ready_for_pickup", "out_for_delivery", "vendor"],
+    ["out_for_delivery", "cancelled", "system"],
+    ["pending", "delivered", "admin"],
+    ["delivered", "cancelled", "admin"],
+    ["cancelled", "pending", "admin"],
+  ] as const)("doesn't let %s -> %s be made by %s", (from, to, role) => {
+    expect(canTransition(from, to, role)).toBe(false);
+  });
+
+  it("lists the statuses a role can move an order to", () => {
+    expect(getAllowedTransitions("pending", "customer")).toEqual(["cancelled"]);
+    expect(getAllowedTransitions("delivered", "admin")).toEqual([]);
+  });
+});
+
+describe("transitionOrderStatus", () => {
+  beforeEach(() => seed());
+
+  it("changes the status and records who changed it", async () => {
+    const result = await transitionOrderStatus({ orderId: ORDER_ID, to: "cancelled", actor: customer, reason: "Changed my mind" });
+
+    expect(result).toMatchObject({ from: "pending", to: "cancelled", orderNumber: "WK1001" });
+    expect(getOrder().status).toBe("cancelled");
+    expect(state.db!.tables.order_status_history).toEqual([
+      expect.objectContaining({
+        order_id: ORDER_ID,
+        from_status: "pending",
+        to_status: "cancelled",
+        actor_id: customer.id,
+        actor_role: "customer",
+        reason: "Changed my mind",
+      }),
+    ]);
+    expect(effects.refundCancelledOrder).toHaveBeenCalledWith(ORDER_ID, customer.id, "Changed my mind");
+    expect(effects.cancelOrderDelivery).toHaveBeenCalled();
+  });
+
+  it("writes extra columns with the status", async () => {
+    seed("ready_for_pickup");
+    await transitionOrderStatus({ orderId: ORDER_ID, to: "out_for_delivery", actor: SYSTEM_ACTOR, updates: { delivery_partner_phone: "+919000000000" } });
+
+    expect(getOrder()).toMatchObject({ status: "out_for_delivery", delivery_partner_phone: "+919000000000" });
+  });
+
+  it("rejects a change the role may not make", async () => {
+    await expectTransitionError(
+      transitionOrderStatus({ orderId: ORDER_ID, to: "personalizing", actor: customer }),
+      "INVALID_TRANSITION",
+      400
+    );
+    expect(getOrder().status).toBe("pending");
+    expect(state.db!.tables.order_status_history).toEqual([]);
+  });
+
+  it("only lets the order's own customer and vendor act on it", async () => {
+    await expectTransitionError(
+      transitionOrderStatus({ orderId: ORDER_ID, to: "cancelled", actor: { id: "customer-2", role: "customer" } }),
+      "ORDER_FORBIDDEN",
+      403
+    );
+    await expectTransitionError(
+      transitionOrderStatus({ orderId: ORDER_ID, to: "cancelled", actor: { id: "vendor-user-2", role: "vendor" } }),
+      "ORDER_FORBIDDEN",
+      403
+    );
+
+    await transitionOrderStatus({ orderId: ORDER_ID, to: "cancelled", actor: vendor });
+    expect(getOrder().status).toBe("cancelled");
+  });
+
+  it("refuses a change from a status the order has already left", async () => {
+    seed("awaiting_details");
+
+    await expectTransitionError(
+      transitionOrderStatus({ orderId: ORDER_ID, from: "pending", to: "cancelled", actor: admin }),
+      "ORDER_STATUS_CHANGED",
+      409
+    );
+    expect(getOrder().status).toBe("awaiting_details");
+  });
+
+  it("loses to a change made between the read and the update", async () => {
+    const fake = state.db!;
+    const from = fake.client.from;
+    // Another request cancels the order while this one is validating
+    fake.client.from = (table: string) => {
+      if (table === "order_status_history" && getOrder().status === "pending") {
+        getOrder().status = "cancelled";
+      }
+      return from(table);
+    };
+
+    await expectTransitionError(
+      transitionOrderStatus({ orderId: ORDER_ID, to: "awaiting_details", actor: admin }),
+      "ORDER_STATUS_CHANGED",
+      409
+    );
+    expect(getOrder().status).toBe("cancelled");
+    expect(state.db!.tables.order_status_history).toEqual([]);
+  });
+
+  it("fails without changing the status when the history can't be written", async () => {
+    state.db!.failWrites("order_status_history");
+
+    await expectTransitionError(
+      transitionOrderStatus({ orderId: ORDER_ID, to: "cancelled", actor: admin }),
+      "HISTORY_WRITE_FAILED",
+      500
+    );
+    expect(getOrder().status).toBe("pending");
+    expect(effects.refundCancelledOrder).not.toHaveBeenCalled();
+  });
+
+  it("books a delivery when the order is ready for pickup", async () => {
+    seed("crafting");
+    await transitionOrderStatus({ orderId: ORDER_ID, to: "ready_for_pickup", actor: vendor });
+
+    expect(effects.bookOrderDelivery).toHaveBeenCalledWith(ORDER_ID);
+  });
+});
@@ -0,0 +1,475 @@
+/**
+ * Order state machine
+ * Single place that decides which status changes are allowed, who may make them,
+ * and records every change in order_status_history
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { appConfig } from "@/lib/config/app";
+import { ORDER_STATUS, type OrderStatus } from "@/lib/constants/order-status";
+import { getSupabaseServiceClient } from "@/lib/supabase/client";
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { creditOrderCashback, restoreOrderCashbackOnCancellation } from "@/lib/services/order-cashback";
+import { refundCancelledOrder } from "@/lib/services/refunds";
+import { reverseOrderCouponRedemption } from "@/lib/services/coupons";
+import { bookOrderDelivery, cancelOrderDelivery } from "@/lib/services/deliveries";
+import { calculateMockupSLA, getOrderMockupSlaHours, type MockupWorkingHours } from "@/lib/utils/sla";
+import { logger } from "@/lib/utils/logger";
+
+export type OrderActorRole = "customer" | "vendor" | "admin" | "system";
+
+export interface OrderActor {
+  id: string | null; // users.id, null for system jobs and webhooks
+  role: OrderActorRole;
+}
+
+export const SYSTEM_ACTOR: OrderActor = { id: null, role: "system" };
+
+/**
+ * Allowed transitions: from status -> to status -> roles allowed to make the change
+ * Statuses missing from a row's map cannot be reached from that status
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, readonly OrderActorRole[]>>> = {
+  [ORDER_STATUS.PENDING]: {
+    [ORDER_STATUS.AWAITING_DETAILS]: ["vendor", "admin", "system"],
+    [ORDER_STATUS.PERSONALIZING]: ["vendor", "admin"],
+    [ORDER_STATUS.CANCELLED]: ["customer", "vendor", "admin", "system"],
+  },
+  [ORDER_STATUS.AWAITING_DETAILS]: {
+    [ORDER_STATUS.PERSONALIZING]: ["customer", "admin"],
+    [ORDER_STATUS.CANCELLED]: ["customer", "vendor", "admin", "system"], // vendor rejections
+  },
+  [ORDER_STATUS.PERSONALIZING]: {
+    [ORDER_STATUS.MOCKUP_READY]: ["vendor", "admin"],
+    [ORDER_STATUS.CANCELLED]: ["vendor", "admin", "system"], // vendor rejections
+  },
+  [ORDER_STATUS.MOCKUP_READY]: {
+    [ORDER_STATUS.MOCKUP_READY]: ["vendor", "admin"], // mockups replaced before review
+    [ORDER_STATUS.APPROVED]: ["customer", "admin", "system"],
+    [ORDER_STATUS.CRAFTING]: ["customer", "admin", "system"],
+    [ORDER_STATUS.PERSONALIZING]: ["customer", "admin"], // revision requested
+    [ORDER_STATUS.CANCELLED]: ["admin", "system"],
+  },
+  [ORDER_STATUS.APPROVED]: {
+    [ORDER_STATUS.CRAFTING]: ["vendor", "admin"],
+    [ORDER_STATUS.READY_FOR_PICKUP]: ["vendor", "admin"],
+    [ORDER_STATUS.CANCELLED]: ["admin", "system"],
+  },
+  [ORDER_STATUS.CRAFTING]: {
+    [ORDER_STATUS.READY_FOR_PICKUP]: ["vendor", "admin"],
+    [ORDER_STATUS.CANCELLED]: ["admin", "system"],
+  },
+  [ORDER_STATUS.READY_FOR_PICKUP]: {
+    [ORDER_STATUS.OUT_FOR_DELIVERY]: ["admin", "system"],
+    [ORDER_STATUS.CANCELLED]: ["admin", "system"],
+  },
+  [ORDER_STATUS.OUT_FOR_DELIVERY]: {
+    [ORDER_STATUS.DELIVERED]: ["admin", "system"],
+    [ORDER_STATUS.CANCELLED]: ["admin"], // parcel returned to origin
+  },
+  [ORDER_STATUS.DELIVERED]: {},
+  [ORDER_STATUS.CANCELLED]: {},
+};
+
+/**
+ * Custom error class for rejected transitions
+ */
+export class OrderTransitionError extends ServiceError {
+  name = "OrderTransitionError";
+}
+
+export interface TransitionOrderParams {
+  orderId: string;
+  from?: OrderStatus; // Only move the order if it is still in this status
+  to: OrderStatus;
+  actor: OrderActor;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  updates?: Record<string, unknown>; // Extra order columns (snake_case) written with the status change
+}
+
+export interface TransitionOrderResult {
+  orderId: string;
+  orderNumber: string;
+  customerId: string;
+  vendorId: string;
+  from: OrderStatus;
+  to: OrderStatus;
+}
+
+/**
+ * Map an authenticated user to a transition actor
+ */
+export function getOrderActor(user: { id: string; role: string }): OrderActor {
+  const role: OrderActorRole =
+    user.role === "vendor" || user.role === "admin" ? user.role : "customer";
+  return { id: user.id, role };
+}
+
+/**
+ * Check whether a role may move an order between two statuses
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus, role: OrderActorRole): boolean {
+  return ORDER_TRANSITIONS[from]?.[to]?.includes(role) ?? false;
+}
+
+/**
+ * Statuses a role can move an order to from its current status
+ */
+export function getAllowedTransitions(from: OrderStatus, role: OrderActorRole): OrderStatus[] {
+  const targets = ORDER_TRANSITIONS[from] || {};
+  return (Object.keys(targets) as OrderStatus[]).filter((to) => targets[to]?.includes(role));
+}
+
+/**
+ * Verify the actor is a party to the order (admins and system may act on any order)
+ */
+async function assertActorOwnsOrder(
+  supabase: SupabaseClient,
+  actor: OrderActor,
+  order: { customer_id: string; vendor_id: string }
+): Promise<void> {
+  if (actor.role === "admin" || actor.role === "system") {
+    return;
+  }
+
+  if (actor.role === "customer") {
+    if (order.customer_id !== actor.id) {
+      throw new OrderTransitionError("You do not have access to this order", "ORDER_FORBIDDEN", 403);
+    }
+    return;
+  }
+
+  const { data: vendor, error } = await supabase
+    .from("vendors")
+    .select("id")
+    .eq("user_id", actor.id)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Order Transitions] Failed to fetch vendor", error);
+    throw new OrderTransitionError("Failed to verify vendor", "VENDOR_LOOKUP_FAILED", 500);
+  }
+
+  if (!vendor || vendor.id !== order.vendor_id) {
+    throw new OrderTransitionError("You do not have access to this order", "ORDER_FORBIDDEN", 403);
+  }
+}
+
+/**
+ * Mockup deadline for an order the vendor starts personalising now
+ * Uses the longest SLA among its personalisable products and the vendor's hours;
+ * falls back to the default SLA if either can't be read.
+ */
+async function getMockupDeadline(
+  supabase: SupabaseClient,
+  order: { id: string; vendor_id: string; items: Array<{ productId: string }> | null },
+  startedAt: Date
+): Promise<Date> {
+  const productIds = (order.items || []).map((item) => item.productId);
+
+  const [productsResult, vendorResult] = await Promise.all([
+    productIds.length > 0
+      ? supabase.from("products").select("id, is_personalizable, mockup_sla_hours").in("id", productIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from("vendors").select("id, operating_hours").eq("id", order.vendor_id).maybeSingle(),
+  ]);
+
+  if (productsResult.error || vendorResult.error) {
+    logger.error("[Order Transitions] Failed to fetch mockup SLA settings", {
+      orderId: order.id,
+      error: productsResult.error || vendorResult.error,
+    });
+    return calculateMockupSLA(startedAt);
+  }
+
+  const slaHours = getOrderMockupSlaHours(
+    (productsResult.data || []).map((product) => ({
+      isPersonalizable: Boolean(product.is_personalizable),
+      mockupSlaHours: product.mockup_sla_hours ?? null,
+    }))
+  );
+
+  return calculateMockupSLA(startedAt, slaHours, vendorResult.data?.operating_hours as MockupWorkingHours | null);
+}
+
+/**
+ * Review window for mockups that are ready now
+ * Orders auto-approve only if the vendor and every item allow it; if the settings
+ * can't be read the order waits for the customer. Reminders go out either way.
+ */
+async function getMockupReviewWindow(
+  supabase: SupabaseClient,
+  order: { id: string; vendor_id: string; items: Array<{ productId: string }> | null },
+  readyAt: Date
+): Promise<{ mockup_review_due_at: string | null; mockup_reminder_at: string | null; mockup_reminders_sent: number }> {
+  const productIds = (order.items || []).map((item) => item.productId);
+
+  const [productsResult, vendorResult] = await Promise.all([
+    productIds.length > 0
+      ? supabase.from("products").select("id, mockup_auto_approve").in("id", productIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from("vendors").select("id, mockup_auto_approve").eq("id", order.vendor_id).maybeSingle(),
+  ]);
+
+  if (productsResult.error || vendorResult.error) {
+    logger.error("[Order Transitions] Failed to fetch mockup auto-approve settings", {
+      orderId: order.id,
+      error: productsResult.error || vendorResult.error,
+    });
+  }
+
+  const autoApprove =
+    !productsResult.error &&
+    !vendorResult.error &&
+    vendorResult.data?.mockup_auto_approve !== false &&
+    (productsResult.data || []).every((product) => product.mockup_auto_approve !== false);
+
+  const hour = 60 * 60 * 1000;
+  const dueAt = new Date(readyAt.getTime() + appConfig.order.mockupAutoApproveHours * hour);
+  const reminderAt = new Date(readyAt.getTime() + appConfig.order.mockupReminderHours * hour);
+
+  return {
+    mockup_review_due_at: autoApprove ? dueAt.toISOString() : null,
+    mockup_reminder_at: !autoApprove || reminderAt < dueAt ? reminderAt.toISOString() : null,
+    mockup_reminders_sent: 0,
+  };
+}
+
+/**
+ * Drop the history row of a status change that didn't go through
+ */
+async function removeStatusHistory(supabase: SupabaseClient, historyId: string, orderId: string): Promise<void> {
+  const { error } = await supabase.from("order_status_history").delete().eq("id", historyId);
+
+  if (error) {
+    // The order kept its status - log loudly so the stray row can be removed
+    logger.error("[Order Transitions] Failed to remove status history", { orderId, historyId, error });
+  }
+}
+
+/**
+ * Move an order to a new status
+ * Validates the transition against ORDER_TRANSITIONS, guards against concurrent
+ * updates by matching on the current status, and writes an order_status_history row;
+ * the transition fails if its history row can't be written
+ */
+export async function transitionOrderStatus(params: TransitionOrderParams): Promise<TransitionOrderResult> {
+  const { orderId, to, actor, reason, metadata, updates } = params;
+
+  const supabase = requireServiceClient(OrderTransitionError);
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, order_number, customer_id, vendor_id, status, items")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    logger.error("[Order Transitions] Failed to fetch order", orderError);
+    throw new OrderTransitionError("Failed to fetch order", "ORDER_FETCH_FAILED", 500);
+  }
+
+  if (!order) {
+    throw new OrderTransitionError("Order not found", "ORDER_NOT_FOUND", 404);
+  }
+
+  await assertActorOwnsOrder(supabase, actor, order);
+
+  const from = order.status as OrderStatus;
+
+  if (params.from && params.from !== from) {
+    throw new OrderTransitionError("Order was updated by someone else. Please refresh.", "ORDER_STATUS_CHANGED", 409);
+  }
+
+  if (!canTransition(from, to, actor.role)) {
+    throw new OrderTransitionError(
+      `Cannot move order from ${from} to ${to}`,
+      "INVALID_TRANSITION",
+      from === to ? 409 : 400
+    );
+  }
+
+  // The mockup clock (re)starts whenever the vendor starts personalising,
+  // and the customer's review window whenever new mockups are ready
+  const slaUpdates = to === ORDER_STATUS.PERSONALIZING
+    ? { mockup_sla: (await getMockupDeadline(supabase, order, new Date())).toISOString(), mockup_sla_breached_at: null }
+    : to === ORDER_STATUS.MOCKUP_READY
+      ? await getMockupReviewWindow(supabase, order, new Date())
+      : {};
+
+  // History goes first so a status change is never left unrecorded; it is removed
+  // again if the change itself doesn't happen
+  const { data: history, error: historyError } = await supabase
+    .from("order_status_history")
+    .insert({
+      order_id: orderId,
+      from_status: from,
+      to_status: to,
+      actor_id: actor.id,
+      actor_role: actor.role,
+      reason: reason || null,
+      metadata: metadata || null,
+    })
+    .select("id")
+    .single();
+
+  if (historyError || !history) {
+    logger.error("[Order Transitions] Failed to write status history", { orderId, from, to, error: historyError });
+    throw new OrderTransitionError("Failed to update order", "HISTORY_WRITE_FAILED", 500);
+  }
+
+  // Match on the status we validated against so a concurrent change is not overwritten
+  const { data: updatedOrder, error: updateError } = await supabase
+    .from("orders")
+    .update({
+      ...slaUpdates,
+      ...updates,
+      status: to,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", orderId)
+    .eq("status", from)
+    .select("id")
+    .maybeSingle();
+
+  if (updateError || !updatedOrder) {
+    await removeStatusHistory(supabase, history.id, orderId);
+
+    if (updateError) {
+      logger.error("[Order Transitions] Failed to update order", updateError);
+      throw new OrderTransitionError("Failed to update order", "ORDER_UPDATE_FAILED", 500);
+    }
+    throw new OrderTransitionError("Order was updated by someone else. Please refresh.", "ORDER_STATUS_CHANGED", 409);
+  }
+
+  if (to === ORDER_STATUS.CANCELLED) {
+    try {
+      await restoreOrderCashbackOnCancellation(orderId);
+    } catch (cashbackError) {
+      // Cancellation stands; the restore is idempotent and can be retried
+      logger.error("[Order Transitions] Failed to restore cashback", { orderId, error: cashbackError });
+    }
+
+    try {
+      await reverseOrderCouponRedemption(orderId);
+    } catch (couponError) {
+      // Cancellation stands; the reversal is idempotent and can be retried
+      logger.error("[Order Transitions] Failed to reverse coupon redemption", { orderId, error: couponError });
+    }
+
+    try {
+      await refundCancelledOrder(orderId, actor.id, reason);
+    } catch (refundError) {
+      // Cancellation stands; admins can retry from the order's refunds
+      logger.error("[Order Transitions] Failed to refund cancelled order", { orderId, error: refundError });
+    }
+
+    try {
+      await cancelOrderDelivery(orderId, reason || "Order cancelled");
+    } catch (deliveryError) {
+      // Cancellation stands; the booking can be cancelled from the delivery queue
+      logger.error("[Order Transitions] Failed to cancel delivery", { orderId, error: deliveryError });
+    }
+  }
+
+  if (to === ORDER_STATUS.READY_FOR_PICKUP) {
+    try {
+      await bookOrderDelivery(orderId);
+    } catch (deliveryError) {
+      // Order stays ready for pickup; booking is idempotent and can be retried
+      logger.error("[Order Transitions] Failed to book delivery", { orderId, error: deliveryError });
+    }
+  }
+
+  if (to === ORDER_STATUS.DELIVERED) {
+    try {
+      await creditOrderCashback(orderId);
+    } catch (cashbackError) {
+      // Delivery stands; POST /api/cashback/credit can retry with the same idempotency key
+      logger.error("[Order Transitions] Failed to credit cashback", { orderId, error: cashbackError });
+    }
+  }
+
+  logger.info("[Order Transitions] Order status changed", {
+    orderId,
+    from,
+    to,
+    actorRole: actor.role,
+    actorId: actor.id,
+  });
+
+  return {
+    orderId,
+    orderNumber: order.order_number,
+    customerId: order.customer_id,
+    vendorId: order.vendor_id,
+    from,
+    to,
+  };
+}
+
+/**
+ * Record the initial status of a newly created order
+ */
+export async function recordInitialOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  actor: OrderActor
+): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  if (!supabase) return;
+
+  const { error } = await supabase
+    .from("order_status_history")
+    .insert({
+      order_id: orderId,
+      from_status: null,
+      to_status: status,
+      actor_id: actor.id,
+      actor_role: actor.role,
+      reason: "Order created",
+    });
+
+  if (error) {
+    logger.error("[Order Transitions] Failed to record initial status", { orderId, error });
+  }
+}
+
+/**
+ * Fetch the status history of an order, oldest first
+ */
+export async function getOrderStatusHistory(orderId: string): Promise<Array<{
+  id: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actorId: string | null;
+  actorRole: OrderActorRole;
+  reason: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}>> {
+  const supabase = requireServiceClient(OrderTransitionError);
+
+  const { data, error } = await supabase
+    .from("order_status_history")
+    .select("id, from_status, to_status, actor_id, actor_role, reason, metadata, created_at")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    logger.error("[Order Transitions] Failed to fetch status history", error);
+    throw new OrderTransitionError("Failed to fetch status history", "HISTORY_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    actorId: row.actor_id,
+    actorRole: row.actor_role,
+    reason: row.reason,
+    metadata: row.metadata,
+    createdAt: row.created_at,
+  }));
+}
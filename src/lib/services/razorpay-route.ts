@@ -31,6 +31,12 @@ export interface ReleasePaymentResult {
   releasedAmount: number;
 }
 
+export interface TransferReversalResult {
+  id: string;
+  transferId: string;
+  amount: number; // Amount in paise
+}
+
 export class RazorpayRouteService {
   private razorpayService = getRazorpayService();
 
@@ -163,6 +169,54 @@ export class RazorpayRouteService {
     }
   }
 
+  /**
+   * Reverse (part of) a vendor transfer, e.g. when the customer is refunded
+   * Amount in paise; Razorpay reverses the full transfer when omitted
+   */
+  async reverseTransfer(
+    transferId: string,
+    amount?: number,
+    notes?: Record<string, string>
+  ): Promise<TransferReversalResult> {
+    if (!env.RAZORPAY_KEY_ID || !env.RAZORPAY_KEY_SECRET) {
+      if (isDevelopment) {
+        logger.warn("[Razorpay Route] Development mode: Razorpay not configured, returning mock reversal");
+        return { id: `mock_reversal_${transferId}`, transferId, amount: amount ?? 0 };
+      }
+      throw new Error("Transfer reversal not available. Please configure Razorpay credentials.");
+    }
+
+    const response = await fetch(`https://api.razorpay.com/v1/transfers/${transferId}/reversals`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Basic ${encodeBase64(
+          `${env.RAZORPAY_KEY_ID}:${env.RAZORPAY_KEY_SECRET}`
+        )}`,
+      },
+      body: JSON.stringify({
+        ...(amount !== undefined && { amount }),
+        ...(notes && { notes }),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error(`[Razorpay Route] Transfer reversal failed for ${transferId}: ${response.status} ${errorText}`);
+      throw new Error("Failed to reverse vendor transfer.");
+    }
+
+    const reversal = await response.json();
+
+    logger.info(`[Razorpay Route] Reversed ₹${(reversal.amount / 100).toFixed(2)} of transfer ${transferId}`);
+
+    return {
+      id: reversal.id,
+      transferId,
+      amount: reversal.amount,
+    };
+  }
+
   /**
    * Get transfer status
    */
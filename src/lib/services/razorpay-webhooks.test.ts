@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+// Each side effect is idempotent and covered on its own; here they only need to be called
+const effects = vi.hoisted(() => ({
+  commitOrderCashback: vi.fn(async () => {}),
+  releaseOrderCashback: vi.fn(async () => {}),
+  reverseOrderCouponRedemption: vi.fn(async () => {}),
+  restoreOrderCouponRedemption: vi.fn(async () => {}),
+  markRefundProcessed: vi.fn(async () => {}),
+  markRefundFailed: vi.fn(async () => {}),
+  refundCancelledOrder: vi.fn(async () => null),
+  getCheckoutOrderIds: vi.fn(async (): Promise<string[]> => []),
+  updateCheckoutPayment: vi.fn(async () => {}),
+  startAcceptWindow: vi.fn(async () => {}),
+}));
+
+vi.mock("@/lib/services/order-cashback", () => ({
+  commitOrderCashback: effects.commitOrderCashback,
+  releaseOrderCashback: effects.releaseOrderCashback,
+}));
+vi.mock("@/lib/services/coupons", () => ({
+  reverseOrderCouponRedemption: effects.reverseOrderCouponRedemption,
+  restoreOrderCouponRedemption: effects.restoreOrderCouponRedemption,
+}));
+vi.mock("@/lib/services/refunds", () => ({
+  markRefundProcessed: effects.markRefundProcessed,
+  markRefundFailed: effects.markRefundFailed,
+  refundCancelledOrder: effects.refundCancelledOrder,
+}));
+vi.mock("@/lib/services/checkouts", () => ({
+  getCheckoutOrderIds: effects.getCheckoutOrderIds,
+  updateCheckoutPayment: effects.updateCheckoutPayment,
+}));
+vi.mock("@/lib/services/sla-enforcement", () => ({ startAcceptWindow: effects.startAcceptWindow }));
+
+import { processRazorpayEvent } from "./razorpay-webhooks";
+import type { WebhookEvent } from "./webhook-events";
+
+function seed(orders: Array<Record<string, unknown>> = [{ id: "order-1" }]) {
+  state.db = createSupabaseFake();
+  state.db.tables.orders = orders.map((order) => ({
+    order_number: "WK1001",
+    status: "pending",
+    payment_id: "order_rzp_1",
+    payment_status: "pending",
+    ...order,
+  }));
+  vi.clearAllMocks();
+}
+
+function getOrder(id = "order-1") {
+  return state.db!.tables.orders.find((order) => order.id === id)!;
+}
+
+function paymentEvent(eventType: string, notes: Record<string, string> = { order_id: "order-1" }, paymentId = "pay_1"): WebhookEvent {
+  return {
+    id: "event-1",
+    provider: "razorpay",
+    eventId: "evt_1",
+    eventType,
+    entityId: paymentId,
+    payload: {
+      event: eventType,
+      payload: { payment: { entity: { id: paymentId, order_id: "order_rzp_1", amount: 40000, status: "captured", notes } } },
+    },
+    status: "processing",
+    attempts: 1,
+    lastError: null,
+    eventCreatedAt: null,
+    receivedAt: new Date().toISOString(),
+    processedAt: null,
+  };
+}
+
+describe("processRazorpayEvent", () => {
+  beforeEach(() => seed());
+
+  it("marks the order paid and settles its cashback on payment.captured", async () => {
+    const outcome = await processRazorpayEvent(paymentEvent("payment.captured"));
+
+    expect(outcome).toEqual({ status: "processed" });
+    expect(getOrder()).toMatchObject({ payment_status: "completed", payment_id: "pay_1" });
+    expect(effects.commitOrderCashback).toHaveBeenCalledWith("order-1");
+    expect(effects.startAcceptWindow).toHaveBeenCalledWith(["order-1"]);
+  });
+
+  it("still settles the cashback when payment verify marked the order paid first", async () => {
+    seed([{ id: "order-1", payment_status: "completed", payment_id: "pay_1" }]);
+
+    await expect(processRazorpayEvent(paymentEvent("payment.captured"))).resolves.toEqual({ status: "processed" });
+    expect(effects.commitOrderCashback).toHaveBeenCalledWith("order-1");
+  });
+
+  it("ignores payment.failed after payment.captured", async () => {
+    await processRazorpayEvent(paymentEvent("payment.captured"));
+
+    const outcome = await processRazorpayEvent(paymentEvent("payment.failed", undefined, "pay_0"));
+
+    expect(outcome).toEqual({ status: "ignored", reason: "Order payment is already completed" });
+    expect(getOrder()).toMatchObject({ payment_status: "completed", payment_id: "pay_1" });
+    expect(effects.releaseOrderCashback).not.toHaveBeenCalled();
+    expect(effects.reverseOrderCouponRedemption).not.toHaveBeenCalled();
+  });
+
+  it("releases the cashback hold and coupon use on payment.failed", async () => {
+    await expect(processRazorpayEvent(paymentEvent("payment.failed"))).resolves.toEqual({ status: "processed" });
+
+    expect(getOrder().payment_status).toBe("failed");
+    expect(effects.releaseOrderCashback).toHaveBeenCalledWith("order-1");
+    expect(effects.reverseOrderCouponRedemption).toHaveBeenCalledWith("order-1");
+  });
+
+  it("lets a retried payment succeed after an earlier attempt failed", async () => {
+    await processRazorpayEvent(paymentEvent("payment.failed", undefined, "pay_0"));
+    await processRazorpayEvent(paymentEvent("payment.captured"));
+
+    expect(getOrder()).toMatchObject({ payment_status: "completed", payment_id: "pay_1" });
+    expect(effects.restoreOrderCouponRedemption).toHaveBeenCalledWith("order-1");
+  });
+
+  it("refunds a payment captured after the order was cancelled", async () => {
+    seed([{ id: "order-1", status: "cancelled" }]);
+
+    await expect(processRazorpayEvent(paymentEvent("payment.captured"))).resolves.toEqual({ status: "processed" });
+
+    expect(effects.refundCancelledOrder).toHaveBeenCalledWith("order-1", null, "Payment received after the order was cancelled");
+    expect(effects.commitOrderCashback).not.toHaveBeenCalled();
+    expect(effects.startAcceptWindow).not.toHaveBeenCalled();
+  });
+
+  it("applies a split-checkout payment to every order of the checkout", async () => {
+    seed([{ id: "order-1" }, { id: "order-2" }, { id: "order-3", payment_status: "completed", payment_id: "pay_1" }]);
+    effects.getCheckoutOrderIds.mockResolvedValue(["order-1", "order-2", "order-3"]);
+
+    const outcome = await processRazorpayEvent(paymentEvent("payment.captured", { checkout_id: "checkout-1" }));
+
+    expect(outcome).toEqual({ status: "processed" });
+    expect(state.db!.tables.orders.map((order) => order.payment_status)).toEqual(["completed", "completed", "completed"]);
+    expect(effects.commitOrderCashback.mock.calls).toEqual([["order-1"], ["order-2"], ["order-3"]]);
+    expect(effects.updateCheckoutPayment).toHaveBeenCalledWith("checkout-1", { paymentId: "pay_1", paymentStatus: "completed" });
+  });
+
+  it("leaves the checkout alone when none of its orders took the event", async () => {
+    seed([
+      { id: "order-1", payment_status: "completed", payment_id: "pay_1" },
+      { id: "order-2", payment_status: "refunded", payment_id: "pay_1" },
+    ]);
+    effects.getCheckoutOrderIds.mockResolvedValue(["order-1", "order-2"]);
+
+    const outcome = await processRazorpayEvent(paymentEvent("payment.failed", { checkout_id: "checkout-1" }));
+
+    expect(outcome).toEqual({ status: "ignored", reason: "Order payment is already completed" });
+    expect(effects.updateCheckoutPayment).not.toHaveBeenCalled();
+  });
+
+  it("ignores a payment without an order", async () => {
+    await expect(processRazorpayEvent(paymentEvent("payment.captured", {}))).resolves.toEqual({
+      status: "ignored",
+      reason: "Payment has no order_id note",
+    });
+  });
+
+  it("settles refunds through the refunds service", async () => {
+    const refund = { id: "rfnd_1", payment_id: "pay_1", amount: 40000, error_description: "Bank rejected" };
+    const refundEvent = (eventType: string) => ({
+      ...paymentEvent(eventType),
+      payload: { event: eventType, payload: { refund: { entity: refund } } },
+    });
+
+    await processRazorpayEvent(refundEvent("refund.processed"));
+    await processRazorpayEvent(refundEvent("refund.failed"));
+
+    expect(effects.markRefundProcessed).toHaveBeenCalledWith(refund);
+    expect(effects.markRefundFailed).toHaveBeenCalledWith(refund, "Bank rejected");
+  });
+});
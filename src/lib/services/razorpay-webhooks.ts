@@ -0,0 +1,245 @@
+/**
+ * Razorpay webhook processing
+ * Applies payment and refund events to orders. Every handler is safe to run again
+ * and skips events that arrive after the order has moved past them
+ * (e.g. payment.failed delivered after payment.captured). Payments for a split
+ * checkout carry a checkout_id note and are applied to each of its orders.
+ */
+
+import { requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import { commitOrderCashback, releaseOrderCashback } from "@/lib/services/order-cashback";
+import { reverseOrderCouponRedemption, restoreOrderCouponRedemption } from "@/lib/services/coupons";
+import { markRefundFailed, markRefundProcessed, refundCancelledOrder, type RazorpayRefundEntity } from "@/lib/services/refunds";
+import { WebhookEventError, type WebhookEvent, type WebhookOutcome } from "@/lib/services/webhook-events";
+import { getCheckoutOrderIds, updateCheckoutPayment } from "@/lib/services/checkouts";
+import { startAcceptWindow } from "@/lib/services/sla-enforcement";
+
+interface RazorpayPaymentEntity {
+  id: string;
+  order_id: string;
+  amount: number;
+  status: string;
+  notes?: Record<string, string> | unknown[];
+}
+
+interface RazorpayWebhookPayload {
+  event?: string;
+  created_at?: number; // unix seconds
+  payload?: {
+    payment?: { entity?: RazorpayPaymentEntity };
+    order?: { entity?: { id: string; amount: number; status: string } };
+    refund?: { entity?: RazorpayRefundEntity & { error_description?: string } };
+  };
+}
+
+// Payment statuses a captured payment can still move an order out of
+const CAPTURABLE_PAYMENT_STATUSES = ["pending", "failed"];
+
+// Razorpay sends notes as [] when empty
+function getNote(entity: { notes?: Record<string, string> | unknown[] }, key: string): string | undefined {
+  return entity.notes && !Array.isArray(entity.notes) ? entity.notes[key] : undefined;
+}
+
+/**
+ * Apply a payment event to its order, or to every order of its split checkout
+ */
+async function handlePaymentEvent(
+  payment: RazorpayPaymentEntity,
+  handleOrder: (orderId: string, payment: RazorpayPaymentEntity) => Promise<WebhookOutcome>,
+  checkoutStatus: "completed" | "failed"
+): Promise<WebhookOutcome> {
+  const checkoutId = getNote(payment, "checkout_id");
+  if (!checkoutId) {
+    const orderId = getNote(payment, "order_id");
+    return orderId ? handleOrder(orderId, payment) : { status: "ignored", reason: "Payment has no order_id note" };
+  }
+
+  const orderIds = await getCheckoutOrderIds(checkoutId);
+  if (orderIds.length === 0) {
+    return { status: "ignored", reason: "Checkout has no orders" };
+  }
+
+  const outcomes: WebhookOutcome[] = [];
+  for (const orderId of orderIds) {
+    outcomes.push(await handleOrder(orderId, payment));
+  }
+
+  if (!outcomes.some((outcome) => outcome.status === "processed")) {
+    return outcomes[0];
+  }
+
+  await updateCheckoutPayment(checkoutId, { paymentId: payment.id, paymentStatus: checkoutStatus });
+  return { status: "processed" };
+}
+
+/**
+ * Event ID, type, subject and timestamp for recording a delivery
+ */
+export function describeRazorpayEvent(payload: RazorpayWebhookPayload): {
+  eventType: string;
+  entityId: string | null;
+  eventCreatedAt: Date | null;
+} {
+  const entity = payload.payload?.refund?.entity || payload.payload?.payment?.entity || payload.payload?.order?.entity;
+  return {
+    eventType: payload.event || "unknown",
+    entityId: entity?.id ?? null,
+    eventCreatedAt: payload.created_at ? new Date(payload.created_at * 1000) : null,
+  };
+}
+
+/**
+ * payment.captured: mark the order paid and settle its cashback
+ */
+async function handlePaymentCaptured(orderId: string, payment: RazorpayPaymentEntity): Promise<WebhookOutcome> {
+  const supabase = requireServiceClient(WebhookEventError);
+
+  const { data: updated, error } = await supabase
+    .from("orders")
+    .update({
+      payment_status: "completed",
+      payment_id: payment.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", orderId)
+    .in("payment_status", CAPTURABLE_PAYMENT_STATUSES)
+    .select("id, order_number, status")
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Razorpay Webhook] Failed to mark payment captured", { orderId, error });
+    throw new Error("Failed to update order payment status");
+  }
+
+  let orderStatus = updated?.status as string | undefined;
+
+  if (!updated) {
+    const { data: order } = await supabase
+      .from("orders")
+      .select("id, payment_id, payment_status, status")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (!order) {
+      return { status: "ignored", reason: "Order not found" };
+    }
+
+    // Payment verify got there first - only the cashback may still be outstanding
+    if (order.payment_status !== "completed" || order.payment_id !== payment.id) {
+      return { status: "ignored", reason: `Order payment is already ${order.payment_status}` };
+    }
+    orderStatus = order.status;
+  } else {
+    logger.info("[Razorpay Webhook] Payment captured", {
+      orderId,
+      orderNumber: updated.order_number,
+      paymentId: payment.id,
+    });
+  }
+
+  // Paid after the order expired or was cancelled: give the money back instead
+  if (orderStatus === "cancelled") {
+    await refundCancelledOrder(orderId, null, "Payment received after the order was cancelled");
+    return { status: "processed" };
+  }
+
+  // Idempotent: keyed by order
+  await commitOrderCashback(orderId);
+
+  // Only acts if an earlier payment.failed reversed the coupon
+  await restoreOrderCouponRedemption(orderId);
+
+  // Idempotent: only set while the order has no deadline
+  await startAcceptWindow([orderId]);
+
+  return { status: "processed" };
+}
+
+/**
+ * payment.failed: mark a still-pending order failed and release its cashback hold and coupon use
+ */
+async function handlePaymentFailed(orderId: string, payment: RazorpayPaymentEntity): Promise<WebhookOutcome> {
+  const supabase = requireServiceClient(WebhookEventError);
+
+  // A captured or refunded order must not be knocked back by a late failure
+  const { data: updated, error } = await supabase
+    .from("orders")
+    .update({
+      payment_status: "failed",
+      payment_id: payment.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", orderId)
+    .eq("payment_status", "pending")
+    .select("id, order_number")
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Razorpay Webhook] Failed to mark payment failed", { orderId, error });
+    throw new Error("Failed to update order payment status");
+  }
+
+  if (!updated) {
+    const { data: order } = await supabase
+      .from("orders")
+      .select("id, payment_id, payment_status")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    // Replay after the status was saved - only the cashback release may still be outstanding
+    if (order?.payment_status !== "failed" || order.payment_id !== payment.id) {
+      return { status: "ignored", reason: `Order payment is already ${order?.payment_status ?? "missing"}` };
+    }
+  } else {
+    logger.info("[Razorpay Webhook] Payment failed", {
+      orderId,
+      orderNumber: updated.order_number,
+      paymentId: payment.id,
+    });
+  }
+
+  // Idempotent: keyed by order
+  await releaseOrderCashback(orderId);
+
+  // Idempotent: only a redeemed coupon is reversed
+  await reverseOrderCouponRedemption(orderId);
+
+  return { status: "processed" };
+}
+
+/**
+ * Process a recorded Razorpay event (live delivery or admin replay)
+ * Errors propagate so the event is marked failed
+ */
+export async function processRazorpayEvent(event: WebhookEvent): Promise<WebhookOutcome> {
+  const payload = event.payload as RazorpayWebhookPayload;
+  const paymentEntity = payload.payload?.payment?.entity;
+  const refundEntity = payload.payload?.refund?.entity;
+
+  switch (event.eventType) {
+    case "payment.captured":
+      return paymentEntity
+        ? handlePaymentEvent(paymentEntity, handlePaymentCaptured, "completed")
+        : { status: "ignored", reason: "Missing payment entity" };
+    case "payment.failed":
+      return paymentEntity
+        ? handlePaymentEvent(paymentEntity, handlePaymentFailed, "failed")
+        : { status: "ignored", reason: "Missing payment entity" };
+    case "refund.processed":
+      if (!refundEntity) return { status: "ignored", reason: "Missing refund entity" };
+      // Settles the refund, order payment status, vendor transfer and cashback once
+      await markRefundProcessed(refundEntity);
+      return { status: "processed" };
+    case "refund.failed":
+      if (!refundEntity) return { status: "ignored", reason: "Missing refund entity" };
+      // Only pending refunds are marked failed, so a late failure can't undo a processed refund
+      await markRefundFailed(refundEntity, refundEntity.error_description);
+      return { status: "processed" };
+    case "order.paid":
+      // payment.captured carries everything we need
+      return { status: "ignored", reason: "Handled by payment.captured" };
+    default:
+      return { status: "ignored", reason: "Unhandled event type" };
+  }
+}
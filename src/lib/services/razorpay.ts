@@ -18,6 +18,7 @@ export interface CreatePaymentParams {
   amount: number; // Amount in paise (e.g., 10000 for ₹100)
   currency?: string;
   orderId: string; // Internal order ID
+  checkoutId?: string; // Split checkout paying several orders; notes carry checkout_id instead of order_id
   customerId?: string;
   customerName?: string;
   customerEmail?: string;
@@ -109,9 +110,9 @@ export class RazorpayService {
       const options = {
         amount: params.amount, // Amount in paise
         currency: params.currency || "INR",
-        receipt: `order_${params.orderId}`,
+        receipt: params.checkoutId ? `checkout_${params.checkoutId}` : `order_${params.orderId}`,
         notes: {
-          order_id: params.orderId,
+          ...(params.checkoutId ? { checkout_id: params.checkoutId } : { order_id: params.orderId }),
           ...(params.notes || {}),
         },
       };
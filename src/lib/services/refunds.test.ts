@@ -0,0 +1,217 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+const gateway = vi.hoisted(() => ({
+  refundPayment: vi.fn(),
+  reverseTransfer: vi.fn(),
+  reverseOrderCashbackOnRefund: vi.fn(async () => {}),
+}));
+
+vi.mock("@/lib/services/razorpay", () => ({
+  getRazorpayService: () => ({ refundPayment: gateway.refundPayment }),
+}));
+vi.mock("@/lib/services/razorpay-route", () => ({
+  getRazorpayRouteService: () => ({ reverseTransfer: gateway.reverseTransfer }),
+}));
+vi.mock("@/lib/services/order-cashback", () => ({
+  reverseOrderCashbackOnRefund: gateway.reverseOrderCashbackOnRefund,
+}));
+
+import { issueRefund, markRefundFailed, markRefundProcessed, refundCancelledOrder } from "./refunds";
+
+const ORDER_ID = "order-1";
+const PAYMENT_ID = "pay_1";
+
+function seed(order: Record<string, unknown> = {}) {
+  state.db = createSupabaseFake({
+    refunds: { reverse_vendor_transfer: true, transfer_reversal_id: null, processed_at: null },
+  });
+  state.db.tables.orders = [{
+    id: ORDER_ID,
+    order_number: "WK1001",
+    total: "400.00",
+    vendor_amount: "300.00",
+    payment_id: PAYMENT_ID,
+    payment_status: "completed",
+    razorpay_route_id: "trf_1",
+    refunded_amount: 0,
+    ...order,
+  }];
+  state.db.tables.refunds = [];
+
+  vi.clearAllMocks();
+  gateway.refundPayment.mockImplementation(async (_paymentId: string, amount: number) => ({
+    id: "rfnd_1",
+    amount,
+    status: "pending",
+  }));
+  gateway.reverseTransfer.mockImplementation(async (transferId: string, amount: number) => ({
+    id: "rvrsl_1",
+    transferId,
+    amount,
+  }));
+}
+
+function getOrder() {
+  return state.db!.tables.orders[0];
+}
+
+function getRefunds() {
+  return state.db!.tables.refunds;
+}
+
+// refund.processed as Razorpay delivers it for a refund issued by the app
+function processedEvent(refundId: string, amountPaise: number) {
+  return { id: "rfnd_1", payment_id: PAYMENT_ID, amount: amountPaise, notes: { order_id: ORDER_ID, refund_id: refundId } };
+}
+
+describe("issueRefund", () => {
+  beforeEach(() => seed());
+
+  it("records a pending refund of everything left and asks Razorpay for it", async () => {
+    const refund = await issueRefund({ orderId: ORDER_ID, source: "admin" });
+
+    expect(refund).toMatchObject({ status: "pending", amount: 400, razorpayRefundId: "rfnd_1" });
+    expect(gateway.refundPayment).toHaveBeenCalledWith(PAYMENT_ID, 40000, { order_id: ORDER_ID, refund_id: refund.id });
+    expect(getOrder().payment_status).toBe("completed");
+  });
+
+  it("won't refund more than is left", async () => {
+    await issueRefund({ orderId: ORDER_ID, source: "admin", amount: 300 });
+
+    await expect(issueRefund({ orderId: ORDER_ID, source: "admin", amount: 150 })).rejects.toMatchObject({
+      code: "REFUND_EXCEEDS_PAYMENT",
+      status: 400,
+    });
+  });
+
+  it("marks the refund failed when Razorpay rejects it", async () => {
+    gateway.refundPayment.mockRejectedValue(new Error("BAD_REQUEST_ERROR"));
+
+    await expect(issueRefund({ orderId: ORDER_ID, source: "admin" })).rejects.toMatchObject({
+      code: "GATEWAY_REFUND_FAILED",
+      status: 502,
+    });
+    expect(getRefunds()[0]).toMatchObject({ status: "failed", failure_reason: "BAD_REQUEST_ERROR" });
+  });
+
+  it("makes a failed refund's amount refundable again", async () => {
+    const refund = await issueRefund({ orderId: ORDER_ID, source: "admin" });
+    await markRefundFailed(processedEvent(refund.id, 40000), "Insufficient balance");
+
+    expect(getRefunds()[0]).toMatchObject({ status: "failed", failure_reason: "Insufficient balance" });
+    await expect(issueRefund({ orderId: ORDER_ID, source: "admin" })).resolves.toMatchObject({ amount: 400 });
+  });
+});
+
+describe("markRefundProcessed", () => {
+  beforeEach(() => seed());
+
+  it("settles the refund and its follow-up work once, however often the webhook arrives", async () => {
+    const refund = await issueRefund({ orderId: ORDER_ID, source: "admin" });
+
+    await markRefundProcessed(processedEvent(refund.id, 40000));
+    await markRefundProcessed(processedEvent(refund.id, 40000));
+
+    expect(getRefunds()).toHaveLength(1);
+    expect(getRefunds()[0]).toMatchObject({
+      status: "processed",
+      transfer_reversal_id: "rvrsl_1",
+      transfer_reversal_amount: 300,
+    });
+    expect(gateway.reverseTransfer).toHaveBeenCalledTimes(1);
+    expect(gateway.reverseTransfer).toHaveBeenCalledWith("trf_1", 30000, { order_id: ORDER_ID, refund_id: refund.id });
+    expect(gateway.reverseOrderCashbackOnRefund).toHaveBeenCalledTimes(1);
+    expect(gateway.reverseOrderCashbackOnRefund).toHaveBeenCalledWith({
+      orderId: ORDER_ID,
+      refundId: "rfnd_1",
+      refundAmount: 400,
+    });
+  });
+
+  it("keeps the order's payment status in step with processed refunds", async () => {
+    const first = await issueRefund({ orderId: ORDER_ID, source: "admin", amount: 100 });
+    await markRefundProcessed(processedEvent(first.id, 10000));
+    expect(getOrder()).toMatchObject({ refunded_amount: 100, payment_status: "partially_refunded" });
+
+    gateway.refundPayment.mockResolvedValueOnce({ id: "rfnd_2", amount: 30000, status: "processed" });
+    await issueRefund({ orderId: ORDER_ID, source: "admin" });
+    expect(getOrder()).toMatchObject({ refunded_amount: 400, payment_status: "refunded" });
+  });
+
+  it("reverses only the refunded share of the vendor's transfer", async () => {
+    const refund = await issueRefund({ orderId: ORDER_ID, source: "admin", amount: 100 });
+    await markRefundProcessed(processedEvent(refund.id, 10000));
+
+    expect(gateway.reverseTransfer).toHaveBeenCalledWith("trf_1", 7500, expect.anything());
+  });
+
+  it("leaves the transfer alone when the platform absorbs the refund or it was never made", async () => {
+    const absorbed = await issueRefund({ orderId: ORDER_ID, source: "dispute", amount: 100, reverseVendorTransfer: false });
+    await markRefundProcessed(processedEvent(absorbed.id, 10000));
+
+    seed({ razorpay_route_id: "mock_trf_1" });
+    const unsettled = await issueRefund({ orderId: ORDER_ID, source: "admin" });
+    await markRefundProcessed(processedEvent(unsettled.id, 40000));
+
+    expect(gateway.reverseTransfer).not.toHaveBeenCalled();
+    expect(gateway.reverseOrderCashbackOnRefund).toHaveBeenCalledTimes(1);
+  });
+
+  it("still settles the refund when the transfer reversal or cashback clawback fails", async () => {
+    gateway.reverseTransfer.mockRejectedValue(new Error("Transfer already reversed"));
+    gateway.reverseOrderCashbackOnRefund.mockRejectedValueOnce(new Error("Wallet unavailable"));
+    const refund = await issueRefund({ orderId: ORDER_ID, source: "admin" });
+
+    await markRefundProcessed(processedEvent(refund.id, 40000));
+
+    expect(getRefunds()[0]).toMatchObject({ status: "processed", transfer_reversal_id: null });
+    expect(getOrder().payment_status).toBe("refunded");
+  });
+
+  it("records a refund made from the Razorpay dashboard", async () => {
+    await markRefundProcessed({ id: "rfnd_ext", payment_id: PAYMENT_ID, amount: 5000, notes: [] });
+
+    expect(getRefunds()).toEqual([
+      expect.objectContaining({ order_id: ORDER_ID, razorpay_refund_id: "rfnd_ext", amount: 50, source: "razorpay", status: "processed" }),
+    ]);
+    expect(getOrder()).toMatchObject({ refunded_amount: 50, payment_status: "partially_refunded" });
+  });
+});
+
+describe("refundCancelledOrder", () => {
+  it("refunds whatever is left of the payment", async () => {
+    seed();
+    const refund = await refundCancelledOrder(ORDER_ID, "customer-1");
+
+    expect(refund).toMatchObject({ amount: 400, source: "cancellation", reason: "Order cancelled", initiatedBy: "customer-1" });
+  });
+
+  it.each([
+    ["an unpaid order", { payment_id: "order_1", payment_status: "pending" }],
+    ["a fully refunded order", { payment_status: "refunded" }],
+  ])("does nothing for %s", async (_case, order) => {
+    seed(order);
+    await expect(refundCancelledOrder(ORDER_ID, null)).resolves.toBeNull();
+    expect(gateway.refundPayment).not.toHaveBeenCalled();
+  });
+
+  it("does nothing once the refunds cover the payment", async () => {
+    seed();
+    await issueRefund({ orderId: ORDER_ID, source: "admin" });
+
+    await expect(refundCancelledOrder(ORDER_ID, null)).resolves.toBeNull();
+    expect(gateway.refundPayment).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes on other failures", async () => {
+    seed({ id: "order-2" });
+    await expect(refundCancelledOrder(ORDER_ID, null)).rejects.toMatchObject({ code: "ORDER_NOT_FOUND", status: 404 });
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * Refunds
+ * Issues full and partial refunds through Razorpay, reverses the vendor's share of
+ * the Route transfer once a refund is processed, and keeps order payment status in sync
+ */
+
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import { getRazorpayService } from "@/lib/services/razorpay";
+import { getRazorpayRouteService } from "@/lib/services/razorpay-route";
+import { reverseOrderCashbackOnRefund } from "@/lib/services/order-cashback";
+
+export type RefundSource = "cancellation" | "dispute" | "admin" | "razorpay";
+export type RefundStatus = "pending" | "processed" | "failed";
+
+export interface Refund {
+  id: string;
+  orderId: string;
+  paymentId: string;
+  razorpayRefundId: string | null;
+  amount: number;
+  status: RefundStatus;
+  reason: string | null;
+  source: RefundSource;
+  disputeId: string | null;
+  initiatedBy: string | null;
+  transferReversalId: string | null;
+  transferReversalAmount: number | null;
+  reverseVendorTransfer: boolean;
+  failureReason: string | null;
+  processedAt: string | null;
+  createdAt: string;
+}
+
+export interface IssueRefundParams {
+  orderId: string;
+  amount?: number; // rupees; defaults to everything still refundable
+  reason?: string;
+  source: RefundSource;
+  initiatedBy?: string | null;
+  disputeId?: string | null;
+  reverseVendorTransfer?: boolean; // default true; false when the platform absorbs the refund
+}
+
+/** Razorpay refund entity as delivered in refund.* webhooks */
+export interface RazorpayRefundEntity {
+  id: string;
+  payment_id: string;
+  amount: number; // paise
+  status?: string;
+  notes?: Record<string, string> | unknown[];
+}
+
+export const REFUND_COLUMNS =
+  "id, order_id, payment_id, razorpay_refund_id, amount, status, reason, source, dispute_id, initiated_by, transfer_reversal_id, transfer_reversal_amount, reverse_vendor_transfer, failure_reason, processed_at, created_at";
+
+// Payment statuses with captured money left to refund
+const REFUNDABLE_PAYMENT_STATUSES = ["completed", "partially_refunded"];
+
+/**
+ * Custom error class for refunds that cannot be issued
+ */
+export class RefundError extends ServiceError {
+  name = "RefundError";
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  if (value === null || value === undefined || value === "") return 0;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Razorpay sends notes as [] when empty
+function getNotes(entity: { notes?: Record<string, string> | unknown[] }): Record<string, string> {
+  return entity.notes && !Array.isArray(entity.notes) ? entity.notes : {};
+}
+
+export function mapRefund(row: Record<string, unknown>): Refund {
+  return {
+    id: row.id as string,
+    orderId: row.order_id as string,
+    paymentId: row.payment_id as string,
+    razorpayRefundId: (row.razorpay_refund_id as string | null) ?? null,
+    amount: toNumber(row.amount as string),
+    status: row.status as RefundStatus,
+    reason: (row.reason as string | null) ?? null,
+    source: row.source as RefundSource,
+    disputeId: (row.dispute_id as string | null) ?? null,
+    initiatedBy: (row.initiated_by as string | null) ?? null,
+    transferReversalId: (row.transfer_reversal_id as string | null) ?? null,
+    transferReversalAmount: row.transfer_reversal_amount === null || row.transfer_reversal_amount === undefined
+      ? null
+      : toNumber(row.transfer_reversal_amount as string),
+    reverseVendorTransfer: row.reverse_vendor_transfer !== false,
+    failureReason: (row.failure_reason as string | null) ?? null,
+    processedAt: (row.processed_at as string | null) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+/**
+ * Refunds for an order, newest first
+ */
+export async function getOrderRefunds(orderId: string): Promise<Refund[]> {
+  const { data, error } = await requireServiceClient(RefundError)
+    .from("refunds")
+    .select(REFUND_COLUMNS)
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    logger.error("[Refunds] Failed to fetch refunds", { orderId, error });
+    throw new RefundError("Failed to fetch refunds", "REFUND_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map(mapRefund);
+}
+
+/**
+ * Amount still refundable: order total minus processed and in-flight refunds
+ */
+export function getRefundableAmount(orderTotal: number, refunds: Refund[]): number {
+  const committed = refunds
+    .filter((refund) => refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  return Math.max(0, roundCurrency(orderTotal - committed));
+}
+
+/**
+ * Request a full or partial refund of an order's captured payment
+ * The refund is recorded as pending and settled by the refund.processed webhook
+ * (or immediately when Razorpay reports it processed)
+ */
+export async function issueRefund(params: IssueRefundParams): Promise<Refund> {
+  const supabase = requireServiceClient(RefundError);
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, order_number, total, payment_id, payment_status")
+    .eq("id", params.orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    logger.error("[Refunds] Failed to fetch order", { orderId: params.orderId, error: orderError });
+    throw new RefundError("Failed to fetch order", "ORDER_FETCH_FAILED", 500);
+  }
+
+  if (!order) {
+    throw new RefundError("Order not found", "ORDER_NOT_FOUND", 404);
+  }
+
+  // payment_id holds the Razorpay order ID until a payment is verified
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status) || !order.payment_id?.startsWith("pay_")) {
+    throw new RefundError("Order has no captured payment to refund", "PAYMENT_NOT_CAPTURED", 409);
+  }
+
+  const refundable = getRefundableAmount(toNumber(order.total), await getOrderRefunds(order.id));
+  if (refundable <= 0) {
+    throw new RefundError("Order has already been fully refunded", "ALREADY_REFUNDED", 409);
+  }
+
+  const amount = roundCurrency(params.amount ?? refundable);
+  if (amount <= 0) {
+    throw new RefundError("Refund amount must be positive", "INVALID_REFUND_AMOUNT");
+  }
+  if (amount > refundable) {
+    throw new RefundError(`Only ₹${refundable.toFixed(2)} can still be refunded`, "REFUND_EXCEEDS_PAYMENT");
+  }
+
+  // Record first so a webhook arriving before the API call returns can find the row
+  const { data: pending, error: insertError } = await supabase
+    .from("refunds")
+    .insert({
+      order_id: order.id,
+      payment_id: order.payment_id,
+      amount,
+      status: "pending",
+      reason: params.reason || null,
+      source: params.source,
+      dispute_id: params.disputeId ?? null,
+      initiated_by: params.initiatedBy ?? null,
+      reverse_vendor_transfer: params.reverseVendorTransfer ?? true,
+    })
+    .select(REFUND_COLUMNS)
+    .single();
+
+  if (insertError || !pending) {
+    logger.error("[Refunds] Failed to record refund", { orderId: order.id, error: insertError });
+    throw new RefundError("Failed to create refund", "REFUND_CREATE_FAILED", 500);
+  }
+
+  let razorpayRefund: { id: string; amount: number; status: string };
+  try {
+    razorpayRefund = await getRazorpayService().refundPayment(order.payment_id, Math.round(amount * 100), {
+      order_id: order.id,
+      refund_id: pending.id,
+    });
+  } catch (error) {
+    await supabase
+      .from("refunds")
+      .update({
+        status: "failed",
+        failure_reason: error instanceof Error ? error.message : "Razorpay refund request failed",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", pending.id);
+    throw new RefundError("Refund could not be processed by the payment gateway", "GATEWAY_REFUND_FAILED", 502);
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("refunds")
+    .update({ razorpay_refund_id: razorpayRefund.id, updated_at: new Date().toISOString() })
+    .eq("id", pending.id)
+    .select(REFUND_COLUMNS)
+    .single();
+
+  if (updateError || !updated) {
+    // Razorpay has the refund; the webhook matches it by notes.refund_id
+    logger.error("[Refunds] Failed to store Razorpay refund ID", { refundId: pending.id, error: updateError });
+  }
+
+  logger.info("[Refunds] Refund requested", {
+    orderId: order.id,
+    orderNumber: order.order_number,
+    refundId: pending.id,
+    razorpayRefundId: razorpayRefund.id,
+    amount,
+    source: params.source,
+  });
+
+  if (razorpayRefund.status === "processed") {
+    await markRefundProcessed({
+      id: razorpayRefund.id,
+      payment_id: order.payment_id,
+      amount: razorpayRefund.amount,
+      notes: { order_id: order.id, refund_id: pending.id },
+    });
+    return mapRefund({ ...(updated || pending), status: "processed", razorpay_refund_id: razorpayRefund.id });
+  }
+
+  return mapRefund(updated || pending);
+}
+
+/**
+ * Find our refund row for a Razorpay refund, creating one for refunds made
+ * outside the app (e.g. from the Razorpay dashboard)
+ */
+async function findOrCreateRefundRow(entity: RazorpayRefundEntity): Promise<Record<string, unknown> | null> {
+  const supabase = requireServiceClient(RefundError);
+  const notes = getNotes(entity);
+
+  const { data: byRazorpayId } = await supabase
+    .from("refunds")
+    .select(REFUND_COLUMNS)
+    .eq("razorpay_refund_id", entity.id)
+    .maybeSingle();
+  if (byRazorpayId) return byRazorpayId;
+
+  if (notes.refund_id) {
+    const { data: byNote } = await supabase
+      .from("refunds")
+      .select(REFUND_COLUMNS)
+      .eq("id", notes.refund_id)
+      .maybeSingle();
+    if (byNote) return byNote;
+  }
+
+  let orderId = notes.order_id;
+  if (!orderId) {
+    const { data: order } = await supabase
+      .from("orders")
+      .select("id")
+      .eq("payment_id", entity.payment_id)
+      .maybeSingle();
+    orderId = order?.id;
+  }
+
+  if (!orderId) {
+    logger.warn("[Refunds] Refund for unknown order", { razorpayRefundId: entity.id, paymentId: entity.payment_id });
+    return null;
+  }
+
+  const { data: created, error } = await supabase
+    .from("refunds")
+    .insert({
+      order_id: orderId,
+      payment_id: entity.payment_id,
+      razorpay_refund_id: entity.id,
+      amount: roundCurrency(entity.amount / 100),
+      status: "pending",
+      reason: "Refunded from Razorpay dashboard",
+      source: "razorpay",
+    })
+    .select(REFUND_COLUMNS)
+    .single();
+
+  if (error) {
+    logger.error("[Refunds] Failed to record external refund", { razorpayRefundId: entity.id, error });
+    throw new RefundError("Failed to record refund", "REFUND_CREATE_FAILED", 500);
+  }
+
+  return created;
+}
+
+/**
+ * Reverse the vendor's share of the Route transfer for a processed refund,
+ * unless the refund was issued at the platform's expense
+ * Failures are logged and left for finance to settle; the customer refund stands
+ */
+async function reverseVendorTransfer(refund: Refund): Promise<void> {
+  if (!refund.reverseVendorTransfer) return;
+
+  const supabase = requireServiceClient(RefundError);
+
+  const { data: order } = await supabase
+    .from("orders")
+    .select("id, total, razorpay_route_id, vendor_amount")
+    .eq("id", refund.orderId)
+    .maybeSingle();
+
+  // Only real Route transfers (not mock_/failed_ placeholders) can be reversed
+  if (!order?.razorpay_route_id?.startsWith("trf_")) return;
+
+  const total = toNumber(order.total);
+  const vendorAmount = toNumber(order.vendor_amount);
+  if (total <= 0 || vendorAmount <= 0) return;
+
+  const reversalAmount = roundCurrency(vendorAmount * Math.min(1, refund.amount / total));
+  if (reversalAmount <= 0) return;
+
+  try {
+    const reversal = await getRazorpayRouteService().reverseTransfer(
+      order.razorpay_route_id,
+      Math.round(reversalAmount * 100),
+      { order_id: order.id, refund_id: refund.id }
+    );
+
+    await supabase
+      .from("refunds")
+      .update({
+        transfer_reversal_id: reversal.id,
+        transfer_reversal_amount: roundCurrency(reversal.amount / 100),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", refund.id);
+  } catch (error) {
+    logger.error("[Refunds] Failed to reverse vendor transfer", {
+      orderId: order.id,
+      refundId: refund.id,
+      transferId: order.razorpay_route_id,
+      amount: reversalAmount,
+      error,
+    });
+  }
+}
+
+/**
+ * Recompute refunded_amount and payment_status from processed refunds
+ */
+async function syncOrderRefundStatus(orderId: string): Promise<void> {
+  const supabase = requireServiceClient(RefundError);
+
+  const [{ data: order }, { data: processed }] = await Promise.all([
+    supabase.from("orders").select("id, total").eq("id", orderId).maybeSingle(),
+    supabase.from("refunds").select("amount").eq("order_id", orderId).eq("status", "processed"),
+  ]);
+
+  if (!order) return;
+
+  const refundedAmount = roundCurrency((processed || []).reduce((sum, refund) => sum + toNumber(refund.amount), 0));
+  const paymentStatus = refundedAmount >= toNumber(order.total) ? "refunded" : "partially_refunded";
+
+  const { error } = await supabase
+    .from("orders")
+    .update({
+      refunded_amount: refundedAmount,
+      payment_status: paymentStatus,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", orderId);
+
+  if (error) {
+    logger.error("[Refunds] Failed to update order refund status", { orderId, error });
+    throw new RefundError("Failed to update order", "ORDER_UPDATE_FAILED", 500);
+  }
+}
+
+/**
+ * refund.processed: settle the refund, update the order, reverse the vendor
+ * transfer and the order's cashback. Safe to call more than once.
+ */
+export async function markRefundProcessed(entity: RazorpayRefundEntity): Promise<void> {
+  const row = await findOrCreateRefundRow(entity);
+  if (!row) return;
+
+  // Only the call that flips the status does the follow-up work
+  const { data: settled, error } = await requireServiceClient(RefundError)
+    .from("refunds")
+    .update({
+      status: "processed",
+      razorpay_refund_id: entity.id,
+      failure_reason: null,
+      processed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", row.id as string)
+    .neq("status", "processed")
+    .select(REFUND_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Refunds] Failed to mark refund processed", { razorpayRefundId: entity.id, error });
+    throw new RefundError("Failed to update refund", "REFUND_UPDATE_FAILED", 500);
+  }
+
+  if (!settled) return;
+
+  const refund = mapRefund(settled);
+
+  await syncOrderRefundStatus(refund.orderId);
+  await reverseVendorTransfer(refund);
+
+  try {
+    await reverseOrderCashbackOnRefund({
+      orderId: refund.orderId,
+      refundId: entity.id,
+      refundAmount: refund.amount,
+    });
+  } catch (cashbackError) {
+    logger.error("[Refunds] Failed to reverse order cashback", { orderId: refund.orderId, error: cashbackError });
+  }
+
+  logger.info("[Refunds] Refund processed", {
+    orderId: refund.orderId,
+    refundId: refund.id,
+    razorpayRefundId: entity.id,
+    amount: refund.amount,
+  });
+}
+
+/**
+ * refund.failed: record the failure so the amount becomes refundable again
+ */
+export async function markRefundFailed(entity: RazorpayRefundEntity, reason?: string): Promise<void> {
+  const row = await findOrCreateRefundRow(entity);
+  if (!row) return;
+
+  const { error } = await requireServiceClient(RefundError)
+    .from("refunds")
+    .update({
+      status: "failed",
+      razorpay_refund_id: entity.id,
+      failure_reason: reason || "Refund failed at the payment gateway",
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", row.id as string)
+    .eq("status", "pending");
+
+  if (error) {
+    logger.error("[Refunds] Failed to mark refund failed", { razorpayRefundId: entity.id, error });
+    throw new RefundError("Failed to update refund", "REFUND_UPDATE_FAILED", 500);
+  }
+
+  logger.warn("[Refunds] Refund failed", { orderId: row.order_id, razorpayRefundId: entity.id, reason });
+}
+
+/**
+ * Refund whatever is left of a cancelled order's payment (no-op for unpaid orders)
+ */
+export async function refundCancelledOrder(orderId: string, initiatedBy: string | null, reason?: string): Promise<Refund | null> {
+  try {
+    return await issueRefund({
+      orderId,
+      source: "cancellation",
+      reason: reason || "Order cancelled",
+      initiatedBy,
+    });
+  } catch (error) {
+    if (error instanceof RefundError && (error.code === "PAYMENT_NOT_CAPTURED" || error.code === "ALREADY_REFUNDED")) {
+      return null;
+    }
+    throw error;
+  }
+}
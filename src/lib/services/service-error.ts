@@ -0,0 +1,39 @@
+/**
+ * Shared service error and database access
+ * Services throw a subclass of ServiceError so routes can answer with its status
+ * and code; each subclass only names the domain it belongs to.
+ */
+
+import { getSupabaseServiceClient } from "@/lib/supabase/client";
+
+/**
+ * Base error class for services
+ * status is the HTTP status the route should respond with
+ */
+export class ServiceError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, code: string, status: number = 400) {
+    super(message);
+    this.name = "ServiceError";
+    this.code = code;
+    this.status = status;
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, new.target);
+    }
+  }
+}
+
+type ServiceErrorClass = new (message: string, code: string, status?: number) => ServiceError;
+
+/**
+ * The Supabase service client, or a 503 in the calling service's error class
+ */
+export function requireServiceClient(ErrorClass: ServiceErrorClass = ServiceError) {
+  const supabase = getSupabaseServiceClient();
+  if (!supabase) {
+    throw new ErrorClass("Service temporarily unavailable", "DATABASE_UNAVAILABLE", 503);
+  }
+  return supabase;
+}
@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+import type { WebhookEvent, WebhookProcessor } from "@/lib/services/webhook-events";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null, events: [] as string[] }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+// Exactly-once bookkeeping is covered by webhook-events itself; here every callback just runs
+vi.mock("@/lib/services/webhook-events", () => ({
+  WebhookEventError: class WebhookEventError extends Error {},
+  recordWebhookEvent: async (params: { provider: string; eventId: string; eventType: string; payload: Record<string, unknown>; eventCreatedAt?: Date }) => ({
+    event: {
+      id: params.eventId,
+      provider: params.provider,
+      eventId: params.eventId,
+      eventType: params.eventType,
+      entityId: null,
+      payload: params.payload,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      eventCreatedAt: params.eventCreatedAt?.toISOString() ?? null,
+      receivedAt: new Date().toISOString(),
+      processedAt: null,
+    },
+    duplicate: false,
+  }),
+  runWebhookEvent: async (event: WebhookEvent, processor: WebhookProcessor) => {
+    state.events.push(event.eventType);
+    await processor(event);
+    return event;
+  },
+}));
+
+// The order only moves through the state machine; its side effects have their own coverage
+vi.mock("@/lib/services/order-transitions", () => ({
+  SYSTEM_ACTOR: { id: null, role: "system" },
+  transitionOrderStatus: vi.fn(async (params: { orderId: string; to: string; updates?: Record<string, unknown> }) => {
+    const order = state.db!.tables.orders.find((row) => row.id === params.orderId)!;
+    Object.assign(order, params.updates, { status: params.to });
+    return order;
+  }),
+}));
+
+import { bookOrderDelivery, getReattemptSlots, scheduleDeliveryReattempt, mapDelivery } from "./deliveries";
+import { SimulatedCourier, playDueSimulatedCallbacks } from "./simulated-courier";
+
+const ORDER_ID = "order-1";
+const STEP_MS = 10_000;
+
+function seed() {
+  state.db = createSupabaseFake({
+    simulated_shipments: { status: "booked", steps: [], callbacks: 0, next_step_at: null },
+  });
+  state.events = [];
+  state.db.tables.orders = [{
+    id: ORDER_ID,
+    order_number: "WK1001",
+    customer_id: "customer-1",
+    vendor_id: "vendor-1",
+    status: "ready_for_pickup",
+    items: [],
+    delivery_type: "local",
+    delivery_address: { name: "Asha", phone: "+919000000001", address: "12 MG Road", city: "Pune", pincode: "411001" },
+  }];
+  state.db.tables.vendors = [{ id: "vendor-1", name: "Paper Co", store_address: "4 FC Road, Pune, 411004", city: "Pune" }];
+  state.db.tables.users = [];
+}
+
+/** Run the playback cron until nothing is left, a step delay apart */
+async function playAll(courier?: SimulatedCourier) {
+  let now = Date.now();
+  for (let run = 0; run < 10; run++) {
+    now += STEP_MS;
+    await (courier ? courier.playDueCallbacks(new Date(now)) : playDueSimulatedCallbacks(new Date(now)));
+  }
+}
+
+function getOrder() {
+  return state.db!.tables.orders[0];
+}
+
+function getDelivery() {
+  return mapDelivery(state.db!.tables.deliveries[0]);
+}
+
+describe("simulated courier", () => {
+  beforeEach(seed);
+
+  it("takes a booked order all the way to delivered", async () => {
+    const delivery = await bookOrderDelivery(ORDER_ID);
+    expect(delivery.provider).toBe("simulated");
+    expect(delivery.status).toBe("booked");
+
+    await playAll();
+
+    expect(state.events).toEqual(["delivery.assigned", "delivery.picked_up", "delivery.in_transit", "delivery.delivered"]);
+    expect(getDelivery().status).toBe("delivered");
+    expect(getOrder().status).toBe("delivered");
+    expect(getOrder().delivery_partner_phone).toBe("+919000000000");
+    expect(state.db!.tables.simulated_shipments[0]).toMatchObject({ status: "delivered", steps: [], next_step_at: null });
+  });
+
+  it("only plays callbacks once they are due", async () => {
+    await bookOrderDelivery(ORDER_ID);
+
+    await playDueSimulatedCallbacks(new Date(Date.now() + STEP_MS - 1000));
+    expect(state.events).toEqual([]);
+
+    await playDueSimulatedCallbacks(new Date(Date.now() + STEP_MS));
+    expect(state.events).toEqual(["delivery.assigned"]);
+  });
+
+  it("keeps playing bookings made by another instance", async () => {
+    await bookOrderDelivery(ORDER_ID);
+
+    // A fresh instance stands in for a restarted or second server
+    await playAll(new SimulatedCourier({ stepDelayMs: STEP_MS }));
+
+    expect(getOrder().status).toBe("delivered");
+  });
+
+  it("sends each callback once when runs overlap", async () => {
+    await bookOrderDelivery(ORDER_ID);
+    const now = new Date(Date.now() + STEP_MS);
+
+    const results = await Promise.all([
+      new SimulatedCourier().playDueCallbacks(now),
+      new SimulatedCourier().playDueCallbacks(now),
+    ]);
+
+    expect(results.reduce((total, result) => total + result.played, 0)).toBe(1);
+    expect(state.events).toEqual(["delivery.assigned"]);
+  });
+
+  it("delivers on the reattempt after a failed attempt", async () => {
+    const courier = new SimulatedCourier({ scenario: "failed_attempt", stepDelayMs: STEP_MS });
+    const booking = await courier.createDelivery({
+      orderId: ORDER_ID,
+      pickupAddress: { name: "Paper Co", phone: "", address: "4 FC Road", city: "Pune", pincode: "411004" },
+      deliveryAddress: { name: "Asha", phone: "+919000000001", address: "12 MG Road", city: "Pune", pincode: "411001" },
+      weight: 1,
+      type: "local",
+    });
+    state.db!.tables.deliveries = [{
+      id: "delivery-1",
+      order_id: ORDER_ID,
+      provider: "simulated",
+      provider_delivery_id: booking.deliveryId,
+      awb: booking.awb,
+      status: "booked",
+      events: [],
+      failed_attempts: 0,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }];
+
+    await playAll(courier);
+    expect(getDelivery().status).toBe("delivery_failed");
+    expect(getOrder().status).toBe("out_for_delivery");
+
+    const [slot] = getReattemptSlots();
+    await scheduleDeliveryReattempt(getDelivery(), { date: slot.date, slot: slot.slot });
+    await playAll();
+
+    expect(getDelivery().status).toBe("delivered");
+    expect(getOrder().status).toBe("delivered");
+  });
+
+  it("stops playing a cancelled booking", async () => {
+    const delivery = await bookOrderDelivery(ORDER_ID);
+    await new SimulatedCourier().cancelDelivery(delivery.providerDeliveryId!, "Order cancelled");
+
+    await playAll();
+
+    expect(state.events).toEqual([]);
+    expect(getOrder().status).toBe("ready_for_pickup");
+  });
+
+  it("plays a due callback when the booking is tracked", async () => {
+    const delivery = await bookOrderDelivery(ORDER_ID);
+    const courier = new SimulatedCourier();
+
+    expect(await courier.trackDelivery(delivery.providerDeliveryId!)).toEqual({ status: "booked", location: null });
+
+    state.db!.tables.simulated_shipments[0].next_step_at = new Date(Date.now() - 1000).toISOString();
+    expect(await courier.trackDelivery(delivery.providerDeliveryId!)).toEqual({ status: "assigned", location: null });
+    expect(state.events).toEqual(["delivery.assigned"]);
+  });
+});
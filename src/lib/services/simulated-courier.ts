@@ -0,0 +1,443 @@
+/**
+ * Simulated courier
+ * A CourierProvider for local development and end-to-end tests. It accepts
+ * bookings and plays back a scenario's status callbacks, recording each one as a
+ * "simulated" webhook event so it goes through the same exactly-once processing
+ * (and admin replay) as a Nimbus callback. Bookings live in simulated_shipments
+ * with the callbacks still to play and when the next one is due; the
+ * simulated-courier cron plays due callbacks, and tracking a booking plays its
+ * due callback on read. The scenario comes from SIMULATED_COURIER_SCENARIO, the
+ * pacing from appConfig.delivery.simulatedCourier.
+ */
+
+import crypto from "crypto";
+import { env } from "@/lib/config/env";
+import { appConfig } from "@/lib/config/app";
+import { requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+import {
+  recordWebhookEvent,
+  runWebhookEvent,
+  type WebhookEvent,
+  type WebhookOutcome,
+} from "@/lib/services/webhook-events";
+import type {
+  CourierDeliveryStatus,
+  CourierProvider,
+  CourierQuote,
+  CourierStatusUpdate,
+  CourierTracking,
+  DeliveryBooking,
+  DeliveryRequest,
+  DeliverySlot,
+} from "./courier";
+
+export type SimulatedCourierScenario =
+  | "delivered"
+  | "failed_attempt"
+  | "returned"
+  | "courier_cancelled"
+  | "rejected"; // the booking itself is refused
+
+export interface SimulatedCourierStep {
+  status: CourierDeliveryStatus;
+  remarks?: string;
+}
+
+export interface SimulatedCourierOptions {
+  scenario?: SimulatedCourierScenario;
+  stepDelayMs?: number;
+}
+
+/** Callbacks each scenario plays back after a booking, one every step delay at most */
+export const SIMULATED_COURIER_TIMELINES: Record<SimulatedCourierScenario, SimulatedCourierStep[]> = {
+  delivered: [
+    { status: "assigned" },
+    { status: "picked_up" },
+    { status: "in_transit" },
+    { status: "delivered" },
+  ],
+  failed_attempt: [
+    { status: "assigned" },
+    { status: "picked_up" },
+    { status: "in_transit" },
+    { status: "delivery_failed", remarks: "Customer not reachable" },
+  ],
+  returned: [
+    { status: "assigned" },
+    { status: "picked_up" },
+    { status: "in_transit" },
+    { status: "delivery_failed", remarks: "Address not found" },
+    { status: "returned_to_origin", remarks: "Returned after failed attempt" },
+  ],
+  courier_cancelled: [
+    { status: "assigned" },
+    { status: "cancelled", remarks: "No rider available" },
+  ],
+  rejected: [],
+};
+
+// Played back once a reattempt is requested: the second attempt succeeds
+const REATTEMPT_TIMELINE: SimulatedCourierStep[] = [
+  { status: "in_transit" },
+  { status: "delivered" },
+];
+
+const SIMULATED_RIDER = { name: "Simulated Rider", phone: "+919000000000" };
+
+/** Stored as the webhook event payload */
+type SimulatedCourierPayload = CourierStatusUpdate & { eventId: string };
+
+interface SimulatedShipment {
+  deliveryId: string;
+  awb: string | null;
+  status: CourierDeliveryStatus | "booked";
+  steps: SimulatedCourierStep[]; // still to play
+  callbacks: number; // played so far, for event IDs
+  nextStepAt: string | null;
+}
+
+export interface SimulatedCourierPlaybackResult {
+  played: number;
+  failed: number;
+}
+
+const SIMULATED_SHIPMENT_COLUMNS = "delivery_id, awb, status, steps, callbacks, next_step_at";
+
+function mapShipment(row: Record<string, unknown>): SimulatedShipment {
+  return {
+    deliveryId: row.delivery_id as string,
+    awb: (row.awb as string | null) ?? null,
+    status: row.status as SimulatedShipment["status"],
+    steps: Array.isArray(row.steps) ? (row.steps as SimulatedCourierStep[]) : [],
+    callbacks: (row.callbacks as number) ?? 0,
+    nextStepAt: (row.next_step_at as string | null) ?? null,
+  };
+}
+
+function isDue(shipment: SimulatedShipment, now: Date): boolean {
+  return shipment.steps.length > 0 && shipment.nextStepAt !== null && new Date(shipment.nextStepAt) <= now;
+}
+
+function resolveScenario(value: string | undefined): SimulatedCourierScenario {
+  if (value && value in SIMULATED_COURIER_TIMELINES) {
+    return value as SimulatedCourierScenario;
+  }
+  if (value) {
+    logger.warn("[Simulated Courier] Unknown scenario, using default", { scenario: value });
+  }
+  return appConfig.delivery.simulatedCourier.scenario;
+}
+
+export class SimulatedCourier implements CourierProvider {
+  readonly id = "simulated" as const;
+  private scenario: SimulatedCourierScenario;
+  private stepDelayMs: number;
+
+  constructor(options: SimulatedCourierOptions = {}) {
+    this.scenario = options.scenario ?? resolveScenario(env.SIMULATED_COURIER_SCENARIO);
+    this.stepDelayMs = options.stepDelayMs ?? appConfig.delivery.simulatedCourier.stepDelaySeconds * 1000;
+  }
+
+  /**
+   * Quote from the simulated rate card; pincodes must be 6 digits and the parcel
+   * within the weight limit
+   */
+  async quoteDelivery(request: DeliveryRequest): Promise<CourierQuote> {
+    const { base, perKg, estimatedDays, maxWeightKg } = appConfig.delivery.simulatedCourier.rates;
+    const pincodes = [request.pickupAddress.pincode, request.deliveryAddress.pincode];
+
+    if (!pincodes.every((pincode) => /^\d{6}$/.test(pincode))) {
+      return { provider: this.id, serviceable: false, price: null, estimatedDays: null, reason: "Pincode not serviceable" };
+    }
+
+    if (request.weight > maxWeightKg) {
+      return { provider: this.id, serviceable: false, price: null, estimatedDays: null, reason: `Over ${maxWeightKg} kg` };
+    }
+
+    return {
+      provider: this.id,
+      serviceable: true,
+      price: base + perKg * Math.max(1, Math.ceil(request.weight)),
+      estimatedDays: request.type === "local" ? 1 : estimatedDays,
+    };
+  }
+
+  /**
+   * Accept a booking and queue the scenario's callbacks
+   */
+  async createDelivery(request: DeliveryRequest): Promise<DeliveryBooking> {
+    if (this.scenario === "rejected") {
+      throw new Error("Simulated courier rejected the booking");
+    }
+
+    const deliveryId = `sim_${crypto.randomUUID()}`;
+    const awb = `SIM${crypto.randomInt(100000000, 999999999)}`;
+
+    const { error } = await requireServiceClient()
+      .from("simulated_shipments")
+      .insert({
+        delivery_id: deliveryId,
+        awb,
+        scenario: this.scenario,
+        steps: SIMULATED_COURIER_TIMELINES[this.scenario],
+        next_step_at: this.getNextStepAt(new Date()),
+      });
+
+    if (error) {
+      logger.error("[Simulated Courier] Failed to save booking", { orderId: request.orderId, error });
+      throw new Error("Simulated courier failed to save the booking");
+    }
+
+    logger.info(`[Simulated Courier] Delivery created for order ${request.orderId}`, {
+      deliveryId,
+      scenario: this.scenario,
+      surprise: Boolean(request.surprise),
+    });
+
+    return {
+      deliveryId,
+      partnerId: "simulated",
+      awb,
+      trackingUrl: null,
+      estimatedTime: request.type === "local"
+        ? appConfig.delivery.defaultDeliveryTime
+        : "2-5 days",
+    };
+  }
+
+  /**
+   * Drop the booking's remaining callbacks
+   */
+  async cancelDelivery(deliveryId: string, reason: string): Promise<void> {
+    const { error } = await requireServiceClient()
+      .from("simulated_shipments")
+      .update({ status: "cancelled", steps: [], next_step_at: null, updated_at: new Date().toISOString() })
+      .eq("delivery_id", deliveryId);
+
+    if (error) {
+      logger.error("[Simulated Courier] Failed to cancel booking", { deliveryId, error });
+      throw new Error("Simulated courier failed to cancel the booking");
+    }
+
+    logger.info(`[Simulated Courier] Delivery cancelled: ${deliveryId}`, { reason });
+  }
+
+  /**
+   * Accepted as-is; the timeline keeps its pace
+   */
+  async rescheduleDelivery(deliveryId: string, slot: DeliverySlot): Promise<void> {
+    logger.info(`[Simulated Courier] Delivery rescheduled: ${deliveryId}`, { slot });
+  }
+
+  /**
+   * Queue a second, successful attempt in place of whatever was left
+   * Bookings that predate simulated_shipments are picked up again without their AWB.
+   */
+  async requestReattempt(deliveryId: string, slot: DeliverySlot): Promise<void> {
+    const supabase = requireServiceClient();
+    const now = new Date();
+    const shipment = await this.getShipment(deliveryId);
+
+    const { error } = shipment
+      ? await supabase
+          .from("simulated_shipments")
+          .update({ steps: REATTEMPT_TIMELINE, next_step_at: this.getNextStepAt(now), updated_at: now.toISOString() })
+          .eq("delivery_id", deliveryId)
+      : await supabase
+          .from("simulated_shipments")
+          .insert({
+            delivery_id: deliveryId,
+            scenario: this.scenario,
+            status: "delivery_failed",
+            steps: REATTEMPT_TIMELINE,
+            next_step_at: this.getNextStepAt(now),
+          });
+
+    if (error) {
+      logger.error("[Simulated Courier] Failed to queue reattempt", { deliveryId, error });
+      throw new Error("Simulated courier failed to queue the reattempt");
+    }
+
+    logger.info(`[Simulated Courier] Reattempt requested: ${deliveryId}`, { slot });
+  }
+
+  /**
+   * Current status, after playing the booking's callback if one is due
+   */
+  async trackDelivery(deliveryId: string): Promise<CourierTracking> {
+    const shipment = await this.getShipment(deliveryId);
+    if (!shipment) {
+      throw new Error(`Unknown simulated delivery: ${deliveryId}`);
+    }
+
+    const now = new Date();
+    if (isDue(shipment, now)) {
+      await this.playNext(shipment, now).catch(() => undefined); // Logged by playNext; tracking still answers
+      const played = await this.getShipment(deliveryId);
+      return { status: played?.status ?? shipment.status, location: null };
+    }
+
+    return { status: shipment.status, location: null };
+  }
+
+  /**
+   * Play the next callback of every booking that has one due
+   * Each booking moves one step per run, so callbacks stay at least a step delay apart.
+   */
+  async playDueCallbacks(now: Date = new Date()): Promise<SimulatedCourierPlaybackResult> {
+    const { data, error } = await requireServiceClient()
+      .from("simulated_shipments")
+      .select(SIMULATED_SHIPMENT_COLUMNS)
+      .not("next_step_at", "is", null)
+      .lte("next_step_at", now.toISOString())
+      .order("next_step_at", { ascending: true })
+      .limit(appConfig.delivery.simulatedCourier.batchSize);
+
+    if (error) {
+      logger.error("[Simulated Courier] Failed to fetch due callbacks", error);
+      throw new Error("Failed to fetch simulated shipments");
+    }
+
+    const result: SimulatedCourierPlaybackResult = { played: 0, failed: 0 };
+    for (const shipment of (data || []).map(mapShipment)) {
+      try {
+        if (await this.playNext(shipment, now)) result.played += 1;
+      } catch {
+        result.failed += 1;
+      }
+    }
+
+    return result;
+  }
+
+  private getNextStepAt(from: Date): string {
+    return new Date(from.getTime() + this.stepDelayMs).toISOString();
+  }
+
+  private async getShipment(deliveryId: string): Promise<SimulatedShipment | null> {
+    const { data, error } = await requireServiceClient()
+      .from("simulated_shipments")
+      .select(SIMULATED_SHIPMENT_COLUMNS)
+      .eq("delivery_id", deliveryId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("[Simulated Courier] Failed to fetch booking", { deliveryId, error });
+      throw new Error("Failed to fetch simulated shipment");
+    }
+
+    return data ? mapShipment(data) : null;
+  }
+
+  /**
+   * Claim the booking's next step, then send its callback
+   * The claim matches on the callback count, so concurrent runs can't send a step twice.
+   * A failed callback ends the timeline; its webhook event can be replayed by an admin.
+   * Returns false when another run got there first.
+   */
+  private async playNext(shipment: SimulatedShipment, now: Date): Promise<boolean> {
+    const [step, ...rest] = shipment.steps;
+    if (!step) return false;
+
+    const supabase = requireServiceClient();
+    const callbacks = shipment.callbacks + 1;
+
+    const { data: claimed, error } = await supabase
+      .from("simulated_shipments")
+      .update({
+        status: step.status,
+        steps: rest,
+        callbacks,
+        next_step_at: rest.length > 0 ? this.getNextStepAt(now) : null,
+        updated_at: now.toISOString(),
+      })
+      .eq("delivery_id", shipment.deliveryId)
+      .eq("callbacks", shipment.callbacks)
+      .select("delivery_id")
+      .maybeSingle();
+
+    if (error) {
+      logger.error("[Simulated Courier] Failed to claim callback", { deliveryId: shipment.deliveryId, error });
+      throw new Error("Failed to update simulated shipment");
+    }
+
+    if (!claimed) return false;
+
+    try {
+      await this.emit(shipment, callbacks, step, now);
+    } catch (error) {
+      logger.error("[Simulated Courier] Callback failed", { deliveryId: shipment.deliveryId, status: step.status, error });
+      await supabase
+        .from("simulated_shipments")
+        .update({ next_step_at: null, updated_at: new Date().toISOString() })
+        .eq("delivery_id", shipment.deliveryId)
+        .eq("callbacks", callbacks);
+      throw error;
+    }
+
+    return true;
+  }
+
+  private async emit(shipment: SimulatedShipment, callbacks: number, step: SimulatedCourierStep, at: Date): Promise<void> {
+    const payload: SimulatedCourierPayload = {
+      eventId: `${shipment.deliveryId}:${callbacks}:${step.status}`,
+      providerDeliveryId: shipment.deliveryId,
+      awb: shipment.awb,
+      status: step.status,
+      at: at.toISOString(),
+      remarks: step.remarks ?? null,
+      rider: SIMULATED_RIDER,
+    };
+
+    const { event } = await recordWebhookEvent({
+      provider: "simulated",
+      eventId: payload.eventId,
+      eventType: `delivery.${step.status}`,
+      entityId: shipment.deliveryId,
+      payload: { ...payload },
+      eventCreatedAt: at,
+    });
+
+    await runWebhookEvent(event, processSimulatedCourierEvent);
+  }
+}
+
+/**
+ * Process a recorded simulated callback (playback or admin replay)
+ * Errors propagate so the event is marked failed
+ */
+export async function processSimulatedCourierEvent(event: WebhookEvent): Promise<WebhookOutcome> {
+  // Loaded lazily: courier-webhooks -> deliveries -> courier imports this module
+  const { processCourierUpdate } = await import("@/lib/services/courier-webhooks");
+  const payload = event.payload as unknown as SimulatedCourierPayload;
+
+  return processCourierUpdate("simulated", {
+    providerDeliveryId: payload.providerDeliveryId,
+    awb: payload.awb,
+    status: payload.status,
+    at: event.eventCreatedAt || payload.at,
+    location: payload.location,
+    remarks: payload.remarks,
+    rider: payload.rider,
+  });
+}
+
+let simulatedCourier: SimulatedCourier | null = null;
+
+/**
+ * Get the shared simulated courier
+ */
+export function getSimulatedCourier(): SimulatedCourier {
+  if (!simulatedCourier) {
+    simulatedCourier = new SimulatedCourier();
+  }
+  return simulatedCourier;
+}
+
+/**
+ * Play every simulated callback that is due (simulated-courier cron)
+ */
+export async function playDueSimulatedCallbacks(now: Date = new Date()): Promise<SimulatedCourierPlaybackResult> {
+  return getSimulatedCourier().playDueCallbacks(now);
+}
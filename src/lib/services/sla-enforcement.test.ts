@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+// What a cancellation does to payments, cashback and couriers has its own coverage
+const effects = vi.hoisted(() => ({
+  restoreOrderCashbackOnCancellation: vi.fn(async () => {}),
+  creditOrderCashback: vi.fn(async () => {}),
+  refundCancelledOrder: vi.fn(async () => null),
+  reverseOrderCouponRedemption: vi.fn(async () => {}),
+  bookOrderDelivery: vi.fn(async () => {}),
+  cancelOrderDelivery: vi.fn(async () => {}),
+}));
+
+vi.mock("@/lib/services/order-cashback", () => ({
+  restoreOrderCashbackOnCancellation: effects.restoreOrderCashbackOnCancellation,
+  creditOrderCashback: effects.creditOrderCashback,
+}));
+vi.mock("@/lib/services/refunds", () => ({ refundCancelledOrder: effects.refundCancelledOrder }));
+vi.mock("@/lib/services/coupons", () => ({ reverseOrderCouponRedemption: effects.reverseOrderCouponRedemption }));
+vi.mock("@/lib/services/deliveries", () => ({
+  bookOrderDelivery: effects.bookOrderDelivery,
+  cancelOrderDelivery: effects.cancelOrderDelivery,
+}));
+
+import { enforceOrderSlas, startAcceptWindow } from "./sla-enforcement";
+
+const MINUTE = 60 * 1000;
+
+function ago(minutes: number): string {
+  return new Date(Date.now() - minutes * MINUTE).toISOString();
+}
+
+function seed(orders: Array<Record<string, unknown>>) {
+  state.db = createSupabaseFake();
+  state.db.tables.orders = orders.map((order, index) => ({
+    id: `order-${index + 1}`,
+    order_number: `WK100${index + 1}`,
+    customer_id: "customer-1",
+    vendor_id: "vendor-1",
+    status: "pending",
+    payment_status: "completed",
+    accept_deadline: null,
+    mockup_sla_breached_at: null,
+    created_at: ago(1),
+    items: [],
+    ...order,
+  }));
+  state.db.tables.vendors = [{ id: "vendor-1", user_id: "vendor-user-1", accept_breach_count: 0, mockup_breach_count: 0 }];
+  state.db.tables.users = [{ id: "admin-1", role: "admin" }];
+  state.db.tables.sla_breaches = [];
+  state.db.tables.notifications = [];
+  state.db.tables.order_status_history = [];
+
+  // Mirrors record_sla_breach() in 0050_sla_breaches.sql
+  state.db.rpcs.record_sla_breach = (args, tables) => {
+    const order = tables.orders.find((row) => row.id === args.p_order_id);
+    if (!order) throw { message: "SLA_ORDER_NOT_FOUND" };
+    if (tables.sla_breaches.some((row) => row.order_id === args.p_order_id && row.kind === args.p_kind)) return false;
+
+    tables.sla_breaches.push({
+      order_id: args.p_order_id,
+      vendor_id: order.vendor_id,
+      kind: args.p_kind,
+      deadline: args.p_deadline,
+      action: args.p_action,
+    });
+    const vendor = tables.vendors.find((row) => row.id === order.vendor_id)!;
+    vendor[`${args.p_kind}_breach_count`] = Number(vendor[`${args.p_kind}_breach_count`]) + 1;
+    return true;
+  };
+
+  vi.clearAllMocks();
+}
+
+function getOrder(id = "order-1") {
+  return state.db!.tables.orders.find((order) => order.id === id)!;
+}
+
+function notifiedUsers() {
+  return state.db!.tables.notifications.map((notification) => notification.user_id);
+}
+
+describe("startAcceptWindow", () => {
+  it("starts the accept countdown once", async () => {
+    seed([{}, { status: "personalizing" }]);
+
+    await startAcceptWindow(["order-1", "order-2"]);
+    const deadline = getOrder().accept_deadline;
+    await startAcceptWindow(["order-1"]);
+
+    expect(deadline).toEqual(expect.any(String));
+    expect(getOrder().accept_deadline).toBe(deadline);
+    expect(getOrder("order-2").accept_deadline).toBeNull();
+  });
+});
+
+describe("enforceOrderSlas", () => {
+  it("cancels and refunds paid orders the vendor didn't accept in time, and records the breach once", async () => {
+    const deadline = ago(1);
+    seed([{ accept_deadline: deadline }, { accept_deadline: new Date(Date.now() + MINUTE).toISOString() }]);
+
+    const result = await enforceOrderSlas();
+
+    expect(result).toMatchObject({ acceptBreaches: 1, failed: 0 });
+    expect(getOrder().status).toBe("cancelled");
+    expect(getOrder("order-2").status).toBe("pending");
+    expect(effects.refundCancelledOrder).toHaveBeenCalledWith("order-1", null, "Vendor did not accept the order in time");
+    expect(state.db!.tables.sla_breaches).toEqual([
+      { order_id: "order-1", vendor_id: "vendor-1", kind: "accept", deadline, action: "auto_rejected" },
+    ]);
+    expect(state.db!.tables.vendors[0].accept_breach_count).toBe(1);
+    expect(notifiedUsers()).toEqual(["customer-1", "vendor-user-1"]);
+
+    await expect(enforceOrderSlas()).resolves.toMatchObject({ acceptBreaches: 0 });
+    expect(state.db!.tables.vendors[0].accept_breach_count).toBe(1);
+  });
+
+  it("leaves an order the vendor accepted while the run was looking", async () => {
+    seed([{ accept_deadline: ago(1) }]);
+    const from = state.db!.client.from;
+    // The vendor accepts just before the cancellation is written
+    state.db!.client.from = (table: string) => {
+      if (table === "order_status_history" && getOrder().status === "pending") getOrder().status = "personalizing";
+      return from(table);
+    };
+
+    const result = await enforceOrderSlas();
+
+    expect(result).toMatchObject({ acceptBreaches: 0, failed: 0 });
+    expect(getOrder().status).toBe("personalizing");
+    expect(state.db!.tables.sla_breaches).toEqual([]);
+  });
+
+  it("expires orders left unpaid past the payment window without refunding them", async () => {
+    seed([
+      { payment_status: "pending", created_at: ago(31) },
+      { payment_status: "failed", created_at: ago(45) },
+      { payment_status: "pending", created_at: ago(10) },
+    ]);
+
+    const result = await enforceOrderSlas();
+
+    expect(result).toMatchObject({ expiredOrders: 2, acceptBreaches: 0 });
+    expect(state.db!.tables.orders.map((order) => order.status)).toEqual(["cancelled", "cancelled", "pending"]);
+    expect(state.db!.tables.order_status_history[0]).toMatchObject({ reason: "Payment was not completed in time", actor_role: "system" });
+    expect(effects.restoreOrderCashbackOnCancellation).toHaveBeenCalledTimes(2);
+    expect(effects.reverseOrderCouponRedemption).toHaveBeenCalledTimes(2);
+    expect(state.db!.tables.sla_breaches).toEqual([]);
+  });
+
+  it("flags overdue mockups once and alerts the vendor and admins", async () => {
+    const deadline = ago(5);
+    seed([{ status: "personalizing", mockup_sla: deadline }]);
+
+    await expect(enforceOrderSlas()).resolves.toMatchObject({ mockupBreaches: 1 });
+    await expect(enforceOrderSlas()).resolves.toMatchObject({ mockupBreaches: 0 });
+
+    expect(getOrder()).toMatchObject({ status: "personalizing", mockup_sla_breached_at: expect.any(String) });
+    expect(state.db!.tables.sla_breaches).toEqual([
+      { order_id: "order-1", vendor_id: "vendor-1", kind: "mockup", deadline, action: "flagged" },
+    ]);
+    expect(state.db!.tables.vendors[0].mockup_breach_count).toBe(1);
+    expect(notifiedUsers()).toEqual(["vendor-user-1", "admin-1"]);
+  });
+
+  it("counts a failed cancellation and retries it next run", async () => {
+    seed([{ accept_deadline: ago(1) }]);
+    state.db!.failWrites("order_status_history");
+
+    await expect(enforceOrderSlas()).resolves.toMatchObject({ acceptBreaches: 0, failed: 1 });
+    expect(getOrder().status).toBe("pending");
+    expect(state.db!.tables.sla_breaches).toEqual([]);
+  });
+});
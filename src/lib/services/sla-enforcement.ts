@@ -0,0 +1,514 @@
+/**
+ * SLA enforcement
+ * Server-side counterpart of the vendor countdowns. Paid orders a vendor hasn't
+ * accepted by accept_deadline are cancelled (the cancellation refunds the payment
+ * and restores cashback), and orders still without mockups at mockup_sla are flagged
+ * for the vendor and admins. Each breach is recorded once in sla_breaches and counted
+ * on the vendor for penalties and analytics. Customers sitting on ready mockups are
+ * reminded, and the mockups are approved for them once mockup_review_due_at passes.
+ * Orders left unpaid past the payment window are expired, which releases their
+ * cashback hold, coupon use and delivery slot.
+ */
+
+import { appConfig } from "@/lib/config/app";
+import { ORDER_STATUS } from "@/lib/constants/order-status";
+import { getSupabaseServiceClient } from "@/lib/supabase/client";
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { transitionOrderStatus, OrderTransitionError, SYSTEM_ACTOR } from "@/lib/services/order-transitions";
+import { getPendingMockupProductIds, reviewMockupVersions, MockupRevisionError } from "@/lib/services/mockup-revisions";
+import { calculateAcceptDeadline, formatMockupDeadline } from "@/lib/utils/sla";
+import { logger } from "@/lib/utils/logger";
+
+export type SlaBreachKind = "accept" | "mockup";
+export type SlaBreachAction = "auto_rejected" | "flagged";
+
+export interface SlaEnforcementResult {
+  acceptBreaches: number; // Orders auto-rejected this run
+  mockupBreaches: number; // Orders flagged this run
+  mockupReminders: number; // Customers reminded to review mockups this run
+  mockupAutoApprovals: number; // Orders whose mockups were approved for the customer this run
+  expiredOrders: number; // Unpaid orders cancelled this run
+  failed: number; // Breaches that could not be handled; retried next run
+}
+
+interface NotificationRow {
+  user_id: string;
+  type: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Custom error class for SLA enforcement failures
+ */
+export class SlaError extends ServiceError {
+  name = "SlaError";
+
+  constructor(message: string, code: string, status: number = 500) {
+    super(message, code, status);
+  }
+}
+
+/**
+ * Start the vendor's accept countdown once an order is paid
+ * Only pending orders without a deadline are touched, so repeat calls are harmless.
+ */
+export async function startAcceptWindow(orderIds: string[]): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  if (!supabase || orderIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("orders")
+    .update({ accept_deadline: calculateAcceptDeadline(new Date()).toISOString() })
+    .in("id", orderIds)
+    .eq("status", ORDER_STATUS.PENDING)
+    .is("accept_deadline", null);
+
+  if (error) {
+    // The order stays valid; it just won't be auto-rejected
+    logger.error("[SLA] Failed to start accept window", { orderIds, error });
+  }
+}
+
+/**
+ * Record a breach and bump the vendor's counter
+ * Returns false if the breach was already recorded by an earlier run, or couldn't be
+ */
+async function recordBreach(orderId: string, kind: SlaBreachKind, deadline: string, action: SlaBreachAction): Promise<boolean> {
+  const { data, error } = await requireServiceClient(SlaError).rpc("record_sla_breach", {
+    p_order_id: orderId,
+    p_kind: kind,
+    p_deadline: deadline,
+    p_action: action,
+  });
+
+  if (error) {
+    // The order has already been handled; only the vendor's tally misses it
+    logger.error("[SLA] Failed to record breach", { orderId, kind, error });
+    return false;
+  }
+
+  return data === true;
+}
+
+async function getVendorUsers(vendorIds: string[]): Promise<Map<string, string>> {
+  if (vendorIds.length === 0) return new Map();
+
+  const { data, error } = await requireServiceClient(SlaError)
+    .from("vendors")
+    .select("id, user_id")
+    .in("id", vendorIds);
+
+  if (error) {
+    logger.error("[SLA] Failed to fetch vendor users", error);
+    return new Map();
+  }
+
+  return new Map((data || []).map((vendor) => [vendor.id, vendor.user_id as string]));
+}
+
+async function getAdminIds(): Promise<string[]> {
+  const { data, error } = await requireServiceClient(SlaError).from("users").select("id").eq("role", "admin");
+  if (error) {
+    logger.error("[SLA] Failed to fetch admins for breach alerts", error);
+    return [];
+  }
+  return (data || []).map((admin) => admin.id);
+}
+
+async function notify(rows: NotificationRow[]): Promise<void> {
+  if (rows.length === 0) return;
+
+  const { error } = await requireServiceClient(SlaError).from("notifications").insert(rows);
+  if (error) {
+    // The breach is already handled and recorded
+    logger.error("[SLA] Failed to send breach notifications", error);
+  }
+}
+
+/**
+ * Cancel and refund paid orders the vendor didn't accept in time
+ * Orders are cancelled rather than reassigned: products, prices and customisation
+ * belong to the vendor, so the customer is refunded and can reorder elsewhere.
+ */
+async function enforceAcceptDeadlines(now: Date): Promise<{ handled: number; failed: number }> {
+  const supabase = requireServiceClient(SlaError);
+
+  const { data: orders, error } = await supabase
+    .from("orders")
+    .select("id, order_number, customer_id, vendor_id, accept_deadline")
+    .eq("status", ORDER_STATUS.PENDING)
+    .eq("payment_status", "completed")
+    .lt("accept_deadline", now.toISOString())
+    .order("accept_deadline", { ascending: true })
+    .limit(appConfig.order.slaBatchSize);
+
+  if (error) {
+    logger.error("[SLA] Failed to fetch unaccepted orders", error);
+    throw new SlaError("Failed to fetch unaccepted orders", "SLA_SCAN_FAILED");
+  }
+
+  const vendorUsers = await getVendorUsers(Array.from(new Set((orders || []).map((order) => order.vendor_id))));
+  let handled = 0;
+  let failed = 0;
+
+  for (const order of orders || []) {
+    try {
+      await transitionOrderStatus({
+        orderId: order.id,
+        from: ORDER_STATUS.PENDING,
+        to: ORDER_STATUS.CANCELLED,
+        actor: SYSTEM_ACTOR,
+        reason: "Vendor did not accept the order in time",
+        metadata: { slaBreach: "accept", deadline: order.accept_deadline },
+      });
+    } catch (transitionError) {
+      if (transitionError instanceof OrderTransitionError && transitionError.code === "ORDER_STATUS_CHANGED") {
+        continue; // Accepted or cancelled while we were looking
+      }
+      logger.error("[SLA] Failed to auto-reject order", { orderId: order.id, error: transitionError });
+      failed++;
+      continue;
+    }
+
+    await recordBreach(order.id, "accept", order.accept_deadline, "auto_rejected");
+    handled++;
+
+    const vendorUserId = vendorUsers.get(order.vendor_id);
+    await notify([
+      {
+        user_id: order.customer_id,
+        type: "order",
+        title: "Order cancelled",
+        message: `The partner couldn't confirm order #${order.order_number} in time. Your payment is being refunded in full.`,
+        data: { orderId: order.id, slaBreach: "accept" },
+      },
+      ...(vendorUserId
+        ? [{
+            user_id: vendorUserId,
+            type: "order",
+            title: "Order auto-rejected",
+            message: `Order #${order.order_number} was cancelled because it wasn't accepted within ${appConfig.order.acceptDeadlineMinutes} minutes.`,
+            data: { orderId: order.id, slaBreach: "accept" },
+          }]
+        : []),
+    ]);
+  }
+
+  return { handled, failed };
+}
+
+/**
+ * Flag orders whose mockups are overdue and alert the vendor and admins
+ */
+async function enforceMockupSlas(now: Date): Promise<{ handled: number; failed: number }> {
+  const supabase = requireServiceClient(SlaError);
+
+  const { data: orders, error } = await supabase
+    .from("orders")
+    .select("id, order_number, vendor_id, mockup_sla")
+    .eq("status", ORDER_STATUS.PERSONALIZING)
+    .is("mockup_sla_breached_at", null)
+    .lt("mockup_sla", now.toISOString())
+    .order("mockup_sla", { ascending: true })
+    .limit(appConfig.order.slaBatchSize);
+
+  if (error) {
+    logger.error("[SLA] Failed to fetch overdue mockups", error);
+    throw new SlaError("Failed to fetch overdue mockups", "SLA_SCAN_FAILED");
+  }
+
+  if (!orders || orders.length === 0) {
+    return { handled: 0, failed: 0 };
+  }
+
+  const vendorUsers = await getVendorUsers(Array.from(new Set(orders.map((order) => order.vendor_id))));
+  const adminIds = await getAdminIds();
+  let handled = 0;
+  let failed = 0;
+
+  for (const order of orders) {
+    // Claim the flag so overlapping runs don't alert twice
+    const { data: flagged, error: flagError } = await supabase
+      .from("orders")
+      .update({ mockup_sla_breached_at: now.toISOString() })
+      .eq("id", order.id)
+      .eq("status", ORDER_STATUS.PERSONALIZING)
+      .is("mockup_sla_breached_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (flagError) {
+      logger.error("[SLA] Failed to flag overdue mockup", { orderId: order.id, error: flagError });
+      failed++;
+      continue;
+    }
+    if (!flagged) continue;
+
+    await recordBreach(order.id, "mockup", order.mockup_sla, "flagged");
+    handled++;
+
+    const vendorUserId = vendorUsers.get(order.vendor_id);
+    await notify([
+      ...(vendorUserId
+        ? [{
+            user_id: vendorUserId,
+            type: "order",
+            title: "Mockup overdue",
+            message: `Mockups for order #${order.order_number} are past their deadline. Please upload them as soon as possible.`,
+            data: { orderId: order.id, slaBreach: "mockup" },
+          }]
+        : []),
+      ...adminIds.map((adminId) => ({
+        user_id: adminId,
+        type: "order",
+        title: "Mockup SLA breached",
+        message: `Order #${order.order_number} has no mockups past its deadline.`,
+        data: { orderId: order.id, vendorId: order.vendor_id, slaBreach: "mockup" },
+      })),
+    ]);
+  }
+
+  return { handled, failed };
+}
+
+/**
+ * Cancel orders whose checkout was abandoned before payment
+ * The cancellation releases the cashback hold and coupon use; nothing was paid, so
+ * nothing is refunded.
+ */
+async function expireUnpaidOrders(now: Date): Promise<{ handled: number; failed: number }> {
+  const cutoff = new Date(now.getTime() - appConfig.order.paymentWindowMinutes * 60 * 1000);
+
+  const { data: orders, error } = await requireServiceClient(SlaError)
+    .from("orders")
+    .select("id, created_at")
+    .eq("status", ORDER_STATUS.PENDING)
+    .in("payment_status", ["pending", "failed"])
+    .lt("created_at", cutoff.toISOString())
+    .order("created_at", { ascending: true })
+    .limit(appConfig.order.slaBatchSize);
+
+  if (error) {
+    logger.error("[SLA] Failed to fetch unpaid orders", error);
+    throw new SlaError("Failed to fetch unpaid orders", "SLA_SCAN_FAILED");
+  }
+
+  let handled = 0;
+  let failed = 0;
+
+  for (const order of orders || []) {
+    try {
+      await transitionOrderStatus({
+        orderId: order.id,
+        from: ORDER_STATUS.PENDING,
+        to: ORDER_STATUS.CANCELLED,
+        actor: SYSTEM_ACTOR,
+        reason: "Payment was not completed in time",
+        metadata: { paymentExpired: true, createdAt: order.created_at },
+      });
+      handled++;
+    } catch (transitionError) {
+      if (transitionError instanceof OrderTransitionError && transitionError.code === "ORDER_STATUS_CHANGED") {
+        continue; // Paid or cancelled while we were looking
+      }
+      logger.error("[SLA] Failed to expire unpaid order", { orderId: order.id, error: transitionError });
+      failed++;
+    }
+  }
+
+  return { handled, failed };
+}
+
+/**
+ * Remind customers who haven't reviewed their mockups yet
+ * Reminders stop at appConfig.order.mockupMaxReminders, or before the auto-approve time.
+ */
+async function sendMockupReminders(now: Date): Promise<{ handled: number; failed: number }> {
+  const supabase = requireServiceClient(SlaError);
+
+  const { data: orders, error } = await supabase
+    .from("orders")
+    .select("id, order_number, customer_id, mockup_review_due_at, mockup_reminder_at, mockup_reminders_sent")
+    .eq("status", ORDER_STATUS.MOCKUP_READY)
+    .lt("mockup_reminder_at", now.toISOString())
+    .order("mockup_reminder_at", { ascending: true })
+    .limit(appConfig.order.slaBatchSize);
+
+  if (error) {
+    logger.error("[SLA] Failed to fetch mockups awaiting review", error);
+    throw new SlaError("Failed to fetch mockups awaiting review", "SLA_SCAN_FAILED");
+  }
+
+  let handled = 0;
+  let failed = 0;
+
+  for (const order of orders || []) {
+    const sent = (order.mockup_reminders_sent || 0) + 1;
+    const next = new Date(now.getTime() + appConfig.order.mockupReminderHours * 60 * 60 * 1000);
+    const hasNext =
+      sent < appConfig.order.mockupMaxReminders &&
+      (!order.mockup_review_due_at || next < new Date(order.mockup_review_due_at));
+
+    // Claim the reminder so overlapping runs don't send it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from("orders")
+      .update({ mockup_reminder_at: hasNext ? next.toISOString() : null, mockup_reminders_sent: sent })
+      .eq("id", order.id)
+      .eq("status", ORDER_STATUS.MOCKUP_READY)
+      .eq("mockup_reminder_at", order.mockup_reminder_at)
+      .select("id")
+      .maybeSingle();
+
+    if (claimError) {
+      logger.error("[SLA] Failed to schedule mockup reminder", { orderId: order.id, error: claimError });
+      failed++;
+      continue;
+    }
+    if (!claimed) continue;
+
+    handled++;
+    await notify([
+      {
+        user_id: order.customer_id,
+        type: "order",
+        title: "Mockups waiting for you",
+        message: order.mockup_review_due_at
+          ? `Please review the mockups for order #${order.order_number}. They'll be approved automatically ${formatMockupDeadline(new Date(order.mockup_review_due_at))}.`
+          : `Please review the mockups for order #${order.order_number} so the artisan can start crafting.`,
+        data: { orderId: order.id, mockupReminder: sent },
+      },
+    ]);
+  }
+
+  return { handled, failed };
+}
+
+/**
+ * Approve mockups the customer didn't review within the window and start crafting
+ * The approval is made by the system actor, so the status history records it as automatic.
+ */
+async function autoApproveMockups(now: Date): Promise<{ handled: number; failed: number }> {
+  const supabase = requireServiceClient(SlaError);
+
+  const { data: orders, error } = await supabase
+    .from("orders")
+    .select("id, order_number, customer_id, vendor_id, mockup_review_due_at")
+    .eq("status", ORDER_STATUS.MOCKUP_READY)
+    .lt("mockup_review_due_at", now.toISOString())
+    .order("mockup_review_due_at", { ascending: true })
+    .limit(appConfig.order.slaBatchSize);
+
+  if (error) {
+    logger.error("[SLA] Failed to fetch mockups due for auto-approval", error);
+    throw new SlaError("Failed to fetch mockups due for auto-approval", "SLA_SCAN_FAILED");
+  }
+
+  if (!orders || orders.length === 0) {
+    return { handled: 0, failed: 0 };
+  }
+
+  const vendorUsers = await getVendorUsers(Array.from(new Set(orders.map((order) => order.vendor_id))));
+  let handled = 0;
+  let failed = 0;
+
+  for (const order of orders) {
+    const metadata = { autoApproved: true, reviewDueAt: order.mockup_review_due_at };
+
+    try {
+      const productIds = await getPendingMockupProductIds(order.id);
+
+      if (productIds.length > 0) {
+        await reviewMockupVersions({
+          orderId: order.id,
+          actor: SYSTEM_ACTOR,
+          decisions: productIds.map((productId) => ({ productId, decision: "approved" as const })),
+          metadata,
+        });
+      } else {
+        // Mockups uploaded before versioning have nothing to decide
+        await transitionOrderStatus({
+          orderId: order.id,
+          from: ORDER_STATUS.MOCKUP_READY,
+          to: ORDER_STATUS.CRAFTING,
+          actor: SYSTEM_ACTOR,
+          reason: "Mockups auto-approved",
+          metadata,
+          updates: { mockup_approved_at: now.toISOString(), revision_request: null },
+        });
+      }
+    } catch (approveError) {
+      if (
+        (approveError instanceof OrderTransitionError && approveError.code === "ORDER_STATUS_CHANGED") ||
+        (approveError instanceof MockupRevisionError && approveError.code === "MOCKUPS_NOT_READY")
+      ) {
+        continue; // Reviewed by the customer while we were looking
+      }
+      logger.error("[SLA] Failed to auto-approve mockups", { orderId: order.id, error: approveError });
+      failed++;
+      continue;
+    }
+
+    handled++;
+
+    const vendorUserId = vendorUsers.get(order.vendor_id);
+    await notify([
+      {
+        user_id: order.customer_id,
+        type: "order",
+        title: "Mockups approved",
+        message: `We approved the mockups for order #${order.order_number} since we didn't hear back. The artisan has started crafting.`,
+        data: { orderId: order.id, mockupAutoApproved: true },
+      },
+      ...(vendorUserId
+        ? [{
+            user_id: vendorUserId,
+            type: "order",
+            title: "Mockups auto-approved",
+            message: `The customer didn't respond in ${appConfig.order.mockupAutoApproveHours} hours, so the mockups for order #${order.order_number} were approved. You can start crafting.`,
+            data: { orderId: order.id, mockupAutoApproved: true },
+          }]
+        : []),
+    ]);
+  }
+
+  return { handled, failed };
+}
+
+/**
+ * Handle every payment, accept and mockup deadline missed since the last run,
+ * and every mockup review reminder or auto-approval that has come due
+ */
+export async function enforceOrderSlas(): Promise<SlaEnforcementResult> {
+  const now = new Date();
+
+  const expired = await expireUnpaidOrders(now);
+  const accept = await enforceAcceptDeadlines(now);
+  const mockup = await enforceMockupSlas(now);
+  // Approve first so orders past their window don't also get a reminder
+  const autoApprovals = await autoApproveMockups(now);
+  const reminders = await sendMockupReminders(now);
+  const failed = expired.failed + accept.failed + mockup.failed + autoApprovals.failed + reminders.failed;
+  const handled = expired.handled + accept.handled + mockup.handled + autoApprovals.handled + reminders.handled;
+
+  if (handled > 0 || failed > 0) {
+    logger.info("[SLA] Breaches handled", {
+      acceptBreaches: accept.handled,
+      mockupBreaches: mockup.handled,
+      mockupReminders: reminders.handled,
+      mockupAutoApprovals: autoApprovals.handled,
+      expiredOrders: expired.handled,
+      failed,
+    });
+  }
+
+  return {
+    acceptBreaches: accept.handled,
+    mockupBreaches: mockup.handled,
+    mockupReminders: reminders.handled,
+    mockupAutoApprovals: autoApprovals.handled,
+    expiredOrders: expired.handled,
+    failed,
+  };
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+import { getWallet, installWalletLedger } from "@/test/wallet-ledger-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+import {
+  captureWalletFunds,
+  creditWallet,
+  debitWallet,
+  holdWalletFunds,
+  postWalletEntry,
+  reconcileWallets,
+  releaseWalletFunds,
+} from "./wallet-ledger";
+
+const USER_ID = "customer-1";
+
+function seed() {
+  state.db = createSupabaseFake();
+  installWalletLedger(state.db);
+  state.db.tables.users = [
+    { id: "admin-1", role: "admin" },
+    { id: "admin-2", role: "admin" },
+    { id: USER_ID, role: "customer" },
+  ];
+}
+
+function credit(amount: number, idempotencyKey = "credit-1") {
+  return creditWallet({ userId: USER_ID, amount, idempotencyKey, entryType: "cashback_credit" });
+}
+
+describe("postWalletEntry", () => {
+  beforeEach(seed);
+
+  it("posts an entry once per idempotency key", async () => {
+    const first = await credit(100);
+    const retry = await credit(100);
+
+    expect(first.created).toBe(true);
+    expect(retry).toEqual({ ...first, created: false });
+    expect(getWallet(state.db!, USER_ID).balance).toBe(100);
+    expect(state.db!.tables.wallet_transactions).toHaveLength(1);
+  });
+
+  it("rounds amounts to paise", async () => {
+    const result = await credit(10.005);
+    expect(result.balanceAfter).toBe(10.01);
+  });
+
+  it("moves held cashback out of the balance and settles it", async () => {
+    await credit(100);
+    await holdWalletFunds({ userId: USER_ID, amount: 60, idempotencyKey: "hold-1", entryType: "cashback_reserve" });
+    expect(getWallet(state.db!, USER_ID)).toEqual({ balance: 40, held: 60 });
+
+    await releaseWalletFunds({ userId: USER_ID, amount: 20, idempotencyKey: "release-1", entryType: "cashback_release" });
+    await captureWalletFunds({ userId: USER_ID, amount: 40, idempotencyKey: "capture-1", entryType: "cashback_commit" });
+    expect(getWallet(state.db!, USER_ID)).toEqual({ balance: 60, held: 0 });
+  });
+
+  it("only debits below zero when allowed", async () => {
+    await credit(10);
+
+    await expect(
+      debitWallet({ userId: USER_ID, amount: 30, idempotencyKey: "debit-1", entryType: "adjustment" })
+    ).rejects.toMatchObject({ code: "WALLET_INSUFFICIENT_BALANCE", status: 409 });
+
+    await debitWallet({ userId: USER_ID, amount: 30, idempotencyKey: "debit-2", entryType: "cashback_clawback", allowNegative: true });
+    expect(getWallet(state.db!, USER_ID).balance).toBe(-20);
+  });
+
+  it.each([
+    ["reusing a key with another amount", () => credit(50), "WALLET_IDEMPOTENCY_CONFLICT", 409],
+    [
+      "settling more than is held",
+      () => captureWalletFunds({ userId: USER_ID, amount: 1, idempotencyKey: "capture-1", entryType: "cashback_commit" }),
+      "WALLET_INSUFFICIENT_HELD_BALANCE",
+      409,
+    ],
+    [
+      "a zero amount",
+      () => postWalletEntry({ userId: USER_ID, type: "credit", amount: 0, idempotencyKey: "zero", entryType: "adjustment" }),
+      "WALLET_INVALID_AMOUNT",
+      400,
+    ],
+    [
+      "a missing key",
+      () => postWalletEntry({ userId: USER_ID, type: "credit", amount: 5, idempotencyKey: "", entryType: "adjustment" }),
+      "WALLET_IDEMPOTENCY_KEY_REQUIRED",
+      400,
+    ],
+  ] as const)("maps %s to its error", async (_case, post, code, status) => {
+    await credit(100);
+    await expect(post()).rejects.toMatchObject({ code, status });
+  });
+
+  it("reports other database failures as a 500", async () => {
+    state.db!.rpcs.post_wallet_entry = () => {
+      throw { message: "connection reset" };
+    };
+
+    await expect(credit(100)).rejects.toMatchObject({ code: "WALLET_ENTRY_FAILED", status: 500 });
+  });
+});
+
+describe("reconcileWallets", () => {
+  beforeEach(seed);
+
+  it("records a clean run without notifying anyone", async () => {
+    await credit(100);
+
+    const run = await reconcileWallets({ triggeredBy: "admin-1" });
+
+    expect(run).toMatchObject({ walletsChecked: 1, discrepancyCount: 0, totalDifference: 0, triggeredBy: "admin-1" });
+    expect(state.db!.tables.wallet_reconciliation_runs).toHaveLength(1);
+    expect(state.db!.tables.notifications ?? []).toEqual([]);
+  });
+
+  it("records discrepancies and notifies every admin", async () => {
+    await credit(100);
+    await credit(50, "credit-2");
+    state.db!.tables.wallet[0].balance = 175; // changed outside the ledger
+
+    const run = await reconcileWallets();
+
+    expect(run.discrepancyCount).toBe(1);
+    expect(run.discrepancies[0]).toMatchObject({ storedBalance: 175, ledgerBalance: 150, difference: 25, transactionCount: 2 });
+    expect(run.totalDifference).toBe(25);
+    expect(state.db!.tables.wallet_reconciliation_runs[0]).toMatchObject({ discrepancy_count: 1, total_difference: 25 });
+    expect(state.db!.tables.notifications.map((notification) => notification.user_id)).toEqual(["admin-1", "admin-2"]);
+  });
+
+  it("fails when the run can't be recorded", async () => {
+    state.db!.failWrites("wallet_reconciliation_runs");
+
+    await expect(reconcileWallets()).rejects.toMatchObject({ code: "RECONCILIATION_FAILED", status: 500 });
+  });
+});
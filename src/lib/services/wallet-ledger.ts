@@ -0,0 +1,271 @@
+/**
+ * Wallet ledger
+ * Every wallet movement goes through post_wallet_entry(), which writes the
+ * wallet_transactions row and the balance change in one database transaction
+ */
+
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * credit/debit change the spendable balance; hold moves money from the balance
+ * into held_balance, release moves it back and capture removes it for good
+ */
+export type WalletEntryDirection = "credit" | "debit" | "hold" | "release" | "capture";
+
+export type WalletEntryType =
+  | "cashback_credit" // earned on a delivered order
+  | "cashback_reserve" // held at checkout
+  | "cashback_commit" // hold captured with the payment
+  | "cashback_release" // hold returned after a failed payment or cancellation
+  | "cashback_redeem" // debited directly when a payment succeeds after its hold was released
+  | "cashback_restore" // used cashback returned on cancellation or refund
+  | "cashback_clawback" // earned cashback reversed on refund
+  | "adjustment";
+
+export interface PostWalletEntryParams {
+  userId: string;
+  type: WalletEntryDirection;
+  amount: number;
+  idempotencyKey: string;
+  entryType: WalletEntryType;
+  description?: string;
+  orderId?: string | null;
+  metadata?: Record<string, unknown>;
+  allowNegative?: boolean; // debit below zero (clawbacks)
+}
+
+export interface WalletEntryResult {
+  transactionId: string;
+  walletId: string;
+  balanceAfter: number;
+  created: boolean; // false when the idempotency key had already been used
+}
+
+export interface WalletDiscrepancy {
+  walletId: string;
+  userId: string;
+  storedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  storedHeldBalance: number;
+  ledgerHeldBalance: number;
+  heldDifference: number;
+  transactionCount: number;
+}
+
+export interface WalletReconciliationRun {
+  id: string;
+  triggeredBy: string | null;
+  walletsChecked: number;
+  discrepancyCount: number;
+  totalDifference: number;
+  discrepancies: WalletDiscrepancy[];
+  createdAt: string;
+}
+
+/**
+ * Custom error class for wallet ledger failures
+ */
+export class WalletLedgerError extends ServiceError {
+  name = "WalletLedgerError";
+}
+
+// Exceptions raised by post_wallet_entry() -> message and HTTP status
+const LEDGER_ERRORS: Record<string, { message: string; status: number }> = {
+  WALLET_INSUFFICIENT_BALANCE: { message: "Insufficient wallet balance", status: 409 },
+  WALLET_INSUFFICIENT_HELD_BALANCE: { message: "No held cashback to settle", status: 409 },
+  WALLET_IDEMPOTENCY_CONFLICT: { message: "Wallet entry already exists with different values", status: 409 },
+  WALLET_INVALID_AMOUNT: { message: "Wallet entry amount must be positive", status: 400 },
+  WALLET_INVALID_TYPE: { message: "Invalid wallet entry type", status: 400 },
+  WALLET_IDEMPOTENCY_KEY_REQUIRED: { message: "Wallet entry idempotency key is required", status: 400 },
+};
+
+function toNumber(value: string | number | null | undefined): number {
+  if (value === null || value === undefined || value === "") return 0;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Idempotency key for an order-scoped entry, e.g. cashback_credit:<orderId>
+ */
+export function orderIdempotencyKey(entryType: WalletEntryType, orderId: string): string {
+  return `${entryType}:${orderId}`;
+}
+
+/**
+ * Post a single ledger entry
+ * Retrying with the same idempotency key returns the original entry with created=false
+ */
+export async function postWalletEntry(params: PostWalletEntryParams): Promise<WalletEntryResult> {
+  const supabase = requireServiceClient(WalletLedgerError);
+
+  const { data, error } = await supabase.rpc("post_wallet_entry", {
+    p_user_id: params.userId,
+    p_type: params.type,
+    p_amount: roundCurrency(params.amount),
+    p_idempotency_key: params.idempotencyKey,
+    p_entry_type: params.entryType,
+    p_description: params.description ?? null,
+    p_order_id: params.orderId ?? null,
+    p_metadata: params.metadata ?? null,
+    p_allow_negative: params.allowNegative ?? false,
+  });
+
+  if (error) {
+    const code = Object.keys(LEDGER_ERRORS).find((key) => error.message?.includes(key));
+    if (code) {
+      throw new WalletLedgerError(LEDGER_ERRORS[code].message, code, LEDGER_ERRORS[code].status);
+    }
+    logger.error("[Wallet Ledger] Failed to post entry", { error, idempotencyKey: params.idempotencyKey });
+    throw new WalletLedgerError("Failed to update wallet", "WALLET_ENTRY_FAILED", 500);
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) {
+    logger.error("[Wallet Ledger] post_wallet_entry returned no row", { idempotencyKey: params.idempotencyKey });
+    throw new WalletLedgerError("Failed to update wallet", "WALLET_ENTRY_FAILED", 500);
+  }
+
+  const result: WalletEntryResult = {
+    transactionId: row.transaction_id,
+    walletId: row.wallet_id,
+    balanceAfter: toNumber(row.balance_after),
+    created: Boolean(row.created),
+  };
+
+  if (result.created) {
+    logger.info("[Wallet Ledger] Posted entry", {
+      userId: params.userId,
+      type: params.type,
+      entryType: params.entryType,
+      amount: params.amount,
+      balanceAfter: result.balanceAfter,
+    });
+  }
+
+  return result;
+}
+
+export function creditWallet(params: Omit<PostWalletEntryParams, "type">): Promise<WalletEntryResult> {
+  return postWalletEntry({ ...params, type: "credit" });
+}
+
+export function debitWallet(params: Omit<PostWalletEntryParams, "type">): Promise<WalletEntryResult> {
+  return postWalletEntry({ ...params, type: "debit" });
+}
+
+export function holdWalletFunds(params: Omit<PostWalletEntryParams, "type" | "allowNegative">): Promise<WalletEntryResult> {
+  return postWalletEntry({ ...params, type: "hold" });
+}
+
+export function releaseWalletFunds(params: Omit<PostWalletEntryParams, "type" | "allowNegative">): Promise<WalletEntryResult> {
+  return postWalletEntry({ ...params, type: "release" });
+}
+
+export function captureWalletFunds(params: Omit<PostWalletEntryParams, "type" | "allowNegative">): Promise<WalletEntryResult> {
+  return postWalletEntry({ ...params, type: "capture" });
+}
+
+/**
+ * Compare every stored wallet balance with the sum of its ledger entries,
+ * record the run and notify admins when anything is off
+ * Balances are not corrected automatically; admins post adjustment entries
+ */
+export async function reconcileWallets(options: { triggeredBy?: string | null } = {}): Promise<WalletReconciliationRun> {
+  const supabase = requireServiceClient(WalletLedgerError);
+
+  const [{ data: rows, error: discrepancyError }, { count: walletsChecked, error: countError }] = await Promise.all([
+    supabase.rpc("find_wallet_discrepancies"),
+    supabase.from("wallet").select("id", { count: "exact", head: true }),
+  ]);
+
+  if (discrepancyError || countError) {
+    logger.error("[Wallet Ledger] Reconciliation query failed", discrepancyError || countError);
+    throw new WalletLedgerError("Failed to reconcile wallets", "RECONCILIATION_FAILED", 500);
+  }
+
+  const discrepancies: WalletDiscrepancy[] = ((rows || []) as Array<Record<string, string | number>>).map((row) => ({
+    walletId: String(row.wallet_id),
+    userId: String(row.user_id),
+    storedBalance: toNumber(row.stored_balance),
+    ledgerBalance: toNumber(row.ledger_balance),
+    difference: toNumber(row.difference),
+    storedHeldBalance: toNumber(row.stored_held_balance),
+    ledgerHeldBalance: toNumber(row.ledger_held_balance),
+    heldDifference: toNumber(row.held_difference),
+    transactionCount: toNumber(row.transaction_count),
+  }));
+
+  const totalDifference = roundCurrency(
+    discrepancies.reduce((sum, discrepancy) => sum + Math.abs(discrepancy.difference) + Math.abs(discrepancy.heldDifference), 0)
+  );
+
+  const { data: run, error: insertError } = await supabase
+    .from("wallet_reconciliation_runs")
+    .insert({
+      triggered_by: options.triggeredBy ?? null,
+      wallets_checked: walletsChecked ?? 0,
+      discrepancy_count: discrepancies.length,
+      total_difference: totalDifference,
+      discrepancies,
+    })
+    .select("id, created_at")
+    .single();
+
+  if (insertError || !run) {
+    logger.error("[Wallet Ledger] Failed to record reconciliation run", insertError);
+    throw new WalletLedgerError("Failed to record reconciliation run", "RECONCILIATION_FAILED", 500);
+  }
+
+  if (discrepancies.length > 0) {
+    logger.warn("[Wallet Ledger] Wallet balance discrepancies found", {
+      runId: run.id,
+      count: discrepancies.length,
+      totalDifference,
+    });
+    await notifyAdminsOfDiscrepancies(run.id, discrepancies.length, totalDifference);
+  }
+
+  return {
+    id: run.id,
+    triggeredBy: options.triggeredBy ?? null,
+    walletsChecked: walletsChecked ?? 0,
+    discrepancyCount: discrepancies.length,
+    totalDifference,
+    discrepancies,
+    createdAt: run.created_at,
+  };
+}
+
+async function notifyAdminsOfDiscrepancies(runId: string, count: number, totalDifference: number): Promise<void> {
+  const supabase = requireServiceClient(WalletLedgerError);
+
+  const { data: admins, error } = await supabase.from("users").select("id").eq("role", "admin");
+  if (error) {
+    logger.error("[Wallet Ledger] Failed to fetch admins for reconciliation alert", error);
+    return;
+  }
+
+  if (!admins || admins.length === 0) return;
+
+  const { error: notifyError } = await supabase.from("notifications").insert(
+    admins.map((admin) => ({
+      user_id: admin.id,
+      type: "account",
+      title: "Wallet discrepancies found",
+      message: `${count} wallet${count === 1 ? "" : "s"} differ from the ledger by ₹${totalDifference.toFixed(2)} in total`,
+      data: { runId, discrepancyCount: count, totalDifference },
+    }))
+  );
+
+  if (notifyError) {
+    // Don't fail the run - it is already recorded
+    logger.error("[Wallet Ledger] Failed to notify admins", notifyError);
+  }
+}
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseFake, type SupabaseFake } from "@/test/supabase-fake";
+
+const state = vi.hoisted(() => ({ db: null as SupabaseFake | null }));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseServiceClient: () => state.db?.client,
+}));
+
+import { recordWebhookEvent, runWebhookEvent, type WebhookEvent } from "./webhook-events";
+
+function seed() {
+  state.db = createSupabaseFake({ webhook_events: { attempts: 0, last_error: null, processed_at: null } });
+  state.db.unique("webhook_events", ["provider", "event_id"]);
+}
+
+async function record(eventId = "evt_1") {
+  return recordWebhookEvent({
+    provider: "razorpay",
+    eventId,
+    eventType: "payment.captured",
+    entityId: "pay_1",
+    payload: { event: "payment.captured" },
+  });
+}
+
+function getRow(event: WebhookEvent) {
+  return state.db!.tables.webhook_events.find((row) => row.id === event.id)!;
+}
+
+const processed = vi.fn(async () => ({ status: "processed" as const }));
+
+describe("webhook events", () => {
+  beforeEach(() => {
+    seed();
+    vi.clearAllMocks();
+  });
+
+  it("processes a delivery once and skips its retries", async () => {
+    const { event } = await record();
+    const result = await runWebhookEvent(event, processed);
+    expect(result).toMatchObject({ status: "processed", attempts: 1, lastError: null });
+
+    const retry = await record();
+    expect(retry).toMatchObject({ duplicate: true, event: { id: event.id, status: "processed" } });
+    expect(await runWebhookEvent(retry.event, processed)).toBeNull();
+
+    expect(processed).toHaveBeenCalledTimes(1);
+    expect(state.db!.tables.webhook_events).toHaveLength(1);
+  });
+
+  it("lets only one of two concurrent deliveries process the event", async () => {
+    const { event } = await record();
+    const duplicate = await record();
+
+    const results = await Promise.all([runWebhookEvent(event, processed), runWebhookEvent(duplicate.event, processed)]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(processed).toHaveBeenCalledTimes(1);
+  });
+
+  it("reclaims an event left processing by a crashed run", async () => {
+    const { event } = await record();
+    Object.assign(getRow(event), { status: "processing", updated_at: new Date(Date.now() - 2 * 60 * 1000).toISOString() });
+    expect(await runWebhookEvent(event, processed)).toBeNull();
+
+    getRow(event).updated_at = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    expect(await runWebhookEvent(event, processed)).toMatchObject({ status: "processed" });
+    expect(processed).toHaveBeenCalledTimes(1);
+  });
+
+  it("marks the event failed and rethrows when processing fails", async () => {
+    const { event } = await record();
+
+    await expect(runWebhookEvent(event, async () => {
+      throw new Error("Order update failed");
+    })).rejects.toThrow("Order update failed");
+
+    expect(getRow(event)).toMatchObject({ status: "failed", last_error: "Order update failed", processed_at: null });
+  });
+
+  it("records why an event was ignored", async () => {
+    const { event } = await record();
+
+    const result = await runWebhookEvent(event, async () => ({ status: "ignored", reason: "Unhandled event type" }));
+
+    expect(result).toMatchObject({ status: "ignored", lastError: "Unhandled event type" });
+  });
+
+  it("only replays failed events", async () => {
+    const failing = await record("evt_failing");
+    await expect(runWebhookEvent(failing.event, async () => {
+      throw new Error("Timeout");
+    })).rejects.toThrow();
+    const done = await record("evt_done");
+    await runWebhookEvent(done.event, processed);
+    const waiting = await record("evt_waiting");
+    vi.clearAllMocks();
+
+    const replayOnly = { fromStatuses: ["failed" as const] };
+    expect(await runWebhookEvent(done.event, processed, replayOnly)).toBeNull();
+    expect(await runWebhookEvent(waiting.event, processed, replayOnly)).toBeNull();
+    expect(processed).not.toHaveBeenCalled();
+
+    const replayed = await runWebhookEvent({ ...failing.event, attempts: 1 }, processed, replayOnly);
+    expect(replayed).toMatchObject({ status: "processed", attempts: 2, lastError: null });
+  });
+});
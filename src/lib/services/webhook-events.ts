@@ -0,0 +1,262 @@
+/**
+ * Webhook events
+ * Records each webhook delivery by the provider's event ID and runs its side effects
+ * exactly once. Retried deliveries of a finished event are acknowledged without
+ * reprocessing; failed events keep their payload so an admin can replay them.
+ */
+
+import { appConfig } from "@/lib/config/app";
+import { ServiceError, requireServiceClient } from "@/lib/services/service-error";
+import { logger } from "@/lib/utils/logger";
+
+export type WebhookProvider = "razorpay" | "nimbus" | "simulated";
+export type WebhookEventStatus = "pending" | "processing" | "processed" | "ignored" | "failed";
+
+export interface WebhookEvent {
+  id: string;
+  provider: WebhookProvider;
+  eventId: string;
+  eventType: string;
+  entityId: string | null;
+  payload: Record<string, unknown>;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  eventCreatedAt: string | null;
+  receivedAt: string;
+  processedAt: string | null;
+}
+
+/** What a processor did with an event; "ignored" covers stale and unhandled events */
+export interface WebhookOutcome {
+  status: "processed" | "ignored";
+  reason?: string;
+}
+
+export type WebhookProcessor = (event: WebhookEvent) => Promise<WebhookOutcome>;
+
+export const WEBHOOK_EVENT_COLUMNS =
+  "id, provider, event_id, event_type, entity_id, payload, status, attempts, last_error, event_created_at, received_at, processed_at";
+
+// An event stuck in processing this long is assumed to have crashed mid-run
+const STALE_PROCESSING_MINUTES = 5;
+
+/**
+ * Custom error class for webhook event bookkeeping
+ */
+export class WebhookEventError extends ServiceError {
+  name = "WebhookEventError";
+}
+
+export function mapWebhookEvent(row: Record<string, unknown>): WebhookEvent {
+  return {
+    id: row.id as string,
+    provider: row.provider as WebhookProvider,
+    eventId: row.event_id as string,
+    eventType: row.event_type as string,
+    entityId: (row.entity_id as string | null) ?? null,
+    payload: (row.payload as Record<string, unknown>) || {},
+    status: row.status as WebhookEventStatus,
+    attempts: Number(row.attempts ?? 0),
+    lastError: (row.last_error as string | null) ?? null,
+    eventCreatedAt: (row.event_created_at as string | null) ?? null,
+    receivedAt: row.received_at as string,
+    processedAt: (row.processed_at as string | null) ?? null,
+  };
+}
+
+/**
+ * Store a delivery, or return the existing row when the event was seen before
+ */
+export async function recordWebhookEvent(params: {
+  provider: WebhookProvider;
+  eventId: string;
+  eventType: string;
+  entityId?: string | null;
+  payload: Record<string, unknown>;
+  eventCreatedAt?: Date | null;
+}): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+  const supabase = requireServiceClient(WebhookEventError);
+
+  const { data: created, error } = await supabase
+    .from("webhook_events")
+    .insert({
+      provider: params.provider,
+      event_id: params.eventId,
+      event_type: params.eventType,
+      entity_id: params.entityId ?? null,
+      payload: params.payload,
+      status: "pending",
+      event_created_at: params.eventCreatedAt?.toISOString() ?? null,
+    })
+    .select(WEBHOOK_EVENT_COLUMNS)
+    .single();
+
+  if (created) {
+    return { event: mapWebhookEvent(created), duplicate: false };
+  }
+
+  // webhook_events_provider_event_id_key: a retried delivery
+  if (error?.code === "23505") {
+    const { data: existing, error: fetchError } = await supabase
+      .from("webhook_events")
+      .select(WEBHOOK_EVENT_COLUMNS)
+      .eq("provider", params.provider)
+      .eq("event_id", params.eventId)
+      .single();
+
+    if (existing) {
+      return { event: mapWebhookEvent(existing), duplicate: true };
+    }
+    logger.error("[Webhook Events] Failed to fetch duplicate event", { eventId: params.eventId, error: fetchError });
+  } else {
+    logger.error("[Webhook Events] Failed to record event", { eventId: params.eventId, error });
+  }
+
+  throw new WebhookEventError("Failed to record webhook event", "WEBHOOK_RECORD_FAILED", 500);
+}
+
+/**
+ * Take the event for processing. Only one caller can win the claim, which is what
+ * makes processing exactly-once across concurrent deliveries.
+ */
+async function claimWebhookEvent(event: WebhookEvent, fromStatuses: WebhookEventStatus[]): Promise<boolean> {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000).toISOString();
+  const claimable = [`status.in.(${fromStatuses.join(",")})`];
+  if (!fromStatuses.includes("processing")) {
+    claimable.push(`and(status.eq.processing,updated_at.lt.${staleBefore})`);
+  }
+
+  const { data, error } = await requireServiceClient(WebhookEventError)
+    .from("webhook_events")
+    .update({
+      status: "processing",
+      attempts: event.attempts + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", event.id)
+    .or(claimable.join(","))
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Webhook Events] Failed to claim event", { id: event.id, error });
+    throw new WebhookEventError("Failed to claim webhook event", "WEBHOOK_CLAIM_FAILED", 500);
+  }
+
+  return Boolean(data);
+}
+
+async function finishWebhookEvent(
+  id: string,
+  update: { status: WebhookEventStatus; lastError: string | null }
+): Promise<WebhookEvent | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await requireServiceClient(WebhookEventError)
+    .from("webhook_events")
+    .update({
+      status: update.status,
+      last_error: update.lastError,
+      processed_at: update.status === "failed" ? null : now,
+      updated_at: now,
+    })
+    .eq("id", id)
+    .select(WEBHOOK_EVENT_COLUMNS)
+    .single();
+
+  if (error) {
+    logger.error("[Webhook Events] Failed to update event status", { id, status: update.status, error });
+    return null;
+  }
+
+  return mapWebhookEvent(data);
+}
+
+/**
+ * Claim and process an event, recording the outcome
+ * Returns null when another delivery already holds or finished the event.
+ * Processor errors mark the event failed and are rethrown.
+ */
+export async function runWebhookEvent(
+  event: WebhookEvent,
+  processor: WebhookProcessor,
+  options: { fromStatuses?: WebhookEventStatus[] } = {}
+): Promise<WebhookEvent | null> {
+  const claimed = await claimWebhookEvent(event, options.fromStatuses ?? ["pending", "failed"]);
+  if (!claimed) {
+    logger.info("[Webhook Events] Event already handled", { eventId: event.eventId, status: event.status });
+    return null;
+  }
+
+  let outcome: WebhookOutcome;
+  try {
+    outcome = await processor(event);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await finishWebhookEvent(event.id, { status: "failed", lastError: message });
+    logger.error("[Webhook Events] Event processing failed", {
+      provider: event.provider,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      attempt: event.attempts + 1,
+      error,
+    });
+    throw error;
+  }
+
+  if (outcome.status === "ignored") {
+    logger.info("[Webhook Events] Event ignored", { eventId: event.eventId, eventType: event.eventType, reason: outcome.reason });
+  }
+
+  return finishWebhookEvent(event.id, { status: outcome.status, lastError: outcome.reason ?? null });
+}
+
+export async function getWebhookEvent(id: string): Promise<WebhookEvent> {
+  const { data, error } = await requireServiceClient(WebhookEventError)
+    .from("webhook_events")
+    .select(WEBHOOK_EVENT_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("[Webhook Events] Failed to fetch event", { id, error });
+    throw new WebhookEventError("Failed to fetch webhook event", "WEBHOOK_FETCH_FAILED", 500);
+  }
+
+  if (!data) {
+    throw new WebhookEventError("Webhook event not found", "WEBHOOK_EVENT_NOT_FOUND", 404);
+  }
+
+  return mapWebhookEvent(data);
+}
+
+/**
+ * Webhook events for the admin console, newest first
+ */
+export async function listWebhookEvents(params: {
+  provider?: WebhookProvider;
+  status?: WebhookEventStatus;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<{ events: WebhookEvent[]; total: number }> {
+  const limit = params.limit ?? appConfig.pagination.defaultLimit;
+  const offset = params.offset ?? 0;
+
+  let query = requireServiceClient(WebhookEventError)
+    .from("webhook_events")
+    .select(WEBHOOK_EVENT_COLUMNS, { count: "exact" })
+    .order("received_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (params.provider) query = query.eq("provider", params.provider);
+  if (params.status) query = query.eq("status", params.status);
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    logger.error("[Webhook Events] Failed to list events", error);
+    throw new WebhookEventError("Failed to fetch webhook events", "WEBHOOK_FETCH_FAILED", 500);
+  }
+
+  return { events: (data || []).map(mapWebhookEvent), total: count ?? 0 };
+}
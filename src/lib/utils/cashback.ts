@@ -25,7 +25,7 @@ export function calculateMaxCashbackUsage(orderValue: number, availableCashback:
 /**
  * Get cashback percentage for an order (with overrides)
  * NOTE: This function uses fetch() and should only be called from client-side code
- * For server-side usage, call the API route directly
+ * Server code resolves rules with getLiveCashbackRules/resolveCashbackRule (services/cashback-rules)
  */
 export async function getCashbackPercentage(categoryId?: string, vendorId?: string): Promise<number> {
   // Only run in browser environment
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Seasonal windows are edited every season, so the tests bring their own
+vi.mock("@/lib/config/app", async (importOriginal) => {
+  const { appConfig } = await importOriginal<typeof import("@/lib/config/app")>();
+  const festival = { id: "festival", label: "Festival", from: "2026-11-06", to: "2026-11-09", multiplier: 1.25, deliveryTypes: ["local", "intercity"] };
+  return {
+    appConfig: {
+      ...appConfig,
+      delivery: { ...appConfig.delivery, fees: { ...appConfig.delivery.fees, seasonalSurges: [festival] } },
+    },
+  };
+});
+
+import { appConfig } from "@/lib/config/app";
+import { getActiveSurge, getDeliveryFeeSlab, quoteDeliveryFee, type DeliveryFeeInput } from "./delivery-fees";
+
+// 12:00 IST on an ordinary day, outside every surge window
+const NOON_IST = new Date("2026-03-10T06:30:00Z");
+// 23:00 IST the same day, inside the late night window
+const LATE_NIGHT_IST = new Date("2026-03-10T17:30:00Z");
+
+function quote(overrides: Partial<DeliveryFeeInput> = {}) {
+  return quoteDeliveryFee({
+    city: "Pune",
+    deliveryType: "local",
+    deliverySpeed: "standard",
+    distanceKm: 2,
+    weightKg: 1,
+    itemTotal: 500,
+    at: NOON_IST,
+    ...overrides,
+  });
+}
+
+describe("getDeliveryFeeSlab", () => {
+  it("uses the city slab, matching the city case-insensitively", () => {
+    expect(getDeliveryFeeSlab(" Bangalore ", "local")).toEqual(appConfig.delivery.fees.slabs.cities.bangalore.local);
+  });
+
+  it("falls back to the default slab", () => {
+    expect(getDeliveryFeeSlab("Bangalore", "intercity")).toEqual(appConfig.delivery.fees.slabs.default.intercity);
+    expect(getDeliveryFeeSlab("Pune", "local")).toEqual(appConfig.delivery.fees.slabs.default.local);
+  });
+});
+
+describe("quoteDeliveryFee", () => {
+  it("charges only the base fee within the included distance", () => {
+    const result = quote();
+    expect(result.fee).toBe(39);
+    expect(result.breakdown.distance).toBe(0);
+    expect(result.surge).toBeNull();
+  });
+
+  it("charges per km beyond the included distance", () => {
+    const result = quote({ distanceKm: 5.5 });
+    expect(result.breakdown.distance).toBe(20); // 2.5 km at 8
+    expect(result.fee).toBe(59);
+  });
+
+  it("rounds every line to whole rupees and charges their sum", () => {
+    const result = quote({ city: "Bangalore", distanceKm: 4.3, weightKg: 3, at: LATE_NIGHT_IST });
+    const { base, distance, weight, surge, express, midnight, discount } = result.breakdown;
+
+    expect(distance).toBe(12); // 1.3 km at 9 = 11.7
+    expect(surge).toBe(39); // (45 + 12 + 20) * 0.5 = 38.5
+    expect(result.fee).toBe(base + distance + weight + surge + express + midnight - discount);
+    expect(result.fee).toBe(116);
+  });
+
+  it("charges the base fee alone when the distance is unknown", () => {
+    expect(quote({ distanceKm: null }).fee).toBe(39);
+  });
+
+  it("applies the highest weight slab the parcel reaches", () => {
+    expect(quote({ weightKg: 2 }).breakdown.weight).toBe(0);
+    expect(quote({ weightKg: 6 }).breakdown.weight).toBe(50);
+    expect(quote({ weightKg: 12 }).breakdown.weight).toBe(100);
+  });
+
+  it("multiplies base, distance and weight by the active surge", () => {
+    const result = quote({ distanceKm: 5, weightKg: 3, at: LATE_NIGHT_IST });
+    // (39 + 16 + 20) * 0.5 = 37.5
+    expect(result.breakdown.surge).toBe(38);
+    expect(result.fee).toBe(113);
+    expect(result.surge).toEqual({ id: "late_night", label: "Late night", multiplier: 1.5 });
+  });
+
+  it("adds the express and midnight surcharges on top", () => {
+    expect(quote({ deliverySpeed: "express" }).fee).toBe(139);
+    expect(quote({ deliverySpeed: "midnight" }).fee).toBe(39 + appConfig.delivery.midnight.surcharge);
+  });
+
+  it("waives everything but the speed surcharge from the free delivery threshold", () => {
+    const free = quote({ itemTotal: 999, distanceKm: 5, at: LATE_NIGHT_IST });
+    expect(free.freeDelivery).toBe(true);
+    expect(free.fee).toBe(0);
+
+    const express = quote({ itemTotal: 999, deliverySpeed: "express" });
+    expect(express.fee).toBe(100);
+    expect(express.breakdown.discount).toBe(39);
+  });
+});
+
+describe("getActiveSurge", () => {
+  it("matches daily windows that cross midnight", () => {
+    expect(getActiveSurge("local", new Date("2026-03-10T16:29:00Z"))).toBeNull(); // 21:59 IST
+    expect(getActiveSurge("local", new Date("2026-03-10T16:30:00Z"))?.id).toBe("late_night"); // 22:00 IST
+    expect(getActiveSurge("local", new Date("2026-03-10T00:00:00Z"))?.id).toBe("late_night"); // 05:30 IST
+    expect(getActiveSurge("local", new Date("2026-03-10T00:30:00Z"))).toBeNull(); // 06:00 IST
+  });
+
+  it("only applies a window to its delivery types", () => {
+    expect(getActiveSurge("intercity", LATE_NIGHT_IST)).toBeNull();
+  });
+
+  it("matches dated windows inclusively in IST", () => {
+    expect(getActiveSurge("intercity", new Date("2026-11-05T18:29:00Z"))).toBeNull(); // Nov 5, 23:59 IST
+    expect(getActiveSurge("intercity", new Date("2026-11-05T18:30:00Z"))?.id).toBe("festival"); // Nov 6, 00:00 IST
+    expect(getActiveSurge("intercity", new Date("2026-11-09T18:29:00Z"))?.id).toBe("festival"); // Nov 9, 23:59 IST
+    expect(getActiveSurge("intercity", new Date("2026-11-09T18:30:00Z"))).toBeNull();
+  });
+
+  it("picks the highest multiplier when windows overlap", () => {
+    expect(getActiveSurge("local", new Date("2026-11-07T17:30:00Z"))?.id).toBe("late_night");
+    expect(getActiveSurge("local", new Date("2026-11-07T06:30:00Z"))?.id).toBe("festival");
+  });
+});
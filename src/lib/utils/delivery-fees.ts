@@ -0,0 +1,145 @@
+/**
+ * Delivery fee engine
+ * Quotes the delivery fee from the vendor city's slab (base plus per-km beyond the
+ * included distance), a parcel weight surcharge, any active surge window and the
+ * free delivery threshold. Order pricing (and so the cart's checkout quote) and the
+ * product sheet all price delivery through quoteDeliveryFee.
+ */
+
+import { appConfig } from "@/lib/config/app";
+import { IST_OFFSET_MS } from "@/lib/utils/ist";
+
+export type FeeDeliveryType = "local" | "intercity";
+export type FeeDeliverySpeed = "standard" | "express" | "midnight";
+
+export interface DeliveryFeeSlab {
+  base: number;
+  includedKm: number;
+  perKm: number;
+  expressSurcharge: number;
+  freeAbove: number | null; // Item total from which standard delivery is free
+}
+
+export interface DeliverySurgeWindow {
+  id: string;
+  label: string;
+  start?: string; // HH:mm IST, daily windows
+  end?: string;
+  from?: string; // YYYY-MM-DD IST, dated (seasonal) windows
+  to?: string;
+  multiplier: number;
+  deliveryTypes: readonly FeeDeliveryType[];
+}
+
+export interface DeliveryFeeInput {
+  city: string; // Vendor city, picks the slab
+  deliveryType: FeeDeliveryType;
+  deliverySpeed: FeeDeliverySpeed;
+  distanceKm: number | null; // null when either side has no coordinates: base fee only
+  weightKg: number;
+  itemTotal: number;
+  at?: Date;
+}
+
+export interface DeliveryFeeQuote {
+  fee: number;
+  breakdown: {
+    base: number;
+    distance: number;
+    weight: number;
+    surge: number;
+    express: number;
+    midnight: number;
+    discount: number; // Free delivery waiver, as a positive amount
+  };
+  surge: { id: string; label: string; multiplier: number } | null;
+  freeDelivery: boolean;
+  freeDeliveryAbove: number | null;
+}
+
+// Delivery is charged in whole rupees; every breakdown line is rounded the same way
+function roundFee(amount: number): number {
+  return Math.round(amount);
+}
+
+/**
+ * Fee slab for a vendor city, falling back to the default slab
+ */
+export function getDeliveryFeeSlab(city: string, deliveryType: FeeDeliveryType): DeliveryFeeSlab {
+  const { slabs } = appConfig.delivery.fees;
+  const citySlabs = (slabs.cities as Record<string, Partial<Record<FeeDeliveryType, DeliveryFeeSlab>>>)[
+    city.trim().toLowerCase()
+  ];
+  return citySlabs?.[deliveryType] ?? slabs.default[deliveryType];
+}
+
+function getWeightSurcharge(weightKg: number): number {
+  return appConfig.delivery.fees.weightSurcharges.reduce(
+    (surcharge, slab) => (weightKg > slab.aboveKg ? Math.max(surcharge, slab.fee) : surcharge),
+    0
+  );
+}
+
+function isSurgeActive(window: DeliverySurgeWindow, at: Date): boolean {
+  const ist = new Date(at.getTime() + IST_OFFSET_MS).toISOString();
+  const date = ist.slice(0, 10);
+  const time = ist.slice(11, 16);
+
+  if (window.from && date < window.from) return false;
+  if (window.to && date > window.to) return false;
+
+  if (window.start && window.end) {
+    return window.start <= window.end
+      ? time >= window.start && time < window.end
+      : time >= window.start || time < window.end; // Crosses midnight
+  }
+
+  return Boolean(window.from || window.to);
+}
+
+/**
+ * The highest surge window active for a delivery type at a given time
+ */
+export function getActiveSurge(deliveryType: FeeDeliveryType, at: Date = new Date()): DeliverySurgeWindow | null {
+  const { surges, seasonalSurges } = appConfig.delivery.fees;
+  const windows: readonly DeliverySurgeWindow[] = [...surges, ...seasonalSurges];
+
+  return windows
+    .filter((window) => window.deliveryTypes.includes(deliveryType) && isSurgeActive(window, at))
+    .reduce<DeliverySurgeWindow | null>(
+      (highest, window) => (!highest || window.multiplier > highest.multiplier ? window : highest),
+      null
+    );
+}
+
+/**
+ * Quote the delivery fee for an order
+ * Surge multiplies base, distance and weight charges; the express or midnight
+ * surcharge is added on top. Free delivery waives everything but that surcharge.
+ * The fee is the sum of the breakdown lines.
+ */
+export function quoteDeliveryFee(input: DeliveryFeeInput): DeliveryFeeQuote {
+  const slab = getDeliveryFeeSlab(input.city, input.deliveryType);
+  const at = input.at ?? new Date();
+
+  const base = roundFee(slab.base);
+  const extraKm = input.distanceKm !== null ? Math.max(0, input.distanceKm - slab.includedKm) : 0;
+  const distance = roundFee(extraKm * slab.perKm);
+  const weight = roundFee(getWeightSurcharge(input.weightKg));
+
+  const activeSurge = getActiveSurge(input.deliveryType, at);
+  const surge = activeSurge ? roundFee((base + distance + weight) * (activeSurge.multiplier - 1)) : 0;
+  const express = input.deliverySpeed === "express" ? roundFee(slab.expressSurcharge) : 0;
+  const midnight = input.deliverySpeed === "midnight" ? roundFee(appConfig.delivery.midnight.surcharge) : 0;
+
+  const freeDelivery = slab.freeAbove !== null && input.itemTotal >= slab.freeAbove;
+  const discount = freeDelivery ? base + distance + weight + surge : 0;
+
+  return {
+    fee: base + distance + weight + surge + express + midnight - discount,
+    breakdown: { base, distance, weight, surge, express, midnight, discount },
+    surge: activeSurge ? { id: activeSurge.id, label: activeSurge.label, multiplier: activeSurge.multiplier } : null,
+    freeDelivery,
+    freeDeliveryAbove: slab.freeAbove,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { getZoneBounds, isPointInZone, type GeoJsonMultiPolygon, type GeoJsonPolygon } from "./delivery-zones";
+
+// 10 x 10 square with a 2 x 2 hole in the middle
+const SQUARE_WITH_HOLE: GeoJsonPolygon = {
+  type: "Polygon",
+  coordinates: [
+    [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
+    [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]],
+  ],
+};
+
+// L shape: the top right quarter is cut out
+const L_SHAPE: GeoJsonPolygon = {
+  type: "Polygon",
+  coordinates: [[[0, 0], [10, 0], [10, 5], [5, 5], [5, 10], [0, 10], [0, 0]]],
+};
+
+const TWO_ISLANDS: GeoJsonMultiPolygon = {
+  type: "MultiPolygon",
+  coordinates: [
+    [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+    [[[20, 20], [21, 20], [21, 21], [20, 21], [20, 20]]],
+  ],
+};
+
+describe("isPointInZone", () => {
+  it("finds points inside the outer ring", () => {
+    expect(isPointInZone({ lng: 1, lat: 1 }, SQUARE_WITH_HOLE)).toBe(true);
+    expect(isPointInZone({ lng: 9.5, lat: 8 }, SQUARE_WITH_HOLE)).toBe(true);
+  });
+
+  it("rejects points outside the outer ring", () => {
+    expect(isPointInZone({ lng: -1, lat: 5 }, SQUARE_WITH_HOLE)).toBe(false);
+    expect(isPointInZone({ lng: 5, lat: 11 }, SQUARE_WITH_HOLE)).toBe(false);
+  });
+
+  it("rejects points inside a hole", () => {
+    expect(isPointInZone({ lng: 5, lat: 5 }, SQUARE_WITH_HOLE)).toBe(false);
+  });
+
+  it("follows concave edges", () => {
+    expect(isPointInZone({ lng: 2, lat: 8 }, L_SHAPE)).toBe(true);
+    expect(isPointInZone({ lng: 8, lat: 2 }, L_SHAPE)).toBe(true);
+    expect(isPointInZone({ lng: 8, lat: 8 }, L_SHAPE)).toBe(false);
+  });
+
+  it("matches any polygon of a multipolygon", () => {
+    expect(isPointInZone({ lng: 0.5, lat: 0.5 }, TWO_ISLANDS)).toBe(true);
+    expect(isPointInZone({ lng: 20.5, lat: 20.5 }, TWO_ISLANDS)).toBe(true);
+    expect(isPointInZone({ lng: 10, lat: 10 }, TWO_ISLANDS)).toBe(false);
+  });
+});
+
+describe("getZoneBounds", () => {
+  it("spans the outer rings of every zone", () => {
+    expect(getZoneBounds([SQUARE_WITH_HOLE, TWO_ISLANDS])).toEqual({ minLng: 0, minLat: 0, maxLng: 21, maxLat: 21 });
+  });
+
+  it("is null without zones", () => {
+    expect(getZoneBounds([])).toBeNull();
+  });
+});
@@ -1,113 +1,86 @@
-import { BANGALORE_ZONES, CITY_ZONES } from "@/lib/constants/delivery-zones";
-
 /**
- * Pincode to zone mapping for Bangalore
- * Maps pincode prefixes to delivery zones
- * This is a simplified mapping - in production, use a comprehensive database
+ * Delivery zone geometry
+ * Zones are GeoJSON polygons stored per city (see src/lib/services/delivery-zones.ts);
+ * these helpers do the point-in-polygon maths without touching the database.
  */
-const BANGALORE_PINCODE_TO_ZONE: Record<string, string[]> = {
-  // Koramangala: 560095, 560034
-  "560095": ["Koramangala"],
-  "560034": ["Koramangala"],
-  // HSR Layout: 560102
-  "560102": ["HSR Layout"],
-  // BTM Layout: 560076, 560068
-  "560076": ["BTM Layout"],
-  "560068": ["BTM Layout"],
-  // Indiranagar: 560038
-  "560038": ["Indiranagar"],
-  // Whitefield: 560066, 560048
-  "560066": ["Whitefield"],
-  "560048": ["Whitefield"],
-  // Marathahalli: 560037
-  "560037": ["Marathahalli"],
-  // Electronic City: 560100
-  "560100": ["Electronic City"],
-  // Jayanagar: 560011, 560041
-  "560011": ["Jayanagar"],
-  "560041": ["Jayanagar"],
-  // JP Nagar: 560078
-  "560078": ["JP Nagar"],
-  // Bannerghatta Road: 560076, 560083
-  "560083": ["Bannerghatta Road"],
-  // MG Road: 560001
-  "560001": ["MG Road", "Brigade Road"],
-  // Brigade Road: 560001
-  // Commercial Street: 560001
-  // Malleshwaram: 560003, 560055
-  "560003": ["Malleshwaram"],
-  "560055": ["Malleshwaram"],
-  // Rajajinagar: 560010
-  "560010": ["Rajajinagar"],
-};
+
+/** GeoJSON position: [longitude, latitude] */
+export type GeoJsonPosition = [number, number];
+
+export interface GeoJsonPolygon {
+  type: "Polygon";
+  coordinates: GeoJsonPosition[][]; // outer ring, then holes
+}
+
+export interface GeoJsonMultiPolygon {
+  type: "MultiPolygon";
+  coordinates: GeoJsonPosition[][][];
+}
+
+export type ZoneGeometry = GeoJsonPolygon | GeoJsonMultiPolygon;
 
 /**
- * Get zones for a pincode
+ * Ray casting: count edge crossings of a ray running east from the point
  */
-function getZonesForPincode(pincode: string, city: string = "Bangalore"): string[] {
-  // Normalize pincode (remove spaces, ensure 6 digits)
-  const normalizedPincode = pincode.trim().replace(/\s+/g, "");
-  
-  if (city === "Bangalore" || city === "Bengaluru") {
-    // Check exact match first
-    if (BANGALORE_PINCODE_TO_ZONE[normalizedPincode]) {
-      return BANGALORE_PINCODE_TO_ZONE[normalizedPincode];
-    }
-    
-    // Check prefix match (first 3 digits) for approximate matching
-    const prefix = normalizedPincode.substring(0, 3);
-    const matchingZones: string[] = [];
-    
-    Object.entries(BANGALORE_PINCODE_TO_ZONE).forEach(([pin, zones]) => {
-      if (pin.startsWith(prefix)) {
-        zones.forEach(zone => {
-          if (!matchingZones.includes(zone)) {
-            matchingZones.push(zone);
-          }
-        });
-      }
-    });
-    
-    if (matchingZones.length > 0) {
-      return matchingZones;
-    }
+function isPointInRing(lng: number, lat: number, ring: GeoJsonPosition[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+
+    const crosses = (latI > lat) !== (latJ > lat)
+      && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI;
+
+    if (crosses) inside = !inside;
   }
-  
-  // If no mapping found, return empty array (pincode not serviceable)
-  return [];
+
+  return inside;
+}
+
+function isPointInPolygonRings(lng: number, lat: number, rings: GeoJsonPosition[][]): boolean {
+  const [outer, ...holes] = rings;
+  if (!outer || !isPointInRing(lng, lat, outer)) return false;
+  return !holes.some((hole) => isPointInRing(lng, lat, hole));
 }
 
 /**
- * Check if a pincode falls within vendor's delivery zones
- * Swiggy-style serviceability check
+ * Check if a point falls inside a zone (inside the outer ring and outside its holes)
  */
-export function isPincodeInZones(
-  pincode: string,
-  vendorZones: string[],
-  city: string = "Bangalore"
-): boolean {
-  if (!pincode || vendorZones.length === 0) {
-    return false;
-  }
-
-  // Get zones for this pincode
-  const pincodeZones = getZonesForPincode(pincode, city);
-  
-  if (pincodeZones.length === 0) {
-    // Pincode not in our mapping - check if vendor has city-wide delivery
-    const cityZones = CITY_ZONES[city] || [];
-    return cityZones.some(zone => vendorZones.includes(zone));
+export function isPointInZone(point: { lat: number; lng: number }, geometry: ZoneGeometry): boolean {
+  if (geometry.type === "Polygon") {
+    return isPointInPolygonRings(point.lng, point.lat, geometry.coordinates);
   }
+  return geometry.coordinates.some((polygon) => isPointInPolygonRings(point.lng, point.lat, polygon));
+}
 
-  // Check if any pincode zone matches vendor zones
-  return pincodeZones.some(zone => vendorZones.includes(zone));
+/**
+ * Outer rings of a zone, for drawing
+ */
+export function getZoneOuterRings(geometry: ZoneGeometry): GeoJsonPosition[][] {
+  return geometry.type === "Polygon"
+    ? geometry.coordinates.slice(0, 1)
+    : geometry.coordinates.map((polygon) => polygon[0]).filter(Boolean);
 }
 
 /**
- * Get serviceable zones for a pincode
+ * Bounding box of a set of zones, or null when there are none
  */
-export function getServiceableZones(pincode: string, city: string = "Bangalore"): string[] {
-  return getZonesForPincode(pincode, city);
+export function getZoneBounds(geometries: ZoneGeometry[]): {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+} | null {
+  const positions = geometries.flatMap((geometry) => getZoneOuterRings(geometry).flat());
+  if (positions.length === 0) return null;
+
+  return {
+    minLng: Math.min(...positions.map(([lng]) => lng)),
+    minLat: Math.min(...positions.map(([, lat]) => lat)),
+    maxLng: Math.max(...positions.map(([lng]) => lng)),
+    maxLat: Math.max(...positions.map(([, lat]) => lat)),
+  };
 }
 
 /**
@@ -128,25 +101,6 @@ export function calculateDeliveryTime(
   return "90+ mins";
 }
 
-/**
- * Calculate delivery fee based on distance and type
- */
-export function calculateDeliveryFee(
-  distance: number,
-  type: "local" | "intercity",
-  express: boolean = false
-): number {
-  if (type === "intercity") {
-    return express ? 199 : 99;
-  }
-
-  // Local delivery fees
-  if (express) {
-    return distance < 5 ? 149 : 199;
-  }
-  return distance < 5 ? 49 : 99;
-}
-
 /**
  * Validate pincode format (6 digits for India)
  */
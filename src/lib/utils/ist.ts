@@ -0,0 +1,25 @@
+/**
+ * India Standard Time helpers
+ * India has no DST, so IST is a fixed offset. Dates are YYYY-MM-DD strings in IST.
+ */
+
+export const IST_OFFSET = "+05:30";
+export const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+export const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * The IST calendar date of an instant
+ */
+export function toIstDate(date: Date): string {
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The weekday of an IST calendar date
+ */
+export function getIstWeekday(date: string): Weekday {
+  return WEEKDAYS[new Date(`${date}T12:00:00Z`).getUTCDay()];
+}
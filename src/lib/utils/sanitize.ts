@@ -147,3 +147,11 @@ export function sanitizeObject<T extends Record<string, any>>(obj: T): T {
 
 
 
+
+/**
+ * Escape LIKE/ILIKE wildcards
+ * An ilike with the escaped value is a case-insensitive exact match
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+}
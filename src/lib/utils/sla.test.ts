@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { appConfig } from "@/lib/config/app";
+import { calculateAcceptDeadline, calculateMockupSLA, getOrderMockupSlaHours } from "./sla";
+
+// 2026-03-14 is a Saturday, 2026-03-16 the Monday after
+const ist = (dateTime: string) => new Date(`${dateTime}:00+05:30`);
+
+describe("calculateMockupSLA", () => {
+  it("runs the clock inside the default operating hours", () => {
+    expect(calculateMockupSLA(ist("2026-03-10T10:00"), 2)).toEqual(ist("2026-03-10T12:00"));
+  });
+
+  it("starts the clock when the vendor opens", () => {
+    expect(calculateMockupSLA(ist("2026-03-10T07:00"), 2)).toEqual(ist("2026-03-10T11:00"));
+  });
+
+  it("pauses overnight", () => {
+    expect(calculateMockupSLA(ist("2026-03-10T20:00"), 2)).toEqual(ist("2026-03-11T10:00"));
+  });
+
+  it("skips days the vendor is closed", () => {
+    const hours = {
+      saturday: { open: "10:00", close: "18:00" },
+      monday: { open: "10:00", close: "18:00" },
+    };
+    expect(calculateMockupSLA(ist("2026-03-14T17:00"), 3, hours)).toEqual(ist("2026-03-16T12:00"));
+  });
+
+  it("falls back to wall-clock hours when the operating hours are unusable", () => {
+    const hours = { monday: { open: "18:00", close: "10:00" } };
+    const acceptedAt = ist("2026-03-14T17:00");
+    expect(calculateMockupSLA(acceptedAt, 3, hours)).toEqual(new Date(acceptedAt.getTime() + 3 * 60 * 60 * 1000));
+  });
+});
+
+describe("getOrderMockupSlaHours", () => {
+  it("takes the longest SLA among personalisable products", () => {
+    expect(
+      getOrderMockupSlaHours([
+        { isPersonalizable: true, mockupSlaHours: 4 },
+        { isPersonalizable: true, mockupSlaHours: null },
+        { isPersonalizable: false, mockupSlaHours: 48 },
+      ])
+    ).toBe(Math.max(4, appConfig.order.mockupSlaHours));
+  });
+
+  it("uses the default when nothing is personalisable", () => {
+    expect(getOrderMockupSlaHours([{ isPersonalizable: false, mockupSlaHours: 8 }])).toBe(appConfig.order.mockupSlaHours);
+  });
+});
+
+describe("calculateAcceptDeadline", () => {
+  it("adds the accept window", () => {
+    const createdAt = new Date("2026-03-10T06:30:00Z");
+    expect(calculateAcceptDeadline(createdAt).getTime() - createdAt.getTime()).toBe(
+      appConfig.order.acceptDeadlineMinutes * 60 * 1000
+    );
+  });
+});
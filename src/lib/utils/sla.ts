@@ -1,18 +1,71 @@
 /**
  * SLA (Service Level Agreement) calculation and tracking
- * For vendor mockup upload deadlines
+ * For vendor mockup upload deadlines, enforced server-side by the SLA worker
  */
 
-const MOCKUP_SLA_HOURS = 2; // 2 hours to upload mockup after order acceptance
-const ACCEPT_ORDER_DEADLINE_MINUTES = 5; // 5 minutes to accept/reject order
+import { appConfig } from "@/lib/config/app";
+import { IST_OFFSET, getIstWeekday, toIstDate } from "@/lib/utils/ist";
+
+const MOCKUP_SLA_HOURS = appConfig.order.mockupSlaHours; // Hours to upload mockup when a product doesn't set its own
+const ACCEPT_ORDER_DEADLINE_MINUTES = appConfig.order.acceptDeadlineMinutes; // Minutes to accept/reject order
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Vendor operating hours (IST), keyed by weekday; missing days are closed
+export type MockupWorkingHours = Partial<Record<string, { open: string; close: string }>>;
+
+/**
+ * Mockup SLA for an order: the longest among its personalisable products
+ * Products that don't set mockup_sla_hours use the appConfig default.
+ */
+export function getOrderMockupSlaHours(products: Array<{ isPersonalizable: boolean; mockupSlaHours: number | null }>): number {
+  const hours = products
+    .filter((product) => product.isPersonalizable)
+    .map((product) => product.mockupSlaHours ?? MOCKUP_SLA_HOURS);
+  return hours.length > 0 ? Math.max(...hours) : MOCKUP_SLA_HOURS;
+}
 
 /**
  * Calculate mockup SLA deadline
+ * The clock only runs inside the vendor's operating hours, so it pauses overnight and
+ * on closed days. Vendors that never set hours use appConfig.delivery.scheduled.defaultHours.
  */
-export function calculateMockupSLA(acceptedAt: Date): Date {
-  const deadline = new Date(acceptedAt);
-  deadline.setHours(deadline.getHours() + MOCKUP_SLA_HOURS);
-  return deadline;
+export function calculateMockupSLA(
+  acceptedAt: Date,
+  slaHours: number = MOCKUP_SLA_HOURS,
+  operatingHours?: MockupWorkingHours | null
+): Date {
+  const hours = operatingHours && Object.keys(operatingHours).length > 0 ? operatingHours : null;
+  let remaining = slaHours * HOUR_MS;
+  let cursor = acceptedAt.getTime();
+
+  // Two weeks is plenty for any SLA; anything longer means the hours are unusable
+  for (let day = 0; day < 14; day++) {
+    const date = toIstDate(new Date(cursor));
+    const weekday = getIstWeekday(date);
+    const window = hours ? hours[weekday] : appConfig.delivery.scheduled.defaultHours;
+
+    if (window) {
+      const open = new Date(`${date}T${window.open}:00${IST_OFFSET}`).getTime();
+      const close = new Date(`${date}T${window.close}:00${IST_OFFSET}`).getTime();
+
+      if (!Number.isNaN(open) && !Number.isNaN(close) && close > open) {
+        const start = Math.max(cursor, open);
+        if (start < close) {
+          if (remaining <= close - start) {
+            return new Date(start + remaining);
+          }
+          remaining -= close - start;
+        }
+      }
+    }
+
+    // Next IST midnight
+    cursor = new Date(`${date}T00:00:00${IST_OFFSET}`).getTime() + DAY_MS;
+  }
+
+  return new Date(acceptedAt.getTime() + slaHours * HOUR_MS);
 }
 
 /**
@@ -70,6 +123,16 @@ export function formatTimeRemaining(deadline: Date): string {
   return `${minutes} min left`;
 }
 
+/**
+ * Format a mockup deadline the same way for customers and vendors, e.g. "Today, 4:30 PM"
+ */
+export function formatMockupDeadline(deadline: Date): string {
+  const time = deadline.toLocaleTimeString("en-IN", { hour: "numeric", minute: "2-digit", timeZone: "Asia/Kolkata" });
+  const day = toIstDate(deadline);
+  const today = toIstDate(new Date());
+  const tomorrow = toIstDate(new Date(Date.now() + DAY_MS));
 
-
-
+  if (day === today) return `Today, ${time}`;
+  if (day === tomorrow) return `Tomorrow, ${time}`;
+  return `${deadline.toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short", timeZone: "Asia/Kolkata" })}, ${time}`;
+}
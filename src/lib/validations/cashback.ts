@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+/**
+ * Cashback rule validation schemas (admin)
+ */
+
+export const cashbackConfigSchema = z
+  .object({
+    type: z.enum(["global", "category", "vendor"]),
+    entityId: z.string().trim().min(1).nullable().optional(), // products.category or vendors.id
+    name: z.string().trim().max(100).nullable().optional(),
+    percentage: z.number().min(0, "Percentage must be between 0 and 100").max(100, "Percentage must be between 0 and 100"),
+    startsAt: z.string().datetime({ offset: true }).nullable().optional(),
+    endsAt: z.string().datetime({ offset: true }).nullable().optional(),
+    maxCashbackPerOrder: z.number().positive("Cap must be positive").nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.type !== "global" && !data.entityId) {
+      ctx.addIssue({ code: "custom", path: ["entityId"], message: "entityId required for category/vendor type" });
+    }
+    if (data.type === "vendor" && data.entityId && !z.string().uuid().safeParse(data.entityId).success) {
+      ctx.addIssue({ code: "custom", path: ["entityId"], message: "Invalid vendor ID format" });
+    }
+    if (data.startsAt && data.endsAt && new Date(data.startsAt) >= new Date(data.endsAt)) {
+      ctx.addIssue({ code: "custom", path: ["endsAt"], message: "End date must be after the start date" });
+    }
+  });
+
+export type CashbackConfigInput = z.infer<typeof cashbackConfigSchema>;
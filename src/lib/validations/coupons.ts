@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+/**
+ * Coupon validation schemas (admin CRUD)
+ */
+
+const couponFieldsSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(3, "Code must be at least 3 characters")
+    .max(32)
+    .regex(/^[A-Za-z0-9_-]+$/, "Code can only contain letters, numbers, - and _")
+    .transform((code) => code.toUpperCase()),
+  description: z.string().max(200).nullable().optional(),
+  discountType: z.enum(["flat", "percentage"]),
+  discountValue: z.number().positive("Discount must be positive"),
+  minOrderValue: z.number().nonnegative(),
+  maxDiscount: z.number().positive().nullable(),
+  usageLimit: z.number().int().positive().nullable(),
+  perUserLimit: z.number().int().positive().nullable(),
+  vendorId: z.string().uuid("Invalid vendor ID format").nullable(),
+  category: z.string().trim().min(1).max(100).nullable(),
+  firstOrderOnly: z.boolean(),
+  startsAt: z.string().datetime({ offset: true }).nullable(),
+  expiresAt: z.string().datetime({ offset: true }).nullable(),
+  isActive: z.boolean(),
+});
+
+type CouponFields = z.infer<typeof couponFieldsSchema>;
+
+function refineCoupon(data: Partial<CouponFields>, ctx: z.RefinementCtx) {
+  if (data.discountType === "percentage" && data.discountValue !== undefined && data.discountValue > 100) {
+    ctx.addIssue({ code: "custom", path: ["discountValue"], message: "Percentage discount cannot exceed 100" });
+  }
+  if (data.startsAt && data.expiresAt && new Date(data.startsAt) >= new Date(data.expiresAt)) {
+    ctx.addIssue({ code: "custom", path: ["expiresAt"], message: "Expiry must be after the start date" });
+  }
+}
+
+export const createCouponSchema = couponFieldsSchema
+  .partial()
+  .required({ code: true, discountType: true, discountValue: true })
+  .superRefine(refineCoupon);
+
+export const updateCouponSchema = couponFieldsSchema.partial().superRefine(refineCoupon);
+
+export type CreateCouponInput = z.infer<typeof createCouponSchema>;
+export type UpdateCouponInput = z.infer<typeof updateCouponSchema>;
@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { appConfig } from "@/lib/config/app";
+
+/**
+ * Delivery validation schemas (customer reattempts, admin exception handling and
+ * courier overrides)
+ */
+
+const SLOT_IDS = appConfig.delivery.reattempt.slots.map((slot) => slot.id) as [string, ...string[]];
+
+export const deliverySlotSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  slot: z.enum(SLOT_IDS),
+});
+
+export const cancelDeliverySchema = z.object({
+  reason: z.string().trim().min(3, "Please add a reason").max(500),
+  cancelOrder: z.boolean().default(false), // Also cancel (and refund) the order
+});
+
+export const courierOverrideSchema = z
+  .object({
+    vendorId: z.string().uuid().optional(),
+    city: z.string().trim().min(2, "City is required").max(100).optional(),
+    provider: z.enum(["nimbus", "simulated"]),
+  })
+  .refine((data) => Boolean(data.vendorId) !== Boolean(data.city), {
+    message: "Set either a vendor or a city",
+    path: ["vendorId"],
+  });
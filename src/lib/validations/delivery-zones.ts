@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+/**
+ * Delivery zone validation schemas (GeoJSON polygons managed by admins)
+ */
+
+// [lng, lat]; an altitude, if present, is dropped
+const positionSchema = z
+  .array(z.number())
+  .min(2)
+  .max(3)
+  .refine(([lng, lat]) => lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90, "Positions must be [longitude, latitude]")
+  .transform(([lng, lat]) => [lng, lat] as [number, number]);
+
+const ringSchema = z
+  .array(positionSchema)
+  .min(4, "A ring needs at least 4 positions")
+  .refine(
+    (ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+    "A ring must end where it starts"
+  );
+
+export const zoneGeometrySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("Polygon"),
+    coordinates: z.array(ringSchema).min(1),
+  }),
+  z.object({
+    type: z.literal("MultiPolygon"),
+    coordinates: z.array(z.array(ringSchema).min(1)).min(1),
+  }),
+]);
+
+const citySchema = z.string().trim().min(2, "City is required").max(100);
+const zoneNameSchema = z.string().trim().min(2, "Zone name is required").max(100);
+
+export const createDeliveryZoneSchema = z.object({
+  city: citySchema,
+  name: zoneNameSchema,
+  geometry: zoneGeometrySchema,
+  isActive: z.boolean().default(true),
+});
+
+export const updateDeliveryZoneSchema = z
+  .object({
+    name: zoneNameSchema,
+    geometry: zoneGeometrySchema,
+    isActive: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "Nothing to update");
+
+export const importDeliveryZonesSchema = z.object({
+  city: citySchema,
+  replace: z.boolean().default(false), // Deactivate the city's zones that aren't in the file
+  geojson: z.object({
+    type: z.literal("FeatureCollection"),
+    features: z
+      .array(
+        z.object({
+          type: z.literal("Feature"),
+          properties: z.object({ name: zoneNameSchema }),
+          geometry: zoneGeometrySchema,
+        })
+      )
+      .min(1, "The file has no zones")
+      .max(500),
+  }),
+});
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { appConfig } from "@/lib/config/app";
+
+/**
+ * Dispute validation schemas (customer, vendor and admin)
+ */
+
+export const DISPUTE_TYPES = ["wrong_product", "damaged", "quality", "other"] as const;
+export const DISPUTE_RESOLUTIONS = ["replacement", "refund", "closed"] as const;
+export const DISPUTE_STATUSES = ["open", "under_review", "resolved", "closed"] as const;
+
+export const createDisputeSchema = z.object({
+  type: z.enum(DISPUTE_TYPES),
+  claim: z.string().trim().min(10, "Please describe the problem in a little more detail").max(1000),
+  photos: z
+    .array(z.string().url("Invalid photo URL"))
+    .max(appConfig.disputes.maxPhotos, `Up to ${appConfig.disputes.maxPhotos} photos can be attached`)
+    .default([]),
+});
+
+export const respondToDisputeSchema = z.object({
+  response: z.string().trim().min(10, "Please add a little more detail").max(1000),
+});
+
+export const resolveDisputeSchema = z
+  .object({
+    resolution: z.enum(DISPUTE_RESOLUTIONS),
+    notes: z.string().trim().min(3, "Please add resolution notes").max(1000),
+    refundAmount: z.number().positive("Refund amount must be positive").optional(), // Omit for a full refund
+    deductFromVendor: z.boolean().default(false),
+    deductionAmount: z.number().positive("Deduction must be positive").optional(), // Replacement only; defaults to the vendor's share
+  })
+  .refine((data) => data.resolution === "refund" || data.refundAmount === undefined, {
+    message: "Refund amount only applies to refunds",
+    path: ["refundAmount"],
+  })
+  .refine((data) => data.resolution !== "closed" || !data.deductFromVendor, {
+    message: "Closed disputes cannot deduct from the vendor",
+    path: ["deductFromVendor"],
+  })
+  .refine((data) => data.deductionAmount === undefined || (data.resolution === "replacement" && data.deductFromVendor), {
+    message: "Deduction amount only applies to replacements charged to the vendor",
+    path: ["deductionAmount"],
+  });
+
+export type CreateDisputeInput = z.infer<typeof createDisputeSchema>;
+export type RespondToDisputeInput = z.infer<typeof respondToDisputeSchema>;
+export type ResolveDisputeInput = z.infer<typeof resolveDisputeSchema>;
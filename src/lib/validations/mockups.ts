@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { appConfig } from "@/lib/config/app";
+
+/**
+ * Mockup revision validation schemas (vendor uploads, customer review)
+ */
+
+export const MOCKUP_DECISIONS = ["approved", "rejected"] as const;
+
+// Comment pinned to a point on one of the version's images
+export const mockupAnnotationSchema = z.object({
+  imageIndex: z.number().int().min(0).max(appConfig.uploads.mockupImage.maxFiles - 1),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  comment: z.string().trim().min(1, "Please add a comment").max(300),
+});
+
+export const submitMockupsSchema = z.object({
+  mockupImages: z.record(
+    z.string().uuid("Invalid product"),
+    z
+      .array(z.string().url("Invalid image URL"))
+      .min(1, "Add at least one image")
+      .max(appConfig.uploads.mockupImage.maxFiles, `Up to ${appConfig.uploads.mockupImage.maxFiles} images per item`)
+  ),
+  notes: z.record(z.string().uuid("Invalid product"), z.string().trim().max(500)).optional(), // Artisan note per item
+});
+
+export const reviewMockupsSchema = z.object({
+  decisions: z
+    .array(
+      z
+        .object({
+          productId: z.string().uuid("Invalid product"),
+          decision: z.enum(MOCKUP_DECISIONS),
+          feedback: z.string().trim().max(1000).optional(),
+          annotations: z.array(mockupAnnotationSchema).max(20).default([]),
+        })
+        .refine((data) => data.decision === "approved" || Boolean(data.feedback) || data.annotations.length > 0, {
+          message: "Tell the artisan what to change",
+          path: ["feedback"],
+        })
+    )
+    .min(1, "Review at least one item"),
+});
+
+export type MockupAnnotationInput = z.infer<typeof mockupAnnotationSchema>;
+export type SubmitMockupsInput = z.infer<typeof submitMockupsSchema>;
+export type ReviewMockupsInput = z.infer<typeof reviewMockupsSchema>;
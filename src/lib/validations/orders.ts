@@ -1,17 +1,25 @@
 import { z } from "zod";
+import { appConfig } from "@/lib/config/app";
 
-// Order item validation schema
-export const orderItemSchema = z.object({
+// Item customization validation schema
+export const itemCustomizationSchema = z.object({
+  text: z.string().max(500).optional(),
+  photo: z.string().url().optional(),
+  giftMessage: z.string().max(500).optional(),
+});
+
+// Cart item sent for a checkout quote - prices are looked up server-side
+export const quoteItemSchema = z.object({
   productId: z.string().uuid("Invalid product ID format"),
   quantity: z.number().int().positive("Quantity must be positive"),
-  price: z.number().positive("Price must be positive"),
   selectedVariants: z.record(z.string(), z.string()).optional(),
   selectedAddOns: z.array(z.string()).optional(),
-  customization: z.object({
-    text: z.string().max(500).optional(),
-    photo: z.string().url().optional(),
-    giftMessage: z.string().max(500).optional(),
-  }).optional(),
+});
+
+// Order item validation schema - customization for the quoted line at the same position
+export const orderItemSchema = z.object({
+  productId: z.string().uuid("Invalid product ID format"),
+  customization: itemCustomizationSchema.optional(),
 });
 
 // Delivery address validation schema
@@ -23,20 +31,93 @@ export const deliveryAddressSchema = z.object({
   pincode: z.string().regex(/^\d{6}$/, "Invalid pincode"),
 });
 
-// Create order request schema
-export const createOrderSchema = z.object({
-  customerId: z.string().uuid("Invalid customer ID format").optional(), // Optional - will be set from session
+// Checkout quote request schema
+export const checkoutQuoteSchema = z.object({
+  vendorId: z.string().uuid("Invalid vendor ID format"),
+  items: z.array(quoteItemSchema).min(1, "At least one item is required"),
+  addressId: z.string().uuid("Invalid address ID format"),
+  deliverySpeed: z.enum(["standard", "express"]).optional().default("standard"),
+  deliverySlot: z
+    .object({
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid slot date"),
+      slot: z.string().min(1).max(32),
+    })
+    .optional(),
+  useCashback: z.boolean().optional().default(false),
+  couponCode: z.string().trim().min(1).max(32).optional(),
+});
+
+// Split shipment quote - the cart sent to several saved addresses, with quantities per recipient
+export const splitCheckoutQuoteSchema = z.object({
   vendorId: z.string().uuid("Invalid vendor ID format"),
-  items: z.array(orderItemSchema).min(1, "At least one item is required"),
-  deliveryAddress: deliveryAddressSchema,
-  deliveryFee: z.number().nonnegative().optional().default(0),
-  platformFee: z.number().nonnegative().optional().default(5),
-  cashbackUsed: z.number().nonnegative().optional().default(0),
-  deliveryType: z.enum(["local", "intercity"]).optional().default("local"),
+  recipients: z
+    .array(z.object({
+      addressId: z.string().uuid("Invalid address ID format"),
+      items: z.array(quoteItemSchema).min(1, "Each recipient needs at least one item"),
+    }))
+    .min(2, "Add at least two recipients")
+    .max(appConfig.checkout.maxRecipients, `Up to ${appConfig.checkout.maxRecipients} recipients per checkout`)
+    .refine(
+      (recipients) => new Set(recipients.map((recipient) => recipient.addressId)).size === recipients.length,
+      "Each recipient needs a different address"
+    ),
+  deliverySpeed: z.enum(["standard", "express"]).optional().default("standard"),
+  useCashback: z.boolean().optional().default(false),
+});
+
+// Multi-vendor cart quote - one shipment per vendor to the same saved address
+export const groupedCheckoutQuoteSchema = z.object({
+  addressId: z.string().uuid("Invalid address ID format"),
+  vendors: z
+    .array(z.object({
+      vendorId: z.string().uuid("Invalid vendor ID format"),
+      items: z.array(quoteItemSchema).min(1, "Each vendor needs at least one item"),
+    }))
+    .min(2, "Add items from at least two vendors")
+    .max(appConfig.checkout.maxVendors, `Up to ${appConfig.checkout.maxVendors} vendors per checkout`)
+    .refine(
+      (vendors) => new Set(vendors.map((vendor) => vendor.vendorId)).size === vendors.length,
+      "Group each vendor's items together"
+    ),
+  deliverySpeed: z.enum(["standard", "express"]).optional().default("standard"),
+  useCashback: z.boolean().optional().default(false),
+});
+
+// Create order request schema - amounts come from the signed quote, never the client
+export const createOrderSchema = z.object({
+  quoteToken: z.string().min(1, "Checkout quote is required"),
+  items: z.array(orderItemSchema).optional(),
   gstin: z.string().regex(/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/, "Invalid GSTIN format").optional(),
 });
 
+// Split checkout request schema - one order per shipment of the signed split or grouped quote
+export const createSplitCheckoutSchema = z.object({
+  quoteToken: z.string().min(1, "Checkout quote is required"),
+  shipments: z
+    .array(z.object({ items: z.array(orderItemSchema).optional() }))
+    .max(Math.max(appConfig.checkout.maxRecipients, appConfig.checkout.maxVendors))
+    .optional(),
+  gstin: createOrderSchema.shape.gstin,
+});
+
+export const ORDER_REJECTION_REASONS = ["out_of_stock", "cannot_personalize", "capacity", "other"] as const;
+
+// Vendor rejecting an order - "other" needs a note the customer and admins can read
+export const rejectOrderSchema = z
+  .object({
+    reason: z.enum(ORDER_REJECTION_REASONS),
+    note: z.string().trim().max(500).optional(),
+  })
+  .refine((data) => data.reason !== "other" || (data.note && data.note.length >= 3), {
+    message: "Please tell us why you can't fulfil this order",
+    path: ["note"],
+  });
+
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
 export type OrderItemInput = z.infer<typeof orderItemSchema>;
 export type DeliveryAddressInput = z.infer<typeof deliveryAddressSchema>;
-
+export type CheckoutQuoteInput = z.infer<typeof checkoutQuoteSchema>;
+export type SplitCheckoutQuoteInput = z.infer<typeof splitCheckoutQuoteSchema>;
+export type GroupedCheckoutQuoteInput = z.infer<typeof groupedCheckoutQuoteSchema>;
+export type CreateSplitCheckoutInput = z.infer<typeof createSplitCheckoutSchema>;
+export type RejectOrderInput = z.infer<typeof rejectOrderSchema>;
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+/**
+ * Refund validation schemas (admin)
+ */
+
+export const createRefundSchema = z.object({
+  amount: z.number().positive("Refund amount must be positive").optional(), // Omit for a full refund
+  reason: z.string().trim().min(3, "Please give a reason").max(500),
+});
+
+export type CreateRefundInput = z.infer<typeof createRefundSchema>;
@@ -24,3 +24,32 @@ export const vendorIdSchema = z.object({
 export type VendorIdInput = z.infer<typeof vendorIdSchema>;
 
 
+
+// Delivery slot query: the cart's product IDs, comma separated
+export const deliverySlotsQuerySchema = z.object({
+  productIds: z
+    .string()
+    .min(1, "productIds is required")
+    .transform((value) => value.split(",").map((id) => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string().uuid("Invalid product ID format")).min(1).max(50)),
+});
+
+// Vendor operating hours (days left out are closed) and scheduled slot capacity
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm");
+
+export const vendorProfileSchema = z
+  .object({
+    operatingHours: z.partialRecord(
+      z.enum(["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]),
+      z
+        .object({ open: timeOfDaySchema, close: timeOfDaySchema })
+        .refine((hours) => hours.open < hours.close, "Closing time must be after opening time")
+    ),
+    slotCapacity: z.number().int().min(1).max(100).nullable(),
+    midnightDeliveryEnabled: z.boolean(),
+    mockupAutoApprove: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "Nothing to update");
+
+export type VendorProfileInput = z.infer<typeof vendorProfileSchema>;
@@ -0,0 +1,332 @@
+/**
+ * In-memory stand-in for the Supabase service client in unit tests
+ * Supports the query builder calls the services use (filters including or(),
+ * order, limit, insert/update/upsert/delete with select, single/maybeSingle).
+ * Relations in select strings are ignored and every column is returned. Database
+ * functions are stood in for by handlers in rpcs; a handler throws { message } to
+ * raise. unique() adds a unique key that inserts are checked against, and
+ * failWrites() makes every write to a table return a database error.
+ */
+
+import crypto from "crypto";
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type Result = { data: unknown; error: { code: string; message: string } | null; count?: number | null };
+
+export type FakeRpc = (args: Row, tables: Record<string, Row[]>) => unknown;
+
+export interface SupabaseFake {
+  client: {
+    from: (table: string) => FakeQuery;
+    rpc: (name: string, args?: Row) => Promise<Result>;
+  };
+  tables: Record<string, Row[]>;
+  rpcs: Record<string, FakeRpc>;
+  unique: (table: string, columns: string[]) => void;
+  failWrites: (table: string) => void;
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+function parseList(value: string): string[] {
+  return value.replace(/^\(|\)$/g, "").split(",").map((item) => item.trim());
+}
+
+// Split a PostgREST logic tree on the commas that aren't inside parentheses
+function splitConditions(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "(") depth++;
+    if (value[i] === ")") depth--;
+    if (value[i] === "," && depth === 0) {
+      parts.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(value.slice(start));
+  return parts;
+}
+
+function parseCondition(condition: string): Filter {
+  const group = condition.match(/^(and|or)\((.*)\)$/);
+  if (group) {
+    const filters = splitConditions(group[2]).map(parseCondition);
+    return group[1] === "and"
+      ? (row) => filters.every((filter) => filter(row))
+      : (row) => filters.some((filter) => filter(row));
+  }
+
+  const negated = condition.match(/^([^.]+)\.not\.(.*)$/);
+  if (negated) {
+    const filter = parseCondition(`${negated[1]}.${negated[2]}`);
+    return (row) => !filter(row);
+  }
+
+  const [, column, operator, value] = condition.match(/^([^.]+)\.([a-z]+)\.(.*)$/) ?? [];
+  switch (operator) {
+    case "eq":
+      return (row) => String(row[column]) === value;
+    case "neq":
+      return (row) => String(row[column]) !== value;
+    case "is":
+      return (row) => String(row[column] ?? null) === value;
+    case "in":
+      return (row) => parseList(value).includes(String(row[column]));
+    case "lt":
+      return (row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) < 0;
+    case "lte":
+      return (row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) <= 0;
+    case "gt":
+      return (row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) > 0;
+    case "gte":
+      return (row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) >= 0;
+    default:
+      throw new Error(`Unsupported filter in or(): ${condition}`);
+  }
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private action: "select" | "insert" | "update" | "upsert" | "delete" = "select";
+  private rows: Row[] = [];
+  private changes: Row = {};
+  private conflictColumns = ["id"];
+  private filters: Filter[] = [];
+  private returning = false;
+  private counting = false;
+  private head = false;
+  private sort: { column: string; ascending: boolean } | null = null;
+  private from_ = 0;
+  private to_: number | null = null;
+  private mode: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(private store: Row[], private defaults: Row, private failing: boolean, private uniqueKeys: string[][]) {}
+
+  select(_columns?: string, options: { count?: string; head?: boolean } = {}): this {
+    if (this.action !== "select") this.returning = true;
+    this.counting = Boolean(options.count);
+    this.head = Boolean(options.head);
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.action = "insert";
+    this.rows = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.action = "upsert";
+    this.rows = Array.isArray(rows) ? rows : [rows];
+    if (options.onConflict) this.conflictColumns = options.onConflict.split(",").map((column) => column.trim());
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.action = "update";
+    this.changes = changes;
+    return this;
+  }
+
+  delete(): this {
+    this.action = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  not(column: string, operator: "is" | "in" | "eq", value: unknown): this {
+    this.filters.push((row) => {
+      if (operator === "is") return (row[column] ?? null) !== value;
+      if (operator === "in") return !parseList(String(value)).includes(String(row[column]));
+      return row[column] !== value;
+    });
+    return this;
+  }
+
+  or(conditions: string): this {
+    this.filters.push(parseCondition(`or(${conditions})`));
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) < 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) <= 0);
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) >= 0);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.sort = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.to_ = this.from_ + count - 1;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.from_ = from;
+    this.to_ = to;
+    return this;
+  }
+
+  single(): this {
+    this.mode = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.mode = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = Result, TResult2 = never>(
+    onfulfilled?: ((value: Result) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matching(): Row[] {
+    return this.store.filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private newRow(row: Row): Row {
+    const now = new Date().toISOString();
+    return { id: crypto.randomUUID(), created_at: now, updated_at: now, ...structuredClone(this.defaults), ...structuredClone(row) };
+  }
+
+  private execute(): Result {
+    let rows: Row[];
+
+    if (this.action !== "select" && this.failing) {
+      return { data: null, error: { code: "XX000", message: "write failed" } };
+    }
+
+    switch (this.action) {
+      case "insert":
+        rows = this.rows.map((row) => this.newRow(row));
+        for (const row of rows) {
+          const conflict = [this.conflictColumns, ...this.uniqueKeys].some((columns) =>
+            this.store.some((existing) => columns.every((column) => existing[column] === row[column]))
+          );
+          if (conflict) return { data: null, error: { code: "23505", message: "duplicate key value" } };
+        }
+        this.store.push(...rows);
+        break;
+      case "upsert":
+        rows = this.rows.map((row) => {
+          const existing = this.store.find((candidate) =>
+            this.conflictColumns.every((column) => candidate[column] === row[column])
+          );
+          if (existing) return Object.assign(existing, structuredClone(row));
+          const created = this.newRow(row);
+          this.store.push(created);
+          return created;
+        });
+        break;
+      case "update":
+        rows = this.matching();
+        rows.forEach((row) => Object.assign(row, structuredClone(this.changes)));
+        break;
+      case "delete":
+        rows = this.matching();
+        rows.forEach((row) => this.store.splice(this.store.indexOf(row), 1));
+        break;
+      default:
+        rows = this.matching();
+    }
+
+    if (this.action !== "select" && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    const count = this.counting ? rows.length : null;
+    if (this.head) return { data: null, error: null, count };
+
+    if (this.sort) {
+      const { column, ascending } = this.sort;
+      rows = [...rows].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+    }
+    rows = rows.slice(this.from_, this.to_ === null ? undefined : this.to_ + 1).map((row) => structuredClone(row));
+
+    if (this.mode === "many") return { data: rows, error: null, count };
+    if (rows.length > 1 || (this.mode === "single" && rows.length === 0)) {
+      return { data: null, error: { code: "PGRST116", message: `Expected one row, got ${rows.length}` } };
+    }
+    return { data: rows[0] ?? null, error: null };
+  }
+}
+
+/**
+ * Create an empty fake database; defaults fill columns the real tables default
+ */
+export function createSupabaseFake(defaults: Record<string, Row> = {}): SupabaseFake {
+  const tables: Record<string, Row[]> = {};
+  const failing = new Set<string>();
+  const uniqueKeys: Record<string, string[][]> = {};
+  const rpcs: Record<string, FakeRpc> = {};
+
+  return {
+    tables,
+    rpcs,
+    client: {
+      from: (table: string) => new FakeQuery((tables[table] ??= []), defaults[table] ?? {}, failing.has(table), uniqueKeys[table] ?? []),
+      rpc: async (name: string, args: Row = {}) => {
+        const handler = rpcs[name];
+        if (!handler) return { data: null, error: { code: "PGRST202", message: `Could not find the function ${name}` } };
+        try {
+          return { data: structuredClone(handler(args, tables) ?? null), error: null };
+        } catch (error) {
+          return { data: null, error: { code: "P0001", message: (error as { message: string }).message } };
+        }
+      },
+    },
+    unique: (table: string, columns: string[]) => {
+      (uniqueKeys[table] ??= []).push(columns);
+    },
+    failWrites: (table: string) => {
+      failing.add(table);
+    },
+  };
+}
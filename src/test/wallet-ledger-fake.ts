@@ -0,0 +1,120 @@
+/**
+ * In-memory post_wallet_entry() and find_wallet_discrepancies() for the Supabase fake
+ * Mirrors the database functions (src/lib/db/migrations/0037_wallet_cashback_lifecycle.sql)
+ * on the fake's wallet and wallet_transactions tables.
+ */
+
+import crypto from "crypto";
+import type { SupabaseFake } from "@/test/supabase-fake";
+
+type Row = Record<string, unknown>;
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function postWalletEntry(args: Row, tables: Record<string, Row[]>) {
+  const type = args.p_type as string;
+  const amount = round(Number(args.p_amount));
+  const key = args.p_idempotency_key as string;
+
+  if (!["credit", "debit", "hold", "release", "capture"].includes(type)) throw { message: "WALLET_INVALID_TYPE" };
+  if (!(amount > 0)) throw { message: "WALLET_INVALID_AMOUNT" };
+  if (!key) throw { message: "WALLET_IDEMPOTENCY_KEY_REQUIRED" };
+
+  const wallets = (tables.wallet ??= []);
+  const transactions = (tables.wallet_transactions ??= []);
+
+  let wallet = wallets.find((row) => row.user_id === args.p_user_id);
+  if (!wallet) {
+    wallet = { id: crypto.randomUUID(), user_id: args.p_user_id, balance: 0, held_balance: 0 };
+    wallets.push(wallet);
+  }
+  const balance = Number(wallet.balance ?? 0);
+  const held = Number(wallet.held_balance ?? 0);
+
+  const existing = transactions.find((row) => row.idempotency_key === key);
+  if (existing) {
+    if (existing.wallet_id !== wallet.id || existing.type !== type || existing.amount !== amount) {
+      throw { message: "WALLET_IDEMPOTENCY_CONFLICT" };
+    }
+    return [{ transaction_id: existing.id, wallet_id: wallet.id, balance_after: balance, created: false }];
+  }
+
+  let newBalance = balance;
+  let newHeld = held;
+
+  if (type === "credit") {
+    newBalance = balance + amount;
+  } else if (type === "debit") {
+    if (balance < amount && !args.p_allow_negative) throw { message: "WALLET_INSUFFICIENT_BALANCE" };
+    newBalance = balance - amount;
+  } else if (type === "hold") {
+    if (balance < amount) throw { message: "WALLET_INSUFFICIENT_BALANCE" };
+    newBalance = balance - amount;
+    newHeld = held + amount;
+  } else {
+    if (held < amount) throw { message: "WALLET_INSUFFICIENT_HELD_BALANCE" };
+    newHeld = held - amount;
+    if (type === "release") newBalance = balance + amount;
+  }
+
+  const transaction = {
+    id: crypto.randomUUID(),
+    wallet_id: wallet.id,
+    type,
+    amount,
+    description: args.p_description ?? null,
+    order_id: args.p_order_id ?? null,
+    idempotency_key: key,
+    entry_type: args.p_entry_type,
+    balance_after: round(newBalance),
+    metadata: args.p_metadata ?? null,
+    created_at: new Date().toISOString(),
+  };
+  transactions.push(transaction);
+  Object.assign(wallet, { balance: round(newBalance), held_balance: round(newHeld) });
+
+  return [{ transaction_id: transaction.id, wallet_id: wallet.id, balance_after: round(newBalance), created: true }];
+}
+
+function findWalletDiscrepancies(_args: Row, tables: Record<string, Row[]>) {
+  return (tables.wallet ?? []).flatMap((wallet) => {
+    const entries = (tables.wallet_transactions ?? []).filter((row) => row.wallet_id === wallet.id);
+    const sum = (signs: Record<string, number>) =>
+      round(entries.reduce((total, row) => total + (signs[row.type as string] ?? 0) * Number(row.amount), 0));
+    const ledgerBalance = sum({ credit: 1, release: 1, debit: -1, hold: -1 });
+    const ledgerHeld = sum({ hold: 1, release: -1, capture: -1 });
+    const difference = round(Number(wallet.balance ?? 0) - ledgerBalance);
+    const heldDifference = round(Number(wallet.held_balance ?? 0) - ledgerHeld);
+
+    if (difference === 0 && heldDifference === 0) return [];
+    return [{
+      wallet_id: wallet.id,
+      user_id: wallet.user_id,
+      stored_balance: wallet.balance ?? 0,
+      ledger_balance: ledgerBalance,
+      difference,
+      stored_held_balance: wallet.held_balance ?? 0,
+      ledger_held_balance: ledgerHeld,
+      held_difference: heldDifference,
+      transaction_count: entries.length,
+    }];
+  });
+}
+
+/**
+ * Register the wallet ledger functions on a fake database
+ */
+export function installWalletLedger(fake: SupabaseFake): void {
+  fake.rpcs.post_wallet_entry = postWalletEntry;
+  fake.rpcs.find_wallet_discrepancies = findWalletDiscrepancies;
+}
+
+/**
+ * A user's wallet in the fake, or zero balances if none was opened yet
+ */
+export function getWallet(fake: SupabaseFake, userId: string): { balance: number; held: number } {
+  const wallet = (fake.tables.wallet ?? []).find((row) => row.user_id === userId);
+  return { balance: Number(wallet?.balance ?? 0), held: Number(wallet?.held_balance ?? 0) };
+}
@@ -43,6 +43,13 @@ export interface Order {
     city: string;
     pincode: string;
   };
+  deliverySlot?: {
+    slot: string; // appConfig.delivery.scheduled.slots id, or the midnight slot
+    start: string;
+    end: string;
+  } | null; // Scheduled delivery window, when the customer booked one
+  isSurprise?: boolean; // Midnight surprise: the courier contacts the sender, not the recipient
+  checkoutId?: string | null; // Split checkout this order was paid with, shared by its other recipients
   gstin?: string;
   paymentId?: string;
   paymentStatus: "pending" | "completed" | "failed";